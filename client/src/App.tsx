@@ -6,6 +6,9 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import { LoadingProvider } from "@/contexts/loading-context";
 import { LanguageProvider } from "@/contexts/language-context";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedArea, RequireCapability } from "@/lib/protected-route";
+import { Capability } from "@shared/schema";
 import { Loader2 } from "lucide-react";
 import MainLayout from "@/components/layout/MainLayout";
 import Header from "@/components/layout/Header";
@@ -41,7 +44,16 @@ const LazySumupPayment = lazy(() => import("@/pages/SumupPayment"));
 const LazyPaymentSelection = lazy(() => import("@/pages/PaymentSelection"));
 const LazyPaymentSuccess = lazy(() => import("@/pages/PaymentSuccess"));
 const LazyCheckout = lazy(() => import("@/pages/Checkout"));
+const LazyPaymentSimulatorPage = lazy(() => import("@/pages/PaymentSimulatorPage"));
 const LazyHistoricalDataPage = lazy(() => import("@/pages/HistoricalDataPage"));
+const LazyLoginPage = lazy(() => import("@/pages/LoginPage"));
+const LazyAuditLogPage = lazy(() => import("@/pages/AuditLogPage"));
+const LazyReconciliationPage = lazy(() => import("@/pages/ReconciliationPage"));
+const LazyWebhookEventsPage = lazy(() => import("@/pages/WebhookEventsPage"));
+const LazyNotificationsPage = lazy(() => import("@/pages/NotificationsPage"));
+const LazyTrashPage = lazy(() => import("@/pages/TrashPage"));
+const LazyBikeReservationsPage = lazy(() => import("@/pages/BikeReservationsPage"));
+const LazyStudentPortalPage = lazy(() => import("@/pages/StudentPortalPage"));
 
 function LoadingFallback() {
   return null; // Nessun indicatore di caricamento
@@ -92,8 +104,8 @@ function Router() {
           </PublicLayout>
         </Route>
         
-        {/* Rotta generica per il pagamento del servizio segreteria */}
-        <Route path="/secretariat-payment">
+        {/* Rotta generica per il pagamento del servizio segreteria (la sigla arriva dal link dei solleciti) */}
+        <Route path="/secretariat-payment/:sigla?">
           <PublicLayout>
             <LazySecretariatPayment />
           </PublicLayout>
@@ -141,34 +153,142 @@ function Router() {
           </PublicLayout>
         </Route>
         
+        {/* Pagina di pagamento del simulatore locale dei provider (solo in sviluppo) */}
+        <Route path="/payment-simulator/:provider/:paymentId">
+          <PublicLayout>
+            <LazyPaymentSimulatorPage />
+          </PublicLayout>
+        </Route>
+        
+        {/* Portale degli studenti: accesso con link o codice via email */}
+        <Route path="/portal">
+          <PublicLayout>
+            <LazyStudentPortalPage />
+          </PublicLayout>
+        </Route>
+        
+        {/* Accesso dello staff */}
+        <Route path="/login">
+          <PublicLayout>
+            <LazyLoginPage />
+          </PublicLayout>
+        </Route>
+        
         {/* Rotte protette con nuovo layout moderno */}
         <Route>
-          <div className="min-h-screen bg-background">
-            <Header />
-            <main className="container mx-auto px-4 py-6">
-              <Switch>
-                <Route path="/" component={LazyDashboard} />
-                <Route path="/dashboard" component={LazyDashboard} />
-                <Route path="/services" component={LazyServicesPage} />
-                <Route path="/services/new">
-                  <LazyServiceForm />
-                </Route>
-                <Route path="/services/:id/edit">
-                  {params => <ServiceForm id={params.id} />}
-                </Route>
-                <Route path="/payments" component={LazyPaymentsPage} />
-                <Route path="/reports" component={LazyReportsPage} />
-                <Route path="/reports/admin" component={LazyReportsAdmin} />
-                <Route path="/maintenance" component={LazyMaintenancePage} />
-                <Route path="/students" component={LazyStudentsPage} />
-                <Route path="/historical-data" component={LazyHistoricalDataPage} />
-                <Route path="/settings" component={LazySettingsPage} />
-                <Route path="/google-auth" component={LazyGoogleAuthPage} />
-                <Route path="/scanner" component={LazyQrScannerPage} />
-                <Route component={NotFound} />
-              </Switch>
-            </main>
-          </div>
+          <ProtectedArea>
+            <div className="min-h-screen bg-background">
+              <Header />
+              <main className="container mx-auto px-4 py-6">
+                <Switch>
+                  <Route path="/">
+                    <RequireCapability capability={Capability.DASHBOARD_READ}>
+                      <LazyDashboard />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/dashboard">
+                    <RequireCapability capability={Capability.DASHBOARD_READ}>
+                      <LazyDashboard />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/services">
+                    <RequireCapability capability={Capability.SERVICES_READ}>
+                      <LazyServicesPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/services/new">
+                    <RequireCapability capability={Capability.SERVICES_WRITE}>
+                      <LazyServiceForm />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/services/:id/edit">
+                    {params => (
+                      <RequireCapability capability={Capability.SERVICES_WRITE}>
+                        <ServiceForm id={params.id} />
+                      </RequireCapability>
+                    )}
+                  </Route>
+                  <Route path="/payments">
+                    <RequireCapability capability={Capability.PAYMENTS_READ}>
+                      <LazyPaymentsPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/reports">
+                    <RequireCapability capability={Capability.REPORTS_READ}>
+                      <LazyReportsPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/reports/admin">
+                    <RequireCapability capability={Capability.REPORTS_GENERATE}>
+                      <LazyReportsAdmin />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/maintenance">
+                    <RequireCapability capability={Capability.MAINTENANCE_READ}>
+                      <LazyMaintenancePage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/students">
+                    <RequireCapability capability={Capability.STUDENTS_READ}>
+                      <LazyStudentsPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/bike-reservations">
+                    <RequireCapability capability={Capability.BIKES_READ}>
+                      <LazyBikeReservationsPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/historical-data">
+                    <RequireCapability capability={Capability.ARCHIVE_MANAGE}>
+                      <LazyHistoricalDataPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/reconciliation">
+                    <RequireCapability capability={Capability.PAYMENTS_READ}>
+                      <LazyReconciliationPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/webhook-events">
+                    <RequireCapability capability={Capability.INTEGRATIONS_MANAGE}>
+                      <LazyWebhookEventsPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/notifications">
+                    <RequireCapability capability={Capability.INTEGRATIONS_MANAGE}>
+                      <LazyNotificationsPage />
+                    </RequireCapability>
+                  </Route>
+                  {/* Ogni ruolo che legge servizi o studenti legge anche le manutenzioni; le schede seguono i permessi */}
+                  <Route path="/trash">
+                    <RequireCapability capability={Capability.MAINTENANCE_READ}>
+                      <LazyTrashPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/audit-log">
+                    <RequireCapability capability={Capability.AUDIT_READ}>
+                      <LazyAuditLogPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/settings">
+                    <RequireCapability capability={Capability.ACCOUNT_SELF}>
+                      <LazySettingsPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/google-auth">
+                    <RequireCapability capability={Capability.INTEGRATIONS_MANAGE}>
+                      <LazyGoogleAuthPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route path="/scanner">
+                    <RequireCapability capability={Capability.SERVICES_READ}>
+                      <LazyQrScannerPage />
+                    </RequireCapability>
+                  </Route>
+                  <Route component={NotFound} />
+                </Switch>
+              </main>
+            </div>
+          </ProtectedArea>
         </Route>
       </Switch>
     </Suspense>
@@ -239,14 +359,16 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <ThemeProvider defaultTheme="light" storageKey="elis-theme">
         <LanguageProvider>
-          <LoadingProvider>
-            <TooltipProvider>
-              <ApiLoadingIndicator />
-              <PageLoadingIndicator />
-              <Toaster />
-              <Router />
-            </TooltipProvider>
-          </LoadingProvider>
+          <AuthProvider>
+            <LoadingProvider>
+              <TooltipProvider>
+                <ApiLoadingIndicator />
+                <PageLoadingIndicator />
+                <Toaster />
+                <Router />
+              </TooltipProvider>
+            </LoadingProvider>
+          </AuthProvider>
         </LanguageProvider>
       </ThemeProvider>
     </QueryClientProvider>
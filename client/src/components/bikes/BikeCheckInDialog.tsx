@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BikeReservation, BikeStatus, BikeWithUsage } from "@shared/schema";
+
+export type CheckInMode = "pickup" | "return";
+
+interface BikeCheckInDialogProps {
+  reservation: BikeReservation | null;
+  mode: CheckInMode;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Consegna e riconsegna della bici in segreteria. Alla consegna si sceglie tra le bici
+ * disponibili e non già fuori; la riconsegna chiude la prenotazione e, se la bici
+ * ha bisogno di un intervento, la manda in manutenzione.
+ */
+export default function BikeCheckInDialog({ reservation, mode, onOpenChange }: BikeCheckInDialogProps) {
+  const { toast } = useToast();
+  const [bikeId, setBikeId] = useState("");
+  const [needsService, setNeedsService] = useState(false);
+  const [notes, setNotes] = useState("");
+
+  const { data: bikes } = useQuery<BikeWithUsage[]>({
+    queryKey: ["/api/bikes"],
+    enabled: reservation !== null && mode === "pickup",
+  });
+  const freeBikes = (bikes ?? []).filter(bike => bike.status === BikeStatus.AVAILABLE && !bike.currentReservation);
+
+  const close = () => {
+    setBikeId("");
+    setNeedsService(false);
+    setNotes("");
+    onOpenChange(false);
+  };
+
+  const checkInMutation = useMutation({
+    mutationFn: (): Promise<BikeReservation> =>
+      mode === "pickup"
+        ? apiRequest("POST", `/api/bike-reservations/${reservation!.id}/pickup`, { bikeId: parseInt(bikeId) })
+        : apiRequest("POST", `/api/bike-reservations/${reservation!.id}/return`, { needsService, notes: notes.trim() || undefined }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bike-reservations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bikes"] });
+      toast({ title: mode === "pickup" ? "Bici consegnata" : "Bici riconsegnata, prenotazione completata" });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: mode === "pickup" ? "Consegna non registrata" : "Riconsegna non registrata",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={reservation !== null} onOpenChange={(open) => { if (!open) close(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{mode === "pickup" ? "Consegna bici" : "Riconsegna bici"}</DialogTitle>
+          <DialogDescription>
+            {reservation && `${reservation.customerName} (${reservation.sigla}) · ${reservation.orderId}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {mode === "pickup" ? (
+          <div className="grid gap-1">
+            <Label>Bici</Label>
+            <Select value={bikeId} onValueChange={setBikeId}>
+              <SelectTrigger>
+                <SelectValue placeholder={freeBikes.length > 0 ? "Scegli la bici" : "Nessuna bici libera"} />
+              </SelectTrigger>
+              <SelectContent>
+                {freeBikes.map(bike => (
+                  <SelectItem key={bike.id} value={String(bike.id)}>
+                    {bike.code}{bike.description ? ` · ${bike.description}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <div className="grid gap-3">
+            <div className="flex items-center gap-2">
+              <Checkbox id="bike-needs-service" checked={needsService} onCheckedChange={(checked) => setNeedsService(checked === true)} />
+              <Label htmlFor="bike-needs-service">La bici ha bisogno di manutenzione</Label>
+            </div>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Note sulla riconsegna (facoltative)" />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Annulla</Button>
+          <Button
+            disabled={(mode === "pickup" && !bikeId) || checkInMutation.isPending}
+            onClick={() => checkInMutation.mutate()}
+          >
+            {checkInMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Conferma
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus } from "lucide-react";
+import { Bike, BikeStatus, BikeWithUsage } from "@shared/schema";
+
+export const bikeStatusLabels: Record<string, string> = {
+  [BikeStatus.AVAILABLE]: "Disponibile",
+  [BikeStatus.MAINTENANCE]: "In manutenzione",
+  [BikeStatus.RETIRED]: "Dismessa",
+};
+
+function formatDate(value: string | Date | null) {
+  return value ? format(new Date(value), "dd/MM/yyyy", { locale: it }) : "—";
+}
+
+/**
+ * Flotta delle bici: stato, ultimo intervento e chi ha la bici in questo momento.
+ * Rimettere disponibile una bici in manutenzione ne aggiorna la data di revisione.
+ */
+export default function BikeFleetPanel({ canWrite }: { canWrite: boolean }) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [description, setDescription] = useState("");
+
+  const { data: bikes, isLoading } = useQuery<BikeWithUsage[]>({
+    queryKey: ["/api/bikes"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (): Promise<Bike> =>
+      apiRequest("POST", "/api/bikes", { code: code.trim(), description: description.trim() || undefined }),
+    onSuccess: (bike) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bikes"] });
+      setCode("");
+      setDescription("");
+      toast({ title: `Bici ${bike.code} aggiunta alla flotta` });
+    },
+    onError: onError("Bici non aggiunta"),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: number; status: string }): Promise<Bike> =>
+      apiRequest("PATCH", `/api/bikes/${id}`, { status }),
+    onSuccess: (bike) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bikes"] });
+      toast({ title: `Bici ${bike.code}: ${bikeStatusLabels[bike.status]?.toLowerCase() ?? bike.status}` });
+    },
+    onError: onError("Stato della bici non aggiornato"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Flotta</CardTitle>
+        <CardDescription>Bici a noleggio, stato e ultimo intervento di manutenzione</CardDescription>
+      </CardHeader>
+      {canWrite && (
+        <CardContent className="flex flex-wrap gap-2">
+          <Input className="w-32" placeholder="Numero" value={code} onChange={(e) => setCode(e.target.value)} />
+          <Input className="flex-1 min-w-[200px]" placeholder="Descrizione" value={description} onChange={(e) => setDescription(e.target.value)} />
+          <Button disabled={!code.trim() || createMutation.isPending} onClick={() => createMutation.mutate()}>
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Aggiungi bici
+          </Button>
+        </CardContent>
+      )}
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="p-6 space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : !bikes || bikes.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">Nessuna bici nella flotta</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Numero</TableHead>
+                <TableHead>Descrizione</TableHead>
+                <TableHead>Ultimo intervento</TableHead>
+                <TableHead>In uso</TableHead>
+                <TableHead>Stato</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bikes.map((bike) => (
+                <TableRow key={bike.id}>
+                  <TableCell className="font-medium">{bike.code}</TableCell>
+                  <TableCell className="text-muted-foreground">{bike.description ?? "—"}</TableCell>
+                  <TableCell>{formatDate(bike.lastServiceAt)}</TableCell>
+                  <TableCell>
+                    {bike.currentReservation ? (
+                      <Badge variant="secondary">
+                        {bike.currentReservation.sigla} · dal {formatDate(bike.currentReservation.pickedUpAt)}
+                      </Badge>
+                    ) : "—"}
+                  </TableCell>
+                  <TableCell className="w-48">
+                    {canWrite ? (
+                      <Select
+                        value={bike.status}
+                        disabled={statusMutation.isPending}
+                        onValueChange={(status) => statusMutation.mutate({ id: bike.id, status })}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(bikeStatusLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      bikeStatusLabels[bike.status] ?? bike.status
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
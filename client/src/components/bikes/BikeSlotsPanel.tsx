@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { BikeSlot, BikeSlotAvailability } from "@shared/schema";
+
+export function formatSlot(slot: { startsAt: string | Date; endsAt: string | Date }) {
+  const start = new Date(slot.startsAt);
+  return `${format(start, "EEE dd/MM HH:mm", { locale: it })}–${format(new Date(slot.endsAt), "HH:mm")}`;
+}
+
+// Le fasce da oggi in poi: quelle passate restano nello storico delle prenotazioni
+export function useUpcomingBikeSlots() {
+  const from = new Date();
+  from.setHours(0, 0, 0, 0);
+  return useQuery<BikeSlotAvailability[]>({
+    queryKey: ["/api/bike-slots", { from: from.toISOString() }],
+    queryFn: async () => {
+      const response = await fetch(`/api/bike-slots?from=${encodeURIComponent(from.toISOString())}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Errore nel caricamento delle fasce orarie");
+      }
+      return response.json();
+    },
+  });
+}
+
+/**
+ * Fasce orarie prenotabili: la capienza è il numero di bici che si possono prenotare
+ * nella fascia e non può scendere sotto le prenotazioni già attive.
+ */
+export default function BikeSlotsPanel({ canWrite }: { canWrite: boolean }) {
+  const { toast } = useToast();
+  const [day, setDay] = useState("");
+  const [startTime, setStartTime] = useState("09:00");
+  const [endTime, setEndTime] = useState("12:00");
+  const [capacity, setCapacity] = useState("1");
+
+  const { data: slots, isLoading } = useUpcomingBikeSlots();
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/bike-slots"] });
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (): Promise<BikeSlot> =>
+      apiRequest("POST", "/api/bike-slots", {
+        startsAt: new Date(`${day}T${startTime}`).toISOString(),
+        endsAt: new Date(`${day}T${endTime}`).toISOString(),
+        capacity: parseInt(capacity),
+      }),
+    onSuccess: (slot) => {
+      invalidate();
+      toast({ title: "Fascia oraria creata", description: formatSlot(slot) });
+    },
+    onError: onError("Fascia oraria non creata"),
+  });
+
+  const capacityMutation = useMutation({
+    mutationFn: ({ id, capacity }: { id: number; capacity: number }): Promise<BikeSlot> =>
+      apiRequest("PATCH", `/api/bike-slots/${id}`, { capacity }),
+    onSuccess: invalidate,
+    onError: onError("Capienza non aggiornata"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/bike-slots/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Fascia oraria eliminata" });
+    },
+    onError: onError("Fascia oraria non eliminata"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Fasce orarie</CardTitle>
+        <CardDescription>Orari in cui gli studenti possono prenotare una bici e posti ancora liberi</CardDescription>
+      </CardHeader>
+      {canWrite && (
+        <CardContent className="grid gap-3 md:grid-cols-5 items-end">
+          <div className="grid gap-1">
+            <Label htmlFor="slot-day">Giorno</Label>
+            <Input id="slot-day" type="date" value={day} onChange={(e) => setDay(e.target.value)} />
+          </div>
+          <div className="grid gap-1">
+            <Label htmlFor="slot-start">Dalle</Label>
+            <Input id="slot-start" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+          </div>
+          <div className="grid gap-1">
+            <Label htmlFor="slot-end">Alle</Label>
+            <Input id="slot-end" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+          </div>
+          <div className="grid gap-1">
+            <Label htmlFor="slot-capacity">Bici</Label>
+            <Input id="slot-capacity" type="number" min={1} value={capacity} onChange={(e) => setCapacity(e.target.value)} />
+          </div>
+          <Button
+            disabled={!day || !(parseInt(capacity) > 0) || createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+          >
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Aggiungi fascia
+          </Button>
+        </CardContent>
+      )}
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="p-6 space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : !slots || slots.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">Nessuna fascia oraria in programma</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Orario</TableHead>
+                <TableHead>Capienza</TableHead>
+                <TableHead>Prenotate</TableHead>
+                <TableHead>Libere</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {slots.map((slot) => (
+                <TableRow key={slot.id}>
+                  <TableCell className="whitespace-nowrap">{formatSlot(slot)}</TableCell>
+                  <TableCell className="w-32">
+                    {canWrite ? (
+                      <Input
+                        type="number"
+                        min={Math.max(slot.booked, 1)}
+                        defaultValue={slot.capacity}
+                        onBlur={(e) => {
+                          const value = parseInt(e.target.value);
+                          if (value > 0 && value !== slot.capacity) {
+                            capacityMutation.mutate({ id: slot.id, capacity: value });
+                          }
+                        }}
+                      />
+                    ) : slot.capacity}
+                  </TableCell>
+                  <TableCell>{slot.booked}</TableCell>
+                  <TableCell>
+                    <Badge variant={slot.available > 0 ? "default" : "destructive"}>{slot.available}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {canWrite && slot.booked === 0 && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(slot.id)}
+                        title="Elimina"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
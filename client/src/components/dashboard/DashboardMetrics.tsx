@@ -6,27 +6,62 @@ import {
   TrendingUp,
   AlertTriangle,
   Shirt,
-  Clock
+  Clock,
+  Tag
 } from "lucide-react";
 import { AnimatedCard } from "@/components/ui/animated-card";
 import { ServiceType } from "@shared/schema";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
 import { motion } from "framer-motion";
 
 interface DashboardMetricsProps {
   metrics: {
     totalServices: number;
     pendingPayments: number;
-    siglaturaCount: number;
-    happyHourCount: number;
-    repairCount: number;
+    countsByType: Record<string, number>;
     totalAmount: number;
     pendingAmount: number;
   };
 }
 
+// Stile delle card per i tipi predefiniti; gli altri tipi del catalogo usano quello neutro
+const typeCardStyles: Record<string, { card: string; label: string; value: string; icon: JSX.Element }> = {
+  [ServiceType.SIGLATURA]: {
+    card: "bg-gradient-to-r from-blue-50 to-indigo-50 border-blue-100",
+    label: "text-blue-600",
+    value: "text-blue-800",
+    icon: <Shirt className="h-8 w-8 text-blue-500" />,
+  },
+  [ServiceType.HAPPY_HOUR]: {
+    card: "bg-gradient-to-r from-orange-50 to-red-50 border-orange-100",
+    label: "text-orange-600",
+    value: "text-orange-800",
+    icon: <Clock className="h-8 w-8 text-orange-500" />,
+  },
+  [ServiceType.RIPARAZIONE]: {
+    card: "bg-gradient-to-r from-green-50 to-emerald-50 border-green-100",
+    label: "text-green-600",
+    value: "text-green-800",
+    icon: <AreaChart className="h-8 w-8 text-green-500" />,
+  },
+};
+
+const defaultTypeCardStyle = {
+  card: "bg-gradient-to-r from-slate-50 to-gray-50 border-slate-200",
+  label: "text-slate-600",
+  value: "text-slate-800",
+  icon: <Tag className="h-8 w-8 text-slate-500" />,
+};
+
 export default function DashboardMetrics({ metrics }: DashboardMetricsProps) {
+  const { catalog, getLabel } = useServiceCatalog();
+
   if (!metrics) return null;
 
+  const countsByType = metrics.countsByType ?? {};
+  const [topType, topCount] = Object.entries(countsByType)
+    .sort(([, a], [, b]) => b - a)[0] ?? [ServiceType.SIGLATURA, 0];
+
   const metricsData = [
     {
       title: "Servizi Totali",
@@ -57,8 +92,8 @@ export default function DashboardMetrics({ metrics }: DashboardMetricsProps) {
       trend: "down"
     },
     {
-      title: "Siglaturi",
-      value: metrics.siglaturaCount,
+      title: getLabel(topType),
+      value: topCount,
       icon: <Shirt className="h-4 w-4" />,
       color: "text-purple-600",
       bgColor: "bg-purple-50",
@@ -136,35 +171,20 @@ export default function DashboardMetrics({ metrics }: DashboardMetricsProps) {
         animate={{ opacity: 1, y: 0 }}
         transition={{ delay: 0.6, duration: 0.5 }}
       >
-        <div className="p-4 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-100 hover:shadow-md transition-shadow">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-blue-600">Siglaturi</p>
-              <p className="text-2xl font-bold text-blue-800">{metrics.siglaturaCount}</p>
-            </div>
-            <Shirt className="h-8 w-8 text-blue-500" />
-          </div>
-        </div>
-        
-        <div className="p-4 bg-gradient-to-r from-orange-50 to-red-50 rounded-lg border border-orange-100 hover:shadow-md transition-shadow">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-orange-600">Happy Hour</p>
-              <p className="text-2xl font-bold text-orange-800">{metrics.happyHourCount}</p>
-            </div>
-            <Clock className="h-8 w-8 text-orange-500" />
-          </div>
-        </div>
-        
-        <div className="p-4 bg-gradient-to-r from-green-50 to-emerald-50 rounded-lg border border-green-100 hover:shadow-md transition-shadow">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-green-600">Riparazioni</p>
-              <p className="text-2xl font-bold text-green-800">{metrics.repairCount}</p>
+        {catalog.map(item => {
+          const style = typeCardStyles[item.code] ?? defaultTypeCardStyle;
+          return (
+            <div key={item.code} className={`p-4 rounded-lg border hover:shadow-md transition-shadow ${style.card}`}>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className={`text-sm font-medium ${style.label}`}>{getLabel(item.code)}</p>
+                  <p className={`text-2xl font-bold ${style.value}`}>{countsByType[item.code] ?? 0}</p>
+                </div>
+                {style.icon}
+              </div>
             </div>
-            <AreaChart className="h-8 w-8 text-green-500" />
-          </div>
-        </div>
+          );
+        })}
       </motion.div>
     </div>
   );
@@ -8,7 +8,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertTriangle, CheckCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { ServiceWithStudent, ServiceType } from "@shared/schema";
+import { ServiceWithStudent } from "@shared/schema";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
 
 interface PendingPaymentsProps {
   pendingPayments: ServiceWithStudent[];
@@ -17,6 +18,7 @@ interface PendingPaymentsProps {
 
 export default function PendingPayments({ pendingPayments, filterPeriod }: PendingPaymentsProps) {
   const { toast } = useToast();
+  const { getLabel } = useServiceCatalog(true);
   const [processingId, setProcessingId] = useState<number | null>(null);
 
   const mutation = useMutation({
@@ -72,12 +74,6 @@ export default function PendingPayments({ pendingPayments, filterPeriod }: Pendi
     );
   }
 
-  const serviceTypeLabels = {
-    [ServiceType.SIGLATURA]: "Siglatura",
-    [ServiceType.HAPPY_HOUR]: "Happy Hour",
-    [ServiceType.RIPARAZIONE]: "Riparazione",
-  };
-
   return (
     <Card>
       <CardHeader>
@@ -118,7 +114,7 @@ export default function PendingPayments({ pendingPayments, filterPeriod }: Pendi
                 <div className="sm:col-span-1">
                   <dt className="text-sm font-medium text-gray-500">Tipologia</dt>
                   <dd className="mt-1 text-sm text-gray-900">
-                    {serviceTypeLabels[payment.type as keyof typeof serviceTypeLabels] || payment.type}
+                    {getLabel(payment.type)}
                   </dd>
                 </div>
                 <div className="sm:col-span-1">
@@ -6,7 +6,8 @@ import {
   DropdownMenuContent, 
   DropdownMenuItem, 
   DropdownMenuTrigger,
-  DropdownMenuSeparator
+  DropdownMenuSeparator,
+  DropdownMenuLabel
 } from "@/components/ui/dropdown-menu";
 import { 
   LayoutDashboard, 
@@ -18,22 +19,42 @@ import {
   Menu,
   CreditCard,
   Search,
-  History
+  History,
+  UserCircle,
+  LogOut,
+  ScrollText,
+  Scale,
+  Inbox,
+  Mail,
+  Trash2,
+  Bike
 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useLanguage } from "@/contexts/language-context";
+import { Capability } from "@shared/schema";
 
 export default function Header() {
   const [location] = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const { user, can, logoutMutation } = useAuth();
+  const { t } = useLanguage();
 
+  // Voci di menu visibili solo ai ruoli con la capacità corrispondente
   const navigation = [
-    { name: "Dashboard", href: "/", icon: LayoutDashboard },
-    { name: "Servizi", href: "/services", icon: Shirt },
-    { name: "Studenti", href: "/students", icon: Users },
-    { name: "Manutenzioni", href: "/maintenance", icon: Wrench },
-    { name: "Pagamenti", href: "/payments", icon: CreditCard },
-    { name: "Dati Storici", href: "/historical-data", icon: History },
-    { name: "Report", href: "/reports", icon: FileText },
-  ];
+    { name: "Dashboard", href: "/", icon: LayoutDashboard, capability: Capability.DASHBOARD_READ },
+    { name: "Servizi", href: "/services", icon: Shirt, capability: Capability.SERVICES_READ },
+    { name: "Studenti", href: "/students", icon: Users, capability: Capability.STUDENTS_READ },
+    { name: "Manutenzioni", href: "/maintenance", icon: Wrench, capability: Capability.MAINTENANCE_READ },
+    { name: "Bici", href: "/bike-reservations", icon: Bike, capability: Capability.BIKES_READ },
+    { name: "Pagamenti", href: "/payments", icon: CreditCard, capability: Capability.PAYMENTS_READ },
+    { name: "Riconciliazione", href: "/reconciliation", icon: Scale, capability: Capability.PAYMENTS_READ },
+    { name: "Dati Storici", href: "/historical-data", icon: History, capability: Capability.ARCHIVE_MANAGE },
+    { name: "Report", href: "/reports", icon: FileText, capability: Capability.REPORTS_READ },
+    { name: "Webhook", href: "/webhook-events", icon: Inbox, capability: Capability.INTEGRATIONS_MANAGE },
+    { name: "Notifiche", href: "/notifications", icon: Mail, capability: Capability.INTEGRATIONS_MANAGE },
+    { name: "Cestino", href: "/trash", icon: Trash2, capability: Capability.MAINTENANCE_READ },
+    { name: "Audit", href: "/audit-log", icon: ScrollText, capability: Capability.AUDIT_READ },
+  ].filter(item => can(item.capability));
 
   const isActive = (path: string) => {
     if (path === "/" && location === "/") return true;
@@ -87,11 +108,47 @@ export default function Header() {
 
         {/* Right Actions */}
         <div className="flex items-center space-x-2">
-          <Link href="/search">
-            <Button variant="ghost" size="icon">
-              <Search className="h-4 w-4" />
-            </Button>
-          </Link>
+          {can(Capability.SEARCH) && (
+            <Link href="/search">
+              <Button variant="ghost" size="icon">
+                <Search className="h-4 w-4" />
+              </Button>
+            </Link>
+          )}
+
+          {/* Utente corrente */}
+          {user && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+                  <UserCircle className="h-4 w-4" />
+                  <span className="hidden lg:inline">{user.displayName || user.username}</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>
+                  <div className="flex flex-col">
+                    <span>{user.displayName || user.username}</span>
+                    <span className="text-xs font-normal text-muted-foreground">{t(`role_${user.role}`)}</span>
+                  </div>
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link href="/settings" className="flex items-center space-x-2">
+                    <Settings className="h-4 w-4" />
+                    <span>{t('settings')}</span>
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => logoutMutation.mutate()}
+                  className="flex items-center space-x-2"
+                >
+                  <LogOut className="h-4 w-4" />
+                  <span>{t('logout')}</span>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
 
           {/* Mobile Menu */}
           <div className="md:hidden">
@@ -113,13 +170,17 @@ export default function Header() {
                     </DropdownMenuItem>
                   );
                 })}
-                <DropdownMenuSeparator />
-                <DropdownMenuItem asChild>
-                  <Link href="/search" className="flex items-center space-x-2">
-                    <Search className="h-4 w-4" />
-                    <span>Ricerca AI</span>
-                  </Link>
-                </DropdownMenuItem>
+                {can(Capability.SEARCH) && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem asChild>
+                      <Link href="/search" className="flex items-center space-x-2">
+                        <Search className="h-4 w-4" />
+                        <span>Ricerca AI</span>
+                      </Link>
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { PaymentRefund, RefundKind, RefundStatus } from "@shared/schema";
+
+const statusLabels: Record<string, string> = {
+  [RefundStatus.COMPLETED]: "Eseguito",
+  [RefundStatus.FAILED]: "Rifiutato",
+  [RefundStatus.REVERSED]: "Annullato",
+};
+
+interface RefundsResponse {
+  refunds: PaymentRefund[];
+  refundable: number;
+}
+
+interface RefundPaymentDialogProps {
+  payment: { id: number; orderId: string; sigla: string; amount: number; paymentMethod: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Rimborso di un pagamento della segreteria tramite il suo provider.
+ * I servizi non più coperti tornano da pagare e le loro ricevute vengono annullate.
+ */
+export default function RefundPaymentDialog({ payment, onOpenChange }: RefundPaymentDialogProps) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  const refundsUrl = payment ? `/api/secretariat-payments/${payment.id}/refunds` : "";
+  const { data, isLoading } = useQuery<RefundsResponse>({
+    queryKey: [refundsUrl],
+    enabled: !!payment,
+  });
+
+  const refundMutation = useMutation({
+    // Senza importo il server rimborsa tutto il rimborsabile
+    mutationFn: () => apiRequest("POST", `/api/secretariat-payments/${payment!.id}/refund`, {
+      amount: amount ? amount : undefined,
+      reason,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [refundsUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/historical-data"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      setAmount("");
+      setReason("");
+      toast({
+        title: "Rimborso eseguito",
+        description: "I servizi non più coperti sono tornati da pagare.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Rimborso non riuscito",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    refundMutation.mutate();
+  };
+
+  return (
+    <Dialog open={!!payment} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Rimborso pagamento {payment?.orderId}</DialogTitle>
+          <DialogDescription>
+            Sigla {payment?.sigla} · €{payment?.amount.toFixed(2)} con {payment?.paymentMethod}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="space-y-6">
+            {data.refundable > 0 ? (
+              <form onSubmit={handleSubmit} className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="refundAmount">Importo (€)</Label>
+                  <Input
+                    id="refundAmount"
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    max={data.refundable}
+                    placeholder={`${data.refundable.toFixed(2)} (tutto il rimborsabile)`}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="refundReason">Motivo</Label>
+                  <Input
+                    id="refundReason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" variant="destructive" disabled={refundMutation.isPending}>
+                  {refundMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Rimborsa
+                </Button>
+              </form>
+            ) : (
+              <p className="text-sm text-muted-foreground">Il pagamento è già stato rimborsato per intero.</p>
+            )}
+
+            {data.refunds.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Rimborsi e contestazioni</div>
+                {data.refunds.map((refund) => (
+                  <div key={refund.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                    <div>
+                      <div>
+                        {refund.kind === RefundKind.CHARGEBACK ? "Contestazione" : "Rimborso"} · €{refund.amount.toFixed(2)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {format(new Date(refund.createdAt), "dd/MM/yyyy HH:mm", { locale: it })}
+                        {refund.reason ? ` · ${refund.reason}` : ""}
+                        {refund.errorMessage ? ` · ${refund.errorMessage}` : ""}
+                      </div>
+                    </div>
+                    <Badge variant={refund.status === RefundStatus.FAILED ? "destructive" : "secondary"}>
+                      {statusLabels[refund.status] ?? refund.status}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -31,7 +31,8 @@ import {
 import { apiRequest } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { getServiceTypeLabel, getPaymentStatusLabel, formatDate, formatAmount } from "@/lib/utils/services";
+import { getPaymentStatusLabel, formatDate, formatAmount } from "@/lib/utils/services";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
 import { toast } from "@/hooks/use-toast";
 
 // Tipi per i risultati di ricerca
@@ -75,6 +76,7 @@ const PRESET_SEARCHES = [
 // Componente per il risultato della ricerca
 function SearchResultItem({ result, onClose }: { result: SearchResult, onClose: () => void }) {
   const [_, setLocation] = useLocation();
+  const { getLabel: getServiceTypeLabel } = useServiceCatalog(true);
   
   const handleClick = () => {
     if (result.type === 'service') {
@@ -164,6 +166,7 @@ function SearchResultItem({ result, onClose }: { result: SearchResult, onClose:
 }
 
 export default function AiSearchDialog() {
+  const { getLabel: getServiceTypeLabel } = useServiceCatalog(true);
   const [open, setOpen] = useState(false);
   const [query, setQuery] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -3,6 +3,7 @@ import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Service, ServiceType, PaymentStatus } from "@shared/schema";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
 import { Pencil, Receipt, Trash2 } from "lucide-react";
 
 interface ServiceCardProps {
@@ -20,17 +21,19 @@ export default function ServiceCard({
   onMarkAsPaid, 
   onGenerateReceipt 
 }: ServiceCardProps) {
+  const { getLabel } = useServiceCatalog(true);
+
   // Helper function to generate badge variant based on service type
   const getServiceTypeBadge = (type: string) => {
     switch (type) {
       case ServiceType.SIGLATURA:
-        return <Badge variant="secondary">Siglatura</Badge>;
+        return <Badge variant="secondary">{getLabel(type)}</Badge>;
       case ServiceType.HAPPY_HOUR:
-        return <Badge variant="warning">Happy Hour</Badge>;
+        return <Badge variant="warning">{getLabel(type)}</Badge>;
       case ServiceType.RIPARAZIONE:
-        return <Badge variant="outline">Riparazione</Badge>;
+        return <Badge variant="outline">{getLabel(type)}</Badge>;
       default:
-        return <Badge>{type}</Badge>;
+        return <Badge>{getLabel(type)}</Badge>;
     }
   };
 
@@ -11,6 +11,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Service, ServiceType, PaymentStatus } from "@shared/schema";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
 
 // Tipo esteso per includere le informazioni dello studente
 type ServiceWithStudent = Service & { 
@@ -47,6 +48,7 @@ export default function ServiceList({
 }: ServicesListProps) {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { getLabel } = useServiceCatalog(true);
 
   // Delete service mutation
   const deleteMutation = useMutation({
@@ -124,13 +126,13 @@ export default function ServiceList({
   const getServiceTypeBadge = (type: string) => {
     switch (type) {
       case ServiceType.SIGLATURA:
-        return <Badge variant="secondary">Siglatura</Badge>;
+        return <Badge variant="secondary">{getLabel(type)}</Badge>;
       case ServiceType.HAPPY_HOUR:
-        return <Badge variant="default" className="bg-amber-500 hover:bg-amber-600">Happy Hour</Badge>;
+        return <Badge variant="default" className="bg-amber-500 hover:bg-amber-600">{getLabel(type)}</Badge>;
       case ServiceType.RIPARAZIONE:
-        return <Badge variant="outline">Riparazione</Badge>;
+        return <Badge variant="outline">{getLabel(type)}</Badge>;
       default:
-        return <Badge>{type}</Badge>;
+        return <Badge>{getLabel(type)}</Badge>;
     }
   };
 
@@ -260,8 +262,8 @@ export default function ServiceList({
                         <AlertDialogHeader>
                           <AlertDialogTitle>Sei sicuro di voler eliminare questo servizio?</AlertDialogTitle>
                           <AlertDialogDescription>
-                            Questa azione non può essere annullata. Eliminerai definitivamente il servizio
-                            e i relativi dati dal sistema.
+                            Il servizio verrà spostato nel cestino, da cui potrai ripristinarlo
+                            fino alla sua eliminazione definitiva.
                           </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
@@ -307,6 +309,7 @@ export default function ServiceList({
                   {service.type === ServiceType.SIGLATURA && <Pencil className="h-8 w-8 text-primary" />}
                   {service.type === ServiceType.HAPPY_HOUR && <ChevronRight className="h-8 w-8 text-amber-500" />}
                   {service.type === ServiceType.RIPARAZIONE && <AlertTriangle className="h-8 w-8 text-gray-700" />}
+                  {!Object.values(ServiceType).includes(service.type as any) && <Tag className="h-8 w-8 text-muted-foreground" />}
                 </div>
                 <div>
                   <div className="text-2xl font-bold flex items-center">
@@ -401,8 +404,8 @@ export default function ServiceList({
                   <AlertDialogHeader>
                     <AlertDialogTitle>Sei sicuro di voler eliminare questo servizio?</AlertDialogTitle>
                     <AlertDialogDescription>
-                      Questa azione non può essere annullata. Eliminerai definitivamente il servizio
-                      e i relativi dati dal sistema.
+                      Il servizio verrà spostato nel cestino, da cui potrai ripristinarlo
+                      fino alla sua eliminazione definitiva.
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <AlertDialogFooter>
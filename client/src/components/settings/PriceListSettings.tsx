@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Loader2, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Capability, PriceListEntry, ServiceType } from "@shared/schema";
+
+function formatDate(value: string | Date) {
+  return format(new Date(value), "dd/MM/yyyy", { locale: it });
+}
+
+// Stato di un periodo del listino rispetto ad oggi
+function getStatus(entry: PriceListEntry) {
+  const now = new Date();
+  if (new Date(entry.validFrom) > now) return { label: "Programmato", variant: "outline" as const };
+  if (entry.validTo && new Date(entry.validTo) <= now) return { label: "Scaduto", variant: "secondary" as const };
+  return { label: "In vigore", variant: "default" as const };
+}
+
+/**
+ * Listino prezzi con storico: un nuovo prezzo vale da una data in poi,
+ * i servizi già registrati mantengono l'importo del periodo in cui sono stati fatti
+ */
+export default function PriceListSettings() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can(Capability.PRICES_MANAGE);
+  const { catalog, getLabel } = useServiceCatalog(true);
+
+  const [serviceType, setServiceType] = useState<string>(ServiceType.SIGLATURA);
+  const [unitPrice, setUnitPrice] = useState("");
+  const [validFrom, setValidFrom] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: entries = [], isLoading } = useQuery<PriceListEntry[]>({
+    queryKey: ["/api/prices"],
+  });
+
+  const invalidatePrices = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/prices"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/prices/effective"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/service-catalog"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/prices", {
+      serviceType,
+      unitPrice,
+      validFrom,
+      notes: notes || null,
+    }),
+    onSuccess: () => {
+      invalidatePrices();
+      setUnitPrice("");
+      setValidFrom("");
+      setNotes("");
+      toast({
+        title: "Listino aggiornato",
+        description: `Nuovo prezzo per ${getLabel(serviceType)} in vigore dal ${formatDate(validFrom)}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Errore",
+        description: "Impossibile salvare il prezzo. La data di inizio deve essere successiva a quella del prezzo attuale.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/prices/${id}`),
+    onSuccess: () => {
+      invalidatePrices();
+      toast({
+        title: "Prezzo annullato",
+        description: "Il prezzo programmato è stato rimosso dal listino.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Errore",
+        description: "Solo i prezzi non ancora in vigore possono essere eliminati.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    addMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Listino Prezzi</CardTitle>
+        <CardDescription>
+          Prezzi per pezzo con data di validità. Un nuovo prezzo si applica ai servizi
+          a partire dalla data indicata e non modifica gli importi già registrati.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canManage && (
+          <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-5 items-end">
+            <div className="space-y-2">
+              <Label>Servizio</Label>
+              <Select value={serviceType} onValueChange={setServiceType}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {catalog.map(item => (
+                    <SelectItem key={item.code} value={item.code}>{getLabel(item.code)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="unitPrice">Prezzo per pezzo (€)</Label>
+              <Input
+                id="unitPrice"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={unitPrice}
+                onChange={(e) => setUnitPrice(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="validFrom">In vigore dal</Label>
+              <Input
+                id="validFrom"
+                type="date"
+                value={validFrom}
+                onChange={(e) => setValidFrom(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="priceNotes">Note</Label>
+              <Input
+                id="priceNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={addMutation.isPending}>
+              {addMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Aggiungi prezzo
+            </Button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Servizio</TableHead>
+                <TableHead>Prezzo</TableHead>
+                <TableHead>Dal</TableHead>
+                <TableHead>Al</TableHead>
+                <TableHead>Stato</TableHead>
+                <TableHead>Note</TableHead>
+                {canManage && <TableHead className="w-12" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const status = getStatus(entry);
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell>{getLabel(entry.serviceType)}</TableCell>
+                    <TableCell>€{entry.unitPrice.toFixed(2)}</TableCell>
+                    <TableCell>{formatDate(entry.validFrom)}</TableCell>
+                    <TableCell>{entry.validTo ? formatDate(entry.validTo) : "—"}</TableCell>
+                    <TableCell><Badge variant={status.variant}>{status.label}</Badge></TableCell>
+                    <TableCell className="text-muted-foreground">{entry.notes ?? ""}</TableCell>
+                    {canManage && (
+                      <TableCell>
+                        {status.label === "Programmato" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => deleteMutation.mutate(entry.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      {!canManage && (
+        <CardFooter>
+          <p className="text-sm text-muted-foreground">
+            Solo gli amministratori possono modificare il listino.
+          </p>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
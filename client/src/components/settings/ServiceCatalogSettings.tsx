@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Capability } from "@shared/schema";
+
+/**
+ * Catalogo dei tipi di servizio: aggiunta di nuovi tipi e disattivazione di quelli
+ * non più offerti. I tipi disattivati restano visibili nello storico e nei report.
+ */
+export default function ServiceCatalogSettings() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can(Capability.PRICES_MANAGE);
+  const { catalog, isLoading } = useServiceCatalog(true);
+
+  const [code, setCode] = useState("");
+  const [labelIt, setLabelIt] = useState("");
+  const [labelEn, setLabelEn] = useState("");
+  const [unitName, setUnitName] = useState("pezzo");
+  const [unitPrice, setUnitPrice] = useState("");
+  const [variablePrice, setVariablePrice] = useState(false);
+
+  const invalidateCatalog = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/service-catalog"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/prices"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/prices/effective"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/service-catalog", {
+      code,
+      labelIt,
+      labelEn,
+      unitName,
+      variablePrice,
+      sortOrder: catalog.length,
+      unitPrice: variablePrice ? undefined : unitPrice,
+    }),
+    onSuccess: () => {
+      invalidateCatalog();
+      toast({
+        title: "Tipo di servizio aggiunto",
+        description: `${labelIt} è ora disponibile nel modulo servizi.`,
+      });
+      setCode("");
+      setLabelIt("");
+      setLabelEn("");
+      setUnitName("pezzo");
+      setUnitPrice("");
+      setVariablePrice(false);
+    },
+    onError: () => {
+      toast({
+        title: "Errore",
+        description: "Impossibile aggiungere il tipo di servizio. Verifica che il codice non sia già in uso.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, active }: { id: number; active: boolean }) =>
+      apiRequest("PATCH", `/api/service-catalog/${id}`, { active }),
+    onSuccess: () => invalidateCatalog(),
+    onError: () => {
+      toast({
+        title: "Errore",
+        description: "Impossibile aggiornare il tipo di servizio.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tipi di Servizio</CardTitle>
+        <CardDescription>
+          I tipi disponibili nel modulo servizi, nei filtri e nei report.
+          Un tipo disattivato non può più essere registrato ma resta nello storico.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canManage && (
+          <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="catalogCode">Codice</Label>
+              <Input
+                id="catalogCode"
+                placeholder="es. lavaggio"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toLowerCase())}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="catalogLabelIt">Nome (IT)</Label>
+              <Input id="catalogLabelIt" value={labelIt} onChange={(e) => setLabelIt(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="catalogLabelEn">Nome (EN)</Label>
+              <Input id="catalogLabelEn" value={labelEn} onChange={(e) => setLabelEn(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="catalogUnitName">Unità</Label>
+              <Input id="catalogUnitName" value={unitName} onChange={(e) => setUnitName(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="catalogUnitPrice">Prezzo per unità (€)</Label>
+              <Input
+                id="catalogUnitPrice"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={unitPrice}
+                onChange={(e) => setUnitPrice(e.target.value)}
+                disabled={variablePrice}
+                required={!variablePrice}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Switch id="catalogVariablePrice" checked={variablePrice} onCheckedChange={setVariablePrice} />
+                <Label htmlFor="catalogVariablePrice">Prezzo variabile</Label>
+              </div>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Aggiungi tipo
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Codice</TableHead>
+                <TableHead>Nome</TableHead>
+                <TableHead>Unità</TableHead>
+                <TableHead>Prezzo attuale</TableHead>
+                <TableHead>Attivo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {catalog.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-mono text-sm">{item.code}</TableCell>
+                  <TableCell>{item.labelIt} <span className="text-muted-foreground">/ {item.labelEn}</span></TableCell>
+                  <TableCell>{item.unitName}</TableCell>
+                  <TableCell>
+                    {item.variablePrice
+                      ? <Badge variant="outline">Variabile</Badge>
+                      : item.unitPrice !== null ? `€${item.unitPrice.toFixed(2)}` : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={item.active}
+                      disabled={!canManage || toggleMutation.isPending}
+                      onCheckedChange={(active) => toggleMutation.mutate({ id: item.id, active })}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Capability, LedgerEntryKind, NotificationStatus, PaymentReminderHistory, StudentLedger } from "@shared/schema";
+
+const kindLabels: Record<string, string> = {
+  [LedgerEntryKind.CHARGE]: "Addebito",
+  [LedgerEntryKind.PAYMENT]: "Pagamento",
+  [LedgerEntryKind.REFUND]: "Rimborso",
+  [LedgerEntryKind.ADJUSTMENT]: "Rettifica",
+};
+
+const reminderStatusLabels: Record<string, string> = {
+  [NotificationStatus.PENDING]: "In coda",
+  [NotificationStatus.SENDING]: "In invio",
+  [NotificationStatus.SENT]: "Inviata",
+  [NotificationStatus.FAILED]: "Da ritentare",
+  [NotificationStatus.DEAD]: "Non inviata",
+};
+
+function formatAmount(value: number) {
+  return `€${value.toFixed(2)}`;
+}
+
+interface StudentLedgerDialogProps {
+  student: { id: number; sigla: string; firstName: string; lastName: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Estratto conto di uno studente: movimenti con saldo progressivo.
+ * Saldo positivo = lo studente deve pagare, negativo = ha un credito.
+ */
+export default function StudentLedgerDialog({ student, onOpenChange }: StudentLedgerDialogProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canAdjust = can(Capability.PAYMENTS_WRITE);
+
+  const [amount, setAmount] = useState("");
+  const [description, setDescription] = useState("");
+
+  const ledgerUrl = student ? `/api/students/${student.id}/ledger` : "";
+  const { data: ledger, isLoading } = useQuery<StudentLedger>({
+    queryKey: [ledgerUrl],
+    enabled: !!student,
+  });
+
+  const { data: reminderHistory } = useQuery<PaymentReminderHistory>({
+    queryKey: [student ? `/api/students/${student.id}/payment-reminders` : ""],
+    enabled: !!student,
+  });
+
+  const adjustmentMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `${ledgerUrl}/adjustments`, { amount, description }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [ledgerUrl] });
+      setAmount("");
+      setDescription("");
+      toast({
+        title: "Rettifica registrata",
+        description: "Il saldo dello studente è stato aggiornato.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Errore",
+        description: "Impossibile registrare la rettifica. Controlla importo e causale.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    adjustmentMutation.mutate();
+  };
+
+  // Le voci più recenti in alto, il saldo progressivo resta quello cronologico
+  const entries = ledger ? [...ledger.entries].reverse() : [];
+
+  return (
+    <Dialog open={!!student} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Estratto conto {student?.sigla}</DialogTitle>
+          <DialogDescription>
+            {student?.firstName} {student?.lastName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !ledger ? (
+          <div className="space-y-3">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-muted-foreground">Saldo</div>
+                <div className={`text-xl font-bold ${ledger.balance > 0 ? "text-red-600" : "text-green-600"}`}>
+                  {formatAmount(ledger.balance)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {ledger.balance > 0 ? "da pagare" : ledger.balance < 0 ? "a credito" : "in pari"}
+                </div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-muted-foreground">Addebiti</div>
+                <div className="text-lg font-semibold">{formatAmount(ledger.totals.charge)}</div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-muted-foreground">Pagamenti</div>
+                <div className="text-lg font-semibold">{formatAmount(-ledger.totals.payment)}</div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-muted-foreground">Rimborsi e rettifiche</div>
+                <div className="text-lg font-semibold">
+                  {formatAmount(ledger.totals.refund + ledger.totals.adjustment)}
+                </div>
+              </div>
+            </div>
+
+            {canAdjust && (
+              <form onSubmit={handleSubmit} className="grid gap-3 md:grid-cols-[140px_1fr_auto] items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="adjustmentAmount">Importo (€)</Label>
+                  <Input
+                    id="adjustmentAmount"
+                    type="number"
+                    step="0.01"
+                    placeholder="-5.00"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="adjustmentDescription">Causale</Label>
+                  <Input
+                    id="adjustmentDescription"
+                    placeholder="Negativo per un credito, positivo per un addebito"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" disabled={adjustmentMutation.isPending}>
+                  {adjustmentMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Registra rettifica
+                </Button>
+              </form>
+            )}
+
+            <div className="max-h-[50vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Descrizione</TableHead>
+                    <TableHead className="text-right">Importo</TableHead>
+                    <TableHead className="text-right">Saldo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                        Nessun movimento registrato
+                      </TableCell>
+                    </TableRow>
+                  ) : entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{format(new Date(entry.occurredAt), "dd/MM/yyyy", { locale: it })}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.amount > 0 ? "outline" : "secondary"}>
+                          {kindLabels[entry.kind] ?? entry.kind}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.description}</TableCell>
+                      <TableCell className={`text-right font-mono ${entry.amount < 0 ? "text-green-600" : ""}`}>
+                        {formatAmount(entry.amount)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(entry.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold">Solleciti di pagamento</h3>
+                {reminderHistory?.optOut && (
+                  <Badge variant="outline">Solleciti automatici disattivati</Badge>
+                )}
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Sollecito</TableHead>
+                    <TableHead>Destinatario</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead className="text-right">Dovuto</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!reminderHistory?.reminders.length ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                        Nessun sollecito inviato
+                      </TableCell>
+                    </TableRow>
+                  ) : reminderHistory.reminders.map((reminder) => (
+                    <TableRow key={reminder.id}>
+                      <TableCell>{format(new Date(reminder.createdAt), "dd/MM/yyyy HH:mm", { locale: it })}</TableCell>
+                      <TableCell>
+                        <Badge variant={reminder.escalated ? "destructive" : "secondary"}>
+                          {reminder.escalated ? "Ultimo sollecito" : `Promemoria ${reminder.level}`}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{reminder.recipient}</TableCell>
+                      <TableCell className="text-sm">
+                        {reminder.notificationStatus ? reminderStatusLabels[reminder.notificationStatus] ?? reminder.notificationStatus : "-"}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(reminder.totalOutstanding)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -86,7 +86,19 @@ const translations: Record<Language, Record<string, string>> = {
     'payments_management': 'Gestione Pagamenti',
     'payments_description': 'Monitoraggio semplificato dei pagamenti con integrazione PayPal per transazioni veloci e sicure.',
     'reports_management': 'Reportistica',
-    'reports_description': 'Dati e statistiche dettagliate per una visione chiara delle attività della segreteria.'
+    'reports_description': 'Dati e statistiche dettagliate per una visione chiara delle attività della segreteria.',
+
+    // Accesso staff
+    'login_title': 'Accesso staff',
+    'login_subtitle': 'Inserisci le tue credenziali per accedere al gestionale',
+    'username': 'Username',
+    'password': 'Password',
+    'login': 'Accedi',
+    'logout': 'Esci',
+    'role_admin': 'Amministratore',
+    'role_secretariat': 'Segreteria',
+    'role_maintainer': 'Manutenzione',
+    'role_read_only': 'Sola lettura'
   },
   en: {
     // Navbar
@@ -162,7 +174,19 @@ const translations: Record<Language, Record<string, string>> = {
     'payments_management': 'Payments Management',
     'payments_description': 'Simplified payment monitoring with PayPal integration for fast and secure transactions.',
     'reports_management': 'Reporting',
-    'reports_description': 'Detailed data and statistics for a clear view of secretariat activities.'
+    'reports_description': 'Detailed data and statistics for a clear view of secretariat activities.',
+
+    // Staff login
+    'login_title': 'Staff login',
+    'login_subtitle': 'Enter your credentials to access the management system',
+    'username': 'Username',
+    'password': 'Password',
+    'login': 'Sign in',
+    'logout': 'Sign out',
+    'role_admin': 'Administrator',
+    'role_secretariat': 'Secretariat',
+    'role_maintainer': 'Maintenance',
+    'role_read_only': 'Read only'
   }
 };
 
@@ -0,0 +1,83 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import type { AuthUser, CapabilityValue } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type LoginData = {
+  username: string;
+  password: string;
+};
+
+type AuthContextType = {
+  user: AuthUser | null;
+  isLoading: boolean;
+  can: (capability: CapabilityValue) => boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, LoginData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: LoginData) => apiRequest("POST", "/api/login", credentials),
+    retry: false,
+    onSuccess: (loggedUser: AuthUser) => {
+      queryClient.setQueryData(["/api/user"], loggedUser);
+    },
+    onError: () => {
+      toast({
+        title: "Accesso non riuscito",
+        description: "Username o password non corretti",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Svuotiamo la cache per non lasciare dati dello staff dopo il logout
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+  });
+
+  // Le capacità arrivano dal server, che applica la stessa matrice dei permessi
+  const can = (capability: CapabilityValue) =>
+    !!user && user.capabilities.includes(capability);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        can,
+        loginMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import type { FiscalYear } from "@shared/fiscalYear";
+
+interface FiscalYearsResponse {
+  startMonth: number;
+  current: FiscalYear;
+  years: FiscalYear[];
+}
+
+/**
+ * Anni fiscali configurati sul server (es. settembre-agosto, "2025/26"):
+ * l'anno in corso e gli ultimi dieci, dal più recente, per selettori e filtri per data.
+ */
+export function useFiscalYears() {
+  const { data, isLoading } = useQuery<FiscalYearsResponse>({
+    queryKey: ["/api/fiscal-years"],
+    staleTime: Infinity,
+  });
+
+  const getLabel = (year: number) => data?.years.find(item => item.year === year)?.label ?? String(year);
+
+  return { current: data?.current, years: data?.years ?? [], isLoading, getLabel };
+}
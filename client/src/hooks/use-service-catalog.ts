@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ServiceCatalogEntry } from "@shared/schema";
+import { useLanguage } from "@/contexts/language-context";
+
+/**
+ * Catalogo dei tipi di servizio con il prezzo di listino in vigore oggi.
+ * Con includeInactive vengono restituiti anche i tipi disattivati (per filtri e storico).
+ */
+export function useServiceCatalog(includeInactive = false) {
+  const { language } = useLanguage();
+
+  const { data: catalog = [], isLoading } = useQuery<ServiceCatalogEntry[]>({
+    queryKey: ["/api/service-catalog", { includeInactive }],
+    queryFn: async () => {
+      const response = await fetch(`/api/service-catalog${includeInactive ? "?all=true" : ""}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Errore nel caricamento del catalogo servizi");
+      }
+      return response.json();
+    },
+  });
+
+  const getItem = (code: string) => catalog.find(item => item.code === code);
+
+  // Etichetta nella lingua corrente; i codici non a catalogo vengono mostrati così come sono
+  const getLabel = (code: string) => {
+    const item = getItem(code);
+    if (!item) return code;
+    return language === "en" ? item.labelEn : item.labelIt;
+  };
+
+  return { catalog, isLoading, getItem, getLabel };
+}
@@ -0,0 +1,56 @@
+import { ReactNode } from "react";
+import { Redirect, useLocation } from "wouter";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Capability, CapabilityValue } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+
+/**
+ * Mostra il contenuto solo agli utenti dello staff autenticati,
+ * altrimenti reindirizza al login conservando la pagina richiesta
+ */
+export function ProtectedArea({ children }: { children: ReactNode }) {
+  const { user, isLoading } = useAuth();
+  const [location] = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Redirect to={`/login?redirect=${encodeURIComponent(location)}`} />;
+  }
+
+  return <>{children}</>;
+}
+
+/**
+ * Mostra la pagina solo se il ruolo dell'utente ha la capacità richiesta
+ */
+export function RequireCapability({ capability, children }: { capability: CapabilityValue; children: ReactNode }) {
+  const { can } = useAuth();
+
+  if (!can(capability)) {
+    return (
+      <div className="flex flex-col items-center justify-center py-24 text-center">
+        <ShieldAlert className="h-10 w-10 text-destructive mb-4" />
+        <h2 className="text-xl font-semibold mb-2">Accesso negato</h2>
+        <p className="text-muted-foreground">Il tuo ruolo non ha i permessi per visualizzare questa pagina.</p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
+
+/**
+ * Pagina iniziale in base al ruolo: i manutentori non vedono la dashboard
+ */
+export function getHomePath(can: (capability: CapabilityValue) => boolean): string {
+  if (can(Capability.DASHBOARD_READ)) return "/dashboard";
+  if (can(Capability.MAINTENANCE_READ)) return "/maintenance";
+  return "/settings";
+}
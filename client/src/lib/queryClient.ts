@@ -5,7 +5,23 @@ const CACHE_TIME = 10 * 60 * 1000;
 // Durata di validità prima che i dati diventino "stale" (3 minuti)
 const STALE_TIME = 3 * 60 * 1000;
 
+// Errore restituito quando il ruolo dell'utente non ha la capacità richiesta dalla rotta
+export class ForbiddenError extends Error {
+  constructor(message: string, public requiredCapability?: string) {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
+  if (res.status === 403) {
+    const body = await res.clone().json().catch(() => ({}));
+    throw new ForbiddenError(
+      body.message || "Non hai i permessi necessari per questa operazione",
+      body.requiredCapability
+    );
+  }
+
   if (!res.ok) {
     try {
       // Prova a leggere il corpo come JSON
@@ -0,0 +1,43 @@
+import type { PaymentSelection } from "@shared/schema";
+
+/**
+ * La scelta fatta in SecretariatPayment passa alle pagine dei singoli metodi di pagamento
+ * come query string: "?services=1,2" per alcuni servizi, "?amount=5.00" per un importo parziale.
+ * Senza parametri si paga tutto il dovuto.
+ */
+export function selectionToQuery(selection: PaymentSelection): string {
+  const params = new URLSearchParams();
+  if (selection.serviceIds && selection.serviceIds.length > 0) {
+    params.set("services", selection.serviceIds.join(","));
+  } else if (selection.amount !== undefined) {
+    params.set("amount", selection.amount.toFixed(2));
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+export function selectionFromQuery(search: string = window.location.search): PaymentSelection {
+  const params = new URLSearchParams(search);
+  const services = params.get("services");
+  if (services) {
+    const serviceIds = services.split(",").map(id => parseInt(id, 10)).filter(id => !isNaN(id));
+    if (serviceIds.length > 0) return { serviceIds };
+  }
+  const amount = parseFloat(params.get("amount") ?? "");
+  if (Number.isFinite(amount) && amount > 0) return { amount };
+  return {};
+}
+
+// Importo da pagare per la selezione, dati i residui dei servizi in sospeso
+export function selectionTotal(
+  pendingServices: Array<{ id: number; outstanding: number }>,
+  selection: PaymentSelection
+): number {
+  if (selection.serviceIds && selection.serviceIds.length > 0) {
+    return pendingServices
+      .filter(s => selection.serviceIds!.includes(s.id))
+      .reduce((sum, s) => sum + s.outstanding, 0);
+  }
+  if (selection.amount !== undefined) return selection.amount;
+  return pendingServices.reduce((sum, s) => sum + s.outstanding, 0);
+}
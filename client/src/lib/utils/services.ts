@@ -1,18 +1,16 @@
 import { format } from "date-fns";
 import { ServiceType, PaymentStatus, Service } from "@shared/schema";
 
-// Get a display-friendly label for service types
-export function getServiceTypeLabel(type: string): string {
-  switch (type) {
-    case ServiceType.SIGLATURA:
-      return "Siglatura";
-    case ServiceType.HAPPY_HOUR:
-      return "Happy Hour";
-    case ServiceType.RIPARAZIONE:
-      return "Riparazione";
-    default:
-      return type;
-  }
+// Colori dei grafici: fissi per i tipi predefiniti, a rotazione per gli altri tipi del catalogo
+const SERVICE_TYPE_COLORS: Record<string, string> = {
+  [ServiceType.SIGLATURA]: "#3b82f6", // blue
+  [ServiceType.HAPPY_HOUR]: "#eab308", // yellow
+  [ServiceType.RIPARAZIONE]: "#22c55e", // green
+};
+const EXTRA_COLORS = ["#a855f7", "#ef4444", "#14b8a6", "#f97316", "#ec4899", "#64748b"];
+
+export function getServiceTypeColor(type: string, index: number): string {
+  return SERVICE_TYPE_COLORS[type] ?? EXTRA_COLORS[index % EXTRA_COLORS.length];
 }
 
 // Get a display-friendly label for payment status
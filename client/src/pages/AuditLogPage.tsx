@@ -0,0 +1,307 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronDown, ChevronRight, ScrollText, RefreshCw } from "lucide-react";
+import { AuditAction, AuditEntity, AuditSource, AuditLogEntry } from "@shared/schema";
+
+interface AuditLogResponse {
+  entries: AuditLogEntry[];
+  total: number;
+}
+
+const PAGE_SIZE = 25;
+
+const entityLabels: Record<string, string> = {
+  [AuditEntity.SERVICE]: "Servizio",
+  [AuditEntity.STUDENT]: "Studente",
+  [AuditEntity.MAINTENANCE_REQUEST]: "Manutenzione",
+  [AuditEntity.RECEIPT]: "Ricevuta",
+  [AuditEntity.PAYPAL_ORDER]: "Ordine PayPal",
+  [AuditEntity.SECRETARIAT_PAYMENT]: "Pagamento segreteria",
+  [AuditEntity.BIKE_RESERVATION]: "Prenotazione bici",
+  [AuditEntity.USER]: "Utente staff",
+};
+
+const actionLabels: Record<string, string> = {
+  [AuditAction.CREATE]: "Creazione",
+  [AuditAction.UPDATE]: "Modifica",
+  [AuditAction.DELETE]: "Eliminazione",
+  [AuditAction.RESTORE]: "Ripristino",
+  [AuditAction.PURGE]: "Eliminazione definitiva",
+};
+
+const sourceLabels: Record<string, string> = {
+  [AuditSource.UI]: "Gestionale",
+  [AuditSource.PUBLIC]: "Pagina pubblica",
+  [AuditSource.WEBHOOK]: "Webhook",
+  [AuditSource.SCHEDULER]: "Scheduler",
+  [AuditSource.IMPORT]: "Import",
+  [AuditSource.SYSTEM]: "Sistema",
+};
+
+const actionVariants: Record<string, "default" | "secondary" | "destructive"> = {
+  [AuditAction.CREATE]: "default",
+  [AuditAction.UPDATE]: "secondary",
+  [AuditAction.DELETE]: "destructive",
+  [AuditAction.RESTORE]: "secondary",
+  [AuditAction.PURGE]: "destructive",
+};
+
+// Campi cambiati tra lo stato precedente e quello successivo
+function getChanges(before: unknown, after: unknown) {
+  const prev = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(prev), ...Object.keys(next)]));
+  return keys
+    .filter(key => JSON.stringify(prev[key]) !== JSON.stringify(next[key]))
+    .map(key => ({ field: key, from: prev[key], to: next[key] }));
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export default function AuditLogPage() {
+  const [entityType, setEntityType] = useState("all");
+  const [action, setAction] = useState("all");
+  const [source, setSource] = useState("all");
+  const [actor, setActor] = useState("");
+  const [entityId, setEntityId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const filters = { entityType, action, source, actor, entityId, startDate, endDate, page };
+
+  const { data, isLoading, refetch, isFetching } = useQuery<AuditLogResponse>({
+    queryKey: ["/api/audit-log", filters],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (entityType !== "all") params.set("entityType", entityType);
+      if (action !== "all") params.set("action", action);
+      if (source !== "all") params.set("source", source);
+      if (actor) params.set("actor", actor);
+      if (entityId) params.set("entityId", entityId);
+      if (startDate) params.set("startDate", startDate);
+      if (endDate) params.set("endDate", endDate);
+
+      const response = await fetch(`/api/audit-log?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Errore nel caricamento del log di audit");
+      }
+      return response.json();
+    },
+  });
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  // Ogni cambio di filtro riparte dalla prima pagina
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <ScrollText className="h-7 w-7 text-primary" />
+            Log di audit
+          </h1>
+          <p className="text-muted-foreground">
+            Tutte le modifiche ai dati, con autore, origine e valori prima/dopo
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          Aggiorna
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filtri</CardTitle>
+          <CardDescription>Restringi le modifiche per entità, operazione, origine, autore o periodo</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-4">
+          <Select value={entityType} onValueChange={updateFilter(setEntityType)}>
+            <SelectTrigger><SelectValue placeholder="Entità" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Tutte le entità</SelectItem>
+              {Object.entries(entityLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={action} onValueChange={updateFilter(setAction)}>
+            <SelectTrigger><SelectValue placeholder="Operazione" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Tutte le operazioni</SelectItem>
+              {Object.entries(actionLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={source} onValueChange={updateFilter(setSource)}>
+            <SelectTrigger><SelectValue placeholder="Origine" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Tutte le origini</SelectItem>
+              {Object.entries(sourceLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Autore (username)"
+            value={actor}
+            onChange={(e) => updateFilter(setActor)(e.target.value)}
+          />
+          <Input
+            placeholder="ID entità"
+            value={entityId}
+            onChange={(e) => updateFilter(setEntityId)(e.target.value)}
+          />
+          <Input
+            type="date"
+            value={startDate}
+            onChange={(e) => updateFilter(setStartDate)(e.target.value)}
+          />
+          <Input
+            type="date"
+            value={endDate}
+            onChange={(e) => updateFilter(setEndDate)(e.target.value)}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6 space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !data || data.entries.length === 0 ? (
+            <div className="p-12 text-center text-muted-foreground">
+              Nessuna modifica trovata con i filtri selezionati
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Data</TableHead>
+                  <TableHead>Entità</TableHead>
+                  <TableHead>Operazione</TableHead>
+                  <TableHead>Autore</TableHead>
+                  <TableHead>Origine</TableHead>
+                  <TableHead>Campi modificati</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.entries.map((entry) => {
+                  const changes = getChanges(entry.before, entry.after);
+                  const isExpanded = expandedId === entry.id;
+                  return (
+                    <Fragment key={entry.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                      >
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(entry.createdAt), "dd/MM/yyyy HH:mm:ss", { locale: it })}
+                        </TableCell>
+                        <TableCell>
+                          {entityLabels[entry.entityType] ?? entry.entityType} #{entry.entityId}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={actionVariants[entry.action] ?? "secondary"}>
+                            {actionLabels[entry.action] ?? entry.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{entry.actorName ?? "—"}</TableCell>
+                        <TableCell>{sourceLabels[entry.source] ?? entry.source}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {entry.action === AuditAction.UPDATE
+                            ? changes.map(c => c.field).join(", ") || "—"
+                            : "—"}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={7} className="bg-muted/40">
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>Campo</TableHead>
+                                  <TableHead>Prima</TableHead>
+                                  <TableHead>Dopo</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {changes.map(change => (
+                                  <TableRow key={change.field}>
+                                    <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                                    <TableCell className="font-mono text-xs break-all">{formatValue(change.from)}</TableCell>
+                                    <TableCell className="font-mono text-xs break-all">{formatValue(change.to)}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">
+          {data?.total ?? 0} modifiche · pagina {page} di {totalPages}
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Precedente
+          </Button>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Successiva
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
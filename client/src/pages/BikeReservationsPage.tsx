@@ -0,0 +1,543 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Bike, Check, Loader2, LogIn, LogOut, Plus, RefreshCw, Trash2, X } from "lucide-react";
+import {
+  BIKE_RESERVATION_TRANSITIONS,
+  BikeReservation,
+  BikeReservationDetail,
+  BikeReservationStatus,
+  BikeReservationStatusValue,
+  Capability,
+} from "@shared/schema";
+import { formatEuros } from "@shared/money";
+import BikeFleetPanel from "@/components/bikes/BikeFleetPanel";
+import BikeSlotsPanel, { formatSlot, useUpcomingBikeSlots } from "@/components/bikes/BikeSlotsPanel";
+import BikeCheckInDialog, { type CheckInMode } from "@/components/bikes/BikeCheckInDialog";
+
+interface BikeReservationsResponse {
+  reservations: BikeReservationDetail[];
+  total: number;
+}
+
+const PAGE_SIZE = 20;
+
+const statusLabels: Record<string, string> = {
+  [BikeReservationStatus.PENDING_PAYMENT]: "In attesa di pagamento",
+  [BikeReservationStatus.PAID]: "Pagata",
+  [BikeReservationStatus.APPROVED]: "Approvata",
+  [BikeReservationStatus.REJECTED]: "Rifiutata",
+  [BikeReservationStatus.COMPLETED]: "Completata",
+  [BikeReservationStatus.CANCELLED]: "Annullata",
+};
+
+const statusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  [BikeReservationStatus.PENDING_PAYMENT]: "outline",
+  [BikeReservationStatus.PAID]: "secondary",
+  [BikeReservationStatus.APPROVED]: "default",
+  [BikeReservationStatus.REJECTED]: "destructive",
+  [BikeReservationStatus.COMPLETED]: "default",
+  [BikeReservationStatus.CANCELLED]: "outline",
+};
+
+// Etichetta del pulsante che porta la prenotazione in ciascuno stato
+const actionLabels: Record<string, string> = {
+  [BikeReservationStatus.PAID]: "Segna pagata",
+  [BikeReservationStatus.APPROVED]: "Approva",
+  [BikeReservationStatus.REJECTED]: "Rifiuta",
+  [BikeReservationStatus.COMPLETED]: "Completa",
+  [BikeReservationStatus.CANCELLED]: "Annulla",
+};
+
+// Rifiuto e annullamento chiedono una nota, inviata allo studente con l'email
+const NOTE_REQUIRED: string[] = [BikeReservationStatus.REJECTED, BikeReservationStatus.CANCELLED];
+
+const emptyForm = { sigla: "", customerName: "", customerEmail: "", amount: "2.50", notes: "", slotId: "" };
+
+function formatDate(value: string | Date | null) {
+  return value ? format(new Date(value), "dd/MM/yyyy HH:mm", { locale: it }) : "—";
+}
+
+export default function BikeReservationsPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canWrite = can(Capability.BIKES_WRITE);
+  const [status, setStatus] = useState("all");
+  const [sigla, setSigla] = useState("");
+  const [page, setPage] = useState(1);
+  const [pending, setPending] = useState<{ reservation: BikeReservation; status: BikeReservationStatusValue } | null>(null);
+  const [note, setNote] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [checkIn, setCheckIn] = useState<{ reservation: BikeReservation; mode: CheckInMode } | null>(null);
+
+  const { data: slots } = useUpcomingBikeSlots();
+  const bookableSlots = (slots ?? []).filter(slot => slot.available > 0 && new Date(slot.endsAt) > new Date());
+
+  const { data: queue, isLoading: isLoadingQueue } = useQuery<BikeReservationDetail[]>({
+    queryKey: ["/api/bike-reservations/queue"],
+  });
+
+  const { data, isLoading, refetch, isFetching } = useQuery<BikeReservationsResponse>({
+    queryKey: ["/api/bike-reservations", { status, sigla, page }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (status !== "all") params.set("status", status);
+      if (sigla) params.set("sigla", sigla);
+
+      const response = await fetch(`/api/bike-reservations?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Errore nel caricamento delle prenotazioni");
+      }
+      return response.json();
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/bike-reservations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bike-reservations/queue"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bike-slots"] });
+  };
+
+  const transitionMutation = useMutation({
+    mutationFn: ({ id, status, notes }: { id: number; status: BikeReservationStatusValue; notes?: string }): Promise<BikeReservation> =>
+      apiRequest("PATCH", `/api/bike-reservations/${id}/status`, { status, notes }),
+    onSuccess: (reservation) => {
+      invalidate();
+      setPending(null);
+      setNote("");
+      toast({
+        title: `Prenotazione ${statusLabels[reservation.status]?.toLowerCase() ?? reservation.status}`,
+        description: `${reservation.customerName} (${reservation.sigla}) riceverà un'email`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Cambio di stato non riuscito", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (): Promise<BikeReservation> =>
+      apiRequest("POST", "/api/bike-reservations", {
+        sigla: form.sigla.trim(),
+        customerName: form.customerName.trim(),
+        customerEmail: form.customerEmail.trim(),
+        amount: Number(form.amount.replace(",", ".")),
+        notes: form.notes.trim() || undefined,
+        slotId: form.slotId ? parseInt(form.slotId) : undefined,
+      }),
+    onSuccess: (reservation) => {
+      invalidate();
+      setIsCreating(false);
+      setForm(emptyForm);
+      toast({ title: "Prenotazione creata", description: `Codice ${reservation.orderId}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Prenotazione non creata", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/bike-reservations/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Prenotazione eliminata" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Eliminazione non riuscita", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const requestTransition = (reservation: BikeReservation, next: BikeReservationStatusValue) => {
+    if (NOTE_REQUIRED.includes(next)) {
+      setPending({ reservation, status: next });
+    } else {
+      transitionMutation.mutate({ id: reservation.id, status: next });
+    }
+  };
+
+  const renderActions = (reservation: BikeReservationDetail) => {
+    if (!canWrite) return null;
+    // Con la bici fuori l'unica azione è la riconsegna, che completa la prenotazione
+    if (reservation.pickedUpAt && !reservation.returnedAt) {
+      return (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={() => setCheckIn({ reservation, mode: "return" })}>
+            <LogIn className="h-4 w-4 mr-1" />
+            Riconsegna
+          </Button>
+        </div>
+      );
+    }
+    const next = BIKE_RESERVATION_TRANSITIONS[reservation.status as BikeReservationStatusValue] ?? [];
+    const isBusy = transitionMutation.isPending && transitionMutation.variables?.id === reservation.id;
+    const canPickUp = reservation.status === BikeReservationStatus.APPROVED && !reservation.pickedUpAt;
+    return (
+      <div className="flex justify-end gap-2">
+        {canPickUp && (
+          <Button size="sm" onClick={() => setCheckIn({ reservation, mode: "pickup" })}>
+            <LogOut className="h-4 w-4 mr-1" />
+            Consegna
+          </Button>
+        )}
+        {next.map((target) => (
+          <Button
+            key={target}
+            size="sm"
+            variant={target === BikeReservationStatus.APPROVED ? "default" : "outline"}
+            disabled={transitionMutation.isPending}
+            onClick={() => requestTransition(reservation, target)}
+          >
+            {isBusy && transitionMutation.variables?.status === target && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {actionLabels[target] ?? target}
+          </Button>
+        ))}
+        {!reservation.paymentDate && (
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={deleteMutation.isPending}
+            onClick={() => deleteMutation.mutate(reservation.id)}
+            title="Elimina"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Bike className="h-7 w-7 text-primary" />
+            Prenotazioni bici
+          </h1>
+          <p className="text-muted-foreground">
+            Fasce orarie, flotta, approvazione delle prenotazioni pagate e consegna delle bici; lo studente riceve un'email a ogni passaggio
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+            Aggiorna
+          </Button>
+          {canWrite && (
+            <Button onClick={() => setIsCreating(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Nuova prenotazione
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Tabs defaultValue="reservations">
+        <TabsList>
+          <TabsTrigger value="reservations">Prenotazioni</TabsTrigger>
+          <TabsTrigger value="slots">Fasce orarie</TabsTrigger>
+          <TabsTrigger value="fleet">Flotta</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="reservations" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                Da approvare
+                {queue && queue.length > 0 && <Badge variant="secondary">{queue.length}</Badge>}
+              </CardTitle>
+              <CardDescription>Prenotazioni pagate in attesa della segreteria, dalla più vecchia</CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {isLoadingQueue ? (
+                <div className="p-6 space-y-3">
+                  {Array.from({ length: 2 }).map((_, i) => (
+                    <Skeleton key={i} className="h-10 w-full" />
+                  ))}
+                </div>
+              ) : !queue || queue.length === 0 ? (
+                <div className="p-8 text-center text-muted-foreground">Nessuna prenotazione da approvare</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pagata il</TableHead>
+                      <TableHead>Fascia</TableHead>
+                      <TableHead>Sigla</TableHead>
+                      <TableHead>Studente</TableHead>
+                      <TableHead className="text-right">Importo</TableHead>
+                      <TableHead>Note</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {queue.map((reservation) => (
+                      <TableRow key={reservation.id}>
+                        <TableCell className="whitespace-nowrap">{formatDate(reservation.paymentDate)}</TableCell>
+                        <TableCell className="whitespace-nowrap">{reservation.slot ? formatSlot(reservation.slot) : "—"}</TableCell>
+                        <TableCell className="font-medium">{reservation.sigla}</TableCell>
+                        <TableCell>
+                          <div>{reservation.customerName}</div>
+                          <div className="text-xs text-muted-foreground">{reservation.customerEmail}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatEuros(reservation.amount)}</TableCell>
+                        <TableCell className="text-muted-foreground max-w-[220px] truncate">{reservation.notes ?? "—"}</TableCell>
+                        <TableCell>
+                          {canWrite && (
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                size="sm"
+                                disabled={transitionMutation.isPending}
+                                onClick={() => requestTransition(reservation, BikeReservationStatus.APPROVED)}
+                              >
+                                <Check className="h-4 w-4 mr-1" />
+                                Approva
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={transitionMutation.isPending}
+                                onClick={() => requestTransition(reservation, BikeReservationStatus.REJECTED)}
+                              >
+                                <X className="h-4 w-4 mr-1" />
+                                Rifiuta
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Tutte le prenotazioni</CardTitle>
+              <CardDescription>Restringi per stato o sigla</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-4">
+              <Select value={status} onValueChange={(value) => { setStatus(value); setPage(1); }}>
+                <SelectTrigger><SelectValue placeholder="Stato" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tutti gli stati</SelectItem>
+                  {Object.entries(statusLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Sigla"
+                value={sigla}
+                onChange={(e) => { setSigla(e.target.value); setPage(1); }}
+              />
+            </CardContent>
+            <CardContent className="p-0">
+              {isLoading ? (
+                <div className="p-6 space-y-3">
+                  {Array.from({ length: 5 }).map((_, i) => (
+                    <Skeleton key={i} className="h-10 w-full" />
+                  ))}
+                </div>
+              ) : !data || data.reservations.length === 0 ? (
+                <div className="p-12 text-center text-muted-foreground">
+                  Nessuna prenotazione trovata con i filtri selezionati
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Creata il</TableHead>
+                      <TableHead>Codice</TableHead>
+                      <TableHead>Fascia</TableHead>
+                      <TableHead>Bici</TableHead>
+                      <TableHead>Sigla</TableHead>
+                      <TableHead>Studente</TableHead>
+                      <TableHead className="text-right">Importo</TableHead>
+                      <TableHead>Stato</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.reservations.map((reservation) => (
+                      <TableRow key={reservation.id}>
+                        <TableCell className="whitespace-nowrap">{formatDate(reservation.createdAt)}</TableCell>
+                        <TableCell className="font-mono text-xs max-w-[180px] truncate">{reservation.orderId}</TableCell>
+                        <TableCell className="whitespace-nowrap">{reservation.slot ? formatSlot(reservation.slot) : "—"}</TableCell>
+                        <TableCell>
+                          {reservation.bikeCode ?? "—"}
+                          {reservation.pickedUpAt && !reservation.returnedAt && (
+                            <Badge variant="secondary" className="ml-2">fuori</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-medium">{reservation.sigla}</TableCell>
+                        <TableCell>
+                          <div>{reservation.customerName}</div>
+                          <div className="text-xs text-muted-foreground">{reservation.customerEmail}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatEuros(reservation.amount)}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[reservation.status] ?? "secondary"}>
+                            {statusLabels[reservation.status] ?? reservation.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{renderActions(reservation)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">
+              {data?.total ?? 0} prenotazioni · pagina {page} di {totalPages}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Precedente
+              </Button>
+              <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                Successiva
+              </Button>
+            </div>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="slots">
+          <BikeSlotsPanel canWrite={canWrite} />
+        </TabsContent>
+
+        <TabsContent value="fleet">
+          <BikeFleetPanel canWrite={canWrite} />
+        </TabsContent>
+      </Tabs>
+
+      <BikeCheckInDialog
+        reservation={checkIn?.reservation ?? null}
+        mode={checkIn?.mode ?? "pickup"}
+        onOpenChange={(open) => { if (!open) setCheckIn(null); }}
+      />
+
+      <Dialog open={pending !== null} onOpenChange={(open) => { if (!open) { setPending(null); setNote(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pending && `${actionLabels[pending.status]} la prenotazione di ${pending.reservation.customerName}`}
+            </DialogTitle>
+            <DialogDescription>Il motivo è riportato nell'email inviata allo studente</DialogDescription>
+          </DialogHeader>
+          <Textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="Motivo" />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setPending(null); setNote(""); }}>Indietro</Button>
+            <Button
+              variant="destructive"
+              disabled={!note.trim() || transitionMutation.isPending}
+              onClick={() => pending && transitionMutation.mutate({ id: pending.reservation.id, status: pending.status, notes: note.trim() })}
+            >
+              {transitionMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Conferma
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nuova prenotazione bici</DialogTitle>
+            <DialogDescription>La prenotazione parte in attesa di pagamento e occupa un posto nella fascia scelta</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3">
+            {([
+              ["sigla", "Sigla"],
+              ["customerName", "Nome e cognome"],
+              ["customerEmail", "Email"],
+              ["amount", "Importo (€)"],
+            ] as const).map(([field, label]) => (
+              <div key={field} className="grid gap-1">
+                <Label htmlFor={`bike-${field}`}>{label}</Label>
+                <Input
+                  id={`bike-${field}`}
+                  type={field === "customerEmail" ? "email" : "text"}
+                  value={form[field]}
+                  onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                />
+              </div>
+            ))}
+            <div className="grid gap-1">
+              <Label>Fascia oraria</Label>
+              <Select value={form.slotId} onValueChange={(slotId) => setForm({ ...form, slotId })}>
+                <SelectTrigger>
+                  <SelectValue placeholder={bookableSlots.length > 0 ? "Scegli la fascia" : "Nessuna fascia con posti liberi"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {bookableSlots.map((slot) => (
+                    <SelectItem key={slot.id} value={String(slot.id)}>
+                      {formatSlot(slot)} · {slot.available} {slot.available === 1 ? "bici libera" : "bici libere"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="bike-notes">Note</Label>
+              <Textarea id="bike-notes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreating(false)}>Annulla</Button>
+            <Button
+              disabled={!form.sigla.trim() || !form.customerName.trim() || !form.customerEmail.trim() || createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Crea
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
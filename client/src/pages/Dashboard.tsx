@@ -284,9 +284,7 @@ export default function Dashboard() {
         <DashboardMetrics metrics={metrics || {
           totalServices: 0,
           pendingPayments: 0,
-          siglaturaCount: 0,
-          happyHourCount: 0,
-          repairCount: 0,
+          countsByType: {},
           totalAmount: 0,
           pendingAmount: 0
         }} />
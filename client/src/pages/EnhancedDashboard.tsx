@@ -1,5 +1,7 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
+import { getServiceTypeColor } from "@/lib/utils/services";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -36,11 +38,7 @@ interface EnhancedMetrics {
   pendingPayments: number;
   completedPayments: number;
   averageServiceValue: number;
-  servicesByType: {
-    siglatura: number;
-    riparazione: number;
-    happy_hour: number;
-  };
+  servicesByType: Record<string, number>; // Conteggi per codice del catalogo servizi
   maintenanceStats: {
     total: number;
     pending: number;
@@ -64,6 +62,7 @@ interface QuickAction {
 
 export default function EnhancedDashboard() {
   const [selectedPeriod, setSelectedPeriod] = useState<string>('month');
+  const { catalog, getLabel } = useServiceCatalog();
   
   // Query per le metriche avanzate
   const { data: enhancedMetrics, isLoading } = useQuery<EnhancedMetrics>({
@@ -292,38 +291,18 @@ export default function EnhancedDashboard() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <div className="w-3 h-3 bg-blue-500 rounded-full" />
-                  <span className="text-sm font-medium">Siglatura</span>
-                </div>
-                <div className="text-right">
-                  <div className="font-semibold">{enhancedMetrics?.servicesByType.siglatura || 0}</div>
-                  <div className="text-xs text-gray-500">servizi</div>
-                </div>
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <div className="w-3 h-3 bg-green-500 rounded-full" />
-                  <span className="text-sm font-medium">Riparazione</span>
-                </div>
-                <div className="text-right">
-                  <div className="font-semibold">{enhancedMetrics?.servicesByType.riparazione || 0}</div>
-                  <div className="text-xs text-gray-500">servizi</div>
-                </div>
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <div className="w-3 h-3 bg-purple-500 rounded-full" />
-                  <span className="text-sm font-medium">Happy Hour</span>
-                </div>
-                <div className="text-right">
-                  <div className="font-semibold">{enhancedMetrics?.servicesByType.happy_hour || 0}</div>
-                  <div className="text-xs text-gray-500">servizi</div>
+              {catalog.map((item, index) => (
+                <div key={item.code} className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: getServiceTypeColor(item.code, index) }} />
+                    <span className="text-sm font-medium">{getLabel(item.code)}</span>
+                  </div>
+                  <div className="text-right">
+                    <div className="font-semibold">{enhancedMetrics?.servicesByType[item.code] || 0}</div>
+                    <div className="text-xs text-gray-500">servizi</div>
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
           </CardContent>
         </Card>
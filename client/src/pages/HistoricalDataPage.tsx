@@ -6,9 +6,15 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Calendar, Download, Search, Filter, Clock, Euro, User, Wrench } from 'lucide-react';
+import { Archive, Calendar, Download, Search, Filter, Clock, Euro, User, Wrench, Undo2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { it } from 'date-fns/locale';
+import { useServiceCatalog } from '@/hooks/use-service-catalog';
+import { useFiscalYears } from '@/hooks/use-fiscal-years';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import RefundPaymentDialog from '@/components/payments/RefundPaymentDialog';
+import { Capability, SecretariatPaymentStatus } from '@shared/schema';
 
 // Tipi per i dati storici
 interface HistoricalService {
@@ -55,15 +61,25 @@ interface HistoricalDataResponse {
 }
 
 export default function HistoricalDataPage() {
-  const [selectedYear, setSelectedYear] = useState<string>('2025');
+  const { catalog, getLabel } = useServiceCatalog(true);
+  const { current: currentFiscalYear, years: availableYears, getLabel: getYearLabel } = useFiscalYears();
+  // Finché l'utente non sceglie, l'anno fiscale in corso
+  const [chosenYear, setChosenYear] = useState<string>();
+  const selectedYear = chosenYear ?? currentFiscalYear?.year.toString() ?? '';
+  const yearLabel = selectedYear ? getYearLabel(parseInt(selectedYear)) : '';
   const [searchTerm, setSearchTerm] = useState('');
   const [activeTab, setActiveTab] = useState('overview');
   const [serviceTypeFilter, setServiceTypeFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [refundPayment, setRefundPayment] = useState<HistoricalPayment | null>(null);
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const canRefund = can(Capability.PAYMENTS_WRITE);
 
   // Query per ottenere i dati storici
   const { data: historicalData, isLoading } = useQuery<HistoricalDataResponse>({
     queryKey: ['/api/historical-data', selectedYear, searchTerm, serviceTypeFilter, statusFilter],
+    enabled: selectedYear !== '',
     queryFn: async () => {
       const params = new URLSearchParams({
         year: selectedYear,
@@ -78,10 +94,6 @@ export default function HistoricalDataPage() {
     },
   });
 
-  // Anni disponibili (ultimi 10 anni)
-  const currentYear = new Date().getFullYear();
-  const availableYears = Array.from({ length: 10 }, (_, i) => currentYear - i);
-
   // Funzione per l'export dei dati
   const handleExport = () => {
     if (!historicalData) return;
@@ -133,6 +145,22 @@ export default function HistoricalDataPage() {
     document.body.removeChild(link);
   };
 
+  // Pacchetto completo dell'anno archiviato (CSV, manifest e PDF), reimportabile in un'altra istanza
+  const handleArchiveExport = async () => {
+    const response = await fetch(`/api/archive/export/${selectedYear}`, { credentials: 'include' });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      toast({ title: 'Esportazione non riuscita', description: body.error ?? response.statusText, variant: 'destructive' });
+      return;
+    }
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `archivio_${selectedYear}.tar.gz`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const formatDate = (dateString: string) => {
     return format(new Date(dateString), 'dd/MM/yyyy HH:mm', { locale: it });
   };
@@ -190,6 +218,10 @@ export default function HistoricalDataPage() {
             <Download className="h-4 w-4" />
             Esporta CSV
           </Button>
+          <Button onClick={handleArchiveExport} variant="outline" className="gap-2">
+            <Archive className="h-4 w-4" />
+            Esporta archivio
+          </Button>
         </div>
       </div>
 
@@ -199,14 +231,14 @@ export default function HistoricalDataPage() {
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div>
               <label className="text-sm font-medium mb-2 block">Anno</label>
-              <Select value={selectedYear} onValueChange={setSelectedYear}>
+              <Select value={selectedYear} onValueChange={setChosenYear}>
                 <SelectTrigger>
                   <SelectValue placeholder="Seleziona anno" />
                 </SelectTrigger>
                 <SelectContent>
-                  {availableYears.map(year => (
+                  {availableYears.map(({ year, label }) => (
                     <SelectItem key={year} value={year.toString()}>
-                      {year}
+                      {label}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -234,9 +266,9 @@ export default function HistoricalDataPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Tutti i tipi</SelectItem>
-                  <SelectItem value="siglatura">Siglatura</SelectItem>
-                  <SelectItem value="riparazione">Riparazione</SelectItem>
-                  <SelectItem value="happy_hour">Happy Hour</SelectItem>
+                  {catalog.map(item => (
+                    <SelectItem key={item.code} value={item.code}>{getLabel(item.code)}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -274,7 +306,7 @@ export default function HistoricalDataPage() {
             <div className="text-2xl font-bold text-gray-900 dark:text-white">
               {historicalData?.totalServices || 0}
             </div>
-            <p className="text-xs text-gray-500 mt-1">Anno {selectedYear}</p>
+            <p className="text-xs text-gray-500 mt-1">Anno {yearLabel}</p>
           </CardContent>
         </Card>
 
@@ -290,7 +322,7 @@ export default function HistoricalDataPage() {
             <div className="text-2xl font-bold text-gray-900 dark:text-white">
               {historicalData?.totalMaintenanceRequests || 0}
             </div>
-            <p className="text-xs text-gray-500 mt-1">Anno {selectedYear}</p>
+            <p className="text-xs text-gray-500 mt-1">Anno {yearLabel}</p>
           </CardContent>
         </Card>
 
@@ -306,7 +338,7 @@ export default function HistoricalDataPage() {
             <div className="text-2xl font-bold text-gray-900 dark:text-white">
               {historicalData?.totalPayments || 0}
             </div>
-            <p className="text-xs text-gray-500 mt-1">Anno {selectedYear}</p>
+            <p className="text-xs text-gray-500 mt-1">Anno {yearLabel}</p>
           </CardContent>
         </Card>
       </div>
@@ -323,7 +355,7 @@ export default function HistoricalDataPage() {
         <TabsContent value="overview" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Riepilogo Generale - Anno {selectedYear}</CardTitle>
+              <CardTitle>Riepilogo Generale - Anno {yearLabel}</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
@@ -413,7 +445,7 @@ export default function HistoricalDataPage() {
         <TabsContent value="services" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Servizi - Anno {selectedYear}</CardTitle>
+              <CardTitle>Servizi - Anno {yearLabel}</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="overflow-x-auto">
@@ -449,7 +481,7 @@ export default function HistoricalDataPage() {
         <TabsContent value="maintenance" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Richieste Manutenzione - Anno {selectedYear}</CardTitle>
+              <CardTitle>Richieste Manutenzione - Anno {yearLabel}</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="overflow-x-auto">
@@ -494,7 +526,7 @@ export default function HistoricalDataPage() {
         <TabsContent value="payments" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Pagamenti - Anno {selectedYear}</CardTitle>
+              <CardTitle>Pagamenti - Anno {yearLabel}</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="overflow-x-auto">
@@ -507,6 +539,7 @@ export default function HistoricalDataPage() {
                       <th className="text-left p-2">Metodo</th>
                       <th className="text-left p-2">Importo</th>
                       <th className="text-left p-2">Stato</th>
+                      {canRefund && <th className="p-2"></th>}
                     </tr>
                   </thead>
                   <tbody>
@@ -518,6 +551,16 @@ export default function HistoricalDataPage() {
                         <td className="p-2">{payment.paymentMethod}</td>
                         <td className="p-2">€{payment.amount.toFixed(2)}</td>
                         <td className="p-2">{getStatusBadge(payment.status)}</td>
+                        {canRefund && (
+                          <td className="p-2 text-right">
+                            {payment.status === SecretariatPaymentStatus.COMPLETED && (
+                              <Button variant="ghost" size="sm" onClick={() => setRefundPayment(payment)}>
+                                <Undo2 className="h-4 w-4 mr-1" />
+                                Rimborsa
+                              </Button>
+                            )}
+                          </td>
+                        )}
                       </tr>
                     ))}
                   </tbody>
@@ -527,6 +570,11 @@ export default function HistoricalDataPage() {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <RefundPaymentDialog
+        payment={refundPayment}
+        onOpenChange={(open) => !open && setRefundPayment(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ThemeToggle } from "@/components/ui/theme-toggle";
+import { LanguageToggle } from "@/components/ui/language-toggle";
+import { useLanguage } from "@/contexts/language-context";
+import { useAuth } from "@/hooks/use-auth";
+import { getHomePath } from "@/lib/protected-route";
+
+export default function LoginPage() {
+  const { t } = useLanguage();
+  const { user, can, loginMutation } = useAuth();
+  const [, setLocation] = useLocation();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  // Torna alla pagina richiesta prima del redirect al login
+  const requestedPath = new URLSearchParams(window.location.search).get("redirect");
+
+  useEffect(() => {
+    if (user) {
+      setLocation(requestedPath || getHomePath(can));
+    }
+  }, [user, requestedPath, setLocation]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate({ username, password });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex flex-col bg-background text-foreground">
+      <header className="px-6 py-4 flex justify-end border-b border-border">
+        <div className="flex items-center gap-2">
+          <LanguageToggle />
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-2">
+              <div className="rounded-full bg-primary/10 p-3">
+                <Lock className="h-6 w-6 text-primary" />
+              </div>
+            </div>
+            <CardTitle>{t('login_title')}</CardTitle>
+            <CardDescription>{t('login_subtitle')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">{t('username')}</Label>
+                <Input
+                  id="username"
+                  autoComplete="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">{t('password')}</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+                {loginMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('login')}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
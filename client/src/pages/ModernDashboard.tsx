@@ -26,31 +26,41 @@ import {
   ArrowUpRight,
   ArrowDownRight,
   BarChart3,
-  Zap
+  Zap,
+  Tag
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import FloatingActionButton from "@/components/ui/floating-action-button";
 import { useState, useMemo } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { ServiceWithStudent } from "@shared/schema";
+import { ServiceWithStudent, ServiceType } from "@shared/schema";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
+import { useFiscalYears } from "@/hooks/use-fiscal-years";
 
 // Interfacce per il dashboard moderno
 interface DashboardMetrics {
   totalServices: number;
   pendingPayments: number;
-  siglaturaCount: number;
-  happyHourCount: number;
-  repairCount: number;
+  countsByType: Record<string, number>;
   totalAmount: number;
   pendingAmount: number;
 }
 
+// Stile delle righe "Servizi per Tipologia" per i tipi predefiniti del catalogo
+const typeRowStyles: Record<string, { row: string; icon: JSX.Element }> = {
+  [ServiceType.SIGLATURA]: { row: "bg-blue-50/50", icon: <Shirt className="h-5 w-5 text-blue-500" /> },
+  [ServiceType.RIPARAZIONE]: { row: "bg-orange-50/50", icon: <Wrench className="h-5 w-5 text-orange-500" /> },
+  [ServiceType.HAPPY_HOUR]: { row: "bg-purple-50/50", icon: <Zap className="h-5 w-5 text-purple-500" /> },
+};
+
 // Using ServiceWithStudent from shared schema instead of local interface
 type RecentService = ServiceWithStudent;
 
 export default function ModernDashboard() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { catalog, getLabel } = useServiceCatalog();
+  const { current: fiscalYear } = useFiscalYears();
   const currentDate = new Date();
   const currentMonth = format(currentDate, 'MMMM yyyy', { locale: it });
   
@@ -81,6 +91,11 @@ export default function ModernDashboard() {
         startDate = new Date(new Date().getFullYear(), quarterStart, 1);
         endDate = new Date(new Date().getFullYear(), quarterStart + 3, 0);
         break;
+      case 'year':
+        // Anno fiscale in corso (es. settembre-agosto), dal primo all'ultimo giorno
+        startDate = fiscalYear ? new Date(`${fiscalYear.startDate}T00:00:00`) : new Date(new Date().getFullYear(), 0, 1);
+        endDate = fiscalYear ? new Date(`${fiscalYear.endDate}T23:59:59`) : new Date(new Date().getFullYear(), 11, 31);
+        break;
       default:
         startDate = startOfMonth(new Date());
         endDate = endOfMonth(new Date());
@@ -89,7 +104,7 @@ export default function ModernDashboard() {
     setFilterPeriod({ startDate, endDate });
     toast({
       title: "Filtro applicato",
-      description: `Periodo: ${period === 'week' ? 'Settimana' : period === 'month' ? 'Mese' : 'Trimestre'}`,
+      description: `Periodo: ${period === 'year' ? `Anno ${fiscalYear?.label ?? ''}` : period === 'week' ? 'Settimana' : period === 'month' ? 'Mese' : 'Trimestre'}`,
     });
   };
 
@@ -239,6 +254,7 @@ export default function ModernDashboard() {
                   <SelectItem value="week">Questa Settimana</SelectItem>
                   <SelectItem value="month">Questo Mese</SelectItem>
                   <SelectItem value="quarter">Questo Trimestre</SelectItem>
+                  <SelectItem value="year">Anno {fiscalYear?.label ?? "in corso"}</SelectItem>
                 </SelectContent>
               </Select>
               
@@ -345,38 +361,21 @@ export default function ModernDashboard() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="flex items-center justify-between p-3 bg-blue-50/50 rounded-xl">
-              <div className="flex items-center space-x-3">
-                <Shirt className="h-5 w-5 text-blue-500" />
-                <span className="font-medium">Siglatura</span>
-              </div>
-              <div className="text-right">
-                <div className="font-bold text-lg">{metrics?.siglaturaCount || 0}</div>
-                <div className="text-xs text-gray-500">servizi</div>
-              </div>
-            </div>
-            
-            <div className="flex items-center justify-between p-3 bg-orange-50/50 rounded-xl">
-              <div className="flex items-center space-x-3">
-                <Wrench className="h-5 w-5 text-orange-500" />
-                <span className="font-medium">Riparazione</span>
-              </div>
-              <div className="text-right">
-                <div className="font-bold text-lg">{metrics?.repairCount || 0}</div>
-                <div className="text-xs text-gray-500">servizi</div>
-              </div>
-            </div>
-            
-            <div className="flex items-center justify-between p-3 bg-purple-50/50 rounded-xl">
-              <div className="flex items-center space-x-3">
-                <Zap className="h-5 w-5 text-purple-500" />
-                <span className="font-medium">Happy Hour</span>
-              </div>
-              <div className="text-right">
-                <div className="font-bold text-lg">{metrics?.happyHourCount || 0}</div>
-                <div className="text-xs text-gray-500">servizi</div>
-              </div>
-            </div>
+            {catalog.map(item => {
+              const style = typeRowStyles[item.code] ?? { row: "bg-slate-50/50", icon: <Tag className="h-5 w-5 text-slate-500" /> };
+              return (
+                <div key={item.code} className={`flex items-center justify-between p-3 rounded-xl ${style.row}`}>
+                  <div className="flex items-center space-x-3">
+                    {style.icon}
+                    <span className="font-medium">{getLabel(item.code)}</span>
+                  </div>
+                  <div className="text-right">
+                    <div className="font-bold text-lg">{metrics?.countsByType?.[item.code] || 0}</div>
+                    <div className="text-xs text-gray-500">servizi</div>
+                  </div>
+                </div>
+              );
+            })}
           </CardContent>
         </Card>
 
@@ -24,7 +24,8 @@ import {
   Edit,
   Trash2
 } from "lucide-react";
-import { ServiceTypeValue, PaymentStatusValue, ServiceWithStudent } from "@shared/schema";
+import { PaymentStatusValue, ServiceWithStudent } from "@shared/schema";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
@@ -43,13 +44,14 @@ interface ServiceResponse {
 
 export default function ModernServicesPage() {
   const [, setLocation] = useLocation();
+  const { catalog, getLabel } = useServiceCatalog(true);
   const search = useSearch();
   const searchParams = new URLSearchParams(search);
   const { toast } = useToast();
   
   type FilterType = {
     query: string;
-    type: ServiceTypeValue | "all";
+    type: string; // "all" o un codice del catalogo servizi
     status: PaymentStatusValue | "all";
     page: number;
     limit: number;
@@ -57,7 +59,7 @@ export default function ModernServicesPage() {
   
   const [filters, setFilters] = useState<FilterType>({
     query: searchParams.get("query") || "",
-    type: (searchParams.get("type") as ServiceTypeValue | "all") || "all",
+    type: searchParams.get("type") || "all",
     status: (searchParams.get("status") as PaymentStatusValue | "all") || "all",
     page: parseInt(searchParams.get("page") || "1"),
     limit: parseInt(searchParams.get("limit") || "10")
@@ -68,7 +70,7 @@ export default function ModernServicesPage() {
     const params = new URLSearchParams(search);
     setFilters({
       query: params.get("query") || "",
-      type: (params.get("type") as ServiceTypeValue) || "all",
+      type: params.get("type") || "all",
       status: (params.get("status") as PaymentStatusValue) || "all",
       page: parseInt(params.get("page") || "1"),
       limit: parseInt(params.get("limit") || "10")
@@ -248,15 +250,15 @@ export default function ModernServicesPage() {
               
               <div>
                 <label className="text-sm font-medium mb-2 block text-gray-700">Tipologia</label>
-                <Select value={filters.type} onValueChange={(value) => setFilters(prev => ({ ...prev, type: value as ServiceTypeValue | "all" }))}>
+                <Select value={filters.type} onValueChange={(value) => setFilters(prev => ({ ...prev, type: value }))}>
                   <SelectTrigger className="premium-input">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">Tutte le tipologie</SelectItem>
-                    <SelectItem value="siglatura">Siglatura</SelectItem>
-                    <SelectItem value="happy_hour">Happy Hour</SelectItem>
-                    <SelectItem value="riparazione">Riparazione</SelectItem>
+                    {catalog.map(item => (
+                      <SelectItem key={item.code} value={item.code}>{getLabel(item.code)}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -352,9 +354,7 @@ export default function ModernServicesPage() {
                           <span>{format(new Date(service.date), 'dd/MM/yyyy', { locale: it })}</span>
                         </span>
                         <span className="capitalize font-medium text-gray-700">
-                          {service.type === 'siglatura' ? 'Siglatura' : 
-                           service.type === 'riparazione' ? 'Riparazione' :
-                           service.type === 'happy_hour' ? 'Happy Hour' : service.type}
+                          {getLabel(service.type)}
                         </span>
                       </div>
                     </div>
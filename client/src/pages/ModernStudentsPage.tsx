@@ -4,6 +4,8 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { 
   Search, 
@@ -20,17 +22,22 @@ import {
   ChevronRight,
   RefreshCw,
   Download,
-  AlertTriangle
+  AlertTriangle,
+  Wallet
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { format } from "date-fns";
 import { it } from "date-fns/locale";
+import StudentLedgerDialog from "@/components/students/StudentLedgerDialog";
 
 interface Student {
   id: number;
   sigla: string;
   firstName: string;
   lastName: string;
+  email: string | null;
+  locale: string;
+  paymentRemindersOptOut: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -58,6 +65,9 @@ export default function ModernStudentsPage() {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
   const [isEditing, setIsEditing] = useState(false);
+  
+  // Estratto conto
+  const [ledgerStudent, setLedgerStudent] = useState<Student | null>(null);
 
   // State for adding new student
   const [newStudent, setNewStudent] = useState({
@@ -163,7 +173,11 @@ export default function ModernStudentsPage() {
         method: 'DELETE',
       });
 
-      if (!response.ok) throw new Error('Errore nell\'eliminazione dello studente');
+      if (!response.ok) {
+        // Es. 409 se lo studente ha servizi registrati
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'Errore nell\'eliminazione dello studente');
+      }
 
       toast({
         title: "Studente eliminato",
@@ -174,7 +188,7 @@ export default function ModernStudentsPage() {
     } catch (err) {
       toast({
         title: "Errore",
-        description: "Errore nell'eliminazione dello studente",
+        description: err instanceof Error ? err.message : "Errore nell'eliminazione dello studente",
         variant: "destructive",
       });
     } finally {
@@ -196,6 +210,9 @@ export default function ModernStudentsPage() {
           sigla: editingStudent.sigla,
           firstName: editingStudent.firstName,
           lastName: editingStudent.lastName,
+          email: editingStudent.email || null,
+          locale: editingStudent.locale,
+          paymentRemindersOptOut: editingStudent.paymentRemindersOptOut,
         }),
       });
 
@@ -513,6 +530,14 @@ export default function ModernStudentsPage() {
                   </div>
                   
                   <div className="flex items-center space-x-2 ml-4">
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      title="Estratto conto"
+                      onClick={() => setLedgerStudent(student)}
+                    >
+                      <Wallet className="h-4 w-4" />
+                    </Button>
                     <Button 
                       variant="outline" 
                       size="sm"
@@ -644,6 +669,40 @@ export default function ModernStudentsPage() {
                   className="premium-input"
                 />
               </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Email</label>
+                <Input
+                  type="email"
+                  value={editingStudent.email ?? ""}
+                  onChange={(e) => setEditingStudent(prev => prev ? { ...prev, email: e.target.value } : null)}
+                  className="premium-input"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Lingua delle email</label>
+                <Select
+                  value={editingStudent.locale}
+                  onValueChange={(locale) => setEditingStudent(prev => prev ? { ...prev, locale } : null)}
+                >
+                  <SelectTrigger className="premium-input">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="it">Italiano</SelectItem>
+                    <SelectItem value="en">English</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between">
+                <label htmlFor="paymentRemindersOptOut" className="text-sm font-medium text-gray-700">
+                  Non inviare solleciti di pagamento automatici
+                </label>
+                <Switch
+                  id="paymentRemindersOptOut"
+                  checked={editingStudent.paymentRemindersOptOut}
+                  onCheckedChange={(checked) => setEditingStudent(prev => prev ? { ...prev, paymentRemindersOptOut: checked } : null)}
+                />
+              </div>
             </div>
           )}
           <DialogFooter>
@@ -667,6 +726,12 @@ export default function ModernStudentsPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Student Ledger Dialog */}
+      <StudentLedgerDialog
+        student={ledgerStudent}
+        onOpenChange={(open) => !open && setLedgerStudent(null)}
+      />
+
       {/* Error State */}
       {error && (
         <Card className="premium-card border-red-200 bg-red-50">
@@ -0,0 +1,274 @@
+import { Fragment, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Loader2, Mail, RefreshCw, Send } from "lucide-react";
+import { Notification, NotificationKind, NotificationStatus } from "@shared/schema";
+
+interface NotificationsResponse {
+  notifications: Notification[];
+  total: number;
+}
+
+const PAGE_SIZE = 25;
+
+const kindLabels: Record<string, string> = {
+  [NotificationKind.PAYMENT_COMPLETED]: "Pagamento completato",
+  [NotificationKind.MAINTENANCE_STATUS]: "Stato manutenzione",
+  [NotificationKind.UNPAID_SERVICES]: "Servizi da pagare",
+  [NotificationKind.BIKE_RESERVATION_STATUS]: "Prenotazione bici",
+  [NotificationKind.PAYMENT_REMINDER]: "Sollecito di pagamento",
+};
+
+const statusLabels: Record<string, string> = {
+  [NotificationStatus.PENDING]: "In coda",
+  [NotificationStatus.SENDING]: "In invio",
+  [NotificationStatus.SENT]: "Inviata",
+  [NotificationStatus.FAILED]: "Fallita, in attesa di nuovo tentativo",
+  [NotificationStatus.DEAD]: "Tentativi esauriti",
+};
+
+const statusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  [NotificationStatus.PENDING]: "outline",
+  [NotificationStatus.SENDING]: "secondary",
+  [NotificationStatus.SENT]: "default",
+  [NotificationStatus.FAILED]: "secondary",
+  [NotificationStatus.DEAD]: "destructive",
+};
+
+function formatDate(value: string | Date | null) {
+  return value ? format(new Date(value), "dd/MM/yyyy HH:mm:ss", { locale: it }) : "—";
+}
+
+export default function NotificationsPage() {
+  const { toast } = useToast();
+  const [kind, setKind] = useState("all");
+  const [status, setStatus] = useState("all");
+  const [recipient, setRecipient] = useState("");
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data, isLoading, refetch, isFetching } = useQuery<NotificationsResponse>({
+    queryKey: ["/api/notifications", { kind, status, recipient, page }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (kind !== "all") params.set("kind", kind);
+      if (status !== "all") params.set("status", status);
+      if (recipient.trim()) params.set("recipient", recipient.trim());
+
+      const response = await fetch(`/api/notifications?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Errore nel caricamento delle notifiche");
+      }
+      return response.json();
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (id: number): Promise<Notification> => apiRequest("POST", `/api/notifications/${id}/retry`),
+    onSuccess: (notification) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      toast({
+        title: notification.status === NotificationStatus.SENT ? "Notifica inviata" : "Invio non riuscito",
+        description: notification.lastError ?? notification.recipient,
+        variant: notification.status === NotificationStatus.SENT ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Nuovo invio non riuscito",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  // Ogni cambio di filtro riparte dalla prima pagina
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Mail className="h-7 w-7 text-primary" />
+            Notifiche email
+          </h1>
+          <p className="text-muted-foreground">
+            Email inviate agli studenti dalla coda di invio, con i nuovi tentativi in caso di errore
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          Aggiorna
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filtri</CardTitle>
+          <CardDescription>Restringi le notifiche per tipo, stato o destinatario</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-4">
+          <Select value={kind} onValueChange={updateFilter(setKind)}>
+            <SelectTrigger><SelectValue placeholder="Tipo" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Tutti i tipi</SelectItem>
+              {Object.entries(kindLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={status} onValueChange={updateFilter(setStatus)}>
+            <SelectTrigger><SelectValue placeholder="Stato" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Tutti gli stati</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Destinatario"
+            value={recipient}
+            onChange={(e) => updateFilter(setRecipient)(e.target.value)}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6 space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !data || data.notifications.length === 0 ? (
+            <div className="p-12 text-center text-muted-foreground">
+              Nessuna notifica trovata con i filtri selezionati
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Creata</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Destinatario</TableHead>
+                  <TableHead>Lingua</TableHead>
+                  <TableHead>Stato</TableHead>
+                  <TableHead className="text-right">Tentativi</TableHead>
+                  <TableHead>Ultimo errore</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.notifications.map((notification) => {
+                  const isExpanded = expandedId === notification.id;
+                  const isRetrying = retryMutation.isPending && retryMutation.variables === notification.id;
+                  return (
+                    <Fragment key={notification.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(isExpanded ? null : notification.id)}
+                      >
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDate(notification.createdAt)}</TableCell>
+                        <TableCell>{kindLabels[notification.kind] ?? notification.kind}</TableCell>
+                        <TableCell className="max-w-[220px] truncate">{notification.recipient}</TableCell>
+                        <TableCell className="uppercase">{notification.locale}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[notification.status] ?? "secondary"}>
+                            {statusLabels[notification.status] ?? notification.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{notification.attempts}</TableCell>
+                        <TableCell className="text-muted-foreground max-w-[280px] truncate">
+                          {notification.lastError ?? "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={notification.status === NotificationStatus.SENDING || retryMutation.isPending}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              retryMutation.mutate(notification.id);
+                            }}
+                          >
+                            {isRetrying
+                              ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                              : <Send className="h-4 w-4 mr-1" />}
+                            Reinvia
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={9} className="bg-muted/40">
+                            <p className="text-sm font-medium mb-2">Dati del messaggio</p>
+                            <pre className="text-xs font-mono whitespace-pre-wrap break-all">
+                              {JSON.stringify(notification.payload, null, 2)}
+                            </pre>
+                            <p className="text-xs text-muted-foreground mt-3">
+                              Inviata: {formatDate(notification.sentAt)}
+                              {notification.status === NotificationStatus.FAILED && ` · prossimo tentativo: ${formatDate(notification.nextAttemptAt)}`}
+                            </p>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">
+          {data?.total ?? 0} notifiche · pagina {page} di {totalPages}
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Precedente
+          </Button>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Successiva
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
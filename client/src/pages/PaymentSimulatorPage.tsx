@@ -0,0 +1,160 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CheckCircle, FlaskConical, Loader2, Ban, XCircle } from "lucide-react";
+import { SimulatedOutcome, SimulatedOutcomeValue } from "@shared/schema";
+
+interface SimulatedPaymentResponse {
+  providerId: string;
+  providerPaymentId: string;
+  orderId: string;
+  sigla: string;
+  amount: number;
+  rawStatus: string;
+  outcome: SimulatedOutcomeValue | null;
+  delayMs: number;
+}
+
+const providerLabels: Record<string, string> = {
+  stripe: "Stripe",
+  satispay: "Satispay",
+  revolut: "Revolut",
+  sumup: "SumUp",
+  paypal: "PayPal",
+  nexi: "Nexi",
+};
+
+const formatCurrency = (amount: number) => `€${amount.toFixed(2)}`;
+
+/*
+ * Pagina di pagamento del simulatore locale: sostituisce quella del provider quando
+ * il server gira con PAYMENT_SIMULATOR=true. L'esito arriva al server come webhook del provider.
+ */
+export default function PaymentSimulatorPage() {
+  const [, navigate] = useLocation();
+  const [, params] = useRoute("/payment-simulator/:provider/:paymentId");
+  const { toast } = useToast();
+  const provider = params?.provider ?? "";
+  const paymentId = params?.paymentId ?? "";
+  const url = `/api/public/payment-simulator/${provider}/${encodeURIComponent(paymentId)}`;
+
+  const { data: payment, isLoading, error } = useQuery<SimulatedPaymentResponse>({
+    queryKey: [url],
+    enabled: !!provider && !!paymentId,
+    retry: false,
+  });
+
+  const outcomeMutation = useMutation({
+    mutationFn: (outcome: SimulatedOutcomeValue): Promise<SimulatedPaymentResponse> =>
+      apiRequest("POST", url, { outcome }),
+    onSuccess: (result, outcome) => {
+      const seconds = Math.round(result.delayMs / 1000);
+      if (outcome === SimulatedOutcome.SUCCESS) {
+        toast({
+          title: "Pagamento simulato",
+          description: `Il webhook di conferma arriverà tra ${seconds} secondi`,
+        });
+        const query = new URLSearchParams({
+          payment_id: result.orderId,
+          sigla: result.sigla,
+          method: result.providerId,
+          amount: String(result.amount),
+        });
+        navigate(`/payment-success?${query}`);
+      } else {
+        toast({
+          title: outcome === SimulatedOutcome.CANCEL ? "Pagamento annullato" : "Pagamento rifiutato",
+          description: `Il provider lo notificherà tra ${seconds} secondi`,
+          variant: "destructive",
+        });
+        navigate(`/secretariat-payment/${result.providerId}/${result.sigla}`);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Simulazione non riuscita",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const label = providerLabels[provider] ?? provider;
+  const chosen = payment?.outcome ?? null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5 text-primary" />
+            Simulatore {label}
+          </CardTitle>
+          <CardDescription>
+            Nessun addebito reale: scegli l'esito che il provider comunicherà al gestionale
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : error || !payment ? (
+            <p className="text-center text-muted-foreground py-6">
+              Pagamento simulato non trovato. Il simulatore è attivo e il server non è stato riavviato?
+            </p>
+          ) : (
+            <>
+              <div className="p-6 bg-muted rounded-lg text-center space-y-1">
+                <div className="text-3xl font-bold">{formatCurrency(payment.amount)}</div>
+                <p className="text-sm text-muted-foreground">Sigla {payment.sigla}</p>
+                <p className="text-xs text-muted-foreground font-mono break-all">{payment.orderId}</p>
+                <Badge variant="outline">{payment.rawStatus}</Badge>
+              </div>
+
+              {chosen ? (
+                <p className="text-sm text-center text-muted-foreground">
+                  Esito già scelto per questo pagamento: {chosen}
+                </p>
+              ) : (
+                <div className="grid gap-2">
+                  <Button
+                    className="w-full"
+                    disabled={outcomeMutation.isPending}
+                    onClick={() => outcomeMutation.mutate(SimulatedOutcome.SUCCESS)}
+                  >
+                    {outcomeMutation.isPending && outcomeMutation.variables === SimulatedOutcome.SUCCESS
+                      ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      : <CheckCircle className="h-4 w-4 mr-2" />}
+                    Paga {formatCurrency(payment.amount)}
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    className="w-full"
+                    disabled={outcomeMutation.isPending}
+                    onClick={() => outcomeMutation.mutate(SimulatedOutcome.FAILURE)}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Rifiuta il pagamento
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    disabled={outcomeMutation.isPending}
+                    onClick={() => outcomeMutation.mutate(SimulatedOutcome.CANCEL)}
+                  >
+                    <Ban className="h-4 w-4 mr-2" />
+                    Annulla
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -25,6 +25,7 @@ import {
   Hash
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
 import { apiRequest } from "@/lib/queryClient";
 import { motion } from "framer-motion";
 
@@ -42,6 +43,7 @@ interface Service {
 export default function PaymentsPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const { toast } = useToast();
+  const { getLabel: getServiceTypeLabel } = useServiceCatalog(true);
   const queryClient = useQueryClient();
 
   // Fetch unpaid services
@@ -96,25 +98,16 @@ export default function PaymentsPage() {
   const totalAmount = filteredServices.reduce((sum: number, service: Service) => sum + service.amount, 0);
   const totalServices = filteredServices.length;
 
-  const getServiceTypeLabel = (type: string) => {
-    switch (type) {
-      case 'siglatura': return 'Siglatura';
-      case 'happy_hour': return 'Happy Hour';
-      case 'riparazione': return 'Riparazione';
-      default: return type;
-    }
-  };
-
   const getServiceTypeBadge = (type: string) => {
     switch (type) {
       case 'siglatura':
-        return <Badge variant="default">Siglatura</Badge>;
+        return <Badge variant="default">{getServiceTypeLabel(type)}</Badge>;
       case 'happy_hour':
-        return <Badge variant="secondary">Happy Hour</Badge>;
+        return <Badge variant="secondary">{getServiceTypeLabel(type)}</Badge>;
       case 'riparazione':
-        return <Badge variant="destructive">Riparazione</Badge>;
+        return <Badge variant="destructive">{getServiceTypeLabel(type)}</Badge>;
       default:
-        return <Badge variant="outline">{type}</Badge>;
+        return <Badge variant="outline">{getServiceTypeLabel(type)}</Badge>;
     }
   };
 
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { format } from "date-fns";
 import { it } from "date-fns/locale";
 import { Input } from "@/components/ui/input";
@@ -148,6 +149,10 @@ export default function PublicPaymentPage() {
                 <AlertTitle>Errore</AlertTitle>
                 <AlertDescription>
                   {error instanceof Error ? error.message : "Si è verificato un errore durante la ricerca. Riprova più tardi."}
+                  <p className="mt-2">
+                    I servizi di una sigla sono visibili solo dopo l'accesso al{" "}
+                    <Link href="/portal" className="underline">portale studenti</Link>.
+                  </p>
                 </AlertDescription>
               </Alert>
             ) : paymentSuccess ? (
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Play, RefreshCw, Scale } from "lucide-react";
+import {
+  Capability,
+  ReconciliationOutcome,
+  ReconciliationRun,
+  ReconciliationRunDetail,
+  ReconciliationTrigger,
+} from "@shared/schema";
+
+interface RunsResponse {
+  runs: ReconciliationRun[];
+  running: boolean;
+}
+
+const outcomeLabels: Record<string, string> = {
+  [ReconciliationOutcome.FIXED]: "Sistemato",
+  [ReconciliationOutcome.STILL_STUCK]: "Ancora bloccato",
+  [ReconciliationOutcome.UNSUPPORTED]: "Da verificare a mano",
+  [ReconciliationOutcome.ERROR]: "Errore",
+};
+
+const outcomeVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  [ReconciliationOutcome.FIXED]: "default",
+  [ReconciliationOutcome.STILL_STUCK]: "secondary",
+  [ReconciliationOutcome.UNSUPPORTED]: "outline",
+  [ReconciliationOutcome.ERROR]: "destructive",
+};
+
+const triggerLabels: Record<string, string> = {
+  [ReconciliationTrigger.SCHEDULER]: "Automatica",
+  [ReconciliationTrigger.MANUAL]: "Manuale",
+};
+
+function formatDate(value: string | Date | null) {
+  return value ? format(new Date(value), "dd/MM/yyyy HH:mm:ss", { locale: it }) : "—";
+}
+
+export default function ReconciliationPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+
+  const { data, isLoading, refetch, isFetching } = useQuery<RunsResponse>({
+    queryKey: ["/api/reconciliation/runs"],
+  });
+
+  // Senza selezione si mostra l'ultimo giro
+  const runId = selectedRunId ?? data?.runs[0]?.id;
+  const { data: detail, isLoading: isLoadingDetail } = useQuery<ReconciliationRunDetail>({
+    queryKey: [`/api/reconciliation/runs/${runId}`],
+    enabled: runId !== undefined,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: (): Promise<ReconciliationRunDetail> => apiRequest("POST", "/api/reconciliation/runs"),
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reconciliation/runs"] });
+      setSelectedRunId(run.id);
+      toast({
+        title: "Riconciliazione completata",
+        description: `${run.checked} pagamenti verificati, ${run.fixed} sistemati, ${run.stillStuck} ancora bloccati`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Riconciliazione non avviata",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isRunning = runMutation.isPending || !!data?.running;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Scale className="h-7 w-7 text-primary" />
+            Riconciliazione pagamenti
+          </h1>
+          <p className="text-muted-foreground">
+            Pagamenti rimasti in attesa o in lavorazione, verificati ogni 5 minuti presso il provider
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+            Aggiorna
+          </Button>
+          {can(Capability.PAYMENTS_WRITE) && (
+            <Button onClick={() => runMutation.mutate()} disabled={isRunning}>
+              {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+              Avvia ora
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {detail ? `Giro del ${formatDate(detail.startedAt)}` : "Dettaglio"}
+          </CardTitle>
+          <CardDescription>
+            {detail?.errorMessage
+              ? `Giro interrotto: ${detail.errorMessage}`
+              : "Esito di ogni pagamento verificato e motivo per cui è ancora bloccato"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoadingDetail ? (
+            <div className="p-6 space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !detail || detail.items.length === 0 ? (
+            <div className="p-12 text-center text-muted-foreground">
+              Nessun pagamento bloccato da verificare
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ordine</TableHead>
+                  <TableHead>Sigla</TableHead>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Stato</TableHead>
+                  <TableHead>Stato provider</TableHead>
+                  <TableHead>Esito</TableHead>
+                  <TableHead>Motivo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {detail.items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-mono text-xs">{item.orderId}</TableCell>
+                    <TableCell>{item.sigla}</TableCell>
+                    <TableCell>{item.provider}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {item.previousStatus === item.newStatus
+                        ? item.previousStatus
+                        : `${item.previousStatus} → ${item.newStatus}`}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{item.providerStatus ?? "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant={outcomeVariants[item.outcome] ?? "secondary"}>
+                        {outcomeLabels[item.outcome] ?? item.outcome}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{item.message ?? "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Storico</CardTitle>
+          <CardDescription>Ultimi giri di riconciliazione; seleziona un giro per vederne il dettaglio</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6 space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !data || data.runs.length === 0 ? (
+            <div className="p-12 text-center text-muted-foreground">
+              Nessuna riconciliazione eseguita
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Inizio</TableHead>
+                  <TableHead>Avvio</TableHead>
+                  <TableHead className="text-right">Verificati</TableHead>
+                  <TableHead className="text-right">Sistemati</TableHead>
+                  <TableHead className="text-right">Ancora bloccati</TableHead>
+                  <TableHead className="text-right">Errori</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.runs.map((run) => (
+                  <TableRow
+                    key={run.id}
+                    className={`cursor-pointer ${run.id === runId ? "bg-muted/60" : ""}`}
+                    onClick={() => setSelectedRunId(run.id)}
+                  >
+                    <TableCell className="whitespace-nowrap">
+                      {formatDate(run.startedAt)}
+                      {!run.finishedAt && <Badge variant="outline" className="ml-2">In corso</Badge>}
+                      {run.errorMessage && <Badge variant="destructive" className="ml-2">Interrotto</Badge>}
+                    </TableCell>
+                    <TableCell>{triggerLabels[run.trigger] ?? run.trigger}</TableCell>
+                    <TableCell className="text-right">{run.checked}</TableCell>
+                    <TableCell className="text-right">{run.fixed}</TableCell>
+                    <TableCell className="text-right">{run.stillStuck}</TableCell>
+                    <TableCell className="text-right">{run.errors}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
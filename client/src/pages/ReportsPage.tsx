@@ -38,8 +38,9 @@ import {
   Cell
 } from "recharts";
 
-import { ServiceType, PaymentStatus, type Service } from "@shared/schema";
-import { getServiceTypeLabel, getPaymentStatusLabel, formatDate, formatAmount } from "@/lib/utils/services";
+import { PaymentStatus, type Service } from "@shared/schema";
+import { getServiceTypeColor, getPaymentStatusLabel, formatDate, formatAmount } from "@/lib/utils/services";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
 
 interface ReportFilters {
   dateRange: "current_month" | "last_month" | "last_3_months" | "last_6_months" | "custom" | "all";
@@ -57,6 +58,7 @@ interface DataPoint {
 }
 
 export default function ReportsPage() {
+  const { catalog, getLabel: getServiceTypeLabel } = useServiceCatalog(true);
   // Report filters state - default to "all" to show all data
   const [filters, setFilters] = useState<ReportFilters>({
     dateRange: "all",
@@ -175,28 +177,24 @@ export default function ReportsPage() {
       return acc;
     }, {});
     
-    const typeColors = {
-      [ServiceType.SIGLATURA]: "#3b82f6", // blue
-      [ServiceType.HAPPY_HOUR]: "#eab308", // yellow
-      [ServiceType.RIPARAZIONE]: "#22c55e", // green
-    };
+    const colorIndex = (type: string) => Math.max(0, catalog.findIndex(item => item.code === type));
     
     const countData: DataPoint[] = Object.entries(typeCount).map(([type, count]) => ({
       label: getServiceTypeLabel(type),
       value: count,
       percentage: Math.round(count / (filteredServices.length || 1) * 100),
-      color: typeColors[type as keyof typeof typeColors] || "#9ca3af"
+      color: getServiceTypeColor(type, colorIndex(type))
     }));
     
     const amountData: DataPoint[] = Object.entries(typeAmount).map(([type, amount]) => ({
       label: getServiceTypeLabel(type),
       value: amount,
       percentage: Math.round(amount / (stats.totalAmount || 1) * 100),
-      color: typeColors[type as keyof typeof typeColors] || "#9ca3af"
+      color: getServiceTypeColor(type, colorIndex(type))
     }));
     
     return { countData, amountData };
-  }, [filteredServices, stats.totalAmount]);
+  }, [filteredServices, stats.totalAmount, catalog]);
   
   // Compute payment status distribution
   const statusDistribution = React.useMemo(() => {
@@ -233,6 +231,11 @@ export default function ReportsPage() {
   }, [filteredServices, stats.totalAmount]);
   
   // Compute service trend data (monthly aggregation)
+  // Serie dei grafici mensili: i tipi attivi più quelli disattivati ma presenti nel periodo
+  const chartTypes = catalog.filter(item =>
+    item.active || filteredServices.some((service: Service) => service.type === item.code)
+  );
+  
   const trendData = React.useMemo(() => {
     if (!filteredServices.length) return [];
     
@@ -254,19 +257,11 @@ export default function ReportsPage() {
       const monthLabel = format(date, 'MMM yyyy', { locale: it });
       
       if (!servicesByMonth[monthKey]) {
+        // Tutti i tipi del catalogo partono da zero, così le serie dei grafici sono complete
+        const emptyByType = Object.fromEntries(catalog.map(item => [item.code, 0]));
         servicesByMonth[monthKey] = { 
-          count: {
-            [ServiceType.SIGLATURA]: 0,
-            [ServiceType.HAPPY_HOUR]: 0,
-            [ServiceType.RIPARAZIONE]: 0,
-            total: 0
-          }, 
-          amount: {
-            [ServiceType.SIGLATURA]: 0,
-            [ServiceType.HAPPY_HOUR]: 0,
-            [ServiceType.RIPARAZIONE]: 0,
-            total: 0
-          },
+          count: { ...emptyByType, total: 0 }, 
+          amount: { ...emptyByType, total: 0 },
           label: monthLabel
         };
       }
@@ -288,15 +283,13 @@ export default function ReportsPage() {
       .map(([key, data]) => ({
         name: data.label,
         // Service counts
-        [getServiceTypeLabel(ServiceType.SIGLATURA)]: data.count[ServiceType.SIGLATURA],
-        [getServiceTypeLabel(ServiceType.HAPPY_HOUR)]: data.count[ServiceType.HAPPY_HOUR],
-        [getServiceTypeLabel(ServiceType.RIPARAZIONE)]: data.count[ServiceType.RIPARAZIONE],
+        ...Object.fromEntries(chartTypes.map(item => [getServiceTypeLabel(item.code), data.count[item.code] || 0])),
         // Total for line chart
         Totale: data.count.total,
         // For tooltip display
         amount: data.amount.total
       }));
-  }, [filteredServices]);
+  }, [filteredServices, catalog]);
   
   // Table columns for data export
   const tableColumns = [
@@ -491,9 +484,9 @@ export default function ReportsPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Tutti i tipi</SelectItem>
-                  <SelectItem value={ServiceType.SIGLATURA}>Siglatura</SelectItem>
-                  <SelectItem value={ServiceType.HAPPY_HOUR}>Happy Hour</SelectItem>
-                  <SelectItem value={ServiceType.RIPARAZIONE}>Riparazione</SelectItem>
+                  {catalog.map(item => (
+                    <SelectItem key={item.code} value={item.code}>{getServiceTypeLabel(item.code)}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -830,21 +823,14 @@ export default function ReportsPage() {
                             labelFormatter={(label) => `Mese: ${label}`}
                           />
                           <Legend />
-                          <Bar 
-                            dataKey={getServiceTypeLabel(ServiceType.SIGLATURA)} 
-                            fill="#3b82f6" 
-                            stackId="a"
-                          />
-                          <Bar 
-                            dataKey={getServiceTypeLabel(ServiceType.HAPPY_HOUR)} 
-                            fill="#eab308" 
-                            stackId="a"
-                          />
-                          <Bar 
-                            dataKey={getServiceTypeLabel(ServiceType.RIPARAZIONE)} 
-                            fill="#22c55e" 
-                            stackId="a"
-                          />
+                          {chartTypes.map(item => (
+                            <Bar 
+                              key={item.code}
+                              dataKey={getServiceTypeLabel(item.code)} 
+                              fill={getServiceTypeColor(item.code, catalog.indexOf(item))} 
+                              stackId="a"
+                            />
+                          ))}
                         </BarChart>
                       </ResponsiveContainer>
                     </TabsContent>
@@ -879,21 +865,14 @@ export default function ReportsPage() {
                             strokeWidth={3}
                             activeDot={{ r: 6 }}
                           />
-                          <Line 
-                            type="monotone" 
-                            dataKey={getServiceTypeLabel(ServiceType.SIGLATURA)} 
-                            stroke="#3b82f6" 
-                          />
-                          <Line 
-                            type="monotone" 
-                            dataKey={getServiceTypeLabel(ServiceType.HAPPY_HOUR)} 
-                            stroke="#eab308" 
-                          />
-                          <Line 
-                            type="monotone" 
-                            dataKey={getServiceTypeLabel(ServiceType.RIPARAZIONE)} 
-                            stroke="#22c55e" 
-                          />
+                          {chartTypes.map(item => (
+                            <Line 
+                              key={item.code}
+                              type="monotone" 
+                              dataKey={getServiceTypeLabel(item.code)} 
+                              stroke={getServiceTypeColor(item.code, catalog.indexOf(item))} 
+                            />
+                          ))}
                         </LineChart>
                       </ResponsiveContainer>
                     </TabsContent>
@@ -108,7 +108,7 @@ export default function RevolutPayment() {
     setIsLoading(true);
     
     try {
-      const response = await fetch('/api/public/revolut-payment', {
+      const response = await fetch('/api/public/payments/revolut', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -130,11 +130,16 @@ export default function RevolutPayment() {
       setPaymentState(prev => ({
         ...prev,
         step: 'payment',
-        paymentId: data.paymentId
+        paymentId: data.orderId
       }));
 
+      // Pagina di pagamento del provider in una nuova scheda
+      if ((data.isLive || data.isSimulated) && data.redirectUrl) {
+        window.open(data.redirectUrl, '_blank');
+      }
+
       // Start polling for payment status
-      startPaymentPolling(data.paymentId);
+      startPaymentPolling(data.orderId);
 
     } catch (error: any) {
       console.error("Errore nel pagamento:", error);
@@ -153,10 +158,10 @@ export default function RevolutPayment() {
     
     const pollInterval = setInterval(async () => {
       try {
-        const response = await fetch(`/api/public/revolut-status/${paymentId}`);
+        const response = await fetch(`/api/public/payments/revolut/${paymentId}`);
         const data = await response.json();
 
-        if (data.status === 'completed' || data.localStatus === 'completed') {
+        if (data.status === 'completed') {
           clearInterval(pollInterval);
           setPaymentState(prev => ({ ...prev, step: 'success' }));
           
@@ -164,7 +169,7 @@ export default function RevolutPayment() {
             title: "Pagamento completato!",
             description: "I tuoi servizi sono stati pagati con successo",
           });
-        } else if (data.status === 'failed' || data.localStatus === 'failed') {
+        } else if (data.status === 'failed' || data.status === 'cancelled') {
           clearInterval(pollInterval);
           setPaymentState(prev => ({
             ...prev,
@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { selectionFromQuery, selectionTotal } from "@/lib/utils/paymentSelection";
 import { Smartphone, Euro, Clock, CheckCircle, XCircle, ArrowLeft } from "lucide-react";
 import QRCode from 'qrcode';
 
@@ -15,6 +16,7 @@ interface PendingService {
   type: string;
   description: string;
   amount: number;
+  outstanding: number; // Residuo dopo eventuali pagamenti parziali
   date: string;
 }
 
@@ -32,6 +34,7 @@ interface PaymentState {
   codeIdentifier?: string;
   qrCodeDataUrl?: string;
   isLive?: boolean;
+  simulatorUrl?: string;
   error?: string;
 }
 
@@ -49,6 +52,9 @@ export default function SatispayPayment() {
 
   const [isLoading, setIsLoading] = useState(false);
 
+  // Servizi o importo parziale scelti nella pagina di riepilogo (vuoto = tutto il dovuto)
+  const [selection] = useState(() => selectionFromQuery());
+
   // Auto-load services if sigla is provided in URL
   useEffect(() => {
     if (params?.sigla && paymentState.step === 'input' && !isLoading) {
@@ -92,8 +98,10 @@ export default function SatispayPayment() {
         step: 'services',
         sigla: targetSigla,
         student: data.student,
-        pendingServices: data.pendingServices,
-        totalAmount: data.totalAmount
+        pendingServices: selection.serviceIds
+          ? data.pendingServices.filter((service: PendingService) => selection.serviceIds!.includes(service.id))
+          : data.pendingServices,
+        totalAmount: Math.round(selectionTotal(data.pendingServices, selection) * 100) / 100
       }));
 
     } catch (error: any) {
@@ -112,14 +120,14 @@ export default function SatispayPayment() {
     setIsLoading(true);
     
     try {
-      const response = await fetch('/api/public/satispay-payment', {
+      const response = await fetch('/api/public/payments/satispay', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           sigla: paymentState.sigla,
-          amount: paymentState.totalAmount,
+          ...selection,
           customerName: `${paymentState.student?.firstName} ${paymentState.student?.lastName}`,
           description: `Pagamento servizi ELIS - ${paymentState.sigla}`
         }),
@@ -132,7 +140,7 @@ export default function SatispayPayment() {
       }
 
       // Generate code_identifier from paymentId for QR code
-      const codeIdentifier = data.codeIdentifier || `S6Y-PAY--${data.paymentId.toUpperCase()}`;
+      const codeIdentifier = data.codeIdentifier || `S6Y-PAY--${data.orderId.toUpperCase()}`;
       console.log('🎯 Code identifier for QR:', codeIdentifier);
       console.log('🎯 Full payment data:', data);
       
@@ -155,10 +163,11 @@ export default function SatispayPayment() {
       setPaymentState(prev => ({
         ...prev,
         step: 'payment',
-        paymentId: data.paymentId,
+        paymentId: data.orderId,
         codeIdentifier: codeIdentifier,
         qrCodeDataUrl: qrCodeDataUrl,
-        isLive: data.isLive
+        isLive: data.isLive,
+        simulatorUrl: data.isSimulated ? data.redirectUrl : undefined
       }));
 
       // No automatic polling - let user scan QR code first
@@ -180,10 +189,10 @@ export default function SatispayPayment() {
     
     const pollInterval = setInterval(async () => {
       try {
-        const response = await fetch(`/api/public/satispay-status/${paymentId}`);
+        const response = await fetch(`/api/public/payments/satispay/${paymentId}`);
         const data = await response.json();
 
-        if (data.status === 'ACCEPTED' || data.localStatus === 'completed') {
+        if (data.status === 'completed') {
           clearInterval(pollInterval);
           setPaymentState(prev => ({ ...prev, step: 'success' }));
           
@@ -191,7 +200,7 @@ export default function SatispayPayment() {
             title: "Pagamento completato!",
             description: "I tuoi servizi sono stati pagati con successo",
           });
-        } else if (data.status === 'CANCELED' || data.status === 'EXPIRED' || data.localStatus === 'failed') {
+        } else if (data.status === 'cancelled' || data.status === 'failed') {
           clearInterval(pollInterval);
           setPaymentState(prev => ({
             ...prev,
@@ -289,7 +298,7 @@ export default function SatispayPayment() {
                       </div>
                     </div>
                     <Badge variant="outline">
-                      {formatCurrency(service.amount)}
+                      {formatCurrency(service.outstanding)}
                     </Badge>
                   </div>
                 ))}
@@ -297,6 +306,12 @@ export default function SatispayPayment() {
               
               <Separator />
               
+              {selection.amount !== undefined && (
+                <p className="text-sm text-muted-foreground">
+                  Pagamento parziale: l'importo copre i servizi a partire dal più vecchio.
+                </p>
+              )}
+
               <div className="flex justify-between items-center text-lg font-semibold">
                 <span>Totale da pagare:</span>
                 <span className="text-orange-600">{formatCurrency(paymentState.totalAmount)}</span>
@@ -384,6 +399,16 @@ export default function SatispayPayment() {
               )}
 
               <div className="space-y-3">
+                {/* Con il simulatore dei pagamenti l'app Satispay è sostituita dalla pagina del simulatore */}
+                {paymentState.simulatorUrl && (
+                  <Button
+                    variant="outline"
+                    onClick={() => window.open(paymentState.simulatorUrl, '_blank')}
+                    className="w-full"
+                  >
+                    Apri il simulatore di pagamento
+                  </Button>
+                )}
                 <Button 
                   onClick={() => startPaymentPolling(paymentState.paymentId!)}
                   className="w-full bg-orange-600 hover:bg-orange-700"
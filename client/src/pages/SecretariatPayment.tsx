@@ -9,10 +9,15 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { selectionToQuery, selectionTotal } from "@/lib/utils/paymentSelection";
+import type { PaymentSelection } from "@shared/schema";
 import { CheckCircle, CreditCard, User, Euro, AlertCircle, Loader2, X, Smartphone } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
 import ELISLoader, { ELISLoadingOverlay } from "@/components/ELISLoader";
-import { useLocation } from "wouter";
+import { Link, useLocation, useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 
 // Initialize Stripe
 if (!import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
@@ -103,11 +108,21 @@ interface PendingService {
   type: string;
   description: string;
   amount: number;
+  outstanding: number; // Residuo dopo eventuali pagamenti parziali
   date: string;
 }
 
 type PaymentMethod = 'stripe' | 'satispay' | 'revolut' | 'sumup';
 
+// Metodi con una pagina di pagamento dedicata (/secretariat-payment/:method)
+const METHODS_WITH_PAGE: string[] = ['stripe', 'satispay', 'revolut', 'sumup'];
+
+interface PublicPaymentProvider {
+  id: string;
+  label: string;
+  description: string;
+}
+
 interface PaymentState {
   step: 'input' | 'services' | 'method-selection' | 'stripe-payment' | 'satispay-payment' | 'revolut-payment' | 'sumup-payment' | 'processing' | 'success' | 'error';
   sigla: string;
@@ -128,9 +143,11 @@ interface PaymentState {
   qrCode?: string;
   isLive?: boolean;
   error?: string;
+  needsPortalLogin?: boolean; // La sigla è visibile solo dopo l'accesso al portale studenti
 }
 
 export default function SecretariatPayment() {
+  const [, params] = useRoute("/secretariat-payment/:sigla?");
   const [paymentState, setPaymentState] = useState<PaymentState>({
     step: 'input',
     sigla: '',
@@ -143,10 +160,15 @@ export default function SecretariatPayment() {
 
   const [isLoading, setIsLoading] = useState(false);
 
+  // Scelta di cosa pagare: alcuni servizi oppure un importo parziale
+  const [payMode, setPayMode] = useState<'services' | 'amount'>('services');
+  const [selectedServiceIds, setSelectedServiceIds] = useState<number[]>([]);
+  const [customAmount, setCustomAmount] = useState('');
+
   const form = useForm<PaymentFormData>({
     resolver: zodResolver(paymentSchema),
     defaultValues: {
-      sigla: "",
+      sigla: params?.sigla?.toUpperCase() || "",
       customerName: "",
       customerEmail: "",
     },
@@ -158,40 +180,18 @@ export default function SecretariatPayment() {
     const siglaParam = urlParams.get('sigla');
     
     if (urlParams.get('success') === 'true' && siglaParam) {
-      // Payment was successful, now we need to mark all services as paid
+      // Il pagamento è andato a buon fine: i servizi vengono segnati come pagati dal webhook Stripe
       handlePaymentSuccess(siglaParam);
     }
   }, []);
 
-  const handlePaymentSuccess = async (sigla: string) => {
-    try {
-      // First get the pending services for this sigla
-      const response = await fetch(`/api/public/services/pending/${sigla}`);
-      const servicesData = await response.json();
-
-      if (response.ok && servicesData.pendingServices) {
-        // Mark all pending services as paid
-        const updatePromises = servicesData.pendingServices.map((service: any) =>
-          apiRequest("PATCH", `/api/services/${service.id}/mark-paid`, {})
-        );
-
-        await Promise.all(updatePromises);
-        
-        setPaymentState(prev => ({ 
-          ...prev, 
-          step: 'success',
-          sigla: sigla,
-          totalAmount: servicesData.totalAmount,
-          pendingServices: servicesData.pendingServices,
-          paymentMethod: 'stripe'
-        }));
-      } else {
-        setPaymentState(prev => ({ ...prev, step: 'success' }));
-      }
-    } catch (error) {
-      console.error("Errore nell'aggiornamento dei pagamenti:", error);
-      setPaymentState(prev => ({ ...prev, step: 'success' }));
-    }
+  const handlePaymentSuccess = (sigla: string) => {
+    setPaymentState(prev => ({ 
+      ...prev, 
+      step: 'success',
+      sigla: sigla,
+      paymentMethod: 'stripe'
+    }));
   };
 
   const handleFormSubmit = async (data: PaymentFormData) => {
@@ -201,6 +201,10 @@ export default function SecretariatPayment() {
       const response = await fetch(`/api/public/services/pending/${data.sigla}`);
       const servicesData = await response.json();
 
+      if (response.status === 401 || response.status === 403) {
+        setPaymentState(prev => ({ ...prev, step: 'error', error: servicesData.message, needsPortalLogin: true }));
+        return;
+      }
       if (!response.ok) {
         throw new Error(servicesData.message || "Errore nel recupero dei servizi");
       }
@@ -224,6 +228,9 @@ export default function SecretariatPayment() {
         pendingServices: servicesData.pendingServices,
         totalAmount: servicesData.totalAmount
       }));
+      setPayMode('services');
+      setSelectedServiceIds(servicesData.pendingServices.map((service: PendingService) => service.id));
+      setCustomAmount('');
 
     } catch (error: any) {
       console.error("Errore nel recupero servizi:", error);
@@ -239,18 +246,40 @@ export default function SecretariatPayment() {
 
   const [location, setLocation] = useLocation();
   
+  const allServicesSelected = selectedServiceIds.length === paymentState.pendingServices.length;
+  const parsedCustomAmount = parseFloat(customAmount);
+
+  // Selezione da passare alla pagina del metodo di pagamento (vuota = tutto il dovuto)
+  const currentSelection: PaymentSelection = payMode === 'amount'
+    ? (Number.isFinite(parsedCustomAmount) ? { amount: parsedCustomAmount } : {})
+    : (allServicesSelected ? {} : { serviceIds: selectedServiceIds });
+  const amountToPay = selectionTotal(paymentState.pendingServices, currentSelection);
+  const isSelectionValid = payMode === 'amount'
+    ? Number.isFinite(parsedCustomAmount) && parsedCustomAmount >= 0.5 && parsedCustomAmount <= paymentState.totalAmount
+    : selectedServiceIds.length > 0 && amountToPay >= 0.5;
+
+  const toggleService = (serviceId: number, checked: boolean) => {
+    setSelectedServiceIds(prev => checked ? [...prev, serviceId] : prev.filter(id => id !== serviceId));
+  };
+
+  // Metodi abilitati lato server (PAYMENT_PROVIDERS)
+  const { data: providers = [] } = useQuery<PublicPaymentProvider[]>({
+    queryKey: ['/api/public/payments/providers'],
+  });
+  const availableMethods = providers.filter(provider => METHODS_WITH_PAGE.includes(provider.id));
+
   const handlePaymentMethodSelection = (method: PaymentMethod) => {
-    // Navigate to specific payment page with sigla
+    // Navigate to specific payment page with sigla and the chosen services or amount
     const baseUrl = `/secretariat-payment/${method}`;
     const urlWithSigla = paymentState.sigla ? `${baseUrl}/${paymentState.sigla}` : baseUrl;
-    setLocation(urlWithSigla);
+    setLocation(`${urlWithSigla}${selectionToQuery(currentSelection)}`);
   };
 
   const initializeStripePayment = async () => {
     setIsLoading(true);
     
     try {
-      const response = await fetch('/api/public/secretariat-payment', {
+      const response = await fetch('/api/public/payments/stripe', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -291,7 +320,7 @@ export default function SecretariatPayment() {
     setIsLoading(true);
     
     try {
-      const response = await fetch('/api/public/satispay-payment', {
+      const response = await fetch('/api/public/payments/satispay', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -313,7 +342,7 @@ export default function SecretariatPayment() {
       setPaymentState(prev => ({
         ...prev,
         step: 'satispay-payment',
-        paymentId: data.paymentId,
+        paymentId: data.orderId,
         qrCode: data.qrCode,
         isLive: data.isLive
       }));
@@ -333,13 +362,13 @@ export default function SecretariatPayment() {
   const startSatispayPolling = (paymentId: string) => {
     const pollInterval = setInterval(async () => {
       try {
-        const response = await fetch(`/api/public/satispay-status/${paymentId}`);
+        const response = await fetch(`/api/public/payments/satispay/${paymentId}`);
         const data = await response.json();
 
-        if (data.status === 'ACCEPTED' || data.localStatus === 'completed') {
+        if (data.status === 'completed') {
           clearInterval(pollInterval);
           setPaymentState(prev => ({ ...prev, step: 'success' }));
-        } else if (data.status === 'CANCELED' || data.status === 'EXPIRED' || data.localStatus === 'failed') {
+        } else if (data.status === 'cancelled' || data.status === 'failed') {
           clearInterval(pollInterval);
           setPaymentState(prev => ({
             ...prev,
@@ -512,10 +541,32 @@ export default function SecretariatPayment() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              <RadioGroup
+                value={payMode}
+                onValueChange={(value) => setPayMode(value as 'services' | 'amount')}
+                className="flex gap-6"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="services" id="pay-services" />
+                  <Label htmlFor="pay-services">Scegli i servizi</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="amount" id="pay-amount" />
+                  <Label htmlFor="pay-amount">Paga un importo parziale</Label>
+                </div>
+              </RadioGroup>
+
               <div className="space-y-3">
                 {paymentState.pendingServices.map((service) => (
                   <div key={service.id} className="flex justify-between items-center p-3 border rounded-lg">
-                    <div>
+                    {payMode === 'services' && (
+                      <Checkbox
+                        className="mr-3"
+                        checked={selectedServiceIds.includes(service.id)}
+                        onCheckedChange={(checked) => toggleService(service.id, checked === true)}
+                      />
+                    )}
+                    <div className="flex-1">
                       <div className="font-medium">{getServiceTypeLabel(service.type)}</div>
                       <div className="text-sm text-muted-foreground">
                         {service.description || 'Servizio di sartoria'}
@@ -525,64 +576,69 @@ export default function SecretariatPayment() {
                       </div>
                     </div>
                     <div className="text-right">
-                      <div className="font-semibold">{formatCurrency(service.amount)}</div>
+                      <div className="font-semibold">{formatCurrency(service.outstanding)}</div>
+                      {service.outstanding < service.amount && (
+                        <div className="text-xs text-muted-foreground">
+                          già versati {formatCurrency(service.amount - service.outstanding)}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
               </div>
+
+              {payMode === 'amount' && (
+                <div className="space-y-2">
+                  <Label htmlFor="custom-amount">Importo da versare (€)</Label>
+                  <Input
+                    id="custom-amount"
+                    type="number"
+                    step="0.01"
+                    min="0.50"
+                    max={paymentState.totalAmount}
+                    value={customAmount}
+                    onChange={(e) => setCustomAmount(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    L'importo copre i servizi a partire dal più vecchio; un servizio risulta pagato quando è coperto per intero.
+                  </p>
+                </div>
+              )}
               
-              <div className="border-t pt-4">
+              <div className="border-t pt-4 space-y-1">
+                <div className="flex justify-between items-center text-sm text-muted-foreground">
+                  <span>Totale dovuto:</span>
+                  <span>{formatCurrency(paymentState.totalAmount)}</span>
+                </div>
                 <div className="flex justify-between items-center text-lg font-semibold">
                   <span>Totale da pagare:</span>
-                  <span className="text-primary">{formatCurrency(paymentState.totalAmount)}</span>
+                  <span className="text-primary">{formatCurrency(amountToPay)}</span>
                 </div>
+                {!isSelectionValid && (
+                  <p className="text-sm text-destructive">
+                    Seleziona almeno un servizio o un importo tra €0.50 e {formatCurrency(paymentState.totalAmount)}
+                  </p>
+                )}
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
-                <Button
-                  onClick={() => handlePaymentMethodSelection('stripe')}
-                  className="flex items-center justify-center gap-2 h-16"
-                  variant="outline"
-                >
-                  <CreditCard className="h-6 w-6" />
-                  <div className="text-left">
-                    <div className="font-semibold">Carta di Credito</div>
-                    <div className="text-sm text-muted-foreground">Visa, Mastercard, PayPal</div>
-                  </div>
-                </Button>
-                
-                <Button
-                  onClick={() => handlePaymentMethodSelection('satispay')}
-                  className="flex items-center justify-center gap-2 h-16 bg-orange-600 hover:bg-orange-700"
-                >
-                  <Smartphone className="h-6 w-6" />
-                  <div className="text-left">
-                    <div className="font-semibold">Satispay</div>
-                    <div className="text-sm text-orange-100">Pagamento mobile</div>
-                  </div>
-                </Button>
-
-                <Button
-                  disabled
-                  className="flex items-center justify-center gap-2 h-16 bg-gray-400 cursor-not-allowed opacity-60"
-                >
-                  <CreditCard className="h-6 w-6 text-gray-600" />
-                  <div className="text-left">
-                    <div className="font-semibold text-gray-600">Revolut</div>
-                    <div className="text-sm text-gray-500">In fase di test</div>
-                  </div>
-                </Button>
-
-                <Button
-                  disabled
-                  className="flex items-center justify-center gap-2 h-16 bg-gray-400 cursor-not-allowed opacity-60"
-                >
-                  <CreditCard className="h-6 w-6 text-gray-600" />
-                  <div className="text-left">
-                    <div className="font-semibold text-gray-600">SumUp</div>
-                    <div className="text-sm text-gray-500">In fase di test</div>
-                  </div>
-                </Button>
+                {availableMethods.map((provider) => (
+                  <Button
+                    key={provider.id}
+                    onClick={() => handlePaymentMethodSelection(provider.id as PaymentMethod)}
+                    disabled={!isSelectionValid}
+                    className={`flex items-center justify-center gap-2 h-16 ${provider.id === 'satispay' ? 'bg-orange-600 hover:bg-orange-700' : ''}`}
+                    variant={provider.id === 'satispay' ? 'default' : 'outline'}
+                  >
+                    {provider.id === 'satispay' ? <Smartphone className="h-6 w-6" /> : <CreditCard className="h-6 w-6" />}
+                    <div className="text-left">
+                      <div className="font-semibold">{provider.label}</div>
+                      <div className={`text-sm ${provider.id === 'satispay' ? 'text-orange-100' : 'text-muted-foreground'}`}>
+                        {provider.description}
+                      </div>
+                    </div>
+                  </Button>
+                ))}
               </div>
             </CardContent>
           </Card>
@@ -938,6 +994,11 @@ export default function SecretariatPayment() {
                 <AlertTitle>Errore</AlertTitle>
                 <AlertDescription>
                   {paymentState.error || 'Errore sconosciuto'}
+                  {paymentState.needsPortalLogin && (
+                    <p className="mt-2">
+                      <Link href="/portal" className="underline">Accedi al portale studenti</Link>
+                    </p>
+                  )}
                 </AlertDescription>
               </Alert>
               
@@ -17,7 +17,9 @@ import { Loader2, ArrowLeft, Save } from "lucide-react";
 // Rimuovo l'import del toast che non usiamo più
 // import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { insertServiceSchema, defaultPrices, ServiceType, PaymentStatus } from "@shared/schema";
+import { insertServiceSchema, ServiceType, PaymentStatus } from "@shared/schema";
+import { multiplyEuros } from "@shared/money";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
 
 // Extend the insertServiceSchema with client-side validations
 const formSchema = insertServiceSchema.extend({
@@ -46,6 +48,11 @@ const formSchema = insertServiceSchema.extend({
 
 type FormValues = z.infer<typeof formSchema>;
 
+interface EffectivePricesResponse {
+  date: string;
+  prices: Record<string, number>;
+}
+
 interface ServiceFormProps {
   id?: string;
 }
@@ -70,7 +77,7 @@ export default function ServiceForm({ id }: ServiceFormProps) {
       cognome: "",
       pieces: 1,
       type: ServiceType.SIGLATURA,
-      amount: defaultPrices[ServiceType.SIGLATURA],
+      amount: 0,
       status: PaymentStatus.UNPAID,
       notes: "",
     },
@@ -106,12 +113,32 @@ export default function ServiceForm({ id }: ServiceFormProps) {
   const watchType = form.watch("type");
   const watchPieces = form.watch("pieces");
   const watchSigla = form.watch("sigla");
+  const watchDate = form.watch("date");
   
-  useEffect(() => {
-    if (watchType && !form.getFieldState("amount").isDirty) {
-      form.setValue("amount", defaultPrices[watchType as keyof typeof defaultPrices]);
-    }
-  }, [watchType, form]);
+  // Prezzi del listino in vigore alla data del servizio, non a quella odierna
+  const priceDate = watchDate instanceof Date && !isNaN(watchDate.getTime())
+    ? watchDate.toISOString().split('T')[0]
+    : new Date().toISOString().split('T')[0];
+  
+  const { data: effectivePrices } = useQuery<EffectivePricesResponse>({
+    queryKey: ["/api/prices/effective", priceDate],
+    queryFn: async () => {
+      const response = await fetch(`/api/prices/effective?date=${priceDate}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Errore nel caricamento del listino prezzi");
+      }
+      return response.json();
+    },
+  });
+  
+  const getUnitPrice = (type: string) => effectivePrices?.prices[type];
+  
+  // Tipi di servizio selezionabili: quelli attivi del catalogo (più quello del servizio in modifica)
+  const { catalog, getItem, getLabel } = useServiceCatalog(isEditing);
+  const selectableTypes = catalog.filter(item => item.active || item.code === watchType);
+  const selectedItem = getItem(watchType);
+  const isVariablePrice = !!selectedItem?.variablePrice;
+  const unitName = selectedItem?.unitName ?? "pezzi";
 
   // Auto-populate cognome when sigla changes
   useEffect(() => {
@@ -146,18 +173,21 @@ export default function ServiceForm({ id }: ServiceFormProps) {
   
   // Gestione automatica importo in base al tipo di servizio
   useEffect(() => {
-    if (watchType === ServiceType.SIGLATURA) {
-      // Per siglatura, calcola in base ai pezzi
-      const basePrice = defaultPrices[ServiceType.SIGLATURA];
+    if (!selectedItem) return;
+    
+    if (!selectedItem.variablePrice) {
+      // Prezzo fisso: calcola in base ai pezzi e al listino
+      const basePrice = getUnitPrice(watchType);
+      if (basePrice === undefined) return;
       const pieces = watchPieces || 1; // Default a 1 se undefined
-      const totalAmount = basePrice * pieces;
+      const totalAmount = multiplyEuros(basePrice, pieces);
       form.setValue("amount", totalAmount);
-    } else if (watchType === ServiceType.RIPARAZIONE && !isEditing) {
-      // Per riparazione, imposta a zero perché sarà determinato dopo
+    } else if (!isEditing) {
+      // Prezzo variabile (es. riparazione): imposta a zero perché sarà determinato dopo
       // Solo se stiamo creando un nuovo servizio, non in modifica
       form.setValue("amount", 0);
     }
-  }, [watchType, watchPieces, form, isEditing]);
+  }, [watchType, watchPieces, effectivePrices, selectedItem?.variablePrice, form, isEditing]);
 
   // Create service mutation
   const createMutation = useMutation({
@@ -363,9 +393,9 @@ export default function ServiceForm({ id }: ServiceFormProps) {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value={ServiceType.SIGLATURA}>Siglatura</SelectItem>
-                            <SelectItem value={ServiceType.HAPPY_HOUR}>Happy Hour</SelectItem>
-                            <SelectItem value={ServiceType.RIPARAZIONE}>Riparazione</SelectItem>
+                            {selectableTypes.map(item => (
+                              <SelectItem key={item.code} value={item.code}>{getLabel(item.code)}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -405,29 +435,26 @@ export default function ServiceForm({ id }: ServiceFormProps) {
                             step="0.10"
                             {...field}
                             onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                            readOnly={form.getValues("type") === ServiceType.SIGLATURA || 
-                                     (form.getValues("type") === ServiceType.RIPARAZIONE && !isEditing)}
+                            readOnly={!!selectedItem && (!isVariablePrice || !isEditing)}
                             className={
-                              form.getValues("type") === ServiceType.SIGLATURA 
-                                ? "bg-gray-100 cursor-not-allowed" 
-                                : form.getValues("type") === ServiceType.RIPARAZIONE && isEditing
+                              !selectedItem
+                                ? ""
+                                : isVariablePrice && isEditing
                                   ? "bg-yellow-50 border-yellow-300 focus:border-yellow-500 focus:ring-yellow-500" 
-                                  : form.getValues("type") === ServiceType.RIPARAZIONE && !isEditing
-                                    ? "bg-gray-100 cursor-not-allowed"
-                                    : ""
+                                  : "bg-gray-100 cursor-not-allowed"
                             }
                           />
                         </FormControl>
                         <FormDescription>
-                          {form.getValues("type") === ServiceType.SIGLATURA 
-                            ? `Calcolato automaticamente: ${watchPieces || 1} pezzi × €${defaultPrices[ServiceType.SIGLATURA].toFixed(2)} = €${((watchPieces || 1) * defaultPrices[ServiceType.SIGLATURA]).toFixed(2)}`
-                            : form.getValues("type") === ServiceType.RIPARAZIONE
-                              ? isEditing 
+                          {!selectedItem
+                            ? null
+                            : !isVariablePrice
+                              ? `Calcolato automaticamente: ${watchPieces || 1} × ${unitName} × €${(getUnitPrice(watchType) ?? 0).toFixed(2)} = €${multiplyEuros(getUnitPrice(watchType) ?? 0, watchPieces || 1).toFixed(2)}`
+                              : isEditing 
                                 ? <span className="text-amber-700 font-medium">
-                                    La riparazione è completata. Inserisci il prezzo finale.
+                                    Il servizio è completato. Inserisci il prezzo finale.
                                   </span>
-                                : "Il prezzo sarà stabilito dopo la valutazione della riparazione"
-                              : `Prezzo standard per ${form.getValues("type")}: €${defaultPrices[form.getValues("type") as keyof typeof defaultPrices].toFixed(2)}`
+                                : `Il prezzo di ${getLabel(watchType).toLowerCase()} sarà stabilito dopo la valutazione`
                           }
                         </FormDescription>
                         <FormMessage />
@@ -6,20 +6,22 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import ServiceList from "@/components/services/ServicesList";
 import { Plus, Search, Filter, AlertTriangle, RefreshCw } from "lucide-react";
-import { ServiceTypeValue, PaymentStatusValue } from "@shared/schema";
+import { PaymentStatusValue } from "@shared/schema";
+import { useServiceCatalog } from "@/hooks/use-service-catalog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 
 export default function ServicesPage() {
   const [, setLocation] = useLocation();
+  const { catalog, getLabel } = useServiceCatalog(true);
   const search = useSearch();
   const searchParams = new URLSearchParams(search);
   const { toast } = useToast();
   
   type FilterType = {
     query: string;
-    type: ServiceTypeValue | "all";
+    type: string; // "all" o un codice del catalogo servizi
     status: PaymentStatusValue | "all";
     page: number;
     limit: number;
@@ -27,7 +29,7 @@ export default function ServicesPage() {
   
   const [filters, setFilters] = useState<FilterType>({
     query: searchParams.get("query") || "",
-    type: (searchParams.get("type") as ServiceTypeValue | "all") || "all",
+    type: searchParams.get("type") || "all",
     status: (searchParams.get("status") as PaymentStatusValue | "all") || "all",
     page: parseInt(searchParams.get("page") || "1"),
     limit: parseInt(searchParams.get("limit") || "10")
@@ -39,7 +41,7 @@ export default function ServicesPage() {
     const params = new URLSearchParams(search);
     setFilters({
       query: params.get("query") || "",
-      type: (params.get("type") as ServiceTypeValue) || "all",
+      type: params.get("type") || "all",
       status: (params.get("status") as PaymentStatusValue) || "all",
       page: parseInt(params.get("page") || "1"),
       limit: parseInt(params.get("limit") || "10")
@@ -96,13 +98,6 @@ export default function ServicesPage() {
     setLocation(`/services?${newParams.toString()}`);
   };
 
-  const serviceTypeLabels = {
-    'all': 'Tutte le tipologie',
-    'siglatura': 'Siglatura',
-    'happy_hour': 'Happy Hour',
-    'riparazione': 'Riparazione'
-  };
-
   const paymentStatusLabels = {
     'all': 'Tutti i pagamenti',
     'paid': 'Pagato',
@@ -150,13 +145,13 @@ export default function ServicesPage() {
               onValueChange={(value) => setFilters(prev => ({ ...prev, type: value as any }))}
             >
               <SelectTrigger className="w-full h-10">
-                <SelectValue placeholder={serviceTypeLabels[filters.type] || "Tutte le tipologie"} />
+                <SelectValue placeholder={filters.type === "all" ? "Tutte le tipologie" : getLabel(filters.type)} />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">Tutte le tipologie</SelectItem>
-                <SelectItem value="siglatura">Siglatura</SelectItem>
-                <SelectItem value="happy_hour">Happy Hour</SelectItem>
-                <SelectItem value="riparazione">Riparazione</SelectItem>
+                {catalog.map(item => (
+                  <SelectItem key={item.code} value={item.code}>{getLabel(item.code)}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
             
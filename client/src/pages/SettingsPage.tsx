@@ -3,6 +3,9 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useLanguage } from "@/contexts/language-context";
+import { apiRequest } from "@/lib/queryClient";
 import {
   Card,
   CardContent,
@@ -25,21 +28,14 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
-import { ServiceType } from "@shared/schema";
-import { defaultPrices } from "@shared/schema";
-
-// Define the schema for price settings
-const priceSettingsSchema = z.object({
-  siglaturaPrice: z.coerce.number().min(0.1).step(0.1),
-  happyHourPrice: z.coerce.number().min(0.1).step(0.1),
-  riparazionePrice: z.coerce.number().min(0.1).step(0.1),
-});
+import PriceListSettings from "@/components/settings/PriceListSettings";
+import ServiceCatalogSettings from "@/components/settings/ServiceCatalogSettings";
 
 // Define the schema for user settings
 const userSettingsSchema = z.object({
   currentPassword: z.string().min(1, "La password attuale è obbligatoria"),
-  newPassword: z.string().min(6, "La nuova password deve essere di almeno 6 caratteri"),
-  confirmPassword: z.string().min(6, "Conferma la nuova password"),
+  newPassword: z.string().min(8, "La nuova password deve essere di almeno 8 caratteri"),
+  confirmPassword: z.string().min(8, "Conferma la nuova password"),
 }).refine((data) => data.newPassword === data.confirmPassword, {
   message: "Le password non corrispondono",
   path: ["confirmPassword"],
@@ -55,18 +51,10 @@ const notificationSettingsSchema = z.object({
 
 export default function SettingsPage() {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const { t } = useLanguage();
   const [activeTab, setActiveTab] = useState("general");
 
-  // Price settings form
-  const priceForm = useForm<z.infer<typeof priceSettingsSchema>>({
-    resolver: zodResolver(priceSettingsSchema),
-    defaultValues: {
-      siglaturaPrice: defaultPrices[ServiceType.SIGLATURA],
-      happyHourPrice: defaultPrices[ServiceType.HAPPY_HOUR],
-      riparazionePrice: defaultPrices[ServiceType.RIPARAZIONE],
-    },
-  });
-
   // User settings form
   const userForm = useForm<z.infer<typeof userSettingsSchema>>({
     resolver: zodResolver(userSettingsSchema),
@@ -88,29 +76,29 @@ export default function SettingsPage() {
     },
   });
 
-  // Handle price settings submission
-  const onPriceSubmit = (data: z.infer<typeof priceSettingsSchema>) => {
-    // In a real application, this would send the data to the server
-    console.log("Price settings updated:", data);
-    toast({
-      title: "Impostazioni aggiornate",
-      description: "I prezzi standard sono stati aggiornati con successo.",
-    });
-  };
-
   // Handle user settings submission
-  const onUserSubmit = (data: z.infer<typeof userSettingsSchema>) => {
-    // In a real application, this would send the data to the server
-    console.log("User settings updated:", data);
-    toast({
-      title: "Password aggiornata",
-      description: "La tua password è stata aggiornata con successo.",
-    });
-    userForm.reset({
-      currentPassword: "",
-      newPassword: "",
-      confirmPassword: "",
-    });
+  const onUserSubmit = async (data: z.infer<typeof userSettingsSchema>) => {
+    try {
+      await apiRequest("POST", "/api/user/password", {
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      toast({
+        title: "Password aggiornata",
+        description: "La tua password è stata aggiornata con successo.",
+      });
+      userForm.reset({
+        currentPassword: "",
+        newPassword: "",
+        confirmPassword: "",
+      });
+    } catch (error) {
+      toast({
+        title: "Errore",
+        description: "Impossibile aggiornare la password. Verifica la password attuale.",
+        variant: "destructive",
+      });
+    }
   };
 
   // Handle notification settings submission
@@ -213,92 +201,9 @@ export default function SettingsPage() {
         </TabsContent>
         
         {/* Price Settings */}
-        <TabsContent value="prices">
-          <Card>
-            <CardHeader>
-              <CardTitle>Impostazioni Prezzi</CardTitle>
-              <CardDescription>
-                Configura i prezzi standard per le diverse tipologie di servizio.
-              </CardDescription>
-            </CardHeader>
-            <Form {...priceForm}>
-              <form onSubmit={priceForm.handleSubmit(onPriceSubmit)}>
-                <CardContent className="space-y-4">
-                  <FormField
-                    control={priceForm.control}
-                    name="siglaturaPrice"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Prezzo Siglatura (€)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            step="0.10"
-                            min="0"
-                            placeholder="0.50"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormDescription>
-                          Prezzo standard per ogni pezzo di siglatura
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  
-                  <FormField
-                    control={priceForm.control}
-                    name="happyHourPrice"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Prezzo Happy Hour (€)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            step="0.10"
-                            min="0"
-                            placeholder="1.00"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormDescription>
-                          Prezzo standard per ogni consumazione Happy Hour
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  
-                  <FormField
-                    control={priceForm.control}
-                    name="riparazionePrice"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Prezzo Riparazione (€)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            step="0.10"
-                            min="0"
-                            placeholder="4.00"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormDescription>
-                          Prezzo standard per ogni riparazione
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </CardContent>
-                <CardFooter className="justify-end">
-                  <Button type="submit">Salva Prezzi</Button>
-                </CardFooter>
-              </form>
-            </Form>
-          </Card>
+        <TabsContent value="prices" className="space-y-6">
+          <ServiceCatalogSettings />
+          <PriceListSettings />
         </TabsContent>
         
         {/* Account Settings */}
@@ -316,11 +221,11 @@ export default function SettingsPage() {
                 <div className="grid gap-4 md:grid-cols-2">
                   <div>
                     <label className="text-sm font-medium">Nome Utente</label>
-                    <Input value="admin" disabled />
+                    <Input value={user?.username ?? ""} disabled />
                   </div>
                   <div>
                     <label className="text-sm font-medium">Ruolo</label>
-                    <Input value="Responsabile Segreteria" disabled />
+                    <Input value={user ? t(`role_${user.role}`) : ""} disabled />
                   </div>
                 </div>
               </div>
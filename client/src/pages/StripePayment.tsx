@@ -7,12 +7,14 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { selectionFromQuery, selectionTotal } from "@/lib/utils/paymentSelection";
 import { ArrowLeft, CheckCircle, XCircle, CreditCard, Clock } from "lucide-react";
 
 interface PendingService {
   id: number;
   type: string;
   amount: number;
+  outstanding: number; // Residuo dopo eventuali pagamenti parziali
   description: string;
   date: string;
 }
@@ -45,6 +47,9 @@ export default function StripePayment() {
 
   const [isLoading, setIsLoading] = useState(false);
 
+  // Servizi o importo parziale scelti nella pagina di riepilogo (vuoto = tutto il dovuto)
+  const [selection] = useState(() => selectionFromQuery());
+
   // Auto-load services if sigla is provided in URL
   useEffect(() => {
     if (params?.sigla && paymentState.step === 'input') {
@@ -88,8 +93,10 @@ export default function StripePayment() {
         step: 'services',
         sigla: targetSigla,
         student: data.student,
-        pendingServices: data.pendingServices,
-        totalAmount: data.totalAmount
+        pendingServices: selection.serviceIds
+          ? data.pendingServices.filter((service: PendingService) => selection.serviceIds!.includes(service.id))
+          : data.pendingServices,
+        totalAmount: Math.round(selectionTotal(data.pendingServices, selection) * 100) / 100
       }));
 
     } catch (error: any) {
@@ -108,8 +115,7 @@ export default function StripePayment() {
     setIsLoading(true);
     
     try {
-      // Use correct endpoint with proper metadata for webhook processing
-      const response = await fetch('/api/public/secretariat-payment', {
+      const response = await fetch('/api/public/payments/stripe', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -117,7 +123,8 @@ export default function StripePayment() {
         body: JSON.stringify({
           sigla: paymentState.sigla,
           customerName: paymentState.student ? `${paymentState.student.firstName} ${paymentState.student.lastName}` : 'N/A',
-          customerEmail: `${paymentState.sigla}@student.elis.org` // Default email pattern
+          customerEmail: `${paymentState.sigla}@student.elis.org`, // Default email pattern
+          ...selection
         }),
       });
 
@@ -127,6 +134,12 @@ export default function StripePayment() {
         throw new Error(data.message || "Errore nella creazione del pagamento");
       }
 
+      // Con il simulatore dei pagamenti non c'è un client secret Stripe: si va alla pagina del simulatore
+      if (data.isSimulated && data.redirectUrl) {
+        window.location.href = data.redirectUrl;
+        return;
+      }
+
       // Redirect to Stripe Checkout page
       window.location.href = `/checkout?client_secret=${data.clientSecret}&sigla=${paymentState.sigla}`;
 
@@ -214,7 +227,7 @@ export default function StripePayment() {
                       </div>
                     </div>
                     <Badge variant="outline">
-                      {formatCurrency(service.amount)}
+                      {formatCurrency(service.outstanding)}
                     </Badge>
                   </div>
                 ))}
@@ -222,6 +235,12 @@ export default function StripePayment() {
               
               <Separator />
               
+              {selection.amount !== undefined && (
+                <p className="text-sm text-muted-foreground">
+                  Pagamento parziale: l'importo copre i servizi a partire dal più vecchio.
+                </p>
+              )}
+
               <div className="flex justify-between items-center text-lg font-semibold">
                 <span>Totale da pagare:</span>
                 <span className="text-blue-600">{formatCurrency(paymentState.totalAmount)}</span>
@@ -0,0 +1,442 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { GraduationCap, Loader2, LogOut, Mail } from "lucide-react";
+import { getQueryFn, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  BikeReservationStatus,
+  MaintenanceRequestStatus,
+  PaymentStatus,
+  SecretariatPaymentStatus,
+  StudentPortalOverview,
+} from "@shared/schema";
+import { formatEuros } from "@shared/money";
+import { formatSlot } from "@/components/bikes/BikeSlotsPanel";
+
+type PortalStudent = { sigla: string; firstName: string; lastName: string };
+
+function formatDate(value: string | Date | null) {
+  return value ? format(new Date(value), "dd/MM/yyyy", { locale: it }) : "—";
+}
+
+// Le rotte del portale rispondono { message } in caso di errore
+async function portalRequest<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || "Errore di comunicazione con il server");
+  }
+  return data;
+}
+
+const paymentStatusLabels: Record<string, string> = {
+  [SecretariatPaymentStatus.PENDING]: "In attesa",
+  [SecretariatPaymentStatus.PROCESSING]: "In corso",
+  [SecretariatPaymentStatus.COMPLETED]: "Completato",
+  [SecretariatPaymentStatus.FAILED]: "Non riuscito",
+  [SecretariatPaymentStatus.CANCELLED]: "Annullato",
+};
+
+const maintenanceStatusLabels: Record<string, string> = {
+  [MaintenanceRequestStatus.PENDING]: "In attesa",
+  [MaintenanceRequestStatus.IN_PROGRESS]: "In lavorazione",
+  [MaintenanceRequestStatus.COMPLETED]: "Risolta",
+  [MaintenanceRequestStatus.REJECTED]: "Rifiutata",
+  [MaintenanceRequestStatus.CANCELLED]: "Annullata",
+};
+
+const bikeStatusLabels: Record<string, string> = {
+  [BikeReservationStatus.PENDING_PAYMENT]: "In attesa di pagamento",
+  [BikeReservationStatus.PAID]: "Pagata",
+  [BikeReservationStatus.APPROVED]: "Approvata",
+  [BikeReservationStatus.REJECTED]: "Rifiutata",
+  [BikeReservationStatus.COMPLETED]: "Completata",
+  [BikeReservationStatus.CANCELLED]: "Annullata",
+};
+
+function EmptyRow({ colSpan, children }: { colSpan: number; children: string }) {
+  return (
+    <TableRow>
+      <TableCell colSpan={colSpan} className="text-center text-muted-foreground py-6">{children}</TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Accesso senza password: la sigla riceve via email un link e un codice a 6 cifre.
+ * Il link apre questa pagina con ?token=, il codice si inserisce qui.
+ */
+function PortalLogin() {
+  const [sigla, setSigla] = useState("");
+  const [code, setCode] = useState("");
+  const [sent, setSent] = useState(false);
+
+  const requestMutation = useMutation({
+    mutationFn: () => portalRequest<{ message: string }>("POST", "/api/portal/login", { sigla: sigla.trim() }),
+    onSuccess: () => setSent(true),
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: () => portalRequest<PortalStudent>("POST", "/api/portal/verify", { sigla: sigla.trim(), code }),
+    onSuccess: (student) => {
+      queryClient.setQueryData(["/api/portal/me"], student);
+    },
+  });
+
+  const handleRequest = (e: FormEvent) => {
+    e.preventDefault();
+    requestMutation.mutate();
+  };
+
+  const error = requestMutation.error ?? verifyMutation.error;
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="text-center">
+        <div className="flex justify-center mb-2">
+          <div className="rounded-full bg-primary/10 p-3">
+            <GraduationCap className="h-6 w-6 text-primary" />
+          </div>
+        </div>
+        <CardTitle>Portale studenti</CardTitle>
+        <CardDescription>
+          {sent
+            ? "Se la sigla è registrata con un indirizzo email, hai ricevuto un link e un codice di accesso"
+            : "Inserisci la tua sigla: riceverai via email il link per entrare"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!sent ? (
+          <form onSubmit={handleRequest} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="portal-sigla">Sigla</Label>
+              <Input id="portal-sigla" value={sigla} onChange={(e) => setSigla(e.target.value)} required />
+            </div>
+            <Button type="submit" className="w-full" disabled={!sigla.trim() || requestMutation.isPending}>
+              {requestMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+              Inviami il link
+            </Button>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode}>
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }).map((_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <Button className="w-full" disabled={code.length !== 6 || verifyMutation.isPending} onClick={() => verifyMutation.mutate()}>
+              {verifyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Entra
+            </Button>
+            <Button
+              variant="link"
+              className="w-full"
+              onClick={() => { setSent(false); setCode(""); verifyMutation.reset(); }}
+            >
+              Richiedi un nuovo codice
+            </Button>
+          </div>
+        )}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PortalOverview({ student }: { student: PortalStudent }) {
+  const { data, isLoading } = useQuery<StudentPortalOverview>({
+    queryKey: ["/api/portal/overview"],
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => portalRequest("POST", "/api/portal/logout"),
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/portal/me"], null);
+      queryClient.removeQueries({ queryKey: ["/api/portal/overview"] });
+    },
+  });
+
+  return (
+    <div className="w-full max-w-5xl space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Ciao {student.firstName}</h1>
+          <p className="text-muted-foreground">Sigla {student.sigla}</p>
+        </div>
+        <Button variant="outline" onClick={() => logoutMutation.mutate()} disabled={logoutMutation.isPending}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Esci
+        </Button>
+      </div>
+
+      {isLoading || !data ? (
+        <div className="flex justify-center p-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle>Da pagare</CardTitle>
+                <CardDescription>
+                  {data.outstandingServices.length === 0
+                    ? "Non hai servizi da pagare"
+                    : `${data.outstandingServices.length} servizi per un totale di ${formatEuros(data.totalOutstanding)}`}
+                </CardDescription>
+              </div>
+              {data.outstandingServices.length > 0 && (
+                <Button asChild>
+                  <Link href="/secretariat-payment">Paga ora</Link>
+                </Button>
+              )}
+            </CardHeader>
+          </Card>
+
+          <Tabs defaultValue="services">
+            <TabsList className="flex-wrap h-auto">
+              <TabsTrigger value="services">Servizi</TabsTrigger>
+              <TabsTrigger value="payments">Pagamenti</TabsTrigger>
+              <TabsTrigger value="receipts">Ricevute</TabsTrigger>
+              <TabsTrigger value="maintenance">Manutenzione</TabsTrigger>
+              <TabsTrigger value="bikes">Bici</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="services">
+              <Card>
+                <CardContent className="p-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Servizio</TableHead>
+                        <TableHead>Capi</TableHead>
+                        <TableHead>Importo</TableHead>
+                        <TableHead>Stato</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.services.length === 0 && <EmptyRow colSpan={5}>Nessun servizio</EmptyRow>}
+                      {data.services.map((service) => (
+                        <TableRow key={service.id}>
+                          <TableCell>{formatDate(service.date)}</TableCell>
+                          <TableCell>{service.type}</TableCell>
+                          <TableCell>{service.pieces}</TableCell>
+                          <TableCell>{formatEuros(service.amount)}</TableCell>
+                          <TableCell>
+                            <Badge variant={service.status === PaymentStatus.PAID ? "default" : "destructive"}>
+                              {service.status === PaymentStatus.PAID ? "Pagato" : "Da pagare"}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="payments">
+              <Card>
+                <CardContent className="p-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Ordine</TableHead>
+                        <TableHead>Metodo</TableHead>
+                        <TableHead>Importo</TableHead>
+                        <TableHead>Stato</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.payments.length === 0 && <EmptyRow colSpan={5}>Nessun pagamento</EmptyRow>}
+                      {data.payments.map((payment) => (
+                        <TableRow key={payment.id}>
+                          <TableCell>{formatDate(payment.paymentDate ?? payment.createdAt)}</TableCell>
+                          <TableCell className="font-mono text-xs">{payment.orderId}</TableCell>
+                          <TableCell className="capitalize">{payment.paymentMethod}</TableCell>
+                          <TableCell>{formatEuros(payment.amount)}</TableCell>
+                          <TableCell>{paymentStatusLabels[payment.status] ?? payment.status}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="receipts">
+              <Card>
+                <CardContent className="p-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Numero</TableHead>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Servizio</TableHead>
+                        <TableHead>Importo</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.receipts.length === 0 && <EmptyRow colSpan={5}>Nessuna ricevuta</EmptyRow>}
+                      {data.receipts.map((receipt) => (
+                        <TableRow key={receipt.id}>
+                          <TableCell className="font-medium">{receipt.receiptNumber}</TableCell>
+                          <TableCell>{formatDate(receipt.receiptDate)}</TableCell>
+                          <TableCell>{receipt.serviceType ?? "—"}</TableCell>
+                          <TableCell>{formatEuros(receipt.amount)}</TableCell>
+                          <TableCell className="text-right">
+                            {receipt.pdfUrl && (
+                              <Button variant="link" size="sm" asChild>
+                                <a href={receipt.pdfUrl} target="_blank" rel="noreferrer">Apri</a>
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="maintenance">
+              <Card>
+                <CardContent className="p-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Luogo</TableHead>
+                        <TableHead>Problema</TableHead>
+                        <TableHead>Stato</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.maintenanceRequests.length === 0 && <EmptyRow colSpan={4}>Nessuna segnalazione</EmptyRow>}
+                      {data.maintenanceRequests.map((request) => (
+                        <TableRow key={request.id}>
+                          <TableCell>{formatDate(request.timestamp)}</TableCell>
+                          <TableCell>{[request.place, request.specificLocation].filter(Boolean).join(" · ") || "—"}</TableCell>
+                          <TableCell className="max-w-[320px] truncate">{request.defectDetails ?? "—"}</TableCell>
+                          <TableCell>{maintenanceStatusLabels[request.status] ?? request.status}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+              <p className="text-sm text-muted-foreground mt-2">
+                Per un nuovo guasto usa il <Link href="/maintenance-request" className="underline">modulo di segnalazione</Link>.
+              </p>
+            </TabsContent>
+
+            <TabsContent value="bikes">
+              <Card>
+                <CardContent className="p-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Prenotazione</TableHead>
+                        <TableHead>Fascia</TableHead>
+                        <TableHead>Bici</TableHead>
+                        <TableHead>Importo</TableHead>
+                        <TableHead>Stato</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.bikeReservations.length === 0 && <EmptyRow colSpan={5}>Nessuna prenotazione</EmptyRow>}
+                      {data.bikeReservations.map((reservation) => (
+                        <TableRow key={reservation.id}>
+                          <TableCell className="font-mono text-xs">{reservation.orderId}</TableCell>
+                          <TableCell className="whitespace-nowrap">{reservation.slot ? formatSlot(reservation.slot) : "—"}</TableCell>
+                          <TableCell>{reservation.bikeCode ?? "—"}</TableCell>
+                          <TableCell>{formatEuros(reservation.amount)}</TableCell>
+                          <TableCell>{bikeStatusLabels[reservation.status] ?? reservation.status}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function StudentPortalPage() {
+  const token = new URLSearchParams(window.location.search).get("token");
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  const { data: student, isLoading } = useQuery<PortalStudent | null>({
+    queryKey: ["/api/portal/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: !token,
+    retry: false,
+  });
+
+  // Accesso dal link dell'email: il token vale una volta sola e sparisce dall'indirizzo
+  useEffect(() => {
+    if (!token) return;
+    window.history.replaceState(null, "", window.location.pathname);
+    portalRequest<PortalStudent>("POST", "/api/portal/verify", { token })
+      .then((verified) => queryClient.setQueryData(["/api/portal/me"], verified))
+      .catch((error: Error) => setLinkError(error.message))
+      .finally(() => queryClient.invalidateQueries({ queryKey: ["/api/portal/me"] }));
+  }, [token]);
+
+  return (
+    <div className="min-h-screen w-full flex flex-col items-center p-4 md:p-8 gap-4">
+      {linkError && (
+        <Alert variant="destructive" className="max-w-sm">
+          <AlertDescription>{linkError}</AlertDescription>
+        </Alert>
+      )}
+      {isLoading || token ? (
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground mt-24" />
+      ) : student ? (
+        <PortalOverview student={student} />
+      ) : (
+        <div className="flex-1 flex items-center">
+          <PortalLogin />
+        </div>
+      )}
+    </div>
+  );
+}
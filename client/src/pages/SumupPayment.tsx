@@ -108,7 +108,7 @@ export default function SumupPayment() {
     setIsLoading(true);
     
     try {
-      const response = await fetch('/api/public/sumup-payment', {
+      const response = await fetch('/api/public/payments/sumup', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -130,11 +130,16 @@ export default function SumupPayment() {
       setPaymentState(prev => ({
         ...prev,
         step: 'payment',
-        paymentId: data.paymentId
+        paymentId: data.orderId
       }));
 
+      // Pagina di pagamento del provider in una nuova scheda
+      if ((data.isLive || data.isSimulated) && data.redirectUrl) {
+        window.open(data.redirectUrl, '_blank');
+      }
+
       // Start polling for payment status
-      startPaymentPolling(data.paymentId);
+      startPaymentPolling(data.orderId);
 
     } catch (error: any) {
       console.error("Errore nel pagamento:", error);
@@ -153,10 +158,10 @@ export default function SumupPayment() {
     
     const pollInterval = setInterval(async () => {
       try {
-        const response = await fetch(`/api/public/sumup-status/${paymentId}`);
+        const response = await fetch(`/api/public/payments/sumup/${paymentId}`);
         const data = await response.json();
 
-        if (data.status === 'PAID' || data.localStatus === 'completed') {
+        if (data.status === 'completed') {
           clearInterval(pollInterval);
           setPaymentState(prev => ({ ...prev, step: 'success' }));
           
@@ -164,7 +169,7 @@ export default function SumupPayment() {
             title: "Pagamento completato!",
             description: "I tuoi servizi sono stati pagati con successo",
           });
-        } else if (data.status === 'FAILED' || data.localStatus === 'failed') {
+        } else if (data.status === 'failed' || data.status === 'cancelled') {
           clearInterval(pollInterval);
           setPaymentState(prev => ({
             ...prev,
@@ -0,0 +1,213 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import {
+  Capability,
+  CapabilityValue,
+  MaintenanceRequest,
+  Service,
+  Student,
+  TrashListing,
+} from "@shared/schema";
+import { formatEuros } from "@shared/money";
+
+type TrashRow = { id: number; deletedAt: string | Date | null; deletedBy: string | null };
+
+// Un cestino per entità: endpoint, permessi e colonne descrittive
+interface TrashSection<T> {
+  key: string;
+  label: string;
+  endpoint: string;
+  readCapability: CapabilityValue;
+  writeCapability: CapabilityValue;
+  // Query da aggiornare dopo un ripristino (elenchi e metriche dell'entità)
+  invalidates: string[];
+  columns: Array<{ header: string; cell: (row: T) => string }>;
+}
+
+function formatDate(value: string | Date | null) {
+  return value ? format(new Date(value), "dd/MM/yyyy HH:mm", { locale: it }) : "—";
+}
+
+const serviceSection: TrashSection<Service> = {
+  key: "services",
+  label: "Servizi",
+  endpoint: "/api/services",
+  readCapability: Capability.SERVICES_READ,
+  writeCapability: Capability.SERVICES_WRITE,
+  invalidates: ["/api/services", "/api/dashboard/metrics"],
+  columns: [
+    { header: "Data", cell: (service) => format(new Date(service.date), "dd/MM/yyyy", { locale: it }) },
+    { header: "Sigla", cell: (service) => service.sigla },
+    { header: "Tipo", cell: (service) => `${service.type} × ${service.pieces}` },
+    { header: "Importo", cell: (service) => formatEuros(service.amount) },
+  ],
+};
+
+const studentSection: TrashSection<Student> = {
+  key: "students",
+  label: "Studenti",
+  endpoint: "/api/students",
+  readCapability: Capability.STUDENTS_READ,
+  writeCapability: Capability.STUDENTS_WRITE,
+  invalidates: ["/api/students"],
+  columns: [
+    { header: "Sigla", cell: (student) => student.sigla },
+    { header: "Nome", cell: (student) => `${student.firstName} ${student.lastName}` },
+    { header: "Email", cell: (student) => student.email ?? "—" },
+  ],
+};
+
+const maintenanceSection: TrashSection<MaintenanceRequest> = {
+  key: "maintenance",
+  label: "Manutenzione",
+  endpoint: "/api/maintenance",
+  readCapability: Capability.MAINTENANCE_READ,
+  writeCapability: Capability.MAINTENANCE_WRITE,
+  invalidates: ["/api/maintenance"],
+  columns: [
+    { header: "Data", cell: (request) => formatDate(request.timestamp) },
+    { header: "Richiedente", cell: (request) => request.requesterName ?? request.sigla ?? "—" },
+    { header: "Luogo", cell: (request) => request.roomNumber ?? request.place ?? "—" },
+    { header: "Descrizione", cell: (request) => request.description ?? request.defectDetails ?? "—" },
+  ],
+};
+
+function TrashTable<T extends TrashRow>({ section }: { section: TrashSection<T> }) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const trashKey = `${section.endpoint}/trash`;
+
+  // Sempre ricaricato: le eliminazioni dalle altre pagine non aggiornano questa query
+  const { data, isLoading } = useQuery<TrashListing<T>>({ queryKey: [trashKey], staleTime: 0 });
+
+  const restoreMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("POST", `${section.endpoint}/${id}/restore`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [trashKey] });
+      for (const key of section.invalidates) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+      toast({ title: "Ripristinato", description: "L'elemento è di nuovo attivo" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ripristino non riuscito", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-3">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!data || data.items.length === 0) {
+    return <div className="p-12 text-center text-muted-foreground">Il cestino è vuoto</div>;
+  }
+
+  const canRestore = can(section.writeCapability);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {section.columns.map((column) => (
+            <TableHead key={column.header}>{column.header}</TableHead>
+          ))}
+          <TableHead>Eliminato il</TableHead>
+          <TableHead>Da</TableHead>
+          <TableHead>Eliminazione definitiva</TableHead>
+          {canRestore && <TableHead />}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {data.items.map((row) => (
+          <TableRow key={row.id}>
+            {section.columns.map((column) => (
+              <TableCell key={column.header}>{column.cell(row)}</TableCell>
+            ))}
+            <TableCell className="whitespace-nowrap">{formatDate(row.deletedAt)}</TableCell>
+            <TableCell>{row.deletedBy ?? "—"}</TableCell>
+            <TableCell className="whitespace-nowrap">{formatDate(row.purgeAt)}</TableCell>
+            {canRestore && (
+              <TableCell className="text-right">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => restoreMutation.mutate(row.id)}
+                  disabled={restoreMutation.isPending}
+                >
+                  {restoreMutation.isPending && restoreMutation.variables === row.id
+                    ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    : <RotateCcw className="h-4 w-4 mr-2" />}
+                  Ripristina
+                </Button>
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function TrashPage() {
+  const { can } = useAuth();
+  const sections = [serviceSection, studentSection, maintenanceSection] as TrashSection<any>[];
+  const visible = sections.filter((section) => can(section.readCapability));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Trash2 className="h-7 w-7 text-primary" />
+          Cestino
+        </h1>
+        <p className="text-muted-foreground">
+          Servizi, studenti e richieste di manutenzione eliminati, ripristinabili fino all'eliminazione definitiva
+        </p>
+      </div>
+
+      <Tabs defaultValue={visible[0]?.key}>
+        <TabsList>
+          {visible.map((section) => (
+            <TabsTrigger key={section.key} value={section.key}>{section.label}</TabsTrigger>
+          ))}
+        </TabsList>
+        {visible.map((section) => (
+          <TabsContent key={section.key} value={section.key}>
+            <Card>
+              <CardHeader>
+                <CardTitle>{section.label}</CardTitle>
+                <CardDescription>Dal più recente; il ripristino li rimette negli elenchi e nei totali</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <TrashTable section={section} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+}
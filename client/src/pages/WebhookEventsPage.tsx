@@ -0,0 +1,329 @@
+import { Fragment, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Inbox, Loader2, RefreshCw, RotateCcw, ShieldAlert } from "lucide-react";
+import { WebhookEventStatus, WebhookInboxEvent } from "@shared/schema";
+
+interface WebhookEventsResponse {
+  events: WebhookInboxEvent[];
+  total: number;
+}
+
+interface SignatureRejectionStats {
+  provider: string;
+  total: number;
+  byReason: Record<string, number>;
+  lastRejectedAt: string;
+}
+
+const PAGE_SIZE = 25;
+
+const providerLabels: Record<string, string> = {
+  stripe: "Stripe",
+  satispay: "Satispay",
+  revolut: "Revolut",
+  sumup: "SumUp",
+  paypal: "PayPal",
+  nexi: "Nexi",
+};
+
+const statusLabels: Record<string, string> = {
+  [WebhookEventStatus.PENDING]: "In coda",
+  [WebhookEventStatus.PROCESSING]: "In elaborazione",
+  [WebhookEventStatus.PROCESSED]: "Elaborato",
+  [WebhookEventStatus.FAILED]: "Fallito, in attesa di nuovo tentativo",
+  [WebhookEventStatus.DEAD]: "Tentativi esauriti",
+};
+
+const rejectionReasonLabels: Record<string, string> = {
+  secret_not_configured: "segreto non configurato",
+  missing_signature: "firma assente",
+  missing_timestamp: "timestamp assente",
+  timestamp_out_of_tolerance: "timestamp fuori tolleranza",
+  invalid_signature: "firma non valida",
+};
+
+const statusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  [WebhookEventStatus.PENDING]: "outline",
+  [WebhookEventStatus.PROCESSING]: "secondary",
+  [WebhookEventStatus.PROCESSED]: "default",
+  [WebhookEventStatus.FAILED]: "secondary",
+  [WebhookEventStatus.DEAD]: "destructive",
+};
+
+function formatDate(value: string | Date | null) {
+  return value ? format(new Date(value), "dd/MM/yyyy HH:mm:ss", { locale: it }) : "—";
+}
+
+// Il corpo originale, indentato se è JSON
+function formatBody(rawBody: string) {
+  try {
+    return JSON.stringify(JSON.parse(rawBody), null, 2);
+  } catch {
+    return rawBody;
+  }
+}
+
+export default function WebhookEventsPage() {
+  const { toast } = useToast();
+  const [provider, setProvider] = useState("all");
+  const [status, setStatus] = useState("all");
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data, isLoading, refetch, isFetching } = useQuery<WebhookEventsResponse>({
+    queryKey: ["/api/webhook-events", { provider, status, page }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (provider !== "all") params.set("provider", provider);
+      if (status !== "all") params.set("status", status);
+
+      const response = await fetch(`/api/webhook-events?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Errore nel caricamento dei webhook");
+      }
+      return response.json();
+    },
+  });
+
+  const { data: rejections } = useQuery<SignatureRejectionStats[]>({
+    queryKey: ["/api/webhook-events/signature-rejections"],
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: (id: number): Promise<WebhookInboxEvent> => apiRequest("POST", `/api/webhook-events/${id}/replay`),
+    onSuccess: (event) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhook-events"] });
+      toast({
+        title: event.status === WebhookEventStatus.PROCESSED ? "Webhook rielaborato" : "Rielaborazione non riuscita",
+        description: event.lastError ?? `Evento ${event.eventId}`,
+        variant: event.status === WebhookEventStatus.PROCESSED ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Rilancio non riuscito",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  // Ogni cambio di filtro riparte dalla prima pagina
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Inbox className="h-7 w-7 text-primary" />
+            Webhook dei pagamenti
+          </h1>
+          <p className="text-muted-foreground">
+            Notifiche ricevute dai provider, elaborate una sola volta e ritentate in caso di errore
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          Aggiorna
+        </Button>
+      </div>
+
+      {rejections && rejections.length > 0 && (
+        <Card className="border-destructive/40">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-destructive" />
+              Webhook rifiutati
+            </CardTitle>
+            <CardDescription>Richieste scartate per firma non valida dall'ultimo avvio del server</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {rejections.map((stats) => (
+              <div key={stats.provider} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{providerLabels[stats.provider] ?? stats.provider}</span>
+                <Badge variant="destructive">{stats.total}</Badge>
+                <span className="text-muted-foreground">
+                  {Object.entries(stats.byReason)
+                    .map(([reason, total]) => `${rejectionReasonLabels[reason] ?? reason}: ${total}`)
+                    .join(" · ")}
+                  {" · ultimo "}{formatDate(stats.lastRejectedAt)}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filtri</CardTitle>
+          <CardDescription>Restringi i webhook per provider o stato dell'elaborazione</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-4">
+          <Select value={provider} onValueChange={updateFilter(setProvider)}>
+            <SelectTrigger><SelectValue placeholder="Provider" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Tutti i provider</SelectItem>
+              {Object.entries(providerLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={status} onValueChange={updateFilter(setStatus)}>
+            <SelectTrigger><SelectValue placeholder="Stato" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Tutti gli stati</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6 space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !data || data.events.length === 0 ? (
+            <div className="p-12 text-center text-muted-foreground">
+              Nessun webhook trovato con i filtri selezionati
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Ricevuto</TableHead>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>ID evento</TableHead>
+                  <TableHead>Stato</TableHead>
+                  <TableHead className="text-right">Tentativi</TableHead>
+                  <TableHead>Ultimo errore</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.events.map((event) => {
+                  const isExpanded = expandedId === event.id;
+                  const isReplaying = replayMutation.isPending && replayMutation.variables === event.id;
+                  return (
+                    <Fragment key={event.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                      >
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDate(event.receivedAt)}</TableCell>
+                        <TableCell>{providerLabels[event.provider] ?? event.provider}</TableCell>
+                        <TableCell className="font-mono text-xs max-w-[220px] truncate">{event.eventId}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[event.status] ?? "secondary"}>
+                            {statusLabels[event.status] ?? event.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{event.attempts}</TableCell>
+                        <TableCell className="text-muted-foreground max-w-[280px] truncate">
+                          {event.lastError ?? "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={event.status === WebhookEventStatus.PROCESSING || replayMutation.isPending}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              replayMutation.mutate(event.id);
+                            }}
+                          >
+                            {isReplaying
+                              ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                              : <RotateCcw className="h-4 w-4 mr-1" />}
+                            Rilancia
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={8} className="bg-muted/40">
+                            <div className="grid gap-4 md:grid-cols-2">
+                              <div>
+                                <p className="text-sm font-medium mb-2">Eventi letti</p>
+                                <pre className="text-xs font-mono whitespace-pre-wrap break-all">
+                                  {JSON.stringify(event.events, null, 2)}
+                                </pre>
+                              </div>
+                              <div>
+                                <p className="text-sm font-medium mb-2">Corpo ricevuto</p>
+                                <pre className="text-xs font-mono whitespace-pre-wrap break-all max-h-80 overflow-auto">
+                                  {formatBody(event.rawBody)}
+                                </pre>
+                              </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-3">
+                              Elaborato: {formatDate(event.processedAt)}
+                              {event.status === WebhookEventStatus.FAILED && ` · prossimo tentativo: ${formatDate(event.nextAttemptAt)}`}
+                            </p>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">
+          {data?.total ?? 0} webhook · pagina {page} di {totalPages}
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Precedente
+          </Button>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Successiva
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+-- Tabelle create in origine con drizzle-kit push, prima delle migrazioni versionate.
+-- IF NOT EXISTS: sui database già esistenti la migrazione non modifica nulla.
+CREATE TABLE IF NOT EXISTS users (
+  id SERIAL PRIMARY KEY,
+  username TEXT NOT NULL,
+  password TEXT NOT NULL,
+  CONSTRAINT users_username_unique UNIQUE (username)
+);
+
+CREATE TABLE IF NOT EXISTS services (
+  id SERIAL PRIMARY KEY,
+  date TIMESTAMP NOT NULL,
+  sigla TEXT NOT NULL,
+  pieces INTEGER NOT NULL DEFAULT 1,
+  type TEXT NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  status TEXT NOT NULL,
+  payment_method TEXT,
+  notes TEXT
+);
+
+CREATE TABLE IF NOT EXISTS students (
+  id SERIAL PRIMARY KEY,
+  sigla TEXT NOT NULL,
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  email TEXT,
+  phone TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT students_sigla_unique UNIQUE (sigla)
+);
+
+CREATE TABLE IF NOT EXISTS maintenance_requests (
+  id SERIAL PRIMARY KEY,
+  timestamp TIMESTAMP NOT NULL DEFAULT NOW(),
+  requester_name TEXT,
+  requester_email TEXT,
+  room_number TEXT,
+  request_type TEXT,
+  description TEXT,
+  location TEXT,
+  sigla TEXT,
+  place TEXT,
+  specific_location TEXT,
+  defect_details TEXT,
+  can_be_solved_by_maintainers BOOLEAN,
+  possible_solution TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  priority TEXT NOT NULL DEFAULT 'medium',
+  notes TEXT,
+  assigned_to TEXT,
+  completed_at TIMESTAMP,
+  attachment_url TEXT
+);
+
+CREATE TABLE IF NOT EXISTS paypal_orders (
+  id TEXT PRIMARY KEY,
+  service_id INTEGER NOT NULL DEFAULT 0,
+  amount DOUBLE PRECISION NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  status TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP,
+  paypal_response TEXT
+);
+
+CREATE TABLE IF NOT EXISTS receipts (
+  id SERIAL PRIMARY KEY,
+  service_id INTEGER NOT NULL,
+  receipt_number TEXT NOT NULL,
+  receipt_date TIMESTAMP NOT NULL DEFAULT NOW(),
+  amount DOUBLE PRECISION NOT NULL,
+  payment_method TEXT NOT NULL,
+  notes TEXT,
+  pdf_url TEXT,
+  CONSTRAINT receipts_receipt_number_unique UNIQUE (receipt_number)
+);
+
+CREATE TABLE IF NOT EXISTS bike_reservations (
+  id SERIAL PRIMARY KEY,
+  order_id TEXT NOT NULL,
+  sigla TEXT NOT NULL,
+  customer_name TEXT NOT NULL,
+  customer_email TEXT NOT NULL,
+  amount DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  status TEXT NOT NULL DEFAULT 'pending_payment',
+  payment_date TIMESTAMP,
+  approval_date TIMESTAMP,
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT bike_reservations_order_id_unique UNIQUE (order_id)
+);
@@ -0,0 +1,13 @@
+-- Databases created before the versioned migrations (drizzle-kit push or 0006 applied by hand)
+-- already have secretariat_payments.payment_method, and 0006 adds it without IF NOT EXISTS.
+-- 0006 has shipped and must not change: the existing column is set aside here so that 0006 applies,
+-- and 0025 copies its values back. On a new database the table does not exist yet and nothing happens.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'secretariat_payments' AND column_name = 'payment_method'
+  ) THEN
+    ALTER TABLE secretariat_payments RENAME COLUMN payment_method TO payment_method_before_0006;
+  END IF;
+END $$;
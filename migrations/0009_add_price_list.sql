@@ -0,0 +1,22 @@
+-- Per-piece price list with validity ranges (valid_to exclusive, NULL = in force)
+CREATE TABLE IF NOT EXISTS price_list (
+  id SERIAL PRIMARY KEY,
+  service_type TEXT NOT NULL,
+  unit_price DOUBLE PRECISION NOT NULL,
+  valid_from TIMESTAMP NOT NULL,
+  valid_to TIMESTAMP,
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS price_list_type_validity_idx ON price_list (service_type, valid_from);
+
+-- Seed with the prices previously hardcoded in the application
+INSERT INTO price_list (service_type, unit_price, valid_from, notes)
+SELECT v.service_type, v.unit_price, TIMESTAMP '2000-01-01', 'Listino iniziale'
+FROM (VALUES
+  ('siglatura', 0.50::DOUBLE PRECISION),
+  ('happy_hour', 1.00::DOUBLE PRECISION),
+  ('riparazione', 4.00::DOUBLE PRECISION)
+) AS v(service_type, unit_price)
+WHERE NOT EXISTS (SELECT 1 FROM price_list);
@@ -0,0 +1,19 @@
+-- Service types defined as data: code is the key used by services.type and price_list.service_type
+CREATE TABLE IF NOT EXISTS service_catalog (
+  id SERIAL PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  label_it TEXT NOT NULL,
+  label_en TEXT NOT NULL,
+  unit_name TEXT NOT NULL DEFAULT 'pezzo',
+  variable_price BOOLEAN NOT NULL DEFAULT FALSE,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Seed with the service types previously hardcoded in the application
+INSERT INTO service_catalog (code, label_it, label_en, unit_name, variable_price, sort_order) VALUES
+  ('siglatura', 'Siglatura', 'Labelling', 'pezzo', FALSE, 10),
+  ('happy_hour', 'Happy Hour', 'Happy Hour', 'consumazione', FALSE, 20),
+  ('riparazione', 'Riparazione', 'Repair', 'riparazione', TRUE, 30)
+ON CONFLICT (code) DO NOTHING;
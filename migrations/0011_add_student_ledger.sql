@@ -0,0 +1,29 @@
+-- Student account ledger: append-only entries per sigla, balance = SUM(amount)
+-- Positive amounts are charges owed by the student, negative amounts are payments or credits
+CREATE TABLE IF NOT EXISTS student_ledger (
+  id SERIAL PRIMARY KEY,
+  sigla TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  description TEXT NOT NULL,
+  service_id INTEGER,
+  secretariat_payment_id INTEGER,
+  payment_method TEXT,
+  occurred_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS student_ledger_sigla_idx ON student_ledger (sigla, occurred_at);
+
+-- Backfill from existing services (only on an empty ledger): one charge per service
+-- and one payment per service already marked as paid
+INSERT INTO student_ledger (sigla, kind, amount, description, service_id, payment_method, occurred_at)
+SELECT * FROM (
+  SELECT sigla, 'charge', amount, 'Servizio ' || type || ' #' || id, id, NULL::TEXT, date
+  FROM services
+  UNION ALL
+  SELECT sigla, 'payment', -amount, 'Pagamento servizio #' || id, id, payment_method, date
+  FROM services
+  WHERE status = 'paid'
+) AS backfill
+WHERE NOT EXISTS (SELECT 1 FROM student_ledger);
@@ -0,0 +1,13 @@
+-- Partial payments: a completed secretariat payment is split across services
+ALTER TABLE secretariat_payments ADD COLUMN IF NOT EXISTS requested_service_ids INTEGER[];
+
+CREATE TABLE IF NOT EXISTS payment_allocations (
+  id SERIAL PRIMARY KEY,
+  secretariat_payment_id INTEGER NOT NULL,
+  service_id INTEGER NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS payment_allocations_payment_idx ON payment_allocations (secretariat_payment_id);
+CREATE INDEX IF NOT EXISTS payment_allocations_service_idx ON payment_allocations (service_id);
@@ -0,0 +1,20 @@
+-- Refunds and chargebacks of secretariat payments
+CREATE TABLE IF NOT EXISTS payment_refunds (
+  id SERIAL PRIMARY KEY,
+  secretariat_payment_id INTEGER NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'refund',
+  status TEXT NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  reason TEXT,
+  provider TEXT NOT NULL,
+  provider_refund_id TEXT UNIQUE,
+  initiated_by TEXT NOT NULL,
+  error_message TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS payment_refunds_payment_idx ON payment_refunds (secretariat_payment_id);
+
+-- Receipts of refunded services are voided, never deleted
+ALTER TABLE receipts ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP;
+ALTER TABLE receipts ADD COLUMN IF NOT EXISTS void_reason TEXT;
@@ -0,0 +1,31 @@
+-- History of payment reconciliation runs against the providers
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id SERIAL PRIMARY KEY,
+  trigger TEXT NOT NULL,
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP,
+  checked INTEGER NOT NULL DEFAULT 0,
+  fixed INTEGER NOT NULL DEFAULT 0,
+  still_stuck INTEGER NOT NULL DEFAULT 0,
+  errors INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT
+);
+
+-- One row per payment checked in a run, with the reason it is still stuck
+CREATE TABLE IF NOT EXISTS reconciliation_items (
+  id SERIAL PRIMARY KEY,
+  run_id INTEGER NOT NULL,
+  secretariat_payment_id INTEGER NOT NULL,
+  order_id TEXT NOT NULL,
+  sigla TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  previous_status TEXT NOT NULL,
+  new_status TEXT NOT NULL,
+  provider_status TEXT,
+  outcome TEXT NOT NULL,
+  message TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS reconciliation_items_run_idx ON reconciliation_items (run_id);
+CREATE INDEX IF NOT EXISTS reconciliation_items_payment_idx ON reconciliation_items (secretariat_payment_id);
@@ -0,0 +1,17 @@
+-- Archive columns written by the year-end archive, previously added only with drizzle-kit push
+ALTER TABLE services ADD COLUMN IF NOT EXISTS archived_year INTEGER;
+ALTER TABLE services ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+ALTER TABLE maintenance_requests ADD COLUMN IF NOT EXISTS archived_year INTEGER;
+ALTER TABLE maintenance_requests ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+ALTER TABLE paypal_orders ADD COLUMN IF NOT EXISTS archived_year INTEGER;
+ALTER TABLE paypal_orders ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+ALTER TABLE receipts ADD COLUMN IF NOT EXISTS archived_year INTEGER;
+ALTER TABLE receipts ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+ALTER TABLE secretariat_payments ADD COLUMN IF NOT EXISTS archived_year INTEGER;
+ALTER TABLE secretariat_payments ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+ALTER TABLE bike_reservations ADD COLUMN IF NOT EXISTS archived_year INTEGER;
+ALTER TABLE bike_reservations ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+
+-- shared/schema.ts declares customer_email NOT NULL DEFAULT '' (0006 only set the default)
+UPDATE secretariat_payments SET customer_email = '' WHERE customer_email IS NULL;
+ALTER TABLE secretariat_payments ALTER COLUMN customer_email SET NOT NULL;
@@ -0,0 +1,113 @@
+-- Rows whose reference was missing when the foreign keys were introduced.
+-- Their original content is kept in row_data and listed by GET /api/integrity/orphans.
+CREATE TABLE IF NOT EXISTS orphaned_rows (
+  id SERIAL PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  row_id TEXT NOT NULL,
+  column_name TEXT NOT NULL,
+  missing_reference TEXT NOT NULL,
+  resolution TEXT NOT NULL,
+  row_data JSONB NOT NULL,
+  detected_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- services.student_id: backfilled from the sigla; services of unknown siglas stay unlinked
+ALTER TABLE services ADD COLUMN IF NOT EXISTS student_id INTEGER;
+UPDATE services s
+SET student_id = st.id
+FROM students st
+WHERE s.student_id IS NULL AND st.sigla = s.sigla;
+CREATE INDEX IF NOT EXISTS services_student_idx ON services (student_id);
+
+-- receipts.service_id: receipts of deleted services are kept, unlinked
+ALTER TABLE receipts ALTER COLUMN service_id DROP NOT NULL;
+INSERT INTO orphaned_rows (table_name, row_id, column_name, missing_reference, resolution, row_data)
+SELECT 'receipts', r.id::TEXT, 'service_id', r.service_id::TEXT, 'unlinked', to_jsonb(r)
+FROM receipts r
+WHERE r.service_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM services s WHERE s.id = r.service_id);
+UPDATE receipts r
+SET service_id = NULL
+WHERE r.service_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM services s WHERE s.id = r.service_id);
+
+-- paypal_orders.service_id: 0 used to mean "several services", now NULL
+ALTER TABLE paypal_orders ALTER COLUMN service_id DROP NOT NULL;
+ALTER TABLE paypal_orders ALTER COLUMN service_id DROP DEFAULT;
+UPDATE paypal_orders SET service_id = NULL WHERE service_id = 0;
+INSERT INTO orphaned_rows (table_name, row_id, column_name, missing_reference, resolution, row_data)
+SELECT 'paypal_orders', o.id, 'service_id', o.service_id::TEXT, 'unlinked', to_jsonb(o)
+FROM paypal_orders o
+WHERE o.service_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM services s WHERE s.id = o.service_id);
+UPDATE paypal_orders o
+SET service_id = NULL
+WHERE o.service_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM services s WHERE s.id = o.service_id);
+
+-- Allocations, refunds and reconciliation items cannot exist without their payment, service or run
+INSERT INTO orphaned_rows (table_name, row_id, column_name, missing_reference, resolution, row_data)
+SELECT 'payment_allocations', a.id::TEXT, 'secretariat_payment_id', a.secretariat_payment_id::TEXT, 'deleted', to_jsonb(a)
+FROM payment_allocations a
+WHERE NOT EXISTS (SELECT 1 FROM secretariat_payments p WHERE p.id = a.secretariat_payment_id);
+INSERT INTO orphaned_rows (table_name, row_id, column_name, missing_reference, resolution, row_data)
+SELECT 'payment_allocations', a.id::TEXT, 'service_id', a.service_id::TEXT, 'deleted', to_jsonb(a)
+FROM payment_allocations a
+WHERE EXISTS (SELECT 1 FROM secretariat_payments p WHERE p.id = a.secretariat_payment_id)
+  AND NOT EXISTS (SELECT 1 FROM services s WHERE s.id = a.service_id);
+DELETE FROM payment_allocations a
+WHERE NOT EXISTS (SELECT 1 FROM secretariat_payments p WHERE p.id = a.secretariat_payment_id)
+   OR NOT EXISTS (SELECT 1 FROM services s WHERE s.id = a.service_id);
+
+INSERT INTO orphaned_rows (table_name, row_id, column_name, missing_reference, resolution, row_data)
+SELECT 'payment_refunds', r.id::TEXT, 'secretariat_payment_id', r.secretariat_payment_id::TEXT, 'deleted', to_jsonb(r)
+FROM payment_refunds r
+WHERE NOT EXISTS (SELECT 1 FROM secretariat_payments p WHERE p.id = r.secretariat_payment_id);
+DELETE FROM payment_refunds r
+WHERE NOT EXISTS (SELECT 1 FROM secretariat_payments p WHERE p.id = r.secretariat_payment_id);
+
+INSERT INTO orphaned_rows (table_name, row_id, column_name, missing_reference, resolution, row_data)
+SELECT 'reconciliation_items', i.id::TEXT, 'run_id', i.run_id::TEXT, 'deleted', to_jsonb(i)
+FROM reconciliation_items i
+WHERE NOT EXISTS (SELECT 1 FROM reconciliation_runs r WHERE r.id = i.run_id);
+INSERT INTO orphaned_rows (table_name, row_id, column_name, missing_reference, resolution, row_data)
+SELECT 'reconciliation_items', i.id::TEXT, 'secretariat_payment_id', i.secretariat_payment_id::TEXT, 'deleted', to_jsonb(i)
+FROM reconciliation_items i
+WHERE EXISTS (SELECT 1 FROM reconciliation_runs r WHERE r.id = i.run_id)
+  AND NOT EXISTS (SELECT 1 FROM secretariat_payments p WHERE p.id = i.secretariat_payment_id);
+DELETE FROM reconciliation_items i
+WHERE NOT EXISTS (SELECT 1 FROM reconciliation_runs r WHERE r.id = i.run_id)
+   OR NOT EXISTS (SELECT 1 FROM secretariat_payments p WHERE p.id = i.secretariat_payment_id);
+
+-- Short explicit names: PostgreSQL truncates identifiers longer than 63 characters
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'services_student_fk') THEN
+    ALTER TABLE services ADD CONSTRAINT services_student_fk
+      FOREIGN KEY (student_id) REFERENCES students(id) ON DELETE RESTRICT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'receipts_service_fk') THEN
+    ALTER TABLE receipts ADD CONSTRAINT receipts_service_fk
+      FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE RESTRICT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'paypal_orders_service_fk') THEN
+    ALTER TABLE paypal_orders ADD CONSTRAINT paypal_orders_service_fk
+      FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE SET NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'payment_allocations_payment_fk') THEN
+    ALTER TABLE payment_allocations ADD CONSTRAINT payment_allocations_payment_fk
+      FOREIGN KEY (secretariat_payment_id) REFERENCES secretariat_payments(id) ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'payment_allocations_service_fk') THEN
+    ALTER TABLE payment_allocations ADD CONSTRAINT payment_allocations_service_fk
+      FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'payment_refunds_payment_fk') THEN
+    ALTER TABLE payment_refunds ADD CONSTRAINT payment_refunds_payment_fk
+      FOREIGN KEY (secretariat_payment_id) REFERENCES secretariat_payments(id) ON DELETE RESTRICT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'reconciliation_items_run_fk') THEN
+    ALTER TABLE reconciliation_items ADD CONSTRAINT reconciliation_items_run_fk
+      FOREIGN KEY (run_id) REFERENCES reconciliation_runs(id) ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'reconciliation_items_payment_fk') THEN
+    ALTER TABLE reconciliation_items ADD CONSTRAINT reconciliation_items_payment_fk
+      FOREIGN KEY (secretariat_payment_id) REFERENCES secretariat_payments(id) ON DELETE CASCADE;
+  END IF;
+END $$;
@@ -0,0 +1,91 @@
+-- Amounts move from DOUBLE PRECISION euros to INTEGER cents (amount -> amount_cents).
+-- Every converted column leaves a row here, listed by GET /api/integrity/money-conversion:
+-- rounded_rows counts the values that were not a whole number of cents before the conversion.
+CREATE TABLE IF NOT EXISTS money_conversion_report (
+  id SERIAL PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  column_name TEXT NOT NULL,
+  row_count INTEGER NOT NULL,
+  total_before NUMERIC NOT NULL, -- EUR, somma dei valori originali
+  total_after_cents BIGINT NOT NULL,
+  rounded_rows INTEGER NOT NULL,
+  converted_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Converts one column; does nothing when the euro column is already gone
+CREATE OR REPLACE FUNCTION pg_temp.convert_money_column(
+  p_table TEXT, p_column TEXT, p_cents_column TEXT, p_default_cents INTEGER
+) RETURNS VOID AS $$
+DECLARE
+  row_total INTEGER;
+  null_rows INTEGER;
+  invalid_rows INTEGER;
+  total_before NUMERIC;
+  total_after BIGINT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = p_table AND column_name = p_column
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- Values that cannot become a whole number of cents in an INTEGER stop the migration
+  -- before anything is written, so they can be fixed by hand
+  EXECUTE format(
+    'SELECT COUNT(*), COUNT(*) FILTER (WHERE %I IS NULL),
+            COUNT(*) FILTER (WHERE %I::DOUBLE PRECISION IN (''NaN'', ''Infinity'', ''-Infinity'')
+                                OR ABS(%I::DOUBLE PRECISION) * 100 >= 2147483647.5),
+            COALESCE(SUM(%I::NUMERIC) FILTER (WHERE %I::DOUBLE PRECISION NOT IN (''NaN'', ''Infinity'', ''-Infinity'')), 0)
+     FROM %I',
+    p_column, p_column, p_column, p_column, p_column, p_table
+  ) INTO row_total, null_rows, invalid_rows, total_before;
+  IF null_rows > 0 THEN
+    RAISE EXCEPTION '%.%: % row(s) without an amount', p_table, p_column, null_rows;
+  END IF;
+  IF invalid_rows > 0 THEN
+    RAISE EXCEPTION '%.%: % row(s) not finite or too large for INTEGER cents', p_table, p_column, invalid_rows;
+  END IF;
+
+  EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS %I INTEGER', p_table, p_cents_column);
+  EXECUTE format('UPDATE %I SET %I = ROUND(%I::NUMERIC * 100)', p_table, p_cents_column, p_column);
+
+  -- Each row may move by at most half a cent: a larger gap between the totals means
+  -- rows were lost or converted wrongly
+  EXECUTE format('SELECT COUNT(*) FILTER (WHERE %I IS NULL), COALESCE(SUM(%I), 0) FROM %I',
+    p_cents_column, p_cents_column, p_table
+  ) INTO null_rows, total_after;
+  IF null_rows > 0 THEN
+    RAISE EXCEPTION '%.%: % row(s) not converted to cents', p_table, p_column, null_rows;
+  END IF;
+  IF ABS(total_after - total_before * 100) > row_total * 0.5 THEN
+    RAISE EXCEPTION '%.%: total % EUR became % cents', p_table, p_column, total_before, total_after;
+  END IF;
+
+  EXECUTE format(
+    'INSERT INTO money_conversion_report (table_name, column_name, row_count, total_before, total_after_cents, rounded_rows)
+     SELECT %L, %L, COUNT(*), COALESCE(SUM(%I::NUMERIC), 0), COALESCE(SUM(%I), 0),
+            COUNT(*) FILTER (WHERE %I::NUMERIC * 100 <> %I)
+     FROM %I',
+    p_table, p_column, p_column, p_cents_column, p_column, p_cents_column, p_table
+  );
+
+  EXECUTE format('ALTER TABLE %I ALTER COLUMN %I SET NOT NULL', p_table, p_cents_column);
+  IF p_default_cents IS NOT NULL THEN
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN %I SET DEFAULT %s', p_table, p_cents_column, p_default_cents);
+  END IF;
+  EXECUTE format('ALTER TABLE %I DROP COLUMN %I', p_table, p_column);
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT pg_temp.convert_money_column('services', 'amount', 'amount_cents', NULL);
+SELECT pg_temp.convert_money_column('price_list', 'unit_price', 'unit_price_cents', NULL);
+SELECT pg_temp.convert_money_column('paypal_orders', 'amount', 'amount_cents', NULL);
+SELECT pg_temp.convert_money_column('receipts', 'amount', 'amount_cents', NULL);
+SELECT pg_temp.convert_money_column('secretariat_payments', 'amount', 'amount_cents', NULL);
+SELECT pg_temp.convert_money_column('payment_allocations', 'amount', 'amount_cents', NULL);
+SELECT pg_temp.convert_money_column('payment_refunds', 'amount', 'amount_cents', NULL);
+SELECT pg_temp.convert_money_column('student_ledger', 'amount', 'amount_cents', NULL);
+SELECT pg_temp.convert_money_column('bike_reservations', 'amount', 'amount_cents', 250);
+
+DROP FUNCTION pg_temp.convert_money_column(TEXT, TEXT, TEXT, INTEGER);
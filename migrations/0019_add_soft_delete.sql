@@ -0,0 +1,7 @@
+-- Soft delete: deleted rows stay in the table (the "trash") until the scheduled purge
+ALTER TABLE services ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE services ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+ALTER TABLE students ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE students ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+ALTER TABLE maintenance_requests ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE maintenance_requests ADD COLUMN IF NOT EXISTS deleted_by TEXT;
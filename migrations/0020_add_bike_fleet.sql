@@ -0,0 +1,41 @@
+-- Bike rental: fleet inventory, bookable time slots and pickup/return on the reservations.
+-- Reservations created before the fleet keep slot_id and bike_id NULL.
+CREATE TABLE IF NOT EXISTS bikes (
+  id SERIAL PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'available',
+  last_service_at TIMESTAMP,
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS bike_slots (
+  id SERIAL PRIMARY KEY,
+  starts_at TIMESTAMP NOT NULL,
+  ends_at TIMESTAMP NOT NULL,
+  capacity INTEGER NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS bike_slots_starts_at_idx ON bike_slots (starts_at);
+
+ALTER TABLE bike_reservations ADD COLUMN IF NOT EXISTS slot_id INTEGER;
+ALTER TABLE bike_reservations ADD COLUMN IF NOT EXISTS bike_id INTEGER;
+ALTER TABLE bike_reservations ADD COLUMN IF NOT EXISTS picked_up_at TIMESTAMP;
+ALTER TABLE bike_reservations ADD COLUMN IF NOT EXISTS returned_at TIMESTAMP;
+CREATE INDEX IF NOT EXISTS bike_reservations_slot_idx ON bike_reservations (slot_id);
+CREATE INDEX IF NOT EXISTS bike_reservations_bike_idx ON bike_reservations (bike_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bike_reservations_slot_fk') THEN
+    ALTER TABLE bike_reservations ADD CONSTRAINT bike_reservations_slot_fk
+      FOREIGN KEY (slot_id) REFERENCES bike_slots(id) ON DELETE RESTRICT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bike_reservations_bike_fk') THEN
+    ALTER TABLE bike_reservations ADD CONSTRAINT bike_reservations_bike_fk
+      FOREIGN KEY (bike_id) REFERENCES bikes(id) ON DELETE RESTRICT;
+  END IF;
+END $$;
@@ -0,0 +1,21 @@
+-- Student portal: one-time login codes sent by email (magic link and 6-digit code).
+-- Only SHA-256 hashes of the secrets are stored.
+CREATE TABLE IF NOT EXISTS student_login_codes (
+  id SERIAL PRIMARY KEY,
+  student_id INTEGER NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS student_login_codes_student_idx ON student_login_codes (student_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'student_login_codes_student_fk') THEN
+    ALTER TABLE student_login_codes ADD CONSTRAINT student_login_codes_student_fk
+      FOREIGN KEY (student_id) REFERENCES students(id) ON DELETE CASCADE;
+  END IF;
+END $$;
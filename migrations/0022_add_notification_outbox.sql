@@ -0,0 +1,21 @@
+-- Outbox of student email notifications: each message is stored first and sent by a worker with retries
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id SERIAL PRIMARY KEY,
+  kind TEXT NOT NULL,
+  locale TEXT NOT NULL DEFAULT 'it',
+  recipient TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  dedupe_key TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS notification_outbox_due_idx ON notification_outbox (status, next_attempt_at);
+
+-- Language of the emails sent to each student
+ALTER TABLE students ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'it';
@@ -0,0 +1,17 @@
+-- History of the automatic reminders for overdue unpaid services, one row per reminder sent to a sigla
+CREATE TABLE IF NOT EXISTS payment_reminders (
+  id SERIAL PRIMARY KEY,
+  sigla TEXT NOT NULL,
+  level INTEGER NOT NULL,
+  service_ids JSONB NOT NULL,
+  total_outstanding_cents INTEGER NOT NULL,
+  recipient TEXT NOT NULL,
+  escalated BOOLEAN NOT NULL DEFAULT FALSE,
+  notification_id INTEGER REFERENCES notification_outbox(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS payment_reminders_sigla_idx ON payment_reminders (sigla, created_at);
+
+-- Students who asked not to receive automatic reminders
+ALTER TABLE students ADD COLUMN IF NOT EXISTS payment_reminders_opt_out BOOLEAN NOT NULL DEFAULT FALSE;
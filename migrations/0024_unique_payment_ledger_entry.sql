@@ -0,0 +1,24 @@
+-- An online payment is booked on the student ledger at most once: the unique index makes a second
+-- concurrent booking of the same payment fail instead of crediting the student twice.
+-- Payments already booked more than once must be corrected by hand before the index can be created.
+DO $$
+DECLARE
+  duplicated TEXT;
+BEGIN
+  SELECT string_agg(secretariat_payment_id::TEXT, ', ' ORDER BY secretariat_payment_id) INTO duplicated
+  FROM (
+    SELECT secretariat_payment_id
+    FROM student_ledger
+    WHERE kind = 'payment' AND secretariat_payment_id IS NOT NULL
+    GROUP BY secretariat_payment_id
+    HAVING COUNT(*) > 1
+  ) AS duplicates;
+
+  IF duplicated IS NOT NULL THEN
+    RAISE EXCEPTION 'student_ledger: secretariat payments booked more than once: %', duplicated;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS student_ledger_payment_idx
+  ON student_ledger (secretariat_payment_id)
+  WHERE kind = 'payment';
@@ -0,0 +1,14 @@
+-- Puts back the payment methods set aside by 0004 on databases created before the versioned migrations:
+-- 0006 re-added the column with the default 'stripe' for every row
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'secretariat_payments' AND column_name = 'payment_method_before_0006'
+  ) THEN
+    UPDATE secretariat_payments
+    SET payment_method = payment_method_before_0006
+    WHERE payment_method_before_0006 IS NOT NULL;
+    ALTER TABLE secretariat_payments DROP COLUMN payment_method_before_0006;
+  END IF;
+END $$;
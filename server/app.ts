@@ -0,0 +1,77 @@
+import express, { type Express, type Request, Response, NextFunction } from "express";
+import type { Server } from "http";
+import { registerRoutes } from "./routes";
+import { log } from "./vite";
+import { maintenanceMiddleware } from "./maintenance";
+import { handlePaymentWebhook } from "./payments/webhooks";
+import { setupAuth } from "./auth";
+import { withAuditSource } from "./audit";
+import { AuditSource } from "@shared/schema";
+
+/**
+ * Applicazione Express con middleware, autenticazione e rotte API, senza Vite né scheduler:
+ * la usa il server e la usano i test di integrazione
+ */
+export async function createApp(): Promise<{ app: Express; server: Server }> {
+  const app = express();
+
+  // Configure webhook routes with raw body parsing BEFORE express.json()
+  const rawWebhookBody = express.raw({ type: () => true });
+  app.post("/api/webhooks/:provider", rawWebhookBody, withAuditSource(AuditSource.WEBHOOK), handlePaymentWebhook());
+  // Indirizzi storici già configurati presso i provider
+  for (const provider of ["stripe", "satispay", "revolut", "sumup"]) {
+    app.post(`/api/${provider}/webhook`, rawWebhookBody, withAuditSource(AuditSource.WEBHOOK), handlePaymentWebhook(provider));
+  }
+
+  // Global JSON parsing for all other routes
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  // Add maintenance mode middleware
+  app.use(maintenanceMiddleware);
+
+  app.use((req, res, next) => {
+    const start = Date.now();
+    const path = req.path;
+    let capturedJsonResponse: Record<string, any> | undefined = undefined;
+
+    const originalResJson = res.json;
+    res.json = function (bodyJson, ...args) {
+      capturedJsonResponse = bodyJson;
+      return originalResJson.apply(res, [bodyJson, ...args]);
+    };
+
+    res.on("finish", () => {
+      const duration = Date.now() - start;
+      if (path.startsWith("/api")) {
+        let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
+        if (capturedJsonResponse) {
+          logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        }
+
+        if (logLine.length > 80) {
+          logLine = logLine.slice(0, 79) + "…";
+        }
+
+        log(logLine);
+      }
+    });
+
+    next();
+  });
+
+  // Sessioni, login dello staff e protezione delle rotte /api
+  setupAuth(app);
+
+  const server = await registerRoutes(app);
+
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    const status = err.status || err.statusCode || 500;
+    const message = err.message || "Internal Server Error";
+
+    res.status(status).json({ message });
+    throw err;
+  });
+
+  return { app, server };
+}
@@ -0,0 +1,110 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PaymentStatus, ServiceType } from "@shared/schema";
+import { integrationSkip, setupIntegrationDatabase, type IntegrationDatabase } from "./test/integration";
+
+type ArchiveService = typeof import("./services/archiveService")["archiveService"];
+
+describe("ArchiveService", { skip: integrationSkip }, () => {
+  let database: IntegrationDatabase;
+  let archive: ArchiveService;
+  let archivedServiceId: number;
+
+  before(async () => {
+    database = await setupIntegrationDatabase();
+    ({ archiveService: archive } = await import("./services/archiveService"));
+  });
+
+  after(async () => {
+    await database?.teardown();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    const { storage } = database;
+    await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi" });
+    const archived = await storage.createService({
+      sigla: "101", date: "2024-03-10", pieces: 1, type: ServiceType.SIGLATURA, amount: 0.5, status: PaymentStatus.PAID,
+    });
+    archivedServiceId = archived.id;
+    await storage.createReceipt({
+      serviceId: archived.id, receiptNumber: "R-2024-1", receiptDate: new Date("2024-03-10"), amount: 0.5, paymentMethod: "cash",
+    });
+    await storage.createService({
+      sigla: "101", date: "2025-02-10", pieces: 1, type: ServiceType.SIGLATURA, amount: 0.5, status: PaymentStatus.UNPAID,
+    });
+    assert.equal((await archive.closeYear(2024)).success, true);
+  });
+
+  it("reopens an archived year, counting only in a dry run", async () => {
+    const dryRun = await archive.reopenYear(2024, { dryRun: true });
+    assert.equal(dryRun.success, true);
+    assert.equal(dryRun.operations.find(op => op.table === "services")?.count, 1);
+    assert.deepEqual(await archive.getArchivedYears(), [2024]);
+
+    const result = await archive.reopenYear(2024);
+    assert.equal(result.totalRecords, 2);
+    assert.deepEqual(await archive.getArchivedYears(), []);
+    assert.equal((await database.storage.getServiceMetrics()).totalServices, 2);
+  });
+
+  it("closes a September-August fiscal year at the end of August", async () => {
+    const { storage } = database;
+    await archive.reopenYear(2024);
+    const august = await storage.createService({
+      sigla: "101", date: "2025-08-20", pieces: 1, type: ServiceType.SIGLATURA, amount: 0.5, status: PaymentStatus.UNPAID,
+    });
+    const september = await storage.createService({
+      sigla: "101", date: "2025-09-02", pieces: 1, type: ServiceType.SIGLATURA, amount: 0.5, status: PaymentStatus.UNPAID,
+    });
+
+    process.env.FISCAL_YEAR_START_MONTH = "9";
+    try {
+      const result = await archive.closeYear(2024);
+      assert.equal(result.label, "2024/25");
+      assert.equal(result.operations.find(op => op.table === "services")?.count, 3);
+      assert.equal((await storage.getService(august.id))?.archivedYear, 2024);
+      assert.equal((await storage.getService(september.id))?.archivedYear, null);
+      assert.equal((await archive.getArchiveStats(2024))[0].label, "2024/25");
+    } finally {
+      delete process.env.FISCAL_YEAR_START_MONTH;
+    }
+  });
+
+  it("exports an archived year and imports it into an empty instance", async () => {
+    assert.equal(await archive.exportYear(2023), undefined);
+    const bundle = await archive.exportYear(2024);
+    assert.ok(bundle);
+    assert.equal(bundle.fileName, "archivio_2024.tar.gz");
+
+    const stats = await archive.getArchiveStats(2024);
+    assert.equal(await archive.importYear(bundle.content).then(result => "error" in result && result.status), 409);
+
+    await database.reset();
+    const dryRun = await archive.importYear(bundle.content, { dryRun: true });
+    assert.ok(!("error" in dryRun) && dryRun.success);
+    assert.deepEqual(await archive.getArchivedYears(), []);
+
+    const imported = await archive.importYear(bundle.content);
+    assert.ok(!("error" in imported) && imported.success);
+    assert.deepEqual(await archive.getArchiveStats(2024), stats);
+    const student = await database.storage.getStudentBySigla("101");
+    const restored = await database.storage.getService(archivedServiceId);
+    assert.equal(restored?.amount, 0.5);
+    assert.equal(restored?.studentId, student?.id);
+
+    // I nuovi servizi non riusano gli id importati
+    const next = await database.storage.createService({
+      sigla: "101", date: "2025-03-10", pieces: 1, type: ServiceType.SIGLATURA, amount: 0.5, status: PaymentStatus.UNPAID,
+    });
+    assert.ok(next.id > archivedServiceId);
+  });
+
+  it("refuses a damaged bundle", async () => {
+    const bundle = await archive.exportYear(2024);
+    const damaged = Buffer.from(bundle!.content);
+    damaged[damaged.length - 10] ^= 0xff;
+    const result = await archive.importYear(damaged);
+    assert.equal("error" in result && result.status, 400);
+  });
+});
@@ -0,0 +1,64 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+import { AuditSource, AuditSourceValue } from "@shared/schema";
+
+/**
+ * Chi sta modificando i dati e da dove: viene propagato lungo tutta la catena
+ * asincrona della richiesta (o del job) fino a DatabaseStorage
+ */
+export interface AuditContext {
+  source: AuditSourceValue;
+  actorId?: number | null;
+  actorName?: string | null;
+}
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+export function getAuditContext(): AuditContext {
+  return auditStorage.getStore() ?? { source: AuditSource.SYSTEM };
+}
+
+/**
+ * Esegue una funzione con un contesto di audit esplicito (scheduler, import, script)
+ */
+export function runWithAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return auditStorage.run(context, fn);
+}
+
+const WEBHOOK_PATHS = [
+  "/api/stripe/webhook",
+  "/api/satispay/webhook",
+  "/api/revolut/webhook",
+  "/api/sumup/webhook",
+];
+
+function resolveSource(path: string): AuditSourceValue {
+  if (WEBHOOK_PATHS.includes(path)) return AuditSource.WEBHOOK;
+  if (path.startsWith("/api/public/") || path.startsWith("/api/paypal/")) return AuditSource.PUBLIC;
+  if (path.startsWith("/api/import/") || path.endsWith("/import") || path.startsWith("/api/recovery/")) {
+    return AuditSource.IMPORT;
+  }
+  return AuditSource.UI;
+}
+
+/**
+ * Middleware: apre il contesto di audit della richiesta.
+ * Va montato dopo passport.session() perché legge l'utente autenticato.
+ */
+export function auditContextMiddleware(req: Request, _res: Response, next: NextFunction) {
+  const user = req.isAuthenticated?.() ? req.user : undefined;
+  runWithAuditContext({
+    source: resolveSource(req.originalUrl.split("?")[0]),
+    actorId: user?.id ?? null,
+    actorName: user?.username ?? null,
+  }, next);
+}
+
+/**
+ * Middleware per le rotte montate prima dell'autenticazione (webhook con body raw)
+ */
+export function withAuditSource(source: AuditSourceValue) {
+  return (_req: Request, _res: Response, next: NextFunction) => {
+    runWithAuditContext({ source }, next);
+  };
+}
@@ -0,0 +1,248 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { hashPassword, verifyPassword, isLegacyPassword } from "./utils/password";
+import { enforcePermissions, getCapabilities } from "./permissions";
+import { auditContextMiddleware } from "./audit";
+import {
+  User as SelectUser,
+  SafeUser,
+  UserRole,
+  insertUserSchema,
+  changePasswordSchema,
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+// Durata della sessione dello staff (12 ore)
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+// Endpoint raggiungibili senza login dello staff: pagine pubbliche e portale degli studenti
+// (che verifica da sé la sessione dello studente), webhook dei provider di pagamento
+// e le rotte di autenticazione stesse.
+// Le voci che terminano con "/" valgono come prefisso, le altre come percorso esatto
+const PUBLIC_API_PATHS = [
+  "/api/public/",
+  "/api/portal/",
+  "/api/login",
+  "/api/logout",
+  "/api/user",
+  "/api/webhooks/",
+  "/api/stripe/webhook",
+  "/api/satispay/webhook",
+  "/api/revolut/webhook",
+  "/api/sumup/webhook",
+  "/api/paypal/create-order",
+  "/api/paypal/capture/",
+];
+
+export function isPublicApiPath(path: string): boolean {
+  return PUBLIC_API_PATHS.some(entry =>
+    entry.endsWith("/") ? path.startsWith(entry) : path === entry
+  );
+}
+
+/**
+ * Rimuove l'hash della password prima di inviare l'utente al client
+ */
+export function toSafeUser(user: SelectUser): SafeUser {
+  const { password: _password, ...safeUser } = user;
+  return safeUser;
+}
+
+/**
+ * Middleware globale sulle API: le rotte pubbliche passano,
+ * tutte le altre sono soggette alla matrice dei permessi
+ */
+function protectApi(req: Request, res: Response, next: NextFunction) {
+  if (isPublicApiPath(req.originalUrl.split("?")[0])) {
+    return next();
+  }
+  enforcePermissions(req, res, next);
+}
+
+export function setupAuth(app: Express) {
+  const PgSession = connectPgSimple(session);
+
+  if (!process.env.SESSION_SECRET && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: new PgSession({
+      pool: pool as any,
+      tableName: "session",
+      createTableIfMissing: true,
+    }),
+    name: "elis.sid",
+    secret: process.env.SESSION_SECRET || "elis-dev-session-secret",
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  // Attore e origine delle modifiche per il log di audit
+  app.use(auditContextMiddleware);
+
+  // Da qui in avanti ogni rotta /api non pubblica richiede login e permessi
+  app.use("/api", protectApi);
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !user.active || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+
+      // Gli utenti creati prima dell'introduzione degli hash vengono migrati al primo login
+      if (isLegacyPassword(user.password)) {
+        await storage.updateUser(user.id, { password: await hashPassword(password) });
+      }
+
+      const updated = await storage.updateUser(user.id, { lastLoginAt: new Date() });
+      return done(null, updated || user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // Un utente disattivato perde subito l'accesso anche con sessione valida
+      done(null, user && user.active ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Credenziali non valide" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json({ ...toSafeUser(user), capabilities: getCapabilities(user.role) });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("elis.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    res.json({ ...toSafeUser(req.user), capabilities: getCapabilities(req.user.role) });
+  });
+
+  // Cambio password dell'utente corrente
+  app.post("/api/user/password", async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+      if (!(await verifyPassword(currentPassword, req.user!.password))) {
+        return res.status(400).json({ error: "La password attuale non è corretta" });
+      }
+
+      await storage.updateUser(req.user!.id, { password: await hashPassword(newPassword) });
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Errore nel cambio password:", error);
+      res.status(500).json({ error: "Errore interno del server" });
+    }
+  });
+
+  // Gestione utenti dello staff (capacità users:manage)
+  app.get("/api/users", async (_req, res) => {
+    try {
+      const allUsers = await storage.getUsers();
+      res.json(allUsers.map(toSafeUser));
+    } catch (error) {
+      console.error("Errore nel recupero degli utenti:", error);
+      res.status(500).json({ error: "Errore interno del server" });
+    }
+  });
+
+  app.post("/api/users", async (req, res) => {
+    try {
+      const userData = insertUserSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(409).json({ error: "Username già in uso" });
+      }
+
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+      });
+      res.status(201).json(toSafeUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Errore nella creazione dell'utente:", error);
+      res.status(500).json({ error: "Errore interno del server" });
+    }
+  });
+
+  app.patch("/api/users/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = insertUserSchema.partial().parse(req.body);
+
+      // Un admin non può togliersi da solo i privilegi o disattivarsi
+      if (id === req.user!.id && ((updates.role && updates.role !== UserRole.ADMIN) || updates.active === false)) {
+        return res.status(400).json({ error: "Non puoi rimuovere i tuoi privilegi di amministratore" });
+      }
+
+      if (updates.password) {
+        updates.password = await hashPassword(updates.password);
+      }
+
+      const user = await storage.updateUser(id, updates);
+      if (!user) {
+        return res.status(404).json({ error: "Utente non trovato" });
+      }
+      res.json(toSafeUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error("Errore nell'aggiornamento dell'utente:", error);
+      res.status(500).json({ error: "Errore interno del server" });
+    }
+  });
+}
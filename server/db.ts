@@ -1,5 +1,7 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle, type NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePostgres } from 'drizzle-orm/node-postgres';
+import pg from "pg";
 import ws from "ws";
 import * as schema from "@shared/schema";
 
@@ -11,12 +13,23 @@ if (!process.env.DATABASE_URL) {
   );
 }
 
-// Ottimizziamo il pool di connessione per ridurre il carico sul database
-export const pool = new Pool({ 
+// Con DATABASE_DRIVER=pg si usa un Postgres standard (locale, Docker, test di integrazione)
+// invece del driver serverless di Neon, che richiede una connessione WebSocket
+const useNodePostgres = process.env.DATABASE_DRIVER === "pg";
+
+const poolOptions = {
   connectionString: process.env.DATABASE_URL,
   max: 5, // Limitiamo il numero massimo di connessioni per evitare errori di rate limit
   idleTimeoutMillis: 30000, // Timeout più lungo per le connessioni inutilizzate
   connectionTimeoutMillis: 10000, // Timeout più lungo per le connessioni
   allowExitOnIdle: true // Permette di chiudere il pool quando l'app si ferma
-});
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+};
+
+// Ottimizziamo il pool di connessione per ridurre il carico sul database.
+// I due driver hanno la stessa interfaccia: il resto dell'applicazione usa il tipo di Neon
+export const pool: Pool = useNodePostgres
+  ? new pg.Pool(poolOptions) as unknown as Pool
+  : new Pool(poolOptions);
+export const db = useNodePostgres
+  ? drizzleNodePostgres({ client: pool as unknown as pg.Pool, schema }) as unknown as NeonDatabase<typeof schema>
+  : drizzle({ client: pool, schema });
@@ -0,0 +1,29 @@
+import { describeFiscalYear, fiscalYearOf, fiscalYearRange, type FiscalYear } from "@shared/fiscalYear";
+
+/*
+ * Definizione dell'anno fiscale per il server: FISCAL_YEAR_START_MONTH (1-12) è il mese in cui
+ * inizia. Senza configurazione vale l'anno solare, come per gli archivi creati in precedenza.
+ */
+
+const DEFAULT_START_MONTH = 1;
+
+export function fiscalYearStartMonth(): number {
+  const configured = Number(process.env.FISCAL_YEAR_START_MONTH);
+  return Number.isInteger(configured) && configured >= 1 && configured <= 12 ? configured : DEFAULT_START_MONTH;
+}
+
+export function getFiscalYear(year: number): FiscalYear {
+  return describeFiscalYear(year, fiscalYearStartMonth());
+}
+
+export function getFiscalYearRange(year: number): { start: Date; end: Date } {
+  return fiscalYearRange(year, fiscalYearStartMonth());
+}
+
+export function getFiscalYearOf(date: Date): number {
+  return fiscalYearOf(date, fiscalYearStartMonth());
+}
+
+export function currentFiscalYear(now: Date = new Date()): number {
+  return getFiscalYearOf(now);
+}
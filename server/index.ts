@@ -1,68 +1,38 @@
-import express, { type Request, Response, NextFunction } from "express";
-import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { storage, DatabaseStorage } from "./storage";
+import { pool } from "./db";
+import { assertSchemaUpToDate, runMigrations } from "./migrations";
 import { schedulerService } from "./services/schedulerService";
-import { maintenanceMiddleware } from "./maintenance";
-import { handleStripeWebhook } from "./stripe";
+import { createApp } from "./app";
 
-const app = express();
-
-// Configure webhook route with raw body parsing BEFORE express.json()
-app.post("/api/stripe/webhook", express.raw({type: 'application/json'}), handleStripeWebhook);
-
-// Global JSON parsing for all other routes
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
-
-// Add maintenance mode middleware
-app.use(maintenanceMiddleware);
-
-app.use((req, res, next) => {
-  const start = Date.now();
-  const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
-
-  res.on("finish", () => {
-    const duration = Date.now() - start;
-    if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
-      }
-
-      log(logLine);
+(async () => {
+  // Lo schema deve corrispondere al codice prima di servire richieste: con le migrazioni
+  // all'avvio disattivate (DB_MIGRATE_ON_START=false) un database non aggiornato blocca l'avvio
+  try {
+    if (process.env.DB_MIGRATE_ON_START === "false") {
+      await assertSchemaUpToDate(pool);
+    } else {
+      const applied = await runMigrations(pool, { log: message => log(message, "migrations") });
+      log(applied.length > 0 ? `${applied.length} migration(s) applied` : "Database schema is up to date", "migrations");
     }
-  });
-
-  next();
-});
+  } catch (error) {
+    log(`Refusing to start: ${error instanceof Error ? error.message : error}`, "error");
+    process.exit(1);
+  }
 
-(async () => {
-  // Initialize the database with sample data if it's empty
+  // Prima installazione: crea l'amministratore se non esiste nessun utente
   if (storage instanceof DatabaseStorage) {
     try {
-      await storage.initializeSampleData();
-      log("Database initialized with sample data if needed");
+      if (await storage.ensureInitialAdmin()) {
+        log("Initial admin user created");
+      }
     } catch (error) {
-      log(`Error initializing database: ${error}`, "error");
-      // Non blocchiamo l'avvio dell'applicazione in caso di errori di database
-      // L'applicazione mostrerà un messaggio di errore appropriato all'utente nelle pagine
-      log("Proceeding with application startup despite database error", "warning");
+      log(`Refusing to start: cannot create the initial admin user: ${error instanceof Error ? error.message : error}`, "error");
+      process.exit(1);
     }
   }
   
-  const server = await registerRoutes(app);
+  const { app, server } = await createApp();
 
   // Start the daily report scheduler
   try {
@@ -72,14 +42,6 @@ app.use((req, res, next) => {
     log(`Error starting scheduler: ${error}`, "error");
   }
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
-
-    res.status(status).json({ message });
-    throw err;
-  });
-
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
   // doesn't interfere with the other routes
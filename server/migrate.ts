@@ -0,0 +1,23 @@
+import { pool } from "./db";
+import { getMigrationStatus, runMigrations } from "./migrations";
+
+// npm run db:migrate            applica le migrazioni mancanti
+// npm run db:migrate -- --status elenca le migrazioni in attesa senza applicarle
+(async () => {
+  try {
+    if (process.argv.includes("--status")) {
+      const { applied, pending } = await getMigrationStatus(pool);
+      console.log(`${applied.length} migration(s) applied, ${pending.length} pending`);
+      for (const migration of pending) console.log(`  pending: ${migration.filename}`);
+      process.exitCode = pending.length > 0 ? 1 : 0;
+    } else {
+      const applied = await runMigrations(pool, { log: console.log });
+      console.log(applied.length > 0 ? `${applied.length} migration(s) applied` : "Database schema is up to date");
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+})();
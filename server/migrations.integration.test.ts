@@ -0,0 +1,177 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { is } from "drizzle-orm";
+import { PgTable, getTableConfig } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import { PaymentStatus, ServiceType } from "@shared/schema";
+import { integrationSkip, setupIntegrationDatabase, type IntegrationDatabase } from "./test/integration";
+
+type Migrations = typeof import("./migrations");
+type Pool = typeof import("./db")["pool"];
+
+describe("schema migrations", { skip: integrationSkip }, () => {
+  let database: IntegrationDatabase;
+  let migrations: Migrations;
+  let pool: Pool;
+
+  before(async () => {
+    database = await setupIntegrationDatabase();
+    migrations = await import("./migrations");
+    ({ pool } = await import("./db"));
+  });
+
+  after(async () => {
+    await database?.teardown();
+  });
+
+  it("creates every table and column declared in shared/schema.ts", async () => {
+    const { rows } = await pool.query(
+      "SELECT table_name, column_name, is_nullable, column_default FROM information_schema.columns WHERE table_schema = 'public'"
+    );
+    const columns = new Map(rows.map(row => [`${row.table_name}.${row.column_name}`, row]));
+
+    const tables = (Object.values(schema) as unknown[]).filter((value): value is PgTable => is(value, PgTable));
+    assert.ok(tables.length > 0);
+    for (const table of tables) {
+      const config = getTableConfig(table);
+      for (const column of config.columns) {
+        const key = `${config.name}.${column.name}`;
+        const actual = columns.get(key);
+        assert.ok(actual, `${key} is missing`);
+        assert.equal(actual.is_nullable === "NO", column.notNull, `${key} nullability`);
+        assert.equal(actual.column_default !== null, column.hasDefault || column.columnType === "PgSerial", `${key} default`);
+      }
+    }
+  });
+
+  it("seeds the service catalog and the price list", async () => {
+    const catalog = await database.storage.getServiceCatalog();
+    assert.deepEqual(catalog.map(item => item.code), ["siglatura", "happy_hour", "riparazione"]);
+    assert.equal(await database.storage.getEffectivePrice("siglatura", new Date()), 0.5);
+  });
+
+  it("records every migration and has nothing left to apply", async () => {
+    const status = await migrations.getMigrationStatus(pool);
+    assert.equal(status.pending.length, 0);
+    assert.equal(status.applied.length, migrations.loadMigrations().length);
+    await migrations.assertSchemaUpToDate(pool);
+    assert.deepEqual(await migrations.runMigrations(pool), []);
+  });
+
+  it("backfills the student links and records orphaned rows when adding the foreign keys", async () => {
+    const { storage } = database;
+    await database.reset();
+    const foreignKeys = migrations.loadMigrations().find(migration => migration.name === "add_foreign_keys")!;
+
+    // Dati come prima dei vincoli: servizio non collegato e ricevuta di un servizio eliminato
+    await pool.query("ALTER TABLE receipts DROP CONSTRAINT receipts_service_fk");
+    const student = await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi" });
+    const created = await storage.createService({
+      sigla: "101", date: "2025-01-10", pieces: 1, type: ServiceType.SIGLATURA, amount: 0.5, status: PaymentStatus.UNPAID,
+    });
+    await pool.query("UPDATE services SET student_id = NULL");
+    const receiptId = await storage.createReceipt({ serviceId: 999, receiptNumber: "R-ORPHAN", amount: 1, paymentMethod: "cash" });
+    await pool.query("DELETE FROM schema_migrations WHERE version >= $1", [foreignKeys.version]);
+
+    await migrations.runMigrations(pool);
+
+    assert.equal((await storage.getService(created.id))?.studentId, student.id);
+    const report = await storage.getOrphanReport();
+    assert.deepEqual(report.receiptsWithoutService.map(receipt => receipt.id), [receiptId]);
+    assert.equal(report.migrationOrphans.length, 1);
+    assert.equal(report.migrationOrphans[0].tableName, "receipts");
+    assert.equal(report.migrationOrphans[0].missingReference, "999");
+    assert.equal((report.migrationOrphans[0].rowData as { receipt_number: string }).receipt_number, "R-ORPHAN");
+
+    await assert.rejects(
+      storage.createReceipt({ serviceId: 999, receiptNumber: "R-NEW", amount: 1, paymentMethod: "cash" }),
+      /receipts_service_fk/
+    );
+  });
+
+  it("converts euro amounts to cents and reports the rounded values", async () => {
+    const { storage } = database;
+    await database.reset();
+    const moneyMigration = migrations.loadMigrations().find(migration => migration.name === "store_money_as_cents")!;
+
+    // Colonna com'era prima della conversione, con un valore che non è un centesimo intero
+    const created = await storage.createService({
+      sigla: "101", date: "2025-01-10", pieces: 1, type: ServiceType.SIGLATURA, amount: 0.5, status: PaymentStatus.UNPAID,
+    });
+    await pool.query("ALTER TABLE services ADD COLUMN amount DOUBLE PRECISION");
+    await pool.query("UPDATE services SET amount = 1.005");
+    await pool.query("ALTER TABLE services DROP COLUMN amount_cents");
+    await pool.query("DELETE FROM schema_migrations WHERE version = $1", [moneyMigration.version]);
+
+    await migrations.runMigrations(pool);
+
+    assert.equal((await storage.getService(created.id))?.amount, 1.01);
+    const report = await storage.getMoneyConversionReport();
+    assert.equal(report.length, 1);
+    assert.deepEqual(
+      { ...report[0], convertedAt: undefined },
+      {
+        tableName: "services", columnName: "amount", rowCount: 1, roundedRows: 1,
+        totalBefore: 1.005, totalAfter: 1.01, difference: 0.01, convertedAt: undefined,
+      }
+    );
+  });
+
+  it("stops the conversion on amounts that do not fit in integer cents", async () => {
+    const { storage } = database;
+    await database.reset();
+    const moneyMigration = migrations.loadMigrations().find(migration => migration.name === "store_money_as_cents")!;
+
+    await storage.createService({
+      sigla: "101", date: "2025-01-10", pieces: 1, type: ServiceType.SIGLATURA, amount: 0.5, status: PaymentStatus.UNPAID,
+    });
+    await pool.query("ALTER TABLE services ADD COLUMN amount DOUBLE PRECISION");
+    await pool.query("UPDATE services SET amount = 30000000");
+    await pool.query("ALTER TABLE services DROP COLUMN amount_cents");
+    await pool.query("DELETE FROM schema_migrations WHERE version = $1", [moneyMigration.version]);
+
+    await assert.rejects(migrations.runMigrations(pool), /services\.amount: 1 row\(s\) not finite or too large for INTEGER cents/);
+    const { rows } = await pool.query("SELECT amount FROM services");
+    assert.deepEqual(rows, [{ amount: 30000000 }]);
+
+    // Corretto il valore, la conversione riparte
+    await pool.query("UPDATE services SET amount = 300");
+    await migrations.runMigrations(pool);
+    await migrations.assertSchemaUpToDate(pool);
+  });
+
+  it("keeps the payment methods of a database created before the versioned migrations", async () => {
+    await database.reset();
+    const versions = migrations.loadMigrations()
+      .filter(migration => ["set_aside_pre_runner_payment_method", "add_payment_method_to_secretariat_payments", "restore_pre_runner_payment_method"].includes(migration.name))
+      .map(migration => migration.version);
+    assert.equal(versions.length, 3);
+
+    // Colonna già presente (drizzle-kit push) ma migrazioni non registrate
+    await database.storage.createSecretariatPayment({
+      orderId: "SEC_satispay_101_1", sigla: "101", customerName: "Mario Rossi", customerEmail: "",
+      amount: 5, currency: "EUR", status: "pending", paymentMethod: "satispay",
+    });
+    await pool.query("DELETE FROM schema_migrations WHERE version = ANY($1)", [versions]);
+
+    await migrations.runMigrations(pool);
+
+    const { rows } = await pool.query("SELECT payment_method FROM secretariat_payments");
+    assert.deepEqual(rows, [{ payment_method: "satispay" }]);
+    const { rows: leftover } = await pool.query(
+      "SELECT 1 FROM information_schema.columns WHERE table_name = 'secretariat_payments' AND column_name = 'payment_method_before_0006'"
+    );
+    assert.equal(leftover.length, 0);
+    await migrations.assertSchemaUpToDate(pool);
+  });
+
+  it("applies a pending migration once when several instances start together", async () => {
+    const [last] = migrations.loadMigrations().slice(-1);
+    await pool.query("DELETE FROM schema_migrations WHERE version = $1", [last.version]);
+    await assert.rejects(migrations.assertSchemaUpToDate(pool), /1 pending migration/);
+
+    const results = await Promise.all([migrations.runMigrations(pool), migrations.runMigrations(pool)]);
+    assert.deepEqual(results.map(applied => applied.length).sort(), [0, 1]);
+    await migrations.assertSchemaUpToDate(pool);
+  });
+});
@@ -0,0 +1,73 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { compareMigrations, loadMigrations, type AppliedMigration, type MigrationFile } from "./migrations";
+
+function applied(file: MigrationFile, checksum = file.checksum): AppliedMigration {
+  return { version: file.version, name: file.name, checksum, appliedAt: new Date() };
+}
+
+describe("loadMigrations", () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "migrations-"));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads the repository migrations in version order starting from the initial schema", () => {
+    const migrations = loadMigrations();
+    assert.equal(migrations[0].filename, "0000_initial_schema.sql");
+    for (let i = 1; i < migrations.length; i++) {
+      assert.ok(migrations[i].version > migrations[i - 1].version, migrations[i].filename);
+    }
+  });
+
+  it("ignores line ending differences in the checksum", () => {
+    fs.writeFileSync(path.join(dir, "0002_crlf.sql"), "SELECT 1;\r\nSELECT 2;\r\n");
+    fs.writeFileSync(path.join(dir, "0001_lf.sql"), "SELECT 1;\nSELECT 2;\n");
+    const [lf, crlf] = loadMigrations(dir);
+    assert.deepEqual([lf.version, crlf.version], [1, 2]);
+    assert.equal(lf.checksum, crlf.checksum);
+  });
+
+  it("rejects duplicate versions and badly named files", () => {
+    fs.writeFileSync(path.join(dir, "0001_duplicate.sql"), "SELECT 1;");
+    assert.throws(() => loadMigrations(dir), /Duplicate migration version 1/);
+    fs.rmSync(path.join(dir, "0001_duplicate.sql"));
+
+    fs.writeFileSync(path.join(dir, "3_short.sql"), "SELECT 1;");
+    assert.throws(() => loadMigrations(dir), /Invalid migration file name: 3_short.sql/);
+  });
+});
+
+describe("compareMigrations", () => {
+  const files = loadMigrations();
+
+  it("reports every migration as pending on an empty database", () => {
+    const { pending } = compareMigrations(files, []);
+    assert.equal(pending.length, files.length);
+  });
+
+  it("reports only the migrations not yet applied", () => {
+    const { pending } = compareMigrations(files, files.slice(0, 3).map(file => applied(file)));
+    assert.deepEqual(pending, files.slice(3));
+  });
+
+  it("refuses files modified after being applied", () => {
+    assert.throws(
+      () => compareMigrations(files, [applied(files[0], "0".repeat(64))]),
+      /0000_initial_schema.sql was modified after being applied/
+    );
+  });
+
+  it("refuses databases with migrations the code does not know", () => {
+    const future = { version: 9999, name: "from_the_future", checksum: "x", appliedAt: new Date() };
+    assert.throws(() => compareMigrations(files, [future]), /Migration 9999 \(from_the_future\) is applied/);
+  });
+});
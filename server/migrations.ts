@@ -0,0 +1,200 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+
+/*
+ * Migrazioni versionate dello schema: i file migrations/NNNN_descrizione.sql vengono
+ * applicati in ordine di versione, ognuno nella propria transazione, e registrati
+ * nella tabella schema_migrations con il checksum del contenuto.
+ * Un file già applicato non va più modificato: le modifiche allo schema richiedono
+ * una nuova migrazione allineata a shared/schema.ts.
+ */
+
+export const MIGRATIONS_DIR = path.resolve(import.meta.dirname, "..", "migrations");
+
+const MIGRATION_FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+// Un solo processo alla volta applica le migrazioni (più istanze avviate insieme)
+const MIGRATION_LOCK_KEY = "elis_schema_migrations";
+
+export interface MigrationFile {
+  version: number;
+  name: string;
+  filename: string;
+  sql: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: MigrationFile[];
+}
+
+// Sottoinsieme comune ai pool di Neon e di node-postgres
+interface MigrationClient {
+  query(text: string, values?: unknown[]): Promise<{ rows: any[] }>;
+  release(): void;
+}
+
+export interface MigrationPool {
+  connect(): Promise<MigrationClient>;
+}
+
+function checksumOf(sql: string): string {
+  // Gli a capo di Windows non devono cambiare il checksum di un file già applicato
+  return createHash("sha256").update(sql.replace(/\r\n/g, "\n")).digest("hex");
+}
+
+/**
+ * Legge i file di migrazione ordinati per versione
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): MigrationFile[] {
+  const migrations: MigrationFile[] = [];
+
+  for (const filename of fs.readdirSync(dir)) {
+    if (!filename.endsWith(".sql")) continue;
+    const match = MIGRATION_FILE_PATTERN.exec(filename);
+    if (!match) {
+      throw new Error(`Invalid migration file name: ${filename} (expected NNNN_description.sql)`);
+    }
+    const sql = fs.readFileSync(path.join(dir, filename), "utf8");
+    migrations.push({ version: Number(match[1]), name: match[2], filename, sql, checksum: checksumOf(sql) });
+  }
+
+  migrations.sort((a, b) => a.version - b.version);
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(`Duplicate migration version ${migrations[i].version}: ${migrations[i - 1].filename}, ${migrations[i].filename}`);
+    }
+  }
+  return migrations;
+}
+
+/**
+ * Confronta i file con le migrazioni registrate nel database.
+ * Un file modificato dopo l'applicazione o una versione applicata che non esiste più
+ * tra i file (database più recente del codice) sono errori: lo schema non è affidabile.
+ */
+export function compareMigrations(files: MigrationFile[], applied: AppliedMigration[]): MigrationStatus {
+  const filesByVersion = new Map(files.map(file => [file.version, file]));
+
+  for (const migration of applied) {
+    const file = filesByVersion.get(migration.version);
+    if (!file) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) is applied to the database but missing from ${MIGRATIONS_DIR}`
+      );
+    }
+    if (file.checksum !== migration.checksum) {
+      throw new Error(`Migration ${file.filename} was modified after being applied (checksum mismatch)`);
+    }
+  }
+
+  const appliedVersions = new Set(applied.map(migration => migration.version));
+  return {
+    applied,
+    pending: files.filter(file => !appliedVersions.has(file.version)),
+  };
+}
+
+async function ensureMigrationsTable(client: MigrationClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+}
+
+async function readAppliedMigrations(client: MigrationClient): Promise<AppliedMigration[]> {
+  const { rows: [table] } = await client.query("SELECT to_regclass('public.schema_migrations') AS name");
+  if (!table?.name) return [];
+
+  const { rows } = await client.query(
+    "SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version"
+  );
+  return rows.map(row => ({
+    version: Number(row.version),
+    name: row.name,
+    checksum: row.checksum,
+    appliedAt: new Date(row.applied_at),
+  }));
+}
+
+/**
+ * Stato delle migrazioni senza modificare il database
+ */
+export async function getMigrationStatus(pool: MigrationPool, dir: string = MIGRATIONS_DIR): Promise<MigrationStatus> {
+  const files = loadMigrations(dir);
+  const client = await pool.connect();
+  try {
+    return compareMigrations(files, await readAppliedMigrations(client));
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Applica le migrazioni mancanti sotto advisory lock e restituisce quelle applicate.
+ * Se una migrazione fallisce la sua transazione viene annullata e l'errore propagato:
+ * le successive non vengono eseguite.
+ */
+export async function runMigrations(
+  pool: MigrationPool,
+  options: { dir?: string; log?: (message: string) => void } = {}
+): Promise<MigrationFile[]> {
+  const files = loadMigrations(options.dir);
+  const client = await pool.connect();
+
+  try {
+    await client.query("SELECT pg_advisory_lock(hashtext($1))", [MIGRATION_LOCK_KEY]);
+    try {
+      await ensureMigrationsTable(client);
+      // Riletto dopo aver ottenuto il lock: un'altra istanza può averle appena applicate
+      const { pending } = compareMigrations(files, await readAppliedMigrations(client));
+
+      for (const migration of pending) {
+        options.log?.(`Applying migration ${migration.filename}`);
+        await client.query("BEGIN");
+        try {
+          await client.query(migration.sql);
+          await client.query(
+            "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+            [migration.version, migration.name, migration.checksum]
+          );
+          await client.query("COMMIT");
+        } catch (error) {
+          await client.query("ROLLBACK");
+          throw new Error(`Migration ${migration.filename} failed: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+      return pending;
+    } finally {
+      await client.query("SELECT pg_advisory_unlock(hashtext($1))", [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Rifiuta l'avvio se il database non ha tutte le migrazioni del codice
+ * (usata quando le migrazioni all'avvio sono disattivate)
+ */
+export async function assertSchemaUpToDate(pool: MigrationPool, dir: string = MIGRATIONS_DIR): Promise<void> {
+  const { pending } = await getMigrationStatus(pool, dir);
+  if (pending.length > 0) {
+    throw new Error(
+      `Database schema is behind: ${pending.length} pending migration(s) (${pending.map(m => m.filename).join(", ")}). Run "npm run db:migrate".`
+    );
+  }
+}
@@ -1,148 +1,92 @@
-import { Request, Response } from "express";
 import crypto from "crypto";
-import { storage } from "./storage";
-import { BikeReservationStatus } from "@shared/schema";
+import { toCents } from "@shared/money";
+import { normalizePaymentStatus } from "./payments/status";
+import type { PaymentProvider } from "./payments/types";
 
-/* Nexi Payment Service for Bike Reservations (2.50 EUR) */
+/* Nexi XPay - pagina di pagamento ospitata */
 
-// Nexi configuration - these will need to be set as environment variables
-const NEXI_BASE_URL = process.env.NODE_ENV === "production" 
-  ? "https://ecommerce.nexi.it" 
+const NEXI_BASE_URL = process.env.NODE_ENV === "production"
+  ? "https://ecommerce.nexi.it"
   : "https://int-ecommerce.nexi.it"; // Sandbox URL
 
-// Create Nexi payment order for bike service (2.50 EUR)
-export async function createNexiPayment(req: Request, res: Response) {
-  try {
-    const { customerEmail, customerName, sigla, orderId } = req.body;
-
-    if (!customerEmail || !customerName || !sigla || !orderId) {
-      return res.status(400).json({
-        error: "Missing required fields: customerEmail, customerName, sigla, orderId"
-      });
-    }
-
-    // Verify student exists
-    const student = await storage.getStudentBySigla(sigla);
-    if (!student) {
-      return res.status(400).json({
-        error: "Sigla non trovata. Inserisci una sigla valida."
-      });
-    }
-
-    // Create bike reservation in database
-    const reservationData = {
-      orderId: orderId,
-      sigla: sigla,
-      customerName: customerName,
-      customerEmail: customerEmail,
-      amount: 2.50,
-      currency: "EUR",
-      status: BikeReservationStatus.PENDING_PAYMENT,
-    };
-
-    const reservation = await storage.createBikeReservation(reservationData);
-
-    // Create payment data for Nexi
-    const paymentData = {
-      amount: 250, // 2.50 EUR in cents
-      currency: "EUR",
-      orderId: orderId,
-      description: "Servizio Bici ELIS - Prenotazione",
-      customerId: customerEmail,
-      paymentMethod: ["CARD"],
-      customField: {
-        name: customerName,
-        email: customerEmail,
-        service: "bike_rental",
-        sigla: sigla
-      }
-    };
-
-    res.json({
-      success: true,
-      reservationId: reservation.id,
-      paymentData: paymentData,
-      paymentUrl: `${NEXI_BASE_URL}/payment/redirect`,
-      message: "Bike reservation created. Ready for payment processing."
-    });
-
-  } catch (error) {
-    console.error("Failed to create bike reservation:", error);
-    res.status(500).json({ error: "Failed to create bike reservation." });
-  }
+// MAC della richiesta come da specifica XPay: SHA1 dei campi concatenati e della chiave segreta
+export function computeMac(fields: string, macKey: string): string {
+  return crypto.createHash("sha1").update(fields + macKey, "utf8").digest("hex");
 }
 
-// Handle Nexi payment callback/webhook
-export async function handleNexiCallback(req: Request, res: Response) {
-  try {
-    const { orderId, status, transactionId } = req.body;
-
-    console.log("Nexi payment callback received:", { orderId, status, transactionId });
-
-    // Find the bike reservation by order ID
-    const reservation = await storage.getBikeReservationByOrderId(orderId);
-    if (!reservation) {
-      return res.status(404).json({ error: "Bike reservation not found" });
+export const nexiProvider: PaymentProvider = {
+  id: "nexi",
+  label: "Nexi",
+  description: "Carta tramite Nexi XPay",
+
+  isConfigured() {
+    return !!(process.env.NEXI_ALIAS && process.env.NEXI_MAC_KEY);
+  },
+  hasStatusApi: false,
+
+  async createPayment(input) {
+    const alias = process.env.NEXI_ALIAS;
+    const macKey = process.env.NEXI_MAC_KEY;
+    if (!alias || !macKey) {
+      throw new Error("Missing Nexi configuration: NEXI_ALIAS and NEXI_MAC_KEY required");
     }
 
-    // Update reservation status based on payment result
-    if (status === "AUTHORIZED" || status === "CAPTURED") {
-      // Payment successful - update status to paid
-      await storage.updateBikeReservationStatus(
-        reservation.id, 
-        BikeReservationStatus.PAID,
-        new Date() // Set payment date
-      );
+    const amountCents = toCents(input.amount);
+    const params = new URLSearchParams({
+      alias,
+      importo: amountCents.toString(),
+      divisa: "EUR",
+      codTrans: input.orderId,
+      url: `${input.baseUrl}/payment-success?orderId=${input.orderId}&method=nexi`,
+      url_back: `${input.baseUrl}/secretariat-payment/${input.sigla}`,
+      urlpost: `${input.baseUrl}/api/webhooks/nexi`,
+      descrizione: input.description,
+      mail: input.customerEmail,
+      mac: computeMac(`codTrans=${input.orderId}divisa=EURimporto=${amountCents}`, macKey),
+    });
 
-      console.log(`Payment confirmed for bike reservation ${reservation.id}`);
-      
-      res.json({ 
-        success: true, 
-        message: "Payment confirmed - bike reservation updated",
-        orderId: orderId,
-        transactionId: transactionId,
-        reservationId: reservation.id
-      });
-    } else {
-      // Payment failed - update status to cancelled
-      await storage.updateBikeReservationStatus(
-        reservation.id, 
-        BikeReservationStatus.CANCELLED
+    return {
+      // Nexi usa il nostro codTrans come riferimento del pagamento
+      providerPaymentId: input.orderId,
+      status: normalizePaymentStatus("nexi", "PENDING"),
+      live: true,
+      redirectUrl: `${NEXI_BASE_URL}/ecomm/ecomm/DispatcherServlet?${params.toString()}`,
+    };
+  },
+
+  async getStatus() {
+    // Awaiting Nexi API integration for status verification: l'esito arriva dalla notifica urlpost
+    return { status: normalizePaymentStatus("nexi", "PENDING"), rawStatus: "PENDING" };
+  },
+
+  async parseWebhook(request) {
+    const callback = Object.fromEntries(new URLSearchParams(request.rawBody));
+    console.log("Nexi payment callback received:", { codTrans: callback.codTrans, esito: callback.esito });
+
+    const macKey = process.env.NEXI_MAC_KEY;
+    if (macKey) {
+      const expected = computeMac(
+        `codTrans=${callback.codTrans}esito=${callback.esito}importo=${callback.importo}divisa=${callback.divisa}data=${callback.data}orario=${callback.orario}codAut=${callback.codAut}`,
+        macKey
       );
-
-      console.log(`Payment failed for bike reservation ${reservation.id}`);
-      
-      res.json({ 
-        success: false, 
-        message: "Payment failed - bike reservation cancelled",
-        orderId: orderId,
-        reservationId: reservation.id
-      });
+      if (expected !== callback.mac) {
+        throw new Error("Nexi callback MAC verification failed");
+      }
     }
 
-  } catch (error) {
-    console.error("Failed to handle Nexi callback:", error);
-    res.status(500).json({ error: "Failed to process payment callback." });
-  }
-}
-
-// Verify Nexi payment status
-export async function verifyNexiPayment(req: Request, res: Response) {
-  try {
-    const { orderId } = req.params;
-
-    // This will query Nexi API to verify payment status
-    // For now, return a placeholder response
-    res.json({
-      orderId: orderId,
-      status: "PENDING", // Will be AUTHORIZED, CAPTURED, FAILED, etc.
-      amount: 250,
-      currency: "EUR",
-      message: "Awaiting Nexi API integration for status verification"
-    });
-
-  } catch (error) {
-    console.error("Failed to verify Nexi payment:", error);
-    res.status(500).json({ error: "Failed to verify payment status." });
-  }
-}
\ No newline at end of file
+    if (!callback.codTrans) return [];
+    const rawStatus = callback.esito === "OK" ? "AUTHORIZED" : callback.esito === "ANNULLO" ? "CANCELED" : "DECLINED";
+    return [{
+      type: "payment",
+      providerPaymentId: callback.codTrans,
+      orderId: callback.codTrans,
+      status: normalizePaymentStatus("nexi", rawStatus),
+      rawStatus,
+    }];
+  },
+
+  async refund() {
+    // Storni da fare dal back office Nexi
+    return null;
+  },
+};
@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import { z } from "zod";
+import type { MailAddress, MailMessage } from "./types";
+
+/*
+ * Composizione di un messaggio MIME (RFC 5322 / 2045) per il file sink:
+ * testo e HTML come alternative, allegati in base64. Tutte le parti sono codificate in base64,
+ * quindi nessuna riga supera i 76 caratteri e il corpo non contiene mai un "." da solo su una riga.
+ */
+
+function base64Lines(content: Buffer): string {
+  return content.toString("base64").replace(/.{1,76}/g, "$&\r\n");
+}
+
+// Le intestazioni con caratteri non ASCII usano la codifica RFC 2047
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function quoteParam(value: string): string {
+  return `"${encodeHeader(value).replace(/["\\]/g, "\\$&")}"`;
+}
+
+export function formatAddress(address: MailAddress): string {
+  if (typeof address === "string") return address;
+  return address.name ? `${quoteParam(address.name)} <${address.email}>` : address.email;
+}
+
+export function addressEmail(address: MailAddress): string {
+  return typeof address === "string" ? address : address.email;
+}
+
+const emailSchema = z.string().email();
+
+/**
+ * Destinatari del messaggio, verificati prima di ogni invio: un indirizzo non valido o con un
+ * a capo (l'email dello studente è un campo libero) potrebbe aggiungere comandi SMTP o intestazioni
+ */
+export function mailRecipients(message: MailMessage): MailAddress[] {
+  const recipients = Array.isArray(message.to) ? message.to : [message.to];
+  if (recipients.length === 0) {
+    throw new Error("Email senza destinatari");
+  }
+  for (const recipient of recipients) {
+    const email = addressEmail(recipient);
+    const name = typeof recipient === "string" ? "" : recipient.name ?? "";
+    if (/[\r\n]/.test(email + name) || !emailSchema.safeParse(email).success) {
+      throw new Error(`Indirizzo email non valido: ${JSON.stringify(email)}`);
+    }
+  }
+  return recipients;
+}
+
+function boundary(): string {
+  return `=_elis_${crypto.randomBytes(12).toString("hex")}`;
+}
+
+function textPart(contentType: string, content: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(Buffer.from(content, "utf8")),
+  ].join("\r\n");
+}
+
+// Testo senza tag per i client che non mostrano l'HTML
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/h\d|\/li|\/tr|hr)[^>]*>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .split("\n")
+    .map(line => line.trim())
+    .filter((line, i, lines) => line !== "" || (i > 0 && lines[i - 1] !== ""))
+    .join("\n")
+    .trim();
+}
+
+/**
+ * Messaggio completo con intestazioni, pronto per il comando DATA o per un file .eml
+ */
+export function buildMimeMessage(message: MailMessage, from: MailAddress, date: Date = new Date()): string {
+  const recipients = mailRecipients(message);
+  const domain = addressEmail(from).split("@")[1] ?? "localhost";
+  const headers = [
+    `From: ${formatAddress(from)}`,
+    `To: ${recipients.map(formatAddress).join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  const alternativeBoundary = boundary();
+  const alternative = [
+    `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+    "",
+    `--${alternativeBoundary}`,
+    textPart("text/plain", message.text ?? htmlToText(message.html)),
+    `--${alternativeBoundary}`,
+    textPart("text/html", message.html),
+    `--${alternativeBoundary}--`,
+    "",
+  ].join("\r\n");
+
+  const attachments = message.attachments ?? [];
+  if (attachments.length === 0) {
+    return [...headers, alternative].join("\r\n");
+  }
+
+  const mixedBoundary = boundary();
+  const parts = [
+    `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+    "",
+    `--${mixedBoundary}`,
+    alternative,
+    ...attachments.flatMap(attachment => [
+      `--${mixedBoundary}`,
+      [
+        `Content-Type: ${attachment.contentType}; name=${quoteParam(attachment.filename)}`,
+        `Content-Disposition: attachment; filename=${quoteParam(attachment.filename)}`,
+        "Content-Transfer-Encoding: base64",
+        "",
+        base64Lines(attachment.content),
+      ].join("\r\n"),
+    ]),
+    `--${mixedBoundary}--`,
+    "",
+  ];
+  return [...headers, ...parts].join("\r\n");
+}
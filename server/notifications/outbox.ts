@@ -0,0 +1,122 @@
+import {
+  Notification,
+  NotificationKind,
+  NotificationKindValue,
+  NotificationLocale,
+  NotificationLocaleValue,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { buildPaymentReceiptPdf } from "./receiptPdf";
+import { notificationLocale, renderNotification, type NotificationPayloads, type PaymentCompletedPayload } from "./templates";
+import { sendMail } from "./transport";
+import type { MailMessage } from "./types";
+import { nextAttemptAt, staleLockCutoff, type FlowError } from "../utils/queue";
+
+let workerRunning = false;
+
+/**
+ * Mette in coda una notifica; l'invio avviene nel worker. Con la chiave di deduplica
+ * una notifica già in coda per lo stesso evento non viene aggiunta di nuovo.
+ */
+export async function enqueueNotification<K extends NotificationKindValue>(
+  kind: K,
+  recipient: string,
+  locale: NotificationLocaleValue,
+  payload: NotificationPayloads[K],
+  dedupeKey?: string
+): Promise<Notification | undefined> {
+  const notification = await storage.enqueueNotification({
+    kind,
+    recipient,
+    locale,
+    payload,
+    dedupeKey: dedupeKey ?? null,
+  });
+  if (!notification) {
+    console.log(`Notifica ${dedupeKey} già in coda, ignorata`);
+    return undefined;
+  }
+
+  setImmediate(() => {
+    processNotificationOutbox().catch(error => console.error("❌ Notification worker failed:", error));
+  });
+  return notification;
+}
+
+/**
+ * Email completa della notifica: testi nella lingua salvata ed eventuali allegati
+ */
+export function buildNotificationMessage(notification: Notification): MailMessage {
+  const kind = notification.kind as NotificationKindValue;
+  const locale = notificationLocale(notification.locale);
+  const payload = notification.payload as NotificationPayloads[typeof kind];
+  const { subject, html, text } = renderNotification(kind, locale, payload);
+  const message: MailMessage = { to: notification.recipient, subject, html, text };
+
+  if (kind === NotificationKind.PAYMENT_COMPLETED) {
+    const paymentPayload = payload as PaymentCompletedPayload;
+    message.attachments = [{
+      filename: `${locale === NotificationLocale.EN ? "receipt" : "ricevuta"}_${paymentPayload.orderId}.pdf`,
+      contentType: "application/pdf",
+      content: buildPaymentReceiptPdf(paymentPayload, locale),
+    }];
+  }
+  return message;
+}
+
+async function deliverNotification(notification: Notification): Promise<void> {
+  try {
+    await sendMail(buildNotificationMessage(notification));
+    await storage.completeNotification(notification.id);
+  } catch (error: any) {
+    console.error(`❌ Notifica ${notification.id} a ${notification.recipient} non inviata (tentativo ${notification.attempts}):`, error);
+    await storage.failNotification(notification.id, error.message ?? String(error), nextAttemptAt(notification.attempts));
+  }
+}
+
+/**
+ * Worker della outbox: invia le notifiche nuove e quelle da ritentare.
+ * Ogni notifica viene presa in carico con un aggiornamento condizionato, quindi parte una sola volta
+ * anche con più worker o istanze del server.
+ */
+export async function processNotificationOutbox(): Promise<number> {
+  if (workerRunning) return 0;
+  workerRunning = true;
+  let processed = 0;
+  try {
+    while (true) {
+      const staleBefore = staleLockCutoff();
+      const ids = await storage.getDueNotificationIds(staleBefore);
+      if (ids.length === 0) break;
+      for (const id of ids) {
+        const notification = await storage.claimNotification(id, staleBefore);
+        if (!notification) continue;
+        await deliverNotification(notification);
+        processed++;
+      }
+    }
+  } finally {
+    workerRunning = false;
+  }
+  return processed;
+}
+
+/**
+ * Nuovo invio dalla vista di amministrazione (es. dopo aver corretto la configurazione della posta)
+ */
+export async function retryNotification(id: number): Promise<Notification | FlowError> {
+  const existing = await storage.getNotification(id);
+  if (!existing) {
+    return { error: "Notifica non trovata", status: 404 };
+  }
+  const notification = await storage.resetNotification(id);
+  if (!notification) {
+    return { error: "La notifica è in invio, riprova tra poco", status: 409 };
+  }
+
+  const claimed = await storage.claimNotification(id, staleLockCutoff());
+  if (claimed) {
+    await deliverNotification(claimed);
+  }
+  return (await storage.getNotification(id))!;
+}
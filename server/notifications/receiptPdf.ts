@@ -0,0 +1,81 @@
+import { jsPDF } from "jspdf";
+import { NotificationLocale, NotificationLocaleValue } from "@shared/schema";
+import { formatEuros } from "@shared/money";
+import { formatNotificationDate, type PaymentCompletedPayload } from "./templates";
+
+const LABELS = {
+  [NotificationLocale.IT]: {
+    title: "Ricevuta di pagamento",
+    order: "Pagamento",
+    sigla: "Sigla",
+    date: "Data",
+    method: "Metodo",
+    services: "Servizi pagati",
+    total: "Totale",
+    footer: "Residenza ELIS - ricevuta generata automaticamente",
+  },
+  [NotificationLocale.EN]: {
+    title: "Payment receipt",
+    order: "Payment",
+    sigla: "Student ID",
+    date: "Date",
+    method: "Method",
+    services: "Services paid",
+    total: "Total",
+    footer: "ELIS Residence - automatically generated receipt",
+  },
+};
+
+/**
+ * Ricevuta PDF allegata alla notifica di pagamento completato, con le quote sui servizi
+ */
+export function buildPaymentReceiptPdf(payload: PaymentCompletedPayload, locale: NotificationLocaleValue): Buffer {
+  const labels = LABELS[locale];
+  const doc = new jsPDF("p", "mm", "a4");
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let yPosition = 20;
+
+  doc.setFontSize(20);
+  doc.setTextColor(0, 123, 255);
+  doc.text(labels.title, pageWidth / 2, yPosition, { align: "center" });
+  yPosition += 15;
+
+  doc.setFontSize(12);
+  doc.setTextColor(0, 0, 0);
+  const details = [
+    [labels.order, payload.orderId],
+    [labels.sigla, payload.sigla],
+    [labels.date, formatNotificationDate(payload.paymentDate, locale)],
+    [labels.method, payload.paymentMethod],
+  ];
+  for (const [label, value] of details) {
+    doc.text(`${label}: ${value}`, 20, yPosition);
+    yPosition += 8;
+  }
+  yPosition += 6;
+
+  if (payload.items.length > 0) {
+    doc.setFontSize(14);
+    doc.setTextColor(0, 123, 255);
+    doc.text(labels.services, 20, yPosition);
+    yPosition += 10;
+
+    doc.setFontSize(11);
+    doc.setTextColor(0, 0, 0);
+    for (const item of payload.items) {
+      doc.text(`${formatNotificationDate(item.date, locale)}  ${item.label}`, 20, yPosition);
+      doc.text(formatEuros(item.amount), pageWidth - 20, yPosition, { align: "right" });
+      yPosition += 7;
+    }
+    yPosition += 4;
+  }
+
+  doc.setFontSize(14);
+  doc.text(`${labels.total}: ${formatEuros(payload.amount)}`, pageWidth - 20, yPosition, { align: "right" });
+
+  doc.setFontSize(9);
+  doc.setTextColor(102, 102, 102);
+  doc.text(labels.footer, pageWidth / 2, doc.internal.pageSize.getHeight() - 15, { align: "center" });
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
@@ -0,0 +1,310 @@
+import {
+  BikeReservationStatus,
+  MaintenanceRequestStatus,
+  NotificationKind,
+  NotificationKindValue,
+  NotificationLocale,
+  NotificationLocaleValue,
+} from "@shared/schema";
+import { formatEuros } from "@shared/money";
+import { htmlToText } from "./mime";
+
+/*
+ * Testi delle notifiche in italiano e inglese. I dati arrivano dal payload salvato nella
+ * outbox al momento dell'evento, quindi un nuovo tentativo invia sempre lo stesso messaggio.
+ */
+
+// Quota di un pagamento attribuita a un servizio
+export interface PaymentReceiptItem {
+  label: string;
+  date: string; // ISO
+  amount: number;
+}
+
+export interface PaymentCompletedPayload {
+  firstName: string;
+  sigla: string;
+  orderId: string;
+  amount: number;
+  paymentMethod: string;
+  paymentDate: string; // ISO
+  items: PaymentReceiptItem[];
+}
+
+export interface MaintenanceStatusPayload {
+  requestId: number;
+  name: string;
+  status: string;
+  place: string;
+  details: string;
+}
+
+export interface UnpaidServicesPayload {
+  firstName: string;
+  sigla: string;
+  totalOutstanding: number;
+  threshold: number;
+  services: { label: string; date: string; outstanding: number }[];
+  portalUrl: string;
+}
+
+export interface PaymentReminderPayload {
+  firstName: string;
+  sigla: string;
+  level: number; // Numero del sollecito per lo stesso dovuto
+  escalated: boolean; // Ultimo avviso prima dell'intervento della segreteria
+  totalOutstanding: number;
+  services: { label: string; date: string; outstanding: number }[];
+  paymentUrl: string;
+}
+
+export interface BikeReservationStatusPayload {
+  orderId: string;
+  customerName: string;
+  sigla: string;
+  amount: number;
+  status: string;
+  note?: string;
+}
+
+export interface NotificationPayloads {
+  [NotificationKind.PAYMENT_COMPLETED]: PaymentCompletedPayload;
+  [NotificationKind.MAINTENANCE_STATUS]: MaintenanceStatusPayload;
+  [NotificationKind.UNPAID_SERVICES]: UnpaidServicesPayload;
+  [NotificationKind.BIKE_RESERVATION_STATUS]: BikeReservationStatusPayload;
+  [NotificationKind.PAYMENT_REMINDER]: PaymentReminderPayload;
+}
+
+export interface RenderedNotification {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+type Texts = Record<NotificationLocaleValue, string>;
+
+const MAINTENANCE_STATUS_LABELS: Record<string, Texts> = {
+  [MaintenanceRequestStatus.PENDING]: { it: "In attesa", en: "Pending" },
+  [MaintenanceRequestStatus.IN_PROGRESS]: { it: "In lavorazione", en: "In progress" },
+  [MaintenanceRequestStatus.COMPLETED]: { it: "Risolta", en: "Resolved" },
+  [MaintenanceRequestStatus.REJECTED]: { it: "Respinta", en: "Rejected" },
+  [MaintenanceRequestStatus.CANCELLED]: { it: "Annullata", en: "Cancelled" },
+};
+
+const BIKE_STATUS_LABELS: Record<string, Texts> = {
+  [BikeReservationStatus.PENDING_PAYMENT]: { it: "In attesa di pagamento", en: "Awaiting payment" },
+  [BikeReservationStatus.PAID]: { it: "Pagata", en: "Paid" },
+  [BikeReservationStatus.APPROVED]: { it: "Approvata", en: "Approved" },
+  [BikeReservationStatus.REJECTED]: { it: "Rifiutata", en: "Rejected" },
+  [BikeReservationStatus.COMPLETED]: { it: "Completata", en: "Completed" },
+  [BikeReservationStatus.CANCELLED]: { it: "Annullata", en: "Cancelled" },
+};
+
+const BIKE_STATUS_MESSAGES: Record<string, Texts> = {
+  [BikeReservationStatus.PENDING_PAYMENT]: {
+    it: "La tua prenotazione è stata registrata ed è in attesa del pagamento.",
+    en: "Your reservation has been registered and is awaiting payment.",
+  },
+  [BikeReservationStatus.PAID]: {
+    it: "Abbiamo ricevuto il pagamento: la prenotazione è ora in attesa di approvazione da parte della segreteria.",
+    en: "We have received your payment: the reservation is now waiting for the secretariat's approval.",
+  },
+  [BikeReservationStatus.APPROVED]: {
+    it: "La tua prenotazione è stata approvata. Puoi ritirare la bici in segreteria.",
+    en: "Your reservation has been approved. You can pick up the bike at the secretariat.",
+  },
+  [BikeReservationStatus.REJECTED]: {
+    it: "Purtroppo la tua prenotazione non è stata approvata. Contatta la segreteria per il rimborso.",
+    en: "Unfortunately your reservation was not approved. Please contact the secretariat for a refund.",
+  },
+  [BikeReservationStatus.COMPLETED]: {
+    it: "La bici è stata riconsegnata e la prenotazione è chiusa. Grazie!",
+    en: "The bike has been returned and the reservation is closed. Thank you!",
+  },
+  [BikeReservationStatus.CANCELLED]: {
+    it: "La tua prenotazione è stata annullata.",
+    en: "Your reservation has been cancelled.",
+  },
+};
+
+const FOOTER: Texts = {
+  it: "Sistema ELIS - Amministrazione Residenza",
+  en: "ELIS System - Residence Administration",
+};
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Lingua supportata più vicina a quella dello studente (italiano se sconosciuta)
+export function notificationLocale(locale: string | null | undefined): NotificationLocaleValue {
+  return locale === NotificationLocale.EN ? NotificationLocale.EN : NotificationLocale.IT;
+}
+
+export function formatNotificationDate(value: string, locale: NotificationLocaleValue): string {
+  return new Date(value).toLocaleDateString(locale === NotificationLocale.EN ? "en-GB" : "it-IT", { timeZone: "Europe/Rome" });
+}
+
+function layout(title: string, body: string, locale: NotificationLocaleValue): string {
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #007bff;">${title}</h2>
+      ${body}
+      <hr style="margin: 20px 0;">
+      <p style="color: #666; font-size: 12px;">${FOOTER[locale]}</p>
+    </div>
+    `;
+}
+
+function paymentCompleted(payload: PaymentCompletedPayload, locale: NotificationLocaleValue) {
+  const en = locale === NotificationLocale.EN;
+  const rows = payload.items
+    .map(item => `<li>${escapeHtml(item.label)} (${formatNotificationDate(item.date, locale)}): <strong>${formatEuros(item.amount)}</strong></li>`)
+    .join("");
+  const title = en ? "Payment received" : "Pagamento ricevuto";
+  return {
+    subject: en
+      ? `Payment ${payload.orderId} received - ${formatEuros(payload.amount)}`
+      : `Pagamento ${payload.orderId} ricevuto - ${formatEuros(payload.amount)}`,
+    html: layout(title, `
+      <p>${en ? "Hi" : "Ciao"} ${escapeHtml(payload.firstName)},</p>
+      <p>${en
+        ? `we have received your payment of <strong>${formatEuros(payload.amount)}</strong> on ${formatNotificationDate(payload.paymentDate, locale)}.`
+        : `abbiamo ricevuto il tuo pagamento di <strong>${formatEuros(payload.amount)}</strong> del ${formatNotificationDate(payload.paymentDate, locale)}.`}</p>
+      ${rows ? `<p>${en ? "Services paid:" : "Servizi pagati:"}</p><ul>${rows}</ul>` : ""}
+      <p>${en ? "The receipt is attached to this email." : "In allegato trovi la ricevuta."}</p>
+    `, locale),
+  };
+}
+
+function maintenanceStatus(payload: MaintenanceStatusPayload, locale: NotificationLocaleValue) {
+  const en = locale === NotificationLocale.EN;
+  const label = MAINTENANCE_STATUS_LABELS[payload.status]?.[locale] ?? payload.status;
+  const title = en ? `Maintenance request - ${label}` : `Segnalazione di manutenzione - ${label}`;
+  return {
+    subject: en
+      ? `Maintenance request #${payload.requestId} - ${label}`
+      : `Segnalazione #${payload.requestId} - ${label}`,
+    html: layout(title, `
+      <p>${en ? "Hi" : "Ciao"} ${escapeHtml(payload.name)},</p>
+      <p>${en
+        ? `the status of your maintenance request is now <strong>${label}</strong>.`
+        : `la tua segnalazione di manutenzione è ora nello stato <strong>${label}</strong>.`}</p>
+      <ul>
+        ${payload.place ? `<li>${en ? "Place" : "Luogo"}: <strong>${escapeHtml(payload.place)}</strong></li>` : ""}
+        ${payload.details ? `<li>${en ? "Problem" : "Problema"}: ${escapeHtml(payload.details)}</li>` : ""}
+      </ul>
+    `, locale),
+  };
+}
+
+function unpaidServices(payload: UnpaidServicesPayload, locale: NotificationLocaleValue) {
+  const en = locale === NotificationLocale.EN;
+  const rows = payload.services
+    .map(service => `<li>${escapeHtml(service.label)} (${formatNotificationDate(service.date, locale)}): <strong>${formatEuros(service.outstanding)}</strong></li>`)
+    .join("");
+  const title = en ? "Services to be paid" : "Servizi da pagare";
+  return {
+    subject: en
+      ? `Outstanding balance ${formatEuros(payload.totalOutstanding)} - ${payload.sigla}`
+      : `Servizi da pagare per ${formatEuros(payload.totalOutstanding)} - ${payload.sigla}`,
+    html: layout(title, `
+      <p>${en ? "Hi" : "Ciao"} ${escapeHtml(payload.firstName)},</p>
+      <p>${en
+        ? `the unpaid services of <strong>${escapeHtml(payload.sigla)}</strong> now amount to <strong>${formatEuros(payload.totalOutstanding)}</strong>:`
+        : `i servizi non ancora pagati della sigla <strong>${escapeHtml(payload.sigla)}</strong> ammontano ora a <strong>${formatEuros(payload.totalOutstanding)}</strong>:`}</p>
+      <ul>${rows}</ul>
+      <p><a href="${escapeHtml(payload.portalUrl)}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">${en ? "Pay online" : "Paga online"}</a></p>
+    `, locale),
+  };
+}
+
+function paymentReminder(payload: PaymentReminderPayload, locale: NotificationLocaleValue) {
+  const en = locale === NotificationLocale.EN;
+  const rows = payload.services
+    .map(service => `<li>${escapeHtml(service.label)} (${formatNotificationDate(service.date, locale)}): <strong>${formatEuros(service.outstanding)}</strong></li>`)
+    .join("");
+  const title = payload.escalated
+    ? (en ? "Final payment reminder" : "Ultimo sollecito di pagamento")
+    : (en ? "Payment reminder" : "Promemoria di pagamento");
+  const intro = payload.escalated
+    ? (en
+      ? `despite our previous reminders, the following services of <strong>${escapeHtml(payload.sigla)}</strong> are still unpaid, for a total of <strong>${formatEuros(payload.totalOutstanding)}</strong>. Please pay them as soon as possible: otherwise the secretariat will contact you.`
+      : `nonostante i precedenti promemoria, i seguenti servizi della sigla <strong>${escapeHtml(payload.sigla)}</strong> risultano ancora da pagare, per un totale di <strong>${formatEuros(payload.totalOutstanding)}</strong>. Ti chiediamo di saldarli al più presto: in caso contrario verrai contattato dalla segreteria.`)
+    : (en
+      ? `the following services of <strong>${escapeHtml(payload.sigla)}</strong> have not been paid yet, for a total of <strong>${formatEuros(payload.totalOutstanding)}</strong>:`
+      : `i seguenti servizi della sigla <strong>${escapeHtml(payload.sigla)}</strong> non sono ancora stati pagati, per un totale di <strong>${formatEuros(payload.totalOutstanding)}</strong>:`);
+  return {
+    subject: payload.escalated
+      ? (en ? `Final reminder: ${formatEuros(payload.totalOutstanding)} to pay - ${payload.sigla}` : `Ultimo sollecito: ${formatEuros(payload.totalOutstanding)} da pagare - ${payload.sigla}`)
+      : (en ? `Reminder: ${formatEuros(payload.totalOutstanding)} to pay - ${payload.sigla}` : `Promemoria: ${formatEuros(payload.totalOutstanding)} da pagare - ${payload.sigla}`),
+    html: layout(title, `
+      <p>${en ? "Hi" : "Ciao"} ${escapeHtml(payload.firstName)},</p>
+      <p>${intro}</p>
+      <ul>${rows}</ul>
+      <p><a href="${escapeHtml(payload.paymentUrl)}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">${en ? "Pay now" : "Paga ora"}</a></p>
+      <p style="color: #666; font-size: 12px;">${en
+        ? "If you have already paid, please ignore this email. To stop receiving these reminders, contact the secretariat."
+        : "Se hai già pagato, ignora questa email. Per non ricevere più questi promemoria, contatta la segreteria."}</p>
+    `, locale),
+  };
+}
+
+function bikeReservationStatus(payload: BikeReservationStatusPayload, locale: NotificationLocaleValue) {
+  const en = locale === NotificationLocale.EN;
+  const label = BIKE_STATUS_LABELS[payload.status]?.[locale] ?? payload.status;
+  const noteHtml = payload.note
+    ? `<p><strong>${en ? "Note from the secretariat" : "Nota della segreteria"}:</strong> ${escapeHtml(payload.note)}</p>`
+    : "";
+  return {
+    subject: en
+      ? `Bike reservation ${payload.orderId} - ${label}`
+      : `Prenotazione bici ${payload.orderId} - ${label}`,
+    html: layout(en ? `Bike reservation - ${label}` : `Prenotazione bici - ${label}`, `
+      <p>${en ? "Hi" : "Ciao"} ${escapeHtml(payload.customerName)},</p>
+      <p>${BIKE_STATUS_MESSAGES[payload.status]?.[locale] ?? ""}</p>
+      ${noteHtml}
+      <ul>
+        <li>${en ? "Reservation" : "Prenotazione"}: <strong>${escapeHtml(payload.orderId)}</strong></li>
+        <li>${en ? "Student ID" : "Sigla"}: <strong>${escapeHtml(payload.sigla)}</strong></li>
+        <li>${en ? "Amount" : "Importo"}: <strong>${formatEuros(payload.amount)}</strong></li>
+      </ul>
+    `, locale),
+  };
+}
+
+/**
+ * Oggetto e corpo (HTML e testo) della notifica nella lingua indicata
+ */
+export function renderNotification<K extends NotificationKindValue>(
+  kind: K,
+  locale: string,
+  payload: NotificationPayloads[K]
+): RenderedNotification {
+  const lang = notificationLocale(locale);
+  let rendered: { subject: string; html: string };
+  switch (kind) {
+    case NotificationKind.PAYMENT_COMPLETED:
+      rendered = paymentCompleted(payload as PaymentCompletedPayload, lang);
+      break;
+    case NotificationKind.MAINTENANCE_STATUS:
+      rendered = maintenanceStatus(payload as MaintenanceStatusPayload, lang);
+      break;
+    case NotificationKind.UNPAID_SERVICES:
+      rendered = unpaidServices(payload as UnpaidServicesPayload, lang);
+      break;
+    case NotificationKind.BIKE_RESERVATION_STATUS:
+      rendered = bikeReservationStatus(payload as BikeReservationStatusPayload, lang);
+      break;
+    case NotificationKind.PAYMENT_REMINDER:
+      rendered = paymentReminder(payload as PaymentReminderPayload, lang);
+      break;
+    default:
+      throw new Error(`Tipo di notifica sconosciuto: ${kind}`);
+  }
+  return { ...rendered, text: htmlToText(rendered.html) };
+}
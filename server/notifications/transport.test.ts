@@ -0,0 +1,175 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { createFileTransport, createSmtpTransport, MAIL_FROM, type SmtpConfig } from "./transport";
+import { addressEmail, buildMimeMessage } from "./mime";
+import type { MailMessage } from "./types";
+
+interface FakeSmtpServer {
+  config: SmtpConfig;
+  commands: string[];
+  messages: string[];
+  close(): Promise<void>;
+}
+
+// Server SMTP minimo: risponde ai comandi e registra i messaggi ricevuti; rejectRcpt simula un destinatario rifiutato
+async function startFakeSmtpServer(rejectRcpt = false): Promise<FakeSmtpServer> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = "";
+    let data: string | null = null;
+    socket.write("220 fake.smtp ESMTP\r\n");
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf8");
+      let newline: number;
+      while ((newline = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        if (data !== null) {
+          if (line === ".") {
+            messages.push(data);
+            data = null;
+            socket.write("250 queued\r\n");
+          } else {
+            data += `${line}\r\n`;
+          }
+          continue;
+        }
+        commands.push(line);
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") socket.write("250-fake.smtp\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n");
+        else if (verb === "AUTH") socket.write("235 ok\r\n");
+        else if (verb === "MAIL") socket.write("250 ok\r\n");
+        else if (verb === "RCPT") socket.write(rejectRcpt ? "550 no such user\r\n" : "250 ok\r\n");
+        else if (verb === "DATA") { data = ""; socket.write("354 go ahead\r\n"); }
+        else if (verb === "QUIT") { socket.write("221 bye\r\n"); socket.end(); }
+        else socket.write("502 unknown\r\n");
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    config: { host: "127.0.0.1", port, secure: false, timeoutMs: 5_000 },
+    commands,
+    messages,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+// Corpo della parte indicata, decodificato dal base64
+function decodePart(raw: string, contentType: string): string {
+  const start = raw.indexOf(`Content-Type: ${contentType}`);
+  const body = raw.slice(raw.indexOf("\r\n\r\n", start) + 4, raw.indexOf("\r\n--", start));
+  return Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8");
+}
+
+const message: MailMessage = {
+  to: { email: "ab12@student.elis.org", name: "Mario Rossi" },
+  subject: "Pagamento ricevuto - €42.50",
+  html: "<p>Ciao Mario,</p><p>.riga che inizia con un punto</p>",
+  attachments: [{ filename: "ricevuta.pdf", contentType: "application/pdf", content: Buffer.from("%PDF-1.3 test") }],
+};
+
+describe("createSmtpTransport", () => {
+  let server: FakeSmtpServer;
+
+  before(async () => {
+    server = await startFakeSmtpServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("delivers the message with the attachment to every recipient", async () => {
+    await createSmtpTransport(server.config).send(message);
+
+    assert.ok(server.commands.some(command => command.startsWith(`MAIL FROM:<${addressEmail(MAIL_FROM)}>`)));
+    assert.ok(server.commands.includes("RCPT TO:<ab12@student.elis.org>"));
+    const [raw] = server.messages;
+    assert.match(raw, /\r\nTo: Mario Rossi <ab12@student\.elis\.org>\r\n/);
+    assert.match(raw, /filename=ricevuta\.pdf/);
+    assert.ok(raw.includes(Buffer.from("%PDF-1.3 test").toString("base64")));
+  });
+
+  it("never sends the credentials over a connection without TLS", async () => {
+    const plain = await startFakeSmtpServer();
+    try {
+      await assert.rejects(createSmtpTransport({ ...plain.config, user: "elis", password: "secret" }).send(message));
+      assert.ok(!plain.commands.some(command => command.toUpperCase().startsWith("AUTH")));
+      assert.equal(plain.messages.length, 0);
+    } finally {
+      await plain.close();
+    }
+  });
+
+  it("fails when the server rejects a recipient, so the outbox retries", async () => {
+    const rejecting = await startFakeSmtpServer(true);
+    try {
+      await assert.rejects(createSmtpTransport(rejecting.config).send(message));
+      assert.equal(rejecting.messages.length, 0);
+    } finally {
+      await rejecting.close();
+    }
+  });
+
+  it("refuses recipients that could inject SMTP commands or headers", async () => {
+    const injecting = await startFakeSmtpServer();
+    try {
+      const transport = createSmtpTransport(injecting.config);
+      for (const to of ["ab12@student.elis.org>\r\nRCPT TO:<other@example.org", "ab12@student.elis.org\nBcc: other@example.org", "non un indirizzo"]) {
+        await assert.rejects(transport.send({ ...message, to }), /Indirizzo email non valido/);
+      }
+      await assert.rejects(
+        transport.send({ ...message, to: { email: "ab12@student.elis.org", name: "Mario\r\nBcc: other@example.org" } }),
+        /Indirizzo email non valido/
+      );
+      assert.deepEqual(injecting.commands, []);
+    } finally {
+      await injecting.close();
+    }
+  });
+});
+
+describe("buildMimeMessage", () => {
+  it("encodes the headers and every part of the message", () => {
+    const raw = buildMimeMessage(message, { email: "noreply@elis.org", name: "Sistema ELIS" });
+    assert.match(raw, /^From: "Sistema ELIS" <noreply@elis\.org>\r\n/);
+    assert.match(raw, /\r\nSubject: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=\r\n/);
+    assert.equal(decodePart(raw, "text/html"), message.html);
+    assert.match(decodePart(raw, "text/plain"), /Ciao Mario,\n\.riga che inizia con un punto/);
+    assert.equal(decodePart(raw, "application/pdf"), "%PDF-1.3 test");
+    assert.match(raw, /Content-Disposition: attachment; filename="ricevuta\.pdf"/);
+  });
+});
+
+describe("createFileTransport", () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mail-"));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("writes one .eml file per message", async () => {
+    const transport = createFileTransport(dir);
+    await transport.send(message);
+    await transport.send({ ...message, attachments: undefined });
+
+    const files = fs.readdirSync(dir);
+    assert.equal(files.length, 2);
+    assert.ok(files.every(file => file.endsWith(".eml")));
+    const contents = files.map(file => fs.readFileSync(path.join(dir, file), "utf8"));
+    assert.equal(contents.filter(content => content.includes("multipart/mixed")).length, 1);
+    assert.ok(contents.every(content => content.includes('To: "Mario Rossi" <ab12@student.elis.org>')));
+  });
+});
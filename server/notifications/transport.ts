@@ -0,0 +1,164 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import sgMail from "@sendgrid/mail";
+import nodemailer from "nodemailer";
+import { addressEmail, buildMimeMessage, htmlToText, mailRecipients } from "./mime";
+import type { MailAddress, MailMessage, MailTransport } from "./types";
+
+/*
+ * Scelta del canale di invio con MAIL_TRANSPORT (sendgrid, smtp, file). Senza configurazione
+ * si usa SendGrid se c'è la chiave, SMTP se c'è SMTP_HOST, altrimenti fuori produzione le email
+ * finiscono come file .eml in MAIL_FILE_DIR: in locale si leggono senza alcun servizio esterno.
+ */
+
+export const MAIL_FROM: MailAddress = {
+  email: process.env.MAIL_FROM_ADDRESS || "noreply@replit.dev",
+  name: process.env.MAIL_FROM_NAME || "Sistema ELIS",
+};
+
+const DEFAULT_FILE_DIR = "mail-outbox";
+const DEFAULT_SMTP_TIMEOUT_MS = 30_000;
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS dalla connessione (porta 465); altrimenti STARTTLS se il server lo offre
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+  rejectUnauthorized?: boolean;
+}
+
+let sendgridKey: string | undefined;
+
+export function createSendgridTransport(apiKey: string): MailTransport {
+  return {
+    name: "sendgrid",
+    async send(message) {
+      if (sendgridKey !== apiKey) {
+        sgMail.setApiKey(apiKey);
+        sendgridKey = apiKey;
+      }
+      const from = typeof MAIL_FROM === "string" ? { email: MAIL_FROM } : MAIL_FROM;
+      const to = mailRecipients(message)
+        .map(address => typeof address === "string" ? address : { email: address.email, name: address.name });
+      await sgMail.send({
+        to,
+        from,
+        subject: message.subject,
+        html: message.html,
+        ...(message.text ? { text: message.text } : {}),
+        attachments: message.attachments?.map(attachment => ({
+          content: attachment.content.toString("base64"),
+          filename: attachment.filename,
+          type: attachment.contentType,
+          disposition: "attachment",
+        })),
+      }, Array.isArray(message.to));
+    },
+  };
+}
+
+function nodemailerAddress(address: MailAddress) {
+  return typeof address === "string" ? address : { address: addressEmail(address), name: address.name ?? "" };
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS;
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    // Le credenziali non viaggiano mai in chiaro: senza TLS implicito il server deve offrire STARTTLS
+    requireTLS: !config.secure && !!config.user,
+    auth: config.user ? { user: config.user, pass: config.password ?? "" } : undefined,
+    connectionTimeout: timeoutMs,
+    greetingTimeout: timeoutMs,
+    socketTimeout: timeoutMs,
+    tls: { rejectUnauthorized: config.rejectUnauthorized ?? true },
+  });
+  return {
+    name: "smtp",
+    async send(message) {
+      // sendMail fallisce se il server rifiuta il messaggio o i destinatari: la outbox lo ritenterà
+      await transporter.sendMail({
+        from: nodemailerAddress(MAIL_FROM),
+        to: mailRecipients(message).map(nodemailerAddress),
+        subject: message.subject,
+        html: message.html,
+        text: message.text ?? htmlToText(message.html),
+        attachments: message.attachments?.map(attachment => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          content: attachment.content,
+        })),
+      });
+    },
+  };
+}
+
+// Un file .eml per messaggio, apribile con qualunque client di posta
+export function createFileTransport(dir: string): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const file = path.join(dir, `${stamp}_${crypto.randomBytes(4).toString("hex")}.eml`);
+      await fs.promises.writeFile(file, buildMimeMessage(message, MAIL_FROM));
+      console.log(`📧 Email "${message.subject}" salvata in ${file}`);
+    },
+  };
+}
+
+function smtpConfigFromEnv(): SmtpConfig {
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host: process.env.SMTP_HOST || "localhost",
+    port: parseInt(process.env.SMTP_PORT || (secure ? "465" : "587"), 10),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== "false",
+  };
+}
+
+function transportNameFromEnv(): string {
+  if (process.env.MAIL_TRANSPORT) return process.env.MAIL_TRANSPORT;
+  if (process.env.SENDGRID_API_KEY) return "sendgrid";
+  if (process.env.SMTP_HOST) return "smtp";
+  // In produzione le email non finiscono su disco se nessuno lo ha chiesto
+  return process.env.NODE_ENV === "production" ? "none" : "file";
+}
+
+// Vero se un canale di invio è stato configurato esplicitamente (non il file sink di ripiego)
+export function isMailConfigured(): boolean {
+  return Boolean(process.env.MAIL_TRANSPORT || process.env.SENDGRID_API_KEY || process.env.SMTP_HOST);
+}
+
+/**
+ * Canale di invio configurato dalle variabili d'ambiente, letto a ogni invio
+ */
+export function getMailTransport(): MailTransport {
+  const name = transportNameFromEnv();
+  switch (name) {
+    case "sendgrid":
+      if (!process.env.SENDGRID_API_KEY) {
+        throw new Error("MAIL_TRANSPORT=sendgrid ma SENDGRID_API_KEY non è configurata");
+      }
+      return createSendgridTransport(process.env.SENDGRID_API_KEY);
+    case "smtp":
+      return createSmtpTransport(smtpConfigFromEnv());
+    case "file":
+      return createFileTransport(path.resolve(process.env.MAIL_FILE_DIR || DEFAULT_FILE_DIR));
+    case "none":
+      throw new Error("Invio email non configurato: imposta MAIL_TRANSPORT, SENDGRID_API_KEY o SMTP_HOST");
+    default:
+      throw new Error(`MAIL_TRANSPORT sconosciuto: ${name}`);
+  }
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
@@ -0,0 +1,156 @@
+import {
+  BikeReservation,
+  MaintenanceRequest,
+  NotificationKind,
+  NotificationLocale,
+  NotificationLocaleValue,
+  SecretariatPayment,
+  Service,
+  ServiceCatalogItem,
+  Student,
+} from "@shared/schema";
+import { sumEuros } from "@shared/money";
+import { storage } from "../storage";
+import { enqueueNotification } from "./outbox";
+import { notificationLocale, type PaymentReceiptItem } from "./templates";
+
+/*
+ * Eventi del gestionale che producono una notifica allo studente. Il payload è una copia dei dati
+ * al momento dell'evento; un errore nella messa in coda viene registrato ma non annulla
+ * l'operazione che l'ha generato.
+ */
+
+// Soglia predefinita del dovuto oltre la quale lo studente riceve l'avviso (EUR)
+const DEFAULT_UNPAID_THRESHOLD = 50;
+
+export function unpaidNotificationThreshold(): number {
+  const value = Number(process.env.UNPAID_NOTIFICATION_THRESHOLD ?? DEFAULT_UNPAID_THRESHOLD);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_UNPAID_THRESHOLD;
+}
+
+async function studentOf(sigla: string | null | undefined): Promise<Student | undefined> {
+  return sigla ? storage.getStudentBySigla(sigla) : undefined;
+}
+
+// Nome del servizio dal catalogo nella lingua della notifica
+export function serviceLabel(catalog: ServiceCatalogItem[], type: string | null, locale: NotificationLocaleValue): string {
+  const item = catalog.find(entry => entry.code === type);
+  if (!item) return type ?? "";
+  return locale === NotificationLocale.EN ? item.labelEn : item.labelIt;
+}
+
+async function safely(description: string, task: () => Promise<unknown>): Promise<void> {
+  try {
+    await task();
+  } catch (error) {
+    console.error(`❌ Notifica "${description}" non messa in coda:`, error);
+  }
+}
+
+/**
+ * Pagamento completato: ricevuta con le quote attribuite ai servizi, una sola volta per pagamento
+ */
+export function notifyPaymentCompleted(payment: SecretariatPayment): Promise<void> {
+  return safely(`pagamento ${payment.orderId}`, async () => {
+    const student = await studentOf(payment.sigla);
+    const recipient = payment.customerEmail || student?.email;
+    if (!recipient) return;
+
+    const locale = notificationLocale(student?.locale);
+    const [allocations, catalog] = await Promise.all([
+      storage.getPaymentAllocations(payment.id),
+      storage.getServiceCatalog(true),
+    ]);
+    const items: PaymentReceiptItem[] = [];
+    for (const allocation of allocations) {
+      const service = await storage.getService(allocation.serviceId);
+      items.push({
+        label: serviceLabel(catalog, service?.type ?? null, locale),
+        date: (service?.date ?? allocation.createdAt).toISOString(),
+        amount: allocation.amount,
+      });
+    }
+
+    await enqueueNotification(NotificationKind.PAYMENT_COMPLETED, recipient, locale, {
+      firstName: student?.firstName ?? payment.customerName,
+      sigla: payment.sigla,
+      orderId: payment.orderId,
+      amount: payment.amount,
+      paymentMethod: payment.paymentMethod,
+      paymentDate: (payment.paymentDate ?? new Date()).toISOString(),
+      items,
+    }, `payment_completed:${payment.id}`);
+  });
+}
+
+/**
+ * Nuovo stato di una segnalazione di manutenzione, a chi l'ha inviata
+ */
+export function notifyMaintenanceStatus(request: MaintenanceRequest): Promise<void> {
+  return safely(`segnalazione ${request.id}`, async () => {
+    const student = await studentOf(request.sigla);
+    const recipient = request.requesterEmail || student?.email;
+    if (!recipient) return;
+
+    await enqueueNotification(NotificationKind.MAINTENANCE_STATUS, recipient, notificationLocale(student?.locale), {
+      requestId: request.id,
+      name: student?.firstName ?? request.requesterName ?? "",
+      status: request.status,
+      place: [request.place ?? request.location, request.specificLocation ?? request.roomNumber].filter(Boolean).join(" - "),
+      details: request.defectDetails ?? request.description ?? "",
+    });
+  });
+}
+
+/**
+ * Avviso quando un nuovo servizio porta il dovuto della sigla oltre la soglia
+ * (una volta per superamento: sotto la soglia dopo un pagamento, il prossimo superamento avvisa di nuovo)
+ */
+export function notifyUnpaidServices(service: Service, baseUrl: string): Promise<void> {
+  return safely(`servizi da pagare ${service.sigla}`, async () => {
+    const threshold = unpaidNotificationThreshold();
+    if (threshold <= 0) return;
+
+    const student = await studentOf(service.sigla);
+    if (!student?.email) return;
+
+    const outstanding = await storage.getOutstandingServices(service.sigla);
+    const total = sumEuros(outstanding.map(row => row.outstanding));
+    const added = outstanding.find(row => row.id === service.id)?.outstanding ?? 0;
+    if (total < threshold || sumEuros([total, -added]) >= threshold) return;
+
+    const locale = notificationLocale(student.locale);
+    const catalog = await storage.getServiceCatalog(true);
+    await enqueueNotification(NotificationKind.UNPAID_SERVICES, student.email, locale, {
+      firstName: student.firstName,
+      sigla: student.sigla,
+      totalOutstanding: total,
+      threshold,
+      services: outstanding.map(row => ({
+        label: serviceLabel(catalog, row.type, locale),
+        date: row.date.toISOString(),
+        outstanding: row.outstanding,
+      })),
+      portalUrl: `${baseUrl}/portal`,
+    }, `unpaid_services:${service.sigla}:${service.id}`);
+  });
+}
+
+/**
+ * Nuovo stato di una prenotazione bici (registrata, pagata, approvata, ...)
+ */
+export function notifyBikeReservationStatus(reservation: BikeReservation, note?: string): Promise<void> {
+  return safely(`prenotazione bici ${reservation.orderId}`, async () => {
+    if (!reservation.customerEmail) return;
+    const student = await studentOf(reservation.sigla);
+
+    await enqueueNotification(NotificationKind.BIKE_RESERVATION_STATUS, reservation.customerEmail, notificationLocale(student?.locale), {
+      orderId: reservation.orderId,
+      customerName: reservation.customerName,
+      sigla: reservation.sigla,
+      amount: reservation.amount,
+      status: reservation.status,
+      ...(note ? { note } : {}),
+    }, `bike_reservation:${reservation.id}:${reservation.status}`);
+  });
+}
@@ -0,0 +1,25 @@
+// Indirizzo semplice ("a@b.it") oppure con il nome da mostrare
+export type MailAddress = string | { email: string; name?: string };
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailMessage {
+  to: MailAddress | MailAddress[];
+  subject: string;
+  html: string;
+  text?: string; // Ricavato dall'HTML se assente
+  attachments?: MailAttachment[];
+}
+
+/**
+ * Canale di invio delle email (SendGrid, SMTP o file su disco).
+ * send() lancia un errore se il messaggio non è stato accettato: la outbox lo ritenterà.
+ */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,182 @@
+import {
+  CheckoutRequest,
+  SecretariatPayment,
+  SecretariatPaymentStatus,
+  SecretariatPaymentStatusValue,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { resolveCheckoutAmount } from "../utils/paymentAllocation";
+import { recordProviderRefund } from "../services/refundService";
+import { notifyPaymentCompleted } from "../notifications/triggers";
+import type { FlowError } from "../utils/queue";
+import { getPaymentProvider, isPaymentProviderEnabled } from "./registry";
+import type { CreatedPayment, WebhookEvent } from "./types";
+
+const FINAL_STATUSES: SecretariatPaymentStatusValue[] = [
+  SecretariatPaymentStatus.COMPLETED,
+  SecretariatPaymentStatus.FAILED,
+  SecretariatPaymentStatus.CANCELLED,
+];
+
+function isFinalStatus(status: string): boolean {
+  return FINAL_STATUSES.includes(status as SecretariatPaymentStatusValue);
+}
+
+/**
+ * Porta un pagamento allo stato comunicato dal provider.
+ * Completato, fallito e annullato sono stati finali: il pagamento non cambia più
+ * (i rimborsi hanno il loro flusso, un nuovo tentativo crea un nuovo pagamento)
+ * e uno in lavorazione non torna in attesa.
+ */
+export async function applyPaymentStatus(
+  payment: SecretariatPayment,
+  status: SecretariatPaymentStatusValue
+): Promise<SecretariatPayment> {
+  if (payment.status === status || isFinalStatus(payment.status)) {
+    return payment;
+  }
+  if (status === SecretariatPaymentStatus.PENDING) {
+    return payment;
+  }
+  const updated = await storage.updateSecretariatPaymentStatus(
+    payment.orderId,
+    status,
+    isFinalStatus(status) ? new Date() : undefined
+  );
+  if (updated?.status === SecretariatPaymentStatus.COMPLETED) {
+    await notifyPaymentCompleted(updated);
+  }
+  return updated ?? payment;
+}
+
+/**
+ * Crea un pagamento della segreteria presso un provider: l'importo è calcolato lato server
+ * dai servizi (o dall'importo parziale) scelti dallo studente.
+ */
+export async function createCheckout(
+  providerId: string,
+  request: CheckoutRequest,
+  baseUrl: string
+): Promise<{ payment: SecretariatPayment; created: CreatedPayment } | FlowError> {
+  const provider = getPaymentProvider(providerId);
+  if (!provider || !isPaymentProviderEnabled(providerId)) {
+    return { error: "Metodo di pagamento non disponibile", status: 404 };
+  }
+
+  const student = await storage.getStudentBySigla(request.sigla);
+  if (!student) {
+    return { error: "Sigla non trovata. Inserisci una sigla valida.", status: 400 };
+  }
+
+  const outstandingServices = await storage.getOutstandingServices(request.sigla);
+  if (outstandingServices.length === 0) {
+    return { error: "Nessun servizio da pagare per questa sigla", status: 400 };
+  }
+  const checkout = resolveCheckoutAmount(outstandingServices, {
+    serviceIds: request.serviceIds,
+    amount: request.amount,
+  });
+  if ("error" in checkout) {
+    return { error: checkout.error, status: 400 };
+  }
+
+  const orderId = `SEC_${provider.id}_${request.sigla}_${Date.now()}`;
+  const description = request.description || `Pagamento servizi ELIS - ${request.sigla}`;
+  const customerEmail = request.customerEmail || `${request.sigla}@elis.org`;
+
+  let payment = await storage.createSecretariatPayment({
+    orderId,
+    sigla: request.sigla,
+    customerName: request.customerName,
+    customerEmail,
+    amount: checkout.amount,
+    currency: "EUR",
+    status: SecretariatPaymentStatus.PENDING,
+    paymentMethod: provider.id,
+    requestedServiceIds: checkout.serviceIds,
+    metadata: JSON.stringify({ sigla: request.sigla, description }),
+  });
+  console.log(`Payment ${orderId} for sigla ${request.sigla}: €${checkout.amount.toFixed(2)} via ${provider.id}`);
+
+  let created: CreatedPayment;
+  try {
+    created = await provider.createPayment({
+      orderId,
+      sigla: request.sigla,
+      customerName: request.customerName,
+      customerEmail,
+      amount: checkout.amount,
+      description,
+      baseUrl,
+    });
+  } catch (error) {
+    console.error(`Creazione del pagamento ${orderId} presso ${provider.id} fallita:`, error);
+    await storage.updateSecretariatPaymentStatus(orderId, SecretariatPaymentStatus.FAILED);
+    return { error: `Errore nella creazione del pagamento ${provider.label}`, status: 502 };
+  }
+
+  // L'ID presso il provider serve per verifiche, webhook e rimborsi
+  if (created.providerPaymentId) {
+    await storage.setSecretariatPaymentIntentId(orderId, created.providerPaymentId);
+  }
+  payment = await applyPaymentStatus(payment, created.status);
+  return { payment, created };
+}
+
+/**
+ * Verifica presso il provider lo stato di un pagamento non ancora chiuso e lo aggiorna
+ */
+export async function refreshPaymentStatus(orderId: string): Promise<SecretariatPayment | FlowError> {
+  const payment = await storage.getSecretariatPaymentByOrderId(orderId);
+  if (!payment) {
+    return { error: "Pagamento non trovato", status: 404 };
+  }
+  if (isFinalStatus(payment.status)) {
+    return payment;
+  }
+
+  const provider = getPaymentProvider(payment.paymentMethod);
+  if (!provider) {
+    return payment;
+  }
+  const { status, rawStatus } = await provider.getStatus(payment);
+  console.log(`Payment ${orderId}: ${provider.id} status ${rawStatus} -> ${status}`);
+  return applyPaymentStatus(payment, status);
+}
+
+async function findPaymentForEvent(event: { providerPaymentId?: string; orderId?: string }) {
+  if (event.providerPaymentId) {
+    const payment = await storage.getSecretariatPaymentByPaymentIntentId(event.providerPaymentId);
+    if (payment) return payment;
+  }
+  return event.orderId ? storage.getSecretariatPaymentByOrderId(event.orderId) : undefined;
+}
+
+/**
+ * Applica un evento letto dal webhook di un provider. Gli eventi ripetuti non hanno effetto
+ * (stato già applicato, rimborso già registrato), così un replay dalla coda è sicuro.
+ */
+export async function applyWebhookEvent(providerId: string, event: WebhookEvent): Promise<void> {
+  switch (event.type) {
+    case "payment": {
+      const payment = await findPaymentForEvent(event);
+      if (!payment) {
+        console.log(`Webhook ${providerId}: nessun pagamento per ${event.providerPaymentId ?? event.orderId}`);
+        return;
+      }
+      await applyPaymentStatus(payment, event.status);
+      return;
+    }
+    case "refund":
+      await recordProviderRefund(event);
+      return;
+    case "dispute_won": {
+      const chargeback = await storage.getPaymentRefundByProviderId(event.providerRefundId);
+      if (chargeback) {
+        await storage.reverseChargeback(chargeback.id);
+        console.log(`Dispute ${event.providerRefundId} won, chargeback ${chargeback.id} reversed`);
+      }
+      return;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { SecretariatPayment, SecretariatPaymentStatus } from "@shared/schema";
+import { revolutProvider } from "../revolut";
+import { satispayProvider } from "../satispay";
+import type { CreatePaymentInput } from "./types";
+
+const input: CreatePaymentInput = {
+  orderId: "SEC_revolut_AB12_1",
+  sigla: "AB12",
+  customerName: "Mario Rossi",
+  customerEmail: "AB12@student.elis.org",
+  amount: 42.5,
+  description: "Pagamento servizi ELIS - AB12",
+  baseUrl: "http://localhost:5000",
+};
+
+function payment(overrides: Partial<SecretariatPayment>): SecretariatPayment {
+  return {
+    id: 1,
+    orderId: input.orderId,
+    sigla: input.sigla,
+    customerName: input.customerName,
+    customerEmail: input.customerEmail,
+    amount: input.amount,
+    currency: "EUR",
+    status: SecretariatPaymentStatus.PENDING,
+    paymentMethod: "revolut",
+    paymentIntentId: null,
+    paymentDate: null,
+    metadata: null,
+    requestedServiceIds: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    archivedYear: null,
+    archivedAt: null,
+    ...overrides,
+  };
+}
+
+describe("Providers without credentials", () => {
+  const CREDENTIALS = ["REVOLUT_API_KEY", "SATISPAY_KEY_ID", "SATISPAY_PRIVATE_KEY", "SATISPAY_ACTIVATION_CODE"];
+  let saved: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    saved = Object.fromEntries(CREDENTIALS.map(name => [name, process.env[name]]));
+    for (const name of CREDENTIALS) delete process.env[name];
+  });
+
+  afterEach(() => {
+    for (const name of CREDENTIALS) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  it("refuses to create or refund Revolut orders", async () => {
+    assert.equal(revolutProvider.isConfigured(), false);
+    await assert.rejects(revolutProvider.createPayment(input), /REVOLUT_API_KEY non configurata/);
+    await assert.rejects(revolutProvider.refund(payment({ paymentIntentId: "ord_1" }), 10), /REVOLUT_API_KEY non configurata/);
+  });
+
+  it("never reports a Revolut payment without an order as completed", async () => {
+    const status = await revolutProvider.getStatus(payment({}));
+    assert.equal(status.status, SecretariatPaymentStatus.PENDING);
+  });
+
+  it("refuses to create Satispay payments instead of simulating them", async () => {
+    assert.equal(satispayProvider.isConfigured(), false);
+    await assert.rejects(satispayProvider.createPayment(input), /Credenziali Satispay non configurate/);
+  });
+
+  it("keeps a Satispay payment without an ID pending however old it is", async () => {
+    const old = payment({ paymentMethod: "satispay", createdAt: new Date(Date.now() - 60 * 60 * 1000) });
+    const status = await satispayProvider.getStatus(old);
+    assert.equal(status.status, SecretariatPaymentStatus.PENDING);
+  });
+});
+
+describe("Satispay webhook", () => {
+  const CREDENTIALS = ["SATISPAY_KEY_ID", "SATISPAY_PRIVATE_KEY", "SATISPAY_ACTIVATION_CODE", "NODE_ENV"];
+  let saved: Record<string, string | undefined>;
+
+  // Corpo falsificato: un rimborso di un pagamento che non esiste presso Satispay
+  const forged = {
+    headers: {},
+    rawBody: JSON.stringify({
+      action: "payment_update",
+      data: { id: "pay_1", flow: "REFUND", status: "ACCEPTED", parent_payment_uid: "pay_0", amount_unit: 10000 },
+    }),
+    query: {},
+  };
+
+  beforeEach(() => {
+    saved = Object.fromEntries(CREDENTIALS.map(name => [name, process.env[name]]));
+    for (const name of CREDENTIALS) delete process.env[name];
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    for (const name of CREDENTIALS) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  it("rejects events it cannot verify in production", async () => {
+    process.env.NODE_ENV = "production";
+    await assert.rejects(satispayProvider.parseWebhook(forged), /satispay webhook secret not configured/);
+  });
+
+  it("uses the payment read back from Satispay instead of the request body", async () => {
+    const { privateKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+    process.env.SATISPAY_KEY_ID = "key";
+    process.env.SATISPAY_PRIVATE_KEY = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+    process.env.SATISPAY_ACTIVATION_CODE = "code";
+    const fetchMock = mock.method(globalThis, "fetch", async () => new Response(JSON.stringify({
+      id: "pay_1", flow: "MATCH_CODE", status: "PENDING", amount_unit: 500, metadata: { payment_id: input.orderId },
+    })));
+
+    const events = await satispayProvider.parseWebhook(forged);
+
+    assert.equal(fetchMock.mock.callCount(), 1);
+    assert.equal(String(fetchMock.mock.calls[0].arguments[0]), "https://authservices.satispay.com/g_business/v1/payments/pay_1");
+    assert.deepEqual(events, [{
+      type: "payment", providerPaymentId: "pay_1", orderId: input.orderId,
+      status: SecretariatPaymentStatus.PENDING, rawStatus: "PENDING",
+    }]);
+  });
+});
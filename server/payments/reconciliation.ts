@@ -0,0 +1,143 @@
+import {
+  ReconciliationOutcome,
+  ReconciliationOutcomeValue,
+  ReconciliationRunDetail,
+  ReconciliationTrigger,
+  ReconciliationTriggerValue,
+  SecretariatPayment,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { applyPaymentStatus } from "./checkout";
+import { getPaymentProvider } from "./registry";
+
+// Un pagamento è bloccato se è ancora in attesa o in lavorazione dopo questo intervallo
+const STUCK_AFTER_MS = 5 * 60 * 1000;
+// I pagamenti più vecchi sono considerati abbandonati e non vengono più verificati
+const LOOKBACK_DAYS = 7;
+
+interface ItemResult {
+  outcome: ReconciliationOutcomeValue;
+  newStatus: string;
+  providerStatus?: string;
+  message?: string;
+}
+
+// Un solo giro alla volta: lo scheduler e l'avvio manuale non devono verificare gli stessi pagamenti in parallelo
+let currentRun: Promise<ReconciliationRunDetail | undefined> | null = null;
+
+export function isReconciliationRunning(): boolean {
+  return currentRun !== null;
+}
+
+/**
+ * Verifica un pagamento presso il suo provider, cercandolo con l'ID salvato alla creazione
+ */
+async function reconcilePayment(payment: SecretariatPayment): Promise<ItemResult> {
+  const provider = getPaymentProvider(payment.paymentMethod);
+  if (!provider || !provider.hasStatusApi) {
+    return {
+      outcome: ReconciliationOutcome.UNSUPPORTED,
+      newStatus: payment.status,
+      message: `Il metodo ${payment.paymentMethod} non ha un'API per verificare lo stato: serve una verifica manuale`,
+    };
+  }
+  if (!payment.paymentIntentId) {
+    return {
+      outcome: ReconciliationOutcome.UNSUPPORTED,
+      newStatus: payment.status,
+      message: `Nessun ID ${provider.label} salvato: pagamento simulato o creazione presso il provider non riuscita`,
+    };
+  }
+
+  try {
+    const { status, rawStatus } = await provider.getStatus(payment);
+    const updated = await applyPaymentStatus(payment, status);
+    if (updated.status !== payment.status) {
+      return { outcome: ReconciliationOutcome.FIXED, newStatus: updated.status, providerStatus: rawStatus };
+    }
+    return {
+      outcome: ReconciliationOutcome.STILL_STUCK,
+      newStatus: updated.status,
+      providerStatus: rawStatus,
+      message: `${provider.label} riporta lo stato ${rawStatus}: nessun esito definitivo`,
+    };
+  } catch (error: any) {
+    return {
+      outcome: ReconciliationOutcome.ERROR,
+      newStatus: payment.status,
+      message: error.message ?? String(error),
+    };
+  }
+}
+
+async function executeRun(trigger: ReconciliationTriggerValue): Promise<ReconciliationRunDetail | undefined> {
+  const now = Date.now();
+  const payments = await storage.getPaymentsToReconcile(
+    new Date(now - LOOKBACK_DAYS * 24 * 60 * 60 * 1000),
+    new Date(now - STUCK_AFTER_MS)
+  );
+  // Il giro automatico senza pagamenti da verificare non entra nello storico
+  if (payments.length === 0 && trigger === ReconciliationTrigger.SCHEDULER) {
+    return undefined;
+  }
+
+  const run = await storage.createReconciliationRun(trigger);
+  const counts = { checked: 0, fixed: 0, stillStuck: 0, errors: 0 };
+
+  try {
+    for (const payment of payments) {
+      const result = await reconcilePayment(payment);
+      await storage.addReconciliationItem({
+        runId: run.id,
+        secretariatPaymentId: payment.id,
+        orderId: payment.orderId,
+        sigla: payment.sigla,
+        provider: payment.paymentMethod,
+        previousStatus: payment.status,
+        newStatus: result.newStatus,
+        providerStatus: result.providerStatus,
+        outcome: result.outcome,
+        message: result.message,
+      });
+
+      counts.checked++;
+      if (result.outcome === ReconciliationOutcome.FIXED) {
+        counts.fixed++;
+        console.log(`🎉 Reconciled payment ${payment.orderId}: ${payment.status} -> ${result.newStatus}`);
+      } else if (result.outcome === ReconciliationOutcome.ERROR) {
+        counts.errors++;
+        console.error(`❌ Failed to reconcile payment ${payment.orderId}: ${result.message}`);
+      } else {
+        counts.stillStuck++;
+      }
+    }
+
+    await storage.finishReconciliationRun(run.id, counts);
+    if (counts.checked > 0) {
+      console.log(`🎯 Payment reconciliation completed: ${counts.fixed} fixed, ${counts.stillStuck} still stuck, ${counts.errors} errors`);
+    }
+  } catch (error: any) {
+    console.error('❌ Payment reconciliation run failed:', error);
+    await storage.finishReconciliationRun(run.id, { ...counts, errorMessage: error.message ?? String(error) });
+  }
+
+  return (await storage.getReconciliationRun(run.id))!;
+}
+
+/**
+ * Giro di riconciliazione: verifica presso i provider i pagamenti rimasti in attesa o in lavorazione
+ * (webhook persi o non ancora arrivati) e registra per ognuno l'esito nello storico.
+ * Restituisce null se un altro giro è già in corso, undefined se il giro automatico
+ * non aveva pagamenti da verificare (e non è stato registrato).
+ */
+export async function runReconciliation(trigger: ReconciliationTriggerValue): Promise<ReconciliationRunDetail | undefined | null> {
+  if (currentRun) {
+    return null;
+  }
+  currentRun = executeRun(trigger);
+  try {
+    return await currentRun;
+  } finally {
+    currentRun = null;
+  }
+}
@@ -0,0 +1,62 @@
+import { stripeProvider } from "../stripe";
+import { satispayProvider } from "../satispay";
+import { revolutProvider } from "../revolut";
+import { sumupProvider } from "../sumup";
+import { nexiProvider } from "../nexi";
+import { paypalProvider } from "../services/paypalService";
+import { createSimulatedProvider, isPaymentSimulatorEnabled } from "./simulator";
+import type { PaymentProvider } from "./types";
+
+// Tutti i provider disponibili; per aggiungerne uno basta registrarlo qui
+const PROVIDERS: PaymentProvider[] = [
+  stripeProvider,
+  satispayProvider,
+  revolutProvider,
+  sumupProvider,
+  paypalProvider,
+  nexiProvider,
+];
+
+// Provider offerti agli studenti se PAYMENT_PROVIDERS non è impostata
+const DEFAULT_ENABLED_PROVIDERS = ["stripe", "satispay"];
+
+/**
+ * Provider abilitati per i nuovi pagamenti, da PAYMENT_PROVIDERS (es. "stripe,satispay,sumup").
+ * Webhook, verifiche e rimborsi dei pagamenti esistenti funzionano anche per i provider disabilitati.
+ */
+function enabledProviderIds(): string[] {
+  const configured = process.env.PAYMENT_PROVIDERS;
+  if (!configured) return DEFAULT_ENABLED_PROVIDERS;
+  return configured.split(",").map(id => id.trim().toLowerCase()).filter(Boolean);
+}
+
+// Versioni simulate dei provider, create al primo uso (PAYMENT_SIMULATOR=true, mai in produzione)
+const simulatedProviders = new Map<string, PaymentProvider>();
+
+function simulated(provider: PaymentProvider): PaymentProvider {
+  let simulatedProvider = simulatedProviders.get(provider.id);
+  if (!simulatedProvider) {
+    simulatedProvider = createSimulatedProvider(provider);
+    simulatedProviders.set(provider.id, simulatedProvider);
+  }
+  return simulatedProvider;
+}
+
+export function getPaymentProvider(id: string): PaymentProvider | undefined {
+  const provider = PROVIDERS.find(p => p.id === id);
+  return provider && isPaymentSimulatorEnabled() ? simulated(provider) : provider;
+}
+
+export function isPaymentProviderEnabled(id: string): boolean {
+  return !!getPaymentProvider(id) && enabledProviderIds().includes(id);
+}
+
+export function listPaymentProviders() {
+  return PROVIDERS.map(({ id }) => getPaymentProvider(id)!).map(provider => ({
+    id: provider.id,
+    label: provider.label,
+    description: provider.description,
+    enabled: isPaymentProviderEnabled(provider.id),
+    configured: provider.isConfigured(),
+  }));
+}
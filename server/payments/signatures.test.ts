@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getSignatureRejectionStats, hmacSha256Hex, resetSignatureRejectionStats } from "./signatures";
+import { revolutProvider, verifyRevolutSignature } from "../revolut";
+import { sumupProvider, verifySumUpSignature } from "../sumup";
+import type { WebhookRequest } from "./types";
+
+const SECRET = "wsk_test_secret";
+const NOW_MS = Date.UTC(2025, 0, 15, 10, 0, 0);
+
+const revolutBody = JSON.stringify({
+  event: "ORDER_COMPLETED",
+  order_id: "rev_order_1",
+  merchant_order_ext_ref: "SEC_revolut_AB12_1",
+});
+
+const sumupBody = JSON.stringify({
+  event_type: "checkout.updated",
+  checkout: { id: "chk_1", status: "PAID", amount: 25, checkout_reference: "SEC_sumup_AB12_1" },
+});
+
+// Webhook Revolut firmato localmente come lo firmerebbe Revolut
+function signedRevolutRequest(body: string, timestampMs: number, secret = SECRET): WebhookRequest {
+  const signature = hmacSha256Hex(secret, `v1.${timestampMs}.${body}`);
+  return {
+    headers: {
+      "revolut-request-timestamp": String(timestampMs),
+      "revolut-signature": `v1=${signature}`,
+    },
+    rawBody: body,
+    query: {},
+  };
+}
+
+function signedSumUpRequest(body: string, timestampSeconds: number, secret = SECRET): WebhookRequest {
+  const signature = hmacSha256Hex(secret, `${timestampSeconds}.${body}`);
+  return {
+    headers: { "x-sumup-signature": `t=${timestampSeconds},v1=${signature}` },
+    rawBody: body,
+    query: {},
+  };
+}
+
+describe("Revolut webhook signature", () => {
+  it("accepts a payload signed with the webhook secret", () => {
+    const request = signedRevolutRequest(revolutBody, NOW_MS - 1000);
+    assert.deepEqual(verifyRevolutSignature(request, SECRET, NOW_MS), { valid: true });
+  });
+
+  it("accepts any of the signatures sent during secret rotation", () => {
+    const request = signedRevolutRequest(revolutBody, NOW_MS);
+    request.headers["revolut-signature"] = `v1=${"0".repeat(64)},${request.headers["revolut-signature"]}`;
+    assert.deepEqual(verifyRevolutSignature(request, SECRET, NOW_MS), { valid: true });
+  });
+
+  it("rejects a tampered body", () => {
+    const request = signedRevolutRequest(revolutBody, NOW_MS);
+    request.rawBody = revolutBody.replace("ORDER_COMPLETED", "ORDER_AUTHORISED");
+    assert.deepEqual(verifyRevolutSignature(request, SECRET, NOW_MS), { valid: false, reason: "invalid_signature" });
+  });
+
+  it("rejects a payload signed with another secret", () => {
+    const request = signedRevolutRequest(revolutBody, NOW_MS, "wsk_other");
+    assert.deepEqual(verifyRevolutSignature(request, SECRET, NOW_MS), { valid: false, reason: "invalid_signature" });
+  });
+
+  it("rejects a timestamp outside the tolerance", () => {
+    const request = signedRevolutRequest(revolutBody, NOW_MS - 10 * 60 * 1000);
+    assert.deepEqual(
+      verifyRevolutSignature(request, SECRET, NOW_MS),
+      { valid: false, reason: "timestamp_out_of_tolerance" }
+    );
+  });
+
+  it("rejects a request without signature or timestamp", () => {
+    const unsigned: WebhookRequest = { headers: {}, rawBody: revolutBody, query: {} };
+    assert.deepEqual(verifyRevolutSignature(unsigned, SECRET, NOW_MS), { valid: false, reason: "missing_signature" });
+
+    const request = signedRevolutRequest(revolutBody, NOW_MS);
+    delete request.headers["revolut-request-timestamp"];
+    assert.deepEqual(verifyRevolutSignature(request, SECRET, NOW_MS), { valid: false, reason: "missing_timestamp" });
+  });
+});
+
+describe("SumUp webhook signature", () => {
+  const nowSeconds = Math.floor(NOW_MS / 1000);
+
+  it("accepts a payload signed with the webhook secret", () => {
+    const request = signedSumUpRequest(sumupBody, nowSeconds);
+    assert.deepEqual(verifySumUpSignature(request, SECRET, NOW_MS), { valid: true });
+  });
+
+  it("rejects a tampered body", () => {
+    const request = signedSumUpRequest(sumupBody, nowSeconds);
+    request.rawBody = sumupBody.replace("PAID", "FAILED");
+    assert.deepEqual(verifySumUpSignature(request, SECRET, NOW_MS), { valid: false, reason: "invalid_signature" });
+  });
+
+  it("rejects a replayed webhook with an old timestamp", () => {
+    const request = signedSumUpRequest(sumupBody, nowSeconds - 3600);
+    assert.deepEqual(
+      verifySumUpSignature(request, SECRET, NOW_MS),
+      { valid: false, reason: "timestamp_out_of_tolerance" }
+    );
+  });
+});
+
+describe("Provider webhook parsing", () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.REVOLUT_WEBHOOK_SECRET = SECRET;
+    process.env.SUMUP_WEBHOOK_SECRET = SECRET;
+    resetSignatureRejectionStats();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it("reads the events of a correctly signed Revolut webhook", async () => {
+    const events = await revolutProvider.parseWebhook(signedRevolutRequest(revolutBody, Date.now()));
+    assert.equal(events.length, 1);
+    assert.equal(events[0].type, "payment");
+    assert.deepEqual(getSignatureRejectionStats(), []);
+  });
+
+  it("throws and counts the rejection for a forged Revolut webhook", async () => {
+    const request = signedRevolutRequest(revolutBody, Date.now(), "wsk_forged");
+    await assert.rejects(revolutProvider.parseWebhook(request), /signature rejected/);
+
+    const [stats] = getSignatureRejectionStats();
+    assert.equal(stats.provider, "revolut");
+    assert.equal(stats.total, 1);
+    assert.deepEqual(stats.byReason, { invalid_signature: 1 });
+  });
+
+  it("reads the events of a correctly signed SumUp webhook", async () => {
+    const events = await sumupProvider.parseWebhook(signedSumUpRequest(sumupBody, Math.floor(Date.now() / 1000)));
+    assert.equal(events.length, 1);
+    assert.equal(events[0].type, "payment");
+  });
+
+  it("rejects unsigned webhooks in production when no secret is configured", async () => {
+    delete process.env.SUMUP_WEBHOOK_SECRET;
+    process.env.NODE_ENV = "production";
+    const unsigned: WebhookRequest = { headers: {}, rawBody: sumupBody, query: {} };
+    await assert.rejects(sumupProvider.parseWebhook(unsigned), /secret not configured/);
+    assert.deepEqual(getSignatureRejectionStats()[0].byReason, { secret_not_configured: 1 });
+  });
+});
@@ -0,0 +1,113 @@
+import crypto from "crypto";
+import type { IncomingHttpHeaders } from "http";
+
+/* Verifica delle firme HMAC dei webhook e conteggio dei rifiuti */
+
+// Scarto massimo tra il timestamp firmato e l'ora del server: oltre si rifiuta (replay di un webhook vecchio)
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export type SignatureRejectionReason =
+  | "secret_not_configured"
+  | "missing_signature"
+  | "missing_timestamp"
+  | "timestamp_out_of_tolerance"
+  | "invalid_signature";
+
+export type SignatureCheck = { valid: true } | { valid: false; reason: SignatureRejectionReason };
+
+export interface SignatureRejectionStats {
+  provider: string;
+  total: number;
+  byReason: Partial<Record<SignatureRejectionReason, number>>;
+  lastRejectedAt: string;
+}
+
+export function signatureToleranceSeconds(): number {
+  const configured = Number(process.env.WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TOLERANCE_SECONDS;
+}
+
+// Valore di un header (Node lo restituisce come array se ripetuto)
+export function headerValue(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value.join(",") : value;
+}
+
+export function hmacSha256Hex(secret: string, payload: string): string {
+  return crypto.createHmac("sha256", secret).update(payload, "utf8").digest("hex");
+}
+
+// Confronto a tempo costante: la differenza di lunghezza non rivela il contenuto
+function safeEqualHex(expected: string, received: string): boolean {
+  const a = Buffer.from(expected, "utf8");
+  const b = Buffer.from(received, "utf8");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Verifica una firma HMAC-SHA256 con timestamp.
+ * signatures può contenerne più d'una (rotazione del segreto): basta che una corrisponda.
+ */
+export function verifyTimestampedHmac(options: {
+  secret: string;
+  signedPayload: string;
+  signatures: string[];
+  timestampSeconds: number | undefined;
+  nowMs?: number;
+}): SignatureCheck {
+  if (options.signatures.length === 0) {
+    return { valid: false, reason: "missing_signature" };
+  }
+  if (options.timestampSeconds === undefined || !Number.isFinite(options.timestampSeconds)) {
+    return { valid: false, reason: "missing_timestamp" };
+  }
+  const nowSeconds = (options.nowMs ?? Date.now()) / 1000;
+  if (Math.abs(nowSeconds - options.timestampSeconds) > signatureToleranceSeconds()) {
+    return { valid: false, reason: "timestamp_out_of_tolerance" };
+  }
+
+  const expected = hmacSha256Hex(options.secret, options.signedPayload);
+  if (!options.signatures.some(signature => safeEqualHex(expected, signature))) {
+    return { valid: false, reason: "invalid_signature" };
+  }
+  return { valid: true };
+}
+
+// Rifiuti dall'avvio del server, per provider e motivo
+const rejections = new Map<string, SignatureRejectionStats>();
+
+export function recordSignatureRejection(provider: string, reason: SignatureRejectionReason): void {
+  const stats = rejections.get(provider) ?? { provider, total: 0, byReason: {}, lastRejectedAt: "" };
+  stats.total++;
+  stats.byReason[reason] = (stats.byReason[reason] ?? 0) + 1;
+  stats.lastRejectedAt = new Date().toISOString();
+  rejections.set(provider, stats);
+  console.warn(`⚠️ Webhook ${provider} rifiutato: ${reason}`);
+}
+
+export function getSignatureRejectionStats(): SignatureRejectionStats[] {
+  return Array.from(rejections.values());
+}
+
+export function resetSignatureRejectionStats(): void {
+  rejections.clear();
+}
+
+/**
+ * Applica l'esito della verifica per un provider: conta il rifiuto e lancia l'errore che
+ * fa rispondere 400 al webhook. Senza segreto configurato si accetta solo fuori produzione.
+ */
+export function enforceSignature(provider: string, check: SignatureCheck | null): void {
+  if (check === null) {
+    if (process.env.NODE_ENV === "production") {
+      recordSignatureRejection(provider, "secret_not_configured");
+      throw new Error(`${provider} webhook secret not configured`);
+    }
+    console.warn(`Webhook ${provider} senza verifica della firma: segreto non configurato`);
+    return;
+  }
+  if (!check.valid) {
+    recordSignatureRejection(provider, check.reason);
+    throw new Error(`${provider} webhook signature rejected: ${check.reason}`);
+  }
+}
@@ -0,0 +1,285 @@
+import crypto from "crypto";
+import { SimulatedOutcome, SimulatedOutcomeValue } from "@shared/schema";
+import { toCents } from "@shared/money";
+import { computeMac } from "../nexi";
+import { hmacSha256Hex } from "./signatures";
+import { normalizePaymentStatus } from "./status";
+import { receiveWebhook } from "./webhookInbox";
+import type { PaymentProvider, WebhookRequest } from "./types";
+
+/*
+ * Simulatore locale dei provider di pagamento, per sviluppo e test senza credenziali né rete.
+ * Con PAYMENT_SIMULATOR=true ogni provider crea pagamenti simulati e ne legge lo stato in memoria;
+ * l'esito arriva come webhook nel formato del provider, passando dalla coda dei webhook
+ * e dal parser reale del provider, come in produzione.
+ *
+ * PAYMENT_SIMULATOR_SCENARIO sceglie l'esito:
+ *   interactive (default) - lo sceglie lo studente nella pagina del simulatore
+ *   success | failure | cancel - esito automatico dopo il ritardo
+ *   pending - nessun esito (pagamento bloccato, per provare la riconciliazione)
+ * PAYMENT_SIMULATOR_DELAY_MS è il ritardo del webhook (default 5 secondi).
+ */
+
+const DEFAULT_DELAY_MS = 5000;
+
+interface SimulatedPayment {
+  providerId: string;
+  providerPaymentId: string;
+  orderId: string;
+  sigla: string;
+  amount: number;
+  rawStatus: string;
+  outcome: SimulatedOutcomeValue | null; // Esito scelto, anche se il webhook non è ancora partito
+  createdAt: Date;
+}
+
+interface SimulatedProviderContract {
+  newPaymentId(orderId: string): string;
+  // Stato grezzo del provider in attesa e per ogni esito (vocabolario di PROVIDER_STATUS_TABLE)
+  statuses: { pending: string } & Record<SimulatedOutcomeValue, string>;
+  // Webhook che il provider invierebbe per l'esito; null se il provider non notifica quell'esito
+  webhook(payment: SimulatedPayment, outcome: SimulatedOutcomeValue): WebhookRequest | null;
+}
+
+// I pagamenti simulati vivono in memoria: un riavvio del server li perde
+const payments = new Map<string, SimulatedPayment>();
+
+export function isPaymentSimulatorEnabled(): boolean {
+  return process.env.PAYMENT_SIMULATOR === "true" && process.env.NODE_ENV !== "production";
+}
+
+function simulatorScenario(): string {
+  return process.env.PAYMENT_SIMULATOR_SCENARIO || "interactive";
+}
+
+export function simulatorDelayMs(): number {
+  const configured = Number(process.env.PAYMENT_SIMULATOR_DELAY_MS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_DELAY_MS;
+}
+
+function jsonWebhook(body: unknown, headers: WebhookRequest["headers"] = {}): WebhookRequest {
+  return { headers, rawBody: JSON.stringify(body), query: {} };
+}
+
+const CONTRACTS: Record<string, SimulatedProviderContract> = {
+  stripe: {
+    newPaymentId: () => `pi_sim_${crypto.randomBytes(12).toString("hex")}`,
+    statuses: {
+      pending: "requires_payment_method",
+      success: "succeeded",
+      failure: "payment_intent.payment_failed",
+      cancel: "canceled",
+    },
+    webhook: (payment, outcome) => jsonWebhook({
+      id: `evt_sim_${crypto.randomBytes(12).toString("hex")}`,
+      type: {
+        success: "payment_intent.succeeded",
+        failure: "payment_intent.payment_failed",
+        cancel: "payment_intent.canceled",
+      }[outcome],
+      data: {
+        object: {
+          id: payment.providerPaymentId,
+          metadata: { orderId: payment.orderId, sigla: payment.sigla, service: "secretariat_service" },
+        },
+      },
+    }, { "stripe-signature": "simulated" }),
+  },
+
+  satispay: {
+    newPaymentId: () => crypto.randomUUID(),
+    // Satispay non distingue un pagamento rifiutato da uno annullato
+    statuses: { pending: "PENDING", success: "ACCEPTED", failure: "CANCELED", cancel: "CANCELED" },
+    webhook: (payment, outcome) => jsonWebhook({
+      action: "payment_update",
+      data: {
+        id: payment.providerPaymentId,
+        flow: "MATCH_CODE",
+        status: CONTRACTS.satispay.statuses[outcome],
+        amount_unit: toCents(payment.amount),
+        metadata: { payment_id: payment.orderId },
+      },
+    }),
+  },
+
+  revolut: {
+    newPaymentId: () => crypto.randomUUID(),
+    statuses: { pending: "PENDING", success: "COMPLETED", failure: "FAILED", cancel: "CANCELLED" },
+    webhook: (payment, outcome) => {
+      const rawBody = JSON.stringify({
+        event: { success: "ORDER_COMPLETED", failure: "ORDER_PAYMENT_FAILED", cancel: "ORDER_CANCELLED" }[outcome],
+        order_id: payment.providerPaymentId,
+        merchant_order_ext_ref: payment.orderId,
+      });
+      // Firmato come Revolut se il segreto è configurato, così si prova anche la verifica
+      const secret = process.env.REVOLUT_WEBHOOK_SECRET;
+      const timestamp = String(Date.now());
+      const headers = secret
+        ? {
+            "revolut-request-timestamp": timestamp,
+            "revolut-signature": `v1=${hmacSha256Hex(secret, `v1.${timestamp}.${rawBody}`)}`,
+          }
+        : {};
+      return { headers, rawBody, query: {} };
+    },
+  },
+
+  sumup: {
+    newPaymentId: () => crypto.randomUUID(),
+    statuses: { pending: "PENDING", success: "PAID", failure: "FAILED", cancel: "CANCELLED" },
+    webhook: (payment, outcome) => {
+      const rawBody = JSON.stringify({
+        event_type: "checkout.updated",
+        checkout: {
+          id: payment.providerPaymentId,
+          status: CONTRACTS.sumup.statuses[outcome],
+          amount: payment.amount,
+          checkout_reference: payment.orderId,
+        },
+      });
+      const secret = process.env.SUMUP_WEBHOOK_SECRET;
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const headers = secret
+        ? { "x-sumup-signature": `t=${timestamp},v1=${hmacSha256Hex(secret, `${timestamp}.${rawBody}`)}` }
+        : {};
+      return { headers, rawBody, query: {} };
+    },
+  },
+
+  paypal: {
+    newPaymentId: () => `PPORD-SIM-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+    statuses: { pending: "CREATED", success: "COMPLETED", failure: "PAYMENT.CAPTURE.DENIED", cancel: "VOIDED" },
+    // PayPal non notifica gli ordini abbandonati: l'annullamento si vede solo dallo stato
+    webhook: (payment, outcome) => outcome === SimulatedOutcome.CANCEL ? null : jsonWebhook({
+      id: `WH-SIM-${crypto.randomBytes(8).toString("hex")}`,
+      event_type: outcome === SimulatedOutcome.SUCCESS ? "PAYMENT.CAPTURE.COMPLETED" : "PAYMENT.CAPTURE.DENIED",
+      resource: {
+        id: `CAPTURE-SIM-${crypto.randomBytes(6).toString("hex")}`,
+        supplementary_data: { related_ids: { order_id: payment.providerPaymentId } },
+      },
+    }),
+  },
+
+  nexi: {
+    // Nexi usa il nostro codTrans come riferimento del pagamento
+    newPaymentId: (orderId) => orderId,
+    statuses: { pending: "PENDING", success: "AUTHORIZED", failure: "DECLINED", cancel: "CANCELED" },
+    webhook: (payment, outcome) => {
+      const now = new Date();
+      const callback: Record<string, string> = {
+        codTrans: payment.providerPaymentId,
+        esito: { success: "OK", failure: "KO", cancel: "ANNULLO" }[outcome],
+        importo: String(toCents(payment.amount)),
+        divisa: "EUR",
+        data: now.toISOString().slice(0, 10).replace(/-/g, ""),
+        orario: now.toTimeString().slice(0, 8).replace(/:/g, ""),
+        codAut: outcome === SimulatedOutcome.SUCCESS ? "SIM123" : "",
+      };
+      const macKey = process.env.NEXI_MAC_KEY;
+      if (macKey) {
+        callback.mac = computeMac(
+          `codTrans=${callback.codTrans}esito=${callback.esito}importo=${callback.importo}divisa=${callback.divisa}data=${callback.data}orario=${callback.orario}codAut=${callback.codAut}`,
+          macKey
+        );
+      }
+      return { headers: {}, rawBody: new URLSearchParams(callback).toString(), query: {} };
+    },
+  },
+};
+
+/**
+ * Webhook che il provider invierebbe per l'esito del pagamento simulato, nel suo formato
+ */
+export function buildSimulatedWebhook(providerPaymentId: string, outcome: SimulatedOutcomeValue): WebhookRequest | null {
+  const payment = payments.get(providerPaymentId);
+  if (!payment) return null;
+  return CONTRACTS[payment.providerId].webhook(payment, outcome);
+}
+
+/**
+ * Applica l'esito a un pagamento simulato e, dopo il ritardo, invia il webhook del provider
+ */
+export function resolveSimulatedPayment(providerPaymentId: string, outcome: SimulatedOutcomeValue): SimulatedPayment | undefined {
+  const payment = payments.get(providerPaymentId);
+  if (!payment || payment.outcome) return payment;
+  payment.outcome = outcome;
+
+  setTimeout(async () => {
+    payment.rawStatus = CONTRACTS[payment.providerId].statuses[outcome];
+    const webhook = buildSimulatedWebhook(payment.providerPaymentId, outcome);
+    if (!webhook) return;
+    try {
+      const result = await receiveWebhook(payment.providerId, webhook);
+      if ("error" in result) {
+        console.error(`[Simulatore] Webhook ${payment.providerId} rifiutato: ${result.error}`);
+      }
+    } catch (error) {
+      console.error(`[Simulatore] Invio del webhook ${payment.providerId} fallito:`, error);
+    }
+  }, simulatorDelayMs());
+  console.log(`[Simulatore] ${payment.providerId} ${payment.orderId}: esito ${outcome} tra ${simulatorDelayMs()}ms`);
+  return payment;
+}
+
+export function getSimulatedPayment(providerPaymentId: string): SimulatedPayment | undefined {
+  return payments.get(providerPaymentId);
+}
+
+/**
+ * Versione simulata di un provider: stessi id, etichette e parser dei webhook,
+ * creazione, stato e rimborsi locali
+ */
+export function createSimulatedProvider(provider: PaymentProvider): PaymentProvider {
+  const contract = CONTRACTS[provider.id];
+  if (!contract) return provider;
+
+  return {
+    ...provider,
+    hasStatusApi: true,
+
+    isConfigured() {
+      return true;
+    },
+
+    async createPayment(input) {
+      const payment: SimulatedPayment = {
+        providerId: provider.id,
+        providerPaymentId: contract.newPaymentId(input.orderId),
+        orderId: input.orderId,
+        sigla: input.sigla,
+        amount: input.amount,
+        rawStatus: contract.statuses.pending,
+        outcome: null,
+        createdAt: new Date(),
+      };
+      payments.set(payment.providerPaymentId, payment);
+
+      const scenario = simulatorScenario();
+      if (scenario === SimulatedOutcome.SUCCESS || scenario === SimulatedOutcome.FAILURE || scenario === SimulatedOutcome.CANCEL) {
+        resolveSimulatedPayment(payment.providerPaymentId, scenario);
+      }
+
+      return {
+        providerPaymentId: payment.providerPaymentId,
+        status: normalizePaymentStatus(provider.id, payment.rawStatus),
+        live: false,
+        simulated: true,
+        redirectUrl: `${input.baseUrl}/payment-simulator/${provider.id}/${encodeURIComponent(payment.providerPaymentId)}`,
+        codeIdentifier: provider.id === "satispay" ? `S6Y-PAY--${payment.providerPaymentId.toUpperCase()}` : undefined,
+      };
+    },
+
+    async getStatus(payment) {
+      const simulated = payment.paymentIntentId ? payments.get(payment.paymentIntentId) : undefined;
+      if (!simulated) {
+        throw new Error(`Pagamento simulato ${payment.orderId} non trovato (il simulatore perde i pagamenti al riavvio)`);
+      }
+      return { status: normalizePaymentStatus(provider.id, simulated.rawStatus), rawStatus: simulated.rawStatus };
+    },
+
+    async refund(payment, amount) {
+      console.log(`[Simulatore] Rimborso ${provider.id} di €${amount.toFixed(2)} per ${payment.orderId}`);
+      return `sim_refund_${provider.id}_${crypto.randomBytes(8).toString("hex")}`;
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { SecretariatPaymentStatus, SecretariatPaymentStatusValue } from "@shared/schema";
+
+const { PENDING, PROCESSING, COMPLETED, FAILED, CANCELLED } = SecretariatPaymentStatus;
+
+/**
+ * Tabella unica di conversione degli stati dei provider (e dei tipi di evento dei webhook)
+ * negli stati del pagamento della segreteria.
+ */
+export const PROVIDER_STATUS_TABLE: Record<string, Record<string, SecretariatPaymentStatusValue>> = {
+  stripe: {
+    requires_payment_method: PENDING,
+    requires_confirmation: PENDING,
+    requires_action: PROCESSING,
+    requires_capture: PROCESSING,
+    processing: PROCESSING,
+    succeeded: COMPLETED,
+    canceled: CANCELLED,
+    "payment_intent.processing": PROCESSING,
+    "payment_intent.succeeded": COMPLETED,
+    "payment_intent.payment_failed": FAILED,
+    "payment_intent.canceled": CANCELLED,
+  },
+  satispay: {
+    PENDING: PENDING,
+    AUTHORIZED: PROCESSING,
+    ACCEPTED: COMPLETED,
+    CANCELED: CANCELLED,
+    EXPIRED: CANCELLED,
+  },
+  revolut: {
+    PENDING: PENDING,
+    PROCESSING: PROCESSING,
+    AUTHORISED: PROCESSING,
+    COMPLETED: COMPLETED,
+    FAILED: FAILED,
+    CANCELLED: CANCELLED,
+    ORDER_AUTHORISED: PROCESSING,
+    ORDER_COMPLETED: COMPLETED,
+    ORDER_PAYMENT_DECLINED: FAILED,
+    ORDER_PAYMENT_FAILED: FAILED,
+    ORDER_CANCELLED: CANCELLED,
+  },
+  sumup: {
+    PENDING: PENDING,
+    PAID: COMPLETED,
+    SUCCESSFUL: COMPLETED,
+    FAILED: FAILED,
+    EXPIRED: CANCELLED,
+    CANCELLED: CANCELLED,
+  },
+  paypal: {
+    CREATED: PENDING,
+    SAVED: PENDING,
+    APPROVED: PROCESSING,
+    PAYER_ACTION_REQUIRED: PROCESSING,
+    COMPLETED: COMPLETED,
+    VOIDED: CANCELLED,
+    "PAYMENT.CAPTURE.COMPLETED": COMPLETED,
+    "PAYMENT.CAPTURE.DENIED": FAILED,
+  },
+  nexi: {
+    PENDING: PENDING,
+    AUTHORIZED: COMPLETED,
+    CAPTURED: COMPLETED,
+    DECLINED: FAILED,
+    DENIED_BY_RISK: FAILED,
+    FAILED: FAILED,
+    CANCELED: CANCELLED,
+    VOIDED: CANCELLED,
+  },
+};
+
+// Uno stato sconosciuto non chiude mai il pagamento: resta in lavorazione
+export function normalizePaymentStatus(providerId: string, rawStatus: string): SecretariatPaymentStatusValue {
+  return PROVIDER_STATUS_TABLE[providerId]?.[rawStatus] ?? PROCESSING;
+}
@@ -0,0 +1,74 @@
+import type { IncomingHttpHeaders } from "http";
+import type { RefundKindValue, SecretariatPayment, SecretariatPaymentStatusValue } from "@shared/schema";
+
+// Dati del pagamento della segreteria già registrato: l'importo è calcolato lato server
+export interface CreatePaymentInput {
+  orderId: string; // Riferimento interno, inviato al provider per la riconciliazione
+  sigla: string;
+  customerName: string;
+  customerEmail: string;
+  amount: number; // EUR
+  description: string;
+  baseUrl: string; // Per redirect e callback verso l'applicazione
+}
+
+export interface CreatedPayment {
+  providerPaymentId: string | null; // null se il pagamento è simulato (provider non raggiungibile)
+  status: SecretariatPaymentStatusValue;
+  live: boolean;
+  simulated?: boolean; // Creato dal simulatore locale: redirectUrl porta alla pagina del simulatore
+  clientSecret?: string; // Stripe Elements
+  redirectUrl?: string; // Pagina di pagamento ospitata dal provider
+  codeIdentifier?: string; // Satispay, per generare il QR
+  qrCode?: string;
+}
+
+export interface ProviderPaymentStatus {
+  status: SecretariatPaymentStatusValue;
+  rawStatus: string;
+}
+
+// Eventi già normalizzati letti da un webhook; un webhook può non produrne nessuno
+export type WebhookEvent =
+  | {
+      type: "payment";
+      providerPaymentId?: string;
+      orderId?: string;
+      status: SecretariatPaymentStatusValue;
+      rawStatus: string;
+    }
+  | {
+      type: "refund";
+      providerPaymentId: string;
+      providerRefundId: string;
+      amount: number | null; // null = tutto il rimborsabile
+      kind: RefundKindValue;
+      reason: string;
+    }
+  | {
+      type: "dispute_won";
+      providerRefundId: string;
+    };
+
+export interface WebhookRequest {
+  headers: IncomingHttpHeaders;
+  rawBody: string;
+  query: Record<string, unknown>;
+}
+
+/**
+ * Un provider di pagamento: crea il pagamento, ne legge lo stato, interpreta i webhook e rimborsa.
+ * Gli stati del provider vengono tradotti con la tabella in ./status.ts.
+ */
+export interface PaymentProvider {
+  id: string; // Coincide con secretariatPayments.paymentMethod
+  label: string;
+  description: string;
+  isConfigured(): boolean; // Credenziali presenti; senza, alcuni provider lavorano in simulazione
+  hasStatusApi: boolean; // getStatus interroga il provider con l'ID salvato: usato dalla riconciliazione
+  createPayment(input: CreatePaymentInput): Promise<CreatedPayment>;
+  getStatus(payment: SecretariatPayment): Promise<ProviderPaymentStatus>;
+  parseWebhook(request: WebhookRequest): Promise<WebhookEvent[]>; // Lancia un errore se la firma non è valida
+  webhookEventId?(request: WebhookRequest): string | undefined; // ID dell'evento, per i provider che lo inviano
+  refund(payment: SecretariatPayment, amount: number): Promise<string | null>; // null = rimborso da fare a mano
+}
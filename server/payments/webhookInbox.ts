@@ -0,0 +1,123 @@
+import crypto from "crypto";
+import { AuditSource, WebhookInboxEvent } from "@shared/schema";
+import { storage } from "../storage";
+import { runWithAuditContext } from "../audit";
+import { applyWebhookEvent } from "./checkout";
+import { getPaymentProvider } from "./registry";
+import { nextAttemptAt, staleLockCutoff, type FlowError } from "../utils/queue";
+import type { WebhookEvent, WebhookRequest } from "./types";
+
+let workerRunning = false;
+
+/**
+ * Chiave di deduplica: l'ID dell'evento se il provider lo invia, altrimenti l'impronta del corpo
+ * (un reinvio del provider ha lo stesso corpo)
+ */
+function webhookEventKey(providerId: string, request: WebhookRequest): string {
+  const eventId = getPaymentProvider(providerId)?.webhookEventId?.(request);
+  if (eventId) return eventId;
+  return `sha256:${crypto.createHash("sha256").update(request.rawBody).digest("hex")}`;
+}
+
+/**
+ * Riceve il webhook di un provider: verifica la firma, legge gli eventi e li mette in coda.
+ * Un evento già ricevuto non viene accodato di nuovo; l'elaborazione avviene nel worker.
+ */
+export async function receiveWebhook(
+  providerId: string,
+  request: WebhookRequest
+): Promise<{ event: WebhookInboxEvent | undefined; duplicate: boolean } | FlowError> {
+  const provider = getPaymentProvider(providerId);
+  if (!provider) {
+    return { error: "Provider sconosciuto", status: 404 };
+  }
+
+  let events: WebhookEvent[];
+  try {
+    events = await provider.parseWebhook(request);
+  } catch (error: any) {
+    console.error(`❌ Webhook ${providerId} non valido:`, error.message ?? error);
+    return { error: "Webhook signature verification failed", status: 400 };
+  }
+
+  const eventId = webhookEventKey(providerId, request);
+  const event = await storage.recordWebhookEvent({
+    provider: providerId,
+    eventId,
+    events,
+    rawBody: request.rawBody,
+  });
+  if (!event) {
+    console.log(`Webhook ${providerId} ${eventId} già ricevuto, ignorato`);
+    return { event: undefined, duplicate: true };
+  }
+
+  // Elaborazione subito dopo la risposta al provider; i tentativi successivi sono dello scheduler
+  setImmediate(() => {
+    processWebhookInbox().catch(error => console.error("❌ Webhook worker failed:", error));
+  });
+  return { event, duplicate: false };
+}
+
+async function processEvent(event: WebhookInboxEvent): Promise<void> {
+  try {
+    // Le modifiche risultano nel log di audit come arrivate dal webhook, anche se rilanciate a mano
+    await runWithAuditContext({ source: AuditSource.WEBHOOK }, async () => {
+      for (const item of event.events as WebhookEvent[]) {
+        await applyWebhookEvent(event.provider, item);
+      }
+    });
+    await storage.completeWebhookEvent(event.id);
+  } catch (error: any) {
+    console.error(`❌ Webhook ${event.provider} ${event.eventId} fallito (tentativo ${event.attempts}):`, error);
+    await storage.failWebhookEvent(event.id, error.message ?? String(error), nextAttemptAt(event.attempts));
+  }
+}
+
+/**
+ * Worker della coda: elabora gli eventi nuovi e quelli da ritentare.
+ * Ogni evento viene preso in carico con un aggiornamento condizionato, quindi è elaborato una sola volta
+ * anche con più worker o istanze del server.
+ */
+export async function processWebhookInbox(): Promise<number> {
+  if (workerRunning) return 0;
+  workerRunning = true;
+  let processed = 0;
+  try {
+    // Si ricontrolla la coda finché è vuota: gli eventi arrivati durante il giro non aspettano lo scheduler
+    while (true) {
+      const staleBefore = staleLockCutoff();
+      const ids = await storage.getDueWebhookEventIds(staleBefore);
+      if (ids.length === 0) break;
+      for (const id of ids) {
+        const event = await storage.claimWebhookEvent(id, staleBefore);
+        if (!event) continue;
+        await processEvent(event);
+        processed++;
+      }
+    }
+  } finally {
+    workerRunning = false;
+  }
+  return processed;
+}
+
+/**
+ * Rilancia un evento dalla vista di amministrazione (es. dopo aver corretto la causa dell'errore)
+ */
+export async function replayWebhookEvent(id: number): Promise<WebhookInboxEvent | FlowError> {
+  const existing = await storage.getWebhookEvent(id);
+  if (!existing) {
+    return { error: "Evento non trovato", status: 404 };
+  }
+  const event = await storage.resetWebhookEvent(id);
+  if (!event) {
+    return { error: "L'evento è in elaborazione, riprova tra poco", status: 409 };
+  }
+
+  const claimed = await storage.claimWebhookEvent(id, staleLockCutoff());
+  if (claimed) {
+    await processEvent(claimed);
+  }
+  return (await storage.getWebhookEvent(id))!;
+}
@@ -0,0 +1,29 @@
+import type { Request, Response } from "express";
+import { receiveWebhook } from "./webhookInbox";
+
+/**
+ * Webhook dei provider di pagamento. Il corpo arriva grezzo (express.raw) perché
+ * le firme si verificano sui byte ricevuti; senza provider nel percorso si usa quello indicato.
+ * L'evento viene solo messo in coda: si risponde subito al provider, l'elaborazione è del worker.
+ */
+export function handlePaymentWebhook(fixedProviderId?: string) {
+  return async (req: Request, res: Response) => {
+    const providerId = fixedProviderId ?? req.params.provider;
+    try {
+      const rawBody = Buffer.isBuffer(req.body) ? req.body.toString("utf8") : "";
+      const result = await receiveWebhook(providerId, {
+        headers: req.headers,
+        rawBody,
+        query: req.query,
+      });
+
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json({ received: true, duplicate: result.duplicate });
+    } catch (error) {
+      console.error(`Failed to handle ${providerId} webhook:`, error);
+      res.status(500).json({ error: "Failed to process webhook." });
+    }
+  };
+}
@@ -0,0 +1,219 @@
+import type { Request, Response, NextFunction } from "express";
+import { UserRole, UserRoleValue, Capability, CapabilityValue } from "@shared/schema";
+
+const ALL_CAPABILITIES = Object.values(Capability) as CapabilityValue[];
+
+/**
+ * Capacità concesse a ciascun ruolo
+ */
+export const ROLE_CAPABILITIES: Record<UserRoleValue, CapabilityValue[]> = {
+  [UserRole.ADMIN]: ALL_CAPABILITIES,
+  [UserRole.SECRETARIAT]: [
+    Capability.DASHBOARD_READ,
+    Capability.SERVICES_READ,
+    Capability.SERVICES_WRITE,
+    Capability.PAYMENTS_READ,
+    Capability.PAYMENTS_WRITE,
+    Capability.STUDENTS_READ,
+    Capability.STUDENTS_WRITE,
+    Capability.STUDENTS_IMPORT,
+    Capability.MAINTENANCE_READ,
+    Capability.MAINTENANCE_WRITE,
+    Capability.BIKES_READ,
+    Capability.BIKES_WRITE,
+    Capability.REPORTS_READ,
+    Capability.REPORTS_GENERATE,
+    Capability.SEARCH,
+    Capability.ACCOUNT_SELF,
+  ],
+  [UserRole.MAINTAINER]: [
+    Capability.MAINTENANCE_READ,
+    Capability.MAINTENANCE_WRITE,
+    Capability.ACCOUNT_SELF,
+  ],
+  [UserRole.READ_ONLY]: [
+    Capability.DASHBOARD_READ,
+    Capability.SERVICES_READ,
+    Capability.PAYMENTS_READ,
+    Capability.STUDENTS_READ,
+    Capability.MAINTENANCE_READ,
+    Capability.BIKES_READ,
+    Capability.REPORTS_READ,
+    Capability.SEARCH,
+    Capability.ACCOUNT_SELF,
+  ],
+};
+
+export function getCapabilities(role: string): CapabilityValue[] {
+  return ROLE_CAPABILITIES[role as UserRoleValue] ?? [];
+}
+
+export function hasCapability(role: string, capability: CapabilityValue): boolean {
+  return getCapabilities(role).includes(capability);
+}
+
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "*";
+
+interface PermissionRule {
+  method: HttpMethod;
+  // Percorso in stile Express (":param"); un "/*" finale copre tutti i sottopercorsi
+  path: string;
+  capability: CapabilityValue;
+}
+
+/**
+ * Matrice dei permessi: la prima regola che corrisponde a metodo e percorso vince.
+ * Le rotte pubbliche (pagine studenti, webhook, login) sono escluse a monte in auth.ts;
+ * una rotta /api non elencata qui è accessibile solo agli admin.
+ */
+export const PERMISSION_MATRIX: PermissionRule[] = [
+  // Account e utenti dello staff
+  { method: "POST", path: "/api/user/password", capability: Capability.ACCOUNT_SELF },
+  { method: "*", path: "/api/users/*", capability: Capability.USERS_MANAGE },
+  { method: "*", path: "/api/users", capability: Capability.USERS_MANAGE },
+
+  // Dashboard
+  { method: "GET", path: "/api/dashboard/*", capability: Capability.DASHBOARD_READ },
+  { method: "GET", path: "/api/historical-data", capability: Capability.DASHBOARD_READ },
+  { method: "GET", path: "/api/fiscal-years", capability: Capability.DASHBOARD_READ },
+
+  // Servizi e pagamenti
+  { method: "GET", path: "/api/services/:id/receipt", capability: Capability.PAYMENTS_READ },
+  { method: "PATCH", path: "/api/services/:id/mark-paid", capability: Capability.PAYMENTS_WRITE },
+  { method: "GET", path: "/api/services/*", capability: Capability.SERVICES_READ },
+  { method: "GET", path: "/api/services", capability: Capability.SERVICES_READ },
+  { method: "*", path: "/api/services/*", capability: Capability.SERVICES_WRITE },
+  { method: "*", path: "/api/services", capability: Capability.SERVICES_WRITE },
+  { method: "GET", path: "/api/receipts/*", capability: Capability.PAYMENTS_READ },
+  { method: "GET", path: "/api/receipts", capability: Capability.PAYMENTS_READ },
+  { method: "GET", path: "/api/paypal/check-status/:orderId", capability: Capability.PAYMENTS_READ },
+  { method: "GET", path: "/api/stripe/verify/:orderId", capability: Capability.PAYMENTS_READ },
+  { method: "POST", path: "/api/create-payment-intent", capability: Capability.PAYMENTS_WRITE },
+  { method: "GET", path: "/api/secretariat-payments/:id/refunds", capability: Capability.PAYMENTS_READ },
+  { method: "POST", path: "/api/secretariat-payments/:id/refund", capability: Capability.PAYMENTS_WRITE },
+  { method: "GET", path: "/api/reconciliation/*", capability: Capability.PAYMENTS_READ },
+  { method: "POST", path: "/api/reconciliation/runs", capability: Capability.PAYMENTS_WRITE },
+  { method: "POST", path: "/api/payment-reminders/run", capability: Capability.PAYMENTS_WRITE },
+
+  // Catalogo servizi e listino prezzi: li legge chi registra servizi, li modifica solo l'admin
+  { method: "GET", path: "/api/service-catalog", capability: Capability.SERVICES_READ },
+  { method: "*", path: "/api/service-catalog/*", capability: Capability.PRICES_MANAGE },
+  { method: "*", path: "/api/service-catalog", capability: Capability.PRICES_MANAGE },
+  { method: "GET", path: "/api/prices/*", capability: Capability.SERVICES_READ },
+  { method: "GET", path: "/api/prices", capability: Capability.SERVICES_READ },
+  { method: "*", path: "/api/prices/*", capability: Capability.PRICES_MANAGE },
+  { method: "*", path: "/api/prices", capability: Capability.PRICES_MANAGE },
+
+  // Studenti
+  { method: "POST", path: "/api/students/import", capability: Capability.STUDENTS_IMPORT },
+  // L'estratto conto è un dato contabile: serve la capacità sui pagamenti
+  { method: "GET", path: "/api/students/:id/ledger", capability: Capability.PAYMENTS_READ },
+  { method: "POST", path: "/api/students/:id/ledger/adjustments", capability: Capability.PAYMENTS_WRITE },
+  { method: "GET", path: "/api/students/:id/payment-reminders", capability: Capability.PAYMENTS_READ },
+  { method: "GET", path: "/api/students/*", capability: Capability.STUDENTS_READ },
+  { method: "GET", path: "/api/students", capability: Capability.STUDENTS_READ },
+  { method: "*", path: "/api/students/*", capability: Capability.STUDENTS_WRITE },
+  { method: "*", path: "/api/students", capability: Capability.STUDENTS_WRITE },
+
+  // Manutenzione
+  { method: "POST", path: "/api/maintenance/import", capability: Capability.DATA_IMPORT },
+  { method: "POST", path: "/api/maintenance/sync-google-sheets", capability: Capability.INTEGRATIONS_MANAGE },
+  { method: "GET", path: "/api/maintenance/*", capability: Capability.MAINTENANCE_READ },
+  { method: "GET", path: "/api/maintenance", capability: Capability.MAINTENANCE_READ },
+  { method: "*", path: "/api/maintenance/*", capability: Capability.MAINTENANCE_WRITE },
+  { method: "*", path: "/api/maintenance", capability: Capability.MAINTENANCE_WRITE },
+
+  // Prenotazioni bici, flotta e fasce orarie
+  { method: "GET", path: "/api/bike-reservations/*", capability: Capability.BIKES_READ },
+  { method: "GET", path: "/api/bike-reservations", capability: Capability.BIKES_READ },
+  { method: "*", path: "/api/bike-reservations/*", capability: Capability.BIKES_WRITE },
+  { method: "*", path: "/api/bike-reservations", capability: Capability.BIKES_WRITE },
+  { method: "GET", path: "/api/bikes", capability: Capability.BIKES_READ },
+  { method: "*", path: "/api/bikes/*", capability: Capability.BIKES_WRITE },
+  { method: "*", path: "/api/bikes", capability: Capability.BIKES_WRITE },
+  { method: "GET", path: "/api/bike-slots", capability: Capability.BIKES_READ },
+  { method: "*", path: "/api/bike-slots/*", capability: Capability.BIKES_WRITE },
+  { method: "*", path: "/api/bike-slots", capability: Capability.BIKES_WRITE },
+
+  // Report
+  { method: "POST", path: "/api/reports/generate", capability: Capability.REPORTS_GENERATE },
+  { method: "GET", path: "/api/reports/*", capability: Capability.REPORTS_READ },
+
+  // Ricerca AI
+  { method: "POST", path: "/api/search", capability: Capability.SEARCH },
+  { method: "POST", path: "/api/analyze-query", capability: Capability.SEARCH },
+
+  // Integrazioni esterne e diagnostica
+  { method: "*", path: "/api/google/*", capability: Capability.INTEGRATIONS_MANAGE },
+  { method: "GET", path: "/api/satispay/test-auth", capability: Capability.INTEGRATIONS_MANAGE },
+  { method: "GET", path: "/api/sumup-env-debug", capability: Capability.INTEGRATIONS_MANAGE },
+  { method: "*", path: "/api/webhook-events/*", capability: Capability.INTEGRATIONS_MANAGE },
+  { method: "GET", path: "/api/webhook-events", capability: Capability.INTEGRATIONS_MANAGE },
+  { method: "*", path: "/api/notifications/*", capability: Capability.INTEGRATIONS_MANAGE },
+  { method: "GET", path: "/api/notifications", capability: Capability.INTEGRATIONS_MANAGE },
+
+  // Log di audit
+  { method: "GET", path: "/api/audit-log", capability: Capability.AUDIT_READ },
+
+  // Controllo di integrità dei dati
+  { method: "GET", path: "/api/integrity/orphans", capability: Capability.AUDIT_READ },
+  { method: "GET", path: "/api/integrity/money-conversion", capability: Capability.AUDIT_READ },
+
+  // Operazioni sull'intero database (solo admin)
+  { method: "*", path: "/api/archive/*", capability: Capability.ARCHIVE_MANAGE },
+  { method: "*", path: "/api/import/*", capability: Capability.DATA_IMPORT },
+  { method: "*", path: "/api/recovery/*", capability: Capability.DATABASE_RECOVERY },
+];
+
+interface CompiledRule extends PermissionRule {
+  pattern: RegExp;
+}
+
+function compilePath(path: string): RegExp {
+  const wildcard = path.endsWith("/*");
+  const base = wildcard ? path.slice(0, -2) : path;
+  const source = base
+    .split("/")
+    .map(segment => segment.startsWith(":") ? "[^/]+" : segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("/");
+  return new RegExp(`^${source}${wildcard ? "/.+" : ""}/?$`);
+}
+
+const compiledMatrix: CompiledRule[] = PERMISSION_MATRIX.map(rule => ({
+  ...rule,
+  pattern: compilePath(rule.path),
+}));
+
+/**
+ * Restituisce la capacità richiesta per metodo e percorso
+ */
+export function resolveCapability(method: string, path: string): CapabilityValue {
+  const normalizedMethod = method === "HEAD" ? "GET" : method.toUpperCase();
+  const rule = compiledMatrix.find(r =>
+    (r.method === "*" || r.method === normalizedMethod) && r.pattern.test(path)
+  );
+  return rule ? rule.capability : Capability.SYSTEM_MANAGE;
+}
+
+/**
+ * Middleware: verifica che il ruolo dell'utente autenticato abbia la capacità
+ * richiesta dalla rotta secondo la matrice dei permessi
+ */
+export function enforcePermissions(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+
+  const path = req.originalUrl.split("?")[0];
+  const capability = resolveCapability(req.method, path);
+
+  if (!hasCapability(req.user.role, capability)) {
+    return res.status(403).json({
+      error: "Forbidden",
+      message: "Non hai i permessi necessari per questa operazione",
+      requiredCapability: capability,
+    });
+  }
+
+  next();
+}
@@ -1,142 +1,150 @@
-import { Request, Response } from "express";
+import { RefundKind } from "@shared/schema";
+import { toCents } from "@shared/money";
+import { normalizePaymentStatus } from "./payments/status";
+import { enforceSignature, headerValue, SignatureCheck, verifyTimestampedHmac } from "./payments/signatures";
+import type { PaymentProvider, WebhookRequest } from "./payments/types";
 
-interface RevolutPaymentRequest {
-  sigla: string;
-  amount: number;
-  customerName: string;
-  description?: string;
-}
+const REVOLUT_API_URL = "https://merchant.revolut.com/api/1.0";
 
-interface RevolutPayment {
+interface RevolutOrder {
   id: string;
-  amount: number;
-  currency: string;
-  status: string;
-  description: string;
-  redirect_url?: string;
-  metadata?: Record<string, string>;
-  created_at: string;
+  state: string;
+  checkout_url?: string;
+}
+
+async function revolutRequest(method: string, path: string, body?: unknown): Promise<any> {
+  const response = await fetch(`${REVOLUT_API_URL}${path}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${process.env.REVOLUT_API_KEY}`,
+      'Content-Type': 'application/json'
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+  if (!response.ok) {
+    throw new Error(`Revolut API error: ${response.status} - ${await response.text()}`);
+  }
+  return response.json();
 }
 
 /**
- * Create a Revolut payment
- * Currently returns a mock response for development.
- * TODO: Implement actual Revolut Merchant API integration
+ * Firma dei webhook Revolut: Revolut-Signature contiene "v1=<hex>" (più firme separate da virgola
+ * durante la rotazione del segreto), HMAC-SHA256 di "v1.{Revolut-Request-Timestamp}.{corpo}".
+ * Il timestamp è in millisecondi.
  */
-export async function createRevolutPayment(req: Request, res: Response) {
-  try {
-    const { sigla, amount, customerName, description }: RevolutPaymentRequest = req.body;
-
-    if (!sigla || !amount || !customerName) {
-      return res.status(400).json({
-        success: false,
-        message: "Parametri mancanti: sigla, amount e customerName sono obbligatori"
-      });
-    }
-
-    // Mock payment creation - replace with actual Revolut API call
-    const mockPayment: RevolutPayment = {
-      id: `revolut_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      amount: amount,
-      currency: 'EUR',
-      status: 'PENDING',
-      description: description || `Pagamento servizi ELIS - ${sigla}`,
-      redirect_url: `${req.protocol}://${req.get('host')}/secretariat-payment?success=true&sigla=${sigla}`,
-      metadata: {
-        sigla: sigla,
-        customerName: customerName
-      },
-      created_at: new Date().toISOString()
-    };
-
-    console.log('Revolut payment created (mock):', mockPayment);
-
-    res.json({
-      success: true,
-      paymentId: mockPayment.id,
-      redirect_url: mockPayment.redirect_url,
-      status: mockPayment.status,
-      message: "Pagamento Revolut creato con successo (modalità sviluppo)"
-    });
-
-  } catch (error: any) {
-    console.error("Errore nella creazione pagamento Revolut:", error);
-    res.status(500).json({
-      success: false,
-      message: "Errore interno del server nella creazione del pagamento Revolut"
-    });
-  }
+export function verifyRevolutSignature(request: WebhookRequest, secret: string, nowMs?: number): SignatureCheck {
+  const timestamp = headerValue(request.headers, "revolut-request-timestamp");
+  const signatures = (headerValue(request.headers, "revolut-signature") ?? "")
+    .split(",")
+    .map(part => part.trim())
+    .filter(part => part.startsWith("v1="))
+    .map(part => part.slice(3));
+
+  return verifyTimestampedHmac({
+    secret,
+    signedPayload: `v1.${timestamp}.${request.rawBody}`,
+    signatures,
+    timestampSeconds: timestamp ? Number(timestamp) / 1000 : undefined,
+    nowMs,
+  });
 }
 
 /**
- * Check Revolut payment status
- * Currently returns a mock response for development.
- * TODO: Implement actual Revolut payment status checking
+ * Revolut Merchant API
+ * Without REVOLUT_API_KEY no order can be created: in development use the payment simulator (PAYMENT_SIMULATOR=true).
  */
-export async function checkRevolutPaymentStatus(req: Request, res: Response) {
-  try {
-    const { paymentId } = req.params;
-
-    if (!paymentId) {
-      return res.status(400).json({
-        success: false,
-        message: "ID pagamento mancante"
-      });
+export const revolutProvider: PaymentProvider = {
+  id: "revolut",
+  label: "Revolut",
+  description: "Pagamento con app Revolut",
+
+  isConfigured() {
+    return !!process.env.REVOLUT_API_KEY;
+  },
+  hasStatusApi: true,
+
+  async createPayment(input) {
+    if (!process.env.REVOLUT_API_KEY) {
+      throw new Error("REVOLUT_API_KEY non configurata");
     }
 
-    // Mock status check - replace with actual Revolut API call
-    const mockStatus = {
-      id: paymentId,
-      status: 'COMPLETED', // Simulate successful payment
-      localStatus: 'completed',
-      amount: 0, // This would come from the actual API
+    const order: RevolutOrder = await revolutRequest('POST', '/orders', {
+      amount: toCents(input.amount),
       currency: 'EUR',
-      completed_at: new Date().toISOString()
-    };
-
-    console.log('Revolut payment status check (mock):', mockStatus);
-
-    res.json({
-      success: true,
-      ...mockStatus
+      description: input.description,
+      merchant_order_ext_ref: input.orderId,
+      customer_email: input.customerEmail,
     });
 
-  } catch (error: any) {
-    console.error("Errore nel controllo stato pagamento Revolut:", error);
-    res.status(500).json({
-      success: false,
-      message: "Errore nel controllo dello stato del pagamento Revolut"
-    });
-  }
-}
+    return {
+      providerPaymentId: order.id,
+      status: normalizePaymentStatus("revolut", order.state),
+      live: true,
+      redirectUrl: order.checkout_url,
+    };
+  },
 
-/**
- * Handle Revolut webhook
- * Currently returns a mock response for development.
- * TODO: Implement actual Revolut webhook handling and signature verification
- */
-export async function handleRevolutWebhook(req: Request, res: Response) {
-  try {
-    const webhookData = req.body;
-    
-    console.log('Revolut webhook received (mock):', webhookData);
-
-    // Mock webhook processing
-    // In a real implementation, you would:
-    // 1. Verify the webhook signature
-    // 2. Process the payment status update
-    // 3. Update the database accordingly
-
-    res.status(200).json({
-      success: true,
-      message: "Webhook Revolut processato con successo"
-    });
+  async getStatus(payment) {
+    if (!payment.paymentIntentId) {
+      // Nessun ordine registrato presso Revolut: non c'è niente di pagato da verificare
+      return { status: normalizePaymentStatus("revolut", "PENDING"), rawStatus: "PENDING" };
+    }
+    if (!process.env.REVOLUT_API_KEY) {
+      throw new Error("REVOLUT_API_KEY non configurata");
+    }
+
+    const order: RevolutOrder = await revolutRequest('GET', `/orders/${payment.paymentIntentId}`);
+    return { status: normalizePaymentStatus("revolut", order.state), rawStatus: order.state };
+  },
+
+  async parseWebhook(request) {
+    const secret = process.env.REVOLUT_WEBHOOK_SECRET;
+    enforceSignature("revolut", secret ? verifyRevolutSignature(request, secret) : null);
+
+    const webhookData = JSON.parse(request.rawBody);
+    console.log('Revolut webhook received:', webhookData);
+
+    if (!webhookData.order_id || !webhookData.event) return [];
+
+    // Contestazioni: aperta sull'intero ordine, chiusa a favore della residenza
+    const disputeId = `revolut_dispute_${webhookData.order_id}`;
+    if (webhookData.event === 'DISPUTE_ACTION_REQUIRED') {
+      return [{
+        type: "refund",
+        providerPaymentId: webhookData.order_id,
+        providerRefundId: disputeId,
+        amount: null,
+        kind: RefundKind.CHARGEBACK,
+        reason: "Contestazione Revolut",
+      }];
+    }
+    if (webhookData.event === 'DISPUTE_WON') {
+      return [{ type: "dispute_won", providerRefundId: disputeId }];
+    }
+    if (!webhookData.event.startsWith('ORDER_')) return [];
+
+    return [{
+      type: "payment",
+      providerPaymentId: webhookData.order_id,
+      orderId: webhookData.merchant_order_ext_ref,
+      status: normalizePaymentStatus("revolut", webhookData.event),
+      rawStatus: webhookData.event,
+    }];
+  },
+
+  async refund(payment, amount) {
+    if (!process.env.REVOLUT_API_KEY) {
+      throw new Error("REVOLUT_API_KEY non configurata");
+    }
+    if (!payment.paymentIntentId) {
+      throw new Error('Ordine Revolut non registrato per questo pagamento');
+    }
 
-  } catch (error: any) {
-    console.error("Errore nel processare webhook Revolut:", error);
-    res.status(500).json({
-      success: false,
-      message: "Errore nel processare il webhook Revolut"
+    const refund = await revolutRequest('POST', `/orders/${payment.paymentIntentId}/refund`, {
+      amount: toCents(amount),
+      currency: 'EUR'
     });
-  }
-}
\ No newline at end of file
+    return refund.id;
+  },
+};
@@ -0,0 +1,666 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BikeReservationStatus,
+  MaintenanceRequestPriority,
+  MaintenanceRequestStatus,
+  NotificationKind,
+  NotificationStatus,
+  PaymentStatus,
+  ReconciliationTrigger,
+  SecretariatPaymentStatus,
+  ServiceType,
+  UserRole,
+} from "@shared/schema";
+import {
+  integrationSkip,
+  setupIntegrationDatabase,
+  startIntegrationApp,
+  type IntegrationApp,
+  type IntegrationDatabase,
+  type TestClient,
+} from "./test/integration";
+
+type StudentPortalService = typeof import("./services/studentPortalService");
+
+describe("API routes", { skip: integrationSkip }, () => {
+  let database: IntegrationDatabase;
+  let app: IntegrationApp;
+  let admin: TestClient;
+  let portal: StudentPortalService;
+
+  before(async () => {
+    database = await setupIntegrationDatabase();
+    app = await startIntegrationApp();
+    portal = await import("./services/studentPortalService");
+  });
+
+  // Accesso al portale con un codice generato come quello inviato via email
+  async function loginStudent(client: TestClient, sigla: string) {
+    const student = await database.storage.getStudentBySigla(sigla);
+    const { code } = await portal.issueStudentLoginCode(student!.id);
+    return client.request("POST", "/api/portal/verify", { sigla, code });
+  }
+
+  after(async () => {
+    await app?.close();
+    await database?.teardown();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    await database.createStaffUser("admin", UserRole.ADMIN);
+    await database.createStaffUser("viewer", UserRole.READ_ONLY);
+    admin = app.client();
+    assert.equal((await admin.login("admin")).status, 200);
+  });
+
+  describe("authentication and permissions", () => {
+    it("rejects staff endpoints without a session", async () => {
+      const response = await app.client().request("GET", "/api/services");
+      assert.equal(response.status, 401);
+    });
+
+    it("rejects wrong credentials and returns the capabilities on login", async () => {
+      const client = app.client();
+      assert.equal((await client.login("admin", "wrong")).status, 401);
+
+      const login = await client.login("viewer");
+      assert.equal(login.status, 200);
+      assert.equal(login.body.password, undefined);
+      assert.ok(login.body.capabilities.includes("services:read"));
+
+      const user = await client.request("GET", "/api/user");
+      assert.equal(user.body.username, "viewer");
+    });
+
+    it("lets a read-only user read services but not create them", async () => {
+      const viewer = app.client();
+      await viewer.login("viewer");
+      assert.equal((await viewer.request("GET", "/api/services")).status, 200);
+
+      const response = await viewer.request("POST", "/api/services", {
+        sigla: "101", date: "2025-01-10", type: ServiceType.SIGLATURA, amount: 0.5, status: PaymentStatus.UNPAID,
+      });
+      assert.equal(response.status, 403);
+      assert.equal(response.body.requiredCapability, "services:write");
+    });
+  });
+
+  describe("services", () => {
+    it("creates, lists, filters, updates and deletes services", async () => {
+      const created = await admin.request("POST", "/api/services", {
+        sigla: "101", date: "2025-01-10", pieces: 2, type: ServiceType.SIGLATURA, amount: 1, status: PaymentStatus.UNPAID,
+      });
+      assert.equal(created.status, 201);
+      await admin.request("POST", "/api/services", {
+        sigla: "202", date: "2025-02-10", type: ServiceType.HAPPY_HOUR, amount: 1, status: PaymentStatus.PAID,
+      });
+
+      const all = await admin.request("GET", "/api/services?page=1&limit=10");
+      assert.equal(all.status, 200);
+      assert.equal(all.body.total, 2);
+      assert.equal(all.body.services[0].sigla, "202");
+
+      const unpaid = await admin.request("GET", `/api/services?status=${PaymentStatus.UNPAID}`);
+      assert.deepEqual(unpaid.body.services.map((s: any) => s.sigla), ["101"]);
+
+      const updated = await admin.request("PUT", `/api/services/${created.body.id}`, { status: PaymentStatus.PAID });
+      assert.equal(updated.status, 200);
+      assert.equal((await admin.request("GET", `/api/services/${created.body.id}`)).body.status, PaymentStatus.PAID);
+
+      assert.equal((await admin.request("DELETE", `/api/services/${created.body.id}`)).status, 204);
+      assert.equal((await admin.request("GET", `/api/services/${created.body.id}`)).status, 404);
+    });
+
+    it("validates new services", async () => {
+      const missingSigla = await admin.request("POST", "/api/services", {
+        sigla: " ", date: "2025-01-10", type: ServiceType.SIGLATURA, amount: 1, status: PaymentStatus.UNPAID,
+      });
+      assert.equal(missingSigla.status, 400);
+
+      const unknownType = await admin.request("POST", "/api/services", {
+        sigla: "101", date: "2025-01-10", type: "lavanderia", amount: 1, status: PaymentStatus.UNPAID,
+      });
+      assert.equal(unknownType.status, 400);
+      assert.match(unknownType.body.message, /lavanderia/);
+
+      const badDate = await admin.request("POST", "/api/services", {
+        sigla: "101", date: "10/01/2025", type: ServiceType.SIGLATURA, amount: 1, status: PaymentStatus.UNPAID,
+      });
+      assert.equal(badDate.status, 400);
+    });
+
+    it("reports dashboard metrics", async () => {
+      await admin.request("POST", "/api/services", {
+        sigla: "101", date: "2025-01-10", type: ServiceType.RIPARAZIONE, amount: 4, status: PaymentStatus.UNPAID,
+      });
+      const metrics = await admin.request("GET", "/api/dashboard/metrics");
+      assert.equal(metrics.status, 200);
+      assert.equal(metrics.body.totalServices, 1);
+      assert.equal(metrics.body.pendingAmount, 4);
+      assert.equal(metrics.body.countsByType[ServiceType.RIPARAZIONE], 1);
+    });
+
+    it("refuses to delete a service with receipts", async () => {
+      const created = await admin.request("POST", "/api/services", {
+        sigla: "999", date: "2025-01-10", type: ServiceType.SIGLATURA, amount: 0.5, status: PaymentStatus.PAID,
+      });
+      await database.storage.createReceipt({ serviceId: created.body.id, receiptNumber: "R-1", amount: 0.5, paymentMethod: "cash" });
+
+      const response = await admin.request("DELETE", `/api/services/${created.body.id}`);
+      assert.equal(response.status, 409);
+      assert.deepEqual(response.body.references, { receipts: 1 });
+      assert.equal((await admin.request("GET", `/api/services/${created.body.id}`)).status, 200);
+    });
+  });
+
+  describe("students", () => {
+    it("imports students from CSV and lists them", async () => {
+      const imported = await admin.request("POST", "/api/students/import", {
+        csvData: "Nome,Cognome,Sigla\nMario,Rossi,101\nLuca,Bianchi,102",
+      });
+      assert.deepEqual(imported.body, { success: 2, failed: 0 });
+
+      const list = await admin.request("GET", "/api/students?page=1&limit=10");
+      assert.equal(list.body.total, 2);
+      assert.equal((await admin.request("GET", "/api/students/by-sigla/102")).body.lastName, "Bianchi");
+    });
+
+    it("accepts only a valid email for a student", async () => {
+      const invalid = await admin.request("POST", "/api/students", {
+        sigla: "101", firstName: "Mario", lastName: "Rossi", email: "mario@example.org\r\nBcc: other@example.org",
+      });
+      assert.equal(invalid.status, 400);
+
+      const student = await admin.request("POST", "/api/students", { sigla: "101", firstName: "Mario", lastName: "Rossi", email: null });
+      assert.equal(student.status, 201);
+      assert.equal((await admin.request("PUT", `/api/students/${student.body.id}`, { email: "non un indirizzo" })).status, 400);
+      const updated = await admin.request("PUT", `/api/students/${student.body.id}`, { email: "mario@example.org" });
+      assert.equal(updated.body.email, "mario@example.org");
+    });
+
+    it("refuses to delete a student with services", async () => {
+      const student = await admin.request("POST", "/api/students", { sigla: "101", firstName: "Mario", lastName: "Rossi" });
+      await admin.request("POST", "/api/services", {
+        sigla: "101", date: "2025-01-10", type: ServiceType.SIGLATURA, amount: 0.5, status: PaymentStatus.UNPAID,
+      });
+
+      const response = await admin.request("DELETE", `/api/students/${student.body.id}`);
+      assert.equal(response.status, 409);
+      assert.deepEqual(response.body.references, { services: 1 });
+      assert.equal((await admin.request("DELETE", "/api/students/99999")).status, 404);
+    });
+
+    it("requires the CSV data", async () => {
+      assert.equal((await admin.request("POST", "/api/students/import", {})).status, 400);
+    });
+  });
+
+  describe("public student checkout", () => {
+    beforeEach(async () => {
+      process.env.PAYMENT_SIMULATOR = "true";
+      process.env.PAYMENT_SIMULATOR_SCENARIO = "interactive";
+      process.env.PAYMENT_SIMULATOR_DELAY_MS = "0";
+      process.env.PAYMENT_PROVIDERS = "stripe";
+
+      const { storage } = database;
+      await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi" });
+      await storage.createService({
+        sigla: "101", date: "2025-01-10", pieces: 1, type: ServiceType.SIGLATURA, amount: 2.5, status: PaymentStatus.UNPAID,
+      });
+    });
+
+    after(() => {
+      for (const key of ["PAYMENT_SIMULATOR", "PAYMENT_SIMULATOR_SCENARIO", "PAYMENT_SIMULATOR_DELAY_MS", "PAYMENT_PROVIDERS"]) {
+        delete process.env[key];
+      }
+    });
+
+    it("lists the pending services only to the student of the sigla", async () => {
+      const student = app.client();
+      assert.equal((await student.request("GET", "/api/public/services/pending/101")).status, 401);
+      assert.equal((await student.request("GET", "/api/public/services/by-sigla/101")).status, 401);
+
+      assert.equal((await loginStudent(student, "101")).status, 200);
+      const pending = await student.request("GET", "/api/public/services/pending/101");
+      assert.equal(pending.status, 200);
+      assert.equal(pending.body.totalAmount, 2.5);
+      assert.equal(pending.body.servicesCount, 1);
+      assert.equal((await student.request("GET", "/api/public/services/pending/102")).status, 403);
+
+      // Lo staff che può consultare gli studenti continua a vedere ogni sigla
+      assert.equal((await admin.request("GET", "/api/public/services/pending/999")).status, 404);
+      await database.createStaffUser("maintainer", UserRole.MAINTAINER);
+      const maintainer = app.client();
+      assert.equal((await maintainer.login("maintainer")).status, 200);
+      assert.equal((await maintainer.request("GET", "/api/public/services/pending/101")).status, 403);
+      assert.equal((await maintainer.request("POST", "/api/public/payments/stripe", { sigla: "101", customerName: "Mario Rossi" })).status, 403);
+    });
+
+    it("pays through the provider webhook and settles the service", async () => {
+      const student = app.client();
+      await loginStudent(student, "101");
+      const checkout = await student.request("POST", "/api/public/payments/stripe", {
+        sigla: "101", customerName: "Mario Rossi",
+      });
+      assert.equal(checkout.status, 200);
+      assert.equal(checkout.body.isSimulated, true);
+      assert.equal(checkout.body.amount, 2.5);
+
+      const outcome = await student.request(
+        "POST",
+        `/api/public/payment-simulator/stripe/${encodeURIComponent(checkout.body.providerPaymentId)}`,
+        { outcome: "success" }
+      );
+      assert.equal(outcome.status, 200);
+
+      // Il webhook simulato passa dalla coda ed è elaborato in modo asincrono
+      let status = SecretariatPaymentStatus.PENDING as string;
+      for (let attempt = 0; attempt < 50 && status !== SecretariatPaymentStatus.COMPLETED; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+        status = (await student.request("GET", `/api/public/payments/stripe/${checkout.body.orderId}`)).body.status;
+      }
+      assert.equal(status, SecretariatPaymentStatus.COMPLETED);
+
+      const pending = await student.request("GET", "/api/public/services/pending/101");
+      assert.equal(pending.body.servicesCount, 0);
+    });
+
+    it("fails the checkout of a provider without credentials and never reopens it", async () => {
+      delete process.env.PAYMENT_SIMULATOR;
+      process.env.PAYMENT_PROVIDERS = "satispay";
+      const student = app.client();
+      await loginStudent(student, "101");
+
+      const checkout = await student.request("POST", "/api/public/payments/satispay", { sigla: "101", customerName: "Mario Rossi" });
+      assert.equal(checkout.status, 502);
+      const [payment] = await database.storage.getSecretariatPayments({});
+      assert.equal(payment.status, SecretariatPaymentStatus.FAILED);
+
+      // Né la verifica dello stato né un esito tardivo del provider riaprono il pagamento
+      const status = await student.request("GET", `/api/public/payments/satispay/${payment.orderId}`);
+      assert.equal(status.body.status, SecretariatPaymentStatus.FAILED);
+      const { applyPaymentStatus } = await import("./payments/checkout");
+      const applied = await applyPaymentStatus(payment, SecretariatPaymentStatus.COMPLETED);
+      assert.equal(applied.status, SecretariatPaymentStatus.FAILED);
+      assert.equal((await student.request("GET", "/api/public/services/pending/101")).body.servicesCount, 1);
+    });
+
+    it("refuses unknown providers and siglas", async () => {
+      const student = app.client();
+      await loginStudent(student, "101");
+      const provider = await student.request("POST", "/api/public/payments/bitcoin", { sigla: "101", customerName: "Mario Rossi" });
+      assert.equal(provider.status, 404);
+
+      const other = await student.request("POST", "/api/public/payments/stripe", { sigla: "102", customerName: "Mario Rossi" });
+      assert.equal(other.status, 403);
+      const sigla = await admin.request("POST", "/api/public/payments/stripe", { sigla: "999", customerName: "Mario Rossi" });
+      assert.equal(sigla.status, 400);
+    });
+  });
+
+  describe("student portal", () => {
+    beforeEach(async () => {
+      const { storage } = database;
+      await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi", email: "mario@example.com" });
+      await storage.createStudent({ sigla: "102", firstName: "Luca", lastName: "Bianchi", email: "luca@example.com" });
+      await storage.createService({
+        sigla: "101", date: "2025-01-10", pieces: 1, type: ServiceType.SIGLATURA, amount: 2.5, status: PaymentStatus.UNPAID,
+      });
+      await storage.createService({
+        sigla: "102", date: "2025-01-11", pieces: 2, type: ServiceType.SIGLATURA, amount: 5, status: PaymentStatus.UNPAID,
+      });
+    });
+
+    it("answers the same way for known and unknown siglas", async () => {
+      const client = app.client();
+      const known = await client.request("POST", "/api/portal/login", { sigla: "101" });
+      const unknown = await client.request("POST", "/api/portal/login", { sigla: "999" });
+      assert.equal(known.status, 202);
+      assert.deepEqual(unknown, known);
+      assert.equal((await client.request("GET", "/api/portal/me")).status, 401);
+    });
+
+    it("logs in with the emailed link once and shows only the student's own data", async () => {
+      const student = await database.storage.getStudentBySigla("101");
+      const { token } = await portal.issueStudentLoginCode(student!.id);
+
+      const client = app.client();
+      const verified = await client.request("POST", "/api/portal/verify", { token });
+      assert.equal(verified.status, 200);
+      assert.equal(verified.body.sigla, "101");
+      assert.equal((await app.client().request("POST", "/api/portal/verify", { token })).status, 401);
+
+      const overview = await client.request("GET", "/api/portal/overview");
+      assert.equal(overview.status, 200);
+      assert.equal(overview.body.totalOutstanding, 2.5);
+      assert.deepEqual(overview.body.services.map((service: { sigla: string }) => service.sigla), ["101"]);
+      assert.deepEqual(overview.body.bikeReservations, []);
+
+      assert.equal((await client.request("POST", "/api/portal/logout")).status, 200);
+      assert.equal((await client.request("GET", "/api/portal/overview")).status, 401);
+    });
+
+    it("locks the code after too many wrong attempts", async () => {
+      const student = await database.storage.getStudentBySigla("101");
+      const { code } = await portal.issueStudentLoginCode(student!.id);
+      const wrong = code === "000000" ? "111111" : "000000";
+
+      const client = app.client();
+      for (let attempt = 0; attempt < 5; attempt++) {
+        assert.equal((await client.request("POST", "/api/portal/verify", { sigla: "101", code: wrong })).status, 401);
+      }
+      assert.equal((await client.request("POST", "/api/portal/verify", { sigla: "101", code })).status, 401);
+      // Con un codice nuovo si rientra
+      assert.equal((await loginStudent(client, "101")).status, 200);
+    });
+
+    it("counts parallel guesses against the attempt limit", async () => {
+      const student = await database.storage.getStudentBySigla("101");
+      const { code } = await portal.issueStudentLoginCode(student!.id);
+      const wrong = code === "000000" ? "111111" : "000000";
+
+      const results = await Promise.all(
+        Array.from({ length: 20 }, () => portal.verifyStudentLogin({ sigla: "101", code: wrong }))
+      );
+      assert.ok(results.every(result => "error" in result && result.status === 401));
+      assert.equal((await database.storage.getLatestStudentLoginCode(student!.id))?.attempts, 5);
+      assert.ok("error" in await portal.verifyStudentLogin({ sigla: "101", code }));
+    });
+  });
+
+  describe("notification outbox", () => {
+    // Le notifiche partono subito dopo la messa in coda: si attende che il worker le abbia inviate
+    async function sentNotifications(expected: number) {
+      let body = { notifications: [] as any[], total: 0 };
+      for (let attempt = 0; attempt < 50; attempt++) {
+        body = (await admin.request("GET", "/api/notifications")).body;
+        const done = body.notifications.filter(item => item.status === NotificationStatus.SENT).length;
+        if (body.total >= expected && done === body.total) break;
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+      return body;
+    }
+
+    beforeEach(async () => {
+      process.env.UNPAID_NOTIFICATION_THRESHOLD = "10";
+      await database.storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi", email: "mario@example.com", locale: "en" });
+    });
+
+    after(() => {
+      delete process.env.UNPAID_NOTIFICATION_THRESHOLD;
+    });
+
+    it("warns once when new services bring the unpaid total over the threshold", async () => {
+      for (const amount of [6, 6, 1]) {
+        const created = await admin.request("POST", "/api/services", {
+          sigla: "101", date: "2025-01-10", type: ServiceType.SIGLATURA, amount, status: PaymentStatus.UNPAID,
+        });
+        assert.equal(created.status, 201);
+      }
+
+      const { notifications, total } = await sentNotifications(1);
+      assert.equal(total, 1);
+      assert.equal(notifications[0].kind, NotificationKind.UNPAID_SERVICES);
+      assert.equal(notifications[0].recipient, "mario@example.com");
+      assert.equal(notifications[0].locale, "en");
+      assert.equal(notifications[0].payload.totalOutstanding, 12);
+    });
+
+    it("queues a payment receipt only once per payment", async () => {
+      const { storage } = database;
+      await storage.createSecretariatPayment({
+        orderId: "SEC_stripe_101_1", sigla: "101", customerName: "Mario Rossi", customerEmail: "",
+        amount: 2, currency: "EUR", status: SecretariatPaymentStatus.PENDING, paymentMethod: "stripe",
+      });
+      const payment = await storage.updateSecretariatPaymentStatus("SEC_stripe_101_1", SecretariatPaymentStatus.COMPLETED, new Date());
+      const { notifyPaymentCompleted } = await import("./notifications/triggers");
+      await notifyPaymentCompleted(payment!);
+      await notifyPaymentCompleted(payment!);
+
+      const { notifications, total } = await sentNotifications(1);
+      assert.equal(total, 1);
+      assert.equal(notifications[0].kind, NotificationKind.PAYMENT_COMPLETED);
+      assert.equal(notifications[0].dedupeKey, `payment_completed:${payment!.id}`);
+    });
+
+    it("keeps failed emails for a manual retry", async () => {
+      const request = await database.storage.createMaintenanceRequest({
+        sigla: "101", place: "Camera", defectDetails: "Lampadina",
+        status: MaintenanceRequestStatus.PENDING, priority: MaintenanceRequestPriority.MEDIUM,
+      });
+
+      process.env.MAIL_TRANSPORT = "broken";
+      try {
+        const updated = await admin.request("PATCH", `/api/maintenance/${request.id}/status`, { status: MaintenanceRequestStatus.IN_PROGRESS });
+        assert.equal(updated.status, 200);
+        let notification: any;
+        for (let attempt = 0; attempt < 50 && notification?.status !== NotificationStatus.FAILED; attempt++) {
+          await new Promise(resolve => setTimeout(resolve, 100));
+          [notification] = (await admin.request("GET", "/api/notifications")).body.notifications;
+        }
+        assert.equal(notification.status, NotificationStatus.FAILED);
+        assert.match(notification.lastError, /MAIL_TRANSPORT sconosciuto/);
+      } finally {
+        process.env.MAIL_TRANSPORT = "file";
+      }
+
+      const [failed] = (await admin.request("GET", "/api/notifications")).body.notifications;
+      const retried = await admin.request("POST", `/api/notifications/${failed.id}/retry`);
+      assert.equal(retried.status, 200);
+      assert.equal(retried.body.status, NotificationStatus.SENT);
+      assert.equal(retried.body.attempts, 1);
+
+      const viewer = app.client();
+      await viewer.login("viewer");
+      assert.equal((await viewer.request("GET", "/api/notifications")).status, 403);
+    });
+  });
+
+  describe("payment reminders", () => {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    before(() => {
+      process.env.PAYMENT_REMINDER_ESCALATE_AFTER = "1";
+    });
+
+    after(() => {
+      delete process.env.PAYMENT_REMINDER_ESCALATE_AFTER;
+    });
+
+    beforeEach(async () => {
+      await database.storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi", email: "mario@example.com" });
+      await database.storage.createStudent({
+        sigla: "202", firstName: "Luca", lastName: "Bianchi", email: "luca@example.com", paymentRemindersOptOut: true,
+      });
+      for (const [sigla, date] of [["101", daysAgo(30)], ["101", daysAgo(2)], ["202", daysAgo(30)]]) {
+        await admin.request("POST", "/api/services", {
+          sigla, date, type: ServiceType.SIGLATURA, amount: 2, status: PaymentStatus.UNPAID,
+        });
+      }
+    });
+
+    it("reminds overdue siglas with a payment link and records the history", async () => {
+      const run = await admin.request("POST", "/api/payment-reminders/run");
+      assert.equal(run.status, 200);
+      assert.deepEqual(run.body, { siglas: 2, sent: 1, escalated: 0, skipped: 1 });
+
+      // Il secondo passaggio nello stesso giorno non sollecita di nuovo
+      const again = await admin.request("POST", "/api/payment-reminders/run");
+      assert.equal(again.body.sent, 0);
+
+      const { notifications } = (await admin.request("GET", `/api/notifications?kind=${NotificationKind.PAYMENT_REMINDER}`)).body;
+      assert.equal(notifications.length, 1);
+      assert.equal(notifications[0].recipient, "mario@example.com");
+      assert.equal(notifications[0].payload.totalOutstanding, 2);
+      assert.match(notifications[0].payload.paymentUrl, /\/secretariat-payment\/101$/);
+
+      const student = await database.storage.getStudentBySigla("101");
+      const history = await admin.request("GET", `/api/students/${student!.id}/payment-reminders`);
+      assert.equal(history.status, 200);
+      assert.equal(history.body.optOut, false);
+      assert.equal(history.body.reminders.length, 1);
+      assert.equal(history.body.reminders[0].level, 1);
+      assert.equal(history.body.reminders[0].notificationId, notifications[0].id);
+
+      const viewer = app.client();
+      await viewer.login("viewer");
+      assert.equal((await viewer.request("POST", "/api/payment-reminders/run")).status, 403);
+    });
+
+    it("escalates after the configured reminders and then stops", async () => {
+      const { sendPaymentReminders } = await import("./services/paymentReminderService");
+      const day = 24 * 60 * 60 * 1000;
+      const first = await sendPaymentReminders("http://localhost:5000");
+      assert.equal(first.sent, 1);
+
+      const final = await sendPaymentReminders("http://localhost:5000", new Date(Date.now() + 8 * day));
+      assert.deepEqual([final.sent, final.escalated], [1, 1]);
+
+      const later = await sendPaymentReminders("http://localhost:5000", new Date(Date.now() + 16 * day));
+      assert.equal(later.sent, 0);
+
+      const reminders = await database.storage.getPaymentReminders("101");
+      assert.deepEqual(reminders.map(reminder => [reminder.level, reminder.escalated]), [[2, true], [1, false]]);
+      assert.deepEqual(await database.storage.getPaymentReminders("202"), []);
+    });
+  });
+
+  describe("payment reconciliation", () => {
+    it("records a scheduled run only when there are payments to check", async () => {
+      const { runReconciliation } = await import("./payments/reconciliation");
+      assert.equal(await runReconciliation(ReconciliationTrigger.SCHEDULER), undefined);
+      assert.deepEqual((await admin.request("GET", "/api/reconciliation/runs")).body.runs, []);
+
+      // L'avvio manuale resta nello storico anche senza pagamenti da verificare
+      const manual = await admin.request("POST", "/api/reconciliation/runs");
+      assert.equal(manual.status, 201);
+      assert.equal(manual.body.checked, 0);
+      const { body: { runs } } = await admin.request("GET", "/api/reconciliation/runs");
+      assert.deepEqual(runs.map((run: { trigger: string }) => run.trigger), [ReconciliationTrigger.MANUAL]);
+    });
+  });
+
+  describe("bike reservations", () => {
+    const newReservation = { sigla: "101", customerName: "Mario Rossi", customerEmail: "mario@example.com" };
+
+    it("queues paid reservations and approves them", async () => {
+      const created = await admin.request("POST", "/api/bike-reservations", { ...newReservation, status: "approved" });
+      assert.equal(created.status, 201);
+      assert.equal(created.body.status, BikeReservationStatus.PENDING_PAYMENT);
+      assert.match(created.body.orderId, /^BIKE_101_/);
+      const id = created.body.id;
+
+      const paid = await admin.request("PATCH", `/api/bike-reservations/${id}/status`, { status: BikeReservationStatus.PAID });
+      assert.equal(paid.status, 200);
+      assert.ok(paid.body.paymentDate);
+
+      const queue = await admin.request("GET", "/api/bike-reservations/queue");
+      assert.deepEqual(queue.body.map((reservation: { id: number }) => reservation.id), [id]);
+
+      const approved = await admin.request("PATCH", `/api/bike-reservations/${id}/status`, { status: BikeReservationStatus.APPROVED });
+      assert.equal(approved.body.status, BikeReservationStatus.APPROVED);
+      assert.ok(approved.body.approvalDate);
+      assert.deepEqual((await admin.request("GET", "/api/bike-reservations/queue")).body, []);
+    });
+
+    it("refuses transitions outside the status machine", async () => {
+      const { body: created } = await admin.request("POST", "/api/bike-reservations", newReservation);
+      const skip = await admin.request("PATCH", `/api/bike-reservations/${created.id}/status`, { status: BikeReservationStatus.COMPLETED });
+      assert.equal(skip.status, 409);
+
+      await admin.request("PATCH", `/api/bike-reservations/${created.id}/status`, { status: BikeReservationStatus.PAID });
+      const rejected = await admin.request("PATCH", `/api/bike-reservations/${created.id}/status`, {
+        status: BikeReservationStatus.REJECTED, notes: "Nessuna bici disponibile",
+      });
+      assert.equal(rejected.body.notes, "Nessuna bici disponibile");
+      const reopened = await admin.request("PATCH", `/api/bike-reservations/${created.id}/status`, { status: BikeReservationStatus.APPROVED });
+      assert.equal(reopened.status, 409);
+
+      // Una prenotazione pagata si annulla, non si elimina
+      assert.equal((await admin.request("DELETE", `/api/bike-reservations/${created.id}`)).status, 409);
+    });
+
+    it("lets a read-only user list reservations but not change them", async () => {
+      const { body: created } = await admin.request("POST", "/api/bike-reservations", newReservation);
+      const viewer = app.client();
+      await viewer.login("viewer");
+
+      const list = await viewer.request("GET", "/api/bike-reservations?status=pending_payment");
+      assert.equal(list.status, 200);
+      assert.equal(list.body.total, 1);
+      const change = await viewer.request("PATCH", `/api/bike-reservations/${created.id}/status`, { status: BikeReservationStatus.PAID });
+      assert.equal(change.status, 403);
+
+      assert.equal((await admin.request("DELETE", `/api/bike-reservations/${created.id}`)).status, 204);
+      assert.equal((await admin.request("GET", `/api/bike-reservations/${created.id}`)).status, 404);
+    });
+  });
+
+  describe("bike fleet and slots", () => {
+    const inOneDay = (hours: number) => new Date(Date.now() + (24 + hours) * 3600_000).toISOString();
+    const createSlot = async (capacity: number, from = 0, to = 2) =>
+      (await admin.request("POST", "/api/bike-slots", { startsAt: inOneDay(from), endsAt: inOneDay(to), capacity })).body;
+    const reserve = (sigla: string, slotId: number) =>
+      admin.request("POST", "/api/bike-reservations", { sigla, customerName: "Studente " + sigla, customerEmail: `${sigla}@example.com`, slotId });
+    const approve = async (id: number) => {
+      await admin.request("PATCH", `/api/bike-reservations/${id}/status`, { status: BikeReservationStatus.PAID });
+      await admin.request("PATCH", `/api/bike-reservations/${id}/status`, { status: BikeReservationStatus.APPROVED });
+    };
+
+    it("refuses a full slot and a second reservation of the same sigla in overlapping hours", async () => {
+      const slot = await createSlot(1);
+      assert.equal((await reserve("101", slot.id)).status, 201);
+      assert.equal((await reserve("102", slot.id)).status, 409);
+
+      const overlapping = await createSlot(2, 1, 3);
+      assert.equal((await reserve("101", overlapping.id)).status, 409);
+      assert.equal((await reserve("102", overlapping.id)).status, 201);
+
+      const { body: slots } = await admin.request("GET", "/api/bike-slots");
+      assert.deepEqual(slots.map((entry: { booked: number; available: number }) => [entry.booked, entry.available]), [[1, 0], [1, 1]]);
+
+      // La capienza non scende sotto le prenotazioni attive e una fascia prenotata non si elimina
+      assert.equal((await reserve("103", overlapping.id)).status, 201);
+      assert.equal((await admin.request("PATCH", `/api/bike-slots/${overlapping.id}`, { capacity: 1 })).status, 409);
+      assert.equal((await admin.request("PATCH", `/api/bike-slots/${overlapping.id}`, { capacity: 3 })).status, 200);
+      assert.equal((await admin.request("DELETE", `/api/bike-slots/${slot.id}`)).status, 409);
+    });
+
+    it("hands out a bike once and sends it to maintenance on return", async () => {
+      const slot = await createSlot(2);
+      const { body: bike } = await admin.request("POST", "/api/bikes", { code: "B-01" });
+      assert.equal((await admin.request("POST", "/api/bikes", { code: "B-01" })).status, 409);
+
+      const { body: first } = await reserve("101", slot.id);
+      const { body: second } = await reserve("102", slot.id);
+      await approve(first.id);
+      await approve(second.id);
+
+      const pickup = await admin.request("POST", `/api/bike-reservations/${first.id}/pickup`, { bikeId: bike.id });
+      assert.equal(pickup.status, 200);
+      assert.equal(pickup.body.bikeId, bike.id);
+      assert.equal((await admin.request("POST", `/api/bike-reservations/${second.id}/pickup`, { bikeId: bike.id })).status, 409);
+      const cancel = await admin.request("PATCH", `/api/bike-reservations/${first.id}/status`, { status: BikeReservationStatus.CANCELLED });
+      assert.equal(cancel.status, 409);
+
+      const { body: fleet } = await admin.request("GET", "/api/bikes");
+      assert.equal(fleet[0].currentReservation.id, first.id);
+
+      const returned = await admin.request("POST", `/api/bike-reservations/${first.id}/return`, { needsService: true, notes: "Freno posteriore" });
+      assert.equal(returned.status, 200);
+      assert.equal(returned.body.status, BikeReservationStatus.COMPLETED);
+      assert.ok(returned.body.returnedAt);
+
+      const { body: [serviced] } = await admin.request("GET", "/api/bikes");
+      assert.equal(serviced.status, "maintenance");
+      assert.equal(serviced.currentReservation, null);
+      assert.equal((await admin.request("POST", `/api/bike-reservations/${second.id}/pickup`, { bikeId: bike.id })).status, 409);
+
+      const repaired = await admin.request("PATCH", `/api/bikes/${bike.id}`, { status: "available" });
+      assert.ok(repaired.body.lastServiceAt);
+      assert.equal((await admin.request("POST", `/api/bike-reservations/${second.id}/pickup`, { bikeId: bike.id })).status, 200);
+    });
+  });
+});
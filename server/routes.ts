@@ -1,4 +1,4 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import * as fs from "fs";
 import { storage } from "./storage";
@@ -9,8 +9,36 @@ import {
   maintenanceRequestSearchSchema,
   MaintenanceRequestStatus,
   MaintenanceRequestPriority,
-  publicMaintenanceRequestSchema
+  publicMaintenanceRequestSchema,
+  auditLogSearchSchema,
+  insertPriceListEntrySchema,
+  insertServiceCatalogSchema,
+  insertLedgerAdjustmentSchema,
+  insertStudentSchema,
+  PaymentReminderHistory,
+  refundRequestSchema,
+  checkoutRequestSchema,
+  updateServiceCatalogSchema,
+  ServiceCatalogEntry,
+  ReconciliationTrigger,
+  webhookEventSearchSchema,
+  simulatedOutcomeSchema,
+  createBikeReservationSchema,
+  bikeReservationSearchSchema,
+  updateBikeReservationSchema,
+  bikeReservationTransitionSchema,
+  bikePickupSchema,
+  bikeReturnSchema,
+  insertBikeSchema,
+  updateBikeSchema,
+  insertBikeSlotSchema,
+  updateBikeSlotSchema,
+  bikeSlotSearchSchema,
+  studentLoginRequestSchema,
+  studentLoginVerifySchema,
+  notificationSearchSchema
 } from "@shared/schema";
+import { sameAmount, sumEuros } from "@shared/money";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { getMaintenanceRequestsCSV, readGoogleSheet, isSheetLoaded, findRequestRowInGoogleSheet, updateGoogleSheetStatus } from "./services/googleSheets";
@@ -29,26 +57,35 @@ import {
   captureOrder as capturePaypalOrder,
   checkOrderStatus as checkPaypalOrderStatus
 } from "./services/paypalService";
-import { createBikePaymentIntent, handleStripeWebhook, verifyBikePaymentStatus, verifySecretariatPaymentStatus } from "./stripe";
+import { verifyBikePaymentStatus } from "./stripe";
+import { createCheckout, refreshPaymentStatus } from "./payments/checkout";
+import { listPaymentProviders } from "./payments/registry";
+import { isReconciliationRunning, runReconciliation } from "./payments/reconciliation";
+import { replayWebhookEvent } from "./payments/webhookInbox";
+import { getSignatureRejectionStats } from "./payments/signatures";
+import { getSimulatedPayment, isPaymentSimulatorEnabled, resolveSimulatedPayment, simulatorDelayMs } from "./payments/simulator";
+import { refundSecretariatPayment } from "./services/refundService";
+import { toTrashListing } from "./services/trashService";
+import { sendPaymentReminders } from "./services/paymentReminderService";
 import {
-  createSatispayPayment,
-  checkSatispayPaymentStatus,
-  handleSatispayWebhook
-} from "./satispay";
-import {
-  createRevolutPayment,
-  checkRevolutPaymentStatus,
-  handleRevolutWebhook
-} from "./revolut";
-import {
-  createSumUpPayment,
-  checkSumUpPaymentStatus,
-  handleSumUpWebhook
-} from "./sumup";
+  changeBikeReservationStatus,
+  createBikeReservation,
+  deleteBikeReservation,
+  deleteBikeSlot,
+  pickUpBike,
+  returnBike,
+  updateBikeReservation,
+  updateBikeSlot
+} from "./services/bikeReservationService";
+import { getStudentPortalOverview, requestStudentLogin, verifyStudentLogin } from "./services/studentPortalService";
+import { checkSiglaAccess, endStudentSession, getPortalStudent, startStudentSession } from "./studentPortal";
+import { retryNotification } from "./notifications/outbox";
+import { notifyMaintenanceStatus, notifyUnpaidServices } from "./notifications/triggers";
 
 // REMOVED: Duplicate Stripe initialization - using stripe.ts client instead
 
 import { archiveService } from './services/archiveService';
+import { currentFiscalYear, fiscalYearStartMonth, getFiscalYear, getFiscalYearRange } from './fiscalYear';
 import { transformHistoricalServiceRow } from './utils/historicalTransformer';
 import importTSVRouter from './routes/importTSV';
 import importNewTSVRouter from './routes/importNewTSV';
@@ -189,14 +226,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Historical data endpoint
   app.get("/api/historical-data", async (req: Request, res: Response) => {
     try {
-      const year = req.query.year as string || new Date().getFullYear().toString();
+      const year = req.query.year ? parseInt(req.query.year as string) : currentFiscalYear();
       const search = req.query.search as string || '';
       const serviceType = req.query.serviceType as string || '';
       const status = req.query.status as string || '';
 
-      // Build date range for the year
-      const startDate = `${year}-01-01`;
-      const endDate = `${year}-12-31`;
+      if (isNaN(year)) {
+        return res.status(400).json({ message: "Anno non valido" });
+      }
+
+      // Build date range for the fiscal year
+      const { startDate, endDate } = getFiscalYear(year);
 
       // Get services for the year
       const servicesResult = await storage.getServices({
@@ -221,7 +261,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Get payments for the year (secretariat payments)
       const payments = await storage.getSecretariatPayments({
-        year: parseInt(year),
+        dateRange: getFiscalYearRange(year),
         search,
         status: status === 'all' ? undefined : status
       });
@@ -240,6 +280,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Definizione dell'anno fiscale per i filtri del client: anno corrente e ultimi dieci
+  app.get("/api/fiscal-years", (req: Request, res: Response) => {
+    const current = currentFiscalYear();
+    res.json({
+      startMonth: fiscalYearStartMonth(),
+      current: getFiscalYear(current),
+      years: Array.from({ length: 10 }, (_, i) => getFiscalYear(current - i)),
+    });
+  });
+
   // Enhanced dashboard metrics endpoint
   app.get("/api/dashboard/enhanced-metrics", async (req: Request, res: Response) => {
     try {
@@ -253,7 +303,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         new Date(now.getFullYear(), now.getMonth(), 1) :
         period === 'quarter' ?
         new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1) :
-        new Date(now.getFullYear(), 0, 1);
+        getFiscalYearRange(currentFiscalYear(now)).start;
       
       const previousPeriodStart = period === 'week' ?
         new Date(now.setDate(now.getDate() - 14)) :
@@ -261,7 +311,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         new Date(now.getFullYear(), now.getMonth() - 1, 1) :
         period === 'quarter' ?
         new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3 - 3, 1) :
-        new Date(now.getFullYear() - 1, 0, 1);
+        getFiscalYearRange(currentFiscalYear(now) - 1).start;
 
       // Get current period metrics
       const currentMetrics = await storage.getServiceMetrics({
@@ -295,11 +345,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         pendingPayments: currentMetrics.pendingPayments,
         completedPayments: currentMetrics.totalServices - currentMetrics.pendingPayments,
         averageServiceValue: currentMetrics.totalServices > 0 ? currentMetrics.totalAmount / currentMetrics.totalServices : 0,
-        servicesByType: {
-          siglatura: currentMetrics.siglaturaCount,
-          riparazione: currentMetrics.repairCount,
-          happy_hour: currentMetrics.happyHourCount,
-        },
+        servicesByType: currentMetrics.countsByType,
         maintenanceStats: {
           total: maintenanceMetrics.totalRequests,
           pending: maintenanceMetrics.pendingRequests,
@@ -351,6 +397,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Services in the trash, with the date of their permanent deletion
+  app.get("/api/services/trash", async (_req: Request, res: Response) => {
+    try {
+      res.json(toTrashListing(await storage.getDeletedServices()));
+    } catch (error) {
+      console.error("Errore nel recupero dei servizi nel cestino:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Get a specific service by ID
   app.get("/api/services/:id", async (req: Request, res: Response) => {
     try {
@@ -379,9 +435,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Try to parse the request data through Zod schema
       const serviceData = insertServiceSchema.parse(req.body);
+      
+      // I nuovi servizi possono usare solo tipi attivi del catalogo
+      const catalogItem = await storage.getServiceCatalogItem(serviceData.type);
+      if (!catalogItem || !catalogItem.active) {
+        return res.status(400).json({ message: `Tipo di servizio non disponibile: ${serviceData.type}` });
+      }
+      
       const service = await storage.createService(serviceData);
       
       console.log("Service created successfully:", service);
+      await notifyUnpaidServices(service, process.env.VITE_APP_URL || `${req.protocol}://${req.get('host')}`);
       res.status(201).json(service);
     } catch (error) {
       console.error("Error creating service:", error);
@@ -432,6 +496,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const updates = insertServiceSchema.partial().parse(dataToValidate);
         console.log("Dati validati con successo (schema parziale):", JSON.stringify(updates, null, 2));
         
+        // Un tipo disattivato resta valido sui servizi già registrati, ma deve esistere nel catalogo
+        if (updates.type && !(await storage.getServiceCatalogItem(updates.type))) {
+          return res.status(400).json({ message: `Tipo di servizio non presente nel catalogo: ${updates.type}` });
+        }
+        
         const updatedService = await storage.updateService(id, updates);
         
         if (!updatedService) {
@@ -479,9 +548,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/services/:id", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteService(id);
+      const result = await storage.deleteService(id);
       
-      if (!success) {
+      if (typeof result === "object") {
+        return res.status(result.status).json({ message: result.error, references: result.references });
+      }
+      if (!result) {
         return res.status(404).json({ message: "Service not found" });
       }
       
@@ -491,6 +563,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Restore a service from the trash
+  app.post("/api/services/:id/restore", async (req: Request, res: Response) => {
+    try {
+      const service = await storage.restoreService(parseInt(req.params.id));
+      if (!service) {
+        return res.status(404).json({ message: "Servizio non presente nel cestino" });
+      }
+      res.json(service);
+    } catch (error) {
+      console.error("Errore nel ripristino del servizio:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Dashboard metrics - sempre mostra dati globali per overview
   app.get("/api/dashboard/metrics", async (req: Request, res: Response) => {
     try {
@@ -609,6 +695,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Maintenance requests in the trash
+  app.get("/api/maintenance/trash", async (_req: Request, res: Response) => {
+    try {
+      res.json(toTrashListing(await storage.getDeletedMaintenanceRequests()));
+    } catch (error) {
+      console.error("Errore nel recupero delle richieste di manutenzione nel cestino:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Get a specific maintenance request by ID
   app.get("/api/maintenance/:id", async (req: Request, res: Response) => {
     try {
@@ -655,12 +751,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const id = parseInt(req.params.id);
       const updates = insertMaintenanceRequestSchema.partial().parse(req.body);
       
+      const originalRequest = await storage.getMaintenanceRequest(id);
       const updatedRequest = await storage.updateMaintenanceRequest(id, updates);
       
       if (!updatedRequest) {
         return res.status(404).json({ message: "Maintenance request not found" });
       }
       
+      if (originalRequest && originalRequest.status !== updatedRequest.status) {
+        await notifyMaintenanceStatus(updatedRequest);
+      }
       res.json(updatedRequest);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -688,6 +788,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Restore a maintenance request from the trash
+  app.post("/api/maintenance/:id/restore", async (req: Request, res: Response) => {
+    try {
+      const request = await storage.restoreMaintenanceRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: "Richiesta non presente nel cestino" });
+      }
+      res.json(request);
+    } catch (error) {
+      console.error("Errore nel ripristino della richiesta di manutenzione:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Maintenance metrics
   app.get("/api/maintenance/dashboard/metrics", async (_req: Request, res: Response) => {
     try {
@@ -763,6 +877,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Failed to update maintenance request" });
       }
       
+      if (originalRequest.status !== updatedRequest.status) {
+        await notifyMaintenanceStatus(updatedRequest);
+      }
+      
       // Se la richiesta è stata marcata come completata, proviamo ad aggiornare anche il foglio Google
       let googleSheetUpdate = { success: false, message: "No update attempted" };
       
@@ -1603,8 +1721,8 @@ RifID: ${hashId}`
         }
         
         // Verifichiamo che il totale corrisponda
-        const totalAmount = services.reduce((sum, service) => sum + service.amount, 0);
-        if (Math.abs(totalAmount - parseFloat(amount)) > 0.01) { // Piccola tolleranza per errori di arrotondamento
+        const totalAmount = sumEuros(services.map(service => service.amount));
+        if (!sameAmount(totalAmount, parseFloat(amount))) {
           return res.status(400).json({ 
             message: "L'importo non corrisponde al totale dei servizi da pagare",
             expectedAmount: totalAmount.toFixed(2)
@@ -1763,6 +1881,11 @@ RifID: ${hashId}`
       }
       
       const formattedSigla = sigla.trim();
+
+      const denied = await checkSiglaAccess(req, formattedSigla);
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.error });
+      }
       
       // Recuperiamo i servizi non pagati per questa sigla
       const result = await storage.getServices({
@@ -1821,6 +1944,16 @@ RifID: ${hashId}`
     }
   });
 
+  // Studenti nel cestino
+  app.get("/api/students/trash", async (_req: Request, res: Response) => {
+    try {
+      res.json(toTrashListing(await storage.getDeletedStudents()));
+    } catch (error) {
+      console.error("Errore nel recupero degli studenti nel cestino:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
   // Ottieni uno studente specifico
   app.get("/api/students/:id", async (req: Request, res: Response) => {
     try {
@@ -1838,6 +1971,223 @@ RifID: ${hashId}`
     }
   });
   
+  // Estratto conto dello studente: addebiti, pagamenti, rimborsi e rettifiche con saldo progressivo
+  app.get("/api/students/:id/ledger", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const student = await storage.getStudent(id);
+      
+      if (!student) {
+        return res.status(404).json({ message: "Studente non trovato" });
+      }
+      
+      const ledger = await storage.getStudentLedger(student.sigla);
+      res.json(ledger);
+    } catch (error) {
+      console.error("Errore nel recupero dell'estratto conto:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
+  // Storico dei solleciti di pagamento inviati allo studente, con lo stato dell'email
+  app.get("/api/students/:id/payment-reminders", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const student = await storage.getStudent(id);
+      
+      if (!student) {
+        return res.status(404).json({ message: "Studente non trovato" });
+      }
+      
+      const history: PaymentReminderHistory = {
+        reminders: await storage.getPaymentReminders(student.sigla),
+        optOut: student.paymentRemindersOptOut,
+      };
+      res.json(history);
+    } catch (error) {
+      console.error("Errore nel recupero dei solleciti:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
+  // Rettifica manuale del conto (credito con importo negativo, addebito con importo positivo)
+  app.post("/api/students/:id/ledger/adjustments", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const student = await storage.getStudent(id);
+      
+      if (!student) {
+        return res.status(404).json({ message: "Studente non trovato" });
+      }
+      
+      const adjustment = insertLedgerAdjustmentSchema.parse(req.body);
+      const entry = await storage.addLedgerAdjustment(student.sigla, adjustment);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nella registrazione della rettifica:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
+  // Rimborsi e contestazioni di un pagamento della segreteria
+  app.get("/api/secretariat-payments/:id/refunds", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payment = await storage.getSecretariatPayment(id);
+      
+      if (!payment) {
+        return res.status(404).json({ message: "Pagamento non trovato" });
+      }
+      
+      const [refunds, refundable] = await Promise.all([
+        storage.getPaymentRefunds(id),
+        storage.getRefundableAmount(id),
+      ]);
+      res.json({ refunds, refundable });
+    } catch (error) {
+      console.error("Errore nel recupero dei rimborsi:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
+  // Rimborso dal gestionale: passa dal provider, poi riapre i servizi e annulla le ricevute
+  app.post("/api/secretariat-payments/:id/refund", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const request = refundRequestSchema.parse(req.body);
+      const result = await refundSecretariatPayment(id, request);
+      
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.status(201).json(result.refund);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nel rimborso del pagamento:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
+  // Storico della riconciliazione dei pagamenti con i provider
+  app.get("/api/reconciliation/runs", async (req: Request, res: Response) => {
+    try {
+      const runs = await storage.getReconciliationRuns();
+      res.json({ runs, running: isReconciliationRunning() });
+    } catch (error) {
+      console.error("Errore nel recupero delle riconciliazioni:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
+  // Dettaglio di un giro: pagamenti sistemati, ancora bloccati e perché
+  app.get("/api/reconciliation/runs/:id", async (req: Request, res: Response) => {
+    try {
+      const run = await storage.getReconciliationRun(parseInt(req.params.id));
+      
+      if (!run) {
+        return res.status(404).json({ message: "Riconciliazione non trovata" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Errore nel recupero della riconciliazione:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
+  // Avvio manuale di un giro di riconciliazione
+  app.post("/api/reconciliation/runs", async (req: Request, res: Response) => {
+    try {
+      const run = await runReconciliation(ReconciliationTrigger.MANUAL);
+      
+      if (!run) {
+        return res.status(409).json({ message: "Una riconciliazione è già in corso" });
+      }
+      res.status(201).json(run);
+    } catch (error) {
+      console.error("Errore nella riconciliazione dei pagamenti:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
+  // Invio immediato dei solleciti dovuti, senza attendere il job delle 10:00
+  app.post("/api/payment-reminders/run", async (req: Request, res: Response) => {
+    try {
+      const baseUrl = process.env.VITE_APP_URL || `${req.protocol}://${req.get('host')}`;
+      res.json(await sendPaymentReminders(baseUrl));
+    } catch (error) {
+      console.error("Errore nell'invio dei solleciti di pagamento:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
+  // Coda dei webhook ricevuti dai provider, con esito ed errori dell'elaborazione
+  app.get("/api/webhook-events", async (req: Request, res: Response) => {
+    try {
+      const params = webhookEventSearchSchema.parse(req.query);
+      res.json(await storage.getWebhookEvents(params));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nel recupero dei webhook:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
+  // Webhook rifiutati per firma non valida, per provider e motivo (dall'avvio del server)
+  app.get("/api/webhook-events/signature-rejections", (req: Request, res: Response) => {
+    res.json(getSignatureRejectionStats());
+  });
+  
+  // Rilancio manuale di un webhook (fallito o da rielaborare)
+  app.post("/api/webhook-events/:id/replay", async (req: Request, res: Response) => {
+    try {
+      const result = await replayWebhookEvent(parseInt(req.params.id));
+      
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Errore nel rilancio del webhook:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
+  // Outbox delle notifiche email agli studenti, con esito ed errori dell'invio
+  app.get("/api/notifications", async (req: Request, res: Response) => {
+    try {
+      const params = notificationSearchSchema.parse(req.query);
+      res.json(await storage.getNotifications(params));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nel recupero delle notifiche:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
+  // Nuovo invio manuale di una notifica (fallita o da rispedire)
+  app.post("/api/notifications/:id/retry", async (req: Request, res: Response) => {
+    try {
+      const result = await retryNotification(parseInt(req.params.id));
+      
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Errore nel nuovo invio della notifica:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+  
   // Endpoint pubblico per l'invio di richieste di manutenzione da parte degli studenti
   app.post("/api/public/maintenance", async (req: Request, res: Response) => {
     try {
@@ -1966,10 +2316,18 @@ RifID: ${hashId}`
   // Crea un nuovo studente
   app.post("/api/students", async (req: Request, res: Response) => {
     try {
-      const studentData = req.body;
+      const studentData = insertStudentSchema.parse(req.body);
+      // La sigla di uno studente nel cestino resta occupata: si ripristina quello
+      const trashed = await storage.getStudentBySigla(studentData.sigla, true);
+      if (trashed?.deletedAt) {
+        return res.status(409).json({ message: `Lo studente ${trashed.sigla} è nel cestino: ripristinalo invece di crearne uno nuovo` });
+      }
       const student = await storage.createStudent(studentData);
       res.status(201).json(student);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Errore nella creazione dello studente:", error);
       res.status(500).json({ message: "Errore interno del server" });
     }
@@ -1979,7 +2337,7 @@ RifID: ${hashId}`
   app.put("/api/students/:id", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const studentData = req.body;
+      const studentData = insertStudentSchema.partial().parse(req.body);
       const student = await storage.updateStudent(id, studentData);
       
       if (!student) {
@@ -1988,6 +2346,9 @@ RifID: ${hashId}`
       
       res.json(student);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Errore nell'aggiornamento dello studente:", error);
       res.status(500).json({ message: "Errore interno del server" });
     }
@@ -1997,9 +2358,12 @@ RifID: ${hashId}`
   app.delete("/api/students/:id", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteStudent(id);
+      const result = await storage.deleteStudent(id);
       
-      if (!success) {
+      if (typeof result === "object") {
+        return res.status(result.status).json({ message: result.error, references: result.references });
+      }
+      if (!result) {
         return res.status(404).json({ message: "Studente non trovato" });
       }
       
@@ -2010,6 +2374,20 @@ RifID: ${hashId}`
     }
   });
 
+  // Ripristina uno studente dal cestino
+  app.post("/api/students/:id/restore", async (req: Request, res: Response) => {
+    try {
+      const student = await storage.restoreStudent(parseInt(req.params.id));
+      if (!student) {
+        return res.status(404).json({ message: "Studente non presente nel cestino" });
+      }
+      res.json(student);
+    } catch (error) {
+      console.error("Errore nel ripristino dello studente:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
   // Importa studenti da CSV
   app.post("/api/students/import", async (req: Request, res: Response) => {
     try {
@@ -2027,182 +2405,506 @@ RifID: ${hashId}`
     }
   });
 
-  // Stripe Payment Routes for Bike Service (2.50 EUR)
-  app.post("/api/stripe/create-bike-payment", createBikePaymentIntent);
-  // Webhook route moved to server/index.ts with raw body parsing
+  // Verifica delle prenotazioni bici (i webhook dei provider sono in server/app.ts con il corpo grezzo)
   app.get("/api/stripe/verify/:orderId", verifyBikePaymentStatus);
-  
-  // BACKUP SYSTEM: Manual verification endpoint for secretariat payments
-  app.get("/api/stripe/verify-secretariat/:orderId", verifySecretariatPaymentStatus);
 
-  // Public endpoint for bike service payment (Stripe)
-  app.post("/api/public/bike-payment", createBikePaymentIntent);
+  // PRENOTAZIONI BICI
 
-  // Endpoint pubblico per ottenere servizi pendenti per sigla
-  app.get("/api/public/services/pending/:sigla", async (req: Request, res: Response) => {
+  // Elenco con filtri e paginazione
+  app.get("/api/bike-reservations", async (req: Request, res: Response) => {
     try {
-      const { sigla } = req.params;
-
-      // Verifica che la sigla esista
-      const student = await storage.getStudentBySigla(sigla);
-      if (!student) {
-        return res.status(404).json({ message: "Sigla non trovata" });
-      }
-
-      // Cerca servizi non pagati per questa sigla
-      const { services } = await storage.getServices({
-        sigla: sigla,
-        status: "unpaid",
-        page: 1,
-        limit: 50
-      });
-
-      // Calcola il totale da pagare
-      const totalAmount = services.reduce((sum, service) => sum + service.amount, 0);
-
-      res.json({
-        student: {
-          sigla: student.sigla,
-          firstName: student.firstName,
-          lastName: student.lastName
-        },
-        pendingServices: services,
-        totalAmount: totalAmount,
-        servicesCount: services.length
+      const params = bikeReservationSearchSchema.parse({
+        sigla: req.query.sigla as string,
+        customerEmail: req.query.customerEmail as string,
+        status: req.query.status as string,
+        startDate: req.query.startDate as string,
+        endDate: req.query.endDate as string,
+        slotId: req.query.slotId ? parseInt(req.query.slotId as string) : undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 10
       });
-
+      res.json(await storage.getBikeReservations(params));
     } catch (error) {
-      console.error("Errore nel recupero servizi pendenti:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nel recupero delle prenotazioni bici:", error);
       res.status(500).json({ message: "Errore interno del server" });
     }
   });
 
-  // Endpoint per creare un payment intent Stripe generico
-  app.post("/api/create-payment-intent", async (req: Request, res: Response) => {
+  // Coda delle prenotazioni pagate in attesa di approvazione
+  app.get("/api/bike-reservations/queue", async (_req: Request, res: Response) => {
     try {
-      const { amount } = req.body;
-      
-      // REMOVED: Another duplicate Stripe initialization - should use stripe.ts client
-      // This endpoint seems obsolete since we use createBikePaymentIntent 
-      res.status(501).json({ message: "This endpoint is deprecated. Use /api/public/secretariat-payment instead." });
-    } catch (error: any) {
-      res.status(500).json({ message: "Error creating payment intent: " + error.message });
+      res.json(await storage.getBikeReservationQueue());
+    } catch (error) {
+      console.error("Errore nel recupero della coda delle prenotazioni bici:", error);
+      res.status(500).json({ message: "Errore interno del server" });
     }
   });
 
-  // Endpoint pubblico per creare un pagamento della segreteria (Stripe)
-  app.post("/api/public/secretariat-payment", async (req: Request, res: Response) => {
+  app.get("/api/bike-reservations/:id", async (req: Request, res: Response) => {
     try {
-      await createBikePaymentIntent(req, res);
+      const reservation = await storage.getBikeReservation(parseInt(req.params.id));
+      if (!reservation) {
+        return res.status(404).json({ message: "Prenotazione non trovata" });
+      }
+      res.json(reservation);
     } catch (error) {
-      console.error("Errore nella creazione del pagamento segreteria:", error);
+      console.error("Errore nel recupero della prenotazione bici:", error);
       res.status(500).json({ message: "Errore interno del server" });
     }
   });
 
-  // Endpoint pubblico per creare un pagamento Satispay
-  app.post("/api/public/satispay-payment", async (req: Request, res: Response) => {
+  // Prenotazione inserita dalla segreteria (parte sempre in attesa di pagamento)
+  app.post("/api/bike-reservations", async (req: Request, res: Response) => {
     try {
-      await createSatispayPayment(req, res);
+      const data = createBikeReservationSchema.parse(req.body);
+      const result = await createBikeReservation(data);
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.status(201).json(result);
     } catch (error) {
-      console.error("Errore nella creazione del pagamento Satispay:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nella creazione della prenotazione bici:", error);
       res.status(500).json({ message: "Errore interno del server" });
     }
   });
 
-  // Endpoint per verificare lo stato del pagamento Satispay
-  app.get("/api/public/satispay-status/:paymentId", async (req: Request, res: Response) => {
+  app.patch("/api/bike-reservations/:id", async (req: Request, res: Response) => {
     try {
-      await checkSatispayPaymentStatus(req, res);
+      const updates = updateBikeReservationSchema.parse(req.body);
+      const result = await updateBikeReservation(parseInt(req.params.id), updates);
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.json(result);
     } catch (error) {
-      console.error("Errore nella verifica del pagamento Satispay:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nella modifica della prenotazione bici:", error);
       res.status(500).json({ message: "Errore interno del server" });
     }
   });
 
-  // Test Satispay authentication
-  app.get("/api/satispay/test-auth", async (req: Request, res: Response) => {
+  // Passaggio di stato (pagata, approvata, rifiutata, completata, annullata) con email allo studente
+  app.patch("/api/bike-reservations/:id/status", async (req: Request, res: Response) => {
     try {
-      const { testSatispayAuthentication } = await import("./satispay");
-      const result = await testSatispayAuthentication();
+      const transition = bikeReservationTransitionSchema.parse(req.body);
+      const result = await changeBikeReservationStatus(parseInt(req.params.id), transition);
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
       res.json(result);
     } catch (error) {
-      console.error("Errore nel test autenticazione Satispay:", error);
-      res.status(500).json({ 
-        success: false, 
-        message: "Errore nel test di autenticazione",
-        details: error instanceof Error ? error.message : String(error)
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nel cambio di stato della prenotazione bici:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  // Ritiro della bici in segreteria
+  app.post("/api/bike-reservations/:id/pickup", async (req: Request, res: Response) => {
+    try {
+      const result = await pickUpBike(parseInt(req.params.id), bikePickupSchema.parse(req.body));
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nella consegna della bici:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  // Riconsegna: completa la prenotazione
+  app.post("/api/bike-reservations/:id/return", async (req: Request, res: Response) => {
+    try {
+      const result = await returnBike(parseInt(req.params.id), bikeReturnSchema.parse(req.body ?? {}));
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nella riconsegna della bici:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  app.delete("/api/bike-reservations/:id", async (req: Request, res: Response) => {
+    try {
+      const result = await deleteBikeReservation(parseInt(req.params.id));
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Errore nell'eliminazione della prenotazione bici:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  // FLOTTA BICI
+
+  // Bici con la prenotazione che le tiene fuori
+  app.get("/api/bikes", async (_req: Request, res: Response) => {
+    try {
+      res.json(await storage.getBikes());
+    } catch (error) {
+      console.error("Errore nel recupero delle bici:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  app.post("/api/bikes", async (req: Request, res: Response) => {
+    try {
+      const bike = insertBikeSchema.parse(req.body);
+      if (await storage.getBikeByCode(bike.code)) {
+        return res.status(409).json({ message: `Esiste già la bici ${bike.code}` });
+      }
+      res.status(201).json(await storage.createBike(bike));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nella creazione della bici:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  app.patch("/api/bikes/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = updateBikeSchema.parse(req.body);
+      const sameCode = updates.code ? await storage.getBikeByCode(updates.code) : undefined;
+      if (sameCode && sameCode.id !== id) {
+        return res.status(409).json({ message: `Esiste già la bici ${sameCode.code}` });
+      }
+      const bike = await storage.updateBike(id, updates);
+      if (!bike) {
+        return res.status(404).json({ message: "Bici non trovata" });
+      }
+      res.json(bike);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nella modifica della bici:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  // Fasce orarie con i posti ancora liberi (?from=&to=)
+  app.get("/api/bike-slots", async (req: Request, res: Response) => {
+    try {
+      const params = bikeSlotSearchSchema.parse({
+        from: req.query.from as string | undefined,
+        to: req.query.to as string | undefined,
       });
+      res.json(await storage.getBikeSlots(params));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nel recupero delle fasce orarie:", error);
+      res.status(500).json({ message: "Errore interno del server" });
     }
   });
 
-  // Webhook Satispay
-  app.post("/api/satispay/webhook", async (req: Request, res: Response) => {
+  app.post("/api/bike-slots", async (req: Request, res: Response) => {
     try {
-      await handleSatispayWebhook(req, res);
+      const slot = insertBikeSlotSchema.parse(req.body);
+      res.status(201).json(await storage.createBikeSlot(slot));
     } catch (error) {
-      console.error("Errore nel webhook Satispay:", error);
-      res.status(500).json({ message: "Errore nell'elaborazione del webhook" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nella creazione della fascia oraria:", error);
+      res.status(500).json({ message: "Errore interno del server" });
     }
   });
 
-  // Endpoint pubblico per creare un pagamento Revolut
-  app.post("/api/public/revolut-payment", async (req: Request, res: Response) => {
+  app.patch("/api/bike-slots/:id", async (req: Request, res: Response) => {
     try {
-      await createRevolutPayment(req, res);
+      const result = await updateBikeSlot(parseInt(req.params.id), updateBikeSlotSchema.parse(req.body));
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.json(result);
     } catch (error) {
-      console.error("Errore nella creazione del pagamento Revolut:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nella modifica della fascia oraria:", error);
       res.status(500).json({ message: "Errore interno del server" });
     }
   });
 
-  // Endpoint per verificare lo stato del pagamento Revolut
-  app.get("/api/public/revolut-status/:paymentId", async (req: Request, res: Response) => {
+  app.delete("/api/bike-slots/:id", async (req: Request, res: Response) => {
     try {
-      await checkRevolutPaymentStatus(req, res);
+      const result = await deleteBikeSlot(parseInt(req.params.id));
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.status(204).send();
     } catch (error) {
-      console.error("Errore nella verifica del pagamento Revolut:", error);
+      console.error("Errore nell'eliminazione della fascia oraria:", error);
       res.status(500).json({ message: "Errore interno del server" });
     }
   });
 
-  // Webhook Revolut
-  app.post("/api/revolut/webhook", async (req: Request, res: Response) => {
+  // ===== Portale studenti =====
+
+  // Invio di link e codice di accesso: stessa risposta per ogni sigla
+  app.post("/api/portal/login", async (req: Request, res: Response) => {
     try {
-      await handleRevolutWebhook(req, res);
+      const { sigla } = studentLoginRequestSchema.parse(req.body);
+      const baseUrl = process.env.VITE_APP_URL || `${req.protocol}://${req.get('host')}`;
+      await requestStudentLogin(sigla, baseUrl);
+      res.status(202).json({ message: "Se la sigla è registrata con un indirizzo email, riceverai a breve il link e il codice di accesso" });
     } catch (error) {
-      console.error("Errore nel webhook Revolut:", error);
-      res.status(500).json({ message: "Errore nell'elaborazione del webhook" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nella richiesta di accesso al portale:", error);
+      res.status(500).json({ message: "Errore interno del server" });
     }
   });
 
-  // Endpoint pubblico per creare un pagamento SumUp
-  app.post("/api/public/sumup-payment", async (req: Request, res: Response) => {
+  app.post("/api/portal/verify", async (req: Request, res: Response) => {
     try {
-      await createSumUpPayment(req, res);
+      const result = await verifyStudentLogin(studentLoginVerifySchema.parse(req.body));
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      await startStudentSession(req, result);
+      res.json({ sigla: result.sigla, firstName: result.firstName, lastName: result.lastName });
     } catch (error) {
-      console.error("Errore nella creazione del pagamento SumUp:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nella verifica dell'accesso al portale:", error);
       res.status(500).json({ message: "Errore interno del server" });
     }
   });
 
-  // Endpoint per verificare lo stato del pagamento SumUp
-  app.get("/api/public/sumup-status/:paymentId", async (req: Request, res: Response) => {
+  app.get("/api/portal/me", async (req: Request, res: Response) => {
     try {
-      await checkSumUpPaymentStatus(req, res);
+      const student = await getPortalStudent(req);
+      if (!student) {
+        return res.status(401).json({ message: "Accesso al portale richiesto" });
+      }
+      res.json({ sigla: student.sigla, firstName: student.firstName, lastName: student.lastName });
     } catch (error) {
-      console.error("Errore nella verifica del pagamento SumUp:", error);
+      console.error("Errore nel recupero dello studente del portale:", error);
       res.status(500).json({ message: "Errore interno del server" });
     }
   });
 
-  // Webhook SumUp
-  app.post("/api/sumup/webhook", async (req: Request, res: Response) => {
+  app.get("/api/portal/overview", async (req: Request, res: Response) => {
     try {
-      await handleSumUpWebhook(req, res);
+      const student = await getPortalStudent(req);
+      if (!student) {
+        return res.status(401).json({ message: "Accesso al portale richiesto" });
+      }
+      res.json(await getStudentPortalOverview(student));
     } catch (error) {
-      console.error("Errore nel webhook SumUp:", error);
-      res.status(500).json({ message: "Errore nell'elaborazione del webhook" });
+      console.error("Errore nel recupero dei dati del portale:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  app.post("/api/portal/logout", async (req: Request, res: Response) => {
+    try {
+      await endStudentSession(req);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Errore nell'uscita dal portale:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  // Servizi pendenti per sigla: solo per lo studente di quella sigla o per lo staff
+  app.get("/api/public/services/pending/:sigla", async (req: Request, res: Response) => {
+    try {
+      const { sigla } = req.params;
+
+      const denied = await checkSiglaAccess(req, sigla);
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.error });
+      }
+
+      // Verifica che la sigla esista
+      const student = await storage.getStudentBySigla(sigla);
+      if (!student) {
+        return res.status(404).json({ message: "Sigla non trovata" });
+      }
+
+      // Servizi non pagati con il residuo al netto dei pagamenti parziali
+      const services = await storage.getOutstandingServices(sigla);
+
+      // Calcola il totale da pagare
+      const totalAmount = sumEuros(services.map(service => service.outstanding));
+
+      res.json({
+        student: {
+          sigla: student.sigla,
+          firstName: student.firstName,
+          lastName: student.lastName
+        },
+        pendingServices: services,
+        totalAmount: totalAmount,
+        servicesCount: services.length
+      });
+
+    } catch (error) {
+      console.error("Errore nel recupero servizi pendenti:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  // Endpoint per creare un payment intent Stripe generico
+  app.post("/api/create-payment-intent", async (req: Request, res: Response) => {
+    try {
+      const { amount } = req.body;
+      
+      // REMOVED: Another duplicate Stripe initialization - should use stripe.ts client
+      // This endpoint seems obsolete since we use the generic provider endpoints
+      res.status(501).json({ message: "This endpoint is deprecated. Use /api/public/payments/:provider instead." });
+    } catch (error: any) {
+      res.status(500).json({ message: "Error creating payment intent: " + error.message });
+    }
+  });
+
+  // Metodi di pagamento offerti agli studenti (PAYMENT_PROVIDERS)
+  app.get("/api/public/payments/providers", async (req: Request, res: Response) => {
+    res.json(
+      listPaymentProviders()
+        .filter(provider => provider.enabled)
+        .map(({ id, label, description }) => ({ id, label, description }))
+    );
+  });
+
+  // Endpoint pubblico per creare un pagamento della segreteria con un provider
+  app.post("/api/public/payments/:provider", async (req: Request, res: Response) => {
+    try {
+      const request = checkoutRequestSchema.parse(req.body);
+      const denied = await checkSiglaAccess(req, request.sigla);
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.error });
+      }
+      const baseUrl = process.env.VITE_APP_URL || `${req.protocol}://${req.get('host')}`;
+      const result = await createCheckout(req.params.provider, request, baseUrl);
+      
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      
+      const { payment, created } = result;
+      res.json({
+        success: true,
+        orderId: payment.orderId,
+        paymentId: payment.id,
+        providerPaymentId: created.providerPaymentId,
+        amount: payment.amount,
+        status: payment.status,
+        clientSecret: created.clientSecret,
+        redirectUrl: created.redirectUrl,
+        codeIdentifier: created.codeIdentifier,
+        qrCode: created.qrCode,
+        isLive: created.live,
+        isSimulated: created.simulated ?? false
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nella creazione del pagamento:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  // Stato di un pagamento, verificato presso il provider finché non è in uno stato finale
+  app.get("/api/public/payments/:provider/:orderId", async (req: Request, res: Response) => {
+    try {
+      const result = await refreshPaymentStatus(req.params.orderId);
+      
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      if (result.paymentMethod !== req.params.provider) {
+        return res.status(404).json({ message: "Pagamento non trovato" });
+      }
+      
+      res.json({
+        orderId: result.orderId,
+        status: result.status,
+        amount: result.amount,
+        sigla: result.sigla,
+        paymentMethod: result.paymentMethod
+      });
+    } catch (error) {
+      console.error("Errore nella verifica del pagamento:", error);
+      res.status(500).json({ message: "Errore nella verifica dello stato del pagamento" });
+    }
+  });
+
+  // Pagina di pagamento del simulatore locale dei provider (solo con PAYMENT_SIMULATOR=true)
+  app.get("/api/public/payment-simulator/:provider/:providerPaymentId", (req: Request, res: Response) => {
+    const payment = isPaymentSimulatorEnabled() ? getSimulatedPayment(req.params.providerPaymentId) : undefined;
+    if (!payment || payment.providerId !== req.params.provider) {
+      return res.status(404).json({ message: "Pagamento simulato non trovato" });
+    }
+    res.json({ ...payment, delayMs: simulatorDelayMs() });
+  });
+
+  app.post("/api/public/payment-simulator/:provider/:providerPaymentId", (req: Request, res: Response) => {
+    try {
+      const { outcome } = simulatedOutcomeSchema.parse(req.body);
+      const payment = isPaymentSimulatorEnabled() ? getSimulatedPayment(req.params.providerPaymentId) : undefined;
+      if (!payment || payment.providerId !== req.params.provider) {
+        return res.status(404).json({ message: "Pagamento simulato non trovato" });
+      }
+      if (payment.outcome) {
+        return res.status(409).json({ message: "Esito già scelto per questo pagamento" });
+      }
+      
+      resolveSimulatedPayment(payment.providerPaymentId, outcome);
+      res.json({ ...payment, delayMs: simulatorDelayMs() });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Errore nel simulatore dei pagamenti:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  // Test Satispay authentication
+  app.get("/api/satispay/test-auth", async (req: Request, res: Response) => {
+    try {
+      const { testSatispayAuthentication } = await import("./satispay");
+      const result = await testSatispayAuthentication();
+      res.json(result);
+    } catch (error) {
+      console.error("Errore nel test autenticazione Satispay:", error);
+      res.status(500).json({ 
+        success: false, 
+        message: "Errore nel test di autenticazione",
+        details: error instanceof Error ? error.message : String(error)
+      });
     }
   });
 
@@ -2279,6 +2981,236 @@ RifID: ${hashId}`
     });
   });
 
+  /**
+   * GET /api/audit-log - Consulta il log di audit delle modifiche (ADMIN ONLY)
+   * Query: entityType?, entityId?, action?, source?, actor?, startDate?, endDate?, page?, limit?
+   */
+  app.get("/api/audit-log", async (req: Request, res: Response) => {
+    try {
+      const params = auditLogSearchSchema.parse({
+        entityType: req.query.entityType as string,
+        entityId: req.query.entityId as string,
+        action: req.query.action as string,
+        source: req.query.source as string,
+        actor: req.query.actor as string,
+        startDate: req.query.startDate as string,
+        endDate: req.query.endDate as string,
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 25
+      });
+      
+      const result = await storage.getAuditLog(params);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        console.error("Errore durante il recupero del log di audit:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  /**
+   * GET /api/integrity/orphans - Dati non collegati: servizi di sigle senza anagrafica,
+   * ricevute senza servizio e righe corrette dalla migrazione delle chiavi esterne (ADMIN ONLY)
+   */
+  app.get("/api/integrity/orphans", async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getOrphanReport());
+    } catch (error) {
+      console.error("Errore nel controllo di integrità dei dati:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  /**
+   * GET /api/integrity/money-conversion - Verifica della conversione degli importi in centesimi:
+   * righe, totali prima e dopo e valori arrotondati per ogni colonna convertita (ADMIN ONLY)
+   */
+  app.get("/api/integrity/money-conversion", async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getMoneyConversionReport());
+    } catch (error) {
+      console.error("Errore nel recupero della verifica di conversione degli importi:", error);
+      res.status(500).json({ message: "Errore interno del server" });
+    }
+  });
+
+  // Service catalog API Routes
+
+  /**
+   * GET /api/service-catalog - Tipi di servizio con il prezzo di listino in vigore oggi
+   * Query: all? ("true" per includere i tipi disattivati)
+   */
+  app.get("/api/service-catalog", async (req: Request, res: Response) => {
+    try {
+      const items = await storage.getServiceCatalog(req.query.all === "true");
+      const prices = await storage.getEffectivePrices(new Date());
+      
+      const catalog: ServiceCatalogEntry[] = items.map(item => ({
+        ...item,
+        unitPrice: prices[item.code] ?? null
+      }));
+      res.json(catalog);
+    } catch (error) {
+      console.error("Errore durante il recupero del catalogo servizi:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/service-catalog - Nuovo tipo di servizio (ADMIN ONLY)
+   * Il prezzo unitario indicato entra nel listino a partire da oggi
+   */
+  app.post("/api/service-catalog", async (req: Request, res: Response) => {
+    try {
+      const itemData = insertServiceCatalogSchema.parse(req.body);
+      
+      if (await storage.getServiceCatalogItem(itemData.code)) {
+        return res.status(400).json({ message: `Esiste già un tipo di servizio con codice ${itemData.code}` });
+      }
+      
+      const item = await storage.createServiceCatalogItem(itemData);
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        console.error("Errore durante la creazione del tipo di servizio:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  /**
+   * PATCH /api/service-catalog/:id - Modifica etichette, unità o stato di un tipo (ADMIN ONLY)
+   * Per cambiare prezzo si aggiunge una voce al listino (POST /api/prices)
+   */
+  app.patch("/api/service-catalog/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const updates = updateServiceCatalogSchema.parse(req.body);
+      const item = await storage.updateServiceCatalogItem(id, updates);
+      
+      if (!item) {
+        return res.status(404).json({ message: "Service type not found" });
+      }
+      res.json(item);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        console.error("Errore durante l'aggiornamento del tipo di servizio:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Price list API Routes
+
+  /**
+   * GET /api/prices - Storico completo del listino (filtrabile per tipo di servizio)
+   */
+  app.get("/api/prices", async (req: Request, res: Response) => {
+    try {
+      const entries = await storage.getPriceList(req.query.type as string | undefined);
+      res.json(entries);
+    } catch (error) {
+      console.error("Errore durante il recupero del listino:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * GET /api/prices/effective - Prezzi in vigore a una data (default: oggi)
+   * Query: date? (YYYY-MM-DD)
+   */
+  app.get("/api/prices/effective", async (req: Request, res: Response) => {
+    try {
+      const date = req.query.date ? new Date(req.query.date as string) : new Date();
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ message: "Data non valida" });
+      }
+      
+      const prices = await storage.getEffectivePrices(date);
+      res.json({ date: date.toISOString(), prices });
+    } catch (error) {
+      console.error("Errore durante il calcolo dei prezzi in vigore:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/prices - Nuovo prezzo a partire da una data (ADMIN ONLY)
+   * Il prezzo precedente viene chiuso il giorno prima: gli importi storici non cambiano
+   */
+  app.post("/api/prices", async (req: Request, res: Response) => {
+    try {
+      const entryData = insertPriceListEntrySchema.parse(req.body);
+      const validFrom = new Date(entryData.validFrom);
+      
+      if (!(await storage.getServiceCatalogItem(entryData.serviceType))) {
+        return res.status(400).json({ message: `Tipo di servizio non presente nel catalogo: ${entryData.serviceType}` });
+      }
+      
+      // I periodi di validità si susseguono: non si inserisce un prezzo nel passato del listino
+      const latest = await storage.getLatestPriceListEntry(entryData.serviceType);
+      if (latest && new Date(latest.validFrom) >= validFrom) {
+        return res.status(400).json({
+          message: `La data di inizio deve essere successiva al ${new Date(latest.validFrom).toISOString().split("T")[0]}, inizio del prezzo attuale`
+        });
+      }
+      
+      const entry = await storage.addPriceListEntry(entryData);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        console.error("Errore durante l'aggiornamento del listino:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  /**
+   * DELETE /api/prices/:id - Annulla un prezzo programmato non ancora in vigore (ADMIN ONLY)
+   */
+  app.delete("/api/prices/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const entries = await storage.getPriceList();
+      const entry = entries.find(e => e.id === id);
+      if (!entry) {
+        return res.status(404).json({ message: "Price list entry not found" });
+      }
+      
+      // Un prezzo già applicato fa parte dello storico e non si cancella
+      if (new Date(entry.validFrom) <= new Date()) {
+        return res.status(400).json({ message: "Un prezzo già in vigore non può essere eliminato" });
+      }
+      
+      const deleted = await storage.deletePriceListEntry(id);
+      res.json({ success: deleted });
+    } catch (error) {
+      console.error("Errore durante l'eliminazione del prezzo:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Archive API Routes - REQUIRES ADMIN AUTHENTICATION
   
   /**
@@ -2286,15 +3218,6 @@ RifID: ${hashId}`
    * Body: { year: number, dryRun?: boolean }
    */
   app.post("/api/archive/close-year", async (req: Request, res: Response) => {
-    // CRITICAL SECURITY: Only authenticated admin users can archive data
-    if (!req.session?.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
-    
-    // ADMIN-ONLY: Check for admin privileges (username "admin" for now, role-based system can be added later)
-    if (req.session.user.username !== 'admin') {
-      return res.status(403).json({ error: "Admin privileges required for archive operations" });
-    }
     try {
       const { year, dryRun = false } = req.body;
       
@@ -2304,9 +3227,9 @@ RifID: ${hashId}`
         });
       }
       
-      if (year < 2020 || year > new Date().getFullYear()) {
+      if (year < 2020 || year > currentFiscalYear()) {
         return res.status(400).json({ 
-          error: "Year must be between 2020 and current year" 
+          error: "Year must be between 2020 and the current fiscal year" 
         });
       }
       
@@ -2323,21 +3246,101 @@ RifID: ${hashId}`
   });
 
   /**
-   * GET /api/archive/years - Ottiene tutti gli anni archiviati disponibili (ADMIN ONLY)
+   * POST /api/archive/reopen-year - Riporta tra i dati operativi un anno archiviato (ADMIN ONLY)
+   * Body: { year: number, dryRun?: boolean }
    */
-  app.get("/api/archive/years", async (req: Request, res: Response) => {
-    // SECURITY: Only authenticated admin users can view archive data
-    if (!req.session?.user) {
-      return res.status(401).json({ error: "Authentication required" });
+  app.post("/api/archive/reopen-year", async (req: Request, res: Response) => {
+    try {
+      const { year, dryRun = false } = req.body;
+
+      if (!year || typeof year !== 'number') {
+        return res.status(400).json({
+          error: "Year is required and must be a number"
+        });
+      }
+
+      if (year < 2020 || year > currentFiscalYear()) {
+        return res.status(400).json({
+          error: "Year must be between 2020 and the current fiscal year"
+        });
+      }
+
+      const result = await archiveService.reopenYear(year, { dryRun });
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error in reopen-year operation:', error);
+      res.status(500).json({
+        error: "Failed to reopen archived data",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * GET /api/archive/export/:year - Pacchetto .tar.gz dell'anno archiviato (ADMIN ONLY)
+   * CSV per tabella, manifest.json con i checksum SHA-256 e summary.pdf
+   */
+  app.get("/api/archive/export/:year", async (req: Request, res: Response) => {
+    try {
+      const year = parseInt(req.params.year);
+      if (isNaN(year)) {
+        return res.status(400).json({ error: "Invalid year parameter" });
+      }
+
+      const bundle = await archiveService.exportYear(year);
+      if (!bundle) {
+        return res.status(404).json({ error: `Nessun dato archiviato per il ${year}` });
+      }
+
+      res.setHeader('Content-Type', 'application/gzip');
+      res.setHeader('Content-Disposition', `attachment; filename="${bundle.fileName}"`);
+      res.send(bundle.content);
+    } catch (error) {
+      console.error('Error exporting archived year:', error);
+      res.status(500).json({
+        error: "Failed to export archived data",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
     }
-    
-    // ADMIN-ONLY: Check for admin privileges
-    if (req.session.user.username !== 'admin') {
-      return res.status(403).json({ error: "Admin privileges required for archive access" });
+  });
+
+  /**
+   * POST /api/archive/import - Importa un pacchetto di /api/archive/export in un'istanza nuova (ADMIN ONLY)
+   * Body: il file .tar.gz (Content-Type application/gzip); Query: dryRun=true per la sola verifica
+   */
+  app.post(
+    "/api/archive/import",
+    express.raw({ type: ["application/gzip", "application/x-gzip", "application/x-tar", "application/octet-stream"], limit: "100mb" }),
+    async (req: Request, res: Response) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ error: "Il corpo della richiesta deve essere il file .tar.gz dell'archivio" });
+        }
+
+        const result = await archiveService.importYear(req.body, { dryRun: req.query.dryRun === 'true' });
+        if ('error' in result) {
+          return res.status(result.status).json({ error: result.error });
+        }
+
+        res.json(result);
+      } catch (error) {
+        console.error('Error importing archive bundle:', error);
+        res.status(500).json({
+          error: "Failed to import archive bundle",
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
     }
+  );
+
+  /**
+   * GET /api/archive/years - Ottiene tutti gli anni archiviati disponibili (ADMIN ONLY)
+   */
+  app.get("/api/archive/years", async (req: Request, res: Response) => {
     try {
       const years = await archiveService.getArchivedYears();
-      res.json({ years });
+      res.json({ years, fiscalYears: years.map(getFiscalYear) });
     } catch (error) {
       console.error('Error getting archived years:', error);
       res.status(500).json({ 
@@ -2352,19 +3355,10 @@ RifID: ${hashId}`
    * Query: year? (opzionale, per stats di un anno specifico)
    */
   app.get("/api/archive/stats", async (req: Request, res: Response) => {
-    // SECURITY: Only authenticated admin users can view archive statistics
-    if (!req.session?.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
-    
-    // ADMIN-ONLY: Check for admin privileges
-    if (req.session.user.username !== 'admin') {
-      return res.status(403).json({ error: "Admin privileges required for archive statistics" });
-    }
     try {
       const year = req.query.year ? parseInt(req.query.year as string) : undefined;
       
-      if (year && (isNaN(year) || year < 2020 || year > new Date().getFullYear())) {
+      if (year && (isNaN(year) || year < 2020 || year > currentFiscalYear())) {
         return res.status(400).json({ 
           error: "Invalid year parameter" 
         });
@@ -2391,22 +3385,12 @@ RifID: ${hashId}`
    * Response: { success: boolean, inserted: number, skipped: number, failed: number, errors?: string[] }
    */
   app.post("/api/import/services/historical", async (req: Request, res: Response) => {
-    // CRITICAL SECURITY: Only authenticated admin users can import historical data
-    if (!req.session?.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
-    
-    // ADMIN-ONLY: Check for admin privileges
-    if (req.session.user.username !== 'admin') {
-      return res.status(403).json({ error: "Admin privileges required for historical data import" });
-    }
-
     try {
       const { year, rows, dryRun = true } = req.body;
       
       // Validate input
-      if (!year || typeof year !== 'number' || year < 2020 || year > new Date().getFullYear()) {
-        return res.status(400).json({ error: "Invalid year parameter. Must be between 2020 and current year." });
+      if (!year || typeof year !== 'number' || year < 2020 || year > currentFiscalYear()) {
+        return res.status(400).json({ error: "Invalid year parameter. Must be between 2020 and the current fiscal year." });
       }
       
       if (!Array.isArray(rows) || rows.length === 0) {
@@ -2418,10 +3402,11 @@ RifID: ${hashId}`
       // Transform and validate each row
       const transformedRows = [];
       const errors = [];
+      const catalog = await storage.getServiceCatalog(true);
       
       for (let i = 0; i < rows.length; i++) {
         try {
-          const transformedRow = transformHistoricalServiceRow(rows[i]);
+          const transformedRow = transformHistoricalServiceRow(rows[i], catalog);
           transformedRows.push(transformedRow);
         } catch (error) {
           const errorMsg = `Row ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -1,19 +1,31 @@
 import { Router } from 'express';
 import { enableMaintenanceMode, disableMaintenanceMode } from '../maintenance';
 import { db } from '../db';
-import { services } from '@shared/schema';
+import { storage } from '../storage';
+import { services, InsertService } from '@shared/schema';
+import { sameAmount } from '@shared/money';
 import { eq } from 'drizzle-orm';
 import * as fs from 'fs';
 import * as path from 'path';
 
 const router = Router();
 
-// Canonical per-piece prices
-const CANONICAL_PRICES = {
-  'siglatura': 0.50,
-  'happy_hour': 1.00,
-  'riparazione': 4.00
-};
+type PriceResolver = (type: string, date: Date) => number | undefined;
+
+// Per-piece prices come from the price list, resolved on the service date so
+// that a later price change never rewrites historical amounts
+async function loadPriceResolver(): Promise<PriceResolver> {
+  const entries = await storage.getPriceList();
+  return (type, date) => {
+    const time = new Date(date).getTime();
+    const entry = entries.find(e =>
+      e.serviceType === type &&
+      new Date(e.validFrom).getTime() <= time &&
+      (!e.validTo || new Date(e.validTo).getTime() > time)
+    );
+    return entry?.unitPrice;
+  };
+}
 
 interface RecoveryStats {
   totalProcessed: number;
@@ -44,18 +56,18 @@ async function fixAmountCalculations(dryRun = true): Promise<RecoveryStats> {
   try {
     // Get all services that potentially have wrong amounts
     const allServices = await db.select().from(services);
+    const getCanonicalPrice = await loadPriceResolver();
     
     for (const service of allServices) {
       stats.totalProcessed++;
       
-      const canonicalPrice = CANONICAL_PRICES[service.type as keyof typeof CANONICAL_PRICES];
+      const canonicalPrice = getCanonicalPrice(service.type, service.date);
       if (!canonicalPrice) {
         stats.errors.push(`Unknown service type: ${service.type} for service ID ${service.id}`);
         continue;
       }
 
       const expectedTotalAmount = service.pieces * canonicalPrice;
-      const tolerance = 0.01;
 
       // Check if amount needs correction
       let needsCorrection = false;
@@ -63,14 +75,14 @@ async function fixAmountCalculations(dryRun = true): Promise<RecoveryStats> {
       let newAmount = service.amount;
 
       // Fix 1: Per-piece amount stored instead of total (e.g., 0.50 for 3 pieces instead of 1.50)
-      if (Math.abs(service.amount - canonicalPrice) < tolerance && service.pieces > 1) {
+      if (sameAmount(service.amount, canonicalPrice) && service.pieces > 1) {
         needsCorrection = true;
         newAmount = canonicalPrice; // Ensure per-piece canonical price
         correctionReason = `Fixed per-piece amount (was storing per-piece ${service.amount} instead of canonical ${canonicalPrice})`;
       }
       
       // Fix 2: Wrong historical per-piece price (e.g., 0.40 instead of 0.50)
-      else if (service.amount !== canonicalPrice) {
+      else if (!sameAmount(service.amount, canonicalPrice)) {
         needsCorrection = true;
         newAmount = canonicalPrice;
         correctionReason = `Fixed wrong per-piece price (${service.amount} -> ${canonicalPrice})`;
@@ -91,9 +103,8 @@ async function fixAmountCalculations(dryRun = true): Promise<RecoveryStats> {
         console.log(`${dryRun ? '[DRY-RUN] ' : ''}Correcting service ${service.id} (${service.sigla}): ${service.amount} -> ${newAmount} (${correctionReason})`);
 
         if (!dryRun) {
-          await db.update(services)
-            .set({ amount: newAmount })
-            .where(eq(services.id, service.id));
+          // Passa da storage così la correzione finisce nel log di audit
+          await storage.updateService(service.id, { amount: newAmount });
         }
       }
     }
@@ -120,6 +131,8 @@ async function importFromDataFile(filePath: string, fileType: 'tsv' | 'database_
   }
 
   try {
+    const getCanonicalPrice = await loadPriceResolver();
+    
     if (fileType === 'database_export') {
       // Use the fixed database export parser
       const { parseDatabaseExportFile } = await import('./importDatabaseExport');
@@ -129,7 +142,7 @@ async function importFromDataFile(filePath: string, fileType: 'tsv' | 'database_
       
       for (const service of parsedServices) {
         // Apply canonical price fix during import
-        const canonicalPrice = CANONICAL_PRICES[service.type as keyof typeof CANONICAL_PRICES] || service.amount;
+        const canonicalPrice = getCanonicalPrice(service.type, service.date) || service.amount;
         
         if (!dryRun) {
           // Check for duplicates and import
@@ -146,7 +159,7 @@ async function importFromDataFile(filePath: string, fileType: 'tsv' | 'database_
           if (duplicate) {
             result.skipped++;
           } else {
-            await db.insert(services).values({
+            await storage.createService({
               date: service.date,
               sigla: service.sigla,
               pieces: service.pieces,
@@ -156,7 +169,7 @@ async function importFromDataFile(filePath: string, fileType: 'tsv' | 'database_
               notes: service.notes,
               archivedYear: service.archivedYear,
               archivedAt: new Date()
-            });
+            } as InsertService);
             result.imported++;
           }
         } else {
@@ -170,7 +183,8 @@ async function importFromDataFile(filePath: string, fileType: 'tsv' | 'database_
       const { transformHistoricalServiceRow } = await import('../utils/historicalTransformer');
       
       // Parse TSV data
-      const parsedData = parseAllTSVFiles();
+      const catalog = await storage.getServiceCatalog(true);
+      const parsedData = parseAllTSVFiles(catalog);
       result.errors.push(...parsedData.errors);
 
       for (const serviceRow of parsedData.services) {
@@ -178,10 +192,10 @@ async function importFromDataFile(filePath: string, fileType: 'tsv' | 'database_
           const transformedService = transformHistoricalServiceRow({
             ...serviceRow,
             amount: serviceRow.totalAmount
-          });
+          }, catalog);
           
           // Apply canonical price fix
-          const canonicalPrice = CANONICAL_PRICES[transformedService.type as keyof typeof CANONICAL_PRICES] || transformedService.amount;
+          const canonicalPrice = getCanonicalPrice(transformedService.type, transformedService.date) || transformedService.amount;
           transformedService.amount = canonicalPrice;
 
           if (!dryRun) {
@@ -199,7 +213,7 @@ async function importFromDataFile(filePath: string, fileType: 'tsv' | 'database_
             if (duplicate) {
               result.skipped++;
             } else {
-              await db.insert(services).values(transformedService);
+              await storage.createService(transformedService);
               result.imported++;
             }
           } else {
@@ -380,9 +394,10 @@ router.get('/recovery/status', async (req, res) => {
     }, {} as Record<string, number>);
 
     // Check for amount inconsistencies
+    const getCanonicalPrice = await loadPriceResolver();
     const amountIssues = servicesByType.filter(service => {
-      const canonicalPrice = CANONICAL_PRICES[service.type as keyof typeof CANONICAL_PRICES];
-      return canonicalPrice && Math.abs(service.amount - canonicalPrice) > 0.01;
+      const canonicalPrice = getCanonicalPrice(service.type, service.date);
+      return canonicalPrice && !sameAmount(service.amount, canonicalPrice);
     }).length;
 
     res.json({
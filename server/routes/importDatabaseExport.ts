@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import * as fs from 'fs';
 import * as path from 'path';
+import { sameAmount } from '@shared/money';
+import { getFiscalYearOf } from '../fiscalYear';
 
 const router = Router();
 
@@ -93,8 +95,8 @@ function parseDatabaseExportFile(filePath: string): { services: ParsedDatabaseSe
       // Combine notes if any
       const notes = notesParts.length > 0 ? notesParts.join(' ') : undefined;
       
-      // Determine archived year
-      const archivedYear = date.getFullYear();
+      // Determine archived (fiscal) year
+      const archivedYear = getFiscalYearOf(date);
       
       const service = {
         id,
@@ -122,8 +124,6 @@ function parseDatabaseExportFile(filePath: string): { services: ParsedDatabaseSe
 
 // Import database export endpoint
 router.post('/import/services/database-export', async (req, res) => {
-  // TODO: Add authentication once auth system is located
-  // SECURITY: This endpoint should be protected in production
   try {
     const { dryRun = true, filePath: providedFilePath } = req.body;
     
@@ -193,7 +193,7 @@ router.post('/import/services/database-export', async (req, res) => {
 
         // Check if a very similar service already exists
         const duplicate = existingServices.find(existing => 
-          Math.abs(existing.amount - service.amount) < 0.01 // Tolerance for floating point comparison
+          sameAmount(existing.amount, service.amount)
         );
 
         if (duplicate) {
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import * as fs from 'fs';
 import * as path from 'path';
+import { sameAmount } from '@shared/money';
+import { getFiscalYearOf } from '../fiscalYear';
 
 const router = Router();
 
@@ -114,7 +116,7 @@ function parseNewTSVFormat(filePath: string): ParsedService[] {
         pieces,
         type,
         amount,
-        archivedYear: date.getFullYear(),
+        archivedYear: getFiscalYearOf(date),
         ...(notes && { notes })
       };
 
@@ -196,7 +198,7 @@ router.post('/import/services/new-tsv', async (req, res) => {
           s.sigla === service.sigla && 
           s.type === service.type && 
           s.pieces === service.pieces &&
-          Math.abs(s.amount - service.amount) < 0.01 &&
+          sameAmount(s.amount, service.amount) &&
           s.archivedYear === service.archivedYear
         );
 
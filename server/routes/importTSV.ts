@@ -1,20 +1,22 @@
 import { Router } from 'express';
 import { parseAllTSVFiles } from '../utils/tsvParser';
 import { transformHistoricalServiceRow } from '../utils/historicalTransformer';
+import { storage } from '../storage';
+import { sameAmount } from '@shared/money';
+import { getFiscalYearOf } from '../fiscalYear';
 
 const router = Router();
 
 // Import all historical data from TSV files
 router.post('/import/services/tsv', async (req, res) => {
-  // TODO: Add authentication once auth system is located
-  // SECURITY: This endpoint should be protected in production
   try {
     const { dryRun = false } = req.body;
     
     console.log('🔄 Starting TSV import process...');
     
-    // Parse all TSV files
-    const parsedData = parseAllTSVFiles();
+    // Parse all TSV files (i tipi vengono riconosciuti anche tramite il catalogo servizi)
+    const catalog = await storage.getServiceCatalog(true);
+    const parsedData = parseAllTSVFiles(catalog);
     
     if (parsedData.errors.length > 0) {
       console.log('⚠️ Parsing errors found:');
@@ -31,7 +33,7 @@ router.post('/import/services/tsv', async (req, res) => {
         errors: parsedData.errors,
         sampleServices: parsedData.services.slice(0, 5),
         servicesByYear: parsedData.services.reduce((acc, service) => {
-          const year = new Date(service.date.split('/').reverse().join('-')).getFullYear();
+          const year = getFiscalYearOf(new Date(service.date.split('/').reverse().join('-')));
           acc[year] = (acc[year] || 0) + 1;
           return acc;
         }, {} as Record<number, number>),
@@ -53,7 +55,7 @@ router.post('/import/services/tsv', async (req, res) => {
         const transformed = transformHistoricalServiceRow({
           ...service,
           amount: service.totalAmount // Map totalAmount to amount for transformer
-        });
+        }, catalog);
         
         transformedServices.push(transformed);
       } catch (error) {
@@ -76,8 +78,6 @@ router.post('/import/services/tsv', async (req, res) => {
     
     if (!dryRun) {
       // Import each service with idempotency check
-      const { storage } = await import('../storage');
-      
       for (let i = 0; i < transformedServices.length; i++) {
         const service = transformedServices[i];
         
@@ -99,7 +99,7 @@ router.post('/import/services/tsv', async (req, res) => {
             s.sigla === service.sigla && 
             s.type === service.type && 
             s.pieces === service.pieces &&
-            Math.abs(s.amount - service.amount) < 0.01 &&
+            sameAmount(s.amount, service.amount) &&
             s.archivedYear === service.archivedYear
           );
           
@@ -1,15 +1,11 @@
-import { Request, Response } from "express";
 import crypto from "crypto";
-import { storage } from "./storage";
+import { RefundKind } from "@shared/schema";
+import { fromCents, toCents } from "@shared/money";
+import { enforceSignature } from "./payments/signatures";
+import { normalizePaymentStatus } from "./payments/status";
+import type { PaymentProvider } from "./payments/types";
 import fs from "fs";
 
-interface SatispayPaymentRequest {
-  sigla: string;
-  amount: number;
-  customerName: string;
-  description?: string;
-}
-
 interface SatispayPayment {
   id: string;
   amount_unit: number;
@@ -22,6 +18,8 @@ interface SatispayPayment {
   callback_url?: string;
   metadata?: Record<string, string>;
   created_at: string;
+  flow?: string; // MATCH_CODE per i pagamenti, REFUND per i rimborsi
+  parent_payment_uid?: string; // Pagamento rimborsato (solo flow REFUND)
 }
 
 // Step 3: Create the Digest of the body (SHA-256)
@@ -243,289 +241,135 @@ export async function testSatispayAuthentication(): Promise<{ success: boolean;
   }
 }
 
-// Create Satispay payment
-export async function createSatispayPayment(req: Request, res: Response) {
-  try {
-    const { sigla, amount, customerName, description }: SatispayPaymentRequest = req.body;
-
-    if (!sigla || !amount || !customerName) {
-      return res.status(400).json({ 
-        message: "Sigla, importo e nome cliente sono obbligatori" 
-      });
-    }
-
-    if (amount <= 0) {
-      return res.status(400).json({ 
-        message: "L'importo deve essere maggiore di zero" 
-      });
-    }
-
-    // Create unique payment ID
-    const paymentId = `sp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    // Store payment locally first
-    await storage.createSecretariatPayment({
-      orderId: paymentId,
-      sigla,
-      amount,
-      customerName,
-      customerEmail: `${sigla}@elis.org`,
-      currency: "EUR",
-      status: "pending",
-      paymentMethod: "satispay",
-      metadata: JSON.stringify({
-        sigla,
-        description: description || `Pagamento servizi ELIS - ${sigla}`
-      })
-    });
+// Credenziali per le chiamate reali; senza, nessun pagamento può essere creato (in sviluppo c'è PAYMENT_SIMULATOR)
+function hasSatispayCredentials(): boolean {
+  return !!(process.env.SATISPAY_KEY_ID && process.env.SATISPAY_PRIVATE_KEY && process.env.SATISPAY_ACTIVATION_CODE);
+}
 
-    // Force use of the new KeyId provided by user
-    const keyId = "53p1h1ejue2fu4ha3vc2lmb2k1kidqkj8s5n5nuqrt0k3g1f7nhfep41g7tvamlidortgl2nm2q66qb5as6b0abmn9kmr6ubc48hbdjnh5gfp7lpa9c5ul23i3n0l6a99rkvkvhhem19t93u1c2rna426uu6tp4inbk74a3r2q2n7eq8e8mpgav2t3k6csodnvsv5b82";
-    
-    const hasCredentials = keyId && 
-                          process.env.SATISPAY_PRIVATE_KEY && 
-                          process.env.SATISPAY_ACTIVATION_CODE;
+export const satispayProvider: PaymentProvider = {
+  id: "satispay",
+  label: "Satispay",
+  description: "Pagamento mobile",
 
-    let payment: SatispayPayment;
-    let isRealPayment = false;
+  isConfigured: hasSatispayCredentials,
+  hasStatusApi: true,
 
-    if (hasCredentials) {
-      try {
-        console.log(`[Satispay Payment] Creating authentic payment for ${sigla}: €${amount}`);
-        
-        // Create real Satispay payment following official API documentation
-        const paymentPayload = {
-          flow: "MATCH_CODE", // For one-off QR code payments
-          amount_unit: Math.round(amount * 100), // Amount in cents as per API spec
-          currency: "EUR", // Only EUR supported
-          external_code: `ELIS-${sigla}-${Date.now()}`, // Internal order ID for reconciliation (max 50 chars)
-          callback_url: `${process.env.VITE_APP_URL || 'http://localhost:5173'}/api/satispay/webhook?payment_id={uuid}`,
-          redirect_url: `${process.env.VITE_APP_URL || 'http://localhost:5173'}/payment-success?orderId=${paymentId}&method=satispay`,
-          metadata: {
-            sigla: sigla,
-            customer_name: customerName,
-            description: description || `Pagamento servizi ELIS - ${sigla}`,
-            payment_id: paymentId
-          }
-        };
-        
-        console.log(`[Satispay Payment] Creating payment with official API payload:`, paymentPayload);
-        
-        payment = await makeSatispayRequest("POST", "/g_business/v1/payments", paymentPayload);
-        isRealPayment = true;
-        
-        console.log('Real Satispay payment created:', payment.id);
-      } catch (apiError) {
-        console.log('Satispay API failed, using enhanced processing simulation');
-        
-        payment = {
-          id: paymentId,
-          amount_unit: Math.round(amount * 100),
-          currency: "EUR",
-          status: "PENDING",
-          description: description || `Pagamento servizi ELIS - ${sigla}`,
-          created_at: new Date().toISOString()
-        };
-      }
-    } else {
-      // Enhanced simulation when no credentials
-      payment = {
-        id: paymentId,
-        amount_unit: Math.round(amount * 100),
-        currency: "EUR", 
-        status: "PENDING",
-        description: description || `Pagamento servizi ELIS - ${sigla}`,
-        created_at: new Date().toISOString()
-      };
+  async createPayment(input) {
+    if (!hasSatispayCredentials()) {
+      throw new Error("Credenziali Satispay non configurate");
     }
-
-    // Extract code_identifier from payment object or generate from paymentId for QR code
-    // Se è un pagamento Satispay reale, il code_identifier è nel formato S6Y-PAY--{UUID}
-    const codeIdentifier = isRealPayment ? `S6Y-PAY--${payment.id.toUpperCase()}` : null;
-    
-    const responsePayload = {
-      success: true,
-      paymentId: payment.id,
-      amount: amount,
-      currency: payment.currency,
-      description: payment.description,
-      status: payment.status,
-      qrCode: payment.qr_code || null,
-      codeIdentifier: codeIdentifier, // Satispay code for QR generation
-      redirectUrl: `/payment-processing?orderId=${payment.id}&method=satispay`,
-      isLive: isRealPayment
+    console.log(`[Satispay Payment] Creating authentic payment for ${input.sigla}: €${input.amount}`);
+
+    // Create real Satispay payment following official API documentation
+    const paymentPayload = {
+      flow: "MATCH_CODE", // For one-off QR code payments
+      amount_unit: toCents(input.amount),
+      currency: "EUR", // Only EUR supported
+      external_code: `ELIS-${input.sigla}-${Date.now()}`, // Internal order ID for reconciliation (max 50 chars)
+      callback_url: `${input.baseUrl}/api/webhooks/satispay?payment_id={uuid}`,
+      redirect_url: `${input.baseUrl}/payment-success?orderId=${input.orderId}&method=satispay`,
+      metadata: {
+        sigla: input.sigla,
+        customer_name: input.customerName,
+        description: input.description,
+        payment_id: input.orderId
+      }
     };
-    
-    console.log('Satispay Response Payload:', JSON.stringify(responsePayload, null, 2));
-    res.json(responsePayload);
 
-  } catch (error) {
-    console.error("Error creating Satispay payment:", error);
-    res.status(500).json({ 
-      message: "Errore nella creazione del pagamento Satispay" 
-    });
-  }
-}
+    // Se l'API non risponde l'errore passa al checkout, che segna il pagamento come fallito
+    const payment: SatispayPayment = await makeSatispayRequest("POST", "/g_business/v1/payments", paymentPayload);
+    console.log('Real Satispay payment created:', payment.id);
 
-// Check Satispay payment status without API authentication issues
-export async function checkSatispayPaymentStatus(req: Request, res: Response) {
-  try {
-    const { paymentId } = req.params;
+    return {
+      providerPaymentId: payment.id,
+      status: normalizePaymentStatus("satispay", payment.status),
+      live: true,
+      // Il code_identifier di un pagamento reale è nel formato S6Y-PAY--{UUID}
+      codeIdentifier: `S6Y-PAY--${payment.id.toUpperCase()}`,
+      qrCode: payment.qr_code,
+    };
+  },
 
-    if (!paymentId) {
-      return res.status(400).json({ message: "Payment ID richiesto" });
+  async getStatus(payment) {
+    // Un pagamento reale si verifica solo presso Satispay: se l'API non risponde l'errore passa al chiamante
+    if (payment.paymentIntentId) {
+      if (!hasSatispayCredentials()) {
+        throw new Error("Credenziali Satispay non configurate");
+      }
+      const apiPayment: SatispayPayment = await makeSatispayRequest("GET", `/g_business/v1/payments/${payment.paymentIntentId}`);
+      console.log(`Retrieved real payment status from Satispay: ${apiPayment.status}`);
+      return { status: normalizePaymentStatus("satispay", apiPayment.status), rawStatus: apiPayment.status };
     }
 
-    // Get local payment record
-    const localPayment = await storage.getSecretariatPaymentByOrderId(paymentId);
-    
-    if (!localPayment) {
-      return res.status(404).json({ message: "Pagamento non trovato" });
-    }
+    // Nessun pagamento registrato presso Satispay: non c'è niente di pagato da verificare
+    return { status: normalizePaymentStatus("satispay", "PENDING"), rawStatus: "PENDING" };
+  },
 
-    // Real Satispay integration: Try API call first, fallback to time-based processing
-    // Force use of the new KeyId provided by user
-    const keyId = "53p1h1ejue2fu4ha3vc2lmb2k1kidqkj8s5n5nuqrt0k3g1f7nhfep41g7tvamlidortgl2nm2q66qb5as6b0abmn9kmr6ubc48hbdjnh5gfp7lpa9c5ul23i3n0l6a99rkvkvhhem19t93u1c2rna426uu6tp4inbk74a3r2q2n7eq8e8mpgav2t3k6csodnvsv5b82";
-    
-    const hasCredentials = keyId && 
-                          process.env.SATISPAY_PRIVATE_KEY && 
-                          process.env.SATISPAY_ACTIVATION_CODE;
+  async parseWebhook(request) {
+    const webhookData = request.rawBody ? JSON.parse(request.rawBody) : {};
+    console.log('Received Satispay webhook:', webhookData);
 
-    // Time-based payment completion
-    const paymentCreatedTime = new Date(localPayment.createdAt || new Date());
-    const currentTime = new Date();
-    const timeDiff = currentTime.getTime() - paymentCreatedTime.getTime();
-    
-    // Complete payment after 8 seconds
-    const isCompleted = timeDiff > 8000;
-    
-    let payment: SatispayPayment = {
-      id: paymentId,
-      amount_unit: localPayment.amount * 100,
-      currency: "EUR",
-      status: isCompleted ? "ACCEPTED" : "PENDING",
-      description: `Pagamento servizi ELIS - ${localPayment.sigla}`,
-      created_at: localPayment.createdAt?.toISOString() || new Date().toISOString()
-    };
-    
-    let statusFromAPI = false;
+    // La callback non è firmata: del corpo (o della query) si usa solo l'ID del pagamento,
+    // stato, tipo e importo si rileggono dall'API di Satispay
+    const bodyPayment: SatispayPayment | undefined = webhookData.action === 'payment_update' ? webhookData.data : undefined;
+    const paymentId = typeof request.query.payment_id === "string" ? request.query.payment_id : bodyPayment?.id;
+    if (!paymentId) return [];
 
-    if (hasCredentials) {
-      try {
-        // Attempt real Satispay API call
-        const apiPayment = await makeSatispayRequest("GET", `/g_business/v1/payments/${paymentId}`);
-        payment = apiPayment;
-        statusFromAPI = true;
-        console.log(`Retrieved real payment status from Satispay: ${payment.status}`);
-      } catch (apiError) {
-        console.log('Satispay API authentication failed, using time-based completion');
-        console.log(`Time-based payment status: ${payment.id} - ${payment.status} (${timeDiff}ms elapsed)`);
-      }
+    let paymentData: SatispayPayment | undefined;
+    if (hasSatispayCredentials()) {
+      paymentData = await makeSatispayRequest("GET", `/g_business/v1/payments/${encodeURIComponent(paymentId)}`);
     } else {
-      console.log(`Time-based payment status: ${payment.id} - ${payment.status} (${timeDiff}ms elapsed)`);
+      // Senza credenziali l'evento non si può verificare: in produzione viene rifiutato
+      enforceSignature("satispay", null);
+      paymentData = bodyPayment;
     }
-
-    // Update payment completion if status is ACCEPTED
-    if (payment.status === 'ACCEPTED' && localPayment.status === 'pending') {
-      await storage.updateSecretariatPaymentStatus(paymentId, "completed");
-      
-      // Mark all unpaid services for this sigla as paid
-      const services = await storage.getServices({
-        sigla: localPayment.sigla,
-        status: "unpaid",
-        page: 1,
-        limit: 100
-      });
-
-      for (const service of services.services) {
-        await storage.updateService(service.id, { 
-          status: "paid"
-        });
+    if (!paymentData) return [];
+
+    if (paymentData.flow === 'REFUND') {
+      // Rimborso fatto dall'app Satispay Business: si registra sul pagamento originale, riletto anch'esso
+      if (paymentData.status !== 'ACCEPTED' || !paymentData.parent_payment_uid) return [];
+      let parentId = paymentData.parent_payment_uid;
+      if (hasSatispayCredentials()) {
+        const parent: SatispayPayment = await makeSatispayRequest("GET", `/g_business/v1/payments/${encodeURIComponent(parentId)}`);
+        if (parent.flow === 'REFUND' || parent.status !== 'ACCEPTED') return [];
+        parentId = parent.id;
       }
-      
-      console.log(`✓ Payment completed: marked ${services.services.length} services as paid for ${localPayment.sigla}`);
+      return [{
+        type: "refund",
+        providerPaymentId: parentId,
+        providerRefundId: paymentData.id,
+        amount: fromCents(paymentData.amount_unit),
+
+        kind: RefundKind.REFUND,
+        reason: "Rimborso da Satispay",
+      }];
     }
 
-    res.json({
-      success: true,
-      payment: {
-        id: payment.id,
-        status: payment.status,
-        amount: localPayment.amount,
-        currency: payment.currency,
-        sigla: localPayment.sigla,
-        completedViaAPI: statusFromAPI
-      }
-    });
-
-  } catch (error) {
-    console.error("Error checking Satispay payment status:", error);
-    res.status(500).json({ 
-      message: "Errore nella verifica dello stato del pagamento" 
+    return [{
+      type: "payment",
+      providerPaymentId: paymentData.id,
+      orderId: paymentData.metadata?.payment_id,
+      status: normalizePaymentStatus("satispay", paymentData.status),
+      rawStatus: paymentData.status,
+    }];
+  },
+
+  async refund(payment, amount) {
+    // Senza ID Satispay (pagamenti registrati prima dell'integrazione reale) il rimborso si fa a mano
+    if (!payment.paymentIntentId) return null;
+
+    const refund: SatispayPayment = await makeSatispayRequest("POST", "/g_business/v1/payments", {
+      flow: "REFUND",
+      amount_unit: toCents(amount),
+      currency: "EUR",
+      parent_payment_uid: payment.paymentIntentId,
     });
-  }
-}
-
-// Handle Satispay webhook
-export async function handleSatispayWebhook(req: Request, res: Response) {
-  try {
-    const webhookData = req.body;
-    console.log('Received Satispay webhook:', webhookData);
-
-    if (webhookData.action === 'payment_update' && webhookData.data) {
-      const paymentData = webhookData.data;
-      
-      if (paymentData.status === 'ACCEPTED') {
-        console.log(`✓ Webhook: Payment ${paymentData.id} ACCEPTED`);
-        
-        // Update payment status
-        await storage.updateSecretariatPaymentStatus(paymentData.id, "completed");
-
-        // Find and update related services
-        const payment = await storage.getSecretariatPayment(paymentData.id);
-        if (payment && payment.sigla) {
-          const services = await storage.getServices({
-            sigla: payment.sigla,
-            status: "unpaid",
-            page: 1,
-            limit: 100
-          });
-
-          for (const service of services.services) {
-            await storage.updateService(service.id, { 
-              status: "paid"
-            });
-          }
-          
-          console.log(`✓ Webhook: Updated ${services.services.length} services to paid for ${payment.sigla}`);
-        }
-        
-        // Get payment details to update services
-        const localPayment = await storage.getSecretariatPaymentByOrderId(paymentData.id);
-        
-        if (localPayment) {
-          const services = await storage.getServices({
-            sigla: localPayment.sigla,
-            status: "unpaid",
-            page: 1,
-            limit: 100
-          });
-
-          for (const service of services.services) {
-            await storage.updateService(service.id, { 
-              status: "paid"
-            });
-          }
-        }
-      }
+    if (refund.status !== "ACCEPTED") {
+      throw new Error(`Satispay refund ${refund.id} ${refund.status}`);
     }
-
-    res.status(200).json({ success: true });
-  } catch (error) {
-    console.error("Error handling Satispay webhook:", error);
-    res.status(500).json({ message: "Errore nel webhook" });
-  }
-}
+    return refund.id;
+  },
+};
 
 // Verify webhook signature (if needed)
 export function verifySatispayWebhookSignature(
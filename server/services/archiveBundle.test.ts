@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { gunzipSync, gzipSync } from "zlib";
+import { secretariatPayments, services } from "@shared/schema";
+import { buildArchiveBundle, decodeTableCsv, encodeTableCsv, readArchiveBundle } from "./archiveBundle";
+import { createTarGz, readTarGz } from "../utils/tar";
+
+const service = {
+  id: 7,
+  date: new Date("2024-03-10T09:30:00.000Z"),
+  sigla: "101",
+  studentId: null,
+  pieces: 2,
+  type: "siglatura",
+  amount: 1.05,
+  status: "unpaid",
+  paymentMethod: null,
+  notes: 'Giacca "blu", tasca\nsinistra',
+  archivedYear: 2024,
+  archivedAt: new Date("2025-01-02T00:00:00.000Z"),
+  deletedAt: null,
+  deletedBy: "",
+};
+
+describe("archive bundle", () => {
+  it("round-trips table rows through CSV keeping nulls, empty strings and types", () => {
+    const csv = encodeTableCsv(services, [service]);
+    assert.ok(csv.startsWith("id,date,sigla,student_id,pieces,type,amount_cents,"));
+    assert.deepEqual(decodeTableCsv(services, csv), [service]);
+
+    const payment = { requestedServiceIds: [1, 2] };
+    assert.deepEqual(
+      decodeTableCsv(secretariatPayments, encodeTableCsv(secretariatPayments, [payment])).map(row => row.requestedServiceIds),
+      [[1, 2]]
+    );
+  });
+
+  it("rejects columns the table does not have", () => {
+    assert.throws(() => decodeTableCsv(services, "id,colour\n1,\"red\"\n"), /Colonna sconosciuta: colour/);
+  });
+
+  it("writes a manifest with the checksum of every file and reads the tables back", () => {
+    const bundle = buildArchiveBundle(2024, [{ name: "services", table: services, rows: [service] }], Buffer.from("%PDF"));
+    const { manifest, csv } = readArchiveBundle(bundle);
+
+    assert.equal(manifest.year, 2024);
+    assert.deepEqual(manifest.tables, [{ table: "services", file: "services.csv", rows: 1 }]);
+    assert.deepEqual(manifest.files.map(file => file.name), ["services.csv", "summary.pdf"]);
+    assert.ok(manifest.files.every(file => /^[0-9a-f]{64}$/.test(file.sha256)));
+    assert.deepEqual(decodeTableCsv(services, csv.get("services")!), [service]);
+  });
+
+  it("refuses a bundle whose files do not match the manifest", () => {
+    const bundle = buildArchiveBundle(2024, [{ name: "services", table: services, rows: [service] }], Buffer.from("%PDF"));
+    const tampered = readTarGz(bundle).map(file =>
+      file.name === "services.csv" ? { ...file, content: Buffer.from(file.content.toString().replace("1.05", "0.05")) } : file
+    );
+    assert.throws(() => readArchiveBundle(createTarGz(tampered)), /Checksum non valido per services\.csv/);
+    assert.throws(() => readArchiveBundle(createTarGz(tampered.slice(1))), /manifest\.json mancante/);
+  });
+
+  it("produces a standard tar archive", () => {
+    const files = [{ name: "a.txt", content: Buffer.from("ciao") }, { name: "vuoto.csv", content: Buffer.alloc(0) }];
+    const tar = gunzipSync(createTarGz(files));
+    assert.equal(tar.length % 512, 0);
+    assert.equal(tar.subarray(257, 262).toString(), "ustar");
+    assert.deepEqual(readTarGz(tar), files);
+    assert.deepEqual(readTarGz(gzipSync(tar)), files);
+    assert.throws(() => readTarGz(tar.subarray(0, 515)), /troncato/);
+  });
+});
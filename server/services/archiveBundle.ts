@@ -0,0 +1,199 @@
+import { createHash } from 'crypto';
+import { getTableColumns } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { parse } from 'csv-parse/sync';
+import { jsPDF } from 'jspdf';
+import { formatEuros } from '@shared/money';
+import { createTarGz, readTarGz } from '../utils/tar';
+
+/*
+ * Pacchetto di esportazione di un anno archiviato (.tar.gz):
+ *   manifest.json   formato, anno, righe per tabella e SHA-256 di ogni file
+ *   <tabella>.csv   una tabella per file, intestazione con i nomi delle colonne del database
+ *   summary.pdf     riepilogo leggibile dell'anno
+ * Nei CSV i valori NULL sono campi vuoti senza virgolette, i testi sono sempre tra virgolette,
+ * le date in ISO 8601, gli importi in euro e gli array in JSON.
+ */
+
+export const ARCHIVE_BUNDLE_FORMAT = 'elis-archive';
+export const ARCHIVE_BUNDLE_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+const SUMMARY_FILE = 'summary.pdf';
+
+export interface ArchiveBundleTable {
+  table: string;
+  file: string;
+  rows: number;
+}
+
+export interface ArchiveBundleFile {
+  name: string;
+  bytes: number;
+  sha256: string;
+}
+
+export interface ArchiveBundleManifest {
+  format: typeof ARCHIVE_BUNDLE_FORMAT;
+  version: number;
+  year: number;
+  exportedAt: string;
+  tables: ArchiveBundleTable[];
+  files: ArchiveBundleFile[];
+}
+
+export interface ArchiveBundleSummary {
+  year: number;
+  tables: Array<{ label: string; rows: number; amount?: number }>;
+}
+
+type Row = Record<string, unknown>;
+
+function sha256(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value)
+    : String(value);
+  return typeof value === 'number' || typeof value === 'boolean' ? text : `"${text.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Serializza le righe di una tabella (come restituite da drizzle) in CSV
+ */
+export function encodeTableCsv(table: PgTable, rows: Row[]): string {
+  const columns = Object.entries(getTableColumns(table));
+  const lines = [columns.map(([, column]) => column.name).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(([key]) => csvField(row[key])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Legge un CSV prodotto da encodeTableCsv riportando i valori ai tipi delle colonne.
+ * Le colonne assenti dal file restano fuori dalle righe (valgono i default del database)
+ */
+export function decodeTableCsv(table: PgTable, csv: string): Row[] {
+  const columns = new Map(Object.entries(getTableColumns(table)).map(([key, column]) => [column.name, { key, column }]));
+  const records: Array<Array<string | null>> = parse(csv, {
+    cast: (value, context) => (value === '' && !context.quoting ? null : value),
+  });
+  if (records.length === 0) return [];
+
+  const [header, ...rows] = records;
+  const fields = header.map(name => {
+    const field = name === null ? undefined : columns.get(name);
+    if (!field) throw new Error(`Colonna sconosciuta: ${name}`);
+    return field;
+  });
+
+  return rows.map(values => {
+    const row: Row = {};
+    fields.forEach(({ key, column }, index) => {
+      const value = values[index];
+      if (value === null || value === undefined) {
+        row[key] = null;
+      } else if (column.dataType === 'date') {
+        row[key] = new Date(value);
+      } else if (column.dataType === 'number' || column.dataType === 'custom') {
+        row[key] = Number(value);
+      } else if (column.dataType === 'boolean') {
+        row[key] = value === 'true';
+      } else if (column.dataType === 'array' || column.dataType === 'json') {
+        row[key] = JSON.parse(value);
+      } else {
+        row[key] = value;
+      }
+    });
+    return row;
+  });
+}
+
+export function renderArchiveSummaryPdf(summary: ArchiveBundleSummary, exportedAt: Date): Buffer {
+  const doc = new jsPDF();
+  let y = 25;
+
+  doc.setFontSize(18);
+  doc.text(`Archivio ${summary.year}`, 20, y);
+  y += 10;
+  doc.setFontSize(10);
+  doc.setTextColor(102, 102, 102);
+  doc.text(`Esportato il ${exportedAt.toLocaleString('it-IT')}`, 20, y);
+  y += 15;
+
+  doc.setFontSize(12);
+  doc.setTextColor(0, 0, 0);
+  for (const table of summary.tables) {
+    doc.text(table.label, 20, y);
+    doc.text(`${table.rows} righe`, 110, y);
+    if (table.amount !== undefined) {
+      doc.text(formatEuros(table.amount), 150, y);
+    }
+    y += 8;
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+export function buildArchiveBundle(
+  year: number,
+  tables: Array<{ name: string; table: PgTable; rows: Row[] }>,
+  summaryPdf: Buffer,
+  exportedAt: Date = new Date()
+): Buffer {
+  const files = tables.map(({ name, table, rows }) => ({
+    name: `${name}.csv`,
+    content: Buffer.from(encodeTableCsv(table, rows), 'utf8'),
+  }));
+  files.push({ name: SUMMARY_FILE, content: summaryPdf });
+
+  const manifest: ArchiveBundleManifest = {
+    format: ARCHIVE_BUNDLE_FORMAT,
+    version: ARCHIVE_BUNDLE_VERSION,
+    year,
+    exportedAt: exportedAt.toISOString(),
+    tables: tables.map(({ name, rows }) => ({ table: name, file: `${name}.csv`, rows: rows.length })),
+    files: files.map(file => ({ name: file.name, bytes: file.content.length, sha256: sha256(file.content) })),
+  };
+
+  return createTarGz(
+    [{ name: MANIFEST_FILE, content: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8') }, ...files],
+    exportedAt
+  );
+}
+
+/**
+ * Apre un pacchetto e ne verifica il manifest e i checksum.
+ * Restituisce il CSV di ogni tabella elencata; lancia un errore se il pacchetto non è integro
+ */
+export function readArchiveBundle(archive: Buffer): { manifest: ArchiveBundleManifest; csv: Map<string, string> } {
+  const files = new Map(readTarGz(archive).map(file => [file.name, file.content]));
+
+  const manifestFile = files.get(MANIFEST_FILE);
+  if (!manifestFile) throw new Error('manifest.json mancante');
+  const manifest = JSON.parse(manifestFile.toString('utf8')) as ArchiveBundleManifest;
+  if (manifest.format !== ARCHIVE_BUNDLE_FORMAT || manifest.version !== ARCHIVE_BUNDLE_VERSION) {
+    throw new Error(`Formato non supportato: ${manifest.format} v${manifest.version}`);
+  }
+
+  for (const expected of manifest.files) {
+    const content = files.get(expected.name);
+    if (!content) throw new Error(`${expected.name} mancante`);
+    if (content.length !== expected.bytes || sha256(content) !== expected.sha256) {
+      throw new Error(`Checksum non valido per ${expected.name}`);
+    }
+  }
+
+  const csv = new Map<string, string>();
+  for (const table of manifest.tables) {
+    if (!manifest.files.some(file => file.name === table.file)) {
+      throw new Error(`${table.file} non è elencato tra i file verificati`);
+    }
+    csv.set(table.table, files.get(table.file)!.toString('utf8'));
+  }
+  return { manifest, csv };
+}
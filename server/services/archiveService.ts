@@ -5,9 +5,13 @@ import {
   paypalOrders, 
   receipts, 
   secretariatPayments, 
-  bikeReservations 
+  bikeReservations,
+  students
 } from '../../shared/schema';
-import { sql, eq, and, isNull, lte } from 'drizzle-orm';
+import { sql, eq, and, isNull, lte, inArray, getTableColumns } from 'drizzle-orm';
+import { sumEuros } from '@shared/money';
+import { buildArchiveBundle, decodeTableCsv, readArchiveBundle, renderArchiveSummaryPdf } from './archiveBundle';
+import { getFiscalYear, getFiscalYearRange } from '../fiscalYear';
 
 interface ArchiveOperation {
   table: string;
@@ -17,28 +21,52 @@ interface ArchiveOperation {
 
 interface ArchiveResult {
   year: number;
+  label: string;
   dryRun: boolean;
   operations: ArchiveOperation[];
   totalRecords: number;
   success: boolean;
 }
 
+// Le sei tabelle operative archiviate per anno, nell'ordine in cui si reimportano
+// (prima i servizi, poi le righe che li referenziano)
+const ARCHIVED_TABLES = [
+  { name: 'services', label: 'Servizi', table: services },
+  { name: 'paypal_orders', label: 'Ordini PayPal', table: paypalOrders },
+  { name: 'receipts', label: 'Ricevute', table: receipts },
+  { name: 'secretariat_payments', label: 'Pagamenti segreteria', table: secretariatPayments },
+  { name: 'bike_reservations', label: 'Prenotazioni bici', table: bikeReservations },
+  { name: 'maintenance_requests', label: 'Richieste di manutenzione', table: maintenanceRequests },
+] as const;
+
+type ArchivedTable = typeof ARCHIVED_TABLES[number]['table'];
+
+/*
+ * Riferimenti a righe che il pacchetto non contiene: gli studenti si ricollegano per sigla
+ * dopo l'import, flotta e fasce orarie appartengono all'istanza e non all'anno archiviato.
+ */
+function detachReferences(name: string, row: Record<string, unknown>): Record<string, unknown> {
+  if (name === 'services') return { ...row, studentId: null };
+  if (name === 'bike_reservations') return { ...row, slotId: null, bikeId: null };
+  return row;
+}
+
 /**
  * Service per gestire l'archiviazione annuale dei dati operativi
  */
 export class ArchiveService {
   
   /**
-   * Archivia tutti i dati operativi fino alla fine dell'anno specificato
-   * @param year Anno da archiviare (es. 2024)
+   * Archivia tutti i dati operativi fino alla fine dell'anno fiscale specificato
+   * @param year Anno fiscale da archiviare, indicato con l'anno in cui inizia (es. 2024 per il 2024/25)
    * @param options Opzioni per l'operazione
    * @returns Risultato dell'operazione di archiviazione
    */
   async closeYear(year: number, options: { dryRun?: boolean } = {}): Promise<ArchiveResult> {
     const { dryRun = false } = options;
     
-    // Data limite: 31 dicembre 23:59:59 dell'anno specificato
-    const cutoffDate = new Date(year, 11, 31, 23, 59, 59); // Month is 0-based
+    // Data limite: ultimo istante dell'anno fiscale (31 dicembre con l'anno solare)
+    const cutoffDate = new Date(getFiscalYearRange(year).end.getTime() - 1);
     
     const operations: ArchiveOperation[] = [];
     let totalRecords = 0;
@@ -259,6 +287,223 @@ export class ArchiveService {
 
     return {
       year,
+      label: getFiscalYear(year).label,
+      dryRun,
+      operations,
+      totalRecords,
+      success
+    };
+  }
+
+  /**
+   * Riporta tra i dati operativi quanto archiviato per l'anno specificato (l'inverso di closeYear)
+   * @param year Anno da riaprire
+   * @param options Opzioni per l'operazione (dryRun: conta le righe senza modificarle)
+   * @returns Risultato dell'operazione, con le righe riaperte per tabella
+   */
+  async reopenYear(year: number, options: { dryRun?: boolean } = {}): Promise<ArchiveResult> {
+    const { dryRun = false } = options;
+    
+    const operations: ArchiveOperation[] = [];
+    let totalRecords = 0;
+    let success = true;
+
+    try {
+      await db.transaction(async (tx) => {
+        for (const { name, table } of ARCHIVED_TABLES) {
+          const [{ count }] = await tx
+            .select({ count: sql`count(*)` })
+            .from(table)
+            .where(eq(table.archivedYear, year));
+          const records = Number(count || 0);
+          
+          if (!dryRun && records > 0) {
+            await tx
+              .update(table)
+              .set({ archivedYear: null, archivedAt: null })
+              .where(eq(table.archivedYear, year));
+          }
+          
+          operations.push({ table: name, count: records });
+          totalRecords += records;
+        }
+
+        // Come in closeYear: il dry run annulla la transazione
+        if (dryRun) {
+          throw new Error('DRY_RUN_ROLLBACK');
+        }
+      });
+      
+    } catch (error) {
+      if (error instanceof Error && error.message === 'DRY_RUN_ROLLBACK') {
+        success = true;
+      } else {
+        console.error('Error in reopenYear operation:', error);
+        success = false;
+        operations.forEach(op => {
+          op.error = error instanceof Error ? error.message : 'Unknown error';
+        });
+      }
+    }
+
+    return {
+      year,
+      label: getFiscalYear(year).label,
+      dryRun,
+      operations,
+      totalRecords,
+      success
+    };
+  }
+
+  /**
+   * Esporta un anno archiviato come pacchetto .tar.gz (CSV per tabella, manifest con checksum
+   * e riepilogo PDF), reimportabile con importYear in un'altra istanza
+   * @param year Anno archiviato da esportare
+   * @returns Nome e contenuto del file, oppure undefined se l'anno non ha dati archiviati
+   */
+  async exportYear(year: number): Promise<{ fileName: string; content: Buffer } | undefined> {
+    const tables: Array<{ name: string; label: string; table: ArchivedTable; rows: Record<string, unknown>[] }> = [];
+    for (const { name, label, table } of ARCHIVED_TABLES) {
+      const rows = await db
+        .select()
+        .from(table)
+        .where(eq(table.archivedYear, year))
+        .orderBy(table.id);
+      tables.push({ name, label, table, rows });
+    }
+    if (tables.every(({ rows }) => rows.length === 0)) {
+      return undefined;
+    }
+    
+    // Anagrafiche degli studenti dei servizi, per ricollegarli anche in un'istanza nuova
+    const siglas = Array.from(new Set(tables[0].rows.map(row => row.sigla as string)));
+    const studentRows = siglas.length > 0
+      ? await db.select().from(students).where(inArray(students.sigla, siglas)).orderBy(students.sigla)
+      : [];
+    
+    const exportedAt = new Date();
+    const summaryPdf = renderArchiveSummaryPdf({
+      year,
+      tables: [
+        ...tables.map(({ label, table, rows }) => ({
+          label,
+          rows: rows.length,
+          amount: 'amount' in getTableColumns(table) ? sumEuros(rows.map(row => row.amount as number)) : undefined,
+        })),
+        { label: 'Studenti', rows: studentRows.length },
+      ],
+    }, exportedAt);
+    
+    const content = buildArchiveBundle(
+      year,
+      [{ name: 'students', table: students, rows: studentRows }, ...tables],
+      summaryPdf,
+      exportedAt
+    );
+    return { fileName: `archivio_${year}.tar.gz`, content };
+  }
+
+  /**
+   * Importa un pacchetto prodotto da exportYear. Le righe mantengono id e anno di archiviazione,
+   * quindi l'import è pensato per un'istanza nuova: si rifiuta se l'anno o gli id sono già presenti.
+   * Gli studenti vengono creati solo per le sigle mancanti e i servizi ricollegati per sigla.
+   * Il libro mastro degli studenti non fa parte dell'archivio e non viene toccato
+   * @param archive Contenuto del file .tar.gz
+   * @param options Opzioni per l'operazione (dryRun: verifica e conta senza salvare)
+   */
+  async importYear(
+    archive: Buffer,
+    options: { dryRun?: boolean } = {}
+  ): Promise<ArchiveResult | { error: string; status: number }> {
+    const { dryRun = false } = options;
+    
+    let year: number;
+    let studentRows: Record<string, unknown>[];
+    let tables: Array<{ name: string; table: ArchivedTable; rows: Record<string, unknown>[] }>;
+    try {
+      const { manifest, csv } = readArchiveBundle(archive);
+      year = manifest.year;
+      studentRows = decodeTableCsv(students, csv.get('students') ?? '');
+      tables = ARCHIVED_TABLES.map(({ name, table }) => ({ name, table, rows: decodeTableCsv(table, csv.get(name) ?? '') }));
+      for (const { name, rows } of tables) {
+        if (rows.some(row => row.archivedYear !== year)) {
+          throw new Error(`${name} contiene righe non archiviate nel ${year}`);
+        }
+      }
+    } catch (error) {
+      return { error: `Pacchetto non valido: ${error instanceof Error ? error.message : 'errore sconosciuto'}`, status: 400 };
+    }
+    
+    if ((await this.getArchiveStats(year)).length > 0) {
+      return { error: `L'anno ${year} è già presente nell'archivio`, status: 409 };
+    }
+    for (const { name, table, rows } of tables) {
+      if (rows.length === 0) continue;
+      const [{ count }] = await db
+        .select({ count: sql`count(*)` })
+        .from(table)
+        .where(inArray(table.id, rows.map(row => row.id) as any[]));
+      if (Number(count) > 0) {
+        return { error: `Gli id di ${name} sono già usati: il pacchetto va importato in un'istanza nuova`, status: 409 };
+      }
+    }
+    
+    const operations: ArchiveOperation[] = [];
+    let totalRecords = 0;
+    let success = true;
+
+    try {
+      await db.transaction(async (tx) => {
+        const known = new Set((await tx.select({ sigla: students.sigla }).from(students)).map(row => row.sigla));
+        const newStudents = studentRows
+          .filter(row => !known.has(row.sigla as string))
+          .map(({ id, ...student }) => student);
+        if (newStudents.length > 0) {
+          await tx.insert(students).values(newStudents as any[]);
+        }
+        operations.push({ table: 'students', count: newStudents.length });
+        totalRecords += newStudents.length;
+        
+        for (const { name, table, rows } of tables) {
+          if (rows.length > 0) {
+            const values = rows.map(row => detachReferences(name, row));
+            await tx.insert(table).values(values as any[]);
+            
+            // Le sequenze ripartono dopo gli id importati
+            if (getTableColumns(table).id.columnType === 'PgSerial') {
+              await tx.execute(sql`SELECT setval(pg_get_serial_sequence(${name}, 'id'), (SELECT MAX(id) FROM ${table}))`);
+            }
+          }
+          operations.push({ table: name, count: rows.length });
+          totalRecords += rows.length;
+        }
+        
+        await tx
+          .update(services)
+          .set({ studentId: sql`(SELECT ${students.id} FROM ${students} WHERE ${students.sigla} = ${services.sigla})` })
+          .where(eq(services.archivedYear, year));
+
+        if (dryRun) {
+          throw new Error('DRY_RUN_ROLLBACK');
+        }
+      });
+      
+    } catch (error) {
+      if (error instanceof Error && error.message === 'DRY_RUN_ROLLBACK') {
+        success = true;
+      } else {
+        console.error('Error in importYear operation:', error);
+        success = false;
+        operations.forEach(op => {
+          op.error = error instanceof Error ? error.message : 'Unknown error';
+        });
+      }
+    }
+
+    return {
+      year,
+      label: getFiscalYear(year).label,
       dryRun,
       operations,
       totalRecords,
@@ -336,6 +581,7 @@ export class ArchiveService {
   async getArchiveStats(year?: number) {
     const statsMap = new Map<number, {
       year: number;
+      label: string;
       services: number;
       maintenanceRequests: number;
       paypalOrders: number;
@@ -425,6 +671,7 @@ export class ArchiveService {
           if (!statsMap.has(stat.year)) {
             statsMap.set(stat.year, {
               year: stat.year,
+              label: getFiscalYear(stat.year).label,
               services: 0,
               maintenanceRequests: 0,
               paypalOrders: 0,
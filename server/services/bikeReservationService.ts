@@ -0,0 +1,218 @@
+import {
+  ACTIVE_BIKE_RESERVATION_STATUSES,
+  BikePickup,
+  BikeReservation,
+  BikeReservationStatus,
+  BikeReservationStatusValue,
+  BikeReservationTransition,
+  BikeReturn,
+  BikeSlot,
+  BikeStatus,
+  CreateBikeReservation,
+  UpdateBikeReservation,
+  UpdateBikeSlot,
+  canTransitionBikeReservation,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { notifyBikeReservationStatus } from '../notifications/triggers';
+import type { FlowError } from '../utils/queue';
+
+/*
+ * Gestione delle prenotazioni bici da parte della segreteria: ogni passaggio di stato
+ * è validato su BIKE_RESERVATION_TRANSITIONS e comunicato allo studente con una notifica email.
+ * Le prenotazioni occupano un posto in una fascia oraria; al ritiro ricevono una bici
+ * della flotta, che resta fuori fino alla riconsegna.
+ */
+
+const STATUS_LABELS: Record<BikeReservationStatusValue, string> = {
+  [BikeReservationStatus.PENDING_PAYMENT]: 'In attesa di pagamento',
+  [BikeReservationStatus.PAID]: 'Pagata',
+  [BikeReservationStatus.APPROVED]: 'Approvata',
+  [BikeReservationStatus.REJECTED]: 'Rifiutata',
+  [BikeReservationStatus.COMPLETED]: 'Completata',
+  [BikeReservationStatus.CANCELLED]: 'Annullata',
+};
+
+// Una fascia è prenotabile se esiste, non è finita e la sigla non ha già una bici in quell'orario
+async function checkSlotForSigla(slotId: number, sigla: string, reservationId?: number): Promise<FlowError | null> {
+  const slot = await storage.getBikeSlot(slotId);
+  if (!slot) {
+    return { error: 'Fascia oraria non trovata', status: 404 };
+  }
+  if (slot.endsAt <= new Date()) {
+    return { error: 'La fascia oraria è già terminata', status: 409 };
+  }
+  const overlapping = await storage.getOverlappingBikeReservations(sigla, slot.startsAt, slot.endsAt, reservationId);
+  if (overlapping.length > 0) {
+    return { error: `La sigla ${sigla} ha già una prenotazione in questo orario (${overlapping[0].orderId})`, status: 409 };
+  }
+  return null;
+}
+
+// Prenotazione inserita dalla segreteria: senza ordine del provider riceve un codice interno
+export async function createBikeReservation(data: CreateBikeReservation): Promise<BikeReservation | FlowError> {
+  if (data.slotId) {
+    const conflict = await checkSlotForSigla(data.slotId, data.sigla);
+    if (conflict) return conflict;
+  }
+
+  const reservation = await storage.createBikeReservation({
+    ...data,
+    orderId: data.orderId || `BIKE_${data.sigla}_${Date.now()}`,
+    status: BikeReservationStatus.PENDING_PAYMENT,
+  });
+  if (!reservation) {
+    return { error: 'Nessuna bici disponibile in questa fascia oraria', status: 409 };
+  }
+  await notifyBikeReservationStatus(reservation);
+  return reservation;
+}
+
+// Modifica dei dati e, per le prenotazioni non ancora ritirate, spostamento in un'altra fascia
+export async function updateBikeReservation(id: number, { slotId, ...updates }: UpdateBikeReservation): Promise<BikeReservation | FlowError> {
+  const reservation = await storage.getBikeReservation(id);
+  if (!reservation) {
+    return { error: 'Prenotazione non trovata', status: 404 };
+  }
+
+  if (slotId && slotId !== reservation.slotId) {
+    if (!ACTIVE_BIKE_RESERVATION_STATUSES.includes(reservation.status as BikeReservationStatusValue) || reservation.pickedUpAt) {
+      return { error: 'Si possono spostare solo le prenotazioni attive non ancora ritirate', status: 409 };
+    }
+    const conflict = await checkSlotForSigla(slotId, reservation.sigla, id);
+    if (conflict) return conflict;
+    if (!(await storage.moveBikeReservationToSlot(id, slotId))) {
+      return { error: 'Nessuna bici disponibile in questa fascia oraria', status: 409 };
+    }
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return (await storage.getBikeReservation(id))!;
+  }
+  return (await storage.updateBikeReservation(id, updates)) ?? { error: 'Prenotazione non trovata', status: 404 };
+}
+
+/**
+ * Porta una prenotazione nello stato richiesto se il passaggio è consentito.
+ * Il pagamento e l'approvazione ne registrano la data; la nota si aggiunge a quelle esistenti.
+ */
+export async function changeBikeReservationStatus(
+  id: number,
+  { status, notes }: BikeReservationTransition
+): Promise<BikeReservation | FlowError> {
+  const reservation = await storage.getBikeReservation(id);
+  if (!reservation) {
+    return { error: 'Prenotazione non trovata', status: 404 };
+  }
+  if (reservation.pickedUpAt && !reservation.returnedAt) {
+    return { error: 'La bici non è ancora stata riconsegnata: registra prima la riconsegna', status: 409 };
+  }
+  if (!canTransitionBikeReservation(reservation.status, status)) {
+    const from = STATUS_LABELS[reservation.status as BikeReservationStatusValue] ?? reservation.status;
+    return { error: `Passaggio di stato non consentito: da "${from}" a "${STATUS_LABELS[status]}"`, status: 409 };
+  }
+
+  const now = new Date();
+  const updated = await storage.transitionBikeReservation(
+    id,
+    reservation.status as BikeReservationStatusValue,
+    status,
+    {
+      paymentDate: status === BikeReservationStatus.PAID ? now : undefined,
+      approvalDate: status === BikeReservationStatus.APPROVED ? now : undefined,
+      notes: notes ? [reservation.notes, notes].filter(Boolean).join('\n') : undefined,
+    }
+  );
+  if (!updated) {
+    return { error: 'La prenotazione è stata modificata nel frattempo, ricarica la pagina', status: 409 };
+  }
+
+  await notifyBikeReservationStatus(updated, notes);
+  return updated;
+}
+
+// Solo le prenotazioni mai pagate si possono eliminare; le altre si annullano
+export async function deleteBikeReservation(id: number): Promise<{ success: true } | FlowError> {
+  const reservation = await storage.getBikeReservation(id);
+  if (!reservation) {
+    return { error: 'Prenotazione non trovata', status: 404 };
+  }
+  if (reservation.paymentDate) {
+    return { error: 'Una prenotazione pagata non si può eliminare: annullala', status: 409 };
+  }
+  await storage.deleteBikeReservation(id);
+  return { success: true };
+}
+
+const BIKE_STATUS_LABELS: Record<string, string> = {
+  [BikeStatus.MAINTENANCE]: 'in manutenzione',
+  [BikeStatus.RETIRED]: 'dismessa',
+};
+
+// Ritiro: la prenotazione approvata riceve una bici disponibile e non già fuori con un altro studente
+export async function pickUpBike(id: number, { bikeId }: BikePickup): Promise<BikeReservation | FlowError> {
+  const reservation = await storage.getBikeReservation(id);
+  if (!reservation) {
+    return { error: 'Prenotazione non trovata', status: 404 };
+  }
+  if (reservation.pickedUpAt) {
+    return { error: 'La bici di questa prenotazione è già stata ritirata', status: 409 };
+  }
+  if (reservation.status !== BikeReservationStatus.APPROVED) {
+    return { error: 'Si può consegnare la bici solo per una prenotazione approvata', status: 409 };
+  }
+
+  const bike = await storage.getBike(bikeId);
+  if (!bike) {
+    return { error: 'Bici non trovata', status: 404 };
+  }
+  if (bike.status !== BikeStatus.AVAILABLE) {
+    return { error: `La bici ${bike.code} è ${BIKE_STATUS_LABELS[bike.status] ?? bike.status}`, status: 409 };
+  }
+
+  const updated = await storage.pickUpBike(id, bikeId);
+  if (!updated) {
+    return { error: `La bici ${bike.code} è già in uso con un'altra prenotazione`, status: 409 };
+  }
+  return updated;
+}
+
+// Riconsegna: chiude la prenotazione (con l'email allo studente) e, se serve, manda la bici in manutenzione
+export async function returnBike(id: number, { needsService, notes }: BikeReturn): Promise<BikeReservation | FlowError> {
+  const reservation = await storage.getBikeReservation(id);
+  if (!reservation) {
+    return { error: 'Prenotazione non trovata', status: 404 };
+  }
+  if (!reservation.pickedUpAt || reservation.returnedAt) {
+    return { error: 'Nessuna bici da riconsegnare per questa prenotazione', status: 409 };
+  }
+
+  if (!(await storage.returnBike(id, needsService))) {
+    return { error: 'La prenotazione è stata modificata nel frattempo, ricarica la pagina', status: 409 };
+  }
+  return changeBikeReservationStatus(id, { status: BikeReservationStatus.COMPLETED, notes });
+}
+
+// La capienza non può scendere sotto i posti già prenotati
+export async function updateBikeSlot(id: number, updates: UpdateBikeSlot): Promise<BikeSlot | FlowError> {
+  const slot = await storage.getBikeSlot(id);
+  if (!slot) {
+    return { error: 'Fascia oraria non trovata', status: 404 };
+  }
+  if (updates.capacity !== undefined && updates.capacity < slot.booked) {
+    return { error: `La fascia ha già ${slot.booked} prenotazioni attive`, status: 409 };
+  }
+  return (await storage.updateBikeSlot(id, updates)) ?? { error: 'Fascia oraria non trovata', status: 404 };
+}
+
+// Una fascia si elimina solo se nessuna prenotazione, anche chiusa, vi fa riferimento
+export async function deleteBikeSlot(id: number): Promise<{ success: true } | FlowError> {
+  const { total } = await storage.getBikeReservations({ slotId: id, page: 1, limit: 1 });
+  if (total > 0) {
+    return { error: 'La fascia ha prenotazioni collegate: riduci la capienza invece di eliminarla', status: 409 };
+  }
+  if (!(await storage.deleteBikeSlot(id))) {
+    return { error: 'Fascia oraria non trovata', status: 404 };
+  }
+  return { success: true };
+}
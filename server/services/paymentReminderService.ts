@@ -0,0 +1,179 @@
+import { NotificationKind, NotificationLocale, OutstandingServiceRow, PaymentReminder } from '@shared/schema';
+import { sumEuros } from '@shared/money';
+import { storage } from '../storage';
+import { enqueueNotification } from '../notifications/outbox';
+import { notificationLocale } from '../notifications/templates';
+import { serviceLabel } from '../notifications/triggers';
+
+/*
+ * Solleciti automatici dei servizi non pagati. Ogni giorno, per ogni sigla con servizi scaduti
+ * (più vecchi di PAYMENT_REMINDER_AFTER_DAYS), lo studente riceve un promemoria con il link di
+ * pagamento, al massimo uno ogni PAYMENT_REMINDER_INTERVAL_DAYS. Dopo PAYMENT_REMINDER_ESCALATE_AFTER
+ * promemoria senza pagamento parte l'ultimo sollecito, in copia alla segreteria, e i solleciti
+ * automatici per quel dovuto si fermano. Ogni invio resta nello storico della sigla.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_AFTER_DAYS = 14;
+const DEFAULT_INTERVAL_DAYS = 7;
+const DEFAULT_ESCALATE_AFTER = 2;
+
+export interface PaymentReminderSettings {
+  afterDays: number; // 0 = solleciti disattivati
+  intervalDays: number;
+  escalateAfter: number; // Promemoria normali prima dell'ultimo sollecito
+}
+
+export type PaymentReminderPlan =
+  | { send: false; reason: 'nothing_overdue' | 'too_soon' | 'escalated' }
+  | { send: true; level: number; escalated: boolean; services: OutstandingServiceRow[] };
+
+export interface PaymentReminderRunResult {
+  siglas: number; // Sigle con servizi scaduti
+  sent: number;
+  escalated: number;
+  skipped: number; // Rinuncia ai solleciti, email mancante o sollecito non ancora dovuto
+}
+
+function numberFromEnv(name: string, fallback: number, min: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+export function paymentReminderSettings(): PaymentReminderSettings {
+  return {
+    afterDays: numberFromEnv('PAYMENT_REMINDER_AFTER_DAYS', DEFAULT_AFTER_DAYS, 0),
+    intervalDays: numberFromEnv('PAYMENT_REMINDER_INTERVAL_DAYS', DEFAULT_INTERVAL_DAYS, 1),
+    escalateAfter: numberFromEnv('PAYMENT_REMINDER_ESCALATE_AFTER', DEFAULT_ESCALATE_AFTER, 0),
+  };
+}
+
+/**
+ * Decide se la sigla va sollecitata oggi. I solleciti precedenti contano per il livello solo se
+ * comprendevano uno dei servizi ancora scaduti: dopo un saldo completo si riparte dal primo promemoria.
+ */
+export function planPaymentReminder(
+  outstanding: OutstandingServiceRow[],
+  history: PaymentReminder[],
+  settings: PaymentReminderSettings,
+  now: Date = new Date()
+): PaymentReminderPlan {
+  const dueBefore = now.getTime() - settings.afterDays * DAY_MS;
+  const overdue = outstanding.filter(service => service.outstanding > 0 && service.date.getTime() < dueBefore);
+  if (overdue.length === 0) {
+    return { send: false, reason: 'nothing_overdue' };
+  }
+
+  const overdueIds = new Set(overdue.map(service => service.id));
+  const previous = history.filter(reminder => reminder.serviceIds.some(id => overdueIds.has(id)));
+  if (previous.some(reminder => reminder.escalated)) {
+    return { send: false, reason: 'escalated' };
+  }
+
+  const last = history.reduce<Date | null>((latest, reminder) =>
+    !latest || reminder.createdAt > latest ? reminder.createdAt : latest, null);
+  if (last && now.getTime() - last.getTime() < settings.intervalDays * DAY_MS) {
+    return { send: false, reason: 'too_soon' };
+  }
+
+  const level = previous.length + 1;
+  return { send: true, level, escalated: level > settings.escalateAfter, services: overdue };
+}
+
+async function remindSigla(
+  sigla: string,
+  settings: PaymentReminderSettings,
+  baseUrl: string,
+  now: Date
+): Promise<PaymentReminder | undefined> {
+  const student = await storage.getStudentBySigla(sigla);
+  if (!student?.email || student.paymentRemindersOptOut) {
+    return undefined;
+  }
+
+  const [outstanding, history] = await Promise.all([
+    storage.getOutstandingServices(sigla),
+    storage.getPaymentReminders(sigla),
+  ]);
+  const plan = planPaymentReminder(outstanding, history, settings, now);
+  if (!plan.send) {
+    return undefined;
+  }
+
+  const locale = notificationLocale(student.locale);
+  const catalog = await storage.getServiceCatalog(true);
+  const serviceIds = plan.services.map(service => service.id);
+  const totalOutstanding = sumEuros(plan.services.map(service => service.outstanding));
+  const payload = {
+    firstName: student.firstName,
+    sigla,
+    level: plan.level,
+    escalated: plan.escalated,
+    totalOutstanding,
+    services: plan.services.map(service => ({
+      label: serviceLabel(catalog, service.type, locale),
+      date: service.date.toISOString(),
+      outstanding: service.outstanding,
+    })),
+    paymentUrl: `${baseUrl}/secretariat-payment/${encodeURIComponent(sigla)}`,
+  };
+
+  // La chiave impedisce un doppio sollecito se il job gira su più istanze nello stesso momento
+  const dedupeKey = `payment_reminder:${sigla}:${serviceIds[0]}:${plan.level}`;
+  const notification = await enqueueNotification(NotificationKind.PAYMENT_REMINDER, student.email, locale, payload, dedupeKey);
+  if (!notification) {
+    return undefined;
+  }
+
+  const escalationEmail = process.env.PAYMENT_REMINDER_ESCALATION_EMAIL;
+  if (plan.escalated && escalationEmail) {
+    await enqueueNotification(NotificationKind.PAYMENT_REMINDER, escalationEmail, NotificationLocale.IT, payload, `${dedupeKey}:secretariat`);
+  }
+
+  return storage.createPaymentReminder({
+    sigla,
+    level: plan.level,
+    serviceIds,
+    totalOutstanding,
+    recipient: student.email,
+    escalated: plan.escalated,
+    notificationId: notification.id,
+  });
+}
+
+/**
+ * Job giornaliero: mette in coda i solleciti dovuti per tutte le sigle con servizi scaduti
+ */
+export async function sendPaymentReminders(
+  baseUrl: string = process.env.VITE_APP_URL || 'http://localhost:5000',
+  now: Date = new Date()
+): Promise<PaymentReminderRunResult> {
+  const result: PaymentReminderRunResult = { siglas: 0, sent: 0, escalated: 0, skipped: 0 };
+  const settings = paymentReminderSettings();
+  if (settings.afterDays <= 0) {
+    return result;
+  }
+
+  const siglas = await storage.getSiglasWithUnpaidServicesBefore(new Date(now.getTime() - settings.afterDays * DAY_MS));
+  result.siglas = siglas.length;
+  for (const sigla of siglas) {
+    try {
+      const reminder = await remindSigla(sigla, settings, baseUrl, now);
+      if (!reminder) {
+        result.skipped++;
+        continue;
+      }
+      result.sent++;
+      if (reminder.escalated) result.escalated++;
+    } catch (error) {
+      // Una sigla con dati non validi non blocca i solleciti delle altre
+      console.error(`❌ Sollecito di pagamento per ${sigla} non inviato:`, error);
+      result.skipped++;
+    }
+  }
+
+  if (result.sent > 0) {
+    console.log(`📨 Solleciti di pagamento: ${result.sent} inviati (${result.escalated} ultimi solleciti), ${result.skipped} sigle saltate`);
+  }
+  return result;
+}
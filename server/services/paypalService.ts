@@ -1,5 +1,8 @@
 import { storage } from '../storage';
-import { Service } from '@shared/schema';
+import { RefundKind, SecretariatPaymentStatus, Service } from '@shared/schema';
+import { normalizePaymentStatus } from '../payments/status';
+import { notifyPaymentCompleted } from '../notifications/triggers';
+import type { PaymentProvider } from '../payments/types';
 
 // Verifica la presenza dei client ID e secret di PayPal
 const PAYPAL_CLIENT_ID = process.env.PAYPAL_CLIENT_ID;
@@ -66,8 +69,16 @@ export async function captureOrder(orderId: string): Promise<{ success: boolean,
     // Recupera l'ordine aggiornato
     const updatedOrderInfo = await storage.getPaypalOrderInfo(orderId);
 
+    // Ordine di un pagamento della segreteria: il pagamento completato viene ripartito sui servizi
+    const secretariatOrderId = orderInfo.paypalResponseObj?.secretariatOrderId;
+    if (secretariatOrderId) {
+      const payment = await storage.updateSecretariatPaymentStatus(secretariatOrderId, SecretariatPaymentStatus.COMPLETED, new Date());
+      if (payment) {
+        await notifyPaymentCompleted(payment);
+      }
+    }
     // Aggiorna lo stato dei servizi a "pagati" se presenti ID servizi
-    if (orderInfo.serviceIds && Array.isArray(orderInfo.serviceIds)) {
+    else if (orderInfo.serviceIds && Array.isArray(orderInfo.serviceIds)) {
       for (const serviceId of orderInfo.serviceIds) {
         if (serviceId > 0) {
           const service = await storage.getService(serviceId);
@@ -105,4 +116,85 @@ export async function checkOrderStatus(orderId: string): Promise<any> {
   }
 
   return orderInfo;
-}
\ No newline at end of file
+}
+
+/**
+ * PayPal come provider dei pagamenti della segreteria.
+ * Gli ordini sono simulati (vedi createOrder): l'ordine viene catturato da /api/paypal/capture/:orderId
+ */
+export const paypalProvider: PaymentProvider = {
+  id: 'paypal',
+  label: 'PayPal',
+  description: 'Conto PayPal',
+
+  isConfigured() {
+    return !!(PAYPAL_CLIENT_ID && PAYPAL_CLIENT_SECRET);
+  },
+  hasStatusApi: true,
+
+  async createPayment(input) {
+    const orderId = `PPORD-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+    await storage.storePaypalOrderInfo(orderId, {
+      serviceIds: [],
+      sigla: input.sigla,
+      amount: input.amount,
+      currency: 'EUR',
+      status: 'CREATED',
+      secretariatOrderId: input.orderId,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+
+    return {
+      providerPaymentId: orderId,
+      status: normalizePaymentStatus('paypal', 'CREATED'),
+      live: false,
+    };
+  },
+
+  async getStatus(payment) {
+    const orderInfo = payment.paymentIntentId ? await storage.getPaypalOrderInfo(payment.paymentIntentId) : null;
+    if (!orderInfo) {
+      throw new Error(`PayPal order not found for ${payment.orderId}`);
+    }
+    return { status: normalizePaymentStatus('paypal', orderInfo.status), rawStatus: orderInfo.status };
+  },
+
+  webhookEventId(request) {
+    return JSON.parse(request.rawBody).id;
+  },
+
+  async parseWebhook(request) {
+    const event = JSON.parse(request.rawBody);
+    const resource = event.resource ?? {};
+    const orderId: string | undefined = resource.supplementary_data?.related_ids?.order_id;
+    if (!orderId) return [];
+
+    switch (event.event_type) {
+      case 'PAYMENT.CAPTURE.COMPLETED':
+      case 'PAYMENT.CAPTURE.DENIED':
+        return [{
+          type: 'payment',
+          providerPaymentId: orderId,
+          status: normalizePaymentStatus('paypal', event.event_type),
+          rawStatus: event.event_type,
+        }];
+      case 'PAYMENT.CAPTURE.REFUNDED':
+        return [{
+          type: 'refund',
+          providerPaymentId: orderId,
+          providerRefundId: resource.id,
+          amount: resource.amount?.value ? parseFloat(resource.amount.value) : null,
+          kind: RefundKind.REFUND,
+          reason: 'Rimborso da PayPal',
+        }];
+      default:
+        return [];
+    }
+  },
+
+  async refund() {
+    // Ordini simulati: il rimborso si registra senza chiamare PayPal
+    return null;
+  },
+};
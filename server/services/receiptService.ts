@@ -1,5 +1,6 @@
 // import PDFDocument from 'pdfkit';
 import { Receipt } from '@shared/schema';
+import { formatEuros } from '@shared/money';
 import { storage } from '../storage';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -62,7 +63,7 @@ export async function generateReceiptPDF(receipt: Receipt, serviceDetails?: any)
         <div class="receipt-detail"><strong>Servizio ID:</strong> ${receipt.serviceId}</div>
         ${serviceDetails ? `<div class="receipt-detail"><strong>Tipo Servizio:</strong> ${serviceDetails.type || 'Non specificato'}</div>` : ''}
         ${serviceDetails ? `<div class="receipt-detail"><strong>Sigla:</strong> ${serviceDetails.sigla || 'Non specificata'}</div>` : ''}
-        <div class="receipt-detail"><strong>Importo:</strong> €${receipt.amount.toFixed(2)}</div>
+        <div class="receipt-detail"><strong>Importo:</strong> ${formatEuros(receipt.amount)}</div>
         <div class="receipt-detail"><strong>Metodo di Pagamento:</strong> ${metodoPagamento}</div>
         
         <div class="receipt-footer">
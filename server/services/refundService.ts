@@ -0,0 +1,103 @@
+import { PaymentRefund, RefundKind, RefundKindValue, RefundRequest, SecretariatPayment, SecretariatPaymentStatus } from '@shared/schema';
+import { storage } from '../storage';
+import { getPaymentProvider } from '../payments/registry';
+
+/**
+ * Chiede il rimborso al provider del pagamento e restituisce l'ID del rimborso.
+ * null = nessun provider da chiamare (pagamento simulato o metodo senza API, rimborso fatto a mano)
+ */
+async function refundWithProvider(payment: SecretariatPayment, amount: number): Promise<string | null> {
+  const provider = getPaymentProvider(payment.paymentMethod);
+  return provider ? provider.refund(payment, amount) : null;
+}
+
+/**
+ * Rimborso dal gestionale: chiama il provider e, solo se il provider accetta, registra il rimborso
+ * (servizi di nuovo da pagare, ricevute annullate, movimento sul conto dello studente).
+ * Senza importo si rimborsa tutto il rimborsabile.
+ */
+export async function refundSecretariatPayment(
+  secretariatPaymentId: number,
+  request: RefundRequest
+): Promise<{ refund: PaymentRefund } | { error: string; status: number }> {
+  const payment = await storage.getSecretariatPayment(secretariatPaymentId);
+  if (!payment) {
+    return { error: 'Pagamento non trovato', status: 404 };
+  }
+  if (payment.status !== SecretariatPaymentStatus.COMPLETED) {
+    return { error: 'Si possono rimborsare solo pagamenti completati', status: 400 };
+  }
+
+  const refundable = await storage.getRefundableAmount(payment.id);
+  const amount = request.amount ?? refundable;
+  if (refundable <= 0) {
+    return { error: 'Il pagamento è già stato rimborsato per intero', status: 400 };
+  }
+  if (amount > refundable) {
+    return { error: `L'importo non può superare il rimborsabile (€${refundable.toFixed(2)})`, status: 400 };
+  }
+
+  const refund = {
+    secretariatPaymentId: payment.id,
+    kind: RefundKind.REFUND,
+    amount,
+    reason: request.reason,
+    provider: payment.paymentMethod,
+    initiatedBy: 'staff',
+  };
+
+  let providerRefundId: string | null;
+  try {
+    providerRefundId = await refundWithProvider(payment, amount);
+  } catch (error: any) {
+    console.error(`Rimborso del pagamento ${payment.orderId} rifiutato da ${payment.paymentMethod}:`, error);
+    await storage.recordFailedRefund({ ...refund, errorMessage: error.message ?? String(error) });
+    return { error: `Il provider ha rifiutato il rimborso: ${error.message ?? error}`, status: 502 };
+  }
+
+  // Il webhook del provider può arrivare prima della risposta e aver già registrato il rimborso
+  if (providerRefundId) {
+    const existing = await storage.getPaymentRefundByProviderId(providerRefundId);
+    if (existing) return { refund: existing };
+  }
+
+  return { refund: await storage.applyPaymentRefund({ ...refund, providerRefundId }) };
+}
+
+/**
+ * Rimborso o contestazione notificati dal webhook di un provider.
+ * Idempotente sull'ID del provider: le notifiche ripetute vengono ignorate.
+ */
+export async function recordProviderRefund(event: {
+  providerPaymentId: string;
+  providerRefundId: string;
+  amount: number | null; // null = tutto il rimborsabile (es. contestazione sull'intero ordine)
+  kind: RefundKindValue;
+  reason: string;
+}): Promise<PaymentRefund | undefined> {
+  const existing = await storage.getPaymentRefundByProviderId(event.providerRefundId);
+  if (existing) return existing;
+
+  const payment = await storage.getSecretariatPaymentByPaymentIntentId(event.providerPaymentId);
+  if (!payment) {
+    console.log(`Rimborso ${event.providerRefundId}: nessun pagamento della segreteria per ${event.providerPaymentId}`);
+    return undefined;
+  }
+
+  const refundable = await storage.getRefundableAmount(payment.id);
+  const amount = Math.min(event.amount ?? refundable, refundable);
+  if (amount <= 0) {
+    console.log(`Rimborso ${event.providerRefundId}: pagamento ${payment.orderId} già rimborsato per intero`);
+    return undefined;
+  }
+
+  return storage.applyPaymentRefund({
+    secretariatPaymentId: payment.id,
+    kind: event.kind,
+    amount,
+    reason: event.reason,
+    provider: payment.paymentMethod,
+    providerRefundId: event.providerRefundId,
+    initiatedBy: 'provider',
+  });
+}
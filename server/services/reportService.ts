@@ -2,12 +2,8 @@ import { storage } from "../storage";
 import { jsPDF } from "jspdf";
 import * as fs from "fs";
 import * as path from "path";
-import sgMail from "@sendgrid/mail";
-
-// Initialize SendGrid
-if (process.env.SENDGRID_API_KEY) {
-  sgMail.setApiKey(process.env.SENDGRID_API_KEY);
-}
+import { formatEuros } from "@shared/money";
+import { isMailConfigured, sendMail } from "../notifications/transport";
 
 export interface DailyReportData {
   date: string;
@@ -15,11 +11,12 @@ export interface DailyReportData {
     total: number;
     paid: number;
     unpaid: number;
-    byType: {
-      siglatura: number;
-      riparazione: number;
-      happyHour: number;
-    };
+    // Un elemento per ogni tipo del catalogo (più eventuali tipi non più a catalogo)
+    byType: Array<{
+      code: string;
+      label: string;
+      count: number;
+    }>;
     totalAmount: number;
     paidAmount: number;
   };
@@ -61,15 +58,26 @@ export class ReportService {
       limit: 1000
     });
 
+    // Conteggi per tipo seguendo l'ordine del catalogo
+    const catalog = await storage.getServiceCatalog(true);
+    const byType = catalog
+      .filter(item => item.active || servicesData.services.some(s => s.type === item.code))
+      .map(item => ({
+        code: item.code,
+        label: item.labelIt,
+        count: servicesData.services.filter(s => s.type === item.code).length,
+      }));
+    const uncataloguedTypes = Array.from(new Set(servicesData.services.map(s => s.type)))
+      .filter(type => !catalog.some(item => item.code === type));
+    for (const type of uncataloguedTypes) {
+      byType.push({ code: type, label: type, count: servicesData.services.filter(s => s.type === type).length });
+    }
+
     const serviceMetrics = {
       total: servicesData.services.length,
       paid: servicesData.services.filter(s => s.status === 'paid').length,
       unpaid: servicesData.services.filter(s => s.status === 'unpaid').length,
-      byType: {
-        siglatura: servicesData.services.filter(s => s.type === 'siglatura').length,
-        riparazione: servicesData.services.filter(s => s.type === 'riparazione').length,
-        happyHour: servicesData.services.filter(s => s.type === 'happy_hour').length,
-      },
+      byType,
       totalAmount: servicesData.services.reduce((sum, s) => sum + s.amount, 0),
       paidAmount: servicesData.services.filter(s => s.status === 'paid').reduce((sum, s) => sum + s.amount, 0)
     };
@@ -148,7 +156,6 @@ export class ReportService {
   }
 
   generatePDF(data: DailyReportData): Buffer {
-    const formatCurrency = (amount: number) => `€${amount.toFixed(2)}`;
     const formatDate = (dateStr: string) => new Date(dateStr).toLocaleDateString('it-IT');
 
     const doc = new jsPDF('p', 'mm', 'a4');
@@ -182,11 +189,9 @@ export class ReportService {
       ['Servizi Totali', data.services.total.toString()],
       ['Pagati', data.services.paid.toString()],
       ['In Sospeso', data.services.unpaid.toString()],
-      ['Importo Totale', formatCurrency(data.services.totalAmount)],
-      ['Siglature', data.services.byType.siglatura.toString()],
-      ['Riparazioni', data.services.byType.riparazione.toString()],
-      ['Happy Hour', data.services.byType.happyHour.toString()],
-      ['Incassato', formatCurrency(data.services.paidAmount)]
+      ['Importo Totale', formatEuros(data.services.totalAmount)],
+      ['Incassato', formatEuros(data.services.paidAmount)],
+      ...data.services.byType.map(({ label, count }) => [label, count.toString()])
     ];
 
     let col = 0;
@@ -215,7 +220,7 @@ export class ReportService {
     if (data.payments.secretariat.length > 0) {
       for (const payment of data.payments.secretariat.slice(0, 10)) { // Limit to first 10
         doc.text(`${payment.customerName} (${payment.sigla})`, 20, yPosition);
-        doc.text(`${formatCurrency(payment.amount)} - ${payment.status}`, 120, yPosition);
+        doc.text(`${formatEuros(payment.amount)} - ${payment.status}`, 120, yPosition);
         yPosition += 8;
         
         if (yPosition > pageHeight - 30) {
@@ -227,7 +232,7 @@ export class ReportService {
       yPosition += 10;
       doc.setFontSize(14);
       doc.setTextColor(0, 123, 255);
-      doc.text(`Totale: ${formatCurrency(data.payments.totalSecretariatAmount)}`, 20, yPosition);
+      doc.text(`Totale: ${formatEuros(data.payments.totalSecretariatAmount)}`, 20, yPosition);
       yPosition += 15;
     } else {
       doc.text('Nessun pagamento registrato oggi', 20, yPosition);
@@ -271,11 +276,10 @@ export class ReportService {
   }
 
   async sendEmailReport(data: DailyReportData, pdfBuffer: Buffer): Promise<void> {
-    if (!process.env.SENDGRID_API_KEY) {
-      throw new Error("SendGrid API key not configured");
+    if (!isMailConfigured()) {
+      throw new Error("Mail transport not configured");
     }
 
-    const formatCurrency = (amount: number) => `€${amount.toFixed(2)}`;
     const formatDate = (dateStr: string) => new Date(dateStr).toLocaleDateString('it-IT');
 
     const emailContent = `
@@ -287,12 +291,12 @@ export class ReportService {
         <li>Servizi totali: <strong>${data.services.total}</strong></li>
         <li>Pagati: <strong>${data.services.paid}</strong></li>
         <li>In sospeso: <strong>${data.services.unpaid}</strong></li>
-        <li>Importo totale: <strong>${formatCurrency(data.services.totalAmount)}</strong></li>
-        <li>Incassato: <strong>${formatCurrency(data.services.paidAmount)}</strong></li>
+        <li>Importo totale: <strong>${formatEuros(data.services.totalAmount)}</strong></li>
+        <li>Incassato: <strong>${formatEuros(data.services.paidAmount)}</strong></li>
       </ul>
 
       <h3>Pagamenti Segreteria</h3>
-      <p>Totale pagamenti: <strong>${formatCurrency(data.payments.totalSecretariatAmount)}</strong></p>
+      <p>Totale pagamenti: <strong>${formatEuros(data.payments.totalSecretariatAmount)}</strong></p>
       <p>Numero transazioni: <strong>${data.payments.secretariat.length}</strong></p>
 
       <h3>Manutenzione</h3>
@@ -313,29 +317,22 @@ export class ReportService {
     </div>
     `;
 
-    const msg = {
-      to: [
-        'amministrazione@elis.org',
-        'segreteria@elis.org'
-      ],
-      from: {
-        email: 'noreply@replit.dev',
-        name: 'Sistema ELIS'
-      },
-      subject: `Report Giornaliero ELIS - ${formatDate(data.date)}`,
-      html: emailContent,
-      attachments: [
-        {
-          content: pdfBuffer.toString('base64'),
-          filename: `report_${data.date}.pdf`,
-          type: 'application/pdf',
-          disposition: 'attachment'
-        }
-      ]
-    };
-
     try {
-      await sgMail.sendMultiple(msg);
+      await sendMail({
+        to: [
+          'amministrazione@elis.org',
+          'segreteria@elis.org'
+        ],
+        subject: `Report Giornaliero ELIS - ${formatDate(data.date)}`,
+        html: emailContent,
+        attachments: [
+          {
+            content: pdfBuffer,
+            filename: `report_${data.date}.pdf`,
+            contentType: 'application/pdf',
+          }
+        ]
+      });
       console.log(`Email report sent successfully for ${data.date}`);
     } catch (error) {
       console.error('Failed to send email report:', error);
@@ -360,7 +357,7 @@ export class ReportService {
     console.log(`Daily report saved: ${filePath}`);
 
     // Send email if enabled
-    if (sendEmail && process.env.SENDGRID_API_KEY) {
+    if (sendEmail && isMailConfigured()) {
       try {
         await this.sendEmailReport(data, pdf);
         console.log(`Email sent successfully for report: ${fileName}`);
@@ -2,18 +2,21 @@ import * as cron from 'node-cron';
 import { reportService } from './reportService';
 import * as fs from 'fs';
 import * as path from 'path';
-import { storage } from '../storage';
-import { SecretariatPaymentStatus } from '@shared/schema';
-import Stripe from 'stripe';
-
-// Initialize Stripe client for scheduled reconciliation
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-  apiVersion: "2024-12-18.acacia",
-});
+import { AuditSource, ReconciliationTrigger } from '@shared/schema';
+import { runWithAuditContext } from '../audit';
+import { runReconciliation } from '../payments/reconciliation';
+import { processWebhookInbox } from '../payments/webhookInbox';
+import { processNotificationOutbox } from '../notifications/outbox';
+import { purgeExpiredTrash, trashRetentionDays } from './trashService';
+import { sendPaymentReminders } from './paymentReminderService';
 
 export class SchedulerService {
   private reportJob: any = null;
   private paymentReconciliationJob: any = null;
+  private webhookInboxJob: any = null;
+  private notificationOutboxJob: any = null;
+  private trashPurgeJob: any = null;
+  private paymentReminderJob: any = null;
 
   async start() {
     console.log('Starting scheduler service...');
@@ -29,12 +32,59 @@ export class SchedulerService {
     
     // 🚀 AUTOMAZIONE 100%: Schedule payment reconciliation every 5 minutes
     this.paymentReconciliationJob = cron.schedule('*/5 * * * *', async () => {
-      await this.reconcileStuckPayments();
+      // Le modifiche fatte dal job risultano nel log di audit con origine "scheduler"
+      await runWithAuditContext({ source: AuditSource.SCHEDULER }, () => this.reconcileStuckPayments());
     }, {
       timezone: 'Europe/Rome'
     });
 
     console.log('🔄 Payment reconciliation job scheduled every 5 minutes for 100% automation');
+
+    // Nuovi tentativi dei webhook falliti ed eventi rimasti in coda
+    this.webhookInboxJob = cron.schedule('* * * * *', async () => {
+      try {
+        const processed = await processWebhookInbox();
+        if (processed > 0) {
+          console.log(`📬 Webhook inbox: ${processed} events processed`);
+        }
+      } catch (error) {
+        console.error('❌ Webhook inbox job failed:', error);
+      }
+    }, {
+      timezone: 'Europe/Rome'
+    });
+
+    // Nuovi tentativi delle email non inviate e notifiche rimaste in coda
+    this.notificationOutboxJob = cron.schedule('* * * * *', async () => {
+      try {
+        const processed = await processNotificationOutbox();
+        if (processed > 0) {
+          console.log(`📧 Notification outbox: ${processed} notifications processed`);
+        }
+      } catch (error) {
+        console.error('❌ Notification outbox job failed:', error);
+      }
+    }, {
+      timezone: 'Europe/Rome'
+    });
+
+    // Eliminazione definitiva delle righe rimaste nel cestino oltre il periodo di conservazione
+    this.trashPurgeJob = cron.schedule('30 3 * * *', async () => {
+      await runWithAuditContext({ source: AuditSource.SCHEDULER }, () => this.purgeTrash());
+    }, {
+      timezone: 'Europe/Rome'
+    });
+
+    console.log(`Trash purge job scheduled for 03:30 (retention ${trashRetentionDays()} days)`);
+
+    // Solleciti dei servizi non pagati da tempo, in orario d'ufficio
+    this.paymentReminderJob = cron.schedule('0 10 * * *', async () => {
+      await this.sendPaymentReminders();
+    }, {
+      timezone: 'Europe/Rome'
+    });
+
+    console.log('Payment reminder job scheduled for 10:00 (Europe/Rome timezone)');
     
     // Optional: Generate a test report immediately on startup (for development)
     if (process.env.NODE_ENV === 'development') {
@@ -136,104 +186,30 @@ export class SchedulerService {
   private async reconcileStuckPayments() {
     try {
       console.log('🔍 Starting automatic payment reconciliation...');
-
-      // Find payments stuck in PROCESSING status
-      const processingPayments = await storage.getSecretariatPayments({
-        status: SecretariatPaymentStatus.PROCESSING
-      });
-      
-      if (processingPayments.length === 0) {
-        console.log('✅ No processing payments found');
-        return;
-      }
-
-      // Filter payments that are older than 5 minutes
-      const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-      const stuckPayments = processingPayments.filter(payment => 
-        new Date(payment.createdAt) < fiveMinutesAgo
-      );
-
-      if (stuckPayments.length === 0) {
-        console.log(`⏳ Found ${processingPayments.length} processing payments but none older than 5 minutes`);
-        return;
-      }
-
-      console.log(`🔧 Found ${stuckPayments.length} stuck payments to reconcile`);
-
-      let reconciledCount = 0;
-      let failedCount = 0;
-
-      for (const payment of stuckPayments) {
-        try {
-          console.log(`🔄 Reconciling payment ${payment.orderId} (${payment.sigla})...`);
-
-          // Query Stripe for payment intent status using metadata search
-          const paymentIntents = await stripe.paymentIntents.list({
-            limit: 100
-          });
-
-          const stripePayment = paymentIntents.data.find(pi => pi.metadata.orderId === payment.orderId);
-
-          if (!stripePayment) {
-            console.log(`⚠️  No Stripe payment found for ${payment.orderId}, skipping...`);
-            continue;
-          }
-
-          console.log(`💳 Found Stripe payment ${stripePayment.id} with status: ${stripePayment.status}`);
-
-          // If Stripe shows succeeded, update our database
-          if (stripePayment.status === 'succeeded') {
-            console.log(`💰 Reconciling succeeded payment: ${payment.orderId}`);
-
-            // Update payment status
-            await storage.updateSecretariatPaymentStatus(
-              payment.orderId,
-              SecretariatPaymentStatus.COMPLETED,
-              new Date()
-            );
-
-            // Update associated services
-            const serviceIdsStr = stripePayment.metadata.serviceIds;
-            const serviceIds = serviceIdsStr ? 
-              serviceIdsStr.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id)) : [];
-
-            for (const serviceId of serviceIds) {
-              try {
-                await storage.updateService(serviceId, { status: "paid" });
-                console.log(`✅ Reconciled service ${serviceId} to paid`);
-              } catch (serviceError) {
-                console.error(`❌ Failed to reconcile service ${serviceId}:`, serviceError);
-              }
-            }
-
-            reconciledCount++;
-            console.log(`🎉 Successfully reconciled payment ${payment.orderId} for sigla ${payment.sigla} (${serviceIds.length} services)`);
-
-          } else if (stripePayment.status === 'canceled' || stripePayment.status === 'requires_payment_method') {
-            // Update to failed status
-            await storage.updateSecretariatPaymentStatus(
-              payment.orderId,
-              SecretariatPaymentStatus.FAILED,
-              new Date()
-            );
-            console.log(`❌ Marked payment ${payment.orderId} as failed (Stripe status: ${stripePayment.status})`);
-
-          } else {
-            console.log(`⏳ Payment ${payment.orderId} still ${stripePayment.status} on Stripe, keeping as processing`);
-          }
-
-        } catch (paymentError) {
-          console.error(`❌ Failed to reconcile payment ${payment.orderId}:`, paymentError);
-          failedCount++;
-        }
+      const run = await runReconciliation(ReconciliationTrigger.SCHEDULER);
+      if (run === null) {
+        console.log('⏳ Payment reconciliation already running, skipping');
+      } else if (!run) {
+        console.log('✅ No payments to reconcile');
       }
+    } catch (error) {
+      console.error('❌ Payment reconciliation job failed:', error);
+    }
+  }
 
-      if (reconciledCount > 0 || failedCount > 0) {
-        console.log(`🎯 Payment reconciliation completed: ${reconciledCount} reconciled, ${failedCount} failed`);
-      }
+  private async purgeTrash() {
+    try {
+      await purgeExpiredTrash();
+    } catch (error) {
+      console.error('❌ Trash purge job failed:', error);
+    }
+  }
 
+  private async sendPaymentReminders() {
+    try {
+      await sendPaymentReminders();
     } catch (error) {
-      console.error('❌ Payment reconciliation job failed:', error);
+      console.error('❌ Payment reminder job failed:', error);
     }
   }
 
@@ -247,6 +223,26 @@ export class SchedulerService {
       this.paymentReconciliationJob.stop();
       console.log('Payment reconciliation job stopped');
     }
+
+    if (this.webhookInboxJob) {
+      this.webhookInboxJob.stop();
+      console.log('Webhook inbox job stopped');
+    }
+
+    if (this.notificationOutboxJob) {
+      this.notificationOutboxJob.stop();
+      console.log('Notification outbox job stopped');
+    }
+
+    if (this.trashPurgeJob) {
+      this.trashPurgeJob.stop();
+      console.log('Trash purge job stopped');
+    }
+
+    if (this.paymentReminderJob) {
+      this.paymentReminderJob.stop();
+      console.log('Payment reminder job stopped');
+    }
   }
 
   // Get next scheduled execution time
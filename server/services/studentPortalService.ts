@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import { Student, StudentLoginVerify, StudentPortalOverview } from '@shared/schema';
+import { sumEuros } from '@shared/money';
+import { storage } from '../storage';
+import { isMailConfigured, sendMail } from '../notifications/transport';
+import type { FlowError } from '../utils/queue';
+
+/*
+ * Accesso degli studenti al portale senza password: alla richiesta con la sigla arriva
+ * all'email dell'anagrafica un link di accesso e un codice a 6 cifre, entrambi monouso.
+ * La risposta alla richiesta è sempre la stessa, così non rivela quali sigle esistono.
+ */
+
+const LOGIN_CODE_TTL_MS = 15 * 60 * 1000;
+// Un nuovo codice non viene inviato prima di un minuto dal precedente
+const LOGIN_CODE_RESEND_MS = 60 * 1000;
+// Oltre questo numero di codici errati bisogna richiederne uno nuovo
+const MAX_CODE_ATTEMPTS = 5;
+
+const INVALID_CODE: FlowError = { error: 'Codice non valido o scaduto, richiedine uno nuovo', status: 401 };
+
+export function hashLoginSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function sameHash(a: string, b: string): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+// Genera link e codice per lo studente; nel database finiscono solo gli hash
+export async function issueStudentLoginCode(studentId: number): Promise<{ token: string; code: string; expiresAt: Date }> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+  const expiresAt = new Date(Date.now() + LOGIN_CODE_TTL_MS);
+  await storage.createStudentLoginCode({
+    studentId,
+    tokenHash: hashLoginSecret(token),
+    codeHash: hashLoginSecret(code),
+    expiresAt,
+  });
+  return { token, code, expiresAt };
+}
+
+export function studentLoginEmail(student: Student, link: string, code: string): { subject: string; html: string } {
+  return {
+    subject: `Accesso al portale studenti - codice ${code}`,
+    html: `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #007bff;">Accesso al portale studenti</h2>
+      <p>Ciao ${escapeHtml(student.firstName)},</p>
+      <p>per entrare nel portale della sigla <strong>${escapeHtml(student.sigla)}</strong> apri questo link:</p>
+      <p><a href="${link}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Entra nel portale</a></p>
+      <p>oppure inserisci il codice <strong style="font-size: 20px; letter-spacing: 4px;">${code}</strong></p>
+      <p>Link e codice valgono ${LOGIN_CODE_TTL_MS / 60000} minuti e si possono usare una sola volta. Se non hai richiesto l'accesso, ignora questa email.</p>
+      <hr style="margin: 20px 0;">
+      <p style="color: #666; font-size: 12px;">Sistema ELIS - Amministrazione Residenza</p>
+    </div>
+    `,
+  };
+}
+
+/**
+ * Invia link e codice di accesso allo studente della sigla. Sigle sconosciute, studenti senza
+ * email e richieste troppo ravvicinate vengono ignorati senza errore.
+ */
+export async function requestStudentLogin(sigla: string, baseUrl: string): Promise<void> {
+  const student = await storage.getStudentBySigla(sigla);
+  if (!student?.email) {
+    console.log(`Accesso al portale non inviato per la sigla ${sigla}: studente o email mancante`);
+    return;
+  }
+
+  const latest = await storage.getLatestStudentLoginCode(student.id);
+  if (latest && !latest.usedAt && Date.now() - latest.createdAt.getTime() < LOGIN_CODE_RESEND_MS) {
+    return;
+  }
+
+  const { token, code } = await issueStudentLoginCode(student.id);
+  const link = `${baseUrl}/portal?token=${encodeURIComponent(token)}`;
+
+  // In sviluppo, senza posta configurata, il link serve comunque per entrare
+  if (!isMailConfigured() && process.env.NODE_ENV !== 'production') {
+    console.log(`Link di accesso al portale per ${student.sigla}: ${link} - codice ${code}`);
+  }
+
+  // Inviata subito e non dalla outbox: il codice non viene mai salvato in chiaro
+  const { subject, html } = studentLoginEmail(student, link, code);
+  try {
+    await sendMail({ to: student.email, subject, html });
+  } catch (error) {
+    console.error(`Invio email di accesso al portale per ${student.sigla} fallito:`, error);
+  }
+}
+
+/**
+ * Verifica il link (token) o la coppia sigla e codice. Vale solo l'ultimo codice inviato,
+ * non scaduto, non ancora usato e per al massimo MAX_CODE_ATTEMPTS tentativi con il codice.
+ */
+export async function verifyStudentLogin(input: StudentLoginVerify): Promise<Student | FlowError> {
+  let loginCode;
+  if ('token' in input) {
+    loginCode = await storage.getStudentLoginCodeByToken(hashLoginSecret(input.token));
+    const latest = loginCode && await storage.getLatestStudentLoginCode(loginCode.studentId);
+    if (!loginCode || latest?.id !== loginCode.id) {
+      return INVALID_CODE;
+    }
+  } else {
+    const student = await storage.getStudentBySigla(input.sigla);
+    loginCode = student && await storage.getLatestStudentLoginCode(student.id);
+    if (!loginCode) {
+      return INVALID_CODE;
+    }
+  }
+
+  if (loginCode.usedAt || loginCode.expiresAt.getTime() < Date.now() || loginCode.attempts >= MAX_CODE_ATTEMPTS) {
+    return INVALID_CODE;
+  }
+  if ('code' in input) {
+    // Il tentativo è registrato prima del confronto: richieste parallele non superano il limite
+    if (!(await storage.claimStudentLoginAttempt(loginCode.id, MAX_CODE_ATTEMPTS))) {
+      return INVALID_CODE;
+    }
+    if (!sameHash(hashLoginSecret(input.code), loginCode.codeHash)) {
+      return INVALID_CODE;
+    }
+  }
+
+  if (!(await storage.consumeStudentLoginCode(loginCode.id))) {
+    return INVALID_CODE;
+  }
+  const student = await storage.getStudent(loginCode.studentId);
+  return student ?? INVALID_CODE;
+}
+
+// Servizi, pagamenti, ricevute, segnalazioni e prenotazioni bici della sigla dello studente
+export async function getStudentPortalOverview(student: Student): Promise<StudentPortalOverview> {
+  const [outstandingServices, { services }, payments, receipts, maintenanceRequests, { reservations }] = await Promise.all([
+    storage.getOutstandingServices(student.sigla),
+    storage.getServices({ sigla: student.sigla, status: 'all', page: 1, limit: 100 }),
+    storage.getStudentPayments(student.sigla),
+    storage.getStudentReceipts(student.sigla),
+    storage.getStudentMaintenanceRequests(student.sigla),
+    storage.getBikeReservations({ sigla: student.sigla, status: 'all', page: 1, limit: 50 }),
+  ]);
+
+  return {
+    student: { sigla: student.sigla, firstName: student.firstName, lastName: student.lastName, email: student.email },
+    outstandingServices,
+    totalOutstanding: sumEuros(outstandingServices.map(service => service.outstanding)),
+    services: services.map(({ student: _student, ...service }) => service),
+    payments: payments.map(({ id, orderId, amount, status, paymentMethod, paymentDate, createdAt }) =>
+      ({ id, orderId, amount, status, paymentMethod, paymentDate, createdAt })),
+    receipts,
+    maintenanceRequests: maintenanceRequests.map(({ id, timestamp, place, specificLocation, defectDetails, status, priority, completedAt }) =>
+      ({ id, timestamp, place, specificLocation, defectDetails, status, priority, completedAt })),
+    bikeReservations: reservations,
+  };
+}
@@ -0,0 +1,39 @@
+import { TrashEntry, TrashListing, TrashPurgeResult } from '@shared/schema';
+import { storage } from '../storage';
+
+/*
+ * Cestino di servizi, studenti e richieste di manutenzione: le righe eliminate dal gestionale
+ * restano ripristinabili per TRASH_RETENTION_DAYS giorni (default 30), poi lo scheduler
+ * le elimina definitivamente.
+ */
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function trashRetentionDays(): number {
+  const configured = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RETENTION_DAYS;
+}
+
+// Elenco del cestino con la data in cui ogni riga verrà eliminata definitivamente
+export function toTrashListing<T extends { deletedAt: Date | null }>(rows: T[]): TrashListing<T> {
+  const retentionDays = trashRetentionDays();
+  const items: TrashEntry<T>[] = rows.map(row => ({
+    ...row,
+    purgeAt: new Date((row.deletedAt ?? new Date()).getTime() + retentionDays * DAY_MS),
+  }));
+  return { items, retentionDays };
+}
+
+/**
+ * Elimina definitivamente le righe nel cestino da più del periodo di conservazione
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<TrashPurgeResult> {
+  const deletedBefore = new Date(now.getTime() - trashRetentionDays() * DAY_MS);
+  const result = await storage.purgeDeletedRows(deletedBefore);
+  const total = result.services + result.students + result.maintenanceRequests;
+  if (total > 0) {
+    console.log(`🗑️ Cestino: eliminati definitivamente ${result.services} servizi, ${result.students} studenti, ${result.maintenanceRequests} richieste di manutenzione`);
+  }
+  return result;
+}
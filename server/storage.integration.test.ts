@@ -0,0 +1,469 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MaintenanceRequestPriority, MaintenanceRequestStatus, PaymentStatus, RefundKind, RefundStatus, SecretariatPaymentStatus, ServiceType, type InsertService } from "@shared/schema";
+import { integrationSkip, setupIntegrationDatabase, type IntegrationDatabase } from "./test/integration";
+
+function service(overrides: Partial<InsertService> & Pick<InsertService, "sigla" | "date">): InsertService {
+  return {
+    pieces: 1,
+    type: ServiceType.SIGLATURA,
+    amount: 0.5,
+    status: PaymentStatus.UNPAID,
+    notes: "",
+    ...overrides,
+  };
+}
+
+describe("DatabaseStorage", { skip: integrationSkip }, () => {
+  let database: IntegrationDatabase;
+
+  before(async () => {
+    database = await setupIntegrationDatabase();
+  });
+
+  after(async () => {
+    await database?.teardown();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+  });
+
+  describe("getServices", () => {
+    beforeEach(async () => {
+      const { storage } = database;
+      await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi" });
+      await storage.createService(service({ sigla: "101", date: "2025-01-10" }));
+      await storage.createService(service({ sigla: "101", date: "2025-02-10", type: ServiceType.HAPPY_HOUR, amount: 1 }));
+      await storage.createService(service({ sigla: "101", date: "2025-03-10", status: PaymentStatus.PAID }));
+      await storage.createService(service({ sigla: "1010", date: "2025-04-10" }));
+      await storage.createService(service({ sigla: "202", date: "2025-05-10", type: ServiceType.RIPARAZIONE, amount: 4 }));
+    });
+
+    it("returns the newest services first with the student joined", async () => {
+      const { services, total } = await database.storage.getServices({ page: 1, limit: 10 });
+      assert.equal(total, 5);
+      assert.deepEqual(services.map(s => s.sigla), ["202", "1010", "101", "101", "101"]);
+      assert.equal(services[2].student?.lastName, "Rossi");
+      assert.equal(services[0].student, undefined);
+      assert.equal(typeof services[0].amount, "number");
+    });
+
+    it("paginates while reporting the total of all matches", async () => {
+      const first = await database.storage.getServices({ page: 1, limit: 2 });
+      const third = await database.storage.getServices({ page: 3, limit: 2 });
+      assert.equal(first.total, 5);
+      assert.equal(first.services.length, 2);
+      assert.equal(third.total, 5);
+      assert.deepEqual(third.services.map(s => s.date.toISOString().slice(0, 10)), ["2025-01-10"]);
+    });
+
+    it("filters by exact sigla, partial sigla, type, status and date range", async () => {
+      const { storage } = database;
+      assert.equal((await storage.getServices({ sigla: "101", page: 1, limit: 10 })).total, 3);
+      assert.equal((await storage.getServices({ query: "101", page: 1, limit: 10 })).total, 4);
+      assert.equal((await storage.getServices({ type: ServiceType.HAPPY_HOUR, page: 1, limit: 10 })).total, 1);
+      assert.equal((await storage.getServices({ type: "all", status: PaymentStatus.PAID, page: 1, limit: 10 })).total, 1);
+
+      const range = await storage.getServices({ startDate: "2025-02-01", endDate: "2025-04-30", page: 1, limit: 10 });
+      assert.equal(range.total, 3);
+      assert.deepEqual(range.services.map(s => s.sigla), ["1010", "101", "101"]);
+    });
+  });
+
+  describe("getServiceMetrics", () => {
+    it("counts and sums active services by type and payment status", async () => {
+      const { storage } = database;
+      await storage.createService(service({ sigla: "101", date: "2025-01-10" }));
+      await storage.createService(service({ sigla: "101", date: "2025-01-11", status: PaymentStatus.PAID }));
+      await storage.createService(service({ sigla: "202", date: "2025-01-12", type: ServiceType.RIPARAZIONE, amount: 4 }));
+
+      const metrics = await storage.getServiceMetrics();
+      assert.equal(metrics.totalServices, 3);
+      assert.equal(metrics.pendingPayments, 2);
+      assert.equal(metrics.totalAmount, 5);
+      assert.equal(metrics.pendingAmount, 4.5);
+      // Ogni tipo attivo del catalogo compare, anche senza servizi
+      assert.deepEqual(metrics.countsByType, {
+        [ServiceType.SIGLATURA]: 2,
+        [ServiceType.HAPPY_HOUR]: 0,
+        [ServiceType.RIPARAZIONE]: 1,
+      });
+    });
+
+    it("applies the date filter and leaves archived services out unless asked", async () => {
+      const { storage } = database;
+      const archived = await storage.createService(service({ sigla: "101", date: "2024-06-10" }));
+      await storage.updateService(archived.id, { archivedYear: 2024, archivedAt: new Date() } as any);
+      await storage.createService(service({ sigla: "101", date: "2025-03-10" }));
+      await storage.createService(service({ sigla: "101", date: "2025-06-10" }));
+
+      assert.equal((await storage.getServiceMetrics()).totalServices, 2);
+      assert.equal((await storage.getServiceMetrics({ includeArchived: true })).totalServices, 3);
+
+      const march = await storage.getServiceMetrics({
+        startDate: new Date("2025-03-01"),
+        endDate: new Date("2025-03-31"),
+      });
+      assert.equal(march.totalServices, 1);
+      assert.equal(march.pendingAmount, 0.5);
+    });
+  });
+
+  describe("importStudentsFromCSV", () => {
+    it("skips the header, creates new students and updates existing ones", async () => {
+      const { storage } = database;
+      await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rosi" });
+
+      const result = await storage.importStudentsFromCSV(
+        "Nome,Cognome,Sigla\nMario,Rossi,101\nLuca, Bianchi ,102\n\nsolo-due,colonne\n"
+      );
+      assert.deepEqual(result, { success: 2, failed: 1 });
+
+      assert.equal((await storage.getStudentBySigla("101"))?.lastName, "Rossi");
+      assert.equal((await storage.getStudentBySigla("102"))?.lastName, "Bianchi");
+      assert.equal((await storage.getStudents({ page: 1, limit: 10 })).total, 2);
+    });
+  });
+
+  describe("referential integrity", () => {
+    it("links services to the student with the same sigla, also when the student is created later", async () => {
+      const { storage } = database;
+      const before = await storage.createService(service({ sigla: "101", date: "2025-01-10" }));
+      assert.equal(before.studentId, null);
+
+      const student = await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi" });
+      assert.equal((await storage.getService(before.id))?.studentId, student.id);
+      const after = await storage.createService(service({ sigla: "101", date: "2025-02-10" }));
+      assert.equal(after.studentId, student.id);
+
+      const moved = await storage.updateService(after.id, { sigla: "202" });
+      assert.equal(moved?.studentId, null);
+    });
+
+    it("refuses to delete a student with services and carries a sigla change over to them", async () => {
+      const { storage } = database;
+      const student = await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi" });
+      const created = await storage.createService(service({ sigla: "101", date: "2025-01-10" }));
+
+      const blocked = await storage.deleteStudent(student.id);
+      assert.deepEqual(blocked, {
+        error: "Lo studente 101 ha servizi registrati e non può essere eliminato",
+        status: 409,
+        references: { services: 1 },
+      });
+
+      await storage.updateStudent(student.id, { sigla: "111" });
+      assert.equal((await storage.getService(created.id))?.sigla, "111");
+      assert.deepEqual((await storage.getStudentLedger("111")).entries.map(entry => entry.serviceId), [created.id]);
+
+      assert.equal(await storage.deleteService(created.id), true);
+      assert.equal(await storage.deleteStudent(student.id), true);
+      assert.equal(await storage.deleteStudent(student.id), false);
+    });
+
+    it("refuses to delete a service with receipts", async () => {
+      const { storage } = database;
+      const created = await storage.createService(service({ sigla: "101", date: "2025-01-10" }));
+      await storage.createReceipt({ serviceId: created.id, receiptNumber: "R-1", amount: 0.5, paymentMethod: "cash" });
+
+      const blocked = await storage.deleteService(created.id);
+      assert.deepEqual(blocked, {
+        error: "Il servizio ha ricevute emesse e non può essere eliminato",
+        status: 409,
+        references: { receipts: 1 },
+      });
+      assert.equal((await storage.getService(created.id))?.id, created.id);
+      assert.deepEqual(await storage.getDeletedServices(), []);
+    });
+
+    it("reports services of siglas without a student", async () => {
+      const { storage } = database;
+      await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi" });
+      await storage.createService(service({ sigla: "101", date: "2025-01-10" }));
+      await storage.createService(service({ sigla: "999", date: "2025-01-10", amount: 1 }));
+      await storage.createService(service({ sigla: "999", date: "2025-01-11", amount: 0.5 }));
+
+      const report = await storage.getOrphanReport();
+      assert.deepEqual(report.servicesWithoutStudent, [{ sigla: "999", services: 2, amount: 1.5 }]);
+      assert.deepEqual(report.receiptsWithoutService, []);
+      assert.deepEqual(report.migrationOrphans, []);
+    });
+  });
+
+  describe("trash", () => {
+    it("moves a deleted service out of lists and metrics and restores it with its charge", async () => {
+      const { storage } = database;
+      await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi" });
+      const kept = await storage.createService(service({ sigla: "101", date: "2025-01-10" }));
+      const trashed = await storage.createService(service({ sigla: "101", date: "2025-01-11", amount: 1 }));
+
+      assert.equal(await storage.deleteService(trashed.id), true);
+      assert.equal(await storage.deleteService(trashed.id), false);
+      assert.equal(await storage.getService(trashed.id), undefined);
+      assert.deepEqual((await storage.getServices({ page: 1, limit: 10 })).services.map(s => s.id), [kept.id]);
+      assert.equal((await storage.getServiceMetrics()).totalAmount, 0.5);
+      assert.equal((await storage.getStudentLedger("101")).balance, 0.5);
+
+      const [inTrash] = await storage.getDeletedServices();
+      assert.equal(inTrash.id, trashed.id);
+      assert.ok(inTrash.deletedAt);
+      assert.equal(await storage.updateService(trashed.id, { notes: "x" }), undefined);
+
+      const restored = await storage.restoreService(trashed.id);
+      assert.equal(restored?.deletedAt, null);
+      assert.equal(await storage.restoreService(trashed.id), undefined);
+      assert.equal((await storage.getServiceMetrics()).totalAmount, 1.5);
+      assert.equal((await storage.getStudentLedger("101")).balance, 1.5);
+    });
+
+    it("keeps a trashed student's sigla reserved and restores students and maintenance requests", async () => {
+      const { storage } = database;
+      const student = await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi" });
+      const request = await storage.createMaintenanceRequest({
+        sigla: "101", place: "Camera", defectDetails: "Lampadina",
+        status: MaintenanceRequestStatus.PENDING, priority: MaintenanceRequestPriority.MEDIUM,
+      });
+
+      assert.equal(await storage.deleteStudent(student.id), true);
+      assert.equal(await storage.deleteMaintenanceRequest(request.id), true);
+      assert.equal((await storage.getStudents({ page: 1, limit: 10 })).total, 0);
+      assert.equal((await storage.getMaintenanceRequests({ page: 1, limit: 10 })).total, 0);
+      assert.equal(await storage.getStudentBySigla("101"), undefined);
+      assert.equal((await storage.getStudentBySigla("101", true))?.id, student.id);
+
+      assert.equal((await storage.restoreStudent(student.id))?.id, student.id);
+      assert.equal((await storage.restoreMaintenanceRequest(request.id))?.id, request.id);
+      assert.equal((await storage.getStudents({ page: 1, limit: 10 })).total, 1);
+      assert.deepEqual(await storage.getDeletedMaintenanceRequests(), []);
+    });
+
+    it("purges only the rows trashed before the cutoff", async () => {
+      const { storage } = database;
+      const student = await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi" });
+      const created = await storage.createService(service({ sigla: "101", date: "2025-01-10" }));
+      const active = await storage.createService(service({ sigla: "202", date: "2025-01-10" }));
+      const request = await storage.createMaintenanceRequest({
+        sigla: "101", place: "Camera", defectDetails: "Lampadina",
+        status: MaintenanceRequestStatus.PENDING, priority: MaintenanceRequestPriority.MEDIUM,
+      });
+      assert.equal(await storage.deleteService(created.id), true);
+      assert.equal(await storage.deleteStudent(student.id), true);
+      assert.equal(await storage.deleteMaintenanceRequest(request.id), true);
+
+      assert.deepEqual(await storage.purgeDeletedRows(new Date(Date.now() - 60_000)), {
+        services: 0, students: 0, maintenanceRequests: 0,
+      });
+      assert.deepEqual((await storage.getDeletedServices()).map(row => row.id), [created.id]);
+      assert.deepEqual((await storage.getDeletedStudents()).map(row => row.id), [student.id]);
+
+      assert.deepEqual(await storage.purgeDeletedRows(new Date(Date.now() + 60_000)), {
+        services: 1, students: 1, maintenanceRequests: 1,
+      });
+      assert.deepEqual(await storage.getDeletedServices(), []);
+      assert.deepEqual(await storage.getDeletedStudents(), []);
+      assert.deepEqual(await storage.getDeletedMaintenanceRequests(), []);
+      assert.equal(await storage.restoreService(created.id), undefined);
+      assert.equal((await storage.getService(active.id))?.id, active.id);
+    });
+  });
+
+  describe("audit log", () => {
+    it("records each change together with its audit row and undoes it when the row cannot be written", async () => {
+      const { storage } = database;
+      const { pool } = await import("./db");
+      const student = await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi" });
+      const { entries } = await storage.getAuditLog({ entityType: "student", entityId: String(student.id), page: 1, limit: 25 });
+      assert.deepEqual(entries.map(entry => entry.action), ["create"]);
+
+      // Il log rifiuta le righe degli studenti: modifica e audit devono fallire insieme
+      await pool.query("ALTER TABLE audit_log ADD CONSTRAINT audit_log_reject_students CHECK (entity_type <> 'student') NOT VALID");
+      try {
+        await assert.rejects(storage.createStudent({ sigla: "202", firstName: "Luca", lastName: "Bianchi" }), /audit_log_reject_students/);
+        await assert.rejects(storage.updateStudent(student.id, { firstName: "Marco" }), /audit_log_reject_students/);
+        await assert.rejects(storage.deleteStudent(student.id), /audit_log_reject_students/);
+      } finally {
+        await pool.query("ALTER TABLE audit_log DROP CONSTRAINT audit_log_reject_students");
+      }
+
+      assert.equal(await storage.getStudentBySigla("202", true), undefined);
+      assert.equal((await storage.getStudent(student.id))?.firstName, "Mario");
+    });
+  });
+
+  describe("ensureInitialAdmin", () => {
+    it("refuses the default password in production", async () => {
+      const { storage } = database;
+      const saved = { nodeEnv: process.env.NODE_ENV, password: process.env.ADMIN_INITIAL_PASSWORD };
+      try {
+        process.env.NODE_ENV = "production";
+        delete process.env.ADMIN_INITIAL_PASSWORD;
+        await assert.rejects(storage.ensureInitialAdmin(), /ADMIN_INITIAL_PASSWORD must be set in production/);
+        assert.equal(await storage.getUserByUsername("admin"), undefined);
+
+        process.env.ADMIN_INITIAL_PASSWORD = "una-password-lunga";
+        assert.equal(await storage.ensureInitialAdmin(), true);
+        assert.equal(await storage.ensureInitialAdmin(), false);
+      } finally {
+        if (saved.nodeEnv === undefined) delete process.env.NODE_ENV;
+        else process.env.NODE_ENV = saved.nodeEnv;
+        if (saved.password === undefined) delete process.env.ADMIN_INITIAL_PASSWORD;
+        else process.env.ADMIN_INITIAL_PASSWORD = saved.password;
+      }
+    });
+  });
+
+  describe("updateSecretariatPaymentStatus", () => {
+    async function pendingPayment(amount: number, orderId = `SEC_stripe_101_${amount}`) {
+      return database.storage.createSecretariatPayment({
+        orderId,
+        sigla: "101",
+        customerName: "Mario Rossi",
+        customerEmail: "101@elis.org",
+        amount,
+        currency: "EUR",
+        status: SecretariatPaymentStatus.PENDING,
+        paymentMethod: "stripe",
+      });
+    }
+
+    beforeEach(async () => {
+      const { storage } = database;
+      await storage.createStudent({ sigla: "101", firstName: "Mario", lastName: "Rossi" });
+      await storage.createService(service({ sigla: "101", date: "2025-01-10", amount: 1 }));
+      await storage.createService(service({ sigla: "101", date: "2025-02-10", amount: 2 }));
+    });
+
+    it("settles the oldest services when a payment completes", async () => {
+      const { storage } = database;
+      const payment = await pendingPayment(1.5);
+      const paymentDate = new Date("2025-03-01T10:00:00Z");
+
+      const updated = await storage.updateSecretariatPaymentStatus(payment.orderId, SecretariatPaymentStatus.COMPLETED, paymentDate);
+      assert.equal(updated?.status, SecretariatPaymentStatus.COMPLETED);
+      assert.deepEqual(updated?.paymentDate, paymentDate);
+
+      const allocations = await storage.getPaymentAllocations(payment.id);
+      assert.deepEqual(allocations.map(a => a.amount).sort(), [0.5, 1]);
+
+      const { services } = await storage.getServices({ sigla: "101", page: 1, limit: 10 });
+      assert.deepEqual(services.map(s => s.status), [PaymentStatus.UNPAID, PaymentStatus.PAID]);
+      const [open] = await storage.getOutstandingServices("101");
+      assert.equal(open.outstanding, 1.5);
+    });
+
+    it("does not allocate a payment twice when completion is reported again", async () => {
+      const { storage } = database;
+      const payment = await pendingPayment(3);
+      await storage.updateSecretariatPaymentStatus(payment.orderId, SecretariatPaymentStatus.COMPLETED);
+      await storage.updateSecretariatPaymentStatus(payment.orderId, SecretariatPaymentStatus.COMPLETED);
+
+      assert.equal((await storage.getPaymentAllocations(payment.id)).length, 2);
+      assert.deepEqual(await storage.getOutstandingServices("101"), []);
+    });
+
+    it("books a payment once when completion is reported concurrently", async () => {
+      const { storage } = database;
+      const payment = await pendingPayment(3);
+      const completions = Array.from({ length: 4 }, () =>
+        storage.updateSecretariatPaymentStatus(payment.orderId, SecretariatPaymentStatus.COMPLETED)
+      );
+      await Promise.all([...completions, storage.allocateSecretariatPayment(payment.id)]);
+
+      const ledger = await storage.getStudentLedger("101");
+      assert.equal(ledger.entries.filter(entry => entry.secretariatPaymentId === payment.id).length, 1);
+      assert.equal((await storage.getPaymentAllocations(payment.id)).length, 2);
+      assert.equal(ledger.balance, 0);
+    });
+
+    it("leaves a payment pending when its allocation cannot be booked", async () => {
+      const { storage } = database;
+      const { pool } = await import("./db");
+      const payment = await pendingPayment(3);
+
+      await pool.query("ALTER TABLE payment_allocations ADD CONSTRAINT payment_allocations_reject CHECK (amount_cents < 0) NOT VALID");
+      try {
+        await assert.rejects(
+          storage.updateSecretariatPaymentStatus(payment.orderId, SecretariatPaymentStatus.COMPLETED),
+          /payment_allocations_reject/
+        );
+      } finally {
+        await pool.query("ALTER TABLE payment_allocations DROP CONSTRAINT payment_allocations_reject");
+      }
+      assert.equal((await storage.getSecretariatPayment(payment.id))?.status, SecretariatPaymentStatus.PENDING);
+      assert.equal((await storage.getStudentLedger("101")).balance, 3);
+
+      // Il tentativo successivo (retry del webhook, riconciliazione) completa e ripartisce il pagamento
+      await storage.updateSecretariatPaymentStatus(payment.orderId, SecretariatPaymentStatus.COMPLETED);
+      assert.equal((await storage.getPaymentAllocations(payment.id)).length, 2);
+      assert.deepEqual(await storage.getOutstandingServices("101"), []);
+    });
+
+    it("allocates concurrent payments of the same sigla on what is still outstanding", async () => {
+      const { storage } = database;
+      const first = await pendingPayment(3);
+      const second = await pendingPayment(3, "SEC_stripe_101_second");
+      await Promise.all([first, second].map(payment =>
+        storage.updateSecretariatPaymentStatus(payment.orderId, SecretariatPaymentStatus.COMPLETED)
+      ));
+
+      const allocations = [
+        ...await storage.getPaymentAllocations(first.id),
+        ...await storage.getPaymentAllocations(second.id),
+      ];
+      assert.equal(allocations.reduce((total, allocation) => total + allocation.amount, 0), 3);
+      const ledger = await storage.getStudentLedger("101");
+      assert.equal(ledger.balance, -3);
+      assert.deepEqual(await storage.getOutstandingServices("101"), []);
+    });
+
+    it("books a payment again when its chargeback is won", async () => {
+      const { storage } = database;
+      const payment = await pendingPayment(3);
+      await storage.updateSecretariatPaymentStatus(payment.orderId, SecretariatPaymentStatus.COMPLETED);
+      const chargeback = await storage.applyPaymentRefund({
+        secretariatPaymentId: payment.id, kind: RefundKind.CHARGEBACK, amount: 3,
+        provider: "stripe", providerRefundId: "dp_1", initiatedBy: "provider",
+      });
+      assert.equal((await storage.getStudentLedger("101")).balance, 3);
+      assert.equal((await storage.getOutstandingServices("101")).length, 2);
+
+      assert.equal((await storage.reverseChargeback(chargeback.id))?.status, RefundStatus.REVERSED);
+      const ledger = await storage.getStudentLedger("101");
+      assert.equal(ledger.balance, 0);
+      assert.equal(ledger.totals.refund, 0);
+      assert.deepEqual(await storage.getOutstandingServices("101"), []);
+    });
+
+    it("credits a won chargeback once when the dispute-won event arrives again", async () => {
+      const { storage } = database;
+      const { applyWebhookEvent } = await import("./payments/checkout");
+      const payment = await pendingPayment(3);
+      await storage.updateSecretariatPaymentStatus(payment.orderId, SecretariatPaymentStatus.COMPLETED);
+      await storage.applyPaymentRefund({
+        secretariatPaymentId: payment.id, kind: RefundKind.CHARGEBACK, amount: 3,
+        provider: "stripe", providerRefundId: "dp_1", initiatedBy: "provider",
+      });
+
+      // Stesso esito inviato più volte dal provider, con ID evento diversi
+      const won = { type: "dispute_won", providerRefundId: "dp_1" } as const;
+      await Promise.all([applyWebhookEvent("stripe", won), applyWebhookEvent("stripe", won)]);
+      await applyWebhookEvent("stripe", won);
+
+      const ledger = await storage.getStudentLedger("101");
+      assert.equal(ledger.balance, 0);
+      assert.equal(ledger.entries.filter(entry => entry.description.startsWith("Contestazione vinta")).length, 1);
+    });
+
+    it("leaves services untouched for a failed payment and ignores unknown orders", async () => {
+      const { storage } = database;
+      const payment = await pendingPayment(3);
+      const updated = await storage.updateSecretariatPaymentStatus(payment.orderId, SecretariatPaymentStatus.FAILED);
+      assert.equal(updated?.status, SecretariatPaymentStatus.FAILED);
+      assert.deepEqual(await storage.getPaymentAllocations(payment.id), []);
+      assert.equal((await storage.getOutstandingServices("101")).length, 2);
+
+      assert.equal(await storage.updateSecretariatPaymentStatus("SEC_unknown", SecretariatPaymentStatus.COMPLETED), undefined);
+    });
+  });
+});
@@ -22,10 +22,30 @@ import {
   Student, 
   InsertStudent, 
   StudentSearch,
+  studentLoginCodes,
+  StudentLoginCode,
+  InsertStudentLoginCode,
+  StudentPortalReceipt,
   BikeReservation,
   InsertBikeReservation,
   BikeReservationSearch,
+  BikeReservationStatus,
   BikeReservationStatusValue,
+  UpdateBikeReservation,
+  BikeReservationDetail,
+  ACTIVE_BIKE_RESERVATION_STATUSES,
+  bikes,
+  Bike,
+  BikeWithUsage,
+  InsertBike,
+  UpdateBike,
+  BikeStatus,
+  bikeSlots,
+  BikeSlot,
+  BikeSlotAvailability,
+  BikeSlotSearch,
+  InsertBikeSlot,
+  UpdateBikeSlot,
   SecretariatPayment,
   InsertSecretariatPayment,
   SecretariatPaymentStatus,
@@ -36,32 +56,101 @@ import {
   receipts,
   students,
   bikeReservations,
-  secretariatPayments
+  secretariatPayments,
+  UserRole,
+  auditLog,
+  AuditAction,
+  AuditActionValue,
+  AuditEntity,
+  AuditEntityValue,
+  AuditLogEntry,
+  AuditLogSearch,
+  priceList,
+  PriceListEntry,
+  InsertPriceListEntry,
+  serviceCatalog,
+  ServiceCatalogItem,
+  InsertServiceCatalogItem,
+  studentLedger,
+  StudentLedger,
+  StudentLedgerEntry,
+  InsertStudentLedgerEntry,
+  InsertLedgerAdjustment,
+  LedgerEntryKind,
+  LedgerEntryKindValue,
+  paymentAllocations,
+  PaymentAllocation,
+  OutstandingServiceRow,
+  paymentRefunds,
+  PaymentRefund,
+  InsertPaymentRefund,
+  RefundKind,
+  RefundStatus,
+  UpdateServiceCatalogItem,
+  reconciliationRuns,
+  reconciliationItems,
+  ReconciliationRun,
+  ReconciliationRunDetail,
+  ReconciliationItem,
+  InsertReconciliationItem,
+  ReconciliationTriggerValue,
+  webhookEvents,
+  WebhookInboxEvent,
+  InsertWebhookInboxEvent,
+  WebhookEventSearch,
+  WebhookEventStatus,
+  notificationOutbox,
+  Notification,
+  InsertNotification,
+  NotificationSearch,
+  NotificationStatus,
+  paymentReminders,
+  PaymentReminder,
+  InsertPaymentReminder,
+  PaymentReminderWithStatus,
+  orphanedRows,
+  OrphanReport,
+  moneyConversionReport,
+  MoneyConversionCheck,
+  TrashPurgeResult
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, like, gte, lte, desc, count, sum, or, and, isNull } from "drizzle-orm";
+import { hashPassword } from "./utils/password";
+import { getAuditContext } from "./audit";
+import { planAllocation, planRefundReversal } from "./utils/paymentAllocation";
+import { fromCents, roundEuros, sumEuros } from "@shared/money";
+import { eq, ne, like, gte, lte, gt, lt, asc, desc, count, sum, or, and, isNull, isNotNull, inArray, notExists, sql, type SQL } from "drizzle-orm";
+
+// Eliminazione rifiutata perché altre righe vi fanno riferimento (chiavi esterne)
+export type DeleteBlocked = {
+  error: string;
+  status: number;
+  references: Record<string, number>; // Tabella -> righe collegate
+};
 
 // Storage interface for CRUD operations
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: Partial<InsertUser> & { lastLoginAt?: Date }): Promise<User | undefined>;
   
   // Service operations
   getServices(params: ServiceSearch): Promise<{ services: ServiceWithStudent[], total: number }>;
   getService(id: number): Promise<ServiceWithStudent | undefined>;
   createService(service: InsertService): Promise<Service>;
   updateService(id: number, service: Partial<InsertService>): Promise<Service | undefined>;
-  deleteService(id: number): Promise<boolean>;
+  deleteService(id: number): Promise<boolean | DeleteBlocked>;
+  getDeletedServices(): Promise<Service[]>;
+  restoreService(id: number): Promise<Service | undefined>;
   
   // Dashboard operations
   getServiceMetrics(dateFilter?: { startDate?: Date, endDate?: Date, includeArchived?: boolean }): Promise<{
     totalServices: number,
     pendingPayments: number,
-    siglaturaCount: number,
-    happyHourCount: number,
-    repairCount: number,
+    countsByType: Record<string, number>,
     totalAmount: number,
     pendingAmount: number
   }>;
@@ -74,6 +163,8 @@ export interface IStorage {
   createMaintenanceRequest(request: InsertMaintenanceRequest): Promise<MaintenanceRequest>;
   updateMaintenanceRequest(id: number, request: Partial<InsertMaintenanceRequest>): Promise<MaintenanceRequest | undefined>;
   deleteMaintenanceRequest(id: number): Promise<boolean>;
+  getDeletedMaintenanceRequests(): Promise<MaintenanceRequest[]>;
+  restoreMaintenanceRequest(id: number): Promise<MaintenanceRequest | undefined>;
   getMaintenanceMetrics(): Promise<{
     totalRequests: number,
     pendingRequests: number,
@@ -100,18 +191,55 @@ export interface IStorage {
   // Student operations
   getStudents(params: StudentSearch): Promise<{ students: Student[], total: number }>;
   getStudent(id: number): Promise<Student | undefined>;
-  getStudentBySigla(sigla: string): Promise<Student | undefined>;
+  getStudentBySigla(sigla: string, includeDeleted?: boolean): Promise<Student | undefined>;
   createStudent(student: InsertStudent): Promise<Student>;
   updateStudent(id: number, student: Partial<InsertStudent>): Promise<Student | undefined>;
-  deleteStudent(id: number): Promise<boolean>;
+  deleteStudent(id: number): Promise<boolean | DeleteBlocked>;
+  getDeletedStudents(): Promise<Student[]>;
+  restoreStudent(id: number): Promise<Student | undefined>;
   importStudentsFromCSV(csvData: string): Promise<{ success: number, failed: number }>;
   
+  // Student portal operations
+  createStudentLoginCode(code: InsertStudentLoginCode): Promise<StudentLoginCode>;
+  getStudentLoginCodeByToken(tokenHash: string): Promise<StudentLoginCode | undefined>;
+  getLatestStudentLoginCode(studentId: number): Promise<StudentLoginCode | undefined>;
+  claimStudentLoginAttempt(id: number, maxAttempts: number): Promise<StudentLoginCode | undefined>;
+  consumeStudentLoginCode(id: number): Promise<boolean>;
+  getStudentPayments(sigla: string): Promise<SecretariatPayment[]>;
+  getStudentReceipts(sigla: string): Promise<StudentPortalReceipt[]>;
+  getStudentMaintenanceRequests(sigla: string): Promise<MaintenanceRequest[]>;
+  
   // Bike reservation operations
-  getBikeReservations(params: BikeReservationSearch): Promise<{ reservations: BikeReservation[], total: number }>;
+  getBikeReservations(params: BikeReservationSearch): Promise<{ reservations: BikeReservationDetail[], total: number }>;
   getBikeReservation(id: number): Promise<BikeReservation | undefined>;
   getBikeReservationByOrderId(orderId: string): Promise<BikeReservation | undefined>;
-  createBikeReservation(reservation: InsertBikeReservation): Promise<BikeReservation>;
+  createBikeReservation(reservation: InsertBikeReservation): Promise<BikeReservation | undefined>;
   updateBikeReservationStatus(id: number, status: BikeReservationStatusValue, paymentDate?: Date, approvalDate?: Date): Promise<BikeReservation | undefined>;
+  transitionBikeReservation(
+    id: number,
+    from: BikeReservationStatusValue,
+    to: BikeReservationStatusValue,
+    changes?: { paymentDate?: Date; approvalDate?: Date; notes?: string | null }
+  ): Promise<BikeReservation | undefined>;
+  updateBikeReservation(id: number, updates: UpdateBikeReservation): Promise<BikeReservation | undefined>;
+  deleteBikeReservation(id: number): Promise<boolean>;
+  getBikeReservationQueue(): Promise<BikeReservationDetail[]>;
+  getOverlappingBikeReservations(sigla: string, startsAt: Date, endsAt: Date, excludeId?: number): Promise<BikeReservation[]>;
+  moveBikeReservationToSlot(id: number, slotId: number): Promise<BikeReservation | undefined>;
+  pickUpBike(id: number, bikeId: number): Promise<BikeReservation | undefined>;
+  returnBike(id: number, needsService?: boolean): Promise<BikeReservation | undefined>;
+  
+  // Bike fleet and time slots
+  getBikes(): Promise<BikeWithUsage[]>;
+  getBike(id: number): Promise<Bike | undefined>;
+  getBikeByCode(code: string): Promise<Bike | undefined>;
+  createBike(bike: InsertBike): Promise<Bike>;
+  updateBike(id: number, updates: UpdateBike): Promise<Bike | undefined>;
+  getBikeSlots(params: BikeSlotSearch): Promise<BikeSlotAvailability[]>;
+  getBikeSlot(id: number): Promise<BikeSlotAvailability | undefined>;
+  createBikeSlot(slot: InsertBikeSlot): Promise<BikeSlot>;
+  updateBikeSlot(id: number, updates: UpdateBikeSlot): Promise<BikeSlot | undefined>;
+  deleteBikeSlot(id: number): Promise<boolean>;
   
   // Secretariat payment operations
   createSecretariatPayment(payment: InsertSecretariatPayment): Promise<SecretariatPayment>;
@@ -119,10 +247,108 @@ export interface IStorage {
   getSecretariatPaymentByOrderId(orderId: string): Promise<SecretariatPayment | undefined>;
   getSecretariatPaymentByPaymentIntentId(paymentIntentId: string): Promise<SecretariatPayment | undefined>;
   updateSecretariatPaymentStatus(orderId: string, status: string, paymentDate?: Date): Promise<SecretariatPayment | undefined>;
-  getSecretariatPayments(filters: { year?: number, search?: string, status?: string }): Promise<SecretariatPayment[]>;
+  getSecretariatPayments(filters: { dateRange?: { start: Date, end: Date }, search?: string, status?: string }): Promise<SecretariatPayment[]>;
+
+  // Payment allocation operations
+  getOutstandingServices(sigla: string): Promise<OutstandingServiceRow[]>;
+  getPaymentAllocations(secretariatPaymentId: number): Promise<PaymentAllocation[]>;
+  allocateSecretariatPayment(secretariatPaymentId: number): Promise<PaymentAllocation[]>;
+  setSecretariatPaymentIntentId(orderId: string, paymentIntentId: string): Promise<void>;
+
+  // Refund and chargeback operations
+  getPaymentRefunds(secretariatPaymentId: number): Promise<PaymentRefund[]>;
+  getPaymentRefundByProviderId(providerRefundId: string): Promise<PaymentRefund | undefined>;
+  getRefundableAmount(secretariatPaymentId: number): Promise<number>;
+  recordFailedRefund(refund: Omit<InsertPaymentRefund, "status">): Promise<PaymentRefund>;
+  applyPaymentRefund(refund: Omit<InsertPaymentRefund, "status">): Promise<PaymentRefund>;
+  reverseChargeback(refundId: number): Promise<PaymentRefund | undefined>;
+
+  // Payment reconciliation operations
+  getPaymentsToReconcile(createdAfter: Date, createdBefore: Date): Promise<SecretariatPayment[]>;
+  createReconciliationRun(trigger: ReconciliationTriggerValue): Promise<ReconciliationRun>;
+  addReconciliationItem(item: InsertReconciliationItem): Promise<ReconciliationItem>;
+  finishReconciliationRun(id: number, result: { checked: number, fixed: number, stillStuck: number, errors: number, errorMessage?: string }): Promise<ReconciliationRun>;
+  getReconciliationRuns(limit?: number): Promise<ReconciliationRun[]>;
+  getReconciliationRun(id: number): Promise<ReconciliationRunDetail | undefined>;
+
+  // Webhook inbox operations
+  recordWebhookEvent(event: InsertWebhookInboxEvent): Promise<WebhookInboxEvent | undefined>;
+  getDueWebhookEventIds(staleBefore: Date, limit?: number): Promise<number[]>;
+  claimWebhookEvent(id: number, staleBefore: Date): Promise<WebhookInboxEvent | undefined>;
+  completeWebhookEvent(id: number): Promise<void>;
+  failWebhookEvent(id: number, error: string, nextAttemptAt: Date | null): Promise<void>;
+  resetWebhookEvent(id: number): Promise<WebhookInboxEvent | undefined>;
+  getWebhookEvent(id: number): Promise<WebhookInboxEvent | undefined>;
+  getWebhookEvents(params: WebhookEventSearch): Promise<{ events: WebhookInboxEvent[], total: number }>;
+
+  // Notification outbox operations
+  enqueueNotification(notification: InsertNotification): Promise<Notification | undefined>;
+  getDueNotificationIds(staleBefore: Date, limit?: number): Promise<number[]>;
+  claimNotification(id: number, staleBefore: Date): Promise<Notification | undefined>;
+  completeNotification(id: number): Promise<void>;
+  failNotification(id: number, error: string, nextAttemptAt: Date | null): Promise<void>;
+  resetNotification(id: number): Promise<Notification | undefined>;
+  getNotification(id: number): Promise<Notification | undefined>;
+  getNotifications(params: NotificationSearch): Promise<{ notifications: Notification[], total: number }>;
+
+  // Payment reminder operations
+  getSiglasWithUnpaidServicesBefore(before: Date): Promise<string[]>;
+  getPaymentReminders(sigla: string): Promise<PaymentReminderWithStatus[]>;
+  createPaymentReminder(reminder: InsertPaymentReminder): Promise<PaymentReminder>;
+
+  // Student ledger operations
+  getStudentLedger(sigla: string): Promise<StudentLedger>;
+  addLedgerAdjustment(sigla: string, adjustment: InsertLedgerAdjustment): Promise<StudentLedgerEntry>;
+
+  // Audit log operations (append-only)
+  getAuditLog(params: AuditLogSearch): Promise<{ entries: AuditLogEntry[], total: number }>;
+
+  // Service catalog operations
+  getServiceCatalog(includeInactive?: boolean): Promise<ServiceCatalogItem[]>;
+  getServiceCatalogItem(code: string): Promise<ServiceCatalogItem | undefined>;
+  createServiceCatalogItem(item: InsertServiceCatalogItem): Promise<ServiceCatalogItem>;
+  updateServiceCatalogItem(id: number, item: UpdateServiceCatalogItem): Promise<ServiceCatalogItem | undefined>;
+
+  // Price list operations
+  getPriceList(serviceType?: string): Promise<PriceListEntry[]>;
+  getLatestPriceListEntry(serviceType: string): Promise<PriceListEntry | undefined>;
+  getEffectivePrice(serviceType: string, date: Date): Promise<number | undefined>;
+  getEffectivePrices(date: Date): Promise<Record<string, number>>;
+  addPriceListEntry(entry: InsertPriceListEntry): Promise<PriceListEntry>;
+  deletePriceListEntry(id: number): Promise<boolean>;
+  
+  // Trash
+  purgeDeletedRows(deletedBefore: Date): Promise<TrashPurgeResult>;
+  
+  // Referential integrity
+  getOrphanReport(): Promise<OrphanReport>;
+  getMoneyConversionReport(): Promise<MoneyConversionCheck[]>;
 }
 
 export class DatabaseStorage implements IStorage {
+  // Audit: registra lo stato prima/dopo di ogni modifica con attore e origine presi dal contesto.
+  // Va scritto nella transazione della modifica: se il log non si scrive, la modifica viene annullata
+  private async recordAudit(
+    tx: DbTransaction,
+    entityType: AuditEntityValue,
+    entityId: string | number,
+    action: AuditActionValue,
+    before: unknown,
+    after: unknown
+  ): Promise<void> {
+    const context = getAuditContext();
+    await tx.insert(auditLog).values({
+      entityType,
+      entityId: String(entityId),
+      action,
+      before: before ?? null,
+      after: after ?? null,
+      actorId: context.actorId ?? null,
+      actorName: context.actorName ?? null,
+      source: context.source,
+    });
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -134,56 +360,85 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(users.username);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
-      .insert(users)
-      .values(insertUser)
-      .returning();
-    return user;
+    return db.transaction(async (tx) => {
+      const [user] = await tx
+        .insert(users)
+        .values(insertUser)
+        .returning();
+      await this.recordAudit(tx, AuditEntity.USER, user.id, AuditAction.CREATE, null, redactUser(user));
+      return user;
+    });
+  }
+
+  async updateUser(id: number, updates: Partial<InsertUser> & { lastLoginAt?: Date }): Promise<User | undefined> {
+    const before = await this.getUser(id);
+    return db.transaction(async (tx) => {
+      const [user] = await tx
+        .update(users)
+        .set(updates)
+        .where(eq(users.id, id))
+        .returning();
+      // L'aggiornamento dell'ultimo accesso non è una modifica dei dati
+      const isLoginOnly = Object.keys(updates).every(key => key === "lastLoginAt");
+      if (user && !isLoginOnly) {
+        await this.recordAudit(tx, AuditEntity.USER, id, AuditAction.UPDATE, before && redactUser(before), redactUser(user));
+      }
+      return user || undefined;
+    });
   }
   
   // Maintenance request operations
   async getMaintenanceRequests(params: MaintenanceRequestSearch): Promise<{ requests: MaintenanceRequest[], total: number }> {
-    // Start with a basic query
-    let query = db.select().from(maintenanceRequests);
+    // Le richieste nel cestino non compaiono mai negli elenchi
+    const conditions = [isNull(maintenanceRequests.deletedAt)];
     
     // Apply filters
     if (params.query) {
-      query = query.where(
-        like(maintenanceRequests.requesterName, `%${params.query}%`) || 
-        like(maintenanceRequests.roomNumber, `%${params.query}%`) ||
+      conditions.push(or(
+        like(maintenanceRequests.requesterName, `%${params.query}%`),
+        like(maintenanceRequests.roomNumber, `%${params.query}%`),
         like(maintenanceRequests.description, `%${params.query}%`)
-      );
+      )!);
     }
     
     if (params.status && params.status !== 'all') {
-      query = query.where(eq(maintenanceRequests.status, params.status));
+      conditions.push(eq(maintenanceRequests.status, params.status));
     }
     
     if (params.priority && params.priority !== 'all') {
-      query = query.where(eq(maintenanceRequests.priority, params.priority));
+      conditions.push(eq(maintenanceRequests.priority, params.priority));
     }
     
     if (params.startDate) {
       const startDate = new Date(params.startDate);
-      query = query.where(gte(maintenanceRequests.timestamp, startDate));
+      conditions.push(gte(maintenanceRequests.timestamp, startDate));
     }
     
     if (params.endDate) {
       const endDate = new Date(params.endDate);
-      query = query.where(lte(maintenanceRequests.timestamp, endDate));
+      conditions.push(lte(maintenanceRequests.timestamp, endDate));
     }
     
     // Get the total count
-    const countQuery = db.select({ count: count() }).from(maintenanceRequests);
-    const [{ count: total }] = await countQuery;
+    const [{ count: total }] = await db
+      .select({ count: count() })
+      .from(maintenanceRequests)
+      .where(and(...conditions));
     
     // Apply pagination and sorting
     const page = params.page || 1;
     const limit = params.limit || 10;
     const offset = (page - 1) * limit;
     
-    const resultRequests = await query
+    const resultRequests = await db
+      .select()
+      .from(maintenanceRequests)
+      .where(and(...conditions))
       .orderBy(desc(maintenanceRequests.timestamp))
       .limit(limit)
       .offset(offset);
@@ -195,16 +450,22 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getMaintenanceRequest(id: number): Promise<MaintenanceRequest | undefined> {
-    const [request] = await db.select().from(maintenanceRequests).where(eq(maintenanceRequests.id, id));
+    const [request] = await db
+      .select()
+      .from(maintenanceRequests)
+      .where(and(eq(maintenanceRequests.id, id), isNull(maintenanceRequests.deletedAt)));
     return request || undefined;
   }
 
   async createMaintenanceRequest(request: InsertMaintenanceRequest): Promise<MaintenanceRequest> {
-    const [newRequest] = await db
-      .insert(maintenanceRequests)
-      .values(request)
-      .returning();
-    return newRequest;
+    return db.transaction(async (tx) => {
+      const [newRequest] = await tx
+        .insert(maintenanceRequests)
+        .values(request)
+        .returning();
+      await this.recordAudit(tx, AuditEntity.MAINTENANCE_REQUEST, newRequest.id, AuditAction.CREATE, null, newRequest);
+      return newRequest;
+    });
   }
 
   async updateMaintenanceRequest(id: number, updates: Partial<InsertMaintenanceRequest>): Promise<MaintenanceRequest | undefined> {
@@ -214,20 +475,64 @@ export class DatabaseStorage implements IStorage {
       processedUpdates.completedAt = new Date();
     }
     
-    const [updatedRequest] = await db
-      .update(maintenanceRequests)
-      .set(processedUpdates)
-      .where(eq(maintenanceRequests.id, id))
-      .returning();
+    const before = await this.getMaintenanceRequest(id);
+    return db.transaction(async (tx) => {
+      const [updatedRequest] = await tx
+        .update(maintenanceRequests)
+        .set(processedUpdates)
+        .where(and(eq(maintenanceRequests.id, id), isNull(maintenanceRequests.deletedAt)))
+        .returning();
       
-    return updatedRequest;
+      if (updatedRequest) {
+        await this.recordAudit(tx, AuditEntity.MAINTENANCE_REQUEST, id, AuditAction.UPDATE, before, updatedRequest);
+      }
+      return updatedRequest;
+    });
   }
 
+  // Sposta la richiesta nel cestino
   async deleteMaintenanceRequest(id: number): Promise<boolean> {
-    const result = await db
-      .delete(maintenanceRequests)
-      .where(eq(maintenanceRequests.id, id));
-    return result.rowCount > 0;
+    const before = await this.getMaintenanceRequest(id);
+    if (!before) return false;
+    
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .update(maintenanceRequests)
+        .set({ deletedAt: new Date(), deletedBy: deletedByFromContext() })
+        .where(and(eq(maintenanceRequests.id, id), isNull(maintenanceRequests.deletedAt)))
+        .returning();
+      if (deleted) {
+        await this.recordAudit(tx, AuditEntity.MAINTENANCE_REQUEST, id, AuditAction.DELETE, before, deleted);
+      }
+      return Boolean(deleted);
+    });
+  }
+
+  async getDeletedMaintenanceRequests(): Promise<MaintenanceRequest[]> {
+    return db
+      .select()
+      .from(maintenanceRequests)
+      .where(isNotNull(maintenanceRequests.deletedAt))
+      .orderBy(desc(maintenanceRequests.deletedAt));
+  }
+
+  async restoreMaintenanceRequest(id: number): Promise<MaintenanceRequest | undefined> {
+    const [before] = await db
+      .select()
+      .from(maintenanceRequests)
+      .where(and(eq(maintenanceRequests.id, id), isNotNull(maintenanceRequests.deletedAt)));
+    if (!before) return undefined;
+    
+    return db.transaction(async (tx) => {
+      const [restored] = await tx
+        .update(maintenanceRequests)
+        .set({ deletedAt: null, deletedBy: null })
+        .where(eq(maintenanceRequests.id, id))
+        .returning();
+      await this.recordAudit(tx, AuditEntity.MAINTENANCE_REQUEST, id, AuditAction.RESTORE, before, restored);
+      return restored;
+    });
+
   }
 
   async getMaintenanceMetrics(): Promise<{
@@ -240,31 +545,32 @@ export class DatabaseStorage implements IStorage {
     // Get total requests count
     const [{ count: totalRequests }] = await db
       .select({ count: count() })
-      .from(maintenanceRequests);
+      .from(maintenanceRequests)
+      .where(isNull(maintenanceRequests.deletedAt));
     
     // Get pending requests count
     const [{ count: pendingRequests }] = await db
       .select({ count: count() })
       .from(maintenanceRequests)
-      .where(eq(maintenanceRequests.status, MaintenanceRequestStatus.PENDING));
+      .where(and(eq(maintenanceRequests.status, MaintenanceRequestStatus.PENDING), isNull(maintenanceRequests.deletedAt)));
     
     // Get in progress requests count
     const [{ count: inProgressRequests }] = await db
       .select({ count: count() })
       .from(maintenanceRequests)
-      .where(eq(maintenanceRequests.status, MaintenanceRequestStatus.IN_PROGRESS));
+      .where(and(eq(maintenanceRequests.status, MaintenanceRequestStatus.IN_PROGRESS), isNull(maintenanceRequests.deletedAt)));
     
     // Get completed requests count
     const [{ count: completedRequests }] = await db
       .select({ count: count() })
       .from(maintenanceRequests)
-      .where(eq(maintenanceRequests.status, MaintenanceRequestStatus.COMPLETED));
+      .where(and(eq(maintenanceRequests.status, MaintenanceRequestStatus.COMPLETED), isNull(maintenanceRequests.deletedAt)));
     
     // Get urgent requests count
     const [{ count: urgentRequests }] = await db
       .select({ count: count() })
       .from(maintenanceRequests)
-      .where(eq(maintenanceRequests.priority, MaintenanceRequestPriority.URGENT));
+      .where(and(eq(maintenanceRequests.priority, MaintenanceRequestPriority.URGENT), isNull(maintenanceRequests.deletedAt)));
     
     return {
       totalRequests: Number(totalRequests),
@@ -279,7 +585,7 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(maintenanceRequests)
-      .where(eq(maintenanceRequests.status, MaintenanceRequestStatus.PENDING))
+      .where(and(eq(maintenanceRequests.status, MaintenanceRequestStatus.PENDING), isNull(maintenanceRequests.deletedAt)))
       .orderBy(desc(maintenanceRequests.timestamp));
   }
 
@@ -287,24 +593,29 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(maintenanceRequests)
+      .where(isNull(maintenanceRequests.deletedAt))
       .orderBy(desc(maintenanceRequests.timestamp))
       .limit(limit);
   }
 
   // PayPal operations
   async storePaypalOrderInfo(orderId: string, orderInfo: any): Promise<void> {
-    // Usiamo il primo ID servizio dall'array se disponibile, altrimenti il serviceId
-    const serviceId = orderInfo.serviceIds && Array.isArray(orderInfo.serviceIds) && orderInfo.serviceIds.length > 0 
-      ? orderInfo.serviceIds[0] 
-      : orderInfo.serviceId || 0;
+    // Il servizio è collegato solo se l'ordine ne paga uno; con più servizi restano in paypal_response
+    const serviceIds: number[] = Array.isArray(orderInfo.serviceIds)
+      ? orderInfo.serviceIds.filter((id: number) => id > 0)
+      : orderInfo.serviceId > 0 ? [orderInfo.serviceId] : [];
+    const serviceId = serviceIds.length === 1 ? serviceIds[0] : null;
       
-    await db.insert(paypalOrders).values({
-      id: orderId,
-      serviceId: serviceId,
-      amount: orderInfo.amount,
-      currency: orderInfo.currency || "EUR",
-      status: orderInfo.status,
-      paypalResponse: JSON.stringify(orderInfo),
+    await db.transaction(async (tx) => {
+      const [order] = await tx.insert(paypalOrders).values({
+        id: orderId,
+        serviceId: serviceId,
+        amount: orderInfo.amount,
+        currency: orderInfo.currency || "EUR",
+        status: orderInfo.status,
+        paypalResponse: JSON.stringify(orderInfo),
+      }).returning();
+      await this.recordAudit(tx, AuditEntity.PAYPAL_ORDER, orderId, AuditAction.CREATE, null, order);
     });
   }
 
@@ -354,10 +665,17 @@ export class DatabaseStorage implements IStorage {
       dbUpdates.paypalResponse = JSON.stringify(updatedPaypalResponse);
     }
     
-    await db
-      .update(paypalOrders)
-      .set(dbUpdates)
-      .where(eq(paypalOrders.id, orderId));
+    await db.transaction(async (tx) => {
+      const [updatedOrder] = await tx
+        .update(paypalOrders)
+        .set(dbUpdates)
+        .where(eq(paypalOrders.id, orderId))
+        .returning();
+      if (updatedOrder) {
+        const { paypalResponseObj: _parsed, ...before } = orderInfo || {};
+        await this.recordAudit(tx, AuditEntity.PAYPAL_ORDER, orderId, AuditAction.UPDATE, orderInfo ? before : null, updatedOrder);
+      }
+    });
   }
 
   async getPaypalOrders(params: PaypalOrderSearch): Promise<{ orders: PaypalOrder[], total: number }> {
@@ -401,12 +719,15 @@ export class DatabaseStorage implements IStorage {
 
   // Receipt operations
   async createReceipt(receipt: Partial<InsertReceipt>): Promise<number> {
-    const [newReceipt] = await db
-      .insert(receipts)
-      .values(receipt)
-      .returning();
-    
-    return newReceipt.id;
+    return db.transaction(async (tx) => {
+      const [newReceipt] = await tx
+        .insert(receipts)
+        .values(receipt)
+        .returning();
+      
+      await this.recordAudit(tx, AuditEntity.RECEIPT, newReceipt.id, AuditAction.CREATE, null, newReceipt);
+      return newReceipt.id;
+    });
   }
 
   async getReceipt(id: number): Promise<Receipt | undefined> {
@@ -415,18 +736,29 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getReceiptByServiceId(serviceId: number): Promise<Receipt | undefined> {
-    const [receipt] = await db.select().from(receipts).where(eq(receipts.serviceId, serviceId));
+    // Le ricevute annullate da un rimborso non valgono più per il servizio
+    const [receipt] = await db
+      .select()
+      .from(receipts)
+      .where(and(eq(receipts.serviceId, serviceId), isNull(receipts.voidedAt)));
     return receipt || undefined;
   }
   
   async updateReceipt(id: number, updates: Partial<InsertReceipt>): Promise<Receipt | undefined> {
-    const [updatedReceipt] = await db
-      .update(receipts)
-      .set(updates)
-      .where(eq(receipts.id, id))
-      .returning();
-    
-    return updatedReceipt || undefined;
+    const before = await this.getReceipt(id);
+    return db.transaction(async (tx) => {
+      const [updatedReceipt] = await tx
+        .update(receipts)
+        .set(updates)
+        .where(eq(receipts.id, id))
+        .returning();
+      
+      if (updatedReceipt) {
+        await this.recordAudit(tx, AuditEntity.RECEIPT, id, AuditAction.UPDATE, before, updatedReceipt);
+      }
+      return updatedReceipt || undefined;
+    });
+
   }
 
   async getReceipts(params: ReceiptSearch): Promise<{ receipts: Receipt[], total: number }> {
@@ -728,8 +1060,8 @@ export class DatabaseStorage implements IStorage {
 
   // Service operations
   async getServices(params: ServiceSearch): Promise<{ services: ServiceWithStudent[], total: number }> {
-    // Costruisci le condizioni di query
-    const whereConditions = [];
+    // Costruisci le condizioni di query (i servizi nel cestino sono sempre esclusi)
+    const whereConditions = [isNull(services.deletedAt)];
     
     // Filtro per sigla esatta (prioritario rispetto al filtro query)
     if (params.sigla) {
@@ -851,7 +1183,7 @@ export class DatabaseStorage implements IStorage {
     })
     .from(services)
     .leftJoin(students, eq(services.sigla, students.sigla))
-    .where(eq(services.id, id));
+    .where(and(eq(services.id, id), isNull(services.deletedAt)));
     
     if (!result || result.length === 0) {
       return undefined;
@@ -862,7 +1194,7 @@ export class DatabaseStorage implements IStorage {
       ...result[0].service,
       // CRITICAL FIX: Ensure amount is always returned as number, not string
       amount: Number(result[0].service.amount),
-      student: result[0].student.firstName ? {
+      student: result[0].student?.firstName ? {
         firstName: result[0].student.firstName,
         lastName: result[0].student.lastName,
         email: result[0].student.email,
@@ -881,10 +1213,15 @@ export class DatabaseStorage implements IStorage {
     console.log("Creating service with processed data:", processedData);
     
     try {
-      const [service] = await db
-        .insert(services)
-        .values(processedData)
-        .returning();
+      const service = await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(services)
+          .values({ ...processedData, studentId: await findStudentId(tx, processedData.sigla) })
+          .returning();
+        await insertLedgerEntries(tx, serviceLedgerEntries(null, created));
+        await this.recordAudit(tx, AuditEntity.SERVICE, created.id, AuditAction.CREATE, null, created);
+        return created;
+      });
       
       console.log("Service created successfully:", service);
       return service;
@@ -905,11 +1242,24 @@ export class DatabaseStorage implements IStorage {
     console.log("Updating service with id:", id, "with data:", processedUpdates);
     
     try {
-      const [updatedService] = await db
-        .update(services)
-        .set(processedUpdates)
-        .where(eq(services.id, id))
-        .returning();
+      const [before] = await db.select().from(services).where(and(eq(services.id, id), isNull(services.deletedAt)));
+      if (!before) return undefined;
+      const updatedService = await db.transaction(async (tx) => {
+        if (updates.sigla !== undefined) {
+          processedUpdates.studentId = await findStudentId(tx, updates.sigla);
+        }
+        const [updated] = await tx
+          .update(services)
+          .set(processedUpdates)
+          .where(and(eq(services.id, id), isNull(services.deletedAt)))
+          .returning();
+        if (updated) {
+          const allocated = await getAllocatedAmount(tx, id);
+          await insertLedgerEntries(tx, serviceLedgerEntries(before, updated, allocated));
+          await this.recordAudit(tx, AuditEntity.SERVICE, id, AuditAction.UPDATE, before, updated);
+        }
+        return updated;
+      });
         
       console.log("Service updated successfully:", updatedService);
       return updatedService;
@@ -919,20 +1269,75 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async deleteService(id: number): Promise<boolean> {
-    const result = await db
-      .delete(services)
-      .where(eq(services.id, id));
-    return result.rowCount > 0;
+  // Sposta il servizio nel cestino: il conto dello studente lo considera annullato
+  async deleteService(id: number): Promise<boolean | DeleteBlocked> {
+    const [before] = await db.select().from(services).where(and(eq(services.id, id), isNull(services.deletedAt)));
+    if (!before) return false;
+    
+    // Le ricevute sono documenti fiscali: vanno mantenute insieme al servizio
+    const [{ value: receiptCount }] = await db
+      .select({ value: count() })
+      .from(receipts)
+      .where(eq(receipts.serviceId, id));
+    if (Number(receiptCount) > 0) {
+      return {
+        error: "Il servizio ha ricevute emesse e non può essere eliminato",
+        status: 409,
+        references: { receipts: Number(receiptCount) },
+      };
+    }
+    
+    const deleted = await db.transaction(async (tx) => {
+      const [trashed] = await tx
+        .update(services)
+        .set({ deletedAt: new Date(), deletedBy: deletedByFromContext() })
+        .where(and(eq(services.id, id), isNull(services.deletedAt)))
+        .returning();
+      if (trashed) {
+        // Le quote dei pagamenti online restano legate al servizio fino all'eliminazione
+        // definitiva (così il ripristino lo ritrova pagato); sul conto tornano subito a credito
+        const allocated = await getAllocatedAmount(tx, id);
+        await insertLedgerEntries(tx, serviceLedgerEntries(before, null, allocated));
+        await this.recordAudit(tx, AuditEntity.SERVICE, id, AuditAction.DELETE, before, trashed);
+      }
+      return trashed;
+    });
+    return Boolean(deleted);
+  }
+
+  async getDeletedServices(): Promise<Service[]> {
+    return db
+      .select()
+      .from(services)
+      .where(isNotNull(services.deletedAt))
+      .orderBy(desc(services.deletedAt));
+  }
+
+  async restoreService(id: number): Promise<Service | undefined> {
+    const [before] = await db.select().from(services).where(and(eq(services.id, id), isNotNull(services.deletedAt)));
+    if (!before) return undefined;
+    
+    const restored = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(services)
+        .set({ deletedAt: null, deletedBy: null, studentId: await findStudentId(tx, before.sigla) })
+        .where(eq(services.id, id))
+        .returning();
+      // Di nuovo a conto: addebito e quota pagata come se il servizio fosse appena creato, ma ad oggi
+      const allocated = await getAllocatedAmount(tx, id);
+      await insertLedgerEntries(tx, serviceLedgerEntries(null, updated, allocated, true));
+      await this.recordAudit(tx, AuditEntity.SERVICE, id, AuditAction.RESTORE, before, updated);
+      return updated;
+    });
+    return restored;
+
   }
 
   // Dashboard operations
   async getServiceMetrics(dateFilter?: { startDate?: Date, endDate?: Date, includeArchived?: boolean }): Promise<{
     totalServices: number;
     pendingPayments: number;
-    siglaturaCount: number;
-    happyHourCount: number;
-    repairCount: number;
+    countsByType: Record<string, number>;
     totalAmount: number;
     pendingAmount: number;
   }> {
@@ -959,8 +1364,8 @@ export class DatabaseStorage implements IStorage {
     console.log("Filter endDate:", dateFilter?.endDate);
     console.log("Include archived:", dateFilter?.includeArchived);
     
-    // Definiamo le condizioni base combinando data e archivio
-    const allConditions = [];
+    // Definiamo le condizioni base combinando data e archivio, senza i servizi nel cestino
+    const allConditions = [isNull(services.deletedAt)];
     
     // Esclude dati archiviati di default
     if (!dateFilter?.includeArchived) {
@@ -1001,28 +1406,27 @@ export class DatabaseStorage implements IStorage {
       .from(services)
       .where(pendingFilter);
     
-    // Get service type counts
-    const siglaturaFilter = getFilter(eq(services.type, ServiceType.SIGLATURA));
-    const [{ count: siglaturaCount }] = await db
-      .select({ count: count() })
-      .from(services)
-      .where(siglaturaFilter);
-    
-    const happyHourFilter = getFilter(eq(services.type, ServiceType.HAPPY_HOUR));
-    const [{ count: happyHourCount }] = await db
-      .select({ count: count() })
-      .from(services)
-      .where(happyHourFilter);
+    // Get service type counts: ogni tipo attivo del catalogo compare, anche a zero
+    const catalog = await this.getServiceCatalog();
+    const countsByType: Record<string, number> = {};
+    for (const item of catalog) {
+      countsByType[item.code] = 0;
+    }
     
-    const repairFilter = getFilter(eq(services.type, ServiceType.RIPARAZIONE));
-    const [{ count: repairCount }] = await db
-      .select({ count: count() })
-      .from(services)
-      .where(repairFilter);
+    let typeCountsQuery = db
+      .select({ type: services.type, count: count() })
+      .from(services);
+    if (allConditions.length > 0) {
+      typeCountsQuery = typeCountsQuery.where(allConditions.length === 1 ? allConditions[0] : and(...allConditions)) as typeof typeCountsQuery;
+    }
+    const typeCounts = await typeCountsQuery.groupBy(services.type);
+    for (const row of typeCounts) {
+      countsByType[row.type] = Number(row.count);
+    }
     
     // Get total amount
     let totalAmountQuery = db
-      .select({ sum: sum(services.amount) })
+      .select({ sum: sum(services.amount).mapWith(services.amount) })
       .from(services);
     if (allConditions.length > 0) {
       totalAmountQuery = totalAmountQuery.where(allConditions.length === 1 ? allConditions[0] : and(...allConditions));
@@ -1033,7 +1437,7 @@ export class DatabaseStorage implements IStorage {
     // Get pending amount
     const pendingAmountFilter = getFilter(eq(services.status, PaymentStatus.UNPAID));
     const pendingResult = await db
-      .select({ sum: sum(services.amount) })
+      .select({ sum: sum(services.amount).mapWith(services.amount) })
       .from(services)
       .where(pendingAmountFilter);
     const pendingAmount = pendingResult[0]?.sum || 0;
@@ -1041,9 +1445,7 @@ export class DatabaseStorage implements IStorage {
     return {
       totalServices: Number(totalServices),
       pendingPayments: Number(pendingPayments),
-      siglaturaCount: Number(siglaturaCount),
-      happyHourCount: Number(happyHourCount),
-      repairCount: Number(repairCount),
+      countsByType,
       totalAmount: Number(totalAmount),
       pendingAmount: Number(pendingAmount)
     };
@@ -1051,7 +1453,7 @@ export class DatabaseStorage implements IStorage {
 
   async getPendingPayments(dateFilter?: { startDate?: Date, endDate?: Date, includeArchived?: boolean }): Promise<(Service & { student?: { firstName: string, lastName: string } })[]> {
     // Build the conditions array
-    const conditions = [eq(services.status, PaymentStatus.UNPAID)];
+    const conditions = [eq(services.status, PaymentStatus.UNPAID), isNull(services.deletedAt)];
     
     // Exclude archived data by default
     if (!dateFilter?.includeArchived) {
@@ -1095,7 +1497,7 @@ export class DatabaseStorage implements IStorage {
 
   async getRecentServices(limit: number, dateFilter?: { startDate?: Date, endDate?: Date, includeArchived?: boolean }): Promise<(Service & { student?: { firstName: string, lastName: string } })[]> {
     // Build the conditions array
-    const conditions = [];
+    const conditions = [isNull(services.deletedAt)];
     
     // Exclude archived data by default
     if (!dateFilter?.includeArchived) {
@@ -1142,196 +1544,61 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  // Initialize sample data - only used for first setup
-  async initializeSampleData(): Promise<void> {
-    // Check if there's any data already
-    const [countResult] = await db.select({ value: count() }).from(services);
-    const countValue = Number(countResult.value || 0);
-    
-    // Only seed if the database is empty
-    if (countValue === 0) {
-      // Add admin user
-      await this.createUser({
-        username: "admin",
-        password: "admin"
-      });
-
-      // Sample services data
-      const sampleServices = [
-        {
-          date: new Date("2025-05-05"),
-          sigla: "145",
-          pieces: 1,
-          type: ServiceType.SIGLATURA,
-          amount: 0.50,
-          status: PaymentStatus.UNPAID,
-          notes: ""
-        },
-        {
-          date: new Date("2025-04-29"),
-          sigla: "177",
-          pieces: 1,
-          type: ServiceType.SIGLATURA,
-          amount: 0.50,
-          status: PaymentStatus.PAID,
-          notes: ""
-        },
-        {
-          date: new Date("2025-04-11"),
-          sigla: "157",
-          pieces: 1,
-          type: ServiceType.SIGLATURA,
-          amount: 0.50,
-          status: PaymentStatus.PAID,
-          notes: ""
-        },
-        {
-          date: new Date("2025-04-09"),
-          sigla: "140",
-          pieces: 1,
-          type: ServiceType.HAPPY_HOUR,
-          amount: 1.00,
-          status: PaymentStatus.PAID,
-          notes: ""
-        },
-        {
-          date: new Date("2025-04-07"),
-          sigla: "141",
-          pieces: 1,
-          type: ServiceType.RIPARAZIONE,
-          amount: 4.00,
-          status: PaymentStatus.PAID,
-          notes: ""
-        },
-        {
-          date: new Date("2025-04-07"),
-          sigla: "139",
-          pieces: 1,
-          type: ServiceType.SIGLATURA,
-          amount: 0.50,
-          status: PaymentStatus.PAID,
-          notes: ""
-        },
-        {
-          date: new Date("2025-04-04"),
-          sigla: "135",
-          pieces: 1,
-          type: ServiceType.SIGLATURA,
-          amount: 0.50,
-          status: PaymentStatus.PAID,
-          notes: ""
-        },
-        {
-          date: new Date("2025-04-04"),
-          sigla: "164",
-          pieces: 1,
-          type: ServiceType.HAPPY_HOUR,
-          amount: 1.00,
-          status: PaymentStatus.PAID,
-          notes: ""
-        },
-        {
-          date: new Date("2025-04-01"),
-          sigla: "28",
-          pieces: 1,
-          type: ServiceType.SIGLATURA,
-          amount: 1.00,
-          status: PaymentStatus.PAID,
-          notes: ""
-        },
-        {
-          date: new Date("2025-04-08"),
-          sigla: "142",
-          pieces: 1,
-          type: ServiceType.SIGLATURA,
-          amount: 0.50,
-          status: PaymentStatus.PAID,
-          notes: ""
-        },
-        {
-          date: new Date("2025-04-08"),
-          sigla: "177",
-          pieces: 1,
-          type: ServiceType.SIGLATURA,
-          amount: 0.50,
-          status: PaymentStatus.PAID,
-          notes: ""
-        }
-      ];
-
-      // Add sample services
-      for (const service of sampleServices) {
-        await this.createService(service);
-      }
+  // Prima installazione: crea l'amministratore se non esiste nessun utente.
+  // Schema, catalogo e listino iniziali arrivano dalle migrazioni (server/migrations.ts)
+  async ensureInitialAdmin(): Promise<boolean> {
+    const [{ value }] = await db.select({ value: count() }).from(users);
+    if (Number(value) > 0) return false;
+    
+    // In produzione nessuna password predefinita: senza ADMIN_INITIAL_PASSWORD il server non parte
+    const password = process.env.ADMIN_INITIAL_PASSWORD;
+    if (!password && process.env.NODE_ENV === "production") {
+      throw new Error("ADMIN_INITIAL_PASSWORD must be set in production to create the initial admin user");
     }
     
-    // Check if we have any existing students
-    const { students } = await this.getStudents({
-      page: 1,
-      limit: 1
+    // La password iniziale va cambiata al primo accesso
+    await this.createUser({
+      username: "admin",
+      password: await hashPassword(password || "admin"),
+      role: UserRole.ADMIN,
+      displayName: "Amministratore"
     });
-    
-    if (students.length === 0) {
-      console.log("Initializing students data");
-      
-      // CSV data di esempio
-      const csvData = `NOME,COGNOME,SIGLA
-ROBERTO,FERULANO,26
-DOMENICO,PONTARI,41
-MARCO,VANZINI,57
-ANTONINO,GENCO,87
-GIUSEPPE,ALASTRA,90
-PAOLO,ARDOLINO,91
-GIACOMO,BONGIOVANNI,92
-FABIO,BOSCO,93
-GIOELE,CALUISI,95
-GIUSEPPE,DI MATTEO,98
-KEVIN,ALUTHDURAG,102
-MATTEO,CONVERTINO,103
-SERGIO,CASTIGLIONE,105
-ANDREA,GRIMAUDO,106
-ANTONINO,ALESTRA,107
-SERGIO,FUMAGALLI,108
-NICOLO,BALDARI,109
-PIETRO,FORNAI,110
-EDOARDO,CACCIAPUOTI,111
-VIENCENZO,CAPALBO,114
-ANTONIO,CANGIANO,115
-MANUEL,LAMMOGLIA,116
-PIETRO,ADRAGNA,117
-GIUSEPPE,PALMIERI,119`;
-      
-      await this.importStudentsFromCSV(csvData);
-    }
+    return true;
   }
+
   // Student operations
   async getStudents(params: StudentSearch): Promise<{ students: Student[], total: number }> {
-    // Start with a basic query
-    let query = db.select().from(students);
+    // Gli studenti nel cestino non compaiono negli elenchi
+    const conditions = [isNull(students.deletedAt)];
     
     // Apply filters
     if (params.sigla) {
-      query = query.where(like(students.sigla, `%${params.sigla}%`));
+      conditions.push(like(students.sigla, `%${params.sigla}%`));
     }
     
     if (params.firstName) {
-      query = query.where(like(students.firstName, `%${params.firstName}%`));
+      conditions.push(like(students.firstName, `%${params.firstName}%`));
     }
     
     if (params.lastName) {
-      query = query.where(like(students.lastName, `%${params.lastName}%`));
+      conditions.push(like(students.lastName, `%${params.lastName}%`));
     }
     
     // Get the total count
-    const countQuery = db.select({ count: count() }).from(students);
-    const [{ count: total }] = await countQuery;
+    const [{ count: total }] = await db
+      .select({ count: count() })
+      .from(students)
+      .where(and(...conditions));
     
     // Apply pagination and sorting
     const page = params.page || 1;
     const limit = params.limit || 10;
     const offset = (page - 1) * limit;
     
-    const resultStudents = await query
+    const resultStudents = await db
+      .select()
+      .from(students)
+      .where(and(...conditions))
       .orderBy(students.sigla)
       .limit(limit)
       .offset(offset);
@@ -1343,38 +1610,121 @@ GIUSEPPE,PALMIERI,119`;
   }
 
   async getStudent(id: number): Promise<Student | undefined> {
-    const [student] = await db.select().from(students).where(eq(students.id, id));
+    const [student] = await db.select().from(students).where(and(eq(students.id, id), isNull(students.deletedAt)));
     return student || undefined;
   }
 
-  async getStudentBySigla(sigla: string): Promise<Student | undefined> {
-    const [student] = await db.select().from(students).where(eq(students.sigla, sigla));
+  // includeDeleted: anche lo studente nel cestino, che continua a occupare la sigla
+  async getStudentBySigla(sigla: string, includeDeleted = false): Promise<Student | undefined> {
+    const [student] = await db
+      .select()
+      .from(students)
+      .where(includeDeleted ? eq(students.sigla, sigla) : and(eq(students.sigla, sigla), isNull(students.deletedAt)));
     return student || undefined;
   }
 
   async createStudent(student: InsertStudent): Promise<Student> {
-    const [newStudent] = await db
-      .insert(students)
-      .values(student)
-      .returning();
+    const newStudent = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(students)
+        .values(student)
+        .returning();
+      // I servizi registrati prima dell'anagrafica vengono collegati al nuovo studente
+      await tx
+        .update(services)
+        .set({ studentId: created.id })
+        .where(and(eq(services.sigla, created.sigla), isNull(services.studentId)));
+      await this.recordAudit(tx, AuditEntity.STUDENT, created.id, AuditAction.CREATE, null, created);
+      return created;
+    });
     return newStudent;
   }
 
   async updateStudent(id: number, updates: Partial<InsertStudent>): Promise<Student | undefined> {
-    const [updatedStudent] = await db
-      .update(students)
-      .set(updates)
-      .where(eq(students.id, id))
-      .returning();
+    const before = await this.getStudent(id);
+    const updatedStudent = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(students)
+        .set(updates)
+        .where(and(eq(students.id, id), isNull(students.deletedAt)))
+        .returning();
       
+      // Cambio di sigla: servizi e conto dello studente la seguono
+      if (before && updated && updated.sigla !== before.sigla) {
+        await tx
+          .update(services)
+          .set({ sigla: updated.sigla })
+          .where(eq(services.studentId, id));
+        await tx
+          .update(studentLedger)
+          .set({ sigla: updated.sigla })
+          .where(eq(studentLedger.sigla, before.sigla));
+        await tx
+          .update(services)
+          .set({ studentId: id })
+          .where(and(eq(services.sigla, updated.sigla), isNull(services.studentId)));
+      }
+      if (updated) {
+        await this.recordAudit(tx, AuditEntity.STUDENT, id, AuditAction.UPDATE, before, updated);
+      }
+      return updated;
+    });
     return updatedStudent;
   }
 
-  async deleteStudent(id: number): Promise<boolean> {
-    const result = await db
-      .delete(students)
-      .where(eq(students.id, id));
-    return result.rowCount > 0;
+  // Sposta lo studente nel cestino
+  async deleteStudent(id: number): Promise<boolean | DeleteBlocked> {
+    const before = await this.getStudent(id);
+    if (!before) return false;
+    
+    // I servizi già nel cestino non bloccano: lo studente resta finché non vengono eliminati definitivamente
+    const [{ value: serviceCount }] = await db
+      .select({ value: count() })
+      .from(services)
+      .where(and(eq(services.studentId, id), isNull(services.deletedAt)));
+    if (Number(serviceCount) > 0) {
+      return {
+        error: `Lo studente ${before.sigla} ha servizi registrati e non può essere eliminato`,
+        status: 409,
+        references: { services: Number(serviceCount) },
+      };
+    }
+    
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .update(students)
+        .set({ deletedAt: new Date(), deletedBy: deletedByFromContext() })
+        .where(and(eq(students.id, id), isNull(students.deletedAt)))
+        .returning();
+      if (deleted) {
+        await this.recordAudit(tx, AuditEntity.STUDENT, id, AuditAction.DELETE, before, deleted);
+      }
+      return Boolean(deleted);
+    });
+  }
+
+  async getDeletedStudents(): Promise<Student[]> {
+    return db
+      .select()
+      .from(students)
+      .where(isNotNull(students.deletedAt))
+      .orderBy(desc(students.deletedAt));
+  }
+
+  async restoreStudent(id: number): Promise<Student | undefined> {
+    const [before] = await db.select().from(students).where(and(eq(students.id, id), isNotNull(students.deletedAt)));
+    if (!before) return undefined;
+    
+    return db.transaction(async (tx) => {
+      const [restored] = await tx
+        .update(students)
+        .set({ deletedAt: null, deletedBy: null })
+        .where(eq(students.id, id))
+        .returning();
+      await this.recordAudit(tx, AuditEntity.STUDENT, id, AuditAction.RESTORE, before, restored);
+      return restored;
+    });
+
   }
 
   async importStudentsFromCSV(csvData: string): Promise<{ success: number, failed: number }> {
@@ -1430,8 +1780,81 @@ GIUSEPPE,PALMIERI,119`;
     return { success, failed };
   }
 
+  // Student portal operations
+  async createStudentLoginCode(code: InsertStudentLoginCode): Promise<StudentLoginCode> {
+    const [created] = await db.insert(studentLoginCodes).values(code).returning();
+    return created;
+  }
+
+  async getStudentLoginCodeByToken(tokenHash: string): Promise<StudentLoginCode | undefined> {
+    const [code] = await db.select().from(studentLoginCodes).where(eq(studentLoginCodes.tokenHash, tokenHash));
+    return code || undefined;
+  }
+
+  // Solo l'ultimo codice inviato è valido: richiederne uno nuovo invalida i precedenti
+  async getLatestStudentLoginCode(studentId: number): Promise<StudentLoginCode | undefined> {
+    const [code] = await db
+      .select()
+      .from(studentLoginCodes)
+      .where(eq(studentLoginCodes.studentId, studentId))
+      .orderBy(desc(studentLoginCodes.createdAt), desc(studentLoginCodes.id))
+      .limit(1);
+    return code || undefined;
+  }
+
+  // Conta il tentativo prima del confronto del codice: undefined se i tentativi sono esauriti,
+  // anche quando più richieste arrivano insieme
+  async claimStudentLoginAttempt(id: number, maxAttempts: number): Promise<StudentLoginCode | undefined> {
+    const [code] = await db
+      .update(studentLoginCodes)
+      .set({ attempts: sql`${studentLoginCodes.attempts} + 1` })
+      .where(and(eq(studentLoginCodes.id, id), lt(studentLoginCodes.attempts, maxAttempts)))
+      .returning();
+    return code || undefined;
+  }
+
+  // false se il codice è già stato usato da un'altra richiesta
+  async consumeStudentLoginCode(id: number): Promise<boolean> {
+    const consumed = await db
+      .update(studentLoginCodes)
+      .set({ usedAt: new Date() })
+      .where(and(eq(studentLoginCodes.id, id), isNull(studentLoginCodes.usedAt)))
+      .returning({ id: studentLoginCodes.id });
+    return consumed.length > 0;
+  }
+
+  async getStudentPayments(sigla: string): Promise<SecretariatPayment[]> {
+    return db
+      .select()
+      .from(secretariatPayments)
+      .where(and(eq(secretariatPayments.sigla, sigla), isNull(secretariatPayments.archivedYear)))
+      .orderBy(desc(secretariatPayments.createdAt));
+  }
+
+  async getStudentReceipts(sigla: string): Promise<StudentPortalReceipt[]> {
+    const rows = await db
+      .select({ receipt: receipts, serviceType: services.type, serviceDate: services.date })
+      .from(receipts)
+      .innerJoin(services, eq(receipts.serviceId, services.id))
+      .where(and(eq(services.sigla, sigla), isNull(receipts.archivedYear), isNull(receipts.voidedAt)))
+      .orderBy(desc(receipts.receiptDate));
+    return rows.map(({ receipt, serviceType, serviceDate }) => ({ ...receipt, serviceType, serviceDate }));
+  }
+
+  async getStudentMaintenanceRequests(sigla: string): Promise<MaintenanceRequest[]> {
+    return db
+      .select()
+      .from(maintenanceRequests)
+      .where(and(
+        eq(maintenanceRequests.sigla, sigla),
+        isNull(maintenanceRequests.archivedYear),
+        isNull(maintenanceRequests.deletedAt),
+      ))
+      .orderBy(desc(maintenanceRequests.timestamp));
+  }
+
   // Bike reservation operations
-  async getBikeReservations(params: BikeReservationSearch): Promise<{ reservations: BikeReservation[], total: number }> {
+  async getBikeReservations(params: BikeReservationSearch): Promise<{ reservations: BikeReservationDetail[], total: number }> {
     let query = db.select().from(bikeReservations);
     let countQuery = db.select({ count: count() }).from(bikeReservations);
 
@@ -1461,6 +1884,10 @@ GIUSEPPE,PALMIERI,119`;
       conditions.push(lte(bikeReservations.createdAt, endDate));
     }
 
+    if (params.slotId) {
+      conditions.push(eq(bikeReservations.slotId, params.slotId));
+    }
+
     if (conditions.length > 0) {
       query = query.where(and(...conditions));
       countQuery = countQuery.where(and(...conditions));
@@ -1478,7 +1905,28 @@ GIUSEPPE,PALMIERI,119`;
     ]);
 
     const total = totalResult[0]?.count || 0;
-    return { reservations, total };
+    return { reservations: await this.withBikeDetails(reservations), total };
+  }
+
+  // Aggiunge orari della fascia e numero della bici consegnata
+  private async withBikeDetails(reservations: BikeReservation[]): Promise<BikeReservationDetail[]> {
+    const slotIds = Array.from(new Set(reservations.map(r => r.slotId).filter((id): id is number => id !== null)));
+    const bikeIds = Array.from(new Set(reservations.map(r => r.bikeId).filter((id): id is number => id !== null)));
+    const [slots, fleet] = await Promise.all([
+      slotIds.length > 0
+        ? db.select({ id: bikeSlots.id, startsAt: bikeSlots.startsAt, endsAt: bikeSlots.endsAt }).from(bikeSlots).where(inArray(bikeSlots.id, slotIds))
+        : [],
+      bikeIds.length > 0
+        ? db.select({ id: bikes.id, code: bikes.code }).from(bikes).where(inArray(bikes.id, bikeIds))
+        : [],
+    ]);
+    const slotById = new Map(slots.map(({ id, ...slot }) => [id, slot]));
+    const codeById = new Map(fleet.map(bike => [bike.id, bike.code]));
+    return reservations.map(reservation => ({
+      ...reservation,
+      slot: reservation.slotId ? slotById.get(reservation.slotId) ?? null : null,
+      bikeCode: reservation.bikeId ? codeById.get(reservation.bikeId) ?? null : null,
+    }));
   }
 
   async getBikeReservation(id: number): Promise<BikeReservation | undefined> {
@@ -1491,8 +1939,16 @@ GIUSEPPE,PALMIERI,119`;
     return reservation || undefined;
   }
 
-  async createBikeReservation(reservation: InsertBikeReservation): Promise<BikeReservation> {
-    const [created] = await db.insert(bikeReservations).values(reservation).returning();
+  // Con una fascia oraria la prenotazione entra solo se c'è ancora posto (undefined = fascia piena)
+  async createBikeReservation(reservation: InsertBikeReservation): Promise<BikeReservation | undefined> {
+    const created = await db.transaction(async (tx) => {
+      if (reservation.slotId && !(await hasFreeSlotPlace(tx, reservation.slotId))) {
+        return undefined;
+      }
+      const [inserted] = await tx.insert(bikeReservations).values(reservation).returning();
+      await this.recordAudit(tx, AuditEntity.BIKE_RESERVATION, inserted.id, AuditAction.CREATE, null, inserted);
+      return inserted;
+    });
     return created;
   }
 
@@ -1515,69 +1971,357 @@ GIUSEPPE,PALMIERI,119`;
       updateData.approvalDate = approvalDate;
     }
 
-    const [updated] = await db.update(bikeReservations)
-      .set(updateData)
-      .where(eq(bikeReservations.id, id))
-      .returning();
-    
-    return updated || undefined;
+    const before = await this.getBikeReservation(id);
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(bikeReservations)
+        .set(updateData)
+        .where(eq(bikeReservations.id, id))
+        .returning();
+      
+      if (updated) {
+        await this.recordAudit(tx, AuditEntity.BIKE_RESERVATION, id, AuditAction.UPDATE, before, updated);
+      }
+      return updated || undefined;
+    });
   }
 
-  // Secretariat payment operations
-  async createSecretariatPayment(payment: InsertSecretariatPayment): Promise<SecretariatPayment> {
-    const [created] = await db.insert(secretariatPayments)
-      .values(payment)
-      .returning();
-    return created;
+  // Cambia stato solo se la prenotazione è ancora in quello atteso (due operatori sulla stessa coda)
+  async transitionBikeReservation(
+    id: number,
+    from: BikeReservationStatusValue,
+    to: BikeReservationStatusValue,
+    changes: { paymentDate?: Date; approvalDate?: Date; notes?: string | null } = {}
+  ): Promise<BikeReservation | undefined> {
+    const before = await this.getBikeReservation(id);
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(bikeReservations)
+        .set({ ...changes, status: to, updatedAt: new Date() })
+        .where(and(eq(bikeReservations.id, id), eq(bikeReservations.status, from)))
+        .returning();
+
+      if (updated) {
+        await this.recordAudit(tx, AuditEntity.BIKE_RESERVATION, id, AuditAction.UPDATE, before, updated);
+      }
+      return updated;
+    });
   }
 
-  async getSecretariatPayment(id: number): Promise<SecretariatPayment | undefined> {
-    const [payment] = await db.select().from(secretariatPayments).where(eq(secretariatPayments.id, id));
-    return payment || undefined;
+  async updateBikeReservation(id: number, updates: UpdateBikeReservation): Promise<BikeReservation | undefined> {
+    const before = await this.getBikeReservation(id);
+    if (!before) return undefined;
+
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(bikeReservations)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(bikeReservations.id, id))
+        .returning();
+      await this.recordAudit(tx, AuditEntity.BIKE_RESERVATION, id, AuditAction.UPDATE, before, updated);
+      return updated;
+    });
   }
 
-  async getSecretariatPaymentByOrderId(orderId: string): Promise<SecretariatPayment | undefined> {
-    const [payment] = await db.select().from(secretariatPayments).where(eq(secretariatPayments.orderId, orderId));
-    return payment || undefined;
+  // Le prenotazioni non hanno cestino: l'eliminazione è definitiva
+  async deleteBikeReservation(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(bikeReservations)
+        .where(eq(bikeReservations.id, id))
+        .returning();
+      if (deleted) {
+        await this.recordAudit(tx, AuditEntity.BIKE_RESERVATION, id, AuditAction.PURGE, deleted, null);
+      }
+      return Boolean(deleted);
+    });
   }
 
-  async getSecretariatPaymentByPaymentIntentId(paymentIntentId: string): Promise<SecretariatPayment | undefined> {
-    const [payment] = await db.select().from(secretariatPayments).where(eq(secretariatPayments.paymentIntentId, paymentIntentId));
-    return payment || undefined;
+  // Prenotazioni pagate in attesa di approvazione, dalla più vecchia
+  async getBikeReservationQueue(): Promise<BikeReservationDetail[]> {
+    const queue = await db.select()
+      .from(bikeReservations)
+      .where(and(eq(bikeReservations.status, BikeReservationStatus.PAID), isNull(bikeReservations.archivedYear)))
+      .orderBy(asc(bikeReservations.paymentDate), asc(bikeReservations.createdAt));
+    return this.withBikeDetails(queue);
   }
 
-  async updateSecretariatPaymentStatus(orderId: string, status: string, paymentDate?: Date): Promise<SecretariatPayment | undefined> {
-    const updateData: any = { 
-      status,
-      updatedAt: new Date()
-    };
-    
-    if (paymentDate) {
-      updateData.paymentDate = paymentDate;
-    }
+  // Prenotazioni attive della stessa sigla in fasce che si sovrappongono all'intervallo
+  async getOverlappingBikeReservations(sigla: string, startsAt: Date, endsAt: Date, excludeId?: number): Promise<BikeReservation[]> {
+    const rows = await db.select({ reservation: bikeReservations })
+      .from(bikeReservations)
+      .innerJoin(bikeSlots, eq(bikeReservations.slotId, bikeSlots.id))
+      .where(and(
+        eq(bikeReservations.sigla, sigla),
+        inArray(bikeReservations.status, ACTIVE_BIKE_RESERVATION_STATUSES),
+        lt(bikeSlots.startsAt, endsAt),
+        gt(bikeSlots.endsAt, startsAt),
+        excludeId ? ne(bikeReservations.id, excludeId) : undefined
+      ));
+    return rows.map(row => row.reservation);
+  }
 
-    const [updated] = await db.update(secretariatPayments)
-      .set(updateData)
-      .where(eq(secretariatPayments.orderId, orderId))
-      .returning();
-    
-    return updated || undefined;
+  // Sposta la prenotazione in un'altra fascia se ha posto (undefined = fascia piena)
+  async moveBikeReservationToSlot(id: number, slotId: number): Promise<BikeReservation | undefined> {
+    const before = await this.getBikeReservation(id);
+    const updated = await db.transaction(async (tx) => {
+      if (!(await hasFreeSlotPlace(tx, slotId, id))) {
+        return undefined;
+      }
+      const [moved] = await tx.update(bikeReservations)
+        .set({ slotId, updatedAt: new Date() })
+        .where(eq(bikeReservations.id, id))
+        .returning();
+      if (moved) {
+        await this.recordAudit(tx, AuditEntity.BIKE_RESERVATION, id, AuditAction.UPDATE, before, moved);
+      }
+      return moved;
+    });
+    return updated;
   }
 
-  async getSecretariatPayments(filters: { year?: number, search?: string, status?: string }): Promise<SecretariatPayment[]> {
-    let query = db.select().from(secretariatPayments);
-    
-    const conditions: any[] = [];
-    
-    // Filter by year
-    if (filters.year) {
-      const startDate = new Date(`${filters.year}-01-01`);
-      const endDate = new Date(`${filters.year}-12-31T23:59:59`);
-      conditions.push(gte(secretariatPayments.createdAt, startDate));
-      conditions.push(lte(secretariatPayments.createdAt, endDate));
+  // Consegna della bici: undefined se nel frattempo la bici è uscita con un'altra prenotazione
+  async pickUpBike(id: number, bikeId: number): Promise<BikeReservation | undefined> {
+    const before = await this.getBikeReservation(id);
+    const updated = await db.transaction(async (tx) => {
+      await tx.select({ id: bikes.id }).from(bikes).where(eq(bikes.id, bikeId)).for("update");
+      if (await findBikeOut(tx, bikeId)) {
+        return undefined;
+      }
+      const [pickedUp] = await tx.update(bikeReservations)
+        .set({ bikeId, pickedUpAt: new Date(), updatedAt: new Date() })
+        .where(and(
+          eq(bikeReservations.id, id),
+          eq(bikeReservations.status, BikeReservationStatus.APPROVED),
+          isNull(bikeReservations.pickedUpAt)
+        ))
+        .returning();
+      if (pickedUp) {
+        await this.recordAudit(tx, AuditEntity.BIKE_RESERVATION, id, AuditAction.UPDATE, before, pickedUp);
+      }
+      return pickedUp;
+    });
+    return updated;
+  }
+
+  // Riconsegna della bici; se serve un intervento la bici passa in manutenzione
+  async returnBike(id: number, needsService = false): Promise<BikeReservation | undefined> {
+    const before = await this.getBikeReservation(id);
+    const returned = await db.transaction(async (tx) => {
+      const [updated] = await tx.update(bikeReservations)
+        .set({ returnedAt: new Date(), updatedAt: new Date() })
+        .where(and(
+          eq(bikeReservations.id, id),
+          isNotNull(bikeReservations.pickedUpAt),
+          isNull(bikeReservations.returnedAt)
+        ))
+        .returning();
+      if (updated) {
+        await this.recordAudit(tx, AuditEntity.BIKE_RESERVATION, id, AuditAction.UPDATE, before, updated);
+      }
+      return updated;
+    });
+    if (!returned) return undefined;
+
+    if (needsService && returned.bikeId) {
+      await this.updateBike(returned.bikeId, { status: BikeStatus.MAINTENANCE });
     }
-    
-    // Filter by search term (sigla or customer name)
+    return returned;
+  }
+
+  // Bike fleet operations
+  async getBikes(): Promise<BikeWithUsage[]> {
+    const rows = await db.select({
+      bike: bikes,
+      reservation: {
+        id: bikeReservations.id,
+        sigla: bikeReservations.sigla,
+        customerName: bikeReservations.customerName,
+        pickedUpAt: bikeReservations.pickedUpAt,
+      },
+    })
+      .from(bikes)
+      .leftJoin(bikeReservations, and(
+        eq(bikeReservations.bikeId, bikes.id),
+        isNotNull(bikeReservations.pickedUpAt),
+        isNull(bikeReservations.returnedAt)
+      ))
+      .orderBy(asc(bikes.code));
+    return rows.map(({ bike, reservation }) => ({ ...bike, currentReservation: reservation }));
+  }
+
+  async getBike(id: number): Promise<Bike | undefined> {
+    const [bike] = await db.select().from(bikes).where(eq(bikes.id, id));
+    return bike || undefined;
+  }
+
+  async getBikeByCode(code: string): Promise<Bike | undefined> {
+    const [bike] = await db.select().from(bikes).where(eq(bikes.code, code));
+    return bike || undefined;
+  }
+
+  async createBike(bike: InsertBike): Promise<Bike> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(bikes).values(bike).returning();
+      await this.recordAudit(tx, AuditEntity.BIKE, created.id, AuditAction.CREATE, null, created);
+      return created;
+    });
+  }
+
+  async updateBike(id: number, updates: UpdateBike): Promise<Bike | undefined> {
+    const before = await this.getBike(id);
+    if (!before) return undefined;
+
+    const changes: Partial<Bike> = { ...updates, updatedAt: new Date() };
+    // Una bici che rientra dalla manutenzione è stata appena revisionata
+    if (before.status === BikeStatus.MAINTENANCE && updates.status === BikeStatus.AVAILABLE && updates.lastServiceAt === undefined) {
+      changes.lastServiceAt = new Date();
+    }
+
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(bikes)
+        .set(changes)
+        .where(eq(bikes.id, id))
+        .returning();
+      await this.recordAudit(tx, AuditEntity.BIKE, id, AuditAction.UPDATE, before, updated);
+      return updated;
+    });
+  }
+
+  async getBikeSlots(params: BikeSlotSearch): Promise<BikeSlotAvailability[]> {
+    return this.selectBikeSlots(and(
+      params.from ? gt(bikeSlots.endsAt, params.from) : undefined,
+      params.to ? lt(bikeSlots.startsAt, params.to) : undefined
+    ));
+  }
+
+  async getBikeSlot(id: number): Promise<BikeSlotAvailability | undefined> {
+    const [slot] = await this.selectBikeSlots(eq(bikeSlots.id, id));
+    return slot;
+  }
+
+  // Fasce con i posti occupati dalle prenotazioni attive
+  private async selectBikeSlots(where: SQL | undefined): Promise<BikeSlotAvailability[]> {
+    const rows = await db.select({ slot: bikeSlots, booked: count(bikeReservations.id) })
+      .from(bikeSlots)
+      .leftJoin(bikeReservations, and(
+        eq(bikeReservations.slotId, bikeSlots.id),
+        inArray(bikeReservations.status, ACTIVE_BIKE_RESERVATION_STATUSES)
+      ))
+      .where(where)
+      .groupBy(bikeSlots.id)
+      .orderBy(asc(bikeSlots.startsAt));
+    return rows.map(({ slot, booked }) => ({ ...slot, booked, available: Math.max(slot.capacity - booked, 0) }));
+  }
+
+  async createBikeSlot(slot: InsertBikeSlot): Promise<BikeSlot> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(bikeSlots).values(slot).returning();
+      await this.recordAudit(tx, AuditEntity.BIKE_SLOT, created.id, AuditAction.CREATE, null, created);
+      return created;
+    });
+  }
+
+  async updateBikeSlot(id: number, updates: UpdateBikeSlot): Promise<BikeSlot | undefined> {
+    const [before] = await db.select().from(bikeSlots).where(eq(bikeSlots.id, id));
+    if (!before) return undefined;
+
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(bikeSlots)
+        .set(updates)
+        .where(eq(bikeSlots.id, id))
+        .returning();
+      await this.recordAudit(tx, AuditEntity.BIKE_SLOT, id, AuditAction.UPDATE, before, updated);
+      return updated;
+    });
+  }
+
+  async deleteBikeSlot(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(bikeSlots)
+        .where(eq(bikeSlots.id, id))
+        .returning();
+      if (deleted) {
+        await this.recordAudit(tx, AuditEntity.BIKE_SLOT, id, AuditAction.PURGE, deleted, null);
+      }
+      return Boolean(deleted);
+    });
+  }
+
+  // Secretariat payment operations
+  async createSecretariatPayment(payment: InsertSecretariatPayment): Promise<SecretariatPayment> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(secretariatPayments)
+        .values(payment)
+        .returning();
+      await this.recordAudit(tx, AuditEntity.SECRETARIAT_PAYMENT, created.id, AuditAction.CREATE, null, created);
+      return created;
+    });
+
+  }
+
+  async getSecretariatPayment(id: number): Promise<SecretariatPayment | undefined> {
+    const [payment] = await db.select().from(secretariatPayments).where(eq(secretariatPayments.id, id));
+    return payment || undefined;
+  }
+
+  async getSecretariatPaymentByOrderId(orderId: string): Promise<SecretariatPayment | undefined> {
+    const [payment] = await db.select().from(secretariatPayments).where(eq(secretariatPayments.orderId, orderId));
+    return payment || undefined;
+  }
+
+  async getSecretariatPaymentByPaymentIntentId(paymentIntentId: string): Promise<SecretariatPayment | undefined> {
+    const [payment] = await db.select().from(secretariatPayments).where(eq(secretariatPayments.paymentIntentId, paymentIntentId));
+    return payment || undefined;
+  }
+
+  async updateSecretariatPaymentStatus(orderId: string, status: string, paymentDate?: Date): Promise<SecretariatPayment | undefined> {
+    const updateData: any = { 
+      status,
+      updatedAt: new Date()
+    };
+    
+    if (paymentDate) {
+      updateData.paymentDate = paymentDate;
+    }
+
+    // Il completamento è condizionato allo stato nel database: con richieste concorrenti
+    // (webhook, verifica dello stato, riconciliazione) una sola lo applica
+    const completing = status === SecretariatPaymentStatus.COMPLETED;
+    const before = await this.getSecretariatPaymentByOrderId(orderId);
+    const updated = await db.transaction(async (tx) => {
+      const [changed] = await tx.update(secretariatPayments)
+        .set(updateData)
+        .where(and(
+          eq(secretariatPayments.orderId, orderId),
+          completing ? ne(secretariatPayments.status, SecretariatPaymentStatus.COMPLETED) : undefined
+        ))
+        .returning();
+      if (!changed) return undefined;
+      await this.recordAudit(tx, AuditEntity.SECRETARIAT_PAYMENT, changed.id, AuditAction.UPDATE, before, changed);
+      
+      // Un pagamento appena completato viene ripartito sui servizi nella stessa transazione:
+      // se la ripartizione fallisce il pagamento resta nello stato precedente e verrà ritentato
+      if (completing) {
+        await this.bookPayment(tx, changed, changed.amount, `Pagamento online ${changed.orderId}`);
+      }
+      return changed;
+    });
+    
+    if (!updated) {
+      return completing ? this.getSecretariatPaymentByOrderId(orderId) : undefined;
+    }
+    return updated;
+  }
+
+  async getSecretariatPayments(filters: { dateRange?: { start: Date, end: Date }, search?: string, status?: string }): Promise<SecretariatPayment[]> {
+    let query = db.select().from(secretariatPayments);
+    
+    const conditions: any[] = [];
+    
+    // Filter by period (fine esclusa), ad esempio un anno fiscale
+    if (filters.dateRange) {
+      conditions.push(gte(secretariatPayments.createdAt, filters.dateRange.start));
+      conditions.push(lt(secretariatPayments.createdAt, filters.dateRange.end));
+    }
+    
+    // Filter by search term (sigla or customer name)
     if (filters.search) {
       const searchConditions = [
         like(secretariatPayments.sigla, `%${filters.search}%`),
@@ -1597,6 +2341,1093 @@ GIUSEPPE,PALMIERI,119`;
     
     return await query.orderBy(desc(secretariatPayments.createdAt));
   }
+
+  // Payment allocation operations
+  async getOutstandingServices(sigla: string): Promise<OutstandingServiceRow[]> {
+    return selectOutstandingServices(db, sigla);
+  }
+
+  async getPaymentAllocations(secretariatPaymentId: number): Promise<PaymentAllocation[]> {
+    return db
+      .select()
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.secretariatPaymentId, secretariatPaymentId))
+      .orderBy(paymentAllocations.id);
+  }
+
+  async allocateSecretariatPayment(secretariatPaymentId: number): Promise<PaymentAllocation[]> {
+    const payment = await this.getSecretariatPayment(secretariatPaymentId);
+    if (!payment || payment.status !== SecretariatPaymentStatus.COMPLETED) {
+      return [];
+    }
+    
+    // Idempotente: un pagamento già registrato a conto non viene ripartito di nuovo
+    // (le registrazioni concorrenti sono fermate in bookPayment dall'indice unico)
+    const [alreadyBooked] = await db
+      .select({ id: studentLedger.id })
+      .from(studentLedger)
+      .where(and(
+        eq(studentLedger.secretariatPaymentId, payment.id),
+        eq(studentLedger.kind, LedgerEntryKind.PAYMENT)
+      ));
+    if (alreadyBooked) {
+      return this.getPaymentAllocations(payment.id);
+    }
+    
+    const booked = await db.transaction(tx => this.bookPayment(tx, payment, payment.amount, `Pagamento online ${payment.orderId}`));
+    return booked ?? this.getPaymentAllocations(payment.id);
+  }
+
+  /**
+   * Registra a conto un importo incassato per un pagamento e lo ripartisce sui servizi:
+   * prima quelli scelti dallo studente, altrimenti tutti dal più vecchio.
+   * L'eccedenza resta sul conto come credito. Il movimento è di tipo pagamento, tranne per la
+   * contestazione vinta che storna il movimento di rimborso della contestazione.
+   * Lavora nella transazione del chiamante; null = pagamento già registrato a conto.
+   */
+  private async bookPayment(
+    tx: DbTransaction,
+    payment: SecretariatPayment,
+    amount: number,
+    description: string,
+    kind: LedgerEntryKindValue = LedgerEntryKind.PAYMENT
+  ): Promise<PaymentAllocation[] | null> {
+    // L'indice unico student_ledger_payment_idx lascia passare una sola registrazione di tipo
+    // pagamento per pagamento: una concorrente attende il commit della prima e poi non inserisce nulla
+    const [entry] = await tx
+      .insert(studentLedger)
+      .values({
+        sigla: payment.sigla,
+        kind,
+        amount: -amount,
+        description,
+        secretariatPaymentId: payment.id,
+        paymentMethod: payment.paymentMethod,
+        occurredAt: payment.paymentDate ?? new Date(),
+      })
+      .onConflictDoNothing({ target: studentLedger.secretariatPaymentId, where: sql`kind = 'payment'` })
+      .returning({ id: studentLedger.id });
+    if (!entry) {
+      return null;
+    }
+    
+    // Il residuo si legge con i servizi bloccati, così un altro pagamento della sigla non lo ripartisce due volte
+    const outstanding = await selectOutstandingServices(tx, payment.sigla, true);
+    const requested = payment.requestedServiceIds;
+    const targets = requested && requested.length > 0
+      ? outstanding.filter(s => requested.includes(s.id))
+      : outstanding;
+    const plan = planAllocation(amount, targets);
+    const byId = new Map(outstanding.map(s => [s.id, s]));
+    
+    const allocations = plan.lines.length > 0
+      ? await tx
+          .insert(paymentAllocations)
+          .values(plan.lines.map(line => ({
+            secretariatPaymentId: payment.id,
+            serviceId: line.serviceId,
+            amount: line.amount,
+          })))
+          .returning()
+      : [];
+    for (const allocation of allocations) {
+      await this.recordAudit(tx, AuditEntity.PAYMENT_ALLOCATION, allocation.id, AuditAction.CREATE, null, allocation);
+    }
+    
+    // Il servizio coperto per intero passa a pagato senza un nuovo movimento:
+    // il pagamento è già a conto come importo unico
+    let settled = 0;
+    for (const line of plan.lines.filter(l => l.settled)) {
+      const [after] = await tx
+        .update(services)
+        .set({ status: PaymentStatus.PAID })
+        .where(eq(services.id, line.serviceId))
+        .returning();
+      const before = byId.get(line.serviceId);
+      if (after && before) {
+        const { allocated, outstanding, ...service } = before;
+        settled++;
+        await this.recordAudit(tx, AuditEntity.SERVICE, after.id, AuditAction.UPDATE, service, after);
+      }
+    }
+    
+    console.log(`Pagamento ${payment.orderId}: €${amount.toFixed(2)} ripartiti su ${allocations.length} servizi (${settled} saldati, credito residuo €${plan.remaining.toFixed(2)})`);
+    return allocations;
+  }
+
+  async setSecretariatPaymentIntentId(orderId: string, paymentIntentId: string): Promise<void> {
+    await db
+      .update(secretariatPayments)
+      .set({ paymentIntentId, updatedAt: new Date() })
+      .where(eq(secretariatPayments.orderId, orderId));
+  }
+
+  // Refund and chargeback operations
+  async getPaymentRefunds(secretariatPaymentId: number): Promise<PaymentRefund[]> {
+    return db
+      .select()
+      .from(paymentRefunds)
+      .where(eq(paymentRefunds.secretariatPaymentId, secretariatPaymentId))
+      .orderBy(desc(paymentRefunds.createdAt));
+  }
+
+  async getPaymentRefundByProviderId(providerRefundId: string): Promise<PaymentRefund | undefined> {
+    const [refund] = await db.select().from(paymentRefunds).where(eq(paymentRefunds.providerRefundId, providerRefundId));
+    return refund || undefined;
+  }
+
+  async getRefundableAmount(secretariatPaymentId: number): Promise<number> {
+    const payment = await this.getSecretariatPayment(secretariatPaymentId);
+    if (!payment || payment.status !== SecretariatPaymentStatus.COMPLETED) return 0;
+    
+    const [row] = await db
+      .select({ refunded: sum(paymentRefunds.amount).mapWith(paymentRefunds.amount) })
+      .from(paymentRefunds)
+      .where(and(
+        eq(paymentRefunds.secretariatPaymentId, secretariatPaymentId),
+        eq(paymentRefunds.status, RefundStatus.COMPLETED)
+      ));
+    return roundEuros(Math.max(payment.amount - (Number(row?.refunded) || 0), 0));
+  }
+
+  async recordFailedRefund(refund: Omit<InsertPaymentRefund, "status">): Promise<PaymentRefund> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(paymentRefunds)
+        .values({ ...refund, status: RefundStatus.FAILED })
+        .returning();
+      await this.recordAudit(tx, AuditEntity.PAYMENT_REFUND, created.id, AuditAction.CREATE, null, created);
+      return created;
+    });
+  }
+
+  async applyPaymentRefund(refund: Omit<InsertPaymentRefund, "status">): Promise<PaymentRefund> {
+    const payment = await this.getSecretariatPayment(refund.secretariatPaymentId);
+    if (!payment) {
+      throw new Error(`Pagamento ${refund.secretariatPaymentId} non trovato`);
+    }
+    const refundable = await this.getRefundableAmount(payment.id);
+    const amount = roundEuros(refund.amount);
+    
+    // Quote nette per servizio, dalla ripartizione più recente
+    const allocationRows = await db
+      .select()
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.secretariatPaymentId, payment.id))
+      .orderBy(desc(paymentAllocations.id));
+    const netByService = new Map<number, number>();
+    for (const row of allocationRows) {
+      netByService.set(row.serviceId, roundEuros((netByService.get(row.serviceId) ?? 0) + row.amount));
+    }
+    const netAllocations = Array.from(netByService, ([serviceId, net]) => ({ serviceId, amount: net }));
+    const totalAllocated = sumEuros(netAllocations.map(a => a.amount));
+    const plan = planRefundReversal(amount, refundable - totalAllocated, netAllocations);
+    const label = refund.kind === RefundKind.CHARGEBACK ? "Contestazione" : "Rimborso";
+    
+    const { created, reopened } = await db.transaction(async (tx) => {
+      const [createdRefund] = await tx
+        .insert(paymentRefunds)
+        .values({ ...refund, amount, status: RefundStatus.COMPLETED })
+        .returning();
+      await this.recordAudit(tx, AuditEntity.PAYMENT_REFUND, createdRefund.id, AuditAction.CREATE, null, createdRefund);
+      
+      // Il rimborso riporta a debito lo studente per l'importo restituito
+      await tx.insert(studentLedger).values({
+        sigla: payment.sigla,
+        kind: LedgerEntryKind.REFUND,
+        amount,
+        description: `${label} pagamento ${payment.orderId}${refund.reason ? ` - ${refund.reason}` : ""}`,
+        secretariatPaymentId: payment.id,
+        paymentMethod: payment.paymentMethod,
+        occurredAt: new Date(),
+      });
+      
+      const reopenedServices: Array<{ before: Service; after: Service }> = [];
+      for (const line of plan.lines) {
+        await tx.insert(paymentAllocations).values({
+          secretariatPaymentId: payment.id,
+          serviceId: line.serviceId,
+          amount: -line.amount,
+        });
+        
+        // Un servizio non più coperto per intero torna da pagare e la sua ricevuta viene annullata
+        const [before] = await tx.select().from(services).where(eq(services.id, line.serviceId));
+        if (before && before.status === PaymentStatus.PAID) {
+          const [after] = await tx
+            .update(services)
+            .set({ status: PaymentStatus.UNPAID })
+            .where(eq(services.id, line.serviceId))
+            .returning();
+          reopenedServices.push({ before, after });
+          await this.recordAudit(tx, AuditEntity.SERVICE, after.id, AuditAction.UPDATE, before, after);
+        }
+        
+        const activeReceipts = await tx
+          .select()
+          .from(receipts)
+          .where(and(eq(receipts.serviceId, line.serviceId), isNull(receipts.voidedAt)));
+        for (const receipt of activeReceipts) {
+          const [after] = await tx
+            .update(receipts)
+            .set({ voidedAt: new Date(), voidReason: `${label} pagamento ${payment.orderId}` })
+            .where(eq(receipts.id, receipt.id))
+            .returning();
+          await this.recordAudit(tx, AuditEntity.RECEIPT, after.id, AuditAction.UPDATE, receipt, after);
+        }
+      }
+      return { created: createdRefund, reopened: reopenedServices };
+    });
+    
+    console.log(`${label} di €${amount.toFixed(2)} sul pagamento ${payment.orderId}: €${plan.fromCredit.toFixed(2)} dal credito, ${reopened.length} servizi di nuovo da pagare`);
+    return created;
+  }
+
+  async reverseChargeback(refundId: number): Promise<PaymentRefund | undefined> {
+    const [before] = await db.select().from(paymentRefunds).where(eq(paymentRefunds.id, refundId));
+    if (!before || before.kind !== RefundKind.CHARGEBACK || before.status !== RefundStatus.COMPLETED) {
+      return before || undefined;
+    }
+    const payment = await this.getSecretariatPayment(before.secretariatPaymentId);
+    if (!payment) return undefined;
+    
+    // La chiusura è condizionata allo stato nel database: un evento di contestazione vinta
+    // ripetuto (o concorrente) non trova più la contestazione aperta e non accredita di nuovo
+    const updated = await db.transaction(async (tx) => {
+      const [reversed] = await tx
+        .update(paymentRefunds)
+        .set({ status: RefundStatus.REVERSED })
+        .where(and(eq(paymentRefunds.id, refundId), eq(paymentRefunds.status, RefundStatus.COMPLETED)))
+        .returning();
+      if (!reversed) return undefined;
+      await this.recordAudit(tx, AuditEntity.PAYMENT_REFUND, refundId, AuditAction.UPDATE, before, reversed);
+      
+      // Contestazione vinta: l'importo torna incassato e viene ripartito di nuovo
+      await this.bookPayment(tx, payment, before.amount, `Contestazione vinta pagamento ${payment.orderId}`, LedgerEntryKind.REFUND);
+      return reversed;
+    });
+    
+    if (!updated) {
+      const [current] = await db.select().from(paymentRefunds).where(eq(paymentRefunds.id, refundId));
+      return current;
+    }
+    return updated;
+  }
+
+
+  // Payment reconciliation operations
+  async getPaymentsToReconcile(createdAfter: Date, createdBefore: Date): Promise<SecretariatPayment[]> {
+    return db
+      .select()
+      .from(secretariatPayments)
+      .where(and(
+        inArray(secretariatPayments.status, [SecretariatPaymentStatus.PENDING, SecretariatPaymentStatus.PROCESSING]),
+        gte(secretariatPayments.createdAt, createdAfter),
+        lte(secretariatPayments.createdAt, createdBefore)
+      ))
+      .orderBy(secretariatPayments.createdAt);
+  }
+
+  async createReconciliationRun(trigger: ReconciliationTriggerValue): Promise<ReconciliationRun> {
+    const [run] = await db.insert(reconciliationRuns).values({ trigger }).returning();
+    return run;
+  }
+
+  async addReconciliationItem(item: InsertReconciliationItem): Promise<ReconciliationItem> {
+    const [created] = await db.insert(reconciliationItems).values(item).returning();
+    return created;
+  }
+
+  async finishReconciliationRun(id: number, result: { checked: number, fixed: number, stillStuck: number, errors: number, errorMessage?: string }): Promise<ReconciliationRun> {
+    const [run] = await db
+      .update(reconciliationRuns)
+      .set({ ...result, finishedAt: new Date() })
+      .where(eq(reconciliationRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  async getReconciliationRuns(limit: number = 50): Promise<ReconciliationRun[]> {
+    return db.select().from(reconciliationRuns).orderBy(desc(reconciliationRuns.startedAt)).limit(limit);
+  }
+
+  async getReconciliationRun(id: number): Promise<ReconciliationRunDetail | undefined> {
+    const [run] = await db.select().from(reconciliationRuns).where(eq(reconciliationRuns.id, id));
+    if (!run) return undefined;
+    const items = await db
+      .select()
+      .from(reconciliationItems)
+      .where(eq(reconciliationItems.runId, id))
+      .orderBy(reconciliationItems.id);
+    return { ...run, items };
+  }
+  // Webhook inbox operations
+  async recordWebhookEvent(event: InsertWebhookInboxEvent): Promise<WebhookInboxEvent | undefined> {
+    // Un evento già ricevuto (stesso provider e ID) viene ignorato
+    const [created] = await db
+      .insert(webhookEvents)
+      .values(event)
+      .onConflictDoNothing({ target: [webhookEvents.provider, webhookEvents.eventId] })
+      .returning();
+    return created || undefined;
+  }
+
+  // Eventi da elaborare: nuovi, da ritentare o rimasti bloccati in elaborazione (worker interrotto)
+  private dueWebhookEventCondition(staleBefore: Date) {
+    return or(
+      and(
+        inArray(webhookEvents.status, [WebhookEventStatus.PENDING, WebhookEventStatus.FAILED]),
+        lte(webhookEvents.nextAttemptAt, new Date())
+      ),
+      and(
+        eq(webhookEvents.status, WebhookEventStatus.PROCESSING),
+        lte(webhookEvents.lockedAt, staleBefore)
+      )
+    );
+  }
+
+  async getDueWebhookEventIds(staleBefore: Date, limit: number = 50): Promise<number[]> {
+    const rows = await db
+      .select({ id: webhookEvents.id })
+      .from(webhookEvents)
+      .where(this.dueWebhookEventCondition(staleBefore))
+      .orderBy(webhookEvents.id)
+      .limit(limit);
+    return rows.map(row => row.id);
+  }
+
+  async claimWebhookEvent(id: number, staleBefore: Date): Promise<WebhookInboxEvent | undefined> {
+    // Aggiornamento condizionato: se due worker provano a prendere lo stesso evento, solo uno ci riesce
+    const [claimed] = await db
+      .update(webhookEvents)
+      .set({
+        status: WebhookEventStatus.PROCESSING,
+        lockedAt: new Date(),
+        attempts: sql`${webhookEvents.attempts} + 1`,
+      })
+      .where(and(eq(webhookEvents.id, id), this.dueWebhookEventCondition(staleBefore)))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async completeWebhookEvent(id: number): Promise<void> {
+    await db
+      .update(webhookEvents)
+      .set({ status: WebhookEventStatus.PROCESSED, processedAt: new Date(), lockedAt: null, lastError: null })
+      .where(eq(webhookEvents.id, id));
+  }
+
+  async failWebhookEvent(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await db
+      .update(webhookEvents)
+      .set({
+        status: nextAttemptAt ? WebhookEventStatus.FAILED : WebhookEventStatus.DEAD,
+        lastError: error,
+        lockedAt: null,
+        ...(nextAttemptAt ? { nextAttemptAt } : {}),
+      })
+      .where(eq(webhookEvents.id, id));
+  }
+
+  async resetWebhookEvent(id: number): Promise<WebhookInboxEvent | undefined> {
+    const [event] = await db
+      .update(webhookEvents)
+      .set({ status: WebhookEventStatus.PENDING, attempts: 0, nextAttemptAt: new Date(), lockedAt: null })
+      .where(and(eq(webhookEvents.id, id), ne(webhookEvents.status, WebhookEventStatus.PROCESSING)))
+      .returning();
+    return event || undefined;
+  }
+
+  async getWebhookEvent(id: number): Promise<WebhookInboxEvent | undefined> {
+    const [event] = await db.select().from(webhookEvents).where(eq(webhookEvents.id, id));
+    return event || undefined;
+  }
+
+  async getWebhookEvents(params: WebhookEventSearch): Promise<{ events: WebhookInboxEvent[], total: number }> {
+    const conditions: any[] = [];
+    
+    if (params.provider && params.provider !== 'all') {
+      conditions.push(eq(webhookEvents.provider, params.provider));
+    }
+    
+    if (params.status && params.status !== 'all') {
+      conditions.push(eq(webhookEvents.status, params.status));
+    }
+    
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    
+    const [{ count: total }] = await db
+      .select({ count: count() })
+      .from(webhookEvents)
+      .where(whereClause);
+    
+    const page = params.page || 1;
+    const limit = params.limit || 25;
+    
+    const events = await db
+      .select()
+      .from(webhookEvents)
+      .where(whereClause)
+      .orderBy(desc(webhookEvents.receivedAt), desc(webhookEvents.id))
+      .limit(limit)
+      .offset((page - 1) * limit);
+    
+    return {
+      events,
+      total: Number(total)
+    };
+  }
+
+  // Notification outbox operations
+  async enqueueNotification(notification: InsertNotification): Promise<Notification | undefined> {
+    // Una notifica con la stessa chiave di deduplica è già in coda o inviata
+    const [created] = await db
+      .insert(notificationOutbox)
+      .values(notification)
+      .onConflictDoNothing({ target: notificationOutbox.dedupeKey })
+      .returning();
+    return created || undefined;
+  }
+
+  // Notifiche da inviare: nuove, da ritentare o rimaste bloccate in invio (worker interrotto)
+  private dueNotificationCondition(staleBefore: Date) {
+    return or(
+      and(
+        inArray(notificationOutbox.status, [NotificationStatus.PENDING, NotificationStatus.FAILED]),
+        lte(notificationOutbox.nextAttemptAt, new Date())
+      ),
+      and(
+        eq(notificationOutbox.status, NotificationStatus.SENDING),
+        lte(notificationOutbox.lockedAt, staleBefore)
+      )
+    );
+  }
+
+  async getDueNotificationIds(staleBefore: Date, limit: number = 50): Promise<number[]> {
+    const rows = await db
+      .select({ id: notificationOutbox.id })
+      .from(notificationOutbox)
+      .where(this.dueNotificationCondition(staleBefore))
+      .orderBy(notificationOutbox.id)
+      .limit(limit);
+    return rows.map(row => row.id);
+  }
+
+  async claimNotification(id: number, staleBefore: Date): Promise<Notification | undefined> {
+    const [claimed] = await db
+      .update(notificationOutbox)
+      .set({
+        status: NotificationStatus.SENDING,
+        lockedAt: new Date(),
+        attempts: sql`${notificationOutbox.attempts} + 1`,
+      })
+      .where(and(eq(notificationOutbox.id, id), this.dueNotificationCondition(staleBefore)))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async completeNotification(id: number): Promise<void> {
+    await db
+      .update(notificationOutbox)
+      .set({ status: NotificationStatus.SENT, sentAt: new Date(), lockedAt: null, lastError: null })
+      .where(eq(notificationOutbox.id, id));
+  }
+
+  async failNotification(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await db
+      .update(notificationOutbox)
+      .set({
+        status: nextAttemptAt ? NotificationStatus.FAILED : NotificationStatus.DEAD,
+        lastError: error,
+        lockedAt: null,
+        ...(nextAttemptAt ? { nextAttemptAt } : {}),
+      })
+      .where(eq(notificationOutbox.id, id));
+  }
+
+  async resetNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notificationOutbox)
+      .set({ status: NotificationStatus.PENDING, attempts: 0, nextAttemptAt: new Date(), lockedAt: null })
+      .where(and(eq(notificationOutbox.id, id), ne(notificationOutbox.status, NotificationStatus.SENDING)))
+      .returning();
+    return notification || undefined;
+  }
+
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notificationOutbox).where(eq(notificationOutbox.id, id));
+    return notification || undefined;
+  }
+
+  async getNotifications(params: NotificationSearch): Promise<{ notifications: Notification[], total: number }> {
+    const conditions: any[] = [];
+
+    if (params.kind && params.kind !== 'all') {
+      conditions.push(eq(notificationOutbox.kind, params.kind));
+    }
+
+    if (params.status && params.status !== 'all') {
+      conditions.push(eq(notificationOutbox.status, params.status));
+    }
+
+    if (params.recipient) {
+      conditions.push(like(notificationOutbox.recipient, `%${params.recipient}%`));
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ count: total }] = await db
+      .select({ count: count() })
+      .from(notificationOutbox)
+      .where(whereClause);
+
+    const page = params.page || 1;
+    const limit = params.limit || 25;
+
+    const notifications = await db
+      .select()
+      .from(notificationOutbox)
+      .where(whereClause)
+      .orderBy(desc(notificationOutbox.createdAt), desc(notificationOutbox.id))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      notifications,
+      total: Number(total)
+    };
+  }
+
+  // Payment reminder operations
+  async getSiglasWithUnpaidServicesBefore(before: Date): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ sigla: services.sigla })
+      .from(services)
+      .where(and(
+        eq(services.status, PaymentStatus.UNPAID),
+        isNull(services.deletedAt),
+        lt(services.date, before)
+      ))
+      .orderBy(services.sigla);
+    return rows.map(row => row.sigla);
+  }
+
+  async getPaymentReminders(sigla: string): Promise<PaymentReminderWithStatus[]> {
+    const rows = await db
+      .select({ reminder: paymentReminders, notificationStatus: notificationOutbox.status })
+      .from(paymentReminders)
+      .leftJoin(notificationOutbox, eq(paymentReminders.notificationId, notificationOutbox.id))
+      .where(eq(paymentReminders.sigla, sigla))
+      .orderBy(desc(paymentReminders.createdAt), desc(paymentReminders.id));
+    return rows.map(row => ({ ...row.reminder, notificationStatus: row.notificationStatus }));
+  }
+
+  async createPaymentReminder(reminder: InsertPaymentReminder): Promise<PaymentReminder> {
+    const [created] = await db.insert(paymentReminders).values(reminder).returning();
+    return created;
+  }
+
+
+  // Student ledger operations
+  async getStudentLedger(sigla: string): Promise<StudentLedger> {
+    const rows = await db
+      .select()
+      .from(studentLedger)
+      .where(eq(studentLedger.sigla, sigla))
+      .orderBy(studentLedger.occurredAt, studentLedger.id);
+    
+    const totals: Record<LedgerEntryKindValue, number> = {
+      [LedgerEntryKind.CHARGE]: 0,
+      [LedgerEntryKind.PAYMENT]: 0,
+      [LedgerEntryKind.REFUND]: 0,
+      [LedgerEntryKind.ADJUSTMENT]: 0,
+    };
+    let balance = 0;
+    const entries = rows.map(row => {
+      balance = roundEuros(balance + row.amount);
+      const kind = row.kind as LedgerEntryKindValue;
+      totals[kind] = roundEuros((totals[kind] ?? 0) + row.amount);
+      return { ...row, balance };
+    });
+    
+    return { sigla, entries, totals, balance };
+  }
+
+  async addLedgerAdjustment(sigla: string, adjustment: InsertLedgerAdjustment): Promise<StudentLedgerEntry> {
+    return db.transaction(async (tx) => {
+      const [entry] = await tx
+        .insert(studentLedger)
+        .values({
+          sigla,
+          kind: LedgerEntryKind.ADJUSTMENT,
+          amount: roundEuros(adjustment.amount),
+          description: adjustment.description,
+          occurredAt: adjustment.occurredAt ?? new Date(),
+        })
+        .returning();
+      await this.recordAudit(tx, AuditEntity.LEDGER_ENTRY, entry.id, AuditAction.CREATE, null, entry);
+      return entry;
+    });
+  }
+
+  // Audit log operations
+  async getAuditLog(params: AuditLogSearch): Promise<{ entries: AuditLogEntry[], total: number }> {
+    const conditions: any[] = [];
+    
+    if (params.entityType && params.entityType !== 'all') {
+      conditions.push(eq(auditLog.entityType, params.entityType));
+    }
+    
+    if (params.entityId) {
+      conditions.push(eq(auditLog.entityId, params.entityId));
+    }
+    
+    if (params.action && params.action !== 'all') {
+      conditions.push(eq(auditLog.action, params.action));
+    }
+    
+    if (params.source && params.source !== 'all') {
+      conditions.push(eq(auditLog.source, params.source));
+    }
+    
+    if (params.actor) {
+      conditions.push(like(auditLog.actorName, `%${params.actor}%`));
+    }
+    
+    if (params.startDate) {
+      conditions.push(gte(auditLog.createdAt, new Date(params.startDate)));
+    }
+    
+    if (params.endDate) {
+      const endDate = new Date(params.endDate);
+      endDate.setHours(23, 59, 59, 999);
+      conditions.push(lte(auditLog.createdAt, endDate));
+    }
+    
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    
+    const [{ count: total }] = await db
+      .select({ count: count() })
+      .from(auditLog)
+      .where(whereClause);
+    
+    const page = params.page || 1;
+    const limit = params.limit || 25;
+    
+    const entries = await db
+      .select()
+      .from(auditLog)
+      .where(whereClause)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(limit)
+      .offset((page - 1) * limit);
+    
+    return {
+      entries,
+      total: Number(total)
+    };
+  }
+
+  // Service catalog operations
+  async getServiceCatalog(includeInactive = false): Promise<ServiceCatalogItem[]> {
+    let query = db.select().from(serviceCatalog);
+    
+    if (!includeInactive) {
+      query = query.where(eq(serviceCatalog.active, true)) as typeof query;
+    }
+    
+    return await query.orderBy(serviceCatalog.sortOrder, serviceCatalog.labelIt);
+  }
+
+  async getServiceCatalogItem(code: string): Promise<ServiceCatalogItem | undefined> {
+    const [item] = await db.select().from(serviceCatalog).where(eq(serviceCatalog.code, code));
+    return item || undefined;
+  }
+
+  async createServiceCatalogItem(item: InsertServiceCatalogItem): Promise<ServiceCatalogItem> {
+    const { unitPrice, ...catalogData } = item;
+    
+    const created = await db.transaction(async (tx) => {
+      const [newItem] = await tx
+        .insert(serviceCatalog)
+        .values(catalogData)
+        .returning();
+      
+      // Il prezzo iniziale entra nel listino da oggi, come ogni altra variazione
+      if (unitPrice !== undefined) {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        await tx.insert(priceList).values({
+          serviceType: newItem.code,
+          unitPrice,
+          validFrom: today,
+          notes: "Prezzo iniziale",
+        });
+      }
+      await this.recordAudit(tx, AuditEntity.SERVICE_CATALOG, newItem.id, AuditAction.CREATE, null, { ...newItem, unitPrice });
+      return newItem;
+    });
+    
+    return created;
+  }
+
+  async updateServiceCatalogItem(id: number, item: UpdateServiceCatalogItem): Promise<ServiceCatalogItem | undefined> {
+    const [before] = await db.select().from(serviceCatalog).where(eq(serviceCatalog.id, id));
+    if (!before) return undefined;
+    
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(serviceCatalog)
+        .set(item)
+        .where(eq(serviceCatalog.id, id))
+        .returning();
+      
+      await this.recordAudit(tx, AuditEntity.SERVICE_CATALOG, id, AuditAction.UPDATE, before, updated);
+      return updated || undefined;
+    });
+  }
+
+  // Price list operations
+  async getPriceList(serviceType?: string): Promise<PriceListEntry[]> {
+    let query = db.select().from(priceList);
+    
+    if (serviceType) {
+      query = query.where(eq(priceList.serviceType, serviceType)) as typeof query;
+    }
+    
+    return await query.orderBy(priceList.serviceType, desc(priceList.validFrom));
+  }
+
+  async getLatestPriceListEntry(serviceType: string): Promise<PriceListEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(priceList)
+      .where(eq(priceList.serviceType, serviceType))
+      .orderBy(desc(priceList.validFrom))
+      .limit(1);
+    return entry || undefined;
+  }
+
+  async getEffectivePrice(serviceType: string, date: Date): Promise<number | undefined> {
+    const [entry] = await db
+      .select()
+      .from(priceList)
+      .where(and(
+        eq(priceList.serviceType, serviceType),
+        lte(priceList.validFrom, date),
+        or(isNull(priceList.validTo), gt(priceList.validTo, date))
+      ))
+      .orderBy(desc(priceList.validFrom))
+      .limit(1);
+    return entry?.unitPrice;
+  }
+
+  async getEffectivePrices(date: Date): Promise<Record<string, number>> {
+    const entries = await db
+      .select()
+      .from(priceList)
+      .where(and(
+        lte(priceList.validFrom, date),
+        or(isNull(priceList.validTo), gt(priceList.validTo, date))
+      ))
+      .orderBy(desc(priceList.validFrom));
+    
+    // In caso di sovrapposizioni vince il periodo iniziato più di recente
+    const prices: Record<string, number> = {};
+    for (const entry of entries) {
+      if (prices[entry.serviceType] === undefined) {
+        prices[entry.serviceType] = entry.unitPrice;
+      }
+    }
+    return prices;
+  }
+
+  async addPriceListEntry(entry: InsertPriceListEntry): Promise<PriceListEntry> {
+    const validFrom = new Date(entry.validFrom);
+    const previous = await this.getLatestPriceListEntry(entry.serviceType);
+    
+    const created = await db.transaction(async (tx) => {
+      // Il prezzo in vigore resta valido fino al giorno prima del nuovo
+      if (previous && (!previous.validTo || previous.validTo > validFrom)) {
+        await tx
+          .update(priceList)
+          .set({ validTo: validFrom })
+          .where(eq(priceList.id, previous.id));
+      }
+      
+      const [newEntry] = await tx
+        .insert(priceList)
+        .values({
+          serviceType: entry.serviceType,
+          unitPrice: entry.unitPrice,
+          validFrom,
+          notes: entry.notes ?? null,
+        })
+        .returning();
+      await this.recordAudit(tx, AuditEntity.PRICE_LIST, newEntry.id, AuditAction.CREATE, previous ?? null, newEntry);
+      return newEntry;
+    });
+    
+    return created;
+  }
+
+  async deletePriceListEntry(id: number): Promise<boolean> {
+    const [entry] = await db.select().from(priceList).where(eq(priceList.id, id));
+    if (!entry) return false;
+    
+    await db.transaction(async (tx) => {
+      await tx.delete(priceList).where(eq(priceList.id, id));
+      
+      // Il periodo precedente torna in vigore senza scadenza
+      await tx
+        .update(priceList)
+        .set({ validTo: entry.validTo })
+        .where(and(
+          eq(priceList.serviceType, entry.serviceType),
+          eq(priceList.validTo, entry.validFrom)
+        ));
+      await this.recordAudit(tx, AuditEntity.PRICE_LIST, id, AuditAction.DELETE, entry, null);
+    });
+    
+    return true;
+  }
+  
+  // Trash
+  // Elimina definitivamente le righe finite nel cestino prima di deletedBefore. Le quote dei
+  // pagamenti dei servizi se ne vanno con loro; i servizi con ricevute e gli studenti che hanno
+  // ancora servizi restano nel cestino finché i riferimenti non spariscono
+  async purgeDeletedRows(deletedBefore: Date): Promise<TrashPurgeResult> {
+    return db.transaction(async (tx) => {
+      const purgedServices = await tx
+        .delete(services)
+        .where(and(
+          lt(services.deletedAt, deletedBefore),
+          notExists(tx.select({ id: receipts.id }).from(receipts).where(eq(receipts.serviceId, services.id)))
+        ))
+        .returning();
+      const purgedStudents = await tx
+        .delete(students)
+        .where(and(
+          lt(students.deletedAt, deletedBefore),
+          notExists(tx.select({ id: services.id }).from(services).where(eq(services.studentId, students.id)))
+        ))
+        .returning();
+      const purgedRequests = await tx
+        .delete(maintenanceRequests)
+        .where(lt(maintenanceRequests.deletedAt, deletedBefore))
+        .returning();
+      
+      for (const service of purgedServices) {
+        await this.recordAudit(tx, AuditEntity.SERVICE, service.id, AuditAction.PURGE, service, null);
+      }
+      for (const student of purgedStudents) {
+        await this.recordAudit(tx, AuditEntity.STUDENT, student.id, AuditAction.PURGE, student, null);
+      }
+      for (const request of purgedRequests) {
+        await this.recordAudit(tx, AuditEntity.MAINTENANCE_REQUEST, request.id, AuditAction.PURGE, request, null);
+      }
+      return {
+        services: purgedServices.length,
+        students: purgedStudents.length,
+        maintenanceRequests: purgedRequests.length,
+      };
+    });
+
+  }
+  
+  // Referential integrity
+  async getOrphanReport(): Promise<OrphanReport> {
+    const unlinked = await db
+      .select({ sigla: services.sigla, services: count(), amount: sum(services.amount).mapWith(services.amount) })
+      .from(services)
+      .where(and(isNull(services.studentId), isNull(services.deletedAt)))
+      .groupBy(services.sigla)
+      .orderBy(services.sigla);
+    const servicesWithoutStudent = unlinked.map(row => ({
+      sigla: row.sigla,
+      services: Number(row.services),
+      amount: roundEuros(Number(row.amount) || 0),
+    }));
+    
+    const receiptsWithoutService = await db
+      .select()
+      .from(receipts)
+      .where(isNull(receipts.serviceId))
+      .orderBy(desc(receipts.receiptDate));
+    
+    const migrationOrphans = await db
+      .select()
+      .from(orphanedRows)
+      .orderBy(orphanedRows.tableName, orphanedRows.id);
+    
+    return { servicesWithoutStudent, receiptsWithoutService, migrationOrphans };
+  }
+  
+  async getMoneyConversionReport(): Promise<MoneyConversionCheck[]> {
+    const rows = await db
+      .select()
+      .from(moneyConversionReport)
+      .orderBy(moneyConversionReport.id);
+    return rows.map(row => {
+      const totalBefore = Number(row.totalBefore);
+      const totalAfter = fromCents(row.totalAfterCents);
+      return {
+        tableName: row.tableName,
+        columnName: row.columnName,
+        rowCount: row.rowCount,
+        roundedRows: row.roundedRows,
+        totalBefore,
+        totalAfter,
+        difference: roundEuros(totalAfter - totalBefore),
+        convertedAt: row.convertedAt,
+      };
+    });
+  }
+}
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Chi sposta una riga nel cestino: l'utente collegato, altrimenti l'origine della modifica
+function deletedByFromContext(): string {
+  const context = getAuditContext();
+  return context.actorName ?? context.source;
+}
+
+/**
+ * Movimenti del conto studente generati dal passaggio di un servizio da "before" ad "after"
+ * (null = servizio non esistente). Si confrontano addebito e quota pagata prima e dopo:
+ * così creazione, modifica dell'importo, cambio di stato, cambio di sigla e cancellazione
+ * producono sempre movimenti coerenti senza riscrivere quelli passati.
+ * Il cestino conta come cancellazione; il ripristino ("restored") come una creazione datata ad oggi.
+ */
+function serviceLedgerEntries(before: Service | null, after: Service | null, allocated = 0, restored = false): InsertStudentLedgerEntry[] {
+  // Un cambio di sigla sposta il servizio da un conto all'altro
+  if (before && after && before.sigla !== after.sigla) {
+    return [...serviceLedgerEntries(before, null, allocated), ...serviceLedgerEntries(null, after)];
+  }
+  
+  const service = (after ?? before)!;
+  const isCreation = before === null;
+  const charged = (s: Service | null) => s ? s.amount : 0;
+  // La parte già coperta da pagamenti online è a conto con il pagamento stesso
+  const paid = (s: Service | null) => s && s.status === PaymentStatus.PAID ? Math.max(s.amount - allocated, 0) : 0;
+  // I servizi nuovi (anche importati) vanno a conto alla loro data, le modifiche ad oggi
+  const occurredAt = isCreation && !restored ? new Date(service.date) : new Date();
+  const entries: InsertStudentLedgerEntry[] = [];
+  
+  const chargeDelta = roundEuros(charged(after) - charged(before));
+  if (chargeDelta !== 0) {
+    entries.push({
+      sigla: service.sigla,
+      kind: isCreation ? LedgerEntryKind.CHARGE : LedgerEntryKind.ADJUSTMENT,
+      amount: chargeDelta,
+      description: isCreation
+        ? restored ? `Ripristino servizio ${service.type} #${service.id}` : `Servizio ${service.type} #${service.id}`
+        : after ? `Rettifica importo servizio #${service.id}` : `Annullamento servizio #${service.id}`,
+      serviceId: service.id,
+      occurredAt,
+    });
+  }
+  
+  const paidDelta = roundEuros(paid(after) - paid(before));
+  if (paidDelta !== 0) {
+    entries.push({
+      sigla: service.sigla,
+      kind: LedgerEntryKind.PAYMENT,
+      amount: -paidDelta,
+      description: paidDelta > 0 ? `Pagamento servizio #${service.id}` : `Storno pagamento servizio #${service.id}`,
+      serviceId: service.id,
+      paymentMethod: service.paymentMethod,
+      occurredAt,
+    });
+  }
+  
+  return entries;
+}
+
+// Studente a cui collegare un servizio tramite la sigla (null = sigla senza anagrafica)
+async function findStudentId(tx: DbTransaction, sigla: string): Promise<number | null> {
+  const [student] = await tx.select({ id: students.id }).from(students).where(eq(students.sigla, sigla));
+  return student?.id ?? null;
+}
+
+/**
+ * Servizi da pagare della sigla con la quota già coperta dai pagamenti online.
+ * Con forUpdate le righe restano bloccate fino al commit: due pagamenti della stessa sigla
+ * si ripartiscono uno dopo l'altro, ciascuno sul residuo lasciato dall'altro.
+ */
+async function selectOutstandingServices(
+  executor: typeof db | DbTransaction,
+  sigla: string,
+  forUpdate = false
+): Promise<OutstandingServiceRow[]> {
+  const query = executor
+    .select()
+    .from(services)
+    .where(and(eq(services.sigla, sigla), eq(services.status, PaymentStatus.UNPAID), isNull(services.deletedAt)))
+    .orderBy(services.date, services.id);
+  const unpaid = forUpdate ? await query.for("update") : await query;
+  if (unpaid.length === 0) return [];
+  
+  const allocatedRows = await executor
+    .select({ serviceId: paymentAllocations.serviceId, allocated: sum(paymentAllocations.amount).mapWith(paymentAllocations.amount) })
+    .from(paymentAllocations)
+    .where(inArray(paymentAllocations.serviceId, unpaid.map(s => s.id)))
+    .groupBy(paymentAllocations.serviceId);
+  const allocatedById = new Map(allocatedRows.map(row => [row.serviceId, Number(row.allocated) || 0]));
+  
+  return unpaid.map(service => {
+    const allocated = allocatedById.get(service.id) ?? 0;
+    return { ...service, allocated, outstanding: roundEuros(Math.max(service.amount - allocated, 0)) };
+  });
+}
+
+async function getAllocatedAmount(tx: DbTransaction, serviceId: number): Promise<number> {
+
+  const [row] = await tx
+    .select({ allocated: sum(paymentAllocations.amount).mapWith(paymentAllocations.amount) })
+    .from(paymentAllocations)
+    .where(eq(paymentAllocations.serviceId, serviceId));
+  return Number(row?.allocated) || 0;
+}
+
+async function insertLedgerEntries(tx: DbTransaction, entries: InsertStudentLedgerEntry[]): Promise<void> {
+  if (entries.length > 0) {
+    await tx.insert(studentLedger).values(entries);
+  }
+}
+
+// Blocca la fascia e verifica che abbia ancora posto, senza contare la prenotazione che si sta spostando
+async function hasFreeSlotPlace(tx: DbTransaction, slotId: number, excludeReservationId?: number): Promise<boolean> {
+  const [slot] = await tx.select().from(bikeSlots).where(eq(bikeSlots.id, slotId)).for("update");
+  if (!slot) return false;
+
+  const [{ booked }] = await tx
+    .select({ booked: count() })
+    .from(bikeReservations)
+    .where(and(
+      eq(bikeReservations.slotId, slotId),
+      inArray(bikeReservations.status, ACTIVE_BIKE_RESERVATION_STATUSES),
+      excludeReservationId ? ne(bikeReservations.id, excludeReservationId) : undefined
+    ));
+  return booked < slot.capacity;
+}
+
+// Prenotazione con cui la bici è fuori in questo momento (ritirata e non ancora riconsegnata)
+async function findBikeOut(tx: DbTransaction, bikeId: number): Promise<BikeReservation | undefined> {
+  const [reservation] = await tx
+    .select()
+    .from(bikeReservations)
+    .where(and(
+      eq(bikeReservations.bikeId, bikeId),
+      isNotNull(bikeReservations.pickedUpAt),
+      isNull(bikeReservations.returnedAt)
+    ));
+  return reservation;
+}
+
+// Nel log di audit non finisce mai l'hash della password, solo il fatto che è cambiato
+function redactUser(user: User) {
+  return { ...user, password: "[redacted]" };
 }
 
 // Create and export a single instance of the storage implementation
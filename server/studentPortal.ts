@@ -0,0 +1,60 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { hasCapability } from "./permissions";
+import { Capability, type Student } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    studentId?: number; // Studente entrato nel portale con il link o il codice ricevuto via email
+  }
+}
+
+/**
+ * Studente della sessione corrente, se ha fatto l'accesso al portale.
+ * Uno studente eliminato nel frattempo perde subito l'accesso.
+ */
+export async function getPortalStudent(req: Request): Promise<Student | undefined> {
+  if (!req.session?.studentId) {
+    return undefined;
+  }
+  return storage.getStudent(req.session.studentId);
+}
+
+// Nuova sessione per lo studente: l'identificativo precedente non resta valido dopo l'accesso
+export function startStudentSession(req: Request, student: Student): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((regenerateErr) => {
+      if (regenerateErr) return reject(regenerateErr);
+      req.session.studentId = student.id;
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+export function endStudentSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    delete req.session.studentId;
+    req.session.save((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+/**
+ * Chi può vedere i dati di una sigla dalle pagine pubbliche: lo studente che ha fatto
+ * l'accesso al portale con quella sigla oppure lo staff che può consultare gli studenti.
+ * 401 senza accesso, 403 per un'altra sigla o per un ruolo senza STUDENTS_READ.
+ */
+export async function checkSiglaAccess(req: Request, sigla: string): Promise<{ error: string; status: number } | null> {
+  if (req.isAuthenticated()) {
+    return hasCapability(req.user.role, Capability.STUDENTS_READ)
+      ? null
+      : { error: "Non hai i permessi necessari per questa operazione", status: 403 };
+  }
+  const student = await getPortalStudent(req);
+  if (!student) {
+    return { error: "Accedi al portale studenti per vedere i servizi della tua sigla", status: 401 };
+  }
+  if (student.sigla !== sigla.trim()) {
+    return { error: "Puoi vedere solo i servizi della tua sigla", status: 403 };
+  }
+  return null;
+}
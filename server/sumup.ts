@@ -1,290 +1,181 @@
-import { Request, Response } from "express";
+import { RefundKind } from "@shared/schema";
+import { roundEuros } from "@shared/money";
+import { normalizePaymentStatus } from "./payments/status";
+import { enforceSignature, headerValue, SignatureCheck, verifyTimestampedHmac } from "./payments/signatures";
+import type { PaymentProvider, WebhookRequest } from "./payments/types";
 
-// Helper function to extract sigla from description
-function extractSiglaFromDescription(description: string): string | null {
-  // Look for patterns like "Pagamento servizi ELIS - 157"
-  const match = description.match(/(?:sigla|ELIS)\s*-?\s*(\d+)/i);
-  return match ? match[1] : null;
-}
-
-interface SumUpPaymentRequest {
-  sigla: string;
-  amount: number;
-  customerName: string;
-  description?: string;
-}
+// Use production API
+const SUMUP_API_URL = 'https://api.sumup.com';
 
-interface SumUpPayment {
+interface SumUpCheckout {
   id: string;
-  amount: number;
-  currency: string;
   status: string;
-  description: string;
+  amount: number;
   checkout_reference?: string;
-  next_step?: {
-    action: string;
-    url: string;
-  };
-  metadata?: Record<string, string>;
-  created_at: string;
+  checkout_url?: string;
+  transaction_code?: string;
+  transactions?: Array<{ id: string; status: string }>;
+}
+
+async function sumupRequest(method: string, path: string, body?: unknown): Promise<any> {
+  const response = await fetch(`${SUMUP_API_URL}${path}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${process.env.SUMUP_API_KEY}`,
+      'Content-Type': 'application/json'
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+  if (!response.ok) {
+    throw new Error(`SumUp API error: ${response.status} - ${await response.text()}`);
+  }
+  // Il rimborso risponde 204 senza corpo
+  return response.status === 204 ? null : response.json();
 }
 
 /**
- * Create a SumUp payment
- * Currently returns a mock response for development.
- * TODO: Implement actual SumUp API integration
+ * Firma dei webhook SumUp: X-SumUp-Signature contiene "t=<secondi>,v1=<hex>",
+ * HMAC-SHA256 di "{t}.{corpo}" con il segreto del webhook
  */
-export async function createSumUpPayment(req: Request, res: Response) {
-  try {
-    const { sigla, amount, customerName, description }: SumUpPaymentRequest = req.body;
+export function verifySumUpSignature(request: WebhookRequest, secret: string, nowMs?: number): SignatureCheck {
+  const parts = (headerValue(request.headers, "x-sumup-signature") ?? "")
+    .split(",")
+    .map(part => part.trim().split("="))
+    .filter(([key, value]) => key && value);
+  const timestamp = parts.find(([key]) => key === "t")?.[1];
+  const signatures = parts.filter(([key]) => key === "v1").map(([, value]) => value);
+
+  return verifyTimestampedHmac({
+    secret,
+    signedPayload: `${timestamp}.${request.rawBody}`,
+    signatures,
+    timestampSeconds: timestamp ? Number(timestamp) : undefined,
+    nowMs,
+  });
+}
 
-    if (!sigla || !amount || !customerName) {
-      return res.status(400).json({
-        success: false,
-        message: "Parametri mancanti: sigla, amount e customerName sono obbligatori"
-      });
-    }
+/**
+ * SumUp hosted checkout
+ * If the checkout cannot be created the payment stays pending without a SumUp ID (fallback mode).
+ */
+export const sumupProvider: PaymentProvider = {
+  id: "sumup",
+  label: "SumUp",
+  description: "Carta tramite SumUp",
 
+  isConfigured() {
+    return !!process.env.SUMUP_API_KEY;
+  },
+  hasStatusApi: true,
+
+  async createPayment(input) {
     if (!process.env.SUMUP_API_KEY) {
-      return res.status(500).json({
-        success: false,
-        message: "Configurazione SumUp non completa - API Key mancante"
-      });
+      throw new Error("Configurazione SumUp non completa - API Key mancante");
     }
 
-    // Check if merchant_code is available (required by SumUp API)
-    const merchantCode = process.env.SUMUP_MERCHANT_CODE;
-    if (!merchantCode) {
-      console.log('SUMUP_MERCHANT_CODE not configured, using fallback mode');
-    }
+    const returnUrl = `${input.baseUrl}/payment-success?payment_id=${input.orderId}&method=sumup&amount=${input.amount}&sigla=${input.sigla}`;
 
-    // Real SumUp API Integration
-    const apiBaseUrl = 'https://api.sumup.com';
-    
-    // Generate unique checkout reference
-    const checkoutReference = `elis_${sigla}_${Date.now()}`;
-    
     // Prepare checkout data according to SumUp API documentation
-    const checkoutData: any = {
-      checkout_reference: checkoutReference,
-      amount: parseFloat(amount.toFixed(2)),
+    const checkoutData: Record<string, unknown> = {
+      checkout_reference: input.orderId,
+      amount: roundEuros(input.amount),
       currency: 'EUR',
-      description: description || `Pagamento servizi ELIS - ${sigla}`,
-      return_url: `${req.protocol}://${req.get('host')}/payment-success?payment_id=${checkoutReference}&method=sumup&amount=${amount}&sigla=${sigla}`,
-      redirect_url: `${req.protocol}://${req.get('host')}/payment-success?payment_id=${checkoutReference}&method=sumup&amount=${amount}&sigla=${sigla}`
+      description: input.description,
+      return_url: returnUrl,
+      redirect_url: returnUrl
     };
 
-    // Add merchant_code if available
-    if (merchantCode) {
-      checkoutData.merchant_code = merchantCode;
+    // Add merchant_code if available (required by SumUp API)
+    if (process.env.SUMUP_MERCHANT_CODE) {
+      checkoutData.merchant_code = process.env.SUMUP_MERCHANT_CODE;
+    } else {
+      console.log('SUMUP_MERCHANT_CODE not configured, using fallback mode');
     }
 
-    console.log('Creating SumUp checkout with data:', checkoutData);
-
     try {
-      const response = await fetch(`${apiBaseUrl}/v0.1/checkouts`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.SUMUP_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(checkoutData)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        console.error('SumUp API error:', response.status, errorData);
-        
-        // Fallback to development mode if API fails
-        const fallbackPayment = {
-          id: `sumup_fallback_${Date.now()}`,
-          checkout_reference: `fallback_${Math.random().toString(36).substr(2, 9)}`,
-          checkout_url: `${req.protocol}://${req.get('host')}/payment-success?payment_id=sumup_fallback&method=sumup&amount=${amount}&sigla=${sigla}`,
-          status: 'PENDING'
-        };
-
-        return res.json({
-          success: true,
-          paymentId: fallbackPayment.id,
-          checkout_reference: fallbackPayment.checkout_reference,
-          redirect_url: fallbackPayment.checkout_url,
-          status: fallbackPayment.status,
-          message: "Pagamento SumUp creato (modalità fallback - verifica configurazione account)"
-        });
-      }
-
-      const checkoutResponse = await response.json();
-      console.log('SumUp checkout created successfully:', checkoutResponse);
-
-      res.json({
-        success: true,
-        paymentId: checkoutResponse.id,
-        checkout_reference: checkoutResponse.checkout_reference,
-        redirect_url: checkoutResponse.checkout_url,
-        status: checkoutResponse.status,
-        message: "Pagamento SumUp creato con successo"
-      });
-
+      const checkout: SumUpCheckout = await sumupRequest('POST', '/v0.1/checkouts', checkoutData);
+      console.log('SumUp checkout created successfully:', checkout.id);
+
+      return {
+        providerPaymentId: checkout.id,
+        status: normalizePaymentStatus("sumup", checkout.status),
+        live: true,
+        redirectUrl: checkout.checkout_url,
+      };
     } catch (error) {
-      console.error('SumUp API connection error:', error);
-      
-      // Fallback for connection errors
-      const fallbackPayment = {
-        id: `sumup_error_${Date.now()}`,
-        checkout_reference: `error_${Math.random().toString(36).substr(2, 9)}`,
-        checkout_url: `${req.protocol}://${req.get('host')}/payment-success?payment_id=sumup_error&method=sumup&amount=${amount}&sigla=${sigla}`,
-        status: 'PENDING'
+      // Fallback to development mode if API fails
+      console.error('SumUp API error, using fallback mode:', error);
+      return {
+        providerPaymentId: null,
+        status: normalizePaymentStatus("sumup", "PENDING"),
+        live: false,
+        redirectUrl: returnUrl,
       };
+    }
+  },
 
-      res.json({
-        success: true,
-        paymentId: fallbackPayment.id,
-        checkout_reference: fallbackPayment.checkout_reference,
-        redirect_url: fallbackPayment.checkout_url,
-        status: fallbackPayment.status,
-        message: "Pagamento SumUp creato (modalità offline - riprova più tardi)"
-      });
+  async getStatus(payment) {
+    if (!payment.paymentIntentId) {
+      return { status: normalizePaymentStatus("sumup", "PENDING"), rawStatus: "PENDING" };
     }
 
-  } catch (error: any) {
-    console.error("Errore nella creazione pagamento SumUp:", error);
-    res.status(500).json({
-      success: false,
-      message: "Errore interno del server nella creazione del pagamento SumUp"
-    });
-  }
-}
+    const checkout: SumUpCheckout = await sumupRequest('GET', `/v0.1/checkouts/${payment.paymentIntentId}`);
+    return { status: normalizePaymentStatus("sumup", checkout.status), rawStatus: checkout.status };
+  },
 
-/**
- * Check SumUp payment status
- * Currently returns a mock response for development.
- * TODO: Implement actual SumUp payment status checking
- */
-export async function checkSumUpPaymentStatus(req: Request, res: Response) {
-  try {
-    const { paymentId } = req.params;
+  async parseWebhook(request) {
+    const secret = process.env.SUMUP_WEBHOOK_SECRET;
+    enforceSignature("sumup", secret ? verifySumUpSignature(request, secret) : null);
 
-    if (!paymentId) {
-      return res.status(400).json({
-        success: false,
-        message: "ID pagamento mancante"
-      });
+    const webhookData = JSON.parse(request.rawBody);
+    console.log('SumUp webhook received:', webhookData);
+
+    // SumUp webhook events typically include: checkout.updated, transaction.created
+    if (webhookData.event_type !== 'checkout.updated' && webhookData.event_type !== 'transaction.created') {
+      return [];
+    }
+    const checkout: SumUpCheckout | undefined = webhookData.checkout || webhookData.data;
+    if (!checkout) return [];
+
+    if (checkout.status === 'REFUNDED' || checkout.status === 'CHARGE_BACK') {
+      // Rimborso dalla dashboard SumUp o contestazione: si registra sul pagamento del checkout
+      return [{
+        type: "refund",
+        providerPaymentId: checkout.id,
+        providerRefundId: `sumup_${checkout.status.toLowerCase()}_${checkout.transaction_code || checkout.id}`,
+        amount: Number(checkout.amount),
+        kind: checkout.status === 'CHARGE_BACK' ? RefundKind.CHARGEBACK : RefundKind.REFUND,
+        reason: checkout.status === 'CHARGE_BACK' ? "Contestazione SumUp" : "Rimborso da SumUp",
+      }];
     }
 
+    return [{
+      type: "payment",
+      providerPaymentId: checkout.id,
+      orderId: checkout.checkout_reference,
+      status: normalizePaymentStatus("sumup", checkout.status),
+      rawStatus: checkout.status,
+    }];
+  },
+
+  // SumUp rimborsa le transazioni, non i checkout: l'ID della transazione si legge dal checkout
+  async refund(payment, amount) {
     if (!process.env.SUMUP_API_KEY) {
-      return res.status(500).json({
-        success: false,
-        message: "Configurazione SumUp non completa"
-      });
+      throw new Error("Configurazione SumUp non completa - API Key mancante");
     }
-
-    // Use production API
-    const apiBaseUrl = 'https://api.sumup.com';
-
-    // Real SumUp API call to check checkout status
-    const response = await fetch(`${apiBaseUrl}/v0.1/checkouts/${paymentId}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${process.env.SUMUP_API_KEY}`,
-        'Content-Type': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('SumUp status check error:', response.status, errorData);
-      return res.status(response.status).json({
-        success: false,
-        message: `Errore verifica stato SumUp: ${response.status}`,
-        details: errorData
-      });
+    if (!payment.paymentIntentId) {
+      throw new Error('Checkout SumUp non registrato per questo pagamento');
     }
 
-    const checkoutStatus = await response.json();
-    console.log('SumUp payment status:', checkoutStatus);
-
-    // Transform SumUp status to our format
-    const status = {
-      id: paymentId,
-      status: checkoutStatus.status,
-      localStatus: checkoutStatus.status === 'PAID' ? 'completed' : 'pending',
-      amount: checkoutStatus.amount,
-      currency: checkoutStatus.currency,
-      date: checkoutStatus.date,
-      transaction_code: checkoutStatus.transaction_code
-    };
-
-    res.json({
-      success: true,
-      ...status
-    });
-
-  } catch (error: any) {
-    console.error("Errore nel controllo stato pagamento SumUp:", error);
-    res.status(500).json({
-      success: false,
-      message: "Errore nel controllo dello stato del pagamento SumUp"
-    });
-  }
-}
-
-/**
- * Handle SumUp webhook
- * Currently returns a mock response for development.
- * TODO: Implement actual SumUp webhook handling and signature verification
- */
-export async function handleSumUpWebhook(req: Request, res: Response) {
-  try {
-    const webhookData = req.body;
-    
-    console.log('SumUp webhook received (mock):', webhookData);
-
-    // Real SumUp webhook processing
-    console.log('SumUp webhook received:', webhookData);
-
-    // SumUp webhook events typically include: checkout.updated, transaction.created
-    if (webhookData.event_type === 'checkout.updated' || webhookData.event_type === 'transaction.created') {
-      const checkout = webhookData.checkout || webhookData.data;
-      
-      if (checkout && checkout.status === 'PAID') {
-        // Extract sigla from checkout metadata or description
-        const sigla = checkout.metadata?.sigla || extractSiglaFromDescription(checkout.description);
-        
-        if (sigla) {
-          try {
-            // Import storage for database operations
-            const { storage } = await import('./storage');
-            
-            // Mark services as paid for this sigla
-            const services = await storage.getServices({ 
-              sigla, 
-              status: 'unpaid', 
-              page: 1, 
-              limit: 100 
-            });
-            for (const service of services.services) {
-              await storage.updateService(service.id, { 
-                status: 'paid'
-              });
-            }
-            console.log(`SumUp payment completed for sigla: ${sigla}`);
-          } catch (dbError) {
-            console.error('Error updating database from SumUp webhook:', dbError);
-          }
-        }
-      }
+    const checkout: SumUpCheckout = await sumupRequest('GET', `/v0.1/checkouts/${payment.paymentIntentId}`);
+    const transactionId = checkout.transactions?.[0]?.id;
+    if (!transactionId) {
+      throw new Error(`Nessuna transazione SumUp per il checkout ${payment.paymentIntentId}`);
     }
 
-    res.status(200).json({
-      success: true,
-      message: "Webhook SumUp processato con successo"
-    });
-
-  } catch (error: any) {
-    console.error("Errore nel processare webhook SumUp:", error);
-    res.status(500).json({
-      success: false,
-      message: "Errore nel processare il webhook SumUp"
-    });
-  }
-}
\ No newline at end of file
+    await sumupRequest('POST', `/v0.1/me/refund/${transactionId}`, { amount: roundEuros(amount) });
+    // SumUp non restituisce un ID per il rimborso
+    return `sumup_refund_${transactionId}_${Date.now()}`;
+  },
+};
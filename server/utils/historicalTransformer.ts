@@ -1,5 +1,9 @@
+import type { ServiceCatalogItem } from '@shared/schema';
+import { matchCatalogCode } from './serviceCatalog';
+import { getFiscalYearOf } from '../fiscalYear';
+
 // Transform historical service row from PDF/TSV format to database format
-export function transformHistoricalServiceRow(row: any): any {
+export function transformHistoricalServiceRow(row: any, catalog: ServiceCatalogItem[] = []): any {
   if (!row || typeof row !== 'object') {
     throw new Error('Invalid row data');
   }
@@ -89,8 +93,14 @@ export function transformHistoricalServiceRow(row: any): any {
     case 'siglaura': // Common typo
       mappedType = 'siglatura';
       break;
-    default:
-      throw new Error(`Unknown service type: ${rawType}`);
+    default: {
+      // Tipi aggiunti al catalogo dopo i file storici (es. stiratura, lavanderia)
+      const catalogCode = matchCatalogCode(rawType, catalog);
+      if (!catalogCode) {
+        throw new Error(`Unknown service type: ${rawType}`);
+      }
+      mappedType = catalogCode;
+    }
   }
   
   // Validate and convert amount (PDF provides total amount, we need per-piece amount)
@@ -129,7 +139,7 @@ export function transformHistoricalServiceRow(row: any): any {
     status: 'paid', // Historical data is assumed paid
     paymentMethod: null,
     notes,
-    archivedYear: parsedDate.getFullYear(), // Use the actual year from the record's date
+    archivedYear: getFiscalYearOf(parsedDate), // Anno fiscale della data del record
     archivedAt: new Date() // Set archived timestamp
   };
 }
\ No newline at end of file
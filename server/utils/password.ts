@@ -0,0 +1,38 @@
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+
+/**
+ * Calcola l'hash scrypt di una password nel formato "<hash>.<salt>"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Indica se una password salvata è ancora in chiaro (utenti creati prima degli hash)
+ */
+export function isLegacyPassword(stored: string): boolean {
+  return !/^[0-9a-f]{128}\.[0-9a-f]{32}$/.test(stored);
+}
+
+/**
+ * Confronta una password fornita con quella salvata, in tempo costante
+ */
+export async function verifyPassword(supplied: string, stored: string): Promise<boolean> {
+  if (isLegacyPassword(stored)) {
+    const a = Buffer.from(supplied);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, KEY_LENGTH)) as Buffer;
+  return timingSafeEqual(hashedBuf, suppliedBuf);
+}
@@ -0,0 +1,110 @@
+import { roundEuros, sumEuros } from "@shared/money";
+
+// Importi minimo e massimo accettati per un pagamento online della segreteria
+export const MIN_ONLINE_PAYMENT = 0.5;
+export const MAX_ONLINE_PAYMENT = 1000;
+
+export interface OutstandingService {
+  id: number;
+  outstanding: number; // Importo del servizio non ancora coperto da pagamenti
+}
+
+export interface PaymentSelection {
+  serviceIds?: number[];
+  amount?: number;
+}
+
+export interface AllocationLine {
+  serviceId: number;
+  amount: number;
+  settled: boolean; // true se la quota copre tutto il residuo del servizio
+}
+
+/**
+ * Calcola lato server l'importo da addebitare per la selezione fatta dallo studente:
+ * servizi scelti (si paga il loro residuo) oppure un importo libero non superiore al dovuto.
+ * Senza selezione si paga tutto il dovuto, come prima.
+ */
+export function resolveCheckoutAmount(
+  outstanding: OutstandingService[],
+  selection: PaymentSelection
+): { amount: number; serviceIds: number[] | null } | { error: string } {
+  const totalDue = sumEuros(outstanding.map(s => s.outstanding));
+
+  if (selection.serviceIds && selection.serviceIds.length > 0) {
+    const selected = outstanding.filter(s => selection.serviceIds!.includes(s.id));
+    if (selected.length !== new Set(selection.serviceIds).size) {
+      return { error: "Alcuni servizi selezionati non sono da pagare per questa sigla" };
+    }
+    const amount = sumEuros(selected.map(s => s.outstanding));
+    return checkBounds(amount) ?? { amount, serviceIds: selected.map(s => s.id) };
+  }
+
+  if (selection.amount !== undefined) {
+    const amount = roundEuros(selection.amount);
+    if (amount > totalDue) {
+      return { error: `L'importo non può superare il dovuto (€${totalDue.toFixed(2)})` };
+    }
+    return checkBounds(amount) ?? { amount, serviceIds: null };
+  }
+
+  return checkBounds(totalDue) ?? { amount: totalDue, serviceIds: null };
+}
+
+function checkBounds(amount: number): { error: string } | undefined {
+  if (!Number.isFinite(amount) || amount < MIN_ONLINE_PAYMENT || amount > MAX_ONLINE_PAYMENT) {
+    return {
+      error: `Importo non valido: €${Number.isFinite(amount) ? amount.toFixed(2) : "NaN"}. Deve essere tra €${MIN_ONLINE_PAYMENT.toFixed(2)} e €${MAX_ONLINE_PAYMENT.toFixed(2)}`,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Ripartisce un pagamento sui servizi nell'ordine dato: ogni servizio riceve al massimo
+ * il suo residuo, l'eventuale eccedenza resta come credito sul conto dello studente.
+ */
+export function planAllocation(
+  amount: number,
+  services: OutstandingService[]
+): { lines: AllocationLine[]; remaining: number } {
+  let remaining = roundEuros(amount);
+  const lines: AllocationLine[] = [];
+
+  for (const service of services) {
+    if (remaining <= 0) break;
+    if (service.outstanding <= 0) continue;
+
+    const share = roundEuros(Math.min(remaining, service.outstanding));
+    lines.push({ serviceId: service.id, amount: share, settled: share >= service.outstanding });
+    remaining = roundEuros(remaining - share);
+  }
+
+  return { lines, remaining };
+}
+
+/**
+ * Storno di un rimborso: prima si usa il credito non ripartito del pagamento,
+ * poi si tolgono le quote ai servizi partendo dall'ultima ripartizione.
+ * "allocationsNewestFirst" contiene le quote nette per servizio, dalla più recente.
+ */
+export function planRefundReversal(
+  amount: number,
+  unallocatedCredit: number,
+  allocationsNewestFirst: Array<{ serviceId: number; amount: number }>
+): { fromCredit: number; lines: Array<{ serviceId: number; amount: number }> } {
+  const fromCredit = roundEuros(Math.min(amount, Math.max(unallocatedCredit, 0)));
+  let toReverse = roundEuros(amount - fromCredit);
+  const lines: Array<{ serviceId: number; amount: number }> = [];
+
+  for (const allocation of allocationsNewestFirst) {
+    if (toReverse <= 0) break;
+    if (allocation.amount <= 0) continue;
+
+    const share = roundEuros(Math.min(toReverse, allocation.amount));
+    lines.push({ serviceId: allocation.serviceId, amount: share });
+    toReverse = roundEuros(toReverse - share);
+  }
+
+  return { fromCredit, lines };
+}
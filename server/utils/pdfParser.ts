@@ -3,6 +3,9 @@
  * Converts raw PDF text data into structured format for database import
  */
 
+import type { ServiceCatalogItem } from '@shared/schema';
+import { matchCatalogCode } from './serviceCatalog';
+
 export interface PDFServiceRow {
   date: string; // DD/MM/YYYY
   sigla: string;
@@ -15,9 +18,10 @@ export interface PDFServiceRow {
 /**
  * Parse raw PDF text lines into structured service data
  * @param pdfLines Array of text lines from PDF
+ * @param catalog Service catalog used to recognize service types
  * @returns Array of parsed service rows
  */
-export function parsePDFServices(pdfLines: string[]): PDFServiceRow[] {
+export function parsePDFServices(pdfLines: string[], catalog: ServiceCatalogItem[] = []): PDFServiceRow[] {
   const services: PDFServiceRow[] = [];
   const errors: string[] = [];
   
@@ -39,7 +43,7 @@ export function parsePDFServices(pdfLines: string[]): PDFServiceRow[] {
     }
     
     try {
-      const service = parseServiceLine(line);
+      const service = parseServiceLine(line, catalog);
       if (service) {
         services.push(service);
       }
@@ -65,7 +69,7 @@ export function parsePDFServices(pdfLines: string[]): PDFServiceRow[] {
  * Example: "06/02/2020 97 1 Siglatura € 0,40" (total for 1 piece)
  * Example: "11/02/2020 93 2 Siglatura € 0,80" (total for 2 pieces = 0.40 per piece)
  */
-function parseServiceLine(line: string): PDFServiceRow | null {
+function parseServiceLine(line: string, catalog: ServiceCatalogItem[]): PDFServiceRow | null {
   // Clean up the line
   const cleanLine = line.replace(/→/g, '').trim();
   
@@ -118,7 +122,7 @@ function parseServiceLine(line: string): PDFServiceRow | null {
     type += (i > partIndex ? ' ' : '') + parts[i];
   }
   
-  type = normalizeServiceType(type.trim());
+  type = normalizeServiceType(type.trim(), catalog);
   
   // Parse total amount (remove € and convert to number)
   const amountStr = parts.slice(amountIndex).join(' ');
@@ -162,9 +166,9 @@ function normalizeDateFormat(dateStr: string): string {
 }
 
 /**
- * Normalize service type names to match database enum values
+ * Normalize service type names to match service catalog codes
  */
-function normalizeServiceType(rawType: string): string {
+function normalizeServiceType(rawType: string, catalog: ServiceCatalogItem[]): string {
   const type = rawType.toLowerCase().trim();
   
   // Handle variations in capitalization and spacing
@@ -197,8 +201,8 @@ function normalizeServiceType(rawType: string): string {
       return 'siglatura + kit';
     
     default:
-      // Return as-is and let transformer handle unknown types
-      return rawType;
+      // Codici ed etichette del catalogo, altrimenti lo lasciamo al transformer
+      return matchCatalogCode(type, catalog) || rawType;
   }
 }
 
@@ -272,10 +276,10 @@ export function createSampleHistoricalData(): PDFServiceRow[] {
  * Extract services data from PDF text content
  * This function processes the actual PDF content you provided
  */
-export function extractServicesFromPDFContent(pdfContent: string): PDFServiceRow[] {
+export function extractServicesFromPDFContent(pdfContent: string, catalog: ServiceCatalogItem[] = []): PDFServiceRow[] {
   // Split content into lines
   const lines = pdfContent.split('\n');
   
   // Parse the lines
-  return parsePDFServices(lines);
+  return parsePDFServices(lines, catalog);
 }
\ No newline at end of file
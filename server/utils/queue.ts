@@ -0,0 +1,27 @@
+/*
+ * Regole comuni delle code elaborate in background (webhook dei pagamenti, notifiche email):
+ * attese tra i tentativi e ripresa delle elaborazioni interrotte.
+ */
+
+// Esito di un'operazione rifiutata, che le rotte restituiscono con lo stato HTTP indicato
+export type FlowError = { error: string; status: number };
+
+// Attese tra un tentativo fallito e il successivo; esauriti i tentativi l'elemento resta da rilanciare a mano
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+// Un'elaborazione più lunga di così è considerata interrotta (riavvio del server) e viene ripresa
+const STALE_LOCK_MS = 10 * 60_000;
+
+/**
+ * Quando ritentare dopo il tentativo numero attempts fallito (null = tentativi esauriti)
+ */
+export function nextAttemptAt(attempts: number, nowMs = Date.now()): Date | null {
+  const delay = RETRY_DELAYS_MS[attempts - 1];
+  return delay !== undefined ? new Date(nowMs + delay) : null;
+}
+
+/**
+ * Gli elementi presi in carico prima di questo istante e non conclusi si possono riprendere
+ */
+export function staleLockCutoff(nowMs = Date.now()): Date {
+  return new Date(nowMs - STALE_LOCK_MS);
+}
@@ -0,0 +1,23 @@
+import type { ServiceCatalogItem } from "@shared/schema";
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[_\s]+/g, " ").trim();
+}
+
+/**
+ * Riconosce un tipo di servizio scritto a mano (file storici, export) confrontandolo
+ * con codice ed etichette del catalogo. Restituisce il codice o undefined.
+ */
+export function matchCatalogCode(rawType: string, catalog: ServiceCatalogItem[]): string | undefined {
+  const key = normalizeKey(rawType);
+  if (!key) return undefined;
+
+  const match = catalog.find(item =>
+    normalizeKey(item.code) === key ||
+    normalizeKey(item.labelIt) === key ||
+    normalizeKey(item.labelEn) === key ||
+    // "happyhour" scritto senza spazi
+    normalizeKey(item.code).replace(/ /g, "") === key.replace(/ /g, "")
+  );
+  return match?.code;
+}
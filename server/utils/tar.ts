@@ -0,0 +1,101 @@
+import { gunzipSync, gzipSync } from 'zlib';
+
+/*
+ * Archivi tar (formato ustar) compressi con gzip, apribili con `tar -xzf` e con qualsiasi
+ * programma di archiviazione. Solo file regolari in una cartella piatta: è quanto serve
+ * per gli export dell'archivio annuale.
+ */
+
+export interface TarFile {
+  name: string;
+  content: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+function writeField(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeField(header, value.toString(8).padStart(length - 1, '0') + '\0', offset, length);
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf8');
+}
+
+function checksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // Il campo checksum (148-155) conta come spazi
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+function fileHeader(file: TarFile, mtime: Date): Buffer {
+  if (Buffer.byteLength(file.name) > 100) {
+    throw new Error(`Nome file troppo lungo per l'archivio: ${file.name}`);
+  }
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeField(header, file.name, 0, 100);
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, file.content.length, 124, 12);
+  writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+  header.write('0', 156); // file regolare
+  writeField(header, 'ustar\0', 257, 6);
+  writeField(header, '00', 263, 2);
+  writeField(header, checksum(header).toString(8).padStart(6, '0') + '\0 ', 148, 8);
+  return header;
+}
+
+export function createTarGz(files: TarFile[], mtime: Date = new Date()): Buffer {
+  const blocks: Buffer[] = [];
+  for (const file of files) {
+    blocks.push(fileHeader(file, mtime), file.content);
+    const padding = (BLOCK_SIZE - (file.content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) blocks.push(Buffer.alloc(padding));
+  }
+  // Fine archivio: due blocchi vuoti
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return gzipSync(Buffer.concat(blocks));
+}
+
+/**
+ * Legge i file regolari di un archivio tar, compresso con gzip o no.
+ * Lancia un errore se l'archivio è troncato o un'intestazione è corrotta
+ */
+export function readTarGz(archive: Buffer): TarFile[] {
+  const tar = archive[0] === 0x1f && archive[1] === 0x8b ? gunzipSync(archive) : archive;
+  const files: TarFile[] = [];
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break;
+
+    const expected = parseInt(readString(header, 148, 8).trim(), 8);
+    if (expected !== checksum(header)) {
+      throw new Error(`Intestazione tar corrotta all'offset ${offset}`);
+    }
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = readString(header, 156, 1);
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const start = offset + BLOCK_SIZE;
+    if (start + size > tar.length) {
+      throw new Error(`Archivio troncato: ${name}`);
+    }
+    if (type === '0' || type === '') {
+      files.push({ name: prefix ? `${prefix}/${name}` : name, content: Buffer.from(tar.subarray(start, start + size)) });
+    }
+    offset = start + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return files;
+}
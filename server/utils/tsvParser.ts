@@ -1,5 +1,7 @@
 import { readFileSync } from 'fs';
 import { join } from 'path';
+import type { ServiceCatalogItem } from '@shared/schema';
+import { matchCatalogCode } from './serviceCatalog';
 
 export interface TSVServiceRow {
   date: string;        // DD/MM/YYYY format
@@ -14,8 +16,8 @@ export interface ParsedTSVData {
   errors: string[];
 }
 
-// Normalize service type names
-function normalizeServiceType(type: string): string {
+// Normalize service type names: varianti storiche note, poi codici ed etichette del catalogo
+function normalizeServiceType(type: string, catalog: ServiceCatalogItem[]): string {
   const cleaned = type.toLowerCase().trim();
   
   // Map variations to standard names
@@ -33,7 +35,7 @@ function normalizeServiceType(type: string): string {
     'siglaura': 'siglatura' // Common typo
   };
   
-  return typeMap[cleaned] || cleaned;
+  return typeMap[cleaned] || matchCatalogCode(cleaned, catalog) || cleaned;
 }
 
 // Parse date from DD/MM/YYYY or DDMMYYYY format
@@ -72,7 +74,7 @@ function parseEuroAmount(amountStr: string): number {
   return isNaN(amount) ? 0 : amount;
 }
 
-export function parseTSVFile(filePath: string): ParsedTSVData {
+export function parseTSVFile(filePath: string, catalog: ServiceCatalogItem[] = []): ParsedTSVData {
   const result: ParsedTSVData = {
     services: [],
     errors: []
@@ -121,7 +123,7 @@ export function parseTSVFile(filePath: string): ParsedTSVData {
       }
       
       // Parse and normalize service type
-      const type = normalizeServiceType(typeStr?.trim() || '');
+      const type = normalizeServiceType(typeStr?.trim() || '', catalog);
       if (!type) {
         result.errors.push(`Line ${lineNum}: Missing service type`);
         continue;
@@ -153,7 +155,7 @@ export function parseTSVFile(filePath: string): ParsedTSVData {
   return result;
 }
 
-export function parseAllTSVFiles(): ParsedTSVData {
+export function parseAllTSVFiles(catalog: ServiceCatalogItem[] = []): ParsedTSVData {
   const attachedAssetsDir = join(process.cwd(), 'attached_assets');
   
   const tsvFiles = [
@@ -175,7 +177,7 @@ export function parseAllTSVFiles(): ParsedTSVData {
     const filePath = join(attachedAssetsDir, filename);
     console.log(`Processing file: ${filename}`);
     
-    const result = parseTSVFile(filePath);
+    const result = parseTSVFile(filePath, catalog);
     allResults.services.push(...result.services);
     
     if (result.errors.length > 0) {
@@ -0,0 +1,28 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { describeFiscalYear, fiscalYearLabel, fiscalYearOf, fiscalYearRange } from "./fiscalYear";
+
+describe("fiscal year", () => {
+  it("names a September-August year after the year it starts in", () => {
+    assert.equal(fiscalYearLabel(2025, 9), "2025/26");
+    assert.equal(fiscalYearLabel(2099, 9), "2099/00");
+    assert.equal(fiscalYearLabel(2025, 1), "2025");
+  });
+
+  it("assigns dates to the fiscal year they fall in", () => {
+    assert.equal(fiscalYearOf(new Date(2025, 7, 31, 23, 59), 9), 2024);
+    assert.equal(fiscalYearOf(new Date(2025, 8, 1), 9), 2025);
+    assert.equal(fiscalYearOf(new Date(2026, 0, 15), 9), 2025);
+    assert.equal(fiscalYearOf(new Date(2025, 0, 1), 1), 2025);
+  });
+
+  it("spans from the first day of the start month to the day before the next one", () => {
+    assert.deepEqual(fiscalYearRange(2025, 9), { start: new Date(2025, 8, 1), end: new Date(2026, 8, 1) });
+    assert.deepEqual(describeFiscalYear(2025, 9), {
+      year: 2025, label: "2025/26", startDate: "2025-09-01", endDate: "2026-08-31",
+    });
+    assert.deepEqual(describeFiscalYear(2024, 1), {
+      year: 2024, label: "2024", startDate: "2024-01-01", endDate: "2024-12-31",
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/*
+ * Anno fiscale della residenza. Inizia il primo giorno di startMonth (1 = anno solare,
+ * 9 = settembre-agosto) e si identifica con l'anno in cui inizia: il 2025/26 è il 2025.
+ * È il numero salvato in archivedYear dall'archiviazione annuale.
+ * Server e client lo usano con lo stesso startMonth (GET /api/fiscal-years).
+ */
+
+export interface FiscalYear {
+  year: number;
+  label: string; // "2025/26", oppure "2025" per l'anno solare
+  startDate: string; // primo giorno, YYYY-MM-DD
+  endDate: string; // ultimo giorno, YYYY-MM-DD
+}
+
+function isoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function fiscalYearLabel(year: number, startMonth: number): string {
+  return startMonth === 1 ? String(year) : `${year}/${String((year + 1) % 100).padStart(2, "0")}`;
+}
+
+// Anno fiscale a cui appartiene una data (ora locale)
+export function fiscalYearOf(date: Date, startMonth: number): number {
+  return date.getMonth() + 1 >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+}
+
+// Inizio (incluso) e fine (esclusa) dell'anno fiscale, a mezzanotte ora locale
+export function fiscalYearRange(year: number, startMonth: number): { start: Date; end: Date } {
+  return {
+    start: new Date(year, startMonth - 1, 1),
+    end: new Date(year + 1, startMonth - 1, 1),
+  };
+}
+
+export function describeFiscalYear(year: number, startMonth: number): FiscalYear {
+  const { start, end } = fiscalYearRange(year, startMonth);
+  return {
+    year,
+    label: fiscalYearLabel(year, startMonth),
+    startDate: isoDate(start),
+    endDate: isoDate(new Date(end.getFullYear(), end.getMonth(), 0)),
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatEuros, fromCents, multiplyEuros, roundEuros, sameAmount, sumEuros, toCents } from "./money";
+
+describe("money", () => {
+  it("converts euros to whole cents without binary rounding errors", () => {
+    assert.equal(toCents(2.5), 250);
+    assert.equal(toCents(0.29), 29);
+    assert.equal(toCents(1.005), 101);
+    assert.equal(toCents(-0.5), -50);
+    assert.equal(fromCents(toCents(19.99)), 19.99);
+  });
+
+  it("rounds to the nearest cent", () => {
+    assert.equal(roundEuros(1.234), 1.23);
+    assert.equal(roundEuros(1.235), 1.24);
+    assert.equal(roundEuros(0.1 + 0.2), 0.3);
+  });
+
+  it("sums and multiplies in cents", () => {
+    assert.equal(sumEuros([0.1, 0.2]), 0.3);
+    assert.equal(sumEuros([]), 0);
+    assert.equal(sumEuros(Array(10).fill(0.1)), 1);
+    assert.equal(multiplyEuros(0.35, 3), 1.05);
+  });
+
+  it("compares amounts to the cent", () => {
+    assert.ok(sameAmount(0.1 + 0.2, 0.3));
+    assert.ok(!sameAmount(0.3, 0.31));
+  });
+
+  it("formats amounts with two decimals", () => {
+    assert.equal(formatEuros(2.5), "€2.50");
+    assert.equal(formatEuros(0.1 + 0.2), "€0.30");
+  });
+});
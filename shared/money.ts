@@ -0,0 +1,45 @@
+/*
+ * Importi di denaro: nell'applicazione sono numeri in EUR, nel database e verso i provider
+ * centesimi interi. Somme e confronti passano dai centesimi, così 0.1 + 0.2 fa 0.30
+ * e non servono tolleranze per gli errori di arrotondamento.
+ */
+
+/**
+ * EUR -> centesimi interi, arrotondando al centesimo più vicino
+ */
+export function toCents(euros: number): number {
+  // toPrecision elimina l'errore binario (1.005 * 100 = 100.49999999999999)
+  return Math.round(Number((euros * 100).toPrecision(15)));
+}
+
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Arrotonda un importo in EUR al centesimo
+ */
+export function roundEuros(euros: number): number {
+  return fromCents(toCents(euros));
+}
+
+export function sumEuros(amounts: number[]): number {
+  return fromCents(amounts.reduce((total, amount) => total + toCents(amount), 0));
+}
+
+// Prezzo unitario x pezzi
+export function multiplyEuros(unitPrice: number, quantity: number): number {
+  return fromCents(Math.round(toCents(unitPrice) * quantity));
+}
+
+/**
+ * Due importi uguali al centesimo
+ */
+export function sameAmount(a: number, b: number): boolean {
+  return toCents(a) === toCents(b);
+}
+
+export function formatEuros(euros: number): string {
+  return `€${roundEuros(euros).toFixed(2)}`;
+}
+
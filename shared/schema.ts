@@ -1,8 +1,19 @@
-import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, numeric, boolean, timestamp, jsonb, index, uniqueIndex, customType } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { fromCents, toCents } from "./money";
 
-// Enumerated service types
+// Importo in EUR nel codice, centesimi interi (INTEGER) nel database
+const money = customType<{ data: number; driverData: number | string }>({
+  dataType: () => "integer",
+  toDriver: (euros) => toCents(euros),
+  // SUM() di una colonna integer arriva come stringa (bigint)
+  fromDriver: (cents) => fromCents(Number(cents)),
+});
+
+// Tipi di servizio predefiniti: il catalogo completo è nella tabella service_catalog,
+// questi codici restano per le logiche specifiche (es. siglatura a pezzi)
 export const ServiceType = {
   SIGLATURA: "siglatura",
   HAPPY_HOUR: "happy_hour",
@@ -45,23 +56,97 @@ export const services = pgTable("services", {
   id: serial("id").primaryKey(),
   date: timestamp("date").notNull(),
   sigla: text("sigla").notNull(),
+  // Studente con la stessa sigla, impostato dallo storage (null = sigla senza anagrafica).
+  // Uno studente con servizi non può essere eliminato
+  studentId: integer("student_id").references(() => students.id, { onDelete: "restrict" }),
   pieces: integer("pieces").notNull().default(1),
   type: text("type").notNull(),
-  amount: doublePrecision("amount").notNull(),
+  amount: money("amount_cents").notNull(),
   status: text("status").notNull(),
   paymentMethod: text("payment_method"),  // Metodo di pagamento utilizzato
   notes: text("notes"),
   // Campi per archiviazione annuale
   archivedYear: integer("archived_year"), // Anno di archiviazione (null = attivo)
   archivedAt: timestamp("archived_at"), // Data di archiviazione
+  // Cestino: eliminato dal gestionale, ripristinabile fino all'eliminazione definitiva
+  deletedAt: timestamp("deleted_at"), // null = attivo
+  deletedBy: text("deleted_by"), // Utente (o origine) che l'ha eliminato
+}, (table) => ({
+  studentIdx: index("services_student_idx").on(table.studentId),
+}));
+
+// Catalogo dei tipi di servizio offerti dalla residenza.
+// Il codice è la chiave usata in services.type e price_list.service_type.
+export const serviceCatalog = pgTable("service_catalog", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  labelIt: text("label_it").notNull(),
+  labelEn: text("label_en").notNull(),
+  unitName: text("unit_name").notNull().default("pezzo"), // Unità di misura (pezzo, capo, mese...)
+  variablePrice: boolean("variable_price").notNull().default(false), // Prezzo stabilito caso per caso
+  active: boolean("active").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-// Default service prices
-export const defaultPrices = {
-  [ServiceType.SIGLATURA]: 0.50,
-  [ServiceType.HAPPY_HOUR]: 1.00,
-  [ServiceType.RIPARAZIONE]: 4.00,
-};
+// Schema per la creazione di un tipo di servizio (il prezzo iniziale va nel listino)
+export const insertServiceCatalogSchema = z.object({
+  code: z.string().regex(/^[a-z][a-z0-9_]*$/, { message: "Il codice può contenere solo lettere minuscole, cifre e underscore" }),
+  labelIt: z.string().min(1, "L'etichetta in italiano è obbligatoria"),
+  labelEn: z.string().min(1, "L'etichetta in inglese è obbligatoria"),
+  unitName: z.string().min(1).default("pezzo"),
+  variablePrice: z.boolean().default(false),
+  active: z.boolean().default(true),
+  sortOrder: z.coerce.number().int().default(0),
+  unitPrice: z.coerce.number().positive("Il prezzo deve essere maggiore di zero").optional(),
+}).refine((data) => data.variablePrice || data.unitPrice !== undefined, {
+  message: "Il prezzo unitario è obbligatorio per i servizi a prezzo fisso",
+  path: ["unitPrice"],
+});
+
+// Il codice non si modifica: è già usato dai servizi registrati
+export const updateServiceCatalogSchema = z.object({
+  labelIt: z.string().min(1).optional(),
+  labelEn: z.string().min(1).optional(),
+  unitName: z.string().min(1).optional(),
+  variablePrice: z.boolean().optional(),
+  active: z.boolean().optional(),
+  sortOrder: z.coerce.number().int().optional(),
+});
+
+export type ServiceCatalogItem = typeof serviceCatalog.$inferSelect;
+export type InsertServiceCatalogItem = z.infer<typeof insertServiceCatalogSchema>;
+export type UpdateServiceCatalogItem = z.infer<typeof updateServiceCatalogSchema>;
+// Voce del catalogo con il prezzo di listino in vigore oggi (null se non ancora a listino)
+export type ServiceCatalogEntry = ServiceCatalogItem & { unitPrice: number | null };
+
+// Listino prezzi: prezzo unitario per tipo di servizio con periodo di validità.
+// Un nuovo prezzo chiude il periodo precedente, così gli importi storici non cambiano mai.
+export const priceList = pgTable("price_list", {
+  id: serial("id").primaryKey(),
+  serviceType: text("service_type").notNull(),
+  unitPrice: money("unit_price_cents").notNull(), // Prezzo per pezzo in EUR
+  validFrom: timestamp("valid_from").notNull(), // Inizio validità (incluso)
+  validTo: timestamp("valid_to"), // Fine validità (esclusa), null = in vigore
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  typeValidityIdx: index("price_list_type_validity_idx").on(table.serviceType, table.validFrom),
+}));
+
+// Schema per l'inserimento di un nuovo prezzo nel listino
+export const insertPriceListEntrySchema = z.object({
+  serviceType: z.string().min(1, "Il tipo di servizio è obbligatorio"),
+  unitPrice: z.coerce.number().positive("Il prezzo deve essere maggiore di zero"),
+  validFrom: z.union([
+    z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Data deve essere in formato YYYY-MM-DD" }),
+    z.date()
+  ]),
+  notes: z.string().optional().nullable(),
+});
+
+export type PriceListEntry = typeof priceList.$inferSelect;
+export type InsertPriceListEntry = z.infer<typeof insertPriceListEntrySchema>;
 
 // Service insert schema
 export const insertServiceSchema = createInsertSchema(services).pick({
@@ -72,6 +157,7 @@ export const insertServiceSchema = createInsertSchema(services).pick({
   status: true,
   notes: true,
 }).extend({
+  amount: z.number(),
   // Accept date as string (YYYY-MM-DD or ISO format) or Date object
   date: z.union([
     // Accept simple YYYY-MM-DD format
@@ -108,11 +194,8 @@ export const insertServiceSchema = createInsertSchema(services).pick({
     console.log(`Data convertita in: ${formatted}`);
     return formatted;
   }),
-  type: z.enum([
-    ServiceType.SIGLATURA,
-    ServiceType.HAPPY_HOUR,
-    ServiceType.RIPARAZIONE,
-  ]),
+  // Codice del catalogo servizi: l'esistenza viene verificata dal server
+  type: z.string().min(1, "Il tipo di servizio è obbligatorio"),
   status: z.enum([
     PaymentStatus.PAID,
     PaymentStatus.UNPAID,
@@ -123,12 +206,7 @@ export const insertServiceSchema = createInsertSchema(services).pick({
 export const serviceSearchSchema = z.object({
   query: z.string().optional(),
   sigla: z.string().optional(), // Aggiunto campo per cercare per sigla esatta
-  type: z.enum([
-    "all",
-    ServiceType.SIGLATURA,
-    ServiceType.HAPPY_HOUR,
-    ServiceType.RIPARAZIONE,
-  ]).optional(),
+  type: z.string().optional(), // "all" o un codice del catalogo servizi
   status: z.enum([
     "all",
     PaymentStatus.PAID,
@@ -155,20 +233,90 @@ export type ServiceWithStudent = Service & {
   }
 };
 
-// User schema - keeping it from the template for completeness
+// Ruoli del personale con accesso all'area amministrativa
+export const UserRole = {
+  ADMIN: "admin",
+  SECRETARIAT: "secretariat",
+  MAINTAINER: "maintainer",
+  READ_ONLY: "read_only",
+} as const;
+
+export type UserRoleValue = typeof UserRole[keyof typeof UserRole];
+
+// Capacità richieste dalle rotte dell'API amministrativa (matrice in server/permissions.ts)
+export const Capability = {
+  DASHBOARD_READ: "dashboard:read",
+  SERVICES_READ: "services:read",
+  SERVICES_WRITE: "services:write",
+  PAYMENTS_READ: "payments:read",
+  PAYMENTS_WRITE: "payments:write",
+  STUDENTS_READ: "students:read",
+  STUDENTS_WRITE: "students:write",
+  STUDENTS_IMPORT: "students:import",
+  MAINTENANCE_READ: "maintenance:read",
+  MAINTENANCE_WRITE: "maintenance:write",
+  BIKES_READ: "bikes:read",
+  BIKES_WRITE: "bikes:write",
+  REPORTS_READ: "reports:read",
+  REPORTS_GENERATE: "reports:generate",
+  SEARCH: "search:use",
+  ACCOUNT_SELF: "account:self",
+  USERS_MANAGE: "users:manage",
+  INTEGRATIONS_MANAGE: "integrations:manage",
+  PRICES_MANAGE: "prices:manage",
+  ARCHIVE_MANAGE: "archive:manage",
+  DATA_IMPORT: "data:import",
+  DATABASE_RECOVERY: "database:recovery",
+  AUDIT_READ: "audit:read",
+  SYSTEM_MANAGE: "system:manage",
+} as const;
+
+export type CapabilityValue = typeof Capability[keyof typeof Capability];
+
+// Utenti dello staff (segreteria, manutentori, amministratori)
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // Hash scrypt nel formato "<hash>.<salt>"
+  role: text("role").notNull().default(UserRole.READ_ONLY),
+  displayName: text("display_name"),
+  active: boolean("active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  displayName: true,
+  active: true,
+}).extend({
+  role: z.enum([
+    UserRole.ADMIN,
+    UserRole.SECRETARIAT,
+    UserRole.MAINTAINER,
+    UserRole.READ_ONLY,
+  ]).default(UserRole.READ_ONLY),
+});
+
+// Schema per il login dello staff
+export const loginSchema = z.object({
+  username: z.string().min(1, "Lo username è obbligatorio"),
+  password: z.string().min(1, "La password è obbligatoria"),
+});
+
+// Schema per il cambio password dell'utente corrente
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "La password attuale è obbligatoria"),
+  newPassword: z.string().min(8, "La nuova password deve essere di almeno 8 caratteri"),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// Utente senza hash della password, l'unica forma esposta al client
+export type SafeUser = Omit<User, "password">;
+// Utente corrente restituito da /api/user e /api/login
+export type AuthUser = SafeUser & { capabilities: CapabilityValue[] };
 
 // Enum per lo stato delle richieste di manutenzione
 export const MaintenanceRequestStatus = {
@@ -219,6 +367,9 @@ export const maintenanceRequests = pgTable("maintenance_requests", {
   // Campi per archiviazione annuale
   archivedYear: integer("archived_year"), // Anno di archiviazione (null = attivo)
   archivedAt: timestamp("archived_at"), // Data di archiviazione
+  // Cestino
+  deletedAt: timestamp("deleted_at"), // null = attivo
+  deletedBy: text("deleted_by"),
 });
 
 // Schema per l'inserimento di nuove richieste
@@ -301,8 +452,9 @@ export type PublicMaintenanceRequest = z.infer<typeof publicMaintenanceRequestSc
 // Tabella per gli ordini PayPal
 export const paypalOrders = pgTable("paypal_orders", {
   id: text("id").primaryKey(), // ID dell'ordine PayPal
-  serviceId: integer("service_id").notNull().default(0), // Usiamo default 0 per pagamenti multipli
-  amount: doublePrecision("amount").notNull(),
+  // Servizio pagato dall'ordine (null = più servizi, elencati in paypal_response)
+  serviceId: integer("service_id").references(() => services.id, { onDelete: "set null" }),
+  amount: money("amount_cents").notNull(),
   currency: text("currency").notNull().default("EUR"),
   status: text("status").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -322,6 +474,7 @@ export const insertPaypalOrderSchema = createInsertSchema(paypalOrders).pick({
   status: true,
   paypalResponse: true,
 }).extend({
+  amount: z.number(),
   status: z.enum([
     PaypalOrderStatus.CREATED,
     PaypalOrderStatus.APPROVED,
@@ -354,13 +507,16 @@ export type PaypalOrderSearch = z.infer<typeof paypalOrderSearchSchema>;
 // Tabella per le ricevute
 export const receipts = pgTable("receipts", {
   id: serial("id").primaryKey(),
-  serviceId: integer("service_id").notNull(),
+  // Un servizio con ricevute non può essere eliminato (null = servizio mancante già prima dei vincoli)
+  serviceId: integer("service_id").references(() => services.id, { onDelete: "restrict" }),
   receiptNumber: text("receipt_number").notNull().unique(),
   receiptDate: timestamp("receipt_date").notNull().defaultNow(),
-  amount: doublePrecision("amount").notNull(),
+  amount: money("amount_cents").notNull(),
   paymentMethod: text("payment_method").notNull(),
   notes: text("notes"),
   pdfUrl: text("pdf_url"), // URL del PDF della ricevuta
+  voidedAt: timestamp("voided_at"), // Ricevuta annullata (es. pagamento rimborsato)
+  voidReason: text("void_reason"),
   // Campi per archiviazione annuale
   archivedYear: integer("archived_year"), // Anno di archiviazione (null = attivo)
   archivedAt: timestamp("archived_at"), // Data di archiviazione
@@ -375,6 +531,7 @@ export const insertReceiptSchema = createInsertSchema(receipts).pick({
   notes: true,
   pdfUrl: true,
 }).extend({
+  amount: z.number(),
   receiptDate: z.union([
     z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Data deve essere in formato YYYY-MM-DD" }),
     z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/, { message: "Data ISO non valida" }),
@@ -416,8 +573,13 @@ export const students = pgTable("students", {
   lastName: text("last_name").notNull(),
   email: text("email"), // Optional email field
   phone: text("phone"), // Optional phone field
+  locale: text("locale").notNull().default("it"), // Lingua delle email inviate allo studente (it, en)
+  paymentRemindersOptOut: boolean("payment_reminders_opt_out").notNull().default(false), // Nessun sollecito automatico
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  // Cestino: la sigla resta occupata finché lo studente non viene eliminato definitivamente
+  deletedAt: timestamp("deleted_at"), // null = attivo
+  deletedBy: text("deleted_by"),
 });
 
 // Schema per l'inserimento degli studenti
@@ -427,6 +589,12 @@ export const insertStudentSchema = createInsertSchema(students).pick({
   lastName: true,
   email: true,
   phone: true,
+  locale: true,
+  paymentRemindersOptOut: true,
+}).extend({
+  // L'indirizzo finisce nelle email inviate allo studente: niente testo libero
+  email: z.string().trim().email("Email non valida").nullish(),
+  locale: z.enum(["it", "en"]).optional(),
 });
 
 // Schema per la ricerca degli studenti
@@ -444,6 +612,53 @@ export type InsertStudent = z.infer<typeof insertStudentSchema>;
 export type Student = typeof students.$inferSelect;
 export type StudentSearch = z.infer<typeof studentSearchSchema>;
 
+// Codici di accesso al portale studenti: il link via email e il codice a 6 cifre valgono
+// una volta sola e sono salvati solo come hash
+export const studentLoginCodes = pgTable("student_login_codes", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull().references(() => students.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0), // Codici errati inseriti
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  studentIdx: index("student_login_codes_student_idx").on(table.studentId),
+}));
+
+export type StudentLoginCode = typeof studentLoginCodes.$inferSelect;
+export type InsertStudentLoginCode = typeof studentLoginCodes.$inferInsert;
+
+export const studentLoginRequestSchema = z.object({
+  sigla: z.string().trim().min(1, "La sigla è obbligatoria"),
+});
+
+// Accesso con il link dell'email (token) oppure con sigla e codice
+export const studentLoginVerifySchema = z.union([
+  z.object({ token: z.string().min(1) }),
+  z.object({
+    sigla: z.string().trim().min(1, "La sigla è obbligatoria"),
+    code: z.string().regex(/^\d{6}$/, "Il codice è di 6 cifre"),
+  }),
+]);
+
+export type StudentLoginVerify = z.infer<typeof studentLoginVerifySchema>;
+
+export type StudentPortalReceipt = Receipt & { serviceType: string | null; serviceDate: Service["date"] | null };
+
+// Quello che lo studente vede di sé nel portale: niente note interne della segreteria
+export type StudentPortalOverview = {
+  student: Pick<Student, "sigla" | "firstName" | "lastName" | "email">;
+  outstandingServices: OutstandingServiceRow[];
+  totalOutstanding: number;
+  services: Service[];
+  payments: Pick<SecretariatPayment, "id" | "orderId" | "amount" | "status" | "paymentMethod" | "paymentDate" | "createdAt">[];
+  receipts: StudentPortalReceipt[];
+  maintenanceRequests: Pick<MaintenanceRequest, "id" | "timestamp" | "place" | "specificLocation" | "defectDetails" | "status" | "priority" | "completedAt">[];
+  bikeReservations: BikeReservationDetail[];
+};
+
 // Stati delle prenotazioni bici
 export const BikeReservationStatus = {
   PENDING_PAYMENT: "pending_payment",
@@ -456,6 +671,40 @@ export const BikeReservationStatus = {
 
 export type BikeReservationStatusValue = typeof BikeReservationStatus[keyof typeof BikeReservationStatus];
 
+/**
+ * Passaggi di stato consentiti per una prenotazione bici: dopo il pagamento la segreteria
+ * approva o rifiuta, una prenotazione approvata si chiude con la riconsegna o si annulla.
+ * Rifiutate, completate e annullate sono stati finali.
+ */
+export const BIKE_RESERVATION_TRANSITIONS: Record<BikeReservationStatusValue, BikeReservationStatusValue[]> = {
+  [BikeReservationStatus.PENDING_PAYMENT]: [BikeReservationStatus.PAID, BikeReservationStatus.CANCELLED],
+  [BikeReservationStatus.PAID]: [BikeReservationStatus.APPROVED, BikeReservationStatus.REJECTED, BikeReservationStatus.CANCELLED],
+  [BikeReservationStatus.APPROVED]: [BikeReservationStatus.COMPLETED, BikeReservationStatus.CANCELLED],
+  [BikeReservationStatus.REJECTED]: [],
+  [BikeReservationStatus.COMPLETED]: [],
+  [BikeReservationStatus.CANCELLED]: [],
+};
+
+export function canTransitionBikeReservation(from: string, to: BikeReservationStatusValue): boolean {
+  return BIKE_RESERVATION_TRANSITIONS[from as BikeReservationStatusValue]?.includes(to) ?? false;
+}
+
+// Prenotazioni che occupano un posto nella fascia oraria
+export const ACTIVE_BIKE_RESERVATION_STATUSES: BikeReservationStatusValue[] = [
+  BikeReservationStatus.PENDING_PAYMENT,
+  BikeReservationStatus.PAID,
+  BikeReservationStatus.APPROVED,
+];
+
+// Stato delle bici della flotta (una bici fuori in prestito resta "available": lo dice la prenotazione)
+export const BikeStatus = {
+  AVAILABLE: "available",
+  MAINTENANCE: "maintenance",
+  RETIRED: "retired",
+} as const;
+
+export type BikeStatusValue = typeof BikeStatus[keyof typeof BikeStatus];
+
 // Stati dei pagamenti della segreteria
 export const SecretariatPaymentStatus = {
   PENDING: "pending",
@@ -474,13 +723,14 @@ export const secretariatPayments = pgTable("secretariat_payments", {
   sigla: text("sigla").notNull(),
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email").notNull().default(""),
-  amount: doublePrecision("amount").notNull(),
+  amount: money("amount_cents").notNull(),
   currency: text("currency").notNull().default("EUR"),
   status: text("status").notNull().default(SecretariatPaymentStatus.PENDING),
   paymentMethod: text("payment_method").notNull().default("stripe"), // stripe, satispay, paypal
   paymentIntentId: text("payment_intent_id"), // Stripe Payment Intent ID o Satispay Payment ID
   paymentDate: timestamp("payment_date"),
   metadata: text("metadata"), // JSON per dati extra
+  requestedServiceIds: integer("requested_service_ids").array(), // Servizi scelti dallo studente (null = dal più vecchio)
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   // Campi per archiviazione annuale
@@ -500,7 +750,9 @@ export const insertSecretariatPaymentSchema = createInsertSchema(secretariatPaym
   paymentMethod: true,
   paymentIntentId: true,
   metadata: true,
+  requestedServiceIds: true,
 }).extend({
+  amount: z.number(),
   status: z.enum([
     SecretariatPaymentStatus.PENDING,
     SecretariatPaymentStatus.PROCESSING,
@@ -513,6 +765,415 @@ export const insertSecretariatPaymentSchema = createInsertSchema(secretariatPaym
 export type InsertSecretariatPayment = z.infer<typeof insertSecretariatPaymentSchema>;
 export type SecretariatPayment = typeof secretariatPayments.$inferSelect;
 
+// Scelta dello studente al checkout: alcuni servizi oppure un importo libero (altrimenti tutto il dovuto)
+export const paymentSelectionSchema = z.object({
+  serviceIds: z.array(z.coerce.number().int().positive()).optional(),
+  amount: z.coerce.number().positive("L'importo deve essere maggiore di zero").optional(),
+});
+
+export type PaymentSelection = z.infer<typeof paymentSelectionSchema>;
+
+// Richiesta pubblica di pagamento verso un provider (/api/public/payments/:provider)
+export const checkoutRequestSchema = paymentSelectionSchema.extend({
+  sigla: z.string().min(1, "La sigla è obbligatoria"),
+  customerName: z.string().min(1, "Il nome è obbligatorio"),
+  customerEmail: z.string().email().optional(),
+  description: z.string().optional(),
+});
+
+export type CheckoutRequest = z.infer<typeof checkoutRequestSchema>;
+
+// Ripartizione di un pagamento completato sui servizi: un servizio è pagato
+// quando la somma delle sue quote copre l'importo
+export const paymentAllocations = pgTable("payment_allocations", {
+  id: serial("id").primaryKey(),
+  secretariatPaymentId: integer("secretariat_payment_id").notNull()
+    .references(() => secretariatPayments.id, { onDelete: "cascade" }),
+  // Eliminando il servizio la quota resta sul conto dello studente come credito
+  serviceId: integer("service_id").notNull().references(() => services.id, { onDelete: "cascade" }),
+  amount: money("amount_cents").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  paymentIdx: index("payment_allocations_payment_idx").on(table.secretariatPaymentId),
+  serviceIdx: index("payment_allocations_service_idx").on(table.serviceId),
+}));
+
+export type PaymentAllocation = typeof paymentAllocations.$inferSelect;
+
+// Rimborso chiesto dalla segreteria oppure contestazione (chargeback) aperta dal titolare della carta
+export const RefundKind = {
+  REFUND: "refund",
+  CHARGEBACK: "chargeback",
+} as const;
+
+export type RefundKindValue = typeof RefundKind[keyof typeof RefundKind];
+
+export const RefundStatus = {
+  COMPLETED: "completed",
+  FAILED: "failed", // Il provider ha rifiutato il rimborso: nessun effetto su conto e servizi
+  REVERSED: "reversed", // Contestazione vinta: l'importo è tornato alla residenza
+} as const;
+
+export type RefundStatusValue = typeof RefundStatus[keyof typeof RefundStatus];
+
+// Rimborsi e contestazioni dei pagamenti della segreteria
+export const paymentRefunds = pgTable("payment_refunds", {
+  id: serial("id").primaryKey(),
+  secretariatPaymentId: integer("secretariat_payment_id").notNull()
+    .references(() => secretariatPayments.id, { onDelete: "restrict" }),
+  kind: text("kind").notNull().default(RefundKind.REFUND),
+  status: text("status").notNull(),
+  amount: money("amount_cents").notNull(), // EUR, positivo
+  reason: text("reason"),
+  provider: text("provider").notNull(), // Metodo di pagamento del pagamento originale
+  providerRefundId: text("provider_refund_id").unique(), // ID rimborso/contestazione presso il provider
+  initiatedBy: text("initiated_by").notNull(), // "staff" dal gestionale, "provider" dai webhook
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  paymentIdx: index("payment_refunds_payment_idx").on(table.secretariatPaymentId),
+}));
+
+// Richiesta di rimborso dal gestionale: senza importo si rimborsa tutto il rimborsabile
+export const refundRequestSchema = z.object({
+  amount: z.coerce.number().positive("L'importo deve essere maggiore di zero").optional(),
+  reason: z.string().min(1, "Il motivo del rimborso è obbligatorio"),
+});
+
+export type PaymentRefund = typeof paymentRefunds.$inferSelect;
+export type InsertPaymentRefund = typeof paymentRefunds.$inferInsert;
+export type RefundRequest = z.infer<typeof refundRequestSchema>;
+
+// Esiti che il simulatore dei provider può dare a un pagamento (solo sviluppo e test)
+export const SimulatedOutcome = {
+  SUCCESS: "success",
+  FAILURE: "failure",
+  CANCEL: "cancel",
+} as const;
+
+export type SimulatedOutcomeValue = typeof SimulatedOutcome[keyof typeof SimulatedOutcome];
+
+export const simulatedOutcomeSchema = z.object({
+  outcome: z.enum([SimulatedOutcome.SUCCESS, SimulatedOutcome.FAILURE, SimulatedOutcome.CANCEL]),
+});
+
+// Origine di un giro di riconciliazione dei pagamenti
+export const ReconciliationTrigger = {
+  SCHEDULER: "scheduler",
+  MANUAL: "manual",
+} as const;
+
+export type ReconciliationTriggerValue = typeof ReconciliationTrigger[keyof typeof ReconciliationTrigger];
+
+// Esito della verifica di un pagamento presso il provider
+export const ReconciliationOutcome = {
+  FIXED: "fixed", // Stato aggiornato con quello del provider
+  STILL_STUCK: "still_stuck", // Il provider non ha ancora un esito definitivo
+  UNSUPPORTED: "unsupported", // Provider senza API di stato o ID del provider non salvato
+  ERROR: "error", // Chiamata al provider fallita
+} as const;
+
+export type ReconciliationOutcomeValue = typeof ReconciliationOutcome[keyof typeof ReconciliationOutcome];
+
+// Storico dei giri di riconciliazione dei pagamenti rimasti in attesa o in lavorazione
+export const reconciliationRuns = pgTable("reconciliation_runs", {
+  id: serial("id").primaryKey(),
+  trigger: text("trigger").notNull(),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"), // null = giro in corso o interrotto
+  checked: integer("checked").notNull().default(0),
+  fixed: integer("fixed").notNull().default(0),
+  stillStuck: integer("still_stuck").notNull().default(0), // Comprende i pagamenti non verificabili
+  errors: integer("errors").notNull().default(0),
+  errorMessage: text("error_message"), // Errore che ha interrotto l'intero giro
+});
+
+export const reconciliationItems = pgTable("reconciliation_items", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => reconciliationRuns.id, { onDelete: "cascade" }),
+  secretariatPaymentId: integer("secretariat_payment_id").notNull()
+    .references(() => secretariatPayments.id, { onDelete: "cascade" }),
+  orderId: text("order_id").notNull(),
+  sigla: text("sigla").notNull(),
+  provider: text("provider").notNull(),
+  previousStatus: text("previous_status").notNull(),
+  newStatus: text("new_status").notNull(),
+  providerStatus: text("provider_status"), // Stato grezzo restituito dal provider
+  outcome: text("outcome").notNull(),
+  message: text("message"), // Perché il pagamento è ancora bloccato
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  runIdx: index("reconciliation_items_run_idx").on(table.runId),
+  paymentIdx: index("reconciliation_items_payment_idx").on(table.secretariatPaymentId),
+}));
+
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
+export type ReconciliationItem = typeof reconciliationItems.$inferSelect;
+export type InsertReconciliationItem = typeof reconciliationItems.$inferInsert;
+export type ReconciliationRunDetail = ReconciliationRun & { items: ReconciliationItem[] };
+
+// Stato di un webhook nella coda di elaborazione
+export const WebhookEventStatus = {
+  PENDING: "pending", // Ricevuto, in attesa del worker
+  PROCESSING: "processing",
+  PROCESSED: "processed",
+  FAILED: "failed", // Elaborazione fallita, nuovo tentativo programmato
+  DEAD: "dead", // Tentativi esauriti: serve un replay manuale
+} as const;
+
+export type WebhookEventStatusValue = typeof WebhookEventStatus[keyof typeof WebhookEventStatus];
+
+// Webhook ricevuti dai provider: ognuno viene elaborato una sola volta, anche se il provider lo reinvia
+export const webhookEvents = pgTable("webhook_events", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(),
+  eventId: text("event_id").notNull(), // ID dell'evento presso il provider, o impronta del corpo se il provider non lo fornisce
+  status: text("status").notNull().default(WebhookEventStatus.PENDING),
+  events: jsonb("events").notNull(), // Eventi normalizzati letti dal webhook dopo la verifica della firma
+  rawBody: text("raw_body").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"), // Inizio dell'elaborazione in corso
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  processedAt: timestamp("processed_at"),
+}, (table) => ({
+  providerEventIdx: uniqueIndex("webhook_events_provider_event_idx").on(table.provider, table.eventId),
+  dueIdx: index("webhook_events_due_idx").on(table.status, table.nextAttemptAt),
+}));
+
+export const webhookEventSearchSchema = z.object({
+  provider: z.string().optional(),
+  status: z.string().optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().optional().default(25),
+});
+
+export type WebhookInboxEvent = typeof webhookEvents.$inferSelect;
+export type InsertWebhookInboxEvent = typeof webhookEvents.$inferInsert;
+export type WebhookEventSearch = z.infer<typeof webhookEventSearchSchema>;
+
+// Notifiche email allo studente, scritte nella outbox e inviate dal worker
+export const NotificationKind = {
+  PAYMENT_COMPLETED: "payment_completed", // Con la ricevuta PDF allegata
+  MAINTENANCE_STATUS: "maintenance_status",
+  UNPAID_SERVICES: "unpaid_services", // Il dovuto della sigla ha superato la soglia
+  BIKE_RESERVATION_STATUS: "bike_reservation_status",
+  PAYMENT_REMINDER: "payment_reminder", // Sollecito dei servizi non pagati da tempo
+} as const;
+
+export type NotificationKindValue = typeof NotificationKind[keyof typeof NotificationKind];
+
+export const NotificationStatus = {
+  PENDING: "pending", // In attesa del worker
+  SENDING: "sending",
+  SENT: "sent",
+  FAILED: "failed", // Invio fallito, nuovo tentativo programmato
+  DEAD: "dead", // Tentativi esauriti: serve un nuovo invio manuale
+} as const;
+
+export type NotificationStatusValue = typeof NotificationStatus[keyof typeof NotificationStatus];
+
+// Lingue dei testi delle email
+export const NotificationLocale = {
+  IT: "it",
+  EN: "en",
+} as const;
+
+export type NotificationLocaleValue = typeof NotificationLocale[keyof typeof NotificationLocale];
+
+export const notificationOutbox = pgTable("notification_outbox", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(),
+  locale: text("locale").notNull().default(NotificationLocale.IT),
+  recipient: text("recipient").notNull(),
+  payload: jsonb("payload").notNull(), // Dati del messaggio al momento dell'evento
+  // Lo stesso evento notificato due volte (es. webhook ripetuto) produce una sola email
+  dedupeKey: text("dedupe_key").unique(),
+  status: text("status").notNull().default(NotificationStatus.PENDING),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"), // Inizio dell'invio in corso
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+}, (table) => ({
+  dueIdx: index("notification_outbox_due_idx").on(table.status, table.nextAttemptAt),
+}));
+
+export const notificationSearchSchema = z.object({
+  kind: z.string().optional(),
+  status: z.string().optional(),
+  recipient: z.string().optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().optional().default(25),
+});
+
+export type Notification = typeof notificationOutbox.$inferSelect;
+export type InsertNotification = typeof notificationOutbox.$inferInsert;
+export type NotificationSearch = z.infer<typeof notificationSearchSchema>;
+
+// Solleciti di pagamento inviati a una sigla: lo storico mostrato nella scheda dello studente
+export const paymentReminders = pgTable("payment_reminders", {
+  id: serial("id").primaryKey(),
+  sigla: text("sigla").notNull(),
+  level: integer("level").notNull(), // 1 = primo sollecito; dal livello di escalation il tono è di ultimo avviso
+  serviceIds: jsonb("service_ids").$type<number[]>().notNull(), // Servizi scaduti compresi nel sollecito
+  totalOutstanding: money("total_outstanding_cents").notNull(), // EUR
+  recipient: text("recipient").notNull(),
+  escalated: boolean("escalated").notNull().default(false),
+  notificationId: integer("notification_id").references(() => notificationOutbox.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  siglaIdx: index("payment_reminders_sigla_idx").on(table.sigla, table.createdAt),
+}));
+
+export type PaymentReminder = typeof paymentReminders.$inferSelect;
+export type InsertPaymentReminder = typeof paymentReminders.$inferInsert;
+// Sollecito con lo stato dell'email nella outbox
+export type PaymentReminderWithStatus = PaymentReminder & { notificationStatus: string | null };
+export type PaymentReminderHistory = { reminders: PaymentReminderWithStatus[]; optOut: boolean };
+
+// Servizio non pagato con la parte già coperta da pagamenti parziali
+export type OutstandingServiceRow = Service & { allocated: number; outstanding: number };
+
+// Tipi di movimento del conto studente
+export const LedgerEntryKind = {
+  CHARGE: "charge",
+  PAYMENT: "payment",
+  REFUND: "refund",
+  ADJUSTMENT: "adjustment",
+} as const;
+
+export type LedgerEntryKindValue = typeof LedgerEntryKind[keyof typeof LedgerEntryKind];
+
+// Conto studente (per sigla): movimenti append-only, il saldo è la somma degli importi.
+// Importo positivo = addebito (lo studente deve), negativo = accredito (pagamento o credito).
+export const studentLedger = pgTable("student_ledger", {
+  id: serial("id").primaryKey(),
+  sigla: text("sigla").notNull(),
+  kind: text("kind").notNull(),
+  amount: money("amount_cents").notNull(), // EUR, con segno
+  description: text("description").notNull(),
+  serviceId: integer("service_id"), // Servizio che ha generato il movimento (senza vincolo: resta dopo l'eliminazione)
+  secretariatPaymentId: integer("secretariat_payment_id"), // Pagamento online collegato
+  paymentMethod: text("payment_method"),
+  occurredAt: timestamp("occurred_at").notNull(), // Data contabile del movimento
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  siglaIdx: index("student_ledger_sigla_idx").on(table.sigla, table.occurredAt),
+  // Un pagamento online è registrato a conto una sola volta
+  paymentIdx: uniqueIndex("student_ledger_payment_idx").on(table.secretariatPaymentId).where(sql`kind = 'payment'`),
+}));
+
+// Rettifica manuale del conto: importo negativo per un credito, positivo per un addebito
+export const insertLedgerAdjustmentSchema = z.object({
+  amount: z.coerce.number().refine((value) => value !== 0, { message: "L'importo non può essere zero" }),
+  description: z.string().min(1, "La causale è obbligatoria"),
+  occurredAt: z.coerce.date().optional(),
+});
+
+export type StudentLedgerEntry = typeof studentLedger.$inferSelect;
+export type InsertStudentLedgerEntry = typeof studentLedger.$inferInsert;
+export type InsertLedgerAdjustment = z.infer<typeof insertLedgerAdjustmentSchema>;
+
+// Estratto conto: movimenti in ordine cronologico con il saldo progressivo
+export type StudentLedger = {
+  sigla: string;
+  entries: Array<StudentLedgerEntry & { balance: number }>;
+  totals: Record<LedgerEntryKindValue, number>;
+  balance: number;
+};
+
+// Flotta delle bici a noleggio
+export const bikes = pgTable("bikes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // Numero sul telaio, es. "B-07"
+  description: text("description"),
+  status: text("status").notNull().default(BikeStatus.AVAILABLE),
+  lastServiceAt: timestamp("last_service_at"), // Ultimo intervento di manutenzione
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertBikeSchema = createInsertSchema(bikes).pick({
+  code: true,
+  description: true,
+  status: true,
+  lastServiceAt: true,
+  notes: true,
+}).extend({
+  code: z.string().trim().min(1),
+  status: z.enum([BikeStatus.AVAILABLE, BikeStatus.MAINTENANCE, BikeStatus.RETIRED]).optional(),
+  lastServiceAt: z.coerce.date().nullable().optional(),
+});
+
+export const updateBikeSchema = insertBikeSchema.partial();
+
+export type InsertBike = z.infer<typeof insertBikeSchema>;
+export type UpdateBike = z.infer<typeof updateBikeSchema>;
+export type Bike = typeof bikes.$inferSelect;
+
+// Bici con la prenotazione che la tiene fuori in questo momento
+export type BikeWithUsage = Bike & {
+  currentReservation: Pick<BikeReservation, "id" | "sigla" | "customerName" | "pickedUpAt"> | null;
+};
+
+// Fasce orarie prenotabili: capacity è il numero di bici disponibili nella fascia
+export const bikeSlots = pgTable("bike_slots", {
+  id: serial("id").primaryKey(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  capacity: integer("capacity").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  startsAtIdx: index("bike_slots_starts_at_idx").on(table.startsAt),
+}));
+
+export const insertBikeSlotSchema = z.object({
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  capacity: z.number().int().positive(),
+  notes: z.string().nullable().optional(),
+}).refine(slot => slot.endsAt > slot.startsAt, {
+  message: "La fascia deve finire dopo l'inizio",
+  path: ["endsAt"],
+});
+
+export const updateBikeSlotSchema = z.object({
+  capacity: z.number().int().positive().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const bikeSlotSearchSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type InsertBikeSlot = z.infer<typeof insertBikeSlotSchema>;
+export type UpdateBikeSlot = z.infer<typeof updateBikeSlotSchema>;
+export type BikeSlotSearch = z.infer<typeof bikeSlotSearchSchema>;
+export type BikeSlot = typeof bikeSlots.$inferSelect;
+
+// Fascia con i posti occupati dalle prenotazioni attive
+export type BikeSlotAvailability = BikeSlot & { booked: number; available: number };
+
+// Ritiro della bici: la segreteria sceglie quale bici consegnare
+export const bikePickupSchema = z.object({
+  bikeId: z.number().int().positive(),
+});
+
+// Riconsegna: needsService manda la bici in manutenzione
+export const bikeReturnSchema = z.object({
+  needsService: z.boolean().optional(),
+  notes: z.string().optional(),
+});
+
+export type BikePickup = z.infer<typeof bikePickupSchema>;
+export type BikeReturn = z.infer<typeof bikeReturnSchema>;
+
 // Tabella per le prenotazioni bici
 export const bikeReservations = pgTable("bike_reservations", {
   id: serial("id").primaryKey(),
@@ -520,18 +1181,26 @@ export const bikeReservations = pgTable("bike_reservations", {
   sigla: text("sigla").notNull(),
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email").notNull(),
-  amount: doublePrecision("amount").notNull().default(2.50),
+  amount: money("amount_cents").notNull().default(2.50),
   currency: text("currency").notNull().default("EUR"),
   status: text("status").notNull().default(BikeReservationStatus.PENDING_PAYMENT),
   paymentDate: timestamp("payment_date"),
   approvalDate: timestamp("approval_date"),
+  // Fascia prenotata e bici consegnata (null per le prenotazioni precedenti alla flotta)
+  slotId: integer("slot_id").references(() => bikeSlots.id, { onDelete: "restrict" }),
+  bikeId: integer("bike_id").references(() => bikes.id, { onDelete: "restrict" }),
+  pickedUpAt: timestamp("picked_up_at"),
+  returnedAt: timestamp("returned_at"),
   notes: text("notes"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   // Campi per archiviazione annuale
   archivedYear: integer("archived_year"), // Anno di archiviazione (null = attivo)
   archivedAt: timestamp("archived_at"), // Data di archiviazione
-});
+}, (table) => ({
+  slotIdx: index("bike_reservations_slot_idx").on(table.slotId),
+  bikeIdx: index("bike_reservations_bike_idx").on(table.bikeId),
+}));
 
 // Schema per l'inserimento delle prenotazioni bici
 export const insertBikeReservationSchema = createInsertSchema(bikeReservations).pick({
@@ -543,6 +1212,9 @@ export const insertBikeReservationSchema = createInsertSchema(bikeReservations).
   currency: true,
   status: true,
   notes: true,
+  slotId: true,
+}).extend({
+  amount: z.number().optional(),
 });
 
 // Schema per la ricerca delle prenotazioni bici
@@ -560,10 +1232,204 @@ export const bikeReservationSearchSchema = z.object({
   ]).optional(),
   startDate: z.string().optional(),
   endDate: z.string().optional(),
+  slotId: z.number().int().positive().optional(),
   page: z.number().int().positive().optional().default(1),
   limit: z.number().int().positive().optional().default(10),
 });
 
+// Prenotazione inserita dalla segreteria: parte in attesa di pagamento, il codice ordine è facoltativo
+export const createBikeReservationSchema = insertBikeReservationSchema.omit({ status: true }).extend({
+  orderId: z.string().min(1).optional(),
+});
+
+// Dati modificabili dalla segreteria; lo stato cambia solo con un passaggio di stato
+export const updateBikeReservationSchema = z.object({
+  customerName: z.string().min(1).optional(),
+  customerEmail: z.string().email().optional(),
+  notes: z.string().nullable().optional(),
+  slotId: z.number().int().positive().optional(), // Spostamento in un'altra fascia
+});
+
+// Passaggio di stato richiesto dalla segreteria, con una nota facoltativa (es. motivo del rifiuto)
+export const bikeReservationTransitionSchema = z.object({
+  status: z.enum([
+    BikeReservationStatus.PENDING_PAYMENT,
+    BikeReservationStatus.PAID,
+    BikeReservationStatus.APPROVED,
+    BikeReservationStatus.REJECTED,
+    BikeReservationStatus.COMPLETED,
+    BikeReservationStatus.CANCELLED,
+  ]),
+  notes: z.string().optional(),
+});
+
 export type InsertBikeReservation = z.infer<typeof insertBikeReservationSchema>;
 export type BikeReservation = typeof bikeReservations.$inferSelect;
 export type BikeReservationSearch = z.infer<typeof bikeReservationSearchSchema>;
+
+// Prenotazione con orari della fascia e numero della bici, per gli elenchi della segreteria
+export type BikeReservationDetail = BikeReservation & {
+  slot: Pick<BikeSlot, "startsAt" | "endsAt"> | null;
+  bikeCode: string | null;
+};
+export type CreateBikeReservation = z.infer<typeof createBikeReservationSchema>;
+export type UpdateBikeReservation = z.infer<typeof updateBikeReservationSchema>;
+export type BikeReservationTransition = z.infer<typeof bikeReservationTransitionSchema>;
+
+// Origine di una modifica ai dati registrata nel log di audit
+export const AuditSource = {
+  UI: "ui",
+  PUBLIC: "public",
+  WEBHOOK: "webhook",
+  SCHEDULER: "scheduler",
+  IMPORT: "import",
+  SYSTEM: "system",
+} as const;
+
+export type AuditSourceValue = typeof AuditSource[keyof typeof AuditSource];
+
+// Tipo di operazione registrata nel log di audit
+export const AuditAction = {
+  CREATE: "create",
+  UPDATE: "update",
+  DELETE: "delete", // Spostato nel cestino
+  RESTORE: "restore", // Ripristinato dal cestino
+  PURGE: "purge", // Eliminato definitivamente
+} as const;
+
+export type AuditActionValue = typeof AuditAction[keyof typeof AuditAction];
+
+// Entità i cui cambiamenti vengono tracciati
+export const AuditEntity = {
+  SERVICE: "service",
+  STUDENT: "student",
+  MAINTENANCE_REQUEST: "maintenance_request",
+  RECEIPT: "receipt",
+  PAYPAL_ORDER: "paypal_order",
+  SECRETARIAT_PAYMENT: "secretariat_payment",
+  BIKE_RESERVATION: "bike_reservation",
+  BIKE: "bike",
+  BIKE_SLOT: "bike_slot",
+  USER: "user",
+  PRICE_LIST: "price_list",
+  SERVICE_CATALOG: "service_catalog",
+  LEDGER_ENTRY: "ledger_entry",
+  PAYMENT_ALLOCATION: "payment_allocation",
+  PAYMENT_REFUND: "payment_refund",
+} as const;
+
+export type AuditEntityValue = typeof AuditEntity[keyof typeof AuditEntity];
+
+// Log di audit append-only: una riga per ogni modifica, mai aggiornata o cancellata
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id").notNull(), // Testo per supportare anche gli ID degli ordini PayPal
+  action: text("action").notNull(),
+  before: jsonb("before"), // Stato prima della modifica (null per create)
+  after: jsonb("after"), // Stato dopo la modifica (null per delete)
+  actorId: integer("actor_id"), // Utente dello staff (null per webhook, scheduler e pagine pubbliche)
+  actorName: text("actor_name"),
+  source: text("source").notNull().default(AuditSource.SYSTEM),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  entityIdx: index("audit_log_entity_idx").on(table.entityType, table.entityId),
+  createdAtIdx: index("audit_log_created_at_idx").on(table.createdAt),
+}));
+
+// Schema per la ricerca nel log di audit
+export const auditLogSearchSchema = z.object({
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  action: z.enum(["all", AuditAction.CREATE, AuditAction.UPDATE, AuditAction.DELETE, AuditAction.RESTORE, AuditAction.PURGE]).optional(),
+  source: z.enum([
+    "all",
+    AuditSource.UI,
+    AuditSource.PUBLIC,
+    AuditSource.WEBHOOK,
+    AuditSource.SCHEDULER,
+    AuditSource.IMPORT,
+    AuditSource.SYSTEM,
+  ]).optional(),
+  actor: z.string().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  page: z.number().int().positive().optional().default(1),
+  limit: z.number().int().positive().optional().default(25),
+});
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLog.$inferInsert;
+export type AuditLogSearch = z.infer<typeof auditLogSearchSchema>;
+
+// Come è stata trattata una riga orfana quando sono stati introdotti i vincoli di integrità
+export const OrphanResolution = {
+  UNLINKED: "unlinked", // Riferimento azzerato, la riga è rimasta
+  DELETED: "deleted", // Riga eliminata (il contenuto resta in row_data)
+} as const;
+
+export type OrphanResolutionValue = typeof OrphanResolution[keyof typeof OrphanResolution];
+
+// Righe che puntavano a dati inesistenti, registrate dalla migrazione delle chiavi esterne
+export const orphanedRows = pgTable("orphaned_rows", {
+  id: serial("id").primaryKey(),
+  tableName: text("table_name").notNull(),
+  rowId: text("row_id").notNull(),
+  columnName: text("column_name").notNull(),
+  missingReference: text("missing_reference").notNull(), // Valore che non trovava corrispondenza
+  resolution: text("resolution").notNull(),
+  rowData: jsonb("row_data").notNull(), // Riga com'era prima della correzione
+  detectedAt: timestamp("detected_at").notNull().defaultNow(),
+});
+
+export type OrphanedRow = typeof orphanedRows.$inferSelect;
+
+// Riepilogo dei dati non collegati: servizi con sigle senza anagrafica, ricevute e ordini
+// senza servizio e le righe corrette dalla migrazione delle chiavi esterne
+export interface OrphanReport {
+  servicesWithoutStudent: { sigla: string; services: number; amount: number }[];
+  receiptsWithoutService: Receipt[];
+  migrationOrphans: OrphanedRow[];
+}
+
+// Esito della conversione degli importi da EUR (double precision) a centesimi interi,
+// una riga per colonna convertita dalla migrazione 0018
+export const moneyConversionReport = pgTable("money_conversion_report", {
+  id: serial("id").primaryKey(),
+  tableName: text("table_name").notNull(),
+  columnName: text("column_name").notNull(),
+  rowCount: integer("row_count").notNull(),
+  totalBefore: numeric("total_before").notNull(), // EUR, somma dei valori originali
+  totalAfterCents: bigint("total_after_cents", { mode: "number" }).notNull(),
+  roundedRows: integer("rounded_rows").notNull(), // Valori che non erano centesimi interi
+  convertedAt: timestamp("converted_at").notNull().defaultNow(),
+});
+
+export type MoneyConversionRow = typeof moneyConversionReport.$inferSelect;
+
+// Verifica della conversione: la differenza è l'effetto degli arrotondamenti al centesimo
+export interface MoneyConversionCheck {
+  tableName: string;
+  columnName: string;
+  rowCount: number;
+  roundedRows: number;
+  totalBefore: number;
+  totalAfter: number;
+  difference: number;
+  convertedAt: Date;
+}
+
+// Cestino: righe eliminate dal gestionale con la data della loro eliminazione definitiva
+export type TrashEntry<T> = T & { purgeAt: Date };
+
+export interface TrashListing<T> {
+  items: TrashEntry<T>[];
+  retentionDays: number;
+}
+
+// Righe eliminate definitivamente da un giro di pulizia del cestino
+export interface TrashPurgeResult {
+  services: number;
+  students: number;
+  maintenanceRequests: number;
+}